@@ -1,7 +1,10 @@
 import Link from "next/link";
+import { headers } from "next/headers";
+import { CalendarFeedSettings } from "@/components/workspace/calendar-feed-settings";
 import { ProfileEditor } from "@/components/workspace/profile-editor";
 import { SummaryTile, WorkspacePanel } from "@/components/workspace/primitives";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
+import { getCalendarFeedToken } from "@/lib/calendar/calendar-feed";
 
 type AccountSettingsPageProps = Readonly<{
   params: Promise<{ workspaceSlug: string }>;
@@ -19,6 +22,15 @@ export default async function AccountSettingsPage({ params }: AccountSettingsPag
     bio: access.user.bio,
   };
 
+  const headerStore = await headers();
+  const host = headerStore.get("x-forwarded-host") ?? headerStore.get("host") ?? "localhost:3000";
+  const protocol =
+    headerStore.get("x-forwarded-proto") ?? (host.startsWith("localhost") ? "http" : "https");
+  const calendarFeedToken = await getCalendarFeedToken(access.uid);
+  const calendarFeedUrl = calendarFeedToken
+    ? `${protocol}://${host}/api/calendar/feed/${encodeURIComponent(calendarFeedToken)}.ics`
+    : "";
+
   return (
     <main className="space-y-6">
       <WorkspacePanel>
@@ -80,6 +92,19 @@ export default async function AccountSettingsPage({ params }: AccountSettingsPag
         </div>
         <ProfileEditor initialProfile={initialProfile} />
       </WorkspacePanel>
+
+      <WorkspacePanel>
+        <div className="mb-4">
+          <h2 className="text-xl font-semibold tracking-tight text-slate-900">Calendar Feed</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            A private iCalendar subscription link for your meetings and action due dates.
+          </p>
+        </div>
+        <CalendarFeedSettings
+          initialFeedUrl={calendarFeedUrl}
+          timezone={access.user.timezone}
+        />
+      </WorkspacePanel>
     </main>
   );
 }
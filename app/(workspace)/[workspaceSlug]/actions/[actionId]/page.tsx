@@ -7,9 +7,13 @@ import {
 import { WorkspacePanel } from "@/components/workspace/primitives";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import { adminDb } from "@/lib/firebase/admin";
+import { resolveActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import { parseCustomFieldValues } from "@/lib/workspace/custom-fields";
 import {
-  type CanonicalHistoryEventType,
-  type CanonicalHistorySource,
+  parseCanonicalHistoryEventType,
+  parseCanonicalHistorySource,
+  parseHistoryFieldChanges,
 } from "@/lib/workspace/history-types";
 import {
   canArchiveRestoreActions,
@@ -65,14 +69,6 @@ function parseDate(value: unknown) {
   return null;
 }
 
-function parseActionStatus(value: unknown): ActionEditorValues["status"] {
-  const status = normalizeText(value);
-  if (status === "open" || status === "blocked" || status === "done") {
-    return status;
-  }
-  return "open";
-}
-
 function parseActionPriority(value: unknown): ActionEditorValues["priority"] {
   const priority = normalizeText(value);
   if (priority === "high" || priority === "medium" || priority === "low") {
@@ -86,27 +82,6 @@ function formatDateInput(value: Date | null) {
   return value.toISOString().slice(0, 10);
 }
 
-function parseHistoryEventType(value: unknown): CanonicalHistoryEventType {
-  const normalized = normalizeText(value);
-  if (
-    normalized === "created" ||
-    normalized === "updated" ||
-    normalized === "archived" ||
-    normalized === "restored"
-  ) {
-    return normalized;
-  }
-  return "updated";
-}
-
-function parseHistorySource(value: unknown): CanonicalHistorySource {
-  const normalized = normalizeText(value);
-  if (normalized === "meetingSync" || normalized === "manual") {
-    return normalized;
-  }
-  return "manual";
-}
-
 function formatHistoryTimestamp(value: unknown) {
   const date = parseDate(value);
   if (!date) return "Unknown time";
@@ -135,7 +110,10 @@ export default async function ActionDetailPage({ params }: ActionDetailPageProps
     .collection("actions")
     .doc(actionId);
 
-  const actionSnapshot = await actionRef.get();
+  const [actionSnapshot, actionWorkflow] = await Promise.all([
+    actionRef.get(),
+    loadWorkspaceActionWorkflow(access.workspaceId),
+  ]);
 
   let initialValues: ActionEditorValues | null = null;
   let isArchived = false;
@@ -157,9 +135,10 @@ export default async function ActionDetailPage({ params }: ActionDetailPageProps
       title: normalizeText(data.title) || normalizeText(data.description) || `Action ${actionId}`,
       description: normalizeText(data.description),
       owner: normalizeText(data.owner) || normalizeText(data.ownerUid) || "Unassigned",
-      status: parseActionStatus(data.status),
+      status: resolveActionState(actionWorkflow, data.status).id,
       priority: parseActionPriority(data.priority),
       project: normalizeText(data.project) || normalizeText(data.teamLabel) || "Workspace",
+      teamId: normalizeText(data.teamId),
       dueDate: formatDateInput(dueAt),
       dueLabel: normalizeText(data.dueLabel),
       meetingId: normalizeText(data.meetingId),
@@ -167,6 +146,7 @@ export default async function ActionDetailPage({ params }: ActionDetailPageProps
       blockedReason: normalizeText(data.blockedReason),
       notes: normalizeText(data.notes),
       mentionUids: normalizeStringArray(data.mentionUids),
+      customFields: parseCustomFieldValues(data.customFields),
     };
 
     const historySnapshot = await actionRef
@@ -184,9 +164,10 @@ export default async function ActionDetailPage({ params }: ActionDetailPageProps
         message:
           normalizeText(event.message) ||
           `Updated action ${actionId}.`,
-        eventType: parseHistoryEventType(event.eventType),
-        source: parseHistorySource(event.source),
+        eventType: parseCanonicalHistoryEventType(event.eventType),
+        source: parseCanonicalHistorySource(event.source),
         atLabel: formatHistoryTimestamp(event.at),
+        changes: parseHistoryFieldChanges(event.metadata),
       };
     });
   }
@@ -240,6 +221,7 @@ export default async function ActionDetailPage({ params }: ActionDetailPageProps
           mode="edit"
           actionId={actionId}
           initialValues={initialValues}
+          actionWorkflow={actionWorkflow}
           isArchived={isArchived}
           canArchiveRestore={canArchiveRestore}
           actorRoleLabel={access.membershipRoleLabel}
@@ -1,6 +1,8 @@
 import { ActionEditor, type ActionEditorValues } from "@/components/workspace/action-editor";
 import { WorkspacePanel } from "@/components/workspace/primitives";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
+import { getDefaultActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
 
 type NewActionPageProps = Readonly<{
   params: Promise<{ workspaceSlug: string }>;
@@ -19,14 +21,16 @@ export default async function NewActionPage({ params }: NewActionPageProps) {
   const access = await requireWorkspaceAccess(workspaceSlug);
   const workspaceSlugForNav = access.workspaceSlug;
   const workspaceName = access.workspaceName || formatWorkspaceName(workspaceSlug) || "Workspace";
+  const actionWorkflow = await loadWorkspaceActionWorkflow(access.workspaceId);
 
   const initialValues: ActionEditorValues = {
     title: "",
     description: "",
     owner: access.user.displayName || "",
-    status: "open",
+    status: getDefaultActionState(actionWorkflow).id,
     priority: "medium",
     project: workspaceName,
+    teamId: "",
     dueDate: "",
     dueLabel: "",
     meetingId: "",
@@ -34,6 +38,7 @@ export default async function NewActionPage({ params }: NewActionPageProps) {
     blockedReason: "",
     notes: "",
     mentionUids: [],
+    customFields: {},
   };
 
   return (
@@ -51,6 +56,7 @@ export default async function NewActionPage({ params }: NewActionPageProps) {
           workspaceSlug={workspaceSlugForNav}
           mode="create"
           initialValues={initialValues}
+          actionWorkflow={actionWorkflow}
         />
       </WorkspacePanel>
     </main>
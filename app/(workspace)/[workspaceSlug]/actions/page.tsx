@@ -5,15 +5,32 @@ import {
 } from "@/components/workspace/workspace-actions-view";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import { adminDb } from "@/lib/firebase/admin";
+import { resolveActionState, type ActionStatusCategory } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import {
+  buildCustomFieldLabels,
+  matchesCustomFieldFilter,
+  parseCustomFieldFilter,
+  parseCustomFieldValues,
+} from "@/lib/workspace/custom-fields";
+import { loadCustomFieldListContext } from "@/lib/workspace/custom-fields-store";
+import {
+  listWorkspaceTeams,
+  parseTeamFilter,
+  resolveRecordTeamId,
+  toTeamOptions,
+} from "@/lib/workspace/teams";
 
 type WorkspaceActionsPageProps = Readonly<{
   params: Promise<{ workspaceSlug: string }>;
   searchParams: Promise<{
     view?: string | string[];
+    team?: string | string[];
+    field?: string | string[];
+    value?: string | string[];
   }>;
 }>;
 
-type ActionStatus = "open" | "done" | "blocked";
 type ActionPriority = "high" | "medium" | "low";
 
 function formatWorkspaceName(workspaceSlug: string) {
@@ -47,14 +64,6 @@ function parseDate(value: unknown): Date | null {
   return null;
 }
 
-function parseActionStatus(value: unknown): ActionStatus {
-  const status = normalizeText(value);
-  if (status === "open" || status === "done" || status === "blocked") {
-    return status;
-  }
-  return "open";
-}
-
 function parseActionPriority(value: unknown): ActionPriority {
   const priority = normalizeText(value);
   if (priority === "high" || priority === "medium" || priority === "low") {
@@ -103,8 +112,8 @@ function isDueSoonDate(value: Date) {
   return diff >= 0 && diff <= twoDaysMs;
 }
 
-function formatUpdatedLabel(date: Date | null, status: ActionStatus) {
-  const prefix = status === "done" ? "Completed" : "Updated";
+function formatUpdatedLabel(date: Date | null, category: ActionStatusCategory) {
+  const prefix = category === "closed" ? "Completed" : "Updated";
   if (!date) return `${prefix} recently`;
 
   return `${prefix} ${date.toLocaleDateString("en-US", { month: "short", day: "numeric" })}`;
@@ -114,6 +123,11 @@ export default async function WorkspaceActionsPage({ params, searchParams }: Wor
   const { workspaceSlug } = await params;
   const resolvedSearchParams = await searchParams;
   const initialView = parseActionView(resolvedSearchParams.view);
+  const activeTeamId = parseTeamFilter(resolvedSearchParams.team);
+  const activeFieldFilter = parseCustomFieldFilter(
+    resolvedSearchParams.field,
+    resolvedSearchParams.value,
+  );
 
   const access = await requireWorkspaceAccess(workspaceSlug);
   const workspaceSlugForNav = access.workspaceSlug;
@@ -129,10 +143,25 @@ export default async function WorkspaceActionsPage({ params, searchParams }: Wor
     topLevelActionSnapshots = await actionsRef.limit(240).get();
   }
 
+  const [teams, customFields, actionWorkflow] = await Promise.all([
+    listWorkspaceTeams(access.workspaceId),
+    loadCustomFieldListContext(access.workspaceId, "action"),
+    loadWorkspaceActionWorkflow(access.workspaceId),
+  ]);
+  const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
   const actions = topLevelActionSnapshots.docs
+    .filter((snapshot) => !activeTeamId || resolveRecordTeamId(snapshot.data()) === activeTeamId)
+    .filter((snapshot) =>
+      matchesCustomFieldFilter(
+        customFields.fields,
+        activeFieldFilter,
+        parseCustomFieldValues(snapshot.get("customFields")),
+      ),
+    )
     .map((snapshot) => {
       const data = snapshot.data() as Record<string, unknown>;
-      const status = parseActionStatus(data.status);
+      const teamId = resolveRecordTeamId(data);
+      const status = resolveActionState(actionWorkflow, data.status);
       const dueAt = parseDate(data.dueAt);
       const updatedAt =
         parseDate(data.updatedAt) ?? parseDate(data.completedAt) ?? parseDate(data.createdAt);
@@ -153,17 +182,25 @@ export default async function WorkspaceActionsPage({ params, searchParams }: Wor
           normalizeText(data.teamLabel) ||
           normalizeText(data.team) ||
           "Workspace",
+        teamName: teamId ? teamNameById.get(teamId) ?? "Unknown team" : undefined,
         dueLabel,
         dueSoon:
-          status === "open" &&
+          status.category === "open" &&
           (dueSoonFlag || (dueAt ? isDueSoonDate(dueAt) : isDueSoonLabel(dueLabel))),
-        status,
+        status: status.id,
+        statusLabel: status.label,
+        statusCategory: status.category,
         priority: parseActionPriority(data.priority),
-        updatedLabel: formatUpdatedLabel(updatedAt, status),
+        updatedLabel: formatUpdatedLabel(updatedAt, status.category),
         meetingId: normalizeText(data.meetingId) || undefined,
         decisionId: normalizeText(data.decisionId) || undefined,
         blockedReason:
-          status === "blocked" ? normalizeText(data.blockedReason) || undefined : undefined,
+          status.category === "blocked" ? normalizeText(data.blockedReason) || undefined : undefined,
+        customFieldLabels: buildCustomFieldLabels(
+          customFields.fields,
+          parseCustomFieldValues(data.customFields),
+          customFields.memberNames,
+        ),
         sortTimestamp: updatedAt?.getTime() ?? dueAt?.getTime() ?? 0,
         archived: data.archived === true,
       } satisfies WorkspaceActionRecord;
@@ -176,6 +213,11 @@ export default async function WorkspaceActionsPage({ params, searchParams }: Wor
       workspaceName={workspaceName}
       actions={actions}
       initialView={initialView}
+      teams={toTeamOptions(teams)}
+      activeTeamId={activeTeamId}
+      customFields={customFields.fields}
+      customFieldMembers={customFields.members}
+      activeFieldFilter={activeFieldFilter}
     />
   );
 }
@@ -0,0 +1,354 @@
+import Link from "next/link";
+import { WorkspacePanel } from "@/components/workspace/primitives";
+import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  loadWorkspaceActivityPage,
+  parseActivityFeedCursor,
+  parseActivityFeedFilters,
+  type ActivityFeedFilters,
+} from "@/lib/workspace/activity-feed";
+import { loadDecisionAccessViewer } from "@/lib/workspace/decision-access";
+import {
+  CANONICAL_ENTITY_TYPE_OPTIONS,
+  CANONICAL_HISTORY_EVENT_TYPE_OPTIONS,
+  CANONICAL_HISTORY_SOURCE_OPTIONS,
+  historyEventTypeLabel,
+  historyEventTypeStyle,
+  historySourceLabel,
+  type CanonicalEntityType,
+} from "@/lib/workspace/history-types";
+
+type WorkspaceActivityPageProps = Readonly<{
+  params: Promise<{ workspaceSlug: string }>;
+  searchParams: Promise<{
+    actor?: string | string[];
+    entity?: string | string[];
+    event?: string | string[];
+    source?: string | string[];
+    after?: string | string[];
+  }>;
+}>;
+
+type ActorOption = {
+  uid: string;
+  label: string;
+};
+
+const ENTITY_LABELS: Record<CanonicalEntityType, string> = {
+  decision: "Decisions",
+  action: "Actions",
+  meeting: "Meetings",
+  member: "Members",
+  invite: "Invites",
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function activityHref(
+  workspaceSlug: string,
+  filters: ActivityFeedFilters,
+  after = "",
+) {
+  const params = new URLSearchParams();
+  if (filters.actorUid) params.set("actor", filters.actorUid);
+  if (filters.entity) params.set("entity", filters.entity);
+  if (filters.eventType) params.set("event", filters.eventType);
+  if (filters.source) params.set("source", filters.source);
+  if (after) params.set("after", after);
+  const serialized = params.toString();
+  return serialized
+    ? `/${workspaceSlug}/activity?${serialized}`
+    : `/${workspaceSlug}/activity`;
+}
+
+function filterChipClass(active: boolean) {
+  return active
+    ? "rounded-md border border-cyan-500 bg-cyan-100 px-3 py-1.5 text-xs font-semibold tracking-[0.08em] text-cyan-950"
+    : "rounded-md border border-slate-400 bg-white px-3 py-1.5 text-xs font-semibold tracking-[0.08em] text-slate-800 transition hover:border-slate-500 hover:bg-slate-100 hover:text-slate-950";
+}
+
+function entityLabel(entity: CanonicalEntityType) {
+  return entity[0].toUpperCase() + entity.slice(1);
+}
+
+function formatActivityTime(epoch: number) {
+  if (!epoch) return "Time unavailable";
+  return new Date(epoch).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatActivityDay(epoch: number) {
+  if (!epoch) return "Undated";
+  return new Date(epoch).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+async function listActorOptions(workspaceId: string): Promise<ActorOption[]> {
+  const memberSnapshots = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("members")
+    .limit(200)
+    .get();
+
+  return memberSnapshots.docs
+    .map((snapshot) => {
+      const data = snapshot.data() as Record<string, unknown>;
+      return {
+        uid: normalizeText(data.uid) || snapshot.id,
+        label: normalizeText(data.displayName) || normalizeText(data.email) || snapshot.id,
+      };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export default async function WorkspaceActivityPage({
+  params,
+  searchParams,
+}: WorkspaceActivityPageProps) {
+  const { workspaceSlug } = await params;
+  const query = await searchParams;
+  const filters = parseActivityFeedFilters(query);
+  const cursor = parseActivityFeedCursor(query.after);
+  const access = await requireWorkspaceAccess(workspaceSlug);
+  const workspaceSlugForNav = access.workspaceSlug;
+
+  const [viewer, actorOptions] = await Promise.all([
+    loadDecisionAccessViewer(access.workspaceId, access.uid),
+    listActorOptions(access.workspaceId),
+  ]);
+  const { entries, nextCursor } = await loadWorkspaceActivityPage({
+    workspaceId: access.workspaceId,
+    workspaceSlug: workspaceSlugForNav,
+    viewer,
+    filters,
+    cursor,
+  });
+
+  const hasFilters = Boolean(
+    filters.actorUid || filters.entity || filters.eventType || filters.source,
+  );
+  const activeActorKnown =
+    !filters.actorUid || actorOptions.some((actor) => actor.uid === filters.actorUid);
+  const actorChips = activeActorKnown
+    ? actorOptions
+    : [...actorOptions, { uid: filters.actorUid, label: "Former member" }];
+
+  const days: Array<{ label: string; entries: typeof entries }> = [];
+  entries.forEach((entry) => {
+    const label = formatActivityDay(entry.atEpoch);
+    const current = days[days.length - 1];
+    if (current && current.label === label) {
+      current.entries.push(entry);
+    } else {
+      days.push({ label, entries: [entry] });
+    }
+  });
+
+  return (
+    <main className="space-y-6">
+      <WorkspacePanel className="border-slate-300 bg-white">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold tracking-[0.2em] text-slate-500">
+              {access.workspaceName}
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-900">Activity</h1>
+            <p className="mt-2 text-sm text-slate-700">
+              Everything that changed across meetings, decisions, actions, and membership.
+            </p>
+          </div>
+          {hasFilters ? (
+            <Link
+              href={activityHref(workspaceSlugForNav, {
+                actorUid: "",
+                entity: "",
+                eventType: "",
+                source: "",
+              })}
+              className="rounded-md border border-slate-400 bg-white px-3 py-1.5 text-xs font-semibold text-slate-900 transition hover:border-slate-600 hover:bg-slate-100"
+            >
+              Clear filters
+            </Link>
+          ) : null}
+        </div>
+
+        <p className="mt-4 text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-800">
+          Record
+        </p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <Link
+            href={activityHref(workspaceSlugForNav, { ...filters, entity: "" })}
+            className={filterChipClass(filters.entity === "")}
+          >
+            All Records
+          </Link>
+          {CANONICAL_ENTITY_TYPE_OPTIONS.map((entity) => (
+            <Link
+              key={`entity-${entity}`}
+              href={activityHref(workspaceSlugForNav, { ...filters, entity })}
+              className={filterChipClass(filters.entity === entity)}
+            >
+              {ENTITY_LABELS[entity]}
+            </Link>
+          ))}
+        </div>
+
+        <p className="mt-3 text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-800">
+          Event
+        </p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <Link
+            href={activityHref(workspaceSlugForNav, { ...filters, eventType: "" })}
+            className={filterChipClass(filters.eventType === "")}
+          >
+            All Events
+          </Link>
+          {CANONICAL_HISTORY_EVENT_TYPE_OPTIONS.map((eventType) => (
+            <Link
+              key={`event-${eventType}`}
+              href={activityHref(workspaceSlugForNav, { ...filters, eventType })}
+              className={filterChipClass(filters.eventType === eventType)}
+            >
+              {historyEventTypeLabel(eventType)}
+            </Link>
+          ))}
+        </div>
+
+        <p className="mt-3 text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-800">
+          Source
+        </p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <Link
+            href={activityHref(workspaceSlugForNav, { ...filters, source: "" })}
+            className={filterChipClass(filters.source === "")}
+          >
+            Any Source
+          </Link>
+          {CANONICAL_HISTORY_SOURCE_OPTIONS.map((source) => (
+            <Link
+              key={`source-${source}`}
+              href={activityHref(workspaceSlugForNav, { ...filters, source })}
+              className={filterChipClass(filters.source === source)}
+            >
+              {historySourceLabel(source)}
+            </Link>
+          ))}
+        </div>
+
+        {actorChips.length > 0 ? (
+          <>
+            <p className="mt-3 text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-800">
+              People
+            </p>
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <Link
+                href={activityHref(workspaceSlugForNav, { ...filters, actorUid: "" })}
+                className={filterChipClass(filters.actorUid === "")}
+              >
+                Everyone
+              </Link>
+              {actorChips.map((actor) => (
+                <Link
+                  key={`actor-${actor.uid}`}
+                  href={activityHref(workspaceSlugForNav, { ...filters, actorUid: actor.uid })}
+                  className={filterChipClass(filters.actorUid === actor.uid)}
+                >
+                  {actor.label}
+                </Link>
+              ))}
+            </div>
+          </>
+        ) : null}
+      </WorkspacePanel>
+
+      <WorkspacePanel className="border-slate-300 bg-white">
+        {days.length === 0 ? (
+          <p className="rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm text-slate-700">
+            {hasFilters ? "No activity matches these filters." : "No activity captured yet."}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {days.map((day) => (
+              <section key={day.label}>
+                <h2 className="border-b border-slate-200 pb-2 text-xs font-semibold tracking-[0.18em] text-slate-500">
+                  {day.label.toUpperCase()}
+                </h2>
+                <ol className="mt-3 space-y-2">
+                  {day.entries.map((entry) => (
+                    <li
+                      key={`${entry.entity}-${entry.entityId}-${entry.id}`}
+                      className="rounded-lg border border-slate-300 bg-white px-4 py-3 shadow-sm"
+                    >
+                      <div className="flex flex-wrap items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="break-words text-sm font-semibold text-slate-900">
+                            {entry.message}
+                          </p>
+                          <p className="mt-1 text-xs text-slate-700">
+                            {entry.actorName} • {formatActivityTime(entry.atEpoch)}
+                          </p>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold tracking-[0.08em]">
+                          <span
+                            className={`rounded-sm border px-2 py-1 ${historyEventTypeStyle(entry.eventType)}`}
+                          >
+                            {historyEventTypeLabel(entry.eventType)}
+                          </span>
+                          <span className="rounded-sm border border-slate-300 bg-white px-2 py-1 text-slate-700">
+                            {historySourceLabel(entry.source)}
+                          </span>
+                          <Link
+                            href={entry.href}
+                            className="rounded-sm border border-slate-300 bg-white px-2 py-1 text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+                          >
+                            {entityLabel(entry.entity)} {entry.entityId}
+                          </Link>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            ))}
+          </div>
+        )}
+
+        {cursor || nextCursor ? (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-2 rounded-sm border border-slate-300 bg-white px-3 py-2">
+            {cursor ? (
+              <Link
+                href={activityHref(workspaceSlugForNav, filters)}
+                className="text-xs font-semibold text-slate-700 transition hover:text-slate-950"
+              >
+                Back to latest
+              </Link>
+            ) : (
+              <span />
+            )}
+            {nextCursor ? (
+              <Link
+                href={activityHref(workspaceSlugForNav, filters, nextCursor)}
+                className="rounded-md border border-slate-400 bg-white px-3 py-1.5 text-xs font-semibold text-slate-900 transition hover:border-slate-600 hover:bg-slate-100"
+              >
+                Older activity
+              </Link>
+            ) : null}
+          </div>
+        ) : null}
+      </WorkspacePanel>
+    </main>
+  );
+}
@@ -1,5 +1,6 @@
 import Link from "next/link";
 import { DecisionEditor, type DecisionEditorValues } from "@/components/workspace/decision-editor";
+import { DecisionLineageTimeline } from "@/components/workspace/decision-lineage-timeline";
 import {
   EntityHistoryPanel,
   type EntityHistoryItem,
@@ -7,12 +8,18 @@ import {
 import { WorkspacePanel } from "@/components/workspace/primitives";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import { adminDb } from "@/lib/firebase/admin";
+import { loadDecisionAccessViewer } from "@/lib/workspace/decision-access";
+import { parseCustomFieldValues } from "@/lib/workspace/custom-fields";
+import type { DecisionLineage } from "@/lib/workspace/decision-lineage";
+import { loadDecisionLineage } from "@/lib/workspace/decision-lineage-store";
 import {
-  type CanonicalHistoryEventType,
-  type CanonicalHistorySource,
+  parseCanonicalHistoryEventType,
+  parseCanonicalHistorySource,
+  parseHistoryFieldChanges,
 } from "@/lib/workspace/history-types";
 import {
   canArchiveRestoreDecisions,
+  canViewDecision,
   parseWorkspaceMemberRole,
 } from "@/lib/auth/permissions";
 
@@ -65,27 +72,6 @@ function normalizeStringArray(value: unknown) {
   return Array.from(unique);
 }
 
-function parseHistoryEventType(value: unknown): CanonicalHistoryEventType {
-  const normalized = normalizeText(value);
-  if (
-    normalized === "created" ||
-    normalized === "updated" ||
-    normalized === "archived" ||
-    normalized === "restored"
-  ) {
-    return normalized;
-  }
-  return "updated";
-}
-
-function parseHistorySource(value: unknown): CanonicalHistorySource {
-  const normalized = normalizeText(value);
-  if (normalized === "meetingSync" || normalized === "manual") {
-    return normalized;
-  }
-  return "manual";
-}
-
 function formatHistoryTimestamp(value: unknown) {
   const date = parseDate(value);
   if (!date) return "Unknown time";
@@ -135,14 +121,23 @@ export default async function DecisionDetailPage({ params }: DecisionDetailPageP
     .collection("decisions")
     .doc(decisionId);
 
-  const decisionSnapshot = await decisionRef.get();
+  const [decisionSnapshot, viewer] = await Promise.all([
+    decisionRef.get(),
+    loadDecisionAccessViewer(access.workspaceId, access.uid),
+  ]);
 
   let initialValues: DecisionEditorValues | null = null;
   let isArchived = false;
   let archivedAtLabel = "";
   let historyEntries: EntityHistoryItem[] = [];
+  let lineage: DecisionLineage | null = null;
 
-  if (decisionSnapshot.exists) {
+  // Decisions hidden by visibility render exactly like missing ones so their
+  // existence is not revealed.
+  if (
+    decisionSnapshot.exists &&
+    canViewDecision(viewer, decisionSnapshot.data() as Record<string, unknown>)
+  ) {
     const data = decisionSnapshot.data() as Record<string, unknown>;
     isArchived = data.archived === true;
     archivedAtLabel =
@@ -158,14 +153,17 @@ export default async function DecisionDetailPage({ params }: DecisionDetailPageP
       owner: normalizeText(data.owner) || normalizeText(data.ownerUid) || "Unassigned",
       status: parseDecisionStatus(data.status),
       visibility: parseDecisionVisibility(data.visibility),
-      teamLabel: normalizeText(data.teamLabel),
+      teamId: normalizeText(data.teamId),
       tags: normalizeStringArray(data.tags),
       meetingId: normalizeText(data.meetingId),
       supersedesDecisionId: normalizeText(data.supersedesDecisionId),
       supersededByDecisionId: normalizeText(data.supersededByDecisionId),
       mentionUids: normalizeStringArray(data.mentionUids),
+      customFields: parseCustomFieldValues(data.customFields),
     };
 
+    lineage = await loadDecisionLineage(access.workspaceId, decisionId, viewer);
+
     const historySnapshot = await decisionRef
       .collection("history")
       .orderBy("at", "desc")
@@ -181,9 +179,10 @@ export default async function DecisionDetailPage({ params }: DecisionDetailPageP
         message:
           normalizeText(event.message) ||
           `Updated decision ${decisionId}.`,
-        eventType: parseHistoryEventType(event.eventType),
-        source: parseHistorySource(event.source),
+        eventType: parseCanonicalHistoryEventType(event.eventType),
+        source: parseCanonicalHistorySource(event.source),
         atLabel: formatHistoryTimestamp(event.at),
+        changes: parseHistoryFieldChanges(event.metadata),
       };
     });
   }
@@ -247,6 +246,10 @@ export default async function DecisionDetailPage({ params }: DecisionDetailPageP
         />
       </WorkspacePanel>
 
+      {lineage ? (
+        <DecisionLineageTimeline workspaceSlug={workspaceSlugForNav} lineage={lineage} />
+      ) : null}
+
       <EntityHistoryPanel
         title="Decision Activity"
         emptyLabel="No activity captured yet."
@@ -27,12 +27,13 @@ export default async function NewDecisionPage({ params }: NewDecisionPageProps)
     owner: access.user.displayName || "",
     status: "proposed",
     visibility: "workspace",
-    teamLabel: "",
+    teamId: "",
     tags: [],
     meetingId: "",
     supersedesDecisionId: "",
     supersededByDecisionId: "",
     mentionUids: [],
+    customFields: {},
   };
 
   return (
@@ -5,11 +5,31 @@ import {
 } from "@/components/workspace/workspace-decisions-view";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import { adminDb } from "@/lib/firebase/admin";
+import {
+  buildCustomFieldLabels,
+  matchesCustomFieldFilter,
+  parseCustomFieldFilter,
+  parseCustomFieldValues,
+} from "@/lib/workspace/custom-fields";
+import { loadCustomFieldListContext } from "@/lib/workspace/custom-fields-store";
+import {
+  filterVisibleDecisionSnapshots,
+  loadDecisionAccessViewer,
+} from "@/lib/workspace/decision-access";
+import {
+  listWorkspaceTeams,
+  parseTeamFilter,
+  resolveRecordTeamId,
+  toTeamOptions,
+} from "@/lib/workspace/teams";
 
 type WorkspaceDecisionsPageProps = Readonly<{
   params: Promise<{ workspaceSlug: string }>;
   searchParams: Promise<{
     view?: string | string[];
+    team?: string | string[];
+    field?: string | string[];
+    value?: string | string[];
   }>;
 }>;
 
@@ -90,6 +110,11 @@ export default async function WorkspaceDecisionsPage({
   const { workspaceSlug } = await params;
   const resolvedSearchParams = await searchParams;
   const initialView = parseDecisionView(resolvedSearchParams.view);
+  const activeTeamId = parseTeamFilter(resolvedSearchParams.team);
+  const activeFieldFilter = parseCustomFieldFilter(
+    resolvedSearchParams.field,
+    resolvedSearchParams.value,
+  );
 
   const access = await requireWorkspaceAccess(workspaceSlug);
   const workspaceSlugForNav = access.workspaceSlug;
@@ -105,9 +130,28 @@ export default async function WorkspaceDecisionsPage({
     topLevelDecisionSnapshots = await decisionsRef.limit(240).get();
   }
 
-  const decisions = topLevelDecisionSnapshots.docs
+  const [viewer, teams, customFields] = await Promise.all([
+    loadDecisionAccessViewer(access.workspaceId, access.uid),
+    listWorkspaceTeams(access.workspaceId),
+    loadCustomFieldListContext(access.workspaceId, "decision"),
+  ]);
+  const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
+  const decisions = filterVisibleDecisionSnapshots(viewer, topLevelDecisionSnapshots.docs)
+    .filter(
+      (snapshot) =>
+        !activeTeamId ||
+        resolveRecordTeamId(snapshot.data() as Record<string, unknown>) === activeTeamId,
+    )
+    .filter((snapshot) =>
+      matchesCustomFieldFilter(
+        customFields.fields,
+        activeFieldFilter,
+        parseCustomFieldValues(snapshot.get("customFields")),
+      ),
+    )
     .map((snapshot) => {
       const data = snapshot.data() as Record<string, unknown>;
+      const teamId = resolveRecordTeamId(data);
       const updatedAt = parseDate(data.updatedAt) ?? parseDate(data.createdAt);
       const visibility = parseDecisionVisibility(data.visibility);
       const allowedTeamIds = parseStringArray(data.allowedTeamIds);
@@ -124,9 +168,17 @@ export default async function WorkspaceDecisionsPage({
         visibility,
         teamLabel:
           visibility === "team"
-            ? normalizeText(data.teamLabel) || allowedTeamIds[0] || undefined
+            ? teamNameById.get(teamId) ||
+              normalizeText(data.teamLabel) ||
+              allowedTeamIds[0] ||
+              undefined
             : undefined,
         tags: parseStringArray(data.tags),
+        customFieldLabels: buildCustomFieldLabels(
+          customFields.fields,
+          parseCustomFieldValues(data.customFields),
+          customFields.memberNames,
+        ),
         updatedLabel: formatUpdatedLabel(updatedAt),
         meetingId: normalizeText(data.meetingId) || undefined,
         supersedesDecisionId: normalizeText(data.supersedesDecisionId) || undefined,
@@ -143,6 +195,11 @@ export default async function WorkspaceDecisionsPage({
       workspaceName={workspaceName}
       decisions={decisions}
       initialView={initialView}
+      teams={toTeamOptions(teams)}
+      activeTeamId={activeTeamId}
+      customFields={customFields.fields}
+      customFieldMembers={customFields.members}
+      activeFieldFilter={activeFieldFilter}
     />
   );
 }
@@ -1,7 +1,9 @@
 import Image from "next/image";
+import { PinnedSearchNav } from "@/components/workspace/pinned-search-nav";
 import { WorkspaceNav } from "@/components/workspace/workspace-nav";
 import { WorkspaceSwitcher } from "@/components/workspace/workspace-switcher";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
+import { listPinnedSavedSearches } from "@/lib/workspace/saved-searches";
 
 type WorkspaceLayoutProps = Readonly<{
   children: React.ReactNode;
@@ -14,6 +16,7 @@ const navItems = [
   { href: "decisions", label: "Decisions" },
   { href: "actions", label: "Actions" },
   { href: "search", label: "Search" },
+  { href: "activity", label: "Activity" },
   { href: "profile", label: "Workspace Profile" },
   { href: "settings", label: "Workspace Settings" },
 ];
@@ -30,6 +33,7 @@ export default async function WorkspaceLayout({
   const userRole = access.user.roleLabel;
   const workspaceSlugForNav = access.workspaceSlug;
   const accessibleWorkspaces = access.accessibleWorkspaces;
+  const pinnedSearches = await listPinnedSavedSearches(access.workspaceId, access.uid);
 
   return (
     <div className="min-h-screen bg-[linear-gradient(158deg,#e8edf4_0%,#d8e1ed_50%,#e8edf4_100%)]">
@@ -64,6 +68,10 @@ export default async function WorkspaceLayout({
 
               <nav className="rounded-2xl border border-slate-200 bg-[color:var(--surface)] p-2 shadow-sm">
                 <WorkspaceNav items={navItems} workspaceSlug={workspaceSlugForNav} />
+                <PinnedSearchNav
+                  pinnedSearches={pinnedSearches}
+                  workspaceSlug={workspaceSlugForNav}
+                />
               </nav>
             </div>
           </aside>
@@ -72,6 +80,11 @@ export default async function WorkspaceLayout({
             <div className="mb-4 overflow-x-auto rounded-xl border border-slate-200 bg-[color:var(--surface)] p-2 lg:hidden">
               <div className="flex min-w-max items-center gap-2">
                 <WorkspaceNav items={navItems} workspaceSlug={workspaceSlugForNav} mobile />
+                <PinnedSearchNav
+                  pinnedSearches={pinnedSearches}
+                  workspaceSlug={workspaceSlugForNav}
+                  mobile
+                />
               </div>
             </div>
 
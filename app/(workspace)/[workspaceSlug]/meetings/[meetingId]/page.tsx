@@ -1,4 +1,8 @@
 import Link from "next/link";
+import {
+  EntityHistoryPanel,
+  type EntityHistoryItem,
+} from "@/components/workspace/entity-history-panel";
 import {
   MeetingRecordFlow,
   type MeetingRecordSeed,
@@ -7,13 +11,30 @@ import {
   MeetingRevisionHistory,
   type MeetingRevisionHistoryEntry,
 } from "@/components/workspace/meeting-revision-history";
+import {
+  MeetingSeriesPanel,
+  type MeetingSeriesSummary,
+} from "@/components/workspace/meeting-series-panel";
+import { MeetingTeamAssignment } from "@/components/workspace/meeting-team-assignment";
 import { WorkspacePanel } from "@/components/workspace/primitives";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import {
+  canEditMeetings,
   canRestoreMeetingRevisions,
   parseWorkspaceMemberRole,
 } from "@/lib/auth/permissions";
+import { parseMeetingTimeLabel } from "@/lib/calendar/ics";
 import { adminDb } from "@/lib/firebase/admin";
+import { resolveActionState, type ActionWorkflow } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import {
+  parseCanonicalHistoryEventType,
+  parseCanonicalHistorySource,
+} from "@/lib/workspace/history-types";
+import {
+  parseMeetingRestoreSections,
+  summarizeMeetingRevisionSections,
+} from "@/lib/workspace/meeting-revisions";
 import { parseMeetingDraftPayload } from "@/lib/workspace/meeting-draft";
 
 type MeetingRecordPageProps = Readonly<{
@@ -409,8 +430,10 @@ type DigestStateValue = MeetingRecordSeed["digest"];
 type AgendaStateValue = MeetingRecordSeed["agenda"][number]["state"];
 type QuestionStatusValue = MeetingRecordSeed["openQuestions"][number]["status"];
 type DecisionStatusValue = MeetingRecordSeed["decisions"][number]["status"];
-type ActionStatusValue = MeetingRecordSeed["actions"][number]["status"];
 type ActionPriorityValue = MeetingRecordSeed["actions"][number]["priority"];
+type DigestDeliveryStatusValue = NonNullable<
+  MeetingRecordSeed["digestDeliveries"]
+>[number]["status"];
 
 function parseMeetingState(value: unknown): MeetingStateValue {
   const normalized = normalizeText(value);
@@ -428,6 +451,14 @@ function parseDigestState(value: unknown): DigestStateValue {
   return "pending";
 }
 
+function parseDigestDeliveryStatus(value: unknown): DigestDeliveryStatusValue {
+  const normalized = normalizeText(value);
+  if (normalized === "sent" || normalized === "failed" || normalized === "skipped") {
+    return normalized;
+  }
+  return "skipped";
+}
+
 function parseAgendaState(value: unknown): AgendaStateValue {
   const normalized = normalizeText(value);
   if (normalized === "queued" || normalized === "inProgress" || normalized === "done") {
@@ -452,14 +483,6 @@ function parseDecisionStatus(value: unknown): DecisionStatusValue {
   return "proposed";
 }
 
-function parseActionStatus(value: unknown): ActionStatusValue {
-  const normalized = normalizeText(value);
-  if (normalized === "open" || normalized === "blocked" || normalized === "done") {
-    return normalized;
-  }
-  return "open";
-}
-
 function parseActionPriority(value: unknown): ActionPriorityValue {
   const normalized = normalizeText(value);
   if (normalized === "high" || normalized === "medium" || normalized === "low") {
@@ -533,6 +556,7 @@ function normalizeArray<T>(value: unknown, parser: (entry: unknown, index: numbe
 function parsePersistedMeeting(
   meetingId: string,
   value: unknown,
+  actionWorkflow: ActionWorkflow,
 ): MeetingRecordSeed | null {
   if (!value || typeof value !== "object") return null;
   const data = value as Record<string, unknown>;
@@ -616,7 +640,7 @@ function parsePersistedMeeting(
       owner: normalizeText(action.owner) || "Unassigned",
       dueLabel: normalizeText(action.dueLabel) || "No due date",
       priority: parseActionPriority(action.priority),
-      status: parseActionStatus(action.status),
+      status: resolveActionState(actionWorkflow, action.status).id,
     };
   });
 
@@ -632,6 +656,20 @@ function parsePersistedMeeting(
     };
   });
 
+  const digestDeliveries = normalizeArray(data.digestDeliveries, (entry) => {
+    if (!entry || typeof entry !== "object") return null;
+    const delivery = entry as Record<string, unknown>;
+    const recipientId = normalizeText(delivery.recipientId);
+    if (!recipientId) return null;
+    return {
+      recipientId,
+      label: normalizeText(delivery.label),
+      email: normalizeText(delivery.email),
+      status: parseDigestDeliveryStatus(delivery.status),
+      error: normalizeText(delivery.error),
+    };
+  });
+
   const digestOptionsRaw =
     data.digestOptions && typeof data.digestOptions === "object"
       ? (data.digestOptions as Record<string, unknown>)
@@ -663,6 +701,7 @@ function parsePersistedMeeting(
     decisions,
     actions,
     digestRecipients,
+    digestDeliveries,
     digestOptions: {
       includeNotes: normalizeBoolean(digestOptionsRaw?.includeNotes, true),
       includeOpenQuestions: normalizeBoolean(digestOptionsRaw?.includeOpenQuestions, true),
@@ -671,6 +710,55 @@ function parsePersistedMeeting(
   };
 }
 
+function parseCount(value: unknown, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.floor(value)
+    : fallback;
+}
+
+async function loadMeetingSeries(
+  workspaceId: string,
+  meetingData: Record<string, unknown> | undefined,
+): Promise<MeetingSeriesSummary | null> {
+  const seriesId = normalizeText(meetingData?.seriesId);
+  if (!meetingData || !seriesId) return null;
+
+  const seriesSnapshot = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("meetingSeries")
+    .doc(seriesId)
+    .get();
+  if (!seriesSnapshot.exists) return null;
+
+  const seriesData = seriesSnapshot.data() as Record<string, unknown>;
+  const occurrence = parseCount(meetingData.seriesOccurrence, 1);
+  const carryOverRaw =
+    meetingData.carryOver && typeof meetingData.carryOver === "object"
+      ? (meetingData.carryOver as Record<string, unknown>)
+      : null;
+  const carryOverFrom = normalizeText(carryOverRaw?.fromMeetingId);
+
+  return {
+    seriesId,
+    title: normalizeText(seriesData.title) || "Recurring meeting",
+    recurrenceLabel: normalizeText(seriesData.recurrenceLabel) || "Recurring",
+    occurrence,
+    occurrenceCount: Math.max(parseCount(seriesData.occurrenceCount, 1), occurrence),
+    previousMeetingId: normalizeText(meetingData.previousMeetingId),
+    nextMeetingId: normalizeText(meetingData.nextMeetingId),
+    carryOver:
+      carryOverRaw && carryOverFrom
+        ? {
+            fromMeetingId: carryOverFrom,
+            agendaItems: parseCount(carryOverRaw.agendaItems, 0),
+            openQuestions: parseCount(carryOverRaw.openQuestions, 0),
+            actions: parseCount(carryOverRaw.actions, 0),
+          }
+        : null,
+  };
+}
+
 export default async function MeetingRecordPage({
   params,
   searchParams,
@@ -680,29 +768,40 @@ export default async function MeetingRecordPage({
   const access = await requireWorkspaceAccess(workspaceSlug);
   const workspaceSlugForNav = access.workspaceSlug;
   const workspaceName = access.workspaceName || formatWorkspaceName(workspaceSlug) || "Workspace";
-  const canRestoreRevisions = canRestoreMeetingRevisions(
-    parseWorkspaceMemberRole(access.membershipRole),
-  );
+  const memberRole = parseWorkspaceMemberRole(access.membershipRole);
+  const canRestoreRevisions = canRestoreMeetingRevisions(memberRole);
   const meetingRef = adminDb
     .collection("workspaces")
     .doc(access.workspaceId)
     .collection("meetings")
     .doc(meetingId);
-  const meetingSnapshot = await meetingRef.get();
+  const [meetingSnapshot, actionWorkflow] = await Promise.all([
+    meetingRef.get(),
+    loadWorkspaceActionWorkflow(access.workspaceId),
+  ]);
   const draft = decodeDraftParam(resolvedSearchParams.draft);
   const persistedMeeting = meetingSnapshot.exists
-    ? parsePersistedMeeting(meetingId, meetingSnapshot.data())
+    ? parsePersistedMeeting(meetingId, meetingSnapshot.data(), actionWorkflow)
     : null;
   const meeting =
     persistedMeeting ??
     (draft
       ? buildMeetingFromDraft(meetingId, draft)
       : meetingSeeds[meetingId] ?? buildFallbackMeeting(meetingId));
-  const revisionSnapshots = await meetingRef
-    .collection("revisions")
-    .orderBy("capturedAt", "desc")
-    .limit(20)
-    .get();
+  const hasScheduledDate =
+    meetingSnapshot.exists &&
+    (normalizeText(meetingSnapshot.get("scheduledDate")) !== "" ||
+      parseMeetingTimeLabel(normalizeText(meetingSnapshot.get("timeLabel"))) !== null);
+  const series = meetingSnapshot.exists
+    ? await loadMeetingSeries(
+        access.workspaceId,
+        meetingSnapshot.data() as Record<string, unknown> | undefined,
+      )
+    : null;
+  const [revisionSnapshots, historySnapshots] = await Promise.all([
+    meetingRef.collection("revisions").orderBy("capturedAt", "desc").limit(20).get(),
+    meetingRef.collection("history").orderBy("at", "desc").limit(12).get(),
+  ]);
   const rawRevisions = revisionSnapshots.docs.map((snapshot) => {
     const data = snapshot.data() as Record<string, unknown>;
     const meetingRevision =
@@ -722,6 +821,8 @@ export default async function MeetingRecordPage({
       changedFields: parseStringArray(data.changedFields),
       capturedAtLabel: formatDateTimeLabel(data.capturedAt),
       restoredFromRevisionId: normalizeText(data.restoredFromRevisionId),
+      restoredSections: parseMeetingRestoreSections(data.restoredSections),
+      sections: summarizeMeetingRevisionSections(data.meeting),
     };
   });
   const currentRevisionIndex = rawRevisions.findIndex(
@@ -731,6 +832,18 @@ export default async function MeetingRecordPage({
     ...entry,
     isCurrent: index === currentRevisionIndex,
   }));
+  const historyEntries: EntityHistoryItem[] = historySnapshots.docs.map((snapshot) => {
+    const event = snapshot.data() as Record<string, unknown>;
+
+    return {
+      id: snapshot.id,
+      actorName: normalizeText(event.actorName) || "Workspace User",
+      message: normalizeText(event.message) || `Updated meeting ${meetingId}.`,
+      eventType: parseCanonicalHistoryEventType(event.eventType),
+      source: parseCanonicalHistorySource(event.source),
+      atLabel: formatDateTimeLabel(event.at),
+    };
+  });
 
   return (
     <main className="space-y-6">
@@ -756,6 +869,14 @@ export default async function MeetingRecordPage({
           >
             Export record (preview)
           </button>
+          {hasScheduledDate ? (
+            <a
+              href={`/api/workspaces/${encodeURIComponent(workspaceSlugForNav)}/meetings/${encodeURIComponent(meeting.id)}/ics`}
+              className="rounded-sm border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+            >
+              Add to calendar (.ics)
+            </a>
+          ) : null}
           <Link
             href={`/${workspaceSlugForNav}/decisions/new`}
             className="rounded-sm bg-[color:var(--accent)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)]"
@@ -769,12 +890,31 @@ export default async function MeetingRecordPage({
             New action
           </Link>
         </div>
+
+        {meetingSnapshot.exists && canEditMeetings(memberRole) ? (
+          <div className="mt-4">
+            <MeetingTeamAssignment
+              workspaceSlug={workspaceSlugForNav}
+              meetingId={meeting.id}
+              teamId={normalizeText(meetingSnapshot.get("teamId"))}
+            />
+          </div>
+        ) : null}
       </WorkspacePanel>
 
+      {series ? (
+        <MeetingSeriesPanel
+          workspaceSlug={workspaceSlugForNav}
+          series={series}
+          canCreateNext={canEditMeetings(memberRole)}
+        />
+      ) : null}
+
       <MeetingRecordFlow
         key={`${meeting.id}-${meeting.revision}`}
         workspaceSlug={workspaceSlugForNav}
         meeting={meeting}
+        actionWorkflow={actionWorkflow}
       />
 
       <MeetingRevisionHistory
@@ -784,6 +924,14 @@ export default async function MeetingRecordPage({
         canRestoreRevisions={canRestoreRevisions}
         actorRoleLabel={access.membershipRoleLabel}
       />
+
+      <EntityHistoryPanel
+        title="Meeting Activity"
+        emptyLabel="No activity captured yet."
+        entity="meeting"
+        entityId={meeting.id}
+        entries={historyEntries}
+      />
     </main>
   );
 }
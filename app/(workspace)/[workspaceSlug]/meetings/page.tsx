@@ -6,17 +6,25 @@ import {
 } from "@/components/workspace/workspace-meetings-view";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import { adminDb } from "@/lib/firebase/admin";
+import {
+  listWorkspaceTeams,
+  parseTeamFilter,
+  resolveRecordTeamId,
+  toTeamOptions,
+} from "@/lib/workspace/teams";
 
 type WorkspaceMeetingsPageProps = Readonly<{
   params: Promise<{ workspaceSlug: string }>;
   searchParams: Promise<{
     view?: string | string[];
     sort?: string | string[];
+    team?: string | string[];
   }>;
 }>;
 
 type MeetingState = "scheduled" | "inProgress" | "completed";
 type DigestState = "sent" | "pending";
+type MeetingSeriesInfo = { title: string; recurrenceLabel: string };
 
 function formatWorkspaceName(workspaceSlug: string) {
   return workspaceSlug
@@ -88,12 +96,20 @@ function parseMeetingSort(value: string | string[] | undefined): MeetingSort {
   return "updated";
 }
 
+function parseSeriesOccurrence(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.floor(value)
+    : 1;
+}
+
 function parseMeetingRecord(
   id: string,
   value: unknown,
   uid: string,
   displayName: string,
   email: string,
+  seriesById: Map<string, MeetingSeriesInfo>,
+  teamNameById: Map<string, string>,
 ): WorkspaceMeetingRecord | null {
   if (!value || typeof value !== "object") return null;
   const data = value as Record<string, unknown>;
@@ -101,6 +117,8 @@ function parseMeetingRecord(
   const ownerUid = normalizeText(data.ownerUid) || normalizeText(data.createdBy);
   const ownerLabelNormalized = ownerLabel.toLowerCase();
   const updatedAt = parseDate(data.updatedAt) ?? parseDate(data.createdAt);
+  const seriesId = normalizeText(data.seriesId);
+  const series = seriesId ? seriesById.get(seriesId) : undefined;
   const isMine =
     ownerUid === uid ||
     (ownerLabelNormalized !== "" &&
@@ -109,7 +127,7 @@ function parseMeetingRecord(
   return {
     id,
     title: normalizeText(data.title) || `Meeting ${id}`,
-    team: normalizeText(data.team) || "Workspace",
+    team: teamNameById.get(resolveRecordTeamId(data)) || normalizeText(data.team) || "Workspace",
     timeLabel: normalizeText(data.timeLabel) || "Date TBD",
     duration: normalizeText(data.duration) || "45 min",
     attendees: parseCount(data.attendees),
@@ -122,6 +140,14 @@ function parseMeetingRecord(
     owner: ownerLabel,
     isMine,
     sortTimestamp: updatedAt?.getTime() ?? 0,
+    series: series
+      ? {
+          id: seriesId,
+          title: series.title,
+          recurrenceLabel: series.recurrenceLabel,
+          occurrence: parseSeriesOccurrence(data.seriesOccurrence),
+        }
+      : null,
   };
 }
 
@@ -133,6 +159,7 @@ export default async function WorkspaceMeetingsPage({
   const resolvedSearchParams = await searchParams;
   const initialView = parseMeetingView(resolvedSearchParams.view);
   const initialSort = parseMeetingSort(resolvedSearchParams.sort);
+  const activeTeamId = parseTeamFilter(resolvedSearchParams.team);
 
   const access = await requireWorkspaceAccess(workspaceSlug);
   const workspaceSlugForNav = access.workspaceSlug;
@@ -140,15 +167,37 @@ export default async function WorkspaceMeetingsPage({
   const userDisplayName = normalizeText(access.user.displayName).toLowerCase();
   const userEmail = normalizeText(access.user.email).toLowerCase();
 
-  const meetingSnapshots = await adminDb
-    .collection("workspaces")
-    .doc(access.workspaceId)
-    .collection("meetings")
-    .orderBy("updatedAt", "desc")
-    .limit(120)
-    .get();
+  const workspaceRef = adminDb.collection("workspaces").doc(access.workspaceId);
+  const [meetingSnapshots, teams] = await Promise.all([
+    workspaceRef.collection("meetings").orderBy("updatedAt", "desc").limit(120).get(),
+    listWorkspaceTeams(access.workspaceId),
+  ]);
+  const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
+
+  const seriesIds = Array.from(
+    new Set(
+      meetingSnapshots.docs
+        .map((snapshot) => normalizeText(snapshot.get("seriesId")))
+        .filter(Boolean),
+    ),
+  );
+  const seriesSnapshots =
+    seriesIds.length > 0
+      ? await adminDb.getAll(
+          ...seriesIds.map((seriesId) => workspaceRef.collection("meetingSeries").doc(seriesId)),
+        )
+      : [];
+  const seriesById = new Map<string, MeetingSeriesInfo>();
+  seriesSnapshots.forEach((snapshot) => {
+    if (!snapshot.exists) return;
+    seriesById.set(snapshot.id, {
+      title: normalizeText(snapshot.get("title")) || "Recurring meeting",
+      recurrenceLabel: normalizeText(snapshot.get("recurrenceLabel")) || "Recurring",
+    });
+  });
 
   const meetings = meetingSnapshots.docs
+    .filter((snapshot) => !activeTeamId || resolveRecordTeamId(snapshot.data()) === activeTeamId)
     .map((snapshot) =>
       parseMeetingRecord(
         snapshot.id,
@@ -156,6 +205,8 @@ export default async function WorkspaceMeetingsPage({
         access.uid,
         userDisplayName,
         userEmail,
+        seriesById,
+        teamNameById,
       ),
     )
     .filter((meeting): meeting is WorkspaceMeetingRecord => meeting !== null);
@@ -167,6 +218,8 @@ export default async function WorkspaceMeetingsPage({
       meetings={meetings}
       initialView={initialView}
       initialSort={initialSort}
+      teams={toTeamOptions(teams)}
+      activeTeamId={activeTeamId}
     />
   );
 }
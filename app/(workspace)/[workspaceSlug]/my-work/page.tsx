@@ -1,10 +1,26 @@
 import Link from "next/link";
 import { SummaryTile, WorkspacePanel } from "@/components/workspace/primitives";
+import { TeamFilterChips } from "@/components/workspace/team-filter-chips";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import { adminDb } from "@/lib/firebase/admin";
+import { resolveActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import {
+  filterVisibleDecisionSnapshots,
+  loadDecisionAccessViewer,
+} from "@/lib/workspace/decision-access";
+import {
+  listWorkspaceTeams,
+  parseTeamFilter,
+  resolveRecordTeamId,
+  toTeamOptions,
+} from "@/lib/workspace/teams";
 
 type WorkspaceMyWorkPageProps = Readonly<{
   params: Promise<{ workspaceSlug: string }>;
+  searchParams: Promise<{
+    team?: string | string[];
+  }>;
 }>;
 
 type ActionPriority = "high" | "medium" | "low";
@@ -308,10 +324,21 @@ function MyWorkActionList({
   );
 }
 
-export default async function WorkspaceMyWorkPage({ params }: WorkspaceMyWorkPageProps) {
+export default async function WorkspaceMyWorkPage({
+  params,
+  searchParams,
+}: WorkspaceMyWorkPageProps) {
   const { workspaceSlug } = await params;
+  const activeTeamId = parseTeamFilter((await searchParams).team);
   const access = await requireWorkspaceAccess(workspaceSlug);
   const workspaceRef = adminDb.collection("workspaces").doc(access.workspaceId);
+  const [teams, actionWorkflow] = await Promise.all([
+    listWorkspaceTeams(access.workspaceId),
+    loadWorkspaceActionWorkflow(access.workspaceId),
+  ]);
+  const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
+  const matchesTeam = (data: Record<string, unknown>) =>
+    !activeTeamId || resolveRecordTeamId(data) === activeTeamId;
   const myDisplayName = normalizeText(access.user.displayName).toLowerCase();
   const myEmail = normalizeText(access.user.email).toLowerCase();
 
@@ -329,7 +356,8 @@ export default async function WorkspaceMyWorkPage({ params }: WorkspaceMyWorkPag
   for (const snapshot of actionSnapshots.docs) {
     const data = snapshot.data() as Record<string, unknown>;
     if (data.archived === true) continue;
-    if (normalizeText(data.status) !== "open") continue;
+    if (resolveActionState(actionWorkflow, data.status).category !== "open") continue;
+    if (!matchesTeam(data)) continue;
 
     const ownerUid = normalizeText(data.ownerUid);
     const ownerLabel = normalizeText(data.owner).toLowerCase();
@@ -384,10 +412,11 @@ export default async function WorkspaceMyWorkPage({ params }: WorkspaceMyWorkPag
     decisionSnapshots = await decisionsRef.limit(140).get();
   }
 
-  const recentDecisions = decisionSnapshots.docs
+  const decisionViewer = await loadDecisionAccessViewer(access.workspaceId, access.uid);
+  const recentDecisions = filterVisibleDecisionSnapshots(decisionViewer, decisionSnapshots.docs)
     .map((snapshot) => {
       const data = snapshot.data() as Record<string, unknown>;
-      if (data.archived === true) return null;
+      if (data.archived === true || !matchesTeam(data)) return null;
 
       const title = normalizeText(data.title);
       if (!title) return null;
@@ -416,6 +445,7 @@ export default async function WorkspaceMyWorkPage({ params }: WorkspaceMyWorkPag
   }
 
   const recentMeetings = meetingSnapshots.docs
+    .filter((snapshot) => matchesTeam(snapshot.data()))
     .map((snapshot) => {
       const data = snapshot.data() as Record<string, unknown>;
       const updatedAt = parseDate(data.updatedAt) ?? parseDate(data.createdAt);
@@ -423,7 +453,7 @@ export default async function WorkspaceMyWorkPage({ params }: WorkspaceMyWorkPag
       return {
         id: snapshot.id,
         title: normalizeText(data.title) || `Meeting ${snapshot.id}`,
-        team: normalizeText(data.team) || "Workspace",
+        team: teamNameById.get(resolveRecordTeamId(data)) || normalizeText(data.team) || "Workspace",
         timeLabel: normalizeText(data.timeLabel) || "Date TBD",
         decisions: parseListCount(data.decisions),
         actions: parseListCount(data.actions),
@@ -536,6 +566,12 @@ export default async function WorkspaceMyWorkPage({ params }: WorkspaceMyWorkPag
             className="border-slate-300 border-l-4 border-l-violet-400"
           />
         </div>
+
+        {teams.length > 0 || activeTeamId ? (
+          <div className="mt-4">
+            <TeamFilterChips teams={toTeamOptions(teams)} activeTeamId={activeTeamId} />
+          </div>
+        ) : null}
       </WorkspacePanel>
 
       <WorkspacePanel>
@@ -3,34 +3,16 @@ import { SummaryTile, WorkspacePanel } from "@/components/workspace/primitives";
 import { WorkspaceMemberProfileEditor } from "@/components/workspace/workspace-member-profile-editor";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import { adminDb } from "@/lib/firebase/admin";
+import { parseMemberNotificationPreferences } from "@/lib/notifications/preferences";
 
 type WorkspaceProfilePageProps = Readonly<{
   params: Promise<{ workspaceSlug: string }>;
 }>;
 
-type NotificationValues = {
-  meetingDigests: boolean;
-  actionReminders: boolean;
-  weeklySummary: boolean;
-  productAnnouncements: boolean;
-};
-
 function normalizeText(value: unknown) {
   return typeof value === "string" ? value.trim() : "";
 }
 
-function normalizeNotifications(
-  value: Partial<NotificationValues> | undefined,
-  fallback: NotificationValues,
-): NotificationValues {
-  return {
-    meetingDigests: value?.meetingDigests ?? fallback.meetingDigests,
-    actionReminders: value?.actionReminders ?? fallback.actionReminders,
-    weeklySummary: value?.weeklySummary ?? fallback.weeklySummary,
-    productAnnouncements: value?.productAnnouncements ?? fallback.productAnnouncements,
-  };
-}
-
 function parseStatusLabel(value: unknown) {
   const normalized = normalizeText(value).toLowerCase();
   if (!normalized) return "Active";
@@ -56,10 +38,10 @@ export default async function WorkspaceProfilePage({ params }: WorkspaceProfileP
     normalizeText(memberSnapshot.get("jobTitle")) || access.membershipRoleLabel;
   const memberEmail = normalizeText(memberSnapshot.get("email")) || access.user.email;
   const memberStatus = parseStatusLabel(memberSnapshot.get("status"));
-  const memberNotifications = normalizeNotifications(
-    memberSnapshot.get("notifications") as Partial<NotificationValues> | undefined,
-    access.user.notifications,
-  );
+  const memberPreferences = parseMemberNotificationPreferences(memberSnapshot.data(), {
+    notifications: access.user.notifications,
+    timezone: access.user.timezone,
+  });
 
   return (
     <main className="space-y-6">
@@ -126,7 +108,7 @@ export default async function WorkspaceProfilePage({ params }: WorkspaceProfileP
           workspaceSlug={access.workspaceSlug}
           initialDisplayName={memberDisplayName}
           initialJobTitle={memberJobTitle}
-          initialNotifications={memberNotifications}
+          initialPreferences={memberPreferences}
           email={memberEmail}
           roleLabel={access.membershipRoleLabel}
           statusLabel={memberStatus}
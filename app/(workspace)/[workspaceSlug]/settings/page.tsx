@@ -1,12 +1,21 @@
 import Link from "next/link";
 import { FilterChip, WorkspacePanel } from "@/components/workspace/primitives";
+import { SearchIndexSettings } from "@/components/workspace/search-index-settings";
+import { WorkspaceActionWorkflowManager } from "@/components/workspace/workspace-action-workflow-manager";
+import { WorkspaceCustomFieldsManager } from "@/components/workspace/workspace-custom-fields-manager";
+import { WorkspaceDeletionSettings } from "@/components/workspace/workspace-deletion-settings";
+import { WorkspaceDomainDiscoverySettings } from "@/components/workspace/workspace-domain-discovery-settings";
 import { WorkspaceProfileSettings } from "@/components/workspace/workspace-profile-settings";
 import { WorkspaceInvitesManager } from "@/components/workspace/workspace-invites-manager";
+import { WorkspaceJoinLinksManager } from "@/components/workspace/workspace-join-links-manager";
 import { WorkspaceMembersManager } from "@/components/workspace/workspace-members-manager";
+import { WorkspaceOwnershipTransfer } from "@/components/workspace/workspace-ownership-transfer";
+import { WorkspaceTeamsManager } from "@/components/workspace/workspace-teams-manager";
 import { requireWorkspaceAccess } from "@/lib/auth/workspace-access";
 import {
   canManageWorkspaceMembers,
   canUpdateWorkspaceSlug,
+  isWorkspaceManagerRole,
   parseWorkspaceMemberRole,
 } from "@/lib/auth/permissions";
 
@@ -17,7 +26,14 @@ type WorkspaceSettingsPageProps = Readonly<{
 const settingsAnchors = [
   { label: "General", href: "#general" },
   { label: "Members", href: "#members" },
+  { label: "Teams", href: "#teams" },
+  { label: "Custom Fields", href: "#custom-fields" },
+  { label: "Action Workflow", href: "#action-workflow" },
   { label: "Invites", href: "#invites" },
+  { label: "Join Links", href: "#join-links" },
+  { label: "Domain Discovery", href: "#domain-discovery" },
+  { label: "Ownership", href: "#ownership" },
+  { label: "Delete Workspace", href: "#delete-workspace" },
 ] as const;
 
 export default async function WorkspaceSettingsPage({ params }: WorkspaceSettingsPageProps) {
@@ -28,6 +44,33 @@ export default async function WorkspaceSettingsPage({ params }: WorkspaceSetting
   const memberRole = parseWorkspaceMemberRole(access.membershipRole);
   const canManageSlug = canUpdateWorkspaceSlug(memberRole);
   const canManageMembers = canManageWorkspaceMembers(memberRole);
+  const canDeleteWorkspace = memberRole === "owner";
+
+  // Only owners reach a workspace that is scheduled for deletion, and only to
+  // restore it.
+  if (access.pendingDeletion) {
+    return (
+      <main className="space-y-6">
+        <WorkspacePanel>
+          <p className="text-xs font-semibold tracking-[0.2em] text-slate-500">{workspaceName}</p>
+          <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-900">Workspace Settings</h1>
+          <p className="mt-2 text-sm text-slate-600">
+            This workspace is scheduled for deletion. Restore it to bring back access for members.
+          </p>
+        </WorkspacePanel>
+
+        <section id="delete-workspace" className="scroll-mt-24">
+          <WorkspacePanel>
+            <WorkspaceDeletionSettings
+              workspaceSlug={resolvedWorkspaceSlug}
+              actorRoleLabel={access.membershipRoleLabel}
+              canDeleteWorkspace={canDeleteWorkspace}
+            />
+          </WorkspacePanel>
+        </section>
+      </main>
+    );
+  }
 
   return (
     <main className="space-y-6">
@@ -37,7 +80,7 @@ export default async function WorkspaceSettingsPage({ params }: WorkspaceSetting
             <p className="text-xs font-semibold tracking-[0.2em] text-slate-500">{workspaceName}</p>
             <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-900">Workspace Settings</h1>
             <p className="mt-2 text-sm text-slate-600">
-              Configure workspace-level settings: general, members, and invites.
+              Configure workspace-level settings: general, members, teams, custom fields, action workflow, invites, join links, domain discovery, ownership, and deletion.
             </p>
           </div>
           <div className="flex flex-wrap items-center gap-2">
@@ -85,6 +128,15 @@ export default async function WorkspaceSettingsPage({ params }: WorkspaceSetting
             />
           </WorkspacePanel>
         </section>
+        <section id="search-index" className="scroll-mt-24">
+          <WorkspacePanel>
+            <SearchIndexSettings
+              workspaceSlug={resolvedWorkspaceSlug}
+              canRebuildIndex={isWorkspaceManagerRole(memberRole)}
+              roleLabel={access.membershipRoleLabel}
+            />
+          </WorkspacePanel>
+        </section>
       </section>
 
       <section id="members" className="scroll-mt-24">
@@ -97,6 +149,33 @@ export default async function WorkspaceSettingsPage({ params }: WorkspaceSetting
         </WorkspacePanel>
       </section>
 
+      <section id="teams" className="scroll-mt-24">
+        <WorkspacePanel>
+          <WorkspaceTeamsManager
+            workspaceSlug={resolvedWorkspaceSlug}
+            actorRoleLabel={access.membershipRoleLabel}
+          />
+        </WorkspacePanel>
+      </section>
+
+      <section id="custom-fields" className="scroll-mt-24">
+        <WorkspacePanel>
+          <WorkspaceCustomFieldsManager
+            workspaceSlug={resolvedWorkspaceSlug}
+            actorRoleLabel={access.membershipRoleLabel}
+          />
+        </WorkspacePanel>
+      </section>
+
+      <section id="action-workflow" className="scroll-mt-24">
+        <WorkspacePanel>
+          <WorkspaceActionWorkflowManager
+            workspaceSlug={resolvedWorkspaceSlug}
+            actorRoleLabel={access.membershipRoleLabel}
+          />
+        </WorkspacePanel>
+      </section>
+
       <section id="invites" className="scroll-mt-24">
         <WorkspacePanel>
           <WorkspaceInvitesManager
@@ -107,6 +186,45 @@ export default async function WorkspaceSettingsPage({ params }: WorkspaceSetting
           />
         </WorkspacePanel>
       </section>
+
+      <section id="join-links" className="scroll-mt-24">
+        <WorkspacePanel>
+          <WorkspaceJoinLinksManager
+            workspaceSlug={resolvedWorkspaceSlug}
+            actorRoleLabel={access.membershipRoleLabel}
+            canManageJoinLinks={canManageMembers}
+          />
+        </WorkspacePanel>
+      </section>
+
+      <section id="domain-discovery" className="scroll-mt-24">
+        <WorkspacePanel>
+          <WorkspaceDomainDiscoverySettings
+            workspaceSlug={resolvedWorkspaceSlug}
+            actorRoleLabel={access.membershipRoleLabel}
+            canManageDiscovery={canManageMembers}
+          />
+        </WorkspacePanel>
+      </section>
+
+      <section id="ownership" className="scroll-mt-24">
+        <WorkspacePanel>
+          <WorkspaceOwnershipTransfer
+            workspaceSlug={resolvedWorkspaceSlug}
+            actorRoleLabel={access.membershipRoleLabel}
+          />
+        </WorkspacePanel>
+      </section>
+
+      <section id="delete-workspace" className="scroll-mt-24">
+        <WorkspacePanel>
+          <WorkspaceDeletionSettings
+            workspaceSlug={resolvedWorkspaceSlug}
+            actorRoleLabel={access.membershipRoleLabel}
+            canDeleteWorkspace={canDeleteWorkspace}
+          />
+        </WorkspacePanel>
+      </section>
     </main>
   );
 }
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import {
+  addDiscoveredMemberInTransaction,
+  findDiscoverableWorkspaces,
+} from "@/lib/workspace/domain-discovery-store";
+import { getEmailDomain } from "@/lib/workspace/join-links";
+import { MAX_WORKSPACE_MEMBERSHIPS } from "@/lib/workspace/limits";
+
+type DiscoveryJoinBody = {
+  workspaceSlug?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+// Discovery trusts the email domain, so only verified addresses take part.
+async function resolveDiscoveryActor(uid: string) {
+  const userRecord = await adminAuth.getUser(uid);
+  const email = normalizeText(userRecord.email).toLowerCase();
+  return {
+    email,
+    domain: userRecord.emailVerified ? getEmailDomain(email) : "",
+    displayName: normalizeText(userRecord.displayName) || email || "Workspace User",
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const uid = await authenticateUid(request);
+    const actor = await resolveDiscoveryActor(uid);
+    const workspaces = await findDiscoverableWorkspaces(actor.domain);
+
+    const suggestions = await Promise.all(
+      workspaces.map(async (workspace) => {
+        const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+        const [memberSnapshot, requestSnapshot] = await Promise.all([
+          workspaceRef.collection("members").doc(uid).get(),
+          workspaceRef.collection("joinRequests").doc(uid).get(),
+        ]);
+
+        return {
+          workspaceSlug: workspace.workspaceSlug,
+          workspaceName: workspace.workspaceName,
+          mode: workspace.discovery.mode,
+          role: workspace.discovery.autoJoinRole,
+          alreadyMember: memberSnapshot.exists,
+          requestStatus: requestSnapshot.exists
+            ? normalizeText(requestSnapshot.get("status")) || "pending"
+            : "",
+        };
+      }),
+    );
+
+    return NextResponse.json({
+      ok: true,
+      domain: actor.domain,
+      workspaces: suggestions,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load suggested workspaces.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function postHandler(request: NextRequest) {
+  try {
+    const uid = await authenticateUid(request);
+    const body = (await request.json()) as DiscoveryJoinBody;
+    const workspaceSlug = normalizeText(body.workspaceSlug).toLowerCase();
+    const actor = await resolveDiscoveryActor(uid);
+
+    const workspace = (await findDiscoverableWorkspaces(actor.domain)).find(
+      (entry) => entry.workspaceSlug === workspaceSlug,
+    );
+    if (!workspace) {
+      return NextResponse.json(
+        { error: "This workspace is not open to your email domain." },
+        { status: 403 },
+      );
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const now = Timestamp.now();
+
+    if (workspace.discovery.mode === "request") {
+      const requestRef = workspaceRef.collection("joinRequests").doc(uid);
+      const memberRef = workspaceRef.collection("members").doc(uid);
+      let requestStatus = "pending";
+
+      await adminDb.runTransaction(async (transaction) => {
+        const [requestSnapshot, memberSnapshot] = await Promise.all([
+          transaction.get(requestRef),
+          transaction.get(memberRef),
+        ]);
+        if (memberSnapshot.exists) {
+          throw new Error("ALREADY_MEMBER");
+        }
+
+        // A declined request stays declined so people cannot keep re-asking.
+        const currentStatus = normalizeText(requestSnapshot.get("status"));
+        if (currentStatus === "declined" || currentStatus === "pending") {
+          requestStatus = currentStatus;
+          return;
+        }
+
+        transaction.set(requestRef, {
+          uid,
+          email: actor.email,
+          displayName: actor.displayName,
+          status: "pending",
+          requestedAt: now,
+          updatedAt: now,
+          resolvedAt: null,
+          resolvedByUid: "",
+        });
+      });
+
+      return NextResponse.json({
+        ok: true,
+        joined: false,
+        requestStatus,
+        workspaceSlug: workspace.workspaceSlug,
+      });
+    }
+
+    const role = workspace.discovery.autoJoinRole;
+    const result = await adminDb.runTransaction((transaction) =>
+      addDiscoveredMemberInTransaction(transaction, {
+        workspaceRef,
+        workspaceSlug: workspace.workspaceSlug,
+        uid,
+        email: actor.email,
+        displayName: actor.displayName,
+        role,
+        now,
+      }),
+    );
+
+    if (!result.alreadyMember) {
+      await writeCanonicalHistoryEvent({
+        entityRef: result.memberRef,
+        entity: "member",
+        eventType: "created",
+        source: "manual",
+        actorUid: uid,
+        actorName: actor.displayName,
+        message: `${actor.displayName} joined as ${role} from the @${actor.domain} domain.`,
+        at: now,
+        metadata: { role, domain: actor.domain },
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      joined: true,
+      alreadyMember: result.alreadyMember,
+      workspaceSlug: workspace.workspaceSlug,
+      role,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to join workspace.";
+    if (message === "ALREADY_MEMBER") {
+      return NextResponse.json(
+        { error: "You are already a member of this workspace." },
+        { status: 409 },
+      );
+    }
+    if (message === "WORKSPACE_MEMBERSHIP_LIMIT_REACHED") {
+      return NextResponse.json(
+        { error: `You can be a member of up to ${MAX_WORKSPACE_MEMBERSHIPS} workspaces.` },
+        { status: 403 },
+      );
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "auth.onboarding.discovery.join",
+    rateLimit: {
+      maxRequests: 12,
+      windowSeconds: 60,
+    },
+  },
+  postHandler,
+);
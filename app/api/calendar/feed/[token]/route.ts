@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildUserCalendarFeed, resolveCalendarFeedUid } from "@/lib/calendar/calendar-feed";
+import { buildIcsCalendar } from "@/lib/calendar/ics";
+
+type RouteContext = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+// Calendar clients cannot send the session cookie, so the feed is authorized by
+// its unguessable token alone. Rotating the token from account settings revokes it.
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { token } = await context.params;
+    const normalizedToken = decodeURIComponent(token).trim().replace(/\.ics$/i, "");
+    const uid = await resolveCalendarFeedUid(normalizedToken);
+
+    if (!uid) {
+      return NextResponse.json({ error: "Calendar feed not found." }, { status: 404 });
+    }
+
+    const calendar = await buildUserCalendarFeed(uid, request.nextUrl.origin);
+
+    return new NextResponse(buildIcsCalendar(calendar), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="synnapp.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load calendar feed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import {
+  type DocumentReference,
+  type DocumentSnapshot,
+  FieldValue,
+  Timestamp,
+  type Transaction,
+} from "firebase-admin/firestore";
 import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
 import { adminAuth, adminDb } from "@/lib/firebase/admin";
 import { parseWorkspaceMemberRole } from "@/lib/auth/permissions";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
+import {
+  isEmailAllowedByJoinLink,
+  resolveJoinLinkStatus,
+} from "@/lib/workspace/join-links";
 import {
   MAX_WORKSPACE_MEMBERSHIPS,
   parseWorkspaceSlugs,
@@ -17,6 +29,21 @@ type RouteContext = {
 
 type InviteStatus = "pending" | "accepted" | "rejected" | "revoked" | "expired";
 
+type AcceptedMembershipInput = {
+  transaction: Transaction;
+  memberRef: DocumentReference;
+  userRef: DocumentReference;
+  memberSnapshot: DocumentSnapshot;
+  userSnapshot: DocumentSnapshot;
+  uid: string;
+  role: string;
+  displayName: string;
+  email: string;
+  workspaceId: string;
+  workspaceSlug: string;
+  now: Timestamp;
+};
+
 function normalizeText(value: unknown) {
   return typeof value === "string" ? value.trim() : "";
 }
@@ -25,6 +52,18 @@ function normalizeEmail(value: unknown) {
   return normalizeText(value).toLowerCase();
 }
 
+function parseStringArray(value: unknown) {
+  return Array.isArray(value) ? value.map((entry) => normalizeText(entry)).filter(Boolean) : [];
+}
+
+function parseCount(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+function isJoinLinkToken(tokenData: Record<string, unknown>) {
+  return normalizeText(tokenData.kind) === "joinLink";
+}
+
 function parseDate(value: unknown) {
   if (value && typeof value === "object" && "toDate" in value) {
     try {
@@ -109,6 +148,294 @@ function parseInviteAction(value: unknown): "reject" | "" {
   return "";
 }
 
+function writeAcceptedMembership({
+  transaction,
+  memberRef,
+  userRef,
+  memberSnapshot,
+  userSnapshot,
+  uid,
+  role,
+  displayName,
+  email,
+  workspaceId,
+  workspaceSlug,
+  now,
+}: AcceptedMembershipInput) {
+  if (!memberSnapshot.exists) {
+    transaction.set(
+      memberRef,
+      {
+        uid,
+        role,
+        status: "active",
+        displayName,
+        email,
+        joinedAt: now,
+        updatedAt: now,
+      },
+      { merge: true },
+    );
+  }
+
+  const currentDefaultWorkspaceId = normalizeText(userSnapshot.get("defaultWorkspaceId"));
+  const userPayload: Record<string, unknown> = {
+    uid,
+    email,
+    displayName,
+    workspaceSlugs: FieldValue.arrayUnion(workspaceSlug),
+    onboardingCompleted: true,
+    updatedAt: now,
+    createdAt: now,
+  };
+  if (!currentDefaultWorkspaceId) {
+    userPayload.defaultWorkspaceId = workspaceId;
+  }
+
+  transaction.set(userRef, userPayload, { merge: true });
+}
+
+// Join links are reusable, so the details come from the link record and the
+// checks are the link's domains and remaining uses instead of a single email.
+async function loadJoinLinkDetails(input: {
+  uid: string;
+  token: string;
+  tokenData: Record<string, unknown>;
+  actorEmail: string;
+  actorEmailVerified: boolean;
+  actorDisplayName: string;
+  userWorkspaceSlugs: string[];
+}) {
+  const workspaceId = normalizeText(input.tokenData.workspaceId);
+  const joinLinkId = normalizeText(input.tokenData.joinLinkId);
+  if (!workspaceId || !joinLinkId) {
+    return NextResponse.json(
+      { error: "Invite is invalid. Ask for a new invite link." },
+      { status: 400 },
+    );
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspaceId);
+  const [workspaceSnapshot, joinLinkSnapshot, memberSnapshot] = await Promise.all([
+    workspaceRef.get(),
+    workspaceRef.collection("joinLinks").doc(joinLinkId).get(),
+    workspaceRef.collection("members").doc(input.uid).get(),
+  ]);
+
+  if (
+    !workspaceSnapshot.exists ||
+    isWorkspacePendingDeletion(workspaceSnapshot.get("deletion")) ||
+    !joinLinkSnapshot.exists
+  ) {
+    return NextResponse.json({ error: "Invite no longer exists." }, { status: 404 });
+  }
+
+  const workspaceData = workspaceSnapshot.data() as Record<string, unknown>;
+  const linkData = joinLinkSnapshot.data() as Record<string, unknown>;
+  const workspaceSlug =
+    normalizeText(workspaceData.slug) || normalizeText(input.tokenData.workspaceSlug);
+  const workspaceName =
+    normalizeText(workspaceData.name) ||
+    normalizeText(input.tokenData.workspaceName) ||
+    workspaceSlug ||
+    "Workspace";
+  const allowedDomains = parseStringArray(linkData.allowedDomains);
+  const expiresAt = parseDate(linkData.expiresAt);
+  const useCount = parseCount(linkData.useCount);
+  const maxUses = parseCount(linkData.maxUses);
+  const linkStatus = resolveJoinLinkStatus({
+    status: normalizeText(linkData.status),
+    expiresAt,
+    useCount,
+    maxUses,
+  });
+
+  const alreadyMember = memberSnapshot.exists;
+  const missingEmail = !input.actorEmail;
+  // Domain-limited links trust the email domain, so the address must be verified.
+  const unverifiedEmail =
+    !missingEmail && allowedDomains.length > 0 && !input.actorEmailVerified;
+  const domainMismatch =
+    !missingEmail && !isEmailAllowedByJoinLink(input.actorEmail, allowedDomains);
+  const atMembershipLimit =
+    !alreadyMember &&
+    !input.userWorkspaceSlugs.includes(workspaceSlug) &&
+    input.userWorkspaceSlugs.length >= MAX_WORKSPACE_MEMBERSHIPS;
+  const canAccept =
+    linkStatus === "active" &&
+    !alreadyMember &&
+    !missingEmail &&
+    !unverifiedEmail &&
+    !domainMismatch &&
+    !atMembershipLimit;
+
+  let reason = "";
+  if (alreadyMember) {
+    reason = "You are already a member of this workspace.";
+  } else if (linkStatus === "exhausted") {
+    reason = "This join link has reached its usage limit.";
+  } else if (missingEmail) {
+    reason = "Your account does not have a verified email address.";
+  } else if (unverifiedEmail) {
+    reason = `Verify ${input.actorEmail} before joining with this link.`;
+  } else if (domainMismatch) {
+    reason = `This invite is for ${allowedDomains.map((domain) => `@${domain}`).join(", ")} addresses, but you are signed in as ${input.actorEmail}.`;
+  } else if (atMembershipLimit) {
+    reason = `You can be a member of up to ${MAX_WORKSPACE_MEMBERSHIPS} workspaces.`;
+  }
+
+  return NextResponse.json({
+    ok: true,
+    invite: {
+      token: input.token,
+      inviteId: joinLinkId,
+      kind: "joinLink",
+      workspaceId,
+      workspaceSlug,
+      workspaceName,
+      email: "",
+      role: parseWorkspaceMemberRole(linkData.role),
+      status: linkStatus === "revoked" || linkStatus === "expired" ? linkStatus : "pending",
+      invitedByName: normalizeText(linkData.createdByName) || "Workspace Admin",
+      invitedByUid: normalizeText(linkData.createdByUid),
+      expiresAt: expiresAt?.toISOString() ?? "",
+      createdAt: parseDate(linkData.createdAt)?.toISOString() ?? "",
+      updatedAt: parseDate(linkData.updatedAt)?.toISOString() ?? "",
+      acceptedAt: "",
+      rejectedAt: "",
+      joinLink: {
+        status: linkStatus,
+        allowedDomains,
+        maxUses,
+        useCount,
+      },
+    },
+    actor: {
+      uid: input.uid,
+      email: input.actorEmail,
+      displayName: input.actorDisplayName,
+    },
+    canAccept,
+    alreadyMember,
+    reason,
+  });
+}
+
+// Runs inside the accept transaction. Members who follow the link again keep
+// their role and do not use up a seat.
+async function acceptJoinLinkInTransaction(
+  transaction: Transaction,
+  input: {
+    uid: string;
+    tokenData: Record<string, unknown>;
+    actorEmail: string;
+    actorEmailVerified: boolean;
+    actorDisplayName: string;
+  },
+) {
+  const workspaceId = normalizeText(input.tokenData.workspaceId);
+  const joinLinkId = normalizeText(input.tokenData.joinLinkId);
+  if (!workspaceId || !joinLinkId) {
+    throw new Error("INVITE_INVALID");
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspaceId);
+  const joinLinkRef = workspaceRef.collection("joinLinks").doc(joinLinkId);
+  const memberRef = workspaceRef.collection("members").doc(input.uid);
+  const userRef = adminDb.collection("users").doc(input.uid);
+
+  const [workspaceSnapshot, joinLinkSnapshot, memberSnapshot, userSnapshot] = await Promise.all([
+    transaction.get(workspaceRef),
+    transaction.get(joinLinkRef),
+    transaction.get(memberRef),
+    transaction.get(userRef),
+  ]);
+
+  if (
+    !workspaceSnapshot.exists ||
+    isWorkspacePendingDeletion(workspaceSnapshot.get("deletion")) ||
+    !joinLinkSnapshot.exists
+  ) {
+    throw new Error("INVITE_NOT_FOUND");
+  }
+
+  const workspaceData = workspaceSnapshot.data() as Record<string, unknown>;
+  const linkData = joinLinkSnapshot.data() as Record<string, unknown>;
+  const workspaceSlug =
+    normalizeText(workspaceData.slug) || normalizeText(input.tokenData.workspaceSlug);
+  const workspaceName =
+    normalizeText(workspaceData.name) ||
+    normalizeText(input.tokenData.workspaceName) ||
+    workspaceSlug ||
+    "Workspace";
+  if (!workspaceSlug) {
+    throw new Error("INVITE_INVALID");
+  }
+
+  const role = parseWorkspaceMemberRole(linkData.role);
+  const linkStatus = resolveJoinLinkStatus({
+    status: normalizeText(linkData.status),
+    expiresAt: parseDate(linkData.expiresAt),
+    useCount: parseCount(linkData.useCount),
+    maxUses: parseCount(linkData.maxUses),
+  });
+
+  if (linkStatus === "expired") {
+    throw new Error("INVITE_EXPIRED");
+  }
+  if (linkStatus === "revoked") {
+    throw new Error("INVITE_NOT_ACTIVE");
+  }
+  const allowedDomains = parseStringArray(linkData.allowedDomains);
+  if (allowedDomains.length > 0 && !input.actorEmailVerified) {
+    throw new Error("JOIN_LINK_EMAIL_UNVERIFIED");
+  }
+  if (!isEmailAllowedByJoinLink(input.actorEmail, allowedDomains)) {
+    throw new Error("JOIN_LINK_DOMAIN_NOT_ALLOWED");
+  }
+
+  const result = { workspaceSlug, workspaceName, role, memberRef, alreadyMember: false };
+  if (memberSnapshot.exists) {
+    return { ...result, alreadyMember: true };
+  }
+
+  if (linkStatus === "exhausted") {
+    throw new Error("JOIN_LINK_EXHAUSTED");
+  }
+
+  const userWorkspaceSlugs = parseWorkspaceSlugs(userSnapshot.get("workspaceSlugs"));
+  if (
+    !userWorkspaceSlugs.includes(workspaceSlug) &&
+    userWorkspaceSlugs.length >= MAX_WORKSPACE_MEMBERSHIPS
+  ) {
+    throw new Error("WORKSPACE_MEMBERSHIP_LIMIT_REACHED");
+  }
+
+  const now = Timestamp.now();
+  writeAcceptedMembership({
+    transaction,
+    memberRef,
+    userRef,
+    memberSnapshot,
+    userSnapshot,
+    uid: input.uid,
+    role,
+    displayName: input.actorDisplayName,
+    email: input.actorEmail,
+    workspaceId,
+    workspaceSlug,
+    now,
+  });
+  transaction.update(joinLinkRef, {
+    useCount: FieldValue.increment(1),
+    lastUsedAt: now,
+    lastUsedByUid: input.uid,
+    updatedAt: now,
+  });
+
+  return result;
+}
+
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
     const uid = await authenticateUid(request);
@@ -131,6 +458,19 @@ export async function GET(request: NextRequest, context: RouteContext) {
     }
 
     const tokenData = tokenSnapshot.data() as Record<string, unknown>;
+    if (isJoinLinkToken(tokenData)) {
+      const actorEmail = normalizeEmail(userRecord.email);
+      return loadJoinLinkDetails({
+        uid,
+        token: normalizedToken,
+        tokenData,
+        actorEmail,
+        actorEmailVerified: userRecord.emailVerified,
+        actorDisplayName: normalizeText(userRecord.displayName) || actorEmail || "Workspace User",
+        userWorkspaceSlugs: parseWorkspaceSlugs(userSnapshot.get("workspaceSlugs")),
+      });
+    }
+
     const workspaceId = normalizeText(tokenData.workspaceId);
     const inviteId = normalizeText(tokenData.inviteId);
 
@@ -151,7 +491,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
       memberRef.get(),
     ]);
 
-    if (!workspaceSnapshot.exists || !inviteSnapshot.exists) {
+    if (
+      !workspaceSnapshot.exists ||
+      isWorkspacePendingDeletion(workspaceSnapshot.get("deletion")) ||
+      !inviteSnapshot.exists
+    ) {
       return NextResponse.json(
         { error: "Invite no longer exists." },
         { status: 404 },
@@ -267,6 +611,9 @@ async function postHandler(request: NextRequest, context: RouteContext) {
     let resolvedWorkspaceName = "";
     let resolvedRole = parseWorkspaceMemberRole("member");
     let alreadyMember = false;
+    let joinedFromLink = false;
+    let acceptedInviteRef: DocumentReference | null = null;
+    let acceptedMemberRef: DocumentReference | null = null;
 
     await adminDb.runTransaction(async (transaction) => {
       const tokenSnapshot = await transaction.get(tokenRef);
@@ -275,6 +622,23 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       }
 
       const tokenData = tokenSnapshot.data() as Record<string, unknown>;
+      if (isJoinLinkToken(tokenData)) {
+        const joined = await acceptJoinLinkInTransaction(transaction, {
+          uid,
+          tokenData,
+          actorEmail,
+          actorEmailVerified: userRecord.emailVerified,
+          actorDisplayName,
+        });
+        resolvedWorkspaceSlug = joined.workspaceSlug;
+        resolvedWorkspaceName = joined.workspaceName;
+        resolvedRole = joined.role;
+        alreadyMember = joined.alreadyMember;
+        joinedFromLink = true;
+        acceptedMemberRef = joined.memberRef;
+        return;
+      }
+
       const workspaceId = normalizeText(tokenData.workspaceId);
       const inviteId = normalizeText(tokenData.inviteId);
       if (!workspaceId || !inviteId) {
@@ -293,7 +657,11 @@ async function postHandler(request: NextRequest, context: RouteContext) {
         transaction.get(userRef),
       ]);
 
-      if (!workspaceSnapshot.exists || !inviteSnapshot.exists) {
+      if (
+        !workspaceSnapshot.exists ||
+        isWorkspacePendingDeletion(workspaceSnapshot.get("deletion")) ||
+        !inviteSnapshot.exists
+      ) {
         throw new Error("INVITE_NOT_FOUND");
       }
 
@@ -348,6 +716,8 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       resolvedWorkspaceName = workspaceName;
       resolvedRole = role;
       alreadyMember = memberSnapshot.exists;
+      acceptedInviteRef = inviteRef;
+      acceptedMemberRef = memberRef;
       const userWorkspaceSlugs = parseWorkspaceSlugs(userSnapshot.get("workspaceSlugs"));
       const isNewMembership =
         !memberSnapshot.exists && !userWorkspaceSlugs.includes(workspaceSlug);
@@ -357,37 +727,20 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       }
 
       const now = Timestamp.now();
-      if (!memberSnapshot.exists) {
-        transaction.set(
-          memberRef,
-          {
-            uid,
-            role,
-            status: "active",
-            displayName: actorDisplayName,
-            email: actorEmail,
-            joinedAt: now,
-            updatedAt: now,
-          },
-          { merge: true },
-        );
-      }
-
-      const currentDefaultWorkspaceId = normalizeText(userSnapshot.get("defaultWorkspaceId"));
-      const userPayload: Record<string, unknown> = {
+      writeAcceptedMembership({
+        transaction,
+        memberRef,
+        userRef,
+        memberSnapshot,
+        userSnapshot,
         uid,
-        email: actorEmail,
+        role,
         displayName: actorDisplayName,
-        workspaceSlugs: FieldValue.arrayUnion(workspaceSlug),
-        onboardingCompleted: true,
-        updatedAt: now,
-        createdAt: now,
-      };
-      if (!currentDefaultWorkspaceId) {
-        userPayload.defaultWorkspaceId = workspaceId;
-      }
-
-      transaction.set(userRef, userPayload, { merge: true });
+        email: actorEmail,
+        workspaceId,
+        workspaceSlug,
+        now,
+      });
 
       transaction.set(
         inviteRef,
@@ -422,6 +775,31 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       );
     });
 
+    if (acceptedInviteRef) {
+      await writeCanonicalHistoryEvent({
+        entityRef: acceptedInviteRef,
+        entity: "invite",
+        eventType: "accepted",
+        source: "manual",
+        actorUid: uid,
+        actorName: actorDisplayName,
+        message: `${actorEmail} accepted the invite.`,
+        metadata: { email: actorEmail, role: resolvedRole },
+      });
+    }
+    if (acceptedMemberRef && !alreadyMember) {
+      await writeCanonicalHistoryEvent({
+        entityRef: acceptedMemberRef,
+        entity: "member",
+        eventType: "created",
+        source: "manual",
+        actorUid: uid,
+        actorName: actorDisplayName,
+        message: `${actorDisplayName} joined as ${resolvedRole} from ${joinedFromLink ? "a join link" : "an invite"}.`,
+        metadata: { role: resolvedRole },
+      });
+    }
+
     return NextResponse.json({
       ok: true,
       workspaceSlug: resolvedWorkspaceSlug,
@@ -459,6 +837,24 @@ async function postHandler(request: NextRequest, context: RouteContext) {
         { status: 403 },
       );
     }
+    if (message === "JOIN_LINK_EMAIL_UNVERIFIED") {
+      return NextResponse.json(
+        { error: "Verify your email address before joining with this link." },
+        { status: 403 },
+      );
+    }
+    if (message === "JOIN_LINK_DOMAIN_NOT_ALLOWED") {
+      return NextResponse.json(
+        { error: "This join link is limited to other email domains." },
+        { status: 403 },
+      );
+    }
+    if (message === "JOIN_LINK_EXHAUSTED") {
+      return NextResponse.json(
+        { error: "This join link has reached its usage limit." },
+        { status: 409 },
+      );
+    }
 
     const status = message === "UNAUTHORIZED" ? 401 : 500;
     return NextResponse.json({ error: message }, { status });
@@ -493,6 +889,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
     const tokenRef = adminDb.collection("workspaceInviteTokens").doc(normalizedToken);
     let resolvedWorkspaceSlug = "";
     let resolvedWorkspaceName = "";
+    let rejectedInviteRef: DocumentReference | null = null;
 
     await adminDb.runTransaction(async (transaction) => {
       const tokenSnapshot = await transaction.get(tokenRef);
@@ -501,6 +898,10 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       }
 
       const tokenData = tokenSnapshot.data() as Record<string, unknown>;
+      if (isJoinLinkToken(tokenData)) {
+        throw new Error("JOIN_LINK_NOT_REJECTABLE");
+      }
+
       const workspaceId = normalizeText(tokenData.workspaceId);
       const inviteId = normalizeText(tokenData.inviteId);
       if (!workspaceId || !inviteId) {
@@ -600,8 +1001,22 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
 
       resolvedWorkspaceSlug = workspaceSlug;
       resolvedWorkspaceName = workspaceName;
+      rejectedInviteRef = inviteRef;
     });
 
+    if (rejectedInviteRef) {
+      await writeCanonicalHistoryEvent({
+        entityRef: rejectedInviteRef,
+        entity: "invite",
+        eventType: "rejected",
+        source: "manual",
+        actorUid: uid,
+        actorName: normalizeText(userRecord.displayName) || actorEmail,
+        message: `${actorEmail} rejected the invite.`,
+        metadata: { email: actorEmail },
+      });
+    }
+
     return NextResponse.json({
       ok: true,
       status: "rejected",
@@ -626,6 +1041,12 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
     if (message === "INVITE_NOT_ACTIVE") {
       return NextResponse.json({ error: "Invite is no longer active." }, { status: 409 });
     }
+    if (message === "JOIN_LINK_NOT_REJECTABLE") {
+      return NextResponse.json(
+        { error: "Join links do not need to be rejected." },
+        { status: 400 },
+      );
+    }
     if (message === "INVITE_ALREADY_MEMBER") {
       return NextResponse.json(
         { error: "You are already a member of this workspace." },
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeJobRequest } from "@/lib/api/job-auth";
+import { runActionDigestJob } from "@/lib/notifications/action-digest";
+
+// Invoked hourly by a scheduler (or `npm run jobs:action-digests`). Each run
+// only emails users whose local digest time has arrived and who have not
+// received today's digest yet.
+export async function POST(request: NextRequest) {
+  try {
+    authorizeJobRequest(request);
+    const summary = await runActionDigestJob();
+
+    return NextResponse.json({ ok: true, summary });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to run action digests.";
+    const status =
+      message === "UNAUTHORIZED" ? 401 : message === "JOBS_NOT_CONFIGURED" ? 503 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeJobRequest } from "@/lib/api/job-auth";
+import { runActionWorkflowMigrationJob } from "@/lib/workspace/action-workflow-migration";
+
+// Invoked every few minutes by a scheduler (or `npm run jobs:action-workflow-migrations`).
+// Finishes moving actions off removed statuses when a workflow change touched
+// more actions than the settings request handles.
+export async function POST(request: NextRequest) {
+  try {
+    authorizeJobRequest(request);
+    const summary = await runActionWorkflowMigrationJob();
+
+    return NextResponse.json({ ok: true, summary });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to run action workflow migrations.";
+    const status =
+      message === "UNAUTHORIZED" ? 401 : message === "JOBS_NOT_CONFIGURED" ? 503 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeJobRequest } from "@/lib/api/job-auth";
+import { runHeldEmailJob } from "@/lib/notifications/held-emails";
+
+// Invoked every 15 minutes by a scheduler (or `npm run jobs:held-emails`).
+// Sends notification and meeting digest emails held during quiet hours once
+// the recipient's quiet hours have ended.
+export async function POST(request: NextRequest) {
+  try {
+    authorizeJobRequest(request);
+    const summary = await runHeldEmailJob();
+
+    return NextResponse.json({ ok: true, summary });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to send held emails.";
+    const status =
+      message === "UNAUTHORIZED" ? 401 : message === "JOBS_NOT_CONFIGURED" ? 503 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeJobRequest } from "@/lib/api/job-auth";
+import { runInviteExpiryJob } from "@/lib/workspace/invite-expiry";
+
+// Invoked hourly by a scheduler (or `npm run jobs:invite-expiry`). Expired
+// invites are marked once and reminders are sent once per invite link.
+export async function POST(request: NextRequest) {
+  try {
+    authorizeJobRequest(request);
+    const summary = await runInviteExpiryJob();
+
+    return NextResponse.json({ ok: true, summary });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to run invite expiry.";
+    const status =
+      message === "UNAUTHORIZED" ? 401 : message === "JOBS_NOT_CONFIGURED" ? 503 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeJobRequest } from "@/lib/api/job-auth";
+import { runWorkspaceDeletionJob } from "@/lib/workspace/workspace-deletion-store";
+
+// Invoked daily by a scheduler (or `npm run jobs:workspace-deletions`) to
+// finalize deletions whose grace period has ended.
+export async function POST(request: NextRequest) {
+  try {
+    authorizeJobRequest(request);
+    const summary = await runWorkspaceDeletionJob();
+
+    return NextResponse.json({ ok: true, summary });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to run workspace deletions.";
+    const status =
+      message === "UNAUTHORIZED" ? 401 : message === "JOBS_NOT_CONFIGURED" ? 503 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
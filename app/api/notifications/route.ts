@@ -1,56 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Timestamp } from "firebase-admin/firestore";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
 import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
 import { adminAuth, adminDb } from "@/lib/firebase/admin";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
-
-type NotificationAction = "mark_read" | "mark_all_read";
-type InviteStatus = "pending" | "accepted" | "revoked" | "expired";
-type NotificationType = "workspace_invite" | "mention";
-type MentionEntityType = "decision" | "action";
+import {
+  DEFAULT_NOTIFICATION_PAGE_SIZE,
+  listPendingInviteNotificationsByEmail,
+  loadNotificationInbox,
+  parseNotificationView,
+  readInviteTriageMaps,
+} from "@/lib/notifications/inbox";
+
+type NotificationAction =
+  | "mark_read"
+  | "mark_all_read"
+  | "archive"
+  | "unarchive"
+  | "snooze"
+  | "unsnooze";
+type NotificationTriageAction = Exclude<NotificationAction, "mark_read" | "mark_all_read">;
+type NotificationType = "workspace_invite" | "mention" | "assignment";
 
 type NotificationPatchBody = {
   action?: NotificationAction;
   notificationType?: NotificationType;
   token?: string;
+  tokens?: string[];
   notificationId?: string;
+  notificationIds?: string[];
+  snoozedUntil?: string;
 };
 
-type InviteNotification = {
-  id: string;
-  type: "workspace_invite";
-  token: string;
-  inviteUrl: string;
-  workspaceSlug: string;
-  workspaceName: string;
-  role: string;
-  invitedByName: string;
-  status: InviteStatus;
-  createdAt: string;
-  expiresAt: string;
-  isRead: boolean;
-  readAt: string;
-};
-
-type MentionNotification = {
-  id: string;
-  type: "mention";
-  notificationId: string;
-  workspaceSlug: string;
-  workspaceName: string;
-  entityType: MentionEntityType;
-  entityId: string;
-  entityTitle: string;
-  entityPath: string;
-  mentionedByName: string;
-  preview: string;
-  createdAt: string;
-  updatedAt: string;
-  isRead: boolean;
-  readAt: string;
-};
-
-type NotificationItem = InviteNotification | MentionNotification;
+const MAX_SNOOZE_DAYS = 30;
+const MAX_NOTIFICATIONS_PER_REQUEST = 100;
 
 function normalizeText(value: unknown) {
   return typeof value === "string" ? value.trim() : "";
@@ -60,12 +42,6 @@ function normalizeEmail(value: unknown) {
   return normalizeText(value).toLowerCase();
 }
 
-function normalizePath(value: unknown) {
-  const normalized = normalizeText(value);
-  if (!normalized) return "";
-  return normalized.startsWith("/") ? normalized : `/${normalized}`;
-}
-
 function parseDate(value: unknown) {
   if (value && typeof value === "object" && "toDate" in value) {
     try {
@@ -85,52 +61,59 @@ function parseDate(value: unknown) {
   return null;
 }
 
-function formatInviteStatus(rawStatus: string, expiresAt: Date | null): InviteStatus {
-  if (rawStatus === "accepted" || rawStatus === "revoked" || rawStatus === "expired") {
-    return rawStatus;
+function parseNotificationAction(value: unknown): NotificationAction | "" {
+  const action = normalizeText(value).toLowerCase();
+  if (
+    action === "mark_read" ||
+    action === "mark_all_read" ||
+    action === "archive" ||
+    action === "unarchive" ||
+    action === "snooze" ||
+    action === "unsnooze"
+  ) {
+    return action;
   }
+  return "";
+}
 
-  if (expiresAt && expiresAt.getTime() < Date.now()) {
-    return "expired";
+// Grouped rows act on every notification in the group, so IDs and tokens may
+// arrive as lists; the singular fields are still accepted.
+function collectIds(single: unknown, list: unknown) {
+  const values = Array.isArray(list) ? [...list, single] : [single];
+  return Array.from(new Set(values.map((value) => normalizeText(value)).filter(Boolean)));
+}
+
+function parseSnoozedUntil(value: unknown, now: Date) {
+  const snoozedUntil = parseDate(value);
+  if (!snoozedUntil) {
+    return null;
   }
 
-  return "pending";
-}
+  const diff = snoozedUntil.getTime() - now.getTime();
+  if (diff <= 0 || diff > MAX_SNOOZE_DAYS * 24 * 60 * 60 * 1000) {
+    return null;
+  }
 
-function formatRoleLabel(role: string) {
-  const normalizedRole = normalizeText(role).toLowerCase();
-  if (!normalizedRole) return "Member";
-  return normalizedRole[0]?.toUpperCase() + normalizedRole.slice(1);
+  return snoozedUntil;
 }
 
-function parseNotificationAction(value: unknown): NotificationAction | "" {
-  const action = normalizeText(value).toLowerCase();
-  if (action === "mark_read" || action === "mark_all_read") {
-    return action;
-  }
-  return "";
+function parseLimit(value: string | null) {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_NOTIFICATION_PAGE_SIZE;
 }
 
 function parseNotificationType(value: unknown): NotificationType | "" {
   const type = normalizeText(value).toLowerCase();
-  if (type === "workspace_invite" || type === "mention") {
+  if (type === "workspace_invite" || type === "mention" || type === "assignment") {
     return type;
   }
   return "";
 }
 
-function parseMentionEntityType(value: unknown): MentionEntityType {
-  const normalized = normalizeText(value).toLowerCase();
-  if (normalized === "action") return "action";
-  return "decision";
-}
-
-function readTokenMap(value: unknown) {
-  if (!value || typeof value !== "object" || Array.isArray(value)) {
-    return {} as Record<string, unknown>;
-  }
-
-  return { ...(value as Record<string, unknown>) };
+// Notification types stored as rows under users/{uid}/notifications.
+function isStoredNotificationType(value: unknown) {
+  const type = normalizeText(value).toLowerCase();
+  return type === "mention" || type === "assignment";
 }
 
 async function authenticateUid(request: NextRequest) {
@@ -148,63 +131,6 @@ async function resolveActorEmail(uid: string) {
   return normalizeEmail(userRecord.email);
 }
 
-async function listPendingInviteNotificationsByEmail(
-  actorEmail: string,
-  readInviteTokens: Record<string, unknown>,
-): Promise<InviteNotification[]> {
-  if (!actorEmail) {
-    return [];
-  }
-
-  const tokenSnapshots = await adminDb
-    .collection("workspaceInviteTokens")
-    .where("email", "==", actorEmail)
-    .limit(100)
-    .get();
-
-  const notifications: InviteNotification[] = [];
-
-  for (const snapshot of tokenSnapshots.docs) {
-    const data = snapshot.data() as Record<string, unknown>;
-    const token = normalizeText(data.token || snapshot.id);
-    if (!token) continue;
-
-    const expiresAt = parseDate(data.expiresAt);
-    const rawStatus = normalizeText(data.status).toLowerCase();
-    const status = formatInviteStatus(rawStatus, expiresAt);
-    if (status !== "pending") {
-      continue;
-    }
-
-    const createdAt = parseDate(data.createdAt);
-    const readAt = parseDate(readInviteTokens[token]);
-
-    notifications.push({
-      id: token,
-      type: "workspace_invite",
-      token,
-      inviteUrl: `/invite/${encodeURIComponent(token)}`,
-      workspaceSlug: normalizeText(data.workspaceSlug),
-      workspaceName: normalizeText(data.workspaceName) || "Workspace",
-      role: formatRoleLabel(normalizeText(data.role)),
-      invitedByName: normalizeText(data.invitedByName) || "Workspace Admin",
-      status,
-      createdAt: createdAt?.toISOString() ?? "",
-      expiresAt: expiresAt?.toISOString() ?? "",
-      isRead: readAt !== null,
-      readAt: readAt?.toISOString() ?? "",
-    });
-  }
-
-  notifications.sort((a, b) => {
-    const aTime = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-    const bTime = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-    return bTime - aTime;
-  });
-
-  return notifications;
-}
-
 async function markInviteTokensRead(
   uid: string,
   actorEmail: string,
@@ -223,9 +149,7 @@ async function markInviteTokensRead(
 
   const userRef = adminDb.collection("users").doc(uid);
   const userSnapshot = await userRef.get();
-  const existingReadTokens = readTokenMap(
-    userSnapshot.get("notificationState.readInviteTokens"),
-  );
+  const existingReadTokens = readInviteTriageMaps(userSnapshot).readInviteTokens;
   const existingCreatedAt = userSnapshot.get("createdAt");
   const now = Timestamp.now();
 
@@ -250,102 +174,7 @@ async function markInviteTokensRead(
   return uniqueTokens.length;
 }
 
-function mapMentionSnapshotToNotification(
-  snapshot: FirebaseFirestore.QueryDocumentSnapshot<FirebaseFirestore.DocumentData>,
-): MentionNotification | null {
-  const data = snapshot.data() as Record<string, unknown>;
-  const type = normalizeText(data.type).toLowerCase();
-  if (type !== "mention") {
-    return null;
-  }
-
-  const readAt = parseDate(data.readAt);
-  const isRead = readAt !== null || normalizeText(data.status).toLowerCase() === "read";
-  const workspaceSlug = normalizeText(data.workspaceSlug);
-  const entityType = parseMentionEntityType(data.entityType);
-  const entityId = normalizeText(data.entityId);
-  const fallbackPath =
-    workspaceSlug && entityId
-      ? `/${workspaceSlug}/${entityType === "decision" ? "decisions" : "actions"}/${entityId}`
-      : "";
-  const createdAt = parseDate(data.createdAt);
-  const updatedAt = parseDate(data.updatedAt);
-
-  return {
-    id: snapshot.id,
-    type: "mention",
-    notificationId: snapshot.id,
-    workspaceSlug,
-    workspaceName: normalizeText(data.workspaceName) || "Workspace",
-    entityType,
-    entityId,
-    entityTitle: normalizeText(data.entityTitle) || `${entityType} ${entityId}`,
-    entityPath: normalizePath(data.entityPath) || fallbackPath,
-    mentionedByName: normalizeText(data.mentionedByName) || "Workspace User",
-    preview: normalizeText(data.preview),
-    createdAt: createdAt?.toISOString() ?? "",
-    updatedAt: updatedAt?.toISOString() ?? createdAt?.toISOString() ?? "",
-    isRead,
-    readAt: readAt?.toISOString() ?? "",
-  };
-}
-
-async function listMentionNotifications(uid: string): Promise<MentionNotification[]> {
-  const notificationsSnapshot = await adminDb
-    .collection("users")
-    .doc(uid)
-    .collection("notifications")
-    .orderBy("updatedAt", "desc")
-    .limit(100)
-    .get();
-
-  const notifications: MentionNotification[] = [];
-  for (const snapshot of notificationsSnapshot.docs) {
-    const notification = mapMentionSnapshotToNotification(snapshot);
-    if (notification) {
-      notifications.push(notification);
-    }
-  }
-
-  return notifications;
-}
-
-async function markMentionNotificationRead(uid: string, notificationId: string) {
-  const normalizedId = normalizeText(notificationId);
-  if (!normalizedId) {
-    return 0;
-  }
-
-  const notificationRef = adminDb
-    .collection("users")
-    .doc(uid)
-    .collection("notifications")
-    .doc(normalizedId);
-  const notificationSnapshot = await notificationRef.get();
-
-  if (!notificationSnapshot.exists) {
-    return 0;
-  }
-
-  const notificationType = normalizeText(notificationSnapshot.get("type")).toLowerCase();
-  if (notificationType !== "mention") {
-    return 0;
-  }
-
-  const now = Timestamp.now();
-  await notificationRef.set(
-    {
-      status: "read",
-      readAt: now,
-      updatedAt: now,
-    },
-    { merge: true },
-  );
-
-  return 1;
-}
-
-async function markAllMentionNotificationsRead(uid: string) {
+async function markAllStoredNotificationsRead(uid: string) {
   const notificationsSnapshot = await adminDb
     .collection("users")
     .doc(uid)
@@ -363,7 +192,7 @@ async function markAllMentionNotificationsRead(uid: string) {
 
   for (const snapshot of notificationsSnapshot.docs) {
     const data = snapshot.data() as Record<string, unknown>;
-    if (normalizeText(data.type).toLowerCase() !== "mention") {
+    if (!isStoredNotificationType(data.type)) {
       continue;
     }
 
@@ -378,7 +207,8 @@ async function markAllMentionNotificationsRead(uid: string) {
       {
         status: "read",
         readAt: now,
-        updatedAt: now,
+        eventCount: 0,
+        triagedAt: now,
       },
       { merge: true },
     );
@@ -399,16 +229,112 @@ async function markAllMentionNotificationsRead(uid: string) {
   return updatedCount;
 }
 
-function notificationSortTime(notification: NotificationItem) {
-  if (notification.type === "mention") {
-    return notification.updatedAt || notification.createdAt;
+// Invite triage state lives on the user document, keyed by token, because
+// invites have no per-user notification row.
+async function updateInviteTokensTriage(
+  uid: string,
+  actorEmail: string,
+  tokens: string[],
+  action: NotificationTriageAction,
+  snoozedUntil: Date | null,
+) {
+  const now = Timestamp.now();
+  const archiveValue = action === "archive" ? now : FieldValue.delete();
+  const snoozeValue =
+    action === "snooze" && snoozedUntil ? Timestamp.fromDate(snoozedUntil) : FieldValue.delete();
+  const archivedInviteTokens: Record<string, unknown> = {};
+  const snoozedInviteTokens: Record<string, unknown> = {};
+
+  for (const token of tokens) {
+    if (action === "archive" || action === "unarchive") {
+      archivedInviteTokens[token] = archiveValue;
+    }
+    if (action === "snooze" || action === "unsnooze" || action === "archive") {
+      snoozedInviteTokens[token] = snoozeValue;
+    }
+    if (action === "snooze") {
+      archivedInviteTokens[token] = FieldValue.delete();
+    }
+  }
+
+  const userRef = adminDb.collection("users").doc(uid);
+  const userSnapshot = await userRef.get();
+  await userRef.set(
+    {
+      uid,
+      email: actorEmail,
+      notificationState: {
+        archivedInviteTokens,
+        snoozedInviteTokens,
+        updatedAt: now,
+      },
+      updatedAt: now,
+      createdAt: userSnapshot.get("createdAt") ?? now,
+    },
+    { merge: true },
+  );
+
+  return tokens.length;
+}
+
+async function updateStoredNotificationsTriage(
+  uid: string,
+  notificationIds: string[],
+  action: NotificationAction,
+  snoozedUntil: Date | null,
+) {
+  const notificationsRef = adminDb.collection("users").doc(uid).collection("notifications");
+  const snapshots = await adminDb.getAll(
+    ...notificationIds.map((notificationId) => notificationsRef.doc(notificationId)),
+  );
+  const now = Timestamp.now();
+  const batch = adminDb.batch();
+  let updatedCount = 0;
+
+  for (const snapshot of snapshots) {
+    if (!snapshot.exists || !isStoredNotificationType(snapshot.get("type"))) {
+      continue;
+    }
+
+    // Triage leaves updatedAt alone so rows keep their place in the inbox.
+    // Archiving and snoozing are independent of read state.
+    const update: Record<string, unknown> =
+      action === "mark_read"
+        ? { status: "read", readAt: now, eventCount: 0 }
+        : action === "archive"
+          ? { archivedAt: now, snoozedUntil: null }
+          : action === "unarchive"
+            ? { archivedAt: null }
+            : action === "snooze" && snoozedUntil
+              ? { snoozedUntil: Timestamp.fromDate(snoozedUntil), archivedAt: null }
+              : { snoozedUntil: null };
+
+    batch.set(snapshot.ref, { ...update, triagedAt: now }, { merge: true });
+    updatedCount += 1;
+  }
+
+  if (updatedCount > 0) {
+    await batch.commit();
   }
-  return notification.createdAt;
+
+  return updatedCount;
 }
 
-function toEpoch(value: string) {
-  const parsed = new Date(value).getTime();
-  return Number.isNaN(parsed) ? 0 : parsed;
+async function findForeignInviteToken(actorEmail: string, tokens: string[]) {
+  const tokenSnapshots = await adminDb.getAll(
+    ...tokens.map((token) => adminDb.collection("workspaceInviteTokens").doc(token)),
+  );
+
+  for (const tokenSnapshot of tokenSnapshots) {
+    if (!tokenSnapshot.exists) {
+      return { token: tokenSnapshot.id, reason: "missing" as const };
+    }
+    if (!actorEmail || normalizeEmail(tokenSnapshot.get("email")) !== actorEmail) {
+      return { token: tokenSnapshot.id, reason: "forbidden" as const };
+    }
+  }
+
+  return null;
 }
 
 export async function GET(request: NextRequest) {
@@ -416,25 +342,17 @@ export async function GET(request: NextRequest) {
     const uid = await authenticateUid(request);
     const actorEmail = await resolveActorEmail(uid);
 
-    const userSnapshot = await adminDb.collection("users").doc(uid).get();
-    const readInviteTokens = readTokenMap(userSnapshot.get("notificationState.readInviteTokens"));
-    const [inviteNotifications, mentionNotifications] = await Promise.all([
-      listPendingInviteNotificationsByEmail(actorEmail, readInviteTokens),
-      listMentionNotifications(uid),
-    ]);
-    const notifications = [...inviteNotifications, ...mentionNotifications].sort((a, b) => {
-      const aTime = toEpoch(notificationSortTime(a));
-      const bTime = toEpoch(notificationSortTime(b));
-      return bTime - aTime;
+    const searchParams = request.nextUrl.searchParams;
+
+    const inbox = await loadNotificationInbox(uid, actorEmail, {
+      view: parseNotificationView(searchParams.get("view")),
+      cursor: normalizeText(searchParams.get("cursor")),
+      limit: parseLimit(searchParams.get("limit")),
     });
-    const unreadCount = notifications.reduce((count, notification) => {
-      return notification.isRead ? count : count + 1;
-    }, 0);
 
     return NextResponse.json({
       ok: true,
-      unreadCount,
-      notifications,
+      ...inbox,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to load notifications.";
@@ -458,72 +376,89 @@ async function patchHandler(request: NextRequest) {
       );
     }
 
-    if (action === "mark_read") {
-      if (notificationType === "mention" || normalizeText(body.notificationId)) {
-        const notificationId = normalizeText(body.notificationId);
-        if (!notificationId) {
-          return NextResponse.json(
-            { error: "Notification ID is required for mention mark_read." },
-            { status: 400 },
-          );
-        }
+    if (action !== "mark_all_read") {
+      const notificationIds = collectIds(body.notificationId, body.notificationIds);
+      const tokens = collectIds(body.token, body.tokens);
 
-        const mentionUpdatedCount = await markMentionNotificationRead(uid, notificationId);
-        if (mentionUpdatedCount === 0) {
-          return NextResponse.json(
-            { error: "Mention notification not found." },
-            { status: 404 },
-          );
-        }
+      if (notificationIds.length === 0 && tokens.length === 0) {
+        return NextResponse.json(
+          {
+            error: isStoredNotificationType(notificationType)
+              ? `Notification ID is required for ${notificationType} ${action}.`
+              : `Invite token or notification ID is required for ${action}.`,
+          },
+          { status: 400 },
+        );
+      }
 
-        return NextResponse.json({
-          ok: true,
-          updatedCount: mentionUpdatedCount,
-        });
+      if (notificationIds.length + tokens.length > MAX_NOTIFICATIONS_PER_REQUEST) {
+        return NextResponse.json(
+          {
+            error: `At most ${MAX_NOTIFICATIONS_PER_REQUEST} notifications can be updated at once.`,
+          },
+          { status: 400 },
+        );
       }
 
-      const token = normalizeText(body.token);
-      if (!token) {
+      const snoozedUntil =
+        action === "snooze" ? parseSnoozedUntil(body.snoozedUntil, new Date()) : null;
+      if (action === "snooze" && !snoozedUntil) {
         return NextResponse.json(
-          { error: "Invite token is required for mark_read." },
+          { error: `Snooze time must be in the future and within ${MAX_SNOOZE_DAYS} days.` },
           { status: 400 },
         );
       }
 
-      const tokenSnapshot = await adminDb.collection("workspaceInviteTokens").doc(token).get();
-      if (!tokenSnapshot.exists) {
-        return NextResponse.json({ error: "Invite notification not found." }, { status: 404 });
+      if (tokens.length > 0) {
+        const foreignToken = await findForeignInviteToken(actorEmail, tokens);
+        if (foreignToken?.reason === "missing") {
+          return NextResponse.json({ error: "Invite notification not found." }, { status: 404 });
+        }
+        if (foreignToken) {
+          return NextResponse.json(
+            { error: "You do not have access to this invite notification." },
+            { status: 403 },
+          );
+        }
       }
 
-      const tokenEmail = normalizeEmail(tokenSnapshot.get("email"));
-      if (!actorEmail || tokenEmail !== actorEmail) {
-        return NextResponse.json(
-          { error: "You do not have access to this invite notification." },
-          { status: 403 },
-        );
+      const [storedUpdatedCount, invitesUpdatedCount] = await Promise.all([
+        notificationIds.length > 0
+          ? updateStoredNotificationsTriage(uid, notificationIds, action, snoozedUntil)
+          : Promise.resolve(0),
+        tokens.length === 0
+          ? Promise.resolve(0)
+          : action === "mark_read"
+            ? markInviteTokensRead(uid, actorEmail, tokens)
+            : updateInviteTokensTriage(uid, actorEmail, tokens, action, snoozedUntil),
+      ]);
+
+      if (notificationIds.length > 0 && storedUpdatedCount === 0) {
+        return NextResponse.json({ error: "Notification not found." }, { status: 404 });
       }
 
-      const updatedCount = await markInviteTokensRead(uid, actorEmail, [token]);
       return NextResponse.json({
         ok: true,
-        updatedCount,
+        updatedCount: storedUpdatedCount + invitesUpdatedCount,
       });
     }
 
     const userSnapshot = await adminDb.collection("users").doc(uid).get();
-    const readInviteTokens = readTokenMap(userSnapshot.get("notificationState.readInviteTokens"));
-    const inviteNotifications = await listPendingInviteNotificationsByEmail(actorEmail, readInviteTokens);
+    const inviteNotifications = await listPendingInviteNotificationsByEmail(
+      actorEmail,
+      readInviteTriageMaps(userSnapshot),
+    );
     const unreadTokens = inviteNotifications
       .filter((notification) => !notification.isRead)
       .map((notification) => notification.token);
-    const [updatedInvitesCount, updatedMentionsCount] = await Promise.all([
+    const [updatedInvitesCount, updatedStoredCount] = await Promise.all([
       markInviteTokensRead(uid, actorEmail, unreadTokens),
-      markAllMentionNotificationsRead(uid),
+      markAllStoredNotificationsRead(uid),
     ]);
 
     return NextResponse.json({
       ok: true,
-      updatedCount: updatedInvitesCount + updatedMentionsCount,
+      updatedCount: updatedInvitesCount + updatedStoredCount,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to update notifications.";
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { createEventStreamResponse } from "@/lib/api/event-stream";
+import { loadNotificationInbox } from "@/lib/notifications/inbox";
+
+// Several listeners fire together on connect and on mark-all-read, so pushes
+// are coalesced into one inbox reload.
+const PUSH_DEBOUNCE_MS = 250;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizeEmail(value: unknown) {
+  return normalizeText(value).toLowerCase();
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+// Revoked sessions and disabled accounts fail verification, which ends the
+// stream on the next heartbeat.
+async function hasStreamAccess(request: NextRequest, uid: string) {
+  return (await authenticateUid(request)) === uid;
+}
+
+// Pushes the first inbox page whenever the user's notification rows, triage
+// state, or invites addressed to their email change. Clients fall back to polling
+// GET /api/notifications when the stream is unavailable.
+export async function GET(request: NextRequest) {
+  try {
+    const uid = await authenticateUid(request);
+    const userRecord = await adminAuth.getUser(uid);
+    const actorEmail = normalizeEmail(userRecord.email);
+    const userRef = adminDb.collection("users").doc(uid);
+
+    const checkAccess = () => hasStreamAccess(request, uid);
+    return createEventStreamResponse(request, checkAccess, (send) => {
+      let pushTimer: ReturnType<typeof setTimeout> | null = null;
+      let stopped = false;
+
+      const schedulePush = () => {
+        if (pushTimer) clearTimeout(pushTimer);
+        pushTimer = setTimeout(() => {
+          pushTimer = null;
+          void loadNotificationInbox(uid, actorEmail)
+            .then((inbox) => {
+              if (!stopped) send("notifications", inbox);
+            })
+            .catch((error: unknown) => {
+              const message =
+                error instanceof Error ? error.message : "Failed to load notifications.";
+              if (!stopped) send("notifications-error", { error: message });
+            });
+        }, PUSH_DEBOUNCE_MS);
+      };
+
+      const onListenerError = () => {
+        if (!stopped) send("notifications-error", { error: "Notification updates paused." });
+      };
+
+      const unsubscribers = [
+        userRef.onSnapshot(schedulePush, onListenerError),
+        userRef
+          .collection("notifications")
+          .orderBy("updatedAt", "desc")
+          .limit(100)
+          .onSnapshot(schedulePush, onListenerError),
+      ];
+      if (actorEmail) {
+        unsubscribers.push(
+          adminDb
+            .collection("workspaceInviteTokens")
+            .where("email", "==", actorEmail)
+            .limit(100)
+            .onSnapshot(schedulePush, onListenerError),
+        );
+      }
+
+      return () => {
+        stopped = true;
+        if (pushTimer) clearTimeout(pushTimer);
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+      };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to open notification stream.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
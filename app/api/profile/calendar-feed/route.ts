@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth } from "@/lib/firebase/admin";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  getCalendarFeedToken,
+  revokeCalendarFeedToken,
+  rotateCalendarFeedToken,
+} from "@/lib/calendar/calendar-feed";
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+function buildFeedUrl(request: NextRequest, token: string) {
+  return token
+    ? `${request.nextUrl.origin}/api/calendar/feed/${encodeURIComponent(token)}.ics`
+    : "";
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const uid = await authenticateUid(request);
+    const token = await getCalendarFeedToken(uid);
+    return NextResponse.json({ ok: true, feedUrl: buildFeedUrl(request, token) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load calendar feed.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function postHandler(request: NextRequest) {
+  try {
+    const uid = await authenticateUid(request);
+    const token = await rotateCalendarFeedToken(uid);
+    return NextResponse.json({ ok: true, feedUrl: buildFeedUrl(request, token) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create calendar feed.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function deleteHandler(request: NextRequest) {
+  try {
+    const uid = await authenticateUid(request);
+    await revokeCalendarFeedToken(uid);
+    return NextResponse.json({ ok: true, feedUrl: "" });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to revoke calendar feed.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "profile.calendarFeed.rotate",
+    rateLimit: {
+      maxRequests: 10,
+      windowSeconds: 60,
+    },
+  },
+  postHandler,
+);
+
+export const DELETE = withWriteGuardrails(
+  {
+    routeId: "profile.calendarFeed.revoke",
+  },
+  deleteHandler,
+);
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageActionWorkflow, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  buildNextActionWorkflow,
+  parseActionWorkflow,
+  validateActionWorkflowStates,
+} from "@/lib/workspace/action-workflow";
+import {
+  buildActionWorkflowMigration,
+  parseActionWorkflowMigration,
+  runActionWorkflowMigrationChunk,
+} from "@/lib/workspace/action-workflow-migration";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type UpdateActionWorkflowBody = {
+  states?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveActionWorkflowContext(uid: string, workspaceSlug: string) {
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const actorMemberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+  if (!actorMemberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  return {
+    workspace,
+    workspaceRef,
+    actorRole: parseWorkspaceMemberRole(actorMemberSnapshot.get("role")),
+    actorName:
+      normalizeText(actorMemberSnapshot.get("displayName")) ||
+      normalizeText(actorMemberSnapshot.get("email")) ||
+      "Workspace User",
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const workflowContext = await resolveActionWorkflowContext(uid, workspaceSlug);
+
+    if ("error" in workflowContext) {
+      return NextResponse.json(
+        { error: workflowContext.error },
+        { status: workflowContext.status },
+      );
+    }
+
+    return NextResponse.json({
+      workspaceId: workflowContext.workspace.workspaceId,
+      workspaceSlug: workflowContext.workspace.workspaceSlug,
+      actorRole: workflowContext.actorRole,
+      canManageActionWorkflow: canManageActionWorkflow(workflowContext.actorRole),
+      workflow: await loadWorkspaceActionWorkflow(workflowContext.workspace.workspaceId),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load action workflow.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const workflowContext = await resolveActionWorkflowContext(uid, workspaceSlug);
+
+    if ("error" in workflowContext) {
+      return NextResponse.json(
+        { error: workflowContext.error },
+        { status: workflowContext.status },
+      );
+    }
+
+    if (!canManageActionWorkflow(workflowContext.actorRole)) {
+      return NextResponse.json(
+        { error: "Only owners and admins can change the action workflow." },
+        { status: 403 },
+      );
+    }
+
+    const body = (await request.json()) as UpdateActionWorkflowBody;
+    const validation = validateActionWorkflowStates(body.states);
+    if ("error" in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const workspaceSnapshot = await workflowContext.workspaceRef.get();
+    const previous = parseActionWorkflow(workspaceSnapshot.get("actionWorkflow"));
+    const { workflow, replacements } = buildNextActionWorkflow(previous, validation.states);
+    const now = Timestamp.now();
+    const pendingMigration = buildActionWorkflowMigration({
+      pending: parseActionWorkflowMigration(
+        workspaceSnapshot.get("actionWorkflow.pendingMigration"),
+      ),
+      previous,
+      workflow,
+      replacements,
+      actorUid: uid,
+      actorName: workflowContext.actorName,
+      now,
+    });
+
+    // update() replaces the whole map, so retired ids that were re-added as
+    // states do not linger the way a merge would leave them.
+    await workflowContext.workspaceRef.update({
+      actionWorkflow: {
+        ...workflow,
+        ...(pendingMigration ? { pendingMigration } : {}),
+        updatedAt: now,
+        updatedBy: uid,
+      },
+    });
+
+    // Small workspaces finish here; larger ones are completed by the
+    // action-workflow-migrations job.
+    const progress = await runActionWorkflowMigrationChunk(workflowContext.workspaceRef);
+
+    return NextResponse.json({
+      ok: true,
+      workflow,
+      migratedActions: progress.migrated,
+      migrationPending: !progress.done,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to save action workflow.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.actionWorkflow.update",
+  },
+  patchHandler,
+);
@@ -8,6 +8,7 @@ import {
   canEditActions,
   parseWorkspaceMemberRole,
 } from "@/lib/auth/permissions";
+import { emitAssignmentNotifications } from "@/lib/notifications/assignments";
 import {
   emitMentionNotifications,
   normalizeMentionUids,
@@ -15,9 +16,26 @@ import {
 } from "@/lib/notifications/mentions";
 import {
   areStringArraysEqual,
+  buildHistoryFieldChanges,
+  describeHistoryFieldChanges,
   writeCanonicalHistoryEvent,
 } from "@/lib/workspace/activity-history";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { resolveActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import {
+  areCustomFieldValuesEqual,
+  buildCustomFieldHistoryChanges,
+  parseCustomFieldValues,
+  type CustomFieldValues,
+} from "@/lib/workspace/custom-fields";
+import {
+  buildCustomFieldsWrite,
+  listWorkspaceCustomFields,
+  resolveCustomFieldValues,
+} from "@/lib/workspace/custom-fields-store";
+import { loadWorkspaceTeam } from "@/lib/workspace/teams";
 
 type RouteContext = {
   params: Promise<{
@@ -26,7 +44,6 @@ type RouteContext = {
   }>;
 };
 
-type ActionStatus = "open" | "done" | "blocked";
 type ActionPriority = "high" | "medium" | "low";
 
 type UpdateActionBody = {
@@ -38,9 +55,11 @@ type NormalizedActionPayload = {
   title: string;
   description: string;
   owner: string;
-  status: ActionStatus;
+  // A workflow state id, resolved against the workspace workflow on save.
+  status: string;
   priority: ActionPriority;
   project: string;
+  teamId: string;
   dueAt: Date | null;
   dueLabel: string;
   meetingId: string;
@@ -48,9 +67,9 @@ type NormalizedActionPayload = {
   blockedReason: string;
   notes: string;
   mentionUids: string[];
+  customFields: CustomFieldValues | null;
 };
 
-const ACTION_STATUSES = new Set<ActionStatus>(["open", "done", "blocked"]);
 const ACTION_PRIORITIES = new Set<ActionPriority>(["high", "medium", "low"]);
 
 function normalizeText(value: unknown) {
@@ -135,9 +154,10 @@ function normalizeActionPayload(value: unknown): NormalizedActionPayload | null
     title: normalizeText(candidate.title),
     description: normalizeText(candidate.description),
     owner: normalizeText(candidate.owner),
-    status: normalizeEnum(candidate.status, ACTION_STATUSES, "open"),
+    status: normalizeText(candidate.status),
     priority: normalizeEnum(candidate.priority, ACTION_PRIORITIES, "medium"),
     project: normalizeText(candidate.project),
+    teamId: normalizeText(candidate.teamId),
     dueAt,
     dueLabel: explicitDueLabel || (dueAt ? formatDueLabel(dueAt) : "No due date"),
     meetingId: normalizeText(candidate.meetingId),
@@ -145,6 +165,9 @@ function normalizeActionPayload(value: unknown): NormalizedActionPayload | null
     blockedReason: normalizeText(candidate.blockedReason),
     notes: normalizeText(candidate.notes),
     mentionUids: normalizeMentionUids(candidate.mentionUids),
+    // Omitted custom fields leave the stored values as they are.
+    customFields:
+      candidate.customFields === undefined ? null : parseCustomFieldValues(candidate.customFields),
   };
 }
 
@@ -219,6 +242,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
     const data = actionSnapshot.data() as Record<string, unknown>;
     const dueAt = parseDate(data.dueAt);
+    const workflow = await loadWorkspaceActionWorkflow(
+      authorizedContext.workspace.workspaceId,
+    );
 
     return NextResponse.json({
       ok: true,
@@ -228,9 +254,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
         title: normalizeText(data.title) || normalizeText(data.description) || `Action ${actionSnapshot.id}`,
         description: normalizeText(data.description),
         owner: normalizeText(data.owner) || normalizeText(data.ownerUid) || "Unassigned",
-        status: normalizeEnum(data.status, ACTION_STATUSES, "open"),
+        status: resolveActionState(workflow, data.status).id,
         priority: normalizeEnum(data.priority, ACTION_PRIORITIES, "medium"),
         project: normalizeText(data.project) || normalizeText(data.teamLabel) || "Workspace",
+        teamId: normalizeText(data.teamId),
         dueAt: dueAt?.toISOString() ?? "",
         dueLabel: normalizeText(data.dueLabel),
         meetingId: normalizeText(data.meetingId),
@@ -238,6 +265,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         blockedReason: normalizeText(data.blockedReason),
         notes: normalizeText(data.notes),
         mentionUids: normalizeMentionUids(data.mentionUids),
+        customFields: parseCustomFieldValues(data.customFields),
         archived: data.archived === true,
         archivedAt: parseDate(data.archivedAt)?.toISOString() ?? "",
         archivedBy: normalizeText(data.archivedBy),
@@ -316,6 +344,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         },
         { merge: true },
       );
+      await syncSearchIndexEntry({ entity: "action", entityRef: authorizedContext.actionRef });
 
       if (wasArchived !== isArchived) {
         await writeCanonicalHistoryEvent({
@@ -355,16 +384,29 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
     const owner = nextAction.owner || actorName;
     const nextProject =
       nextAction.project || authorizedContext.workspace.workspaceName || "Workspace";
+    const existingTeamId = normalizeText(existingData.teamId);
+    const team = nextAction.teamId
+      ? await loadWorkspaceTeam(authorizedContext.workspace.workspaceId, nextAction.teamId)
+      : null;
+    // A deleted team stays assignable on records that already reference it.
+    const keepsDeletedTeam = !team && nextAction.teamId !== "" && nextAction.teamId === existingTeamId;
+    if (nextAction.teamId && !team && !keepsDeletedTeam) {
+      return NextResponse.json({ error: "Team not found." }, { status: 400 });
+    }
+    const nextTeamId = nextAction.teamId;
     const dueAtTimestamp = nextAction.dueAt ? Timestamp.fromDate(nextAction.dueAt) : null;
     const existingCompletedAt = existingData.completedAt ?? null;
     const isArchived = archivedToggle === true;
     const wasArchived = existingData.archived === true;
     const nextMeetingId = nextAction.meetingId || "";
     const nextDecisionId = nextAction.decisionId || "";
+    const workflow = await loadWorkspaceActionWorkflow(authorizedContext.workspace.workspaceId);
+    const nextStatus = resolveActionState(workflow, nextAction.status);
+    const existingStatus = resolveActionState(workflow, existingData.status);
     const nextBlockedReason =
-      nextAction.status === "blocked" ? nextAction.blockedReason : "";
+      nextStatus.category === "blocked" ? nextAction.blockedReason : "";
     const nextDescription = nextAction.description || nextAction.title;
-    const nextDueSoon = nextAction.status === "open" && isDueSoon(nextAction.dueAt);
+    const nextDueSoon = nextStatus.category === "open" && isDueSoon(nextAction.dueAt);
     const nextDueAtEpoch = normalizeDateToEpoch(nextAction.dueAt);
     const existingDueAtEpoch = normalizeDateToEpoch(parseDate(existingData.dueAt));
     const existingDueSoon = typeof existingData.dueSoon === "boolean" ? existingData.dueSoon : false;
@@ -383,14 +425,34 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       );
     }
     const mentionUids = mentionUidResolution.validMentionUids;
+
+    const customFieldDefinitions = await listWorkspaceCustomFields(
+      authorizedContext.workspace.workspaceId,
+    );
+    const existingCustomFields = parseCustomFieldValues(existingData.customFields);
+    const customFieldResolution = nextAction.customFields
+      ? await resolveCustomFieldValues({
+          workspaceId: authorizedContext.workspace.workspaceId,
+          fields: customFieldDefinitions,
+          entityType: "action",
+          input: nextAction.customFields,
+          existing: existingCustomFields,
+        })
+      : { values: existingCustomFields, memberNames: new Map<string, string>() };
+    if ("error" in customFieldResolution) {
+      return NextResponse.json({ error: customFieldResolution.error }, { status: 400 });
+    }
+    const nextCustomFields = customFieldResolution.values;
+
     const didContentChange =
       !wasExisting ||
       normalizeText(existingData.title) !== nextAction.title ||
       normalizeText(existingData.description) !== nextDescription ||
       normalizeText(existingData.owner) !== owner ||
-      normalizeEnum(existingData.status, ACTION_STATUSES, "open") !== nextAction.status ||
+      normalizeText(existingData.status) !== nextStatus.id ||
       normalizeEnum(existingData.priority, ACTION_PRIORITIES, "medium") !== nextAction.priority ||
       normalizeText(existingData.project) !== nextProject ||
+      existingTeamId !== nextTeamId ||
       existingDueAtEpoch !== nextDueAtEpoch ||
       normalizeText(existingData.dueLabel) !== nextAction.dueLabel ||
       existingDueSoon !== nextDueSoon ||
@@ -398,11 +460,12 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       normalizeText(existingData.decisionId) !== nextDecisionId ||
       normalizeText(existingData.blockedReason) !== nextBlockedReason ||
       normalizeText(existingData.notes) !== nextAction.notes ||
-      !areStringArraysEqual(existingMentionUids, mentionUids);
+      !areStringArraysEqual(existingMentionUids, mentionUids) ||
+      !areCustomFieldValuesEqual(existingCustomFields, nextCustomFields);
     const archivedStateChanged = wasArchived !== isArchived;
 
     const completedAt =
-      nextAction.status === "done" ? existingCompletedAt ?? now : null;
+      nextStatus.category === "closed" ? existingCompletedAt ?? now : null;
 
     await authorizedContext.actionRef.set(
       {
@@ -410,9 +473,10 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         description: nextDescription,
         owner,
         ownerUid: authorizedContext.uid,
-        status: nextAction.status,
+        status: nextStatus.id,
         priority: nextAction.priority,
         project: nextProject,
+        teamId: nextTeamId,
         dueAt: dueAtTimestamp,
         dueLabel: nextAction.dueLabel,
         dueSoon: nextDueSoon,
@@ -421,6 +485,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         blockedReason: nextBlockedReason,
         notes: nextAction.notes,
         mentionUids,
+        customFields: buildCustomFieldsWrite(existingCustomFields, nextCustomFields),
         completedAt,
         archived: isArchived,
         archivedAt: isArchived ? existingData.archivedAt ?? now : null,
@@ -432,6 +497,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       },
       { merge: true },
     );
+    await syncSearchIndexEntry({ entity: "action", entityRef: authorizedContext.actionRef });
 
     if (!wasExisting) {
       await writeCanonicalHistoryEvent({
@@ -448,6 +514,59 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         },
       });
     } else if (didContentChange) {
+      const existingDueAt = parseDate(existingData.dueAt);
+      const changes = buildHistoryFieldChanges([
+        {
+          field: "title",
+          label: "Title",
+          before: normalizeText(existingData.title),
+          after: nextAction.title,
+        },
+        {
+          field: "description",
+          label: "Description",
+          before: normalizeText(existingData.description),
+          after: nextDescription,
+        },
+        { field: "owner", label: "Owner", before: normalizeText(existingData.owner), after: owner },
+        {
+          field: "status",
+          label: "Status",
+          before: existingStatus.label,
+          after: nextStatus.label,
+        },
+        {
+          field: "priority",
+          label: "Priority",
+          before: normalizeEnum(existingData.priority, ACTION_PRIORITIES, "medium"),
+          after: nextAction.priority,
+        },
+        {
+          field: "project",
+          label: "Project",
+          before: normalizeText(existingData.project),
+          after: nextProject,
+        },
+        {
+          field: "dueAt",
+          label: "Due",
+          before: existingDueAt ? formatDueLabel(existingDueAt) : "",
+          after: nextAction.dueAt ? formatDueLabel(nextAction.dueAt) : "",
+        },
+        {
+          field: "blockedReason",
+          label: "Blocked reason",
+          before: normalizeText(existingData.blockedReason),
+          after: nextBlockedReason,
+        },
+        ...buildCustomFieldHistoryChanges(
+          customFieldDefinitions,
+          existingCustomFields,
+          nextCustomFields,
+          customFieldResolution.memberNames,
+        ),
+      ]);
+
       await writeCanonicalHistoryEvent({
         entityRef: authorizedContext.actionRef,
         entity: "action",
@@ -455,10 +574,14 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         source: "manual",
         actorUid: authorizedContext.uid,
         actorName,
-        message: `Updated action ${actionId}.`,
+        message:
+          changes.length > 0
+            ? `Updated action ${actionId}: ${describeHistoryFieldChanges(changes)}.`
+            : `Updated action ${actionId}.`,
         at: now,
         metadata: {
           meetingId: nextMeetingId,
+          ...(changes.length > 0 ? { changes } : {}),
         },
       });
     }
@@ -501,6 +624,24 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         actorName,
         now,
       });
+      await emitAssignmentNotifications({
+        workspaceId: authorizedContext.workspace.workspaceId,
+        workspaceSlug: authorizedContext.workspace.workspaceSlug,
+        workspaceName: authorizedContext.workspace.workspaceName,
+        entityType: "action",
+        entityId: actionId,
+        entityTitle: nextAction.title,
+        entityPath: `/${authorizedContext.workspace.workspaceSlug}/actions/${actionId}`,
+        owner,
+        previousOwner: normalizeText(existingData.owner),
+        status: nextStatus.id,
+        statusLabel: nextStatus.label,
+        previousStatus: wasExisting ? existingStatus.id : "",
+        previousStatusLabel: existingStatus.label,
+        actorUid: authorizedContext.uid,
+        actorName,
+        now,
+      });
     }
 
     return NextResponse.json({
@@ -5,12 +5,22 @@ import { adminAuth, adminDb } from "@/lib/firebase/admin";
 import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
 import { canEditActions, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
 import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
+import { emitAssignmentNotifications } from "@/lib/notifications/assignments";
 import {
   emitMentionNotifications,
   normalizeMentionUids,
   resolveWorkspaceMentionUids,
 } from "@/lib/notifications/mentions";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { resolveActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import { parseCustomFieldValues, type CustomFieldValues } from "@/lib/workspace/custom-fields";
+import {
+  listWorkspaceCustomFields,
+  resolveCustomFieldValues,
+} from "@/lib/workspace/custom-fields-store";
+import { loadWorkspaceTeam } from "@/lib/workspace/teams";
 
 type RouteContext = {
   params: Promise<{
@@ -18,7 +28,6 @@ type RouteContext = {
   }>;
 };
 
-type ActionStatus = "open" | "done" | "blocked";
 type ActionPriority = "high" | "medium" | "low";
 
 type CreateActionBody = {
@@ -29,9 +38,11 @@ type NormalizedActionPayload = {
   title: string;
   description: string;
   owner: string;
-  status: ActionStatus;
+  // A workflow state id, resolved against the workspace workflow on save.
+  status: string;
   priority: ActionPriority;
   project: string;
+  teamId: string;
   dueAt: Date | null;
   dueLabel: string;
   meetingId: string;
@@ -39,9 +50,9 @@ type NormalizedActionPayload = {
   blockedReason: string;
   notes: string;
   mentionUids: string[];
+  customFields: CustomFieldValues;
 };
 
-const ACTION_STATUSES = new Set<ActionStatus>(["open", "done", "blocked"]);
 const ACTION_PRIORITIES = new Set<ActionPriority>(["high", "medium", "low"]);
 
 function normalizeText(value: unknown) {
@@ -109,9 +120,10 @@ function normalizeActionPayload(value: unknown): NormalizedActionPayload | null
     title: normalizeText(candidate.title),
     description: normalizeText(candidate.description),
     owner: normalizeText(candidate.owner),
-    status: normalizeEnum(candidate.status, ACTION_STATUSES, "open"),
+    status: normalizeText(candidate.status),
     priority: normalizeEnum(candidate.priority, ACTION_PRIORITIES, "medium"),
     project: normalizeText(candidate.project),
+    teamId: normalizeText(candidate.teamId),
     dueAt,
     dueLabel: explicitDueLabel || (dueAt ? formatDueLabel(dueAt) : "No due date"),
     meetingId: normalizeText(candidate.meetingId),
@@ -119,6 +131,7 @@ function normalizeActionPayload(value: unknown): NormalizedActionPayload | null
     blockedReason: normalizeText(candidate.blockedReason),
     notes: normalizeText(candidate.notes),
     mentionUids: normalizeMentionUids(candidate.mentionUids),
+    customFields: parseCustomFieldValues(candidate.customFields),
   };
 }
 
@@ -171,6 +184,13 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Action title is required." }, { status: 400 });
     }
 
+    const team = action.teamId
+      ? await loadWorkspaceTeam(workspace.workspaceId, action.teamId)
+      : null;
+    if (action.teamId && !team) {
+      return NextResponse.json({ error: "Team not found." }, { status: 400 });
+    }
+
     const userSnapshot = await adminDb.collection("users").doc(uid).get();
     const actorName =
       normalizeText(userSnapshot.get("displayName")) ||
@@ -208,23 +228,42 @@ async function postHandler(request: NextRequest, context: RouteContext) {
     }
     const mentionUids = mentionUidResolution.validMentionUids;
 
+    const status = resolveActionState(
+      await loadWorkspaceActionWorkflow(workspace.workspaceId),
+      action.status,
+    );
+    const nextBlockedReason = status.category === "blocked" ? action.blockedReason : "";
+
+    const customFieldResolution = await resolveCustomFieldValues({
+      workspaceId: workspace.workspaceId,
+      fields: await listWorkspaceCustomFields(workspace.workspaceId),
+      entityType: "action",
+      input: action.customFields,
+      existing: {},
+    });
+    if ("error" in customFieldResolution) {
+      return NextResponse.json({ error: customFieldResolution.error }, { status: 400 });
+    }
+
     await actionRef.set({
       title: action.title,
       description: action.description || action.title,
       owner,
       ownerUid: uid,
-      status: action.status,
+      status: status.id,
       priority: action.priority,
       project: action.project || workspace.workspaceName || "Workspace",
+      teamId: team?.id ?? "",
       dueAt: action.dueAt ? Timestamp.fromDate(action.dueAt) : null,
       dueLabel: action.dueLabel,
-      dueSoon: action.status === "open" && isDueSoon(action.dueAt),
+      dueSoon: status.category === "open" && isDueSoon(action.dueAt),
       meetingId: action.meetingId || "",
       decisionId: action.decisionId || "",
-      blockedReason: action.status === "blocked" ? action.blockedReason : "",
+      blockedReason: nextBlockedReason,
       notes: action.notes,
       mentionUids,
-      completedAt: action.status === "done" ? now : null,
+      customFields: customFieldResolution.values,
+      completedAt: status.category === "closed" ? now : null,
       archived: false,
       archivedAt: null,
       archivedBy: "",
@@ -233,6 +272,7 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       updatedAt: now,
       updatedBy: uid,
     });
+    await syncSearchIndexEntry({ entity: "action", entityRef: actionRef });
 
     await writeCanonicalHistoryEvent({
       entityRef: actionRef,
@@ -249,7 +289,6 @@ async function postHandler(request: NextRequest, context: RouteContext) {
     });
 
     const nextDescription = action.description || action.title;
-    const nextBlockedReason = action.status === "blocked" ? action.blockedReason : "";
     await emitMentionNotifications({
       workspaceId: workspace.workspaceId,
       workspaceSlug: workspace.workspaceSlug,
@@ -271,6 +310,23 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       actorName,
       now,
     });
+    await emitAssignmentNotifications({
+      workspaceId: workspace.workspaceId,
+      workspaceSlug: workspace.workspaceSlug,
+      workspaceName: workspace.workspaceName,
+      entityType: "action",
+      entityId: actionRef.id,
+      entityTitle: action.title,
+      entityPath: `/${workspace.workspaceSlug}/actions/${actionRef.id}`,
+      owner,
+      previousOwner: "",
+      status: status.id,
+      statusLabel: status.label,
+      previousStatus: "",
+      actorUid: uid,
+      actorName,
+      now,
+    });
 
     return NextResponse.json({
       ok: true,
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageCustomFields, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  MAX_CUSTOM_FIELD_LABEL_LENGTH,
+  normalizeCustomFieldOptions,
+  parseCustomFieldAppliesTo,
+  parseCustomFieldDefinition,
+} from "@/lib/workspace/custom-fields";
+import { reindexCustomFieldSearchEntries } from "@/lib/workspace/search-index";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    fieldId: string;
+  }>;
+};
+
+type UpdateCustomFieldBody = {
+  label?: unknown;
+  description?: unknown;
+  type?: unknown;
+  options?: unknown;
+  appliesTo?: unknown;
+  required?: unknown;
+  archived?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function areStringArraysEqual(left: string[], right: string[]) {
+  return left.length === right.length && left.every((entry, index) => entry === right[index]);
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveCustomFieldContext(uid: string, workspaceSlug: string, fieldId: string) {
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const fieldRef = workspaceRef.collection("customFields").doc(fieldId);
+  const [actorMemberSnapshot, fieldSnapshot] = await Promise.all([
+    workspaceRef.collection("members").doc(uid).get(),
+    fieldRef.get(),
+  ]);
+
+  if (!actorMemberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  const field = fieldSnapshot.exists
+    ? parseCustomFieldDefinition(fieldSnapshot.id, fieldSnapshot.data() as Record<string, unknown>)
+    : null;
+  if (!field) {
+    return { error: "Custom field not found.", status: 404 as const };
+  }
+
+  return {
+    workspace,
+    fieldRef,
+    field,
+    actorRole: parseWorkspaceMemberRole(actorMemberSnapshot.get("role")),
+  };
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, fieldId } = await context.params;
+    const fieldContext = await resolveCustomFieldContext(uid, workspaceSlug, fieldId);
+
+    if ("error" in fieldContext) {
+      return NextResponse.json({ error: fieldContext.error }, { status: fieldContext.status });
+    }
+
+    if (!canManageCustomFields(fieldContext.actorRole)) {
+      return NextResponse.json(
+        { error: "Only owners and admins can update custom fields." },
+        { status: 403 },
+      );
+    }
+
+    const { field } = fieldContext;
+    const body = (await request.json()) as UpdateCustomFieldBody;
+
+    // Stored values are typed by the field, so the type is fixed once created.
+    if (body.type !== undefined && normalizeText(body.type) !== field.type) {
+      return NextResponse.json(
+        { error: "A custom field's type cannot be changed." },
+        { status: 400 },
+      );
+    }
+
+    const nextLabel = body.label === undefined ? field.label : normalizeText(body.label);
+    const nextDescription =
+      body.description === undefined ? field.description : normalizeText(body.description);
+    const nextOptions =
+      body.options === undefined ? field.options : normalizeCustomFieldOptions(body.options);
+    const nextAppliesTo =
+      body.appliesTo === undefined ? field.appliesTo : parseCustomFieldAppliesTo(body.appliesTo);
+    const nextRequired = body.required === undefined ? field.required : body.required === true;
+    const nextArchived = body.archived === undefined ? field.archived : body.archived === true;
+
+    if (!nextLabel) {
+      return NextResponse.json({ error: "Field label is required." }, { status: 400 });
+    }
+    if (nextLabel.length > MAX_CUSTOM_FIELD_LABEL_LENGTH) {
+      return NextResponse.json(
+        { error: `Field label must be ${MAX_CUSTOM_FIELD_LABEL_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+    if ((field.type === "select" || field.type === "multiSelect") && nextOptions.length === 0) {
+      return NextResponse.json(
+        { error: "Select fields need at least one option." },
+        { status: 400 },
+      );
+    }
+    if (nextAppliesTo.length === 0) {
+      return NextResponse.json(
+        { error: "Choose whether the field applies to decisions, actions, or both." },
+        { status: 400 },
+      );
+    }
+
+    const changed =
+      nextLabel !== field.label ||
+      nextDescription !== field.description ||
+      !areStringArraysEqual(nextOptions, field.options) ||
+      !areStringArraysEqual(nextAppliesTo, field.appliesTo) ||
+      nextRequired !== field.required ||
+      nextArchived !== field.archived;
+
+    if (!changed) {
+      return NextResponse.json({ ok: true, updated: false });
+    }
+
+    await fieldContext.fieldRef.set(
+      {
+        label: nextLabel,
+        description: nextDescription,
+        options: field.type === "select" || field.type === "multiSelect" ? nextOptions : [],
+        appliesTo: nextAppliesTo,
+        required: nextRequired,
+        archived: nextArchived,
+        updatedAt: Timestamp.now(),
+        updatedBy: uid,
+      },
+      { merge: true },
+    );
+    if (nextArchived !== field.archived) {
+      await reindexCustomFieldSearchEntries(fieldContext.workspace.workspaceId, field.id);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      updated: true,
+      field: {
+        ...field,
+        label: nextLabel,
+        description: nextDescription,
+        options: nextOptions,
+        appliesTo: nextAppliesTo,
+        required: nextRequired,
+        archived: nextArchived,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update custom field.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function deleteHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, fieldId } = await context.params;
+    const fieldContext = await resolveCustomFieldContext(uid, workspaceSlug, fieldId);
+
+    if ("error" in fieldContext) {
+      return NextResponse.json({ error: fieldContext.error }, { status: fieldContext.status });
+    }
+
+    if (!canManageCustomFields(fieldContext.actorRole)) {
+      return NextResponse.json(
+        { error: "Only owners and admins can delete custom fields." },
+        { status: 403 },
+      );
+    }
+
+    // Values already saved on decisions and actions are left in place; without
+    // a definition they are no longer shown, filtered, or indexed.
+    await fieldContext.fieldRef.delete();
+    await reindexCustomFieldSearchEntries(
+      fieldContext.workspace.workspaceId,
+      fieldContext.field.id,
+    );
+
+    return NextResponse.json({ ok: true, removed: true, fieldId: fieldContext.field.id });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to delete custom field.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.customFields.update",
+  },
+  patchHandler,
+);
+
+export const DELETE = withWriteGuardrails(
+  {
+    routeId: "workspace.customFields.delete",
+  },
+  deleteHandler,
+);
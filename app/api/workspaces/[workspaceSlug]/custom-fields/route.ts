@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageCustomFields, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  createCustomFieldId,
+  MAX_CUSTOM_FIELD_LABEL_LENGTH,
+  MAX_WORKSPACE_CUSTOM_FIELDS,
+  normalizeCustomFieldOptions,
+  parseCustomFieldAppliesTo,
+  parseCustomFieldType,
+  toCustomFieldKey,
+} from "@/lib/workspace/custom-fields";
+import { listWorkspaceCustomFields } from "@/lib/workspace/custom-fields-store";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type CreateCustomFieldBody = {
+  label?: unknown;
+  description?: unknown;
+  type?: unknown;
+  options?: unknown;
+  appliesTo?: unknown;
+  required?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveCustomFieldsContext(uid: string, workspaceSlug: string) {
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const actorMemberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+  if (!actorMemberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  return {
+    workspace,
+    workspaceRef,
+    actorRole: parseWorkspaceMemberRole(actorMemberSnapshot.get("role")),
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const fieldsContext = await resolveCustomFieldsContext(uid, workspaceSlug);
+
+    if ("error" in fieldsContext) {
+      return NextResponse.json({ error: fieldsContext.error }, { status: fieldsContext.status });
+    }
+
+    const fields = await listWorkspaceCustomFields(fieldsContext.workspace.workspaceId);
+
+    return NextResponse.json({
+      workspaceId: fieldsContext.workspace.workspaceId,
+      workspaceSlug: fieldsContext.workspace.workspaceSlug,
+      actorRole: fieldsContext.actorRole,
+      canManageCustomFields: canManageCustomFields(fieldsContext.actorRole),
+      fields,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load custom fields.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const fieldsContext = await resolveCustomFieldsContext(uid, workspaceSlug);
+
+    if ("error" in fieldsContext) {
+      return NextResponse.json({ error: fieldsContext.error }, { status: fieldsContext.status });
+    }
+
+    if (!canManageCustomFields(fieldsContext.actorRole)) {
+      return NextResponse.json(
+        { error: "Only owners and admins can create custom fields." },
+        { status: 403 },
+      );
+    }
+
+    const body = (await request.json()) as CreateCustomFieldBody;
+    const label = normalizeText(body.label);
+    if (!label) {
+      return NextResponse.json({ error: "Field label is required." }, { status: 400 });
+    }
+    if (label.length > MAX_CUSTOM_FIELD_LABEL_LENGTH) {
+      return NextResponse.json(
+        { error: `Field label must be ${MAX_CUSTOM_FIELD_LABEL_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+
+    const key = toCustomFieldKey(label);
+    if (!key) {
+      return NextResponse.json(
+        { error: "Field label must include letters or numbers." },
+        { status: 400 },
+      );
+    }
+
+    const type = parseCustomFieldType(body.type);
+    if (!type) {
+      return NextResponse.json({ error: "Choose a valid field type." }, { status: 400 });
+    }
+
+    const options =
+      type === "select" || type === "multiSelect" ? normalizeCustomFieldOptions(body.options) : [];
+    if ((type === "select" || type === "multiSelect") && options.length === 0) {
+      return NextResponse.json(
+        { error: "Select fields need at least one option." },
+        { status: 400 },
+      );
+    }
+
+    const appliesTo = parseCustomFieldAppliesTo(body.appliesTo);
+    if (appliesTo.length === 0) {
+      return NextResponse.json(
+        { error: "Choose whether the field applies to decisions, actions, or both." },
+        { status: 400 },
+      );
+    }
+
+    const existingFields = await listWorkspaceCustomFields(fieldsContext.workspace.workspaceId);
+    if (existingFields.length >= MAX_WORKSPACE_CUSTOM_FIELDS) {
+      return NextResponse.json(
+        { error: `Workspaces can have up to ${MAX_WORKSPACE_CUSTOM_FIELDS} custom fields.` },
+        { status: 400 },
+      );
+    }
+    if (existingFields.some((field) => field.key === key)) {
+      return NextResponse.json(
+        { error: "A custom field with that name already exists." },
+        { status: 409 },
+      );
+    }
+
+    const fieldsRef = fieldsContext.workspaceRef.collection("customFields");
+    let fieldRef = fieldsRef.doc(createCustomFieldId());
+    if ((await fieldRef.get()).exists) {
+      fieldRef = fieldsRef.doc();
+    }
+
+    const now = Timestamp.now();
+    const position = existingFields.reduce((max, field) => Math.max(max, field.position), 0) + 1;
+    const field = {
+      id: fieldRef.id,
+      key,
+      label,
+      description: normalizeText(body.description),
+      type,
+      options,
+      appliesTo,
+      required: body.required === true,
+      archived: false,
+      position,
+    };
+
+    await fieldRef.set({
+      ...field,
+      createdAt: now,
+      createdBy: uid,
+      updatedAt: now,
+      updatedBy: uid,
+    });
+
+    return NextResponse.json({ ok: true, created: true, field });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create custom field.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.customFields.create",
+  },
+  postHandler,
+);
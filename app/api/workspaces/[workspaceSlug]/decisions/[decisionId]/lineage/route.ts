@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { buildDecisionAccessViewer } from "@/lib/workspace/decision-access";
+import { loadDecisionLineage } from "@/lib/workspace/decision-lineage-store";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    decisionId: string;
+  }>;
+};
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, decisionId } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const memberSnapshot = await adminDb
+      .collection("workspaces")
+      .doc(workspace.workspaceId)
+      .collection("members")
+      .doc(uid)
+      .get();
+    if (!memberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    const viewer = buildDecisionAccessViewer(
+      uid,
+      memberSnapshot.data() as Record<string, unknown> | undefined,
+    );
+    const lineage = await loadDecisionLineage(workspace.workspaceId, decisionId, viewer);
+    if (!lineage) {
+      return NextResponse.json({ error: "Decision not found." }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true, lineage });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load decision lineage.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
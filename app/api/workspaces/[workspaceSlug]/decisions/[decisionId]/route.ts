@@ -6,8 +6,10 @@ import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
 import {
   canArchiveRestoreDecisions,
   canEditDecisions,
+  canViewDecision,
   parseWorkspaceMemberRole,
 } from "@/lib/auth/permissions";
+import { emitAssignmentNotifications } from "@/lib/notifications/assignments";
 import {
   emitMentionNotifications,
   normalizeMentionUids,
@@ -15,9 +17,25 @@ import {
 } from "@/lib/notifications/mentions";
 import {
   areStringArraysEqual,
+  buildHistoryFieldChanges,
+  describeHistoryFieldChanges,
   writeCanonicalHistoryEvent,
 } from "@/lib/workspace/activity-history";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { buildDecisionAccessViewer } from "@/lib/workspace/decision-access";
+import {
+  areCustomFieldValuesEqual,
+  buildCustomFieldHistoryChanges,
+  parseCustomFieldValues,
+  type CustomFieldValues,
+} from "@/lib/workspace/custom-fields";
+import {
+  buildCustomFieldsWrite,
+  listWorkspaceCustomFields,
+  resolveCustomFieldValues,
+} from "@/lib/workspace/custom-fields-store";
+import { loadWorkspaceTeam } from "@/lib/workspace/teams";
 
 type RouteContext = {
   params: Promise<{
@@ -41,12 +59,13 @@ type NormalizedDecisionPayload = {
   owner: string;
   status: DecisionStatus;
   visibility: DecisionVisibility;
-  teamLabel: string;
+  teamId: string;
   tags: string[];
   meetingId: string;
   supersedesDecisionId: string;
   supersededByDecisionId: string;
   mentionUids: string[];
+  customFields: CustomFieldValues | null;
 };
 
 const DECISION_STATUSES = new Set<DecisionStatus>([
@@ -107,8 +126,8 @@ function parseDate(value: unknown) {
   return null;
 }
 
-function buildAllowedTeamIds(teamLabel: string) {
-  return teamLabel ? [teamLabel] : [];
+function buildAllowedTeamIds(visibility: DecisionVisibility, teamId: string) {
+  return visibility === "team" && teamId ? [teamId] : [];
 }
 
 function normalizeDecisionPayload(value: unknown): NormalizedDecisionPayload | null {
@@ -122,12 +141,15 @@ function normalizeDecisionPayload(value: unknown): NormalizedDecisionPayload | n
     owner: normalizeText(candidate.owner),
     status: normalizeEnum(candidate.status, DECISION_STATUSES, "proposed"),
     visibility: normalizeEnum(candidate.visibility, DECISION_VISIBILITIES, "workspace"),
-    teamLabel: normalizeText(candidate.teamLabel),
+    teamId: normalizeText(candidate.teamId),
     tags: normalizeStringArray(candidate.tags),
     meetingId: normalizeText(candidate.meetingId),
     supersedesDecisionId: normalizeText(candidate.supersedesDecisionId),
     supersededByDecisionId: normalizeText(candidate.supersededByDecisionId),
     mentionUids: normalizeMentionUids(candidate.mentionUids),
+    // Omitted custom fields leave the stored values as they are.
+    customFields:
+      candidate.customFields === undefined ? null : parseCustomFieldValues(candidate.customFields),
   };
 }
 
@@ -171,6 +193,10 @@ async function resolveAuthorizedDecisionContext(
   return {
     uid,
     memberRole,
+    viewer: buildDecisionAccessViewer(
+      uid,
+      memberSnapshot.data() as Record<string, unknown> | undefined,
+    ),
     memberDisplayName,
     workspace,
     workspaceRef,
@@ -196,12 +222,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
     }
 
     const decisionSnapshot = await authorizedContext.decisionRef.get();
-    if (!decisionSnapshot.exists) {
+    const data = decisionSnapshot.data() as Record<string, unknown> | undefined;
+    if (!data || !canViewDecision(authorizedContext.viewer, data)) {
       return NextResponse.json({ error: "Decision not found." }, { status: 404 });
     }
 
-    const data = decisionSnapshot.data() as Record<string, unknown>;
-
     return NextResponse.json({
       ok: true,
       workspaceSlug: authorizedContext.workspace.workspaceSlug,
@@ -213,12 +238,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
         owner: normalizeText(data.owner) || normalizeText(data.ownerUid) || "Unassigned",
         status: normalizeEnum(data.status, DECISION_STATUSES, "proposed"),
         visibility: normalizeEnum(data.visibility, DECISION_VISIBILITIES, "workspace"),
+        teamId: normalizeText(data.teamId),
         teamLabel: normalizeText(data.teamLabel),
         tags: normalizeStringArray(data.tags),
         meetingId: normalizeText(data.meetingId),
         supersedesDecisionId: normalizeText(data.supersedesDecisionId),
         supersededByDecisionId: normalizeText(data.supersededByDecisionId),
         mentionUids: normalizeMentionUids(data.mentionUids),
+        customFields: parseCustomFieldValues(data.customFields),
         archived: data.archived === true,
         archivedAt: parseDate(data.archivedAt)?.toISOString() ?? "",
         archivedBy: normalizeText(data.archivedBy),
@@ -285,7 +312,10 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
     const wasExisting = decisionSnapshot.exists;
     const existingData = (decisionSnapshot.data() as Record<string, unknown> | undefined) ?? {};
 
-    if (!decision && !wasExisting) {
+    if (
+      (!decision && !wasExisting) ||
+      (wasExisting && !canViewDecision(authorizedContext.viewer, existingData))
+    ) {
       return NextResponse.json({ error: "Decision not found." }, { status: 404 });
     }
 
@@ -304,6 +334,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         },
         { merge: true },
       );
+      await syncSearchIndexEntry({ entity: "decision", entityRef: authorizedContext.decisionRef });
 
       if (wasArchived !== isArchived) {
         await writeCanonicalHistoryEvent({
@@ -341,9 +372,24 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
 
     const nextDecision = decision as NormalizedDecisionPayload;
     const owner = nextDecision.owner || actorName;
-    const teamLabel = nextDecision.visibility === "team" ? nextDecision.teamLabel : "";
-    const allowedTeamIds =
-      nextDecision.visibility === "team" ? buildAllowedTeamIds(teamLabel) : [];
+    const existingTeamId = normalizeText(existingData.teamId);
+    const team = nextDecision.teamId
+      ? await loadWorkspaceTeam(authorizedContext.workspace.workspaceId, nextDecision.teamId)
+      : null;
+    // A deleted team stays assignable on records that already reference it.
+    const keepsDeletedTeam = !team && nextDecision.teamId !== "" && nextDecision.teamId === existingTeamId;
+    if (nextDecision.teamId && !team && !keepsDeletedTeam) {
+      return NextResponse.json({ error: "Team not found." }, { status: 400 });
+    }
+    if (nextDecision.visibility === "team" && !nextDecision.teamId) {
+      return NextResponse.json(
+        { error: "Team visibility requires a team." },
+        { status: 400 },
+      );
+    }
+    const teamId = nextDecision.teamId;
+    const teamLabel = team?.name ?? (keepsDeletedTeam ? normalizeText(existingData.teamLabel) : "");
+    const allowedTeamIds = buildAllowedTeamIds(nextDecision.visibility, teamId);
     const isArchived = archivedToggle === true;
     const wasArchived = existingData.archived === true;
     const nextRationale = nextDecision.rationale || nextDecision.statement;
@@ -368,6 +414,24 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
     }
     const mentionUids = mentionUidResolution.validMentionUids;
 
+    const customFieldDefinitions = await listWorkspaceCustomFields(
+      authorizedContext.workspace.workspaceId,
+    );
+    const existingCustomFields = parseCustomFieldValues(existingData.customFields);
+    const customFieldResolution = nextDecision.customFields
+      ? await resolveCustomFieldValues({
+          workspaceId: authorizedContext.workspace.workspaceId,
+          fields: customFieldDefinitions,
+          entityType: "decision",
+          input: nextDecision.customFields,
+          existing: existingCustomFields,
+        })
+      : { values: existingCustomFields, memberNames: new Map<string, string>() };
+    if ("error" in customFieldResolution) {
+      return NextResponse.json({ error: customFieldResolution.error }, { status: 400 });
+    }
+    const nextCustomFields = customFieldResolution.values;
+
     const didContentChange =
       !wasExisting ||
       normalizeText(existingData.title) !== nextDecision.title ||
@@ -378,13 +442,15 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         nextDecision.status ||
       normalizeEnum(existingData.visibility, DECISION_VISIBILITIES, "workspace") !==
         nextDecision.visibility ||
+      existingTeamId !== teamId ||
       normalizeText(existingData.teamLabel) !== teamLabel ||
       !areStringArraysEqual(existingAllowedTeamIds, allowedTeamIds) ||
       !areStringArraysEqual(existingTags, nextDecision.tags) ||
       normalizeText(existingData.meetingId) !== nextMeetingId ||
       normalizeText(existingData.supersedesDecisionId) !== nextSupersedesDecisionId ||
       normalizeText(existingData.supersededByDecisionId) !== nextSupersededByDecisionId ||
-      !areStringArraysEqual(existingMentionUids, mentionUids);
+      !areStringArraysEqual(existingMentionUids, mentionUids) ||
+      !areCustomFieldValuesEqual(existingCustomFields, nextCustomFields);
     const archivedStateChanged = wasArchived !== isArchived;
 
     await authorizedContext.decisionRef.set(
@@ -396,6 +462,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         ownerUid: authorizedContext.uid,
         status: nextDecision.status,
         visibility: nextDecision.visibility,
+        teamId,
         teamLabel,
         allowedTeamIds,
         tags: nextDecision.tags,
@@ -403,6 +470,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         supersedesDecisionId: nextSupersedesDecisionId,
         supersededByDecisionId: nextSupersededByDecisionId,
         mentionUids,
+        customFields: buildCustomFieldsWrite(existingCustomFields, nextCustomFields),
         supersededAt:
           nextDecision.status === "superseded"
             ? existingData.supersededAt ?? now
@@ -417,6 +485,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       },
       { merge: true },
     );
+    await syncSearchIndexEntry({ entity: "decision", entityRef: authorizedContext.decisionRef });
 
     if (!wasExisting) {
       await writeCanonicalHistoryEvent({
@@ -433,6 +502,53 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         },
       });
     } else if (didContentChange) {
+      const changes = buildHistoryFieldChanges([
+        {
+          field: "title",
+          label: "Title",
+          before: normalizeText(existingData.title),
+          after: nextDecision.title,
+        },
+        {
+          field: "statement",
+          label: "Statement",
+          before: normalizeText(existingData.statement),
+          after: nextDecision.statement,
+        },
+        {
+          field: "rationale",
+          label: "Rationale",
+          before: normalizeText(existingData.rationale),
+          after: nextRationale,
+        },
+        { field: "owner", label: "Owner", before: normalizeText(existingData.owner), after: owner },
+        {
+          field: "status",
+          label: "Status",
+          before: normalizeEnum(existingData.status, DECISION_STATUSES, "proposed"),
+          after: nextDecision.status,
+        },
+        {
+          field: "visibility",
+          label: "Visibility",
+          before: normalizeEnum(existingData.visibility, DECISION_VISIBILITIES, "workspace"),
+          after: nextDecision.visibility,
+        },
+        {
+          field: "teamId",
+          label: "Team",
+          before: normalizeText(existingData.teamLabel) || existingTeamId,
+          after: teamLabel || teamId,
+        },
+        { field: "tags", label: "Tags", before: existingTags, after: nextDecision.tags },
+        ...buildCustomFieldHistoryChanges(
+          customFieldDefinitions,
+          existingCustomFields,
+          nextCustomFields,
+          customFieldResolution.memberNames,
+        ),
+      ]);
+
       await writeCanonicalHistoryEvent({
         entityRef: authorizedContext.decisionRef,
         entity: "decision",
@@ -440,10 +556,14 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         source: "manual",
         actorUid: authorizedContext.uid,
         actorName,
-        message: `Updated decision ${decisionId}.`,
+        message:
+          changes.length > 0
+            ? `Updated decision ${decisionId}: ${describeHistoryFieldChanges(changes)}.`
+            : `Updated decision ${decisionId}.`,
         at: now,
         metadata: {
           meetingId: nextMeetingId,
+          ...(changes.length > 0 ? { changes } : {}),
         },
       });
     }
@@ -481,6 +601,24 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         actorName,
         now,
       });
+      await emitAssignmentNotifications({
+        workspaceId: authorizedContext.workspace.workspaceId,
+        workspaceSlug: authorizedContext.workspace.workspaceSlug,
+        workspaceName: authorizedContext.workspace.workspaceName,
+        entityType: "decision",
+        entityId: decisionId,
+        entityTitle: nextDecision.title,
+        entityPath: `/${authorizedContext.workspace.workspaceSlug}/decisions/${decisionId}`,
+        owner,
+        previousOwner: normalizeText(existingData.owner),
+        status: nextDecision.status,
+        previousStatus: wasExisting
+          ? normalizeEnum(existingData.status, DECISION_STATUSES, "proposed")
+          : "",
+        actorUid: authorizedContext.uid,
+        actorName,
+        now,
+      });
     }
 
     return NextResponse.json({
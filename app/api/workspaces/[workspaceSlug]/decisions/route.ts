@@ -5,12 +5,20 @@ import { adminAuth, adminDb } from "@/lib/firebase/admin";
 import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
 import { canEditDecisions, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
 import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
+import { emitAssignmentNotifications } from "@/lib/notifications/assignments";
 import {
   emitMentionNotifications,
   normalizeMentionUids,
   resolveWorkspaceMentionUids,
 } from "@/lib/notifications/mentions";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { parseCustomFieldValues, type CustomFieldValues } from "@/lib/workspace/custom-fields";
+import {
+  listWorkspaceCustomFields,
+  resolveCustomFieldValues,
+} from "@/lib/workspace/custom-fields-store";
+import { loadWorkspaceTeam } from "@/lib/workspace/teams";
 
 type RouteContext = {
   params: Promise<{
@@ -32,12 +40,13 @@ type NormalizedDecisionPayload = {
   owner: string;
   status: DecisionStatus;
   visibility: DecisionVisibility;
-  teamLabel: string;
+  teamId: string;
   tags: string[];
   meetingId: string;
   supersedesDecisionId: string;
   supersededByDecisionId: string;
   mentionUids: string[];
+  customFields: CustomFieldValues;
 };
 
 const DECISION_STATUSES = new Set<DecisionStatus>([
@@ -85,8 +94,8 @@ function createDecisionId() {
   return `D-${timestamp}${random}`;
 }
 
-function buildAllowedTeamIds(teamLabel: string) {
-  return teamLabel ? [teamLabel] : [];
+function buildAllowedTeamIds(visibility: DecisionVisibility, teamId: string) {
+  return visibility === "team" && teamId ? [teamId] : [];
 }
 
 function normalizeDecisionPayload(value: unknown): NormalizedDecisionPayload | null {
@@ -100,12 +109,13 @@ function normalizeDecisionPayload(value: unknown): NormalizedDecisionPayload | n
     owner: normalizeText(candidate.owner),
     status: normalizeEnum(candidate.status, DECISION_STATUSES, "proposed"),
     visibility: normalizeEnum(candidate.visibility, DECISION_VISIBILITIES, "workspace"),
-    teamLabel: normalizeText(candidate.teamLabel),
+    teamId: normalizeText(candidate.teamId),
     tags: normalizeStringArray(candidate.tags),
     meetingId: normalizeText(candidate.meetingId),
     supersedesDecisionId: normalizeText(candidate.supersedesDecisionId),
     supersededByDecisionId: normalizeText(candidate.supersededByDecisionId),
     mentionUids: normalizeMentionUids(candidate.mentionUids),
+    customFields: parseCustomFieldValues(candidate.customFields),
   };
 }
 
@@ -186,10 +196,23 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       decisionRef = workspaceRef.collection("decisions").doc();
     }
 
+    const team = decision.teamId
+      ? await loadWorkspaceTeam(workspace.workspaceId, decision.teamId)
+      : null;
+    if (decision.teamId && !team) {
+      return NextResponse.json({ error: "Team not found." }, { status: 400 });
+    }
+    if (decision.visibility === "team" && !team) {
+      return NextResponse.json(
+        { error: "Team visibility requires a team." },
+        { status: 400 },
+      );
+    }
+
     const owner = decision.owner || actorName;
-    const teamLabel = decision.visibility === "team" ? decision.teamLabel : "";
-    const allowedTeamIds =
-      decision.visibility === "team" ? buildAllowedTeamIds(teamLabel) : [];
+    const teamId = team?.id ?? "";
+    const teamLabel = team?.name ?? "";
+    const allowedTeamIds = buildAllowedTeamIds(decision.visibility, teamId);
     const mentionUidResolution = await resolveWorkspaceMentionUids(
       workspace.workspaceId,
       decision.mentionUids,
@@ -205,6 +228,17 @@ async function postHandler(request: NextRequest, context: RouteContext) {
     }
     const mentionUids = mentionUidResolution.validMentionUids;
 
+    const customFieldResolution = await resolveCustomFieldValues({
+      workspaceId: workspace.workspaceId,
+      fields: await listWorkspaceCustomFields(workspace.workspaceId),
+      entityType: "decision",
+      input: decision.customFields,
+      existing: {},
+    });
+    if ("error" in customFieldResolution) {
+      return NextResponse.json({ error: customFieldResolution.error }, { status: 400 });
+    }
+
     await decisionRef.set({
       title: decision.title,
       statement: decision.statement,
@@ -213,6 +247,7 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       ownerUid: uid,
       status: decision.status,
       visibility: decision.visibility,
+      teamId,
       teamLabel,
       allowedTeamIds,
       tags: decision.tags,
@@ -220,6 +255,7 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       supersedesDecisionId: decision.supersedesDecisionId || "",
       supersededByDecisionId: decision.supersededByDecisionId || "",
       mentionUids,
+      customFields: customFieldResolution.values,
       supersededAt: decision.status === "superseded" ? now : null,
       archived: false,
       archivedAt: null,
@@ -229,6 +265,7 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       updatedAt: now,
       updatedBy: uid,
     });
+    await syncSearchIndexEntry({ entity: "decision", entityRef: decisionRef });
 
     await writeCanonicalHistoryEvent({
       entityRef: decisionRef,
@@ -260,6 +297,22 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       actorName,
       now,
     });
+    await emitAssignmentNotifications({
+      workspaceId: workspace.workspaceId,
+      workspaceSlug: workspace.workspaceSlug,
+      workspaceName: workspace.workspaceName,
+      entityType: "decision",
+      entityId: decisionRef.id,
+      entityTitle: decision.title,
+      entityPath: `/${workspace.workspaceSlug}/decisions/${decisionRef.id}`,
+      owner,
+      previousOwner: "",
+      status: decision.status,
+      previousStatus: "",
+      actorUid: uid,
+      actorName,
+      now,
+    });
 
     return NextResponse.json({
       ok: true,
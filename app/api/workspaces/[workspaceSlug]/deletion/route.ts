@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  WORKSPACE_DELETION_GRACE_DAYS,
+  parseWorkspaceDeletion,
+  resolveWorkspacePurgeAfter,
+} from "@/lib/workspace/workspace-deletion";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type DeletionAction = "schedule" | "restore";
+
+type UpdateDeletionBody = {
+  action?: DeletionAction;
+  confirmSlug?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveDeletionOwnerContext(request: NextRequest, workspaceSlug: string) {
+  const uid = await authenticateUid(request);
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug, {
+    includePendingDeletion: true,
+  });
+
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const [workspaceSnapshot, memberSnapshot] = await Promise.all([
+    workspaceRef.get(),
+    workspaceRef.collection("members").doc(uid).get(),
+  ]);
+  if (!memberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  if (parseWorkspaceMemberRole(memberSnapshot.get("role")) !== "owner") {
+    return {
+      error: "Only owners can delete or restore the workspace.",
+      status: 403 as const,
+    };
+  }
+
+  return {
+    uid,
+    workspace,
+    workspaceRef,
+    actorDisplayName: normalizeText(memberSnapshot.get("displayName")) || "Workspace Owner",
+    deletion: parseWorkspaceDeletion(workspaceSnapshot.get("deletion")),
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const ownerContext = await resolveDeletionOwnerContext(request, workspaceSlug);
+
+    if ("error" in ownerContext) {
+      return NextResponse.json({ error: ownerContext.error }, { status: ownerContext.status });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      deletion: ownerContext.deletion,
+      graceDays: WORKSPACE_DELETION_GRACE_DAYS,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load workspace deletion.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const ownerContext = await resolveDeletionOwnerContext(request, workspaceSlug);
+
+    if ("error" in ownerContext) {
+      return NextResponse.json({ error: ownerContext.error }, { status: ownerContext.status });
+    }
+
+    const body = (await request.json()) as UpdateDeletionBody;
+    const action = normalizeText(body.action);
+
+    if (action === "restore") {
+      if (!ownerContext.deletion) {
+        return NextResponse.json(
+          { error: "Workspace is not scheduled for deletion." },
+          { status: 409 },
+        );
+      }
+
+      await ownerContext.workspaceRef.set(
+        { deletion: FieldValue.delete(), updatedAt: Timestamp.now() },
+        { merge: true },
+      );
+
+      return NextResponse.json({ ok: true, deletion: null });
+    }
+
+    if (action !== "schedule") {
+      return NextResponse.json(
+        { error: "Action must be schedule or restore." },
+        { status: 400 },
+      );
+    }
+
+    if (ownerContext.deletion) {
+      return NextResponse.json(
+        { error: "Workspace is already scheduled for deletion." },
+        { status: 409 },
+      );
+    }
+
+    if (normalizeText(body.confirmSlug) !== ownerContext.workspace.workspaceSlug) {
+      return NextResponse.json(
+        { error: `Type "${ownerContext.workspace.workspaceSlug}" to confirm deletion.` },
+        { status: 400 },
+      );
+    }
+
+    const now = Timestamp.now();
+    const purgeAfter = Timestamp.fromDate(resolveWorkspacePurgeAfter(now.toDate()));
+    const deletion = {
+      status: "scheduled",
+      requestedAt: now,
+      requestedByUid: ownerContext.uid,
+      requestedByName: ownerContext.actorDisplayName,
+      purgeAfter,
+    };
+
+    // A pending ownership transfer would otherwise survive into the restore.
+    await ownerContext.workspaceRef.set(
+      { deletion, ownershipTransfer: FieldValue.delete(), updatedAt: now },
+      { merge: true },
+    );
+
+    return NextResponse.json({ ok: true, deletion: parseWorkspaceDeletion(deletion) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update workspace deletion.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.deletion.update",
+  },
+  patchHandler,
+);
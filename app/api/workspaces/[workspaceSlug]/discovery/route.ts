@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageWorkspaceMembers, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  isDomainClaimAvailable,
+  isDiscoveryJoinRole,
+  isDiscoveryMode,
+  normalizeDiscoveryDomain,
+  parseWorkspaceDiscovery,
+  validateDiscoveryDomain,
+} from "@/lib/workspace/domain-discovery";
+import { domainClaimRef } from "@/lib/workspace/domain-discovery-store";
+import { getEmailDomain } from "@/lib/workspace/join-links";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type UpdateDiscoveryBody = {
+  domain?: unknown;
+  mode?: unknown;
+  autoJoinRole?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveDiscoveryManagerContext(request: NextRequest, workspaceSlug: string) {
+  const uid = await authenticateUid(request);
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const [workspaceSnapshot, memberSnapshot] = await Promise.all([
+    workspaceRef.get(),
+    workspaceRef.collection("members").doc(uid).get(),
+  ]);
+  if (!memberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  if (!canManageWorkspaceMembers(parseWorkspaceMemberRole(memberSnapshot.get("role")))) {
+    return {
+      error: "Only owners and admins can manage domain discovery.",
+      status: 403 as const,
+    };
+  }
+
+  const userRecord = await adminAuth.getUser(uid);
+  const actorEmail = normalizeText(userRecord.email).toLowerCase();
+
+  return {
+    uid,
+    workspaceRef,
+    actorEmail,
+    actorEmailVerified: userRecord.emailVerified,
+    discovery: parseWorkspaceDiscovery(workspaceSnapshot.get("discovery")),
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const managerContext = await resolveDiscoveryManagerContext(request, workspaceSlug);
+
+    if ("error" in managerContext) {
+      return NextResponse.json(
+        { error: managerContext.error },
+        { status: managerContext.status },
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      discovery: managerContext.discovery,
+      actorDomain: managerContext.actorEmailVerified ? getEmailDomain(managerContext.actorEmail) : "",
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load domain discovery.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const managerContext = await resolveDiscoveryManagerContext(request, workspaceSlug);
+
+    if ("error" in managerContext) {
+      return NextResponse.json(
+        { error: managerContext.error },
+        { status: managerContext.status },
+      );
+    }
+
+    const body = (await request.json()) as UpdateDiscoveryBody;
+    const mode = normalizeText(body.mode);
+    if (!isDiscoveryMode(mode)) {
+      return NextResponse.json(
+        { error: "Discovery mode must be off, auto_join, or request." },
+        { status: 400 },
+      );
+    }
+
+    const autoJoinRole = normalizeText(body.autoJoinRole) || "member";
+    if (!isDiscoveryJoinRole(autoJoinRole)) {
+      return NextResponse.json(
+        { error: "Domain members can join as member or viewer." },
+        { status: 400 },
+      );
+    }
+
+    const domain = mode === "off" ? "" : normalizeDiscoveryDomain(body.domain);
+    if (mode !== "off") {
+      if (!managerContext.actorEmailVerified) {
+        return NextResponse.json(
+          { error: "Verify your email address before claiming a domain." },
+          { status: 403 },
+        );
+      }
+
+      const domainError = validateDiscoveryDomain(domain, managerContext.actorEmail);
+      if (domainError) {
+        return NextResponse.json({ error: domainError }, { status: 400 });
+      }
+    }
+
+    const discovery = { domain, mode, autoJoinRole };
+    const { workspaceRef } = managerContext;
+    await adminDb.runTransaction(async (transaction) => {
+      const workspaceSnapshot = await transaction.get(workspaceRef);
+      const previousDomain = parseWorkspaceDiscovery(workspaceSnapshot.get("discovery")).domain;
+      const previousClaimRef = previousDomain ? domainClaimRef(previousDomain) : null;
+      const nextClaimRef = domain ? domainClaimRef(domain) : null;
+      const [previousClaimSnapshot, nextClaimSnapshot] = await Promise.all([
+        previousClaimRef ? transaction.get(previousClaimRef) : Promise.resolve(null),
+        nextClaimRef ? transaction.get(nextClaimRef) : Promise.resolve(null),
+      ]);
+
+      if (nextClaimSnapshot && !isDomainClaimAvailable(nextClaimSnapshot.data(), workspaceRef.id)) {
+        throw new Error("DOMAIN_ALREADY_CLAIMED");
+      }
+
+      const now = Timestamp.now();
+      transaction.set(workspaceRef, { discovery, updatedAt: now }, { merge: true });
+
+      if (
+        previousClaimRef &&
+        previousDomain !== domain &&
+        previousClaimSnapshot?.get("workspaceId") === workspaceRef.id
+      ) {
+        transaction.delete(previousClaimRef);
+      }
+      if (nextClaimRef) {
+        transaction.set(nextClaimRef, {
+          domain,
+          workspaceId: workspaceRef.id,
+          claimedBy: normalizeText(nextClaimSnapshot?.get("claimedBy")) || managerContext.uid,
+          claimedAt: nextClaimSnapshot?.get("claimedAt") ?? now,
+          updatedAt: now,
+        });
+      }
+    });
+
+    return NextResponse.json({ ok: true, discovery });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update domain discovery.";
+    if (message === "DOMAIN_ALREADY_CLAIMED") {
+      return NextResponse.json(
+        { error: "Another workspace has already claimed this domain." },
+        { status: 409 },
+      );
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.discovery.update",
+  },
+  patchHandler,
+);
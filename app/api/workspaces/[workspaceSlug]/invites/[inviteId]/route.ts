@@ -10,6 +10,7 @@ import {
 } from "@/lib/auth/permissions";
 import { sendWorkspaceInviteEmail } from "@/lib/email/invite-email";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
 
 type RouteContext = {
   params: Promise<{
@@ -219,6 +220,18 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         }
       });
 
+      await writeCanonicalHistoryEvent({
+        entityRef: inviteRef,
+        entity: "invite",
+        eventType: "revoked",
+        source: "manual",
+        actorUid: managerContext.uid,
+        actorName: managerContext.actorDisplayName,
+        message: `Revoked invite for ${inviteEmail}.`,
+        at: now,
+        metadata: { email: inviteEmail, role: inviteRole },
+      });
+
       return NextResponse.json({
         ok: true,
         invite: {
@@ -261,6 +274,9 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
           rejectedByEmail: "",
           revokedAt: null,
           revokedByUid: "",
+          expiredAt: null,
+          expiryReminderSentAt: null,
+          expiredNotifiedAt: null,
           resendCount: resendCount + 1,
         },
         { merge: true },
@@ -317,6 +333,18 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       }
     });
 
+    await writeCanonicalHistoryEvent({
+      entityRef: inviteRef,
+      entity: "invite",
+      eventType: "resent",
+      source: "manual",
+      actorUid: managerContext.uid,
+      actorName: managerContext.actorDisplayName,
+      message: `Resent invite to ${inviteEmail}.`,
+      at: now,
+      metadata: { email: inviteEmail, role: inviteRole, resendCount: resendCount + 1 },
+    });
+
     const inviteUrl = `${request.nextUrl.origin}/invite/${encodeURIComponent(nextToken)}`;
     const emailDelivery = await sendWorkspaceInviteEmail({
       toEmail: inviteEmail,
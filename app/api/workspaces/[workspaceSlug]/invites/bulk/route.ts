@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import {
+  canManageWorkspaceMembers,
+  isWorkspaceMemberRole,
+  parseWorkspaceMemberRole,
+} from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  type BulkInviteRowResult,
+  isValidInviteEmail,
+  MAX_BULK_INVITE_ROWS,
+  parseBulkInviteInput,
+} from "@/lib/workspace/bulk-invites";
+import { createWorkspaceInvite, loadInviteTargetConflicts } from "@/lib/workspace/invite-store";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type BulkInviteBody = {
+  input?: unknown;
+  defaultRole?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const memberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+    if (!memberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    const actorRole = parseWorkspaceMemberRole(memberSnapshot.get("role"));
+    if (!canManageWorkspaceMembers(actorRole)) {
+      return NextResponse.json(
+        { error: "Only owners and admins can create invites." },
+        { status: 403 },
+      );
+    }
+    const actorDisplayName =
+      normalizeText(memberSnapshot.get("displayName")) || "Workspace Admin";
+
+    const body = (await request.json()) as BulkInviteBody;
+    const defaultRoleInput = normalizeText(body.defaultRole).toLowerCase();
+    const defaultRole = isWorkspaceMemberRole(defaultRoleInput) ? defaultRoleInput : "member";
+    const rows = parseBulkInviteInput(
+      typeof body.input === "string" ? body.input : "",
+      defaultRole,
+    );
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "Add at least one email address." },
+        { status: 400 },
+      );
+    }
+    if (rows.length > MAX_BULK_INVITE_ROWS) {
+      return NextResponse.json(
+        { error: `Bulk invites are limited to ${MAX_BULK_INVITE_ROWS} rows at a time.` },
+        { status: 400 },
+      );
+    }
+
+    const { memberEmails, pendingInviteEmails } = await loadInviteTargetConflicts(
+      workspaceRef,
+      rows.map((row) => row.email).filter(isValidInviteEmail),
+    );
+
+    const seenEmails = new Set<string>();
+    const results: BulkInviteRowResult[] = [];
+
+    // Rows are sent one at a time so a large paste does not fan out dozens of
+    // parallel transactions and email requests.
+    for (const row of rows) {
+      const result = { line: row.line, email: row.email, role: row.role ?? row.rawRole };
+
+      if (!isValidInviteEmail(row.email)) {
+        results.push({ ...result, outcome: "invalid_email", message: "Not a valid email address." });
+        continue;
+      }
+      if (seenEmails.has(row.email)) {
+        results.push({ ...result, outcome: "duplicate", message: "Listed more than once." });
+        continue;
+      }
+      seenEmails.add(row.email);
+
+      if (!row.role) {
+        results.push({
+          ...result,
+          outcome: "invalid_role",
+          message: `"${row.rawRole}" is not a workspace role.`,
+        });
+        continue;
+      }
+      if (row.role === "owner" && actorRole !== "owner") {
+        results.push({
+          ...result,
+          outcome: "role_not_allowed",
+          message: "Only owners can invite another owner.",
+        });
+        continue;
+      }
+      if (memberEmails.has(row.email)) {
+        results.push({ ...result, outcome: "already_member", message: "Already a member." });
+        continue;
+      }
+      if (pendingInviteEmails.has(row.email)) {
+        results.push({
+          ...result,
+          outcome: "already_invited",
+          message: "A pending invite already exists.",
+        });
+        continue;
+      }
+
+      try {
+        const created = await createWorkspaceInvite({
+          workspace,
+          workspaceRef,
+          actorUid: uid,
+          actorDisplayName,
+          email: row.email,
+          role: row.role,
+          origin: request.nextUrl.origin,
+        });
+        results.push({
+          ...result,
+          outcome: "invited",
+          message:
+            created.emailDelivery.status === "sent"
+              ? "Invite email sent."
+              : created.emailDelivery.error
+                ? `Invite created but email not sent: ${created.emailDelivery.error}`
+                : "Invite created.",
+          inviteId: created.inviteId,
+          inviteUrl: created.inviteUrl,
+          emailDeliveryStatus: created.emailDelivery.status,
+          emailDeliveryError: created.emailDelivery.error,
+        });
+      } catch (error) {
+        results.push({
+          ...result,
+          outcome: "failed",
+          message: error instanceof Error ? error.message : "Failed to create invite.",
+        });
+      }
+    }
+
+    const invitedCount = results.filter((entry) => entry.outcome === "invited").length;
+    const failedCount = results.filter((entry) => entry.outcome === "failed").length;
+
+    return NextResponse.json({
+      ok: true,
+      results,
+      summary: {
+        total: results.length,
+        invited: invitedCount,
+        failed: failedCount,
+        skipped: results.length - invitedCount - failedCount,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create invites.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.invites.bulkCreate",
+    rateLimit: {
+      maxRequests: 10,
+      windowSeconds: 60,
+    },
+  },
+  postHandler,
+);
@@ -1,6 +1,4 @@
-import { randomBytes } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { Timestamp } from "firebase-admin/firestore";
 import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
 import { adminAuth, adminDb } from "@/lib/firebase/admin";
 import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
@@ -10,8 +8,10 @@ import {
   parseWorkspaceMemberRole,
   type WorkspaceMemberRole,
 } from "@/lib/auth/permissions";
-import { sendWorkspaceInviteEmail } from "@/lib/email/invite-email";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { isValidInviteEmail } from "@/lib/workspace/bulk-invites";
+import { loadInviteExpiryCounts } from "@/lib/workspace/invite-expiry";
+import { createWorkspaceInvite } from "@/lib/workspace/invite-store";
 
 type RouteContext = {
   params: Promise<{
@@ -46,6 +46,7 @@ type InviteRecord = {
   rejectedByEmail: string;
   revokedAt: Date | null;
   revokedByUid: string;
+  expiryReminderSentAt: Date | null;
   resendCount: number;
   emailDeliveryStatus: string;
   emailDeliveryProvider: string;
@@ -54,8 +55,6 @@ type InviteRecord = {
   lastEmailDeliveryAt: Date | null;
 };
 
-const INVITE_TTL_DAYS = 14;
-
 function normalizeText(value: unknown) {
   return typeof value === "string" ? value.trim() : "";
 }
@@ -83,45 +82,6 @@ function parseDate(value: unknown) {
   return null;
 }
 
-function isValidEmail(value: string) {
-  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
-}
-
-function isAuthUserNotFoundError(error: unknown) {
-  const code =
-    error && typeof error === "object" && "code" in error ? (error as { code?: unknown }).code : undefined;
-  if (code === "auth/user-not-found") {
-    return true;
-  }
-
-  const message = error instanceof Error ? error.message : "";
-  return message.includes("user-not-found");
-}
-
-async function resolveTargetUserExists(email: string) {
-  if (!email) return false;
-
-  try {
-    await adminAuth.getUserByEmail(email);
-    return true;
-  } catch (error) {
-    if (isAuthUserNotFoundError(error)) {
-      return false;
-    }
-    throw error;
-  }
-}
-
-function createInviteId() {
-  const timestamp = Date.now().toString().slice(-6);
-  const random = Math.floor(Math.random() * 900 + 100);
-  return `I-${timestamp}${random}`;
-}
-
-function createInviteToken() {
-  return randomBytes(24).toString("base64url");
-}
-
 function formatInviteStatus(status: string, expiresAt: Date | null): InviteStatus {
   if (
     status === "accepted" ||
@@ -173,6 +133,7 @@ function mapInviteSnapshot(
     rejectedByEmail: normalizeEmail(data.rejectedByEmail),
     revokedAt,
     revokedByUid: normalizeText(data.revokedByUid),
+    expiryReminderSentAt: parseDate(data.expiryReminderSentAt),
     resendCount:
       typeof data.resendCount === "number" && Number.isFinite(data.resendCount)
         ? Math.max(0, Math.floor(data.resendCount))
@@ -244,11 +205,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const inviteSnapshots = await accessContext.workspaceRef
-      .collection("invites")
-      .orderBy("createdAt", "desc")
-      .limit(50)
-      .get();
+    const [inviteSnapshots, expiryCounts] = await Promise.all([
+      accessContext.workspaceRef
+        .collection("invites")
+        .orderBy("createdAt", "desc")
+        .limit(50)
+        .get(),
+      loadInviteExpiryCounts(accessContext.workspaceRef),
+    ]);
 
     const now = Date.now();
     const invites = inviteSnapshots.docs.map((snapshot) => {
@@ -281,6 +245,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         rejectedByEmail: invite.rejectedByEmail,
         revokedAt: invite.revokedAt?.toISOString() ?? "",
         revokedByUid: invite.revokedByUid,
+        expiryReminderSentAt: invite.expiryReminderSentAt?.toISOString() ?? "",
         resendCount: invite.resendCount,
         emailDeliveryStatus: invite.emailDeliveryStatus || "queued",
         emailDeliveryProvider: invite.emailDeliveryProvider,
@@ -298,6 +263,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
       actorRole: accessContext.actorRole,
       canManageInvites: accessContext.canManageInvites,
       invites,
+      expiryCounts,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to load invites.";
@@ -332,7 +298,7 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       ? roleInput
       : parseWorkspaceMemberRole(body.role);
 
-    if (!email || !isValidEmail(email)) {
+    if (!email || !isValidInviteEmail(email)) {
       return NextResponse.json(
         { error: "A valid email address is required." },
         { status: 400 },
@@ -346,134 +312,29 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       );
     }
 
-    const targetUserExists = await resolveTargetUserExists(email);
-
-    const inviteId = createInviteId();
-    const token = createInviteToken();
-    const now = Timestamp.now();
-    const expiresAt = Timestamp.fromMillis(
-      now.toMillis() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000,
-    );
-    const inviteRef = accessContext.workspaceRef.collection("invites").doc(inviteId);
-    const tokenRef = adminDb.collection("workspaceInviteTokens").doc(token);
-
-    await adminDb.runTransaction(async (transaction) => {
-      const existingInvite = await transaction.get(inviteRef);
-      if (existingInvite.exists) {
-        throw new Error("INVITE_ID_COLLISION");
-      }
-
-      transaction.set(inviteRef, {
-        inviteId,
-        token,
-        email,
-        role,
-        status: "pending",
-        targetUserExists,
-        invitedByUid: accessContext.uid,
-        invitedByName: accessContext.actorDisplayName,
-        createdAt: now,
-        updatedAt: now,
-        expiresAt,
-        acceptedAt: null,
-        acceptedByUid: "",
-        acceptedByEmail: "",
-        rejectedAt: null,
-        rejectedByUid: "",
-        rejectedByEmail: "",
-        revokedAt: null,
-        revokedByUid: "",
-        resendCount: 0,
-        emailDeliveryStatus: "queued",
-        emailDeliveryProvider: "",
-        emailDeliveryMessageId: "",
-        emailDeliveryError: "",
-        lastEmailDeliveryAt: null,
-      });
-
-      transaction.set(tokenRef, {
-        token,
-        workspaceId: accessContext.workspace.workspaceId,
-        workspaceSlug: accessContext.workspace.workspaceSlug,
-        workspaceName: accessContext.workspace.workspaceName,
-        inviteId,
-        email,
-        role,
-        status: "pending",
-        targetUserExists,
-        createdAt: now,
-        updatedAt: now,
-        expiresAt,
-        invitedByUid: accessContext.uid,
-        invitedByName: accessContext.actorDisplayName,
-        acceptedAt: null,
-        acceptedByUid: "",
-        acceptedByEmail: "",
-        rejectedAt: null,
-        rejectedByUid: "",
-        rejectedByEmail: "",
-        revokedAt: null,
-        revokedByUid: "",
-        emailDeliveryStatus: "queued",
-        emailDeliveryProvider: "",
-        emailDeliveryMessageId: "",
-        emailDeliveryError: "",
-        lastEmailDeliveryAt: null,
-      });
-    });
-
-    const inviteUrl = `${request.nextUrl.origin}/invite/${encodeURIComponent(token)}`;
-    const emailDelivery = await sendWorkspaceInviteEmail({
-      toEmail: email,
-      workspaceName: accessContext.workspace.workspaceName,
-      workspaceSlug: accessContext.workspace.workspaceSlug,
-      inviteUrl,
-      invitedByName: accessContext.actorDisplayName,
+    const created = await createWorkspaceInvite({
+      workspace: accessContext.workspace,
+      workspaceRef: accessContext.workspaceRef,
+      actorUid: accessContext.uid,
+      actorDisplayName: accessContext.actorDisplayName,
+      email,
       role,
-      expiresAtIso: expiresAt.toDate().toISOString(),
-      targetUserExists,
-      action: "created",
+      origin: request.nextUrl.origin,
     });
-    const deliveryAt = Timestamp.now();
-
-    await Promise.all([
-      inviteRef.set(
-        {
-          emailDeliveryStatus: emailDelivery.status,
-          emailDeliveryProvider: emailDelivery.provider,
-          emailDeliveryMessageId: emailDelivery.messageId,
-          emailDeliveryError: emailDelivery.error,
-          lastEmailDeliveryAt: deliveryAt,
-          updatedAt: deliveryAt,
-        },
-        { merge: true },
-      ),
-      tokenRef.set(
-        {
-          emailDeliveryStatus: emailDelivery.status,
-          emailDeliveryProvider: emailDelivery.provider,
-          emailDeliveryMessageId: emailDelivery.messageId,
-          emailDeliveryError: emailDelivery.error,
-          lastEmailDeliveryAt: deliveryAt,
-          updatedAt: deliveryAt,
-        },
-        { merge: true },
-      ),
-    ]);
 
     return NextResponse.json({
       ok: true,
       invite: {
-        id: inviteId,
+        id: created.inviteId,
         email,
         role,
         status: "pending",
-        targetUserExists,
-        inviteUrl,
-        expiresAt: expiresAt.toDate().toISOString(),
+        targetUserExists: created.targetUserExists,
+        inviteUrl: created.inviteUrl,
+        expiresAt: created.expiresAt.toDate().toISOString(),
         invitedByUid: accessContext.uid,
         invitedByName: accessContext.actorDisplayName,
-        emailDelivery,
+        emailDelivery: created.emailDelivery,
       },
     });
   } catch (error) {
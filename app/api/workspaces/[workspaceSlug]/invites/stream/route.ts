@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageWorkspaceMembers, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { createEventStreamResponse } from "@/lib/api/event-stream";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+// Run on every heartbeat: the stream closes once the session is revoked, the
+// viewer loses manager access, or the workspace is scheduled for deletion.
+async function hasStreamAccess(
+  request: NextRequest,
+  uid: string,
+  workspaceRef: FirebaseFirestore.DocumentReference,
+) {
+  if ((await authenticateUid(request)) !== uid) return false;
+
+  const [workspaceSnapshot, memberSnapshot] = await Promise.all([
+    workspaceRef.get(),
+    workspaceRef.collection("members").doc(uid).get(),
+  ]);
+  return (
+    workspaceSnapshot.exists &&
+    !isWorkspacePendingDeletion(workspaceSnapshot.get("deletion")) &&
+    memberSnapshot.exists &&
+    canManageWorkspaceMembers(parseWorkspaceMemberRole(memberSnapshot.get("role")))
+  );
+}
+
+// Signals the invites manager to reload whenever the invite list changes, for
+// example when an invitee accepts in another browser. The list itself still
+// comes from GET /invites, which builds invite URLs and delivery details.
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const memberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+    if (!memberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+    if (!canManageWorkspaceMembers(parseWorkspaceMemberRole(memberSnapshot.get("role")))) {
+      return NextResponse.json(
+        { error: "Only owners and admins can view invites." },
+        { status: 403 },
+      );
+    }
+
+    const checkAccess = () => hasStreamAccess(request, uid, workspaceRef);
+    return createEventStreamResponse(request, checkAccess, (send) => {
+      let isInitialSnapshot = true;
+
+      return workspaceRef
+        .collection("invites")
+        .orderBy("createdAt", "desc")
+        .limit(50)
+        .onSnapshot(
+          (snapshot) => {
+            // The first snapshot mirrors what the client already loaded.
+            if (isInitialSnapshot) {
+              isInitialSnapshot = false;
+              return;
+            }
+            send("invites", { changedCount: snapshot.docChanges().length });
+          },
+          () => {
+            send("invites-error", { error: "Invite updates paused." });
+          },
+        );
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to open invite stream.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
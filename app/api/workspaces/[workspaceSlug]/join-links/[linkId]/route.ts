@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageWorkspaceMembers, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    linkId: string;
+  }>;
+};
+
+type UpdateJoinLinkBody = {
+  action?: string;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, linkId } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const memberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+    if (!memberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (!canManageWorkspaceMembers(parseWorkspaceMemberRole(memberSnapshot.get("role")))) {
+      return NextResponse.json(
+        { error: "Only owners and admins can manage join links." },
+        { status: 403 },
+      );
+    }
+
+    const body = (await request.json()) as UpdateJoinLinkBody;
+    if (normalizeText(body.action).toLowerCase() !== "revoke") {
+      return NextResponse.json({ error: "Valid join link action is required." }, { status: 400 });
+    }
+
+    const joinLinkRef = workspaceRef.collection("joinLinks").doc(normalizeText(linkId));
+    const joinLinkSnapshot = await joinLinkRef.get();
+    if (!joinLinkSnapshot.exists) {
+      return NextResponse.json({ error: "Join link not found." }, { status: 404 });
+    }
+
+    if (normalizeText(joinLinkSnapshot.get("status")) === "revoked") {
+      return NextResponse.json({ ok: true, joinLink: { id: joinLinkRef.id, status: "revoked" } });
+    }
+
+    const now = Timestamp.now();
+    const revokedFields = {
+      status: "revoked",
+      revokedAt: now,
+      revokedByUid: uid,
+      updatedAt: now,
+    };
+    const token = normalizeText(joinLinkSnapshot.get("token"));
+    const batch = adminDb.batch();
+    batch.set(joinLinkRef, revokedFields, { merge: true });
+    if (token) {
+      batch.set(adminDb.collection("workspaceInviteTokens").doc(token), revokedFields, {
+        merge: true,
+      });
+    }
+    await batch.commit();
+
+    return NextResponse.json({ ok: true, joinLink: { id: joinLinkRef.id, status: "revoked" } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update join link.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.joinLinks.update",
+  },
+  patchHandler,
+);
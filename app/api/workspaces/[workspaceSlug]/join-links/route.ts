@@ -0,0 +1,320 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageWorkspaceMembers, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  DEFAULT_JOIN_LINK_EXPIRY_DAYS,
+  DEFAULT_JOIN_LINK_MAX_USES,
+  isJoinLinkRole,
+  JOIN_LINK_EXPIRY_DAYS_OPTIONS,
+  MAX_ACTIVE_JOIN_LINKS,
+  MAX_JOIN_LINK_USES,
+  parseJoinLinkDomains,
+  resolveJoinLinkStatus,
+} from "@/lib/workspace/join-links";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type CreateJoinLinkBody = {
+  role?: unknown;
+  expiresInDays?: unknown;
+  maxUses?: unknown;
+  allowedDomains?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+function parseCount(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+function createJoinLinkId() {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 900 + 100);
+  return `L-${timestamp}${random}`;
+}
+
+function createJoinLinkToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveJoinLinkManagerContext(request: NextRequest, workspaceSlug: string) {
+  const uid = await authenticateUid(request);
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const memberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+  if (!memberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  const actorRole = parseWorkspaceMemberRole(memberSnapshot.get("role"));
+  if (!canManageWorkspaceMembers(actorRole)) {
+    return {
+      error: "Only owners and admins can manage join links.",
+      status: 403 as const,
+    };
+  }
+
+  return {
+    uid,
+    workspace,
+    workspaceRef,
+    actorDisplayName: normalizeText(memberSnapshot.get("displayName")) || "Workspace Admin",
+  };
+}
+
+function mapJoinLinkSnapshot(
+  snapshot: FirebaseFirestore.QueryDocumentSnapshot<FirebaseFirestore.DocumentData>,
+  origin: string,
+) {
+  const data = snapshot.data() as Record<string, unknown>;
+  const token = normalizeText(data.token);
+  const expiresAt = parseDate(data.expiresAt);
+  const useCount = parseCount(data.useCount);
+  const maxUses = parseCount(data.maxUses);
+  const allowedDomains = Array.isArray(data.allowedDomains)
+    ? data.allowedDomains.map((entry) => normalizeText(entry)).filter(Boolean)
+    : [];
+
+  return {
+    id: snapshot.id,
+    role: parseWorkspaceMemberRole(data.role),
+    status: resolveJoinLinkStatus({
+      status: normalizeText(data.status),
+      expiresAt,
+      useCount,
+      maxUses,
+    }),
+    allowedDomains,
+    maxUses,
+    useCount,
+    joinUrl: token ? `${origin}/invite/${encodeURIComponent(token)}` : "",
+    createdByUid: normalizeText(data.createdByUid),
+    createdByName: normalizeText(data.createdByName) || "Workspace Admin",
+    expiresAt: expiresAt?.toISOString() ?? "",
+    createdAt: parseDate(data.createdAt)?.toISOString() ?? "",
+    lastUsedAt: parseDate(data.lastUsedAt)?.toISOString() ?? "",
+    revokedAt: parseDate(data.revokedAt)?.toISOString() ?? "",
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const managerContext = await resolveJoinLinkManagerContext(request, workspaceSlug);
+
+    if ("error" in managerContext) {
+      return NextResponse.json(
+        { error: managerContext.error },
+        { status: managerContext.status },
+      );
+    }
+
+    const linkSnapshots = await managerContext.workspaceRef
+      .collection("joinLinks")
+      .orderBy("createdAt", "desc")
+      .limit(50)
+      .get();
+
+    return NextResponse.json({
+      ok: true,
+      workspaceId: managerContext.workspace.workspaceId,
+      workspaceSlug: managerContext.workspace.workspaceSlug,
+      joinLinks: linkSnapshots.docs.map((snapshot) =>
+        mapJoinLinkSnapshot(snapshot, request.nextUrl.origin),
+      ),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load join links.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const managerContext = await resolveJoinLinkManagerContext(request, workspaceSlug);
+
+    if ("error" in managerContext) {
+      return NextResponse.json(
+        { error: managerContext.error },
+        { status: managerContext.status },
+      );
+    }
+
+    const body = (await request.json()) as CreateJoinLinkBody;
+    const role = normalizeText(body.role).toLowerCase() || "member";
+    if (!isJoinLinkRole(role)) {
+      return NextResponse.json(
+        { error: "Join links can grant admin, member, or viewer access." },
+        { status: 400 },
+      );
+    }
+
+    const expiresInDays =
+      body.expiresInDays === undefined ? DEFAULT_JOIN_LINK_EXPIRY_DAYS : Number(body.expiresInDays);
+    if (!JOIN_LINK_EXPIRY_DAYS_OPTIONS.includes(expiresInDays)) {
+      return NextResponse.json(
+        { error: `Expiry must be ${JOIN_LINK_EXPIRY_DAYS_OPTIONS.join(", ")} days.` },
+        { status: 400 },
+      );
+    }
+
+    const maxUses = body.maxUses === undefined ? DEFAULT_JOIN_LINK_MAX_USES : Number(body.maxUses);
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_JOIN_LINK_USES) {
+      return NextResponse.json(
+        { error: `Maximum uses must be between 1 and ${MAX_JOIN_LINK_USES}.` },
+        { status: 400 },
+      );
+    }
+
+    const domainResult = parseJoinLinkDomains(body.allowedDomains);
+    if ("error" in domainResult) {
+      return NextResponse.json({ error: domainResult.error }, { status: 400 });
+    }
+
+    const joinLinksRef = managerContext.workspaceRef.collection("joinLinks");
+    const activeSnapshots = await joinLinksRef.where("status", "==", "active").get();
+    const activeCount = activeSnapshots.docs.filter(
+      (snapshot) =>
+        mapJoinLinkSnapshot(snapshot, request.nextUrl.origin).status === "active",
+    ).length;
+    if (activeCount >= MAX_ACTIVE_JOIN_LINKS) {
+      return NextResponse.json(
+        {
+          error: `Workspaces can have up to ${MAX_ACTIVE_JOIN_LINKS} active join links. Revoke one first.`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const joinLinkId = createJoinLinkId();
+    const token = createJoinLinkToken();
+    const now = Timestamp.now();
+    const expiresAt = Timestamp.fromMillis(now.toMillis() + expiresInDays * 24 * 60 * 60 * 1000);
+    const joinLinkRef = joinLinksRef.doc(joinLinkId);
+    const tokenRef = adminDb.collection("workspaceInviteTokens").doc(token);
+
+    await adminDb.runTransaction(async (transaction) => {
+      const existingLink = await transaction.get(joinLinkRef);
+      if (existingLink.exists) {
+        throw new Error("JOIN_LINK_ID_COLLISION");
+      }
+
+      transaction.set(joinLinkRef, {
+        joinLinkId,
+        token,
+        role,
+        status: "active",
+        allowedDomains: domainResult.domains,
+        maxUses,
+        useCount: 0,
+        createdByUid: managerContext.uid,
+        createdByName: managerContext.actorDisplayName,
+        createdAt: now,
+        updatedAt: now,
+        expiresAt,
+        lastUsedAt: null,
+        lastUsedByUid: "",
+        revokedAt: null,
+        revokedByUid: "",
+      });
+
+      // Join links share the invite token namespace so /invite/[token]
+      // resolves both; `kind` tells the accept flow which record to read.
+      transaction.set(tokenRef, {
+        token,
+        kind: "joinLink",
+        joinLinkId,
+        workspaceId: managerContext.workspace.workspaceId,
+        workspaceSlug: managerContext.workspace.workspaceSlug,
+        workspaceName: managerContext.workspace.workspaceName,
+        role,
+        status: "active",
+        createdAt: now,
+        updatedAt: now,
+        expiresAt,
+        invitedByUid: managerContext.uid,
+        invitedByName: managerContext.actorDisplayName,
+      });
+    });
+
+    return NextResponse.json({
+      ok: true,
+      joinLink: {
+        id: joinLinkId,
+        role,
+        status: "active",
+        allowedDomains: domainResult.domains,
+        maxUses,
+        useCount: 0,
+        joinUrl: `${request.nextUrl.origin}/invite/${encodeURIComponent(token)}`,
+        expiresAt: expiresAt.toDate().toISOString(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create join link.";
+
+    if (message === "JOIN_LINK_ID_COLLISION") {
+      return NextResponse.json(
+        { error: "Join link ID collision. Please retry." },
+        { status: 409 },
+      );
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.joinLinks.create",
+  },
+  postHandler,
+);
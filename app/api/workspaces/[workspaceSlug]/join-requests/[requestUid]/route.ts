@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageWorkspaceMembers, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { isDiscoveryJoinRole } from "@/lib/workspace/domain-discovery";
+import { addDiscoveredMemberInTransaction } from "@/lib/workspace/domain-discovery-store";
+import { MAX_WORKSPACE_MEMBERSHIPS } from "@/lib/workspace/limits";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    requestUid: string;
+  }>;
+};
+
+type UpdateJoinRequestBody = {
+  action?: unknown;
+  role?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, requestUid } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const actorMemberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+    if (!actorMemberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (!canManageWorkspaceMembers(parseWorkspaceMemberRole(actorMemberSnapshot.get("role")))) {
+      return NextResponse.json(
+        { error: "Only owners and admins can review join requests." },
+        { status: 403 },
+      );
+    }
+
+    const body = (await request.json()) as UpdateJoinRequestBody;
+    const action = normalizeText(body.action).toLowerCase();
+    if (action !== "approve" && action !== "decline") {
+      return NextResponse.json(
+        { error: "Valid join request action is required." },
+        { status: 400 },
+      );
+    }
+
+    const role = normalizeText(body.role) || "member";
+    if (!isDiscoveryJoinRole(role)) {
+      return NextResponse.json(
+        { error: "Join requests can be approved as member or viewer." },
+        { status: 400 },
+      );
+    }
+
+    const requestRef = workspaceRef.collection("joinRequests").doc(normalizeText(requestUid));
+    const actorName = normalizeText(actorMemberSnapshot.get("displayName")) || "Workspace Admin";
+    const now = Timestamp.now();
+    let requesterLabel = "";
+    let addedMemberRef: FirebaseFirestore.DocumentReference | null = null;
+
+    await adminDb.runTransaction(async (transaction) => {
+      const requestSnapshot = await transaction.get(requestRef);
+      if (!requestSnapshot.exists) {
+        throw new Error("JOIN_REQUEST_NOT_FOUND");
+      }
+      if (normalizeText(requestSnapshot.get("status")) !== "pending") {
+        throw new Error("JOIN_REQUEST_NOT_PENDING");
+      }
+
+      const email = normalizeText(requestSnapshot.get("email")).toLowerCase();
+      requesterLabel = normalizeText(requestSnapshot.get("displayName")) || email;
+
+      if (action === "approve") {
+        const result = await addDiscoveredMemberInTransaction(transaction, {
+          workspaceRef,
+          workspaceSlug: workspace.workspaceSlug,
+          uid: requestRef.id,
+          email,
+          displayName: requesterLabel || "Workspace User",
+          role,
+          now,
+        });
+        addedMemberRef = result.alreadyMember ? null : result.memberRef;
+      }
+
+      transaction.set(
+        requestRef,
+        {
+          status: action === "approve" ? "approved" : "declined",
+          role: action === "approve" ? role : "",
+          resolvedAt: now,
+          resolvedByUid: uid,
+          updatedAt: now,
+        },
+        { merge: true },
+      );
+    });
+
+    if (addedMemberRef) {
+      await writeCanonicalHistoryEvent({
+        entityRef: addedMemberRef,
+        entity: "member",
+        eventType: "created",
+        source: "manual",
+        actorUid: uid,
+        actorName,
+        message: `Approved ${requesterLabel}'s join request as ${role}.`,
+        at: now,
+        metadata: { role },
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      joinRequest: {
+        uid: requestRef.id,
+        status: action === "approve" ? "approved" : "declined",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update join request.";
+
+    if (message === "JOIN_REQUEST_NOT_FOUND") {
+      return NextResponse.json({ error: "Join request not found." }, { status: 404 });
+    }
+    if (message === "JOIN_REQUEST_NOT_PENDING") {
+      return NextResponse.json(
+        { error: "This join request was already handled." },
+        { status: 409 },
+      );
+    }
+    if (message === "WORKSPACE_MEMBERSHIP_LIMIT_REACHED") {
+      return NextResponse.json(
+        { error: `User is already in ${MAX_WORKSPACE_MEMBERSHIPS} workspaces.` },
+        { status: 403 },
+      );
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.joinRequests.update",
+  },
+  patchHandler,
+);
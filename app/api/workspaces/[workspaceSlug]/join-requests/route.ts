@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageWorkspaceMembers, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const memberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+    if (!memberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (!canManageWorkspaceMembers(parseWorkspaceMemberRole(memberSnapshot.get("role")))) {
+      return NextResponse.json(
+        { error: "Only owners and admins can review join requests." },
+        { status: 403 },
+      );
+    }
+
+    const requestSnapshots = await workspaceRef
+      .collection("joinRequests")
+      .where("status", "==", "pending")
+      .limit(100)
+      .get();
+
+    const joinRequests = requestSnapshots.docs
+      .map((snapshot) => {
+        return {
+          uid: snapshot.id,
+          email: normalizeText(snapshot.get("email")),
+          displayName:
+            normalizeText(snapshot.get("displayName")) ||
+            normalizeText(snapshot.get("email")) ||
+            "Workspace User",
+          requestedAt: parseDate(snapshot.get("requestedAt"))?.toISOString() ?? "",
+        };
+      })
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+
+    return NextResponse.json({ ok: true, joinRequests });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load join requests.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
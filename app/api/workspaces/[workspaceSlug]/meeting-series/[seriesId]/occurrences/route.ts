@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canEditMeetings, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { createNextMeetingOccurrence } from "@/lib/workspace/meeting-series";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    seriesId: string;
+  }>;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, seriesId } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const memberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+    if (!memberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (!canEditMeetings(parseWorkspaceMemberRole(memberSnapshot.get("role")))) {
+      return NextResponse.json(
+        { error: "Viewers cannot create meeting occurrences." },
+        { status: 403 },
+      );
+    }
+
+    const seriesSnapshot = await workspaceRef.collection("meetingSeries").doc(seriesId).get();
+    if (!seriesSnapshot.exists) {
+      return NextResponse.json({ error: "Meeting series not found." }, { status: 404 });
+    }
+
+    const latestMeetingId = normalizeText(seriesSnapshot.get("latestMeetingId"));
+    if (!latestMeetingId) {
+      return NextResponse.json(
+        { error: "Meeting series has no occurrences to continue from." },
+        { status: 409 },
+      );
+    }
+
+    const result = await createNextMeetingOccurrence({
+      workspaceId: workspace.workspaceId,
+      seriesId,
+      fromMeetingId: latestMeetingId,
+      actorUid: uid,
+      actorName: normalizeText(memberSnapshot.get("displayName")) || "Workspace User",
+      now: Timestamp.now(),
+    });
+
+    return NextResponse.json({
+      ok: true,
+      created: result.created,
+      meetingId: result.meetingId,
+      scheduledDate: result.scheduledDate,
+      carryOver: result.carryOver,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to create next meeting occurrence.";
+
+    if (message === "MEETING_NOT_FOUND") {
+      return NextResponse.json(
+        { error: "Latest meeting in this series was not found." },
+        { status: 404 },
+      );
+    }
+    if (message === "MEETING_SERIES_NOT_FOUND") {
+      return NextResponse.json({ error: "Meeting series not found." }, { status: 404 });
+    }
+    if (message === "MEETING_SERIES_INVALID") {
+      return NextResponse.json(
+        { error: "Meeting series recurrence is invalid." },
+        { status: 409 },
+      );
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.meetingSeries.occurrences.create",
+  },
+  postHandler,
+);
@@ -0,0 +1,497 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import {
+  canEditMeetings,
+  canEmailDecision,
+  parseWorkspaceMemberRole,
+} from "@/lib/auth/permissions";
+import { sendMeetingDigestEmail } from "@/lib/email/meeting-digest-email";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { loadNotificationRecipients } from "@/lib/notifications/delivery";
+import { holdEmailForQuietHours } from "@/lib/notifications/held-emails";
+import { resolveNotificationDelivery } from "@/lib/notifications/preferences";
+import { resolveActionState, type ActionWorkflow } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import { buildDecisionAccessViewer } from "@/lib/workspace/decision-access";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    meetingId: string;
+  }>;
+};
+
+type DigestRecipient = {
+  id: string;
+  label: string;
+  enabled: boolean;
+};
+
+type DigestDeliveryStatus = "sent" | "skipped" | "failed";
+
+type DigestDelivery = {
+  recipientId: string;
+  label: string;
+  email: string;
+  status: DigestDeliveryStatus;
+  provider: string;
+  messageId: string;
+  error: string;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizeEmail(value: unknown) {
+  return normalizeText(value).toLowerCase();
+}
+
+function normalizeBoolean(value: unknown, fallback = false) {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+function isValidEmail(value: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+function normalizeArray<T>(value: unknown, parser: (entry: unknown, index: number) => T | null) {
+  if (!Array.isArray(value)) return [] as T[];
+  return value
+    .map((entry, index) => parser(entry, index))
+    .filter((entry): entry is T => entry !== null);
+}
+
+function asRecord(value: unknown) {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function parseDigestRecipients(value: unknown): DigestRecipient[] {
+  return normalizeArray(value, (entry, index) => {
+    const candidate = asRecord(entry);
+    if (!candidate) return null;
+    const label = normalizeText(candidate.label);
+    if (!label) return null;
+
+    return {
+      id: normalizeText(candidate.id) || `r-${index + 1}`,
+      label,
+      enabled: normalizeBoolean(candidate.enabled, index < 2),
+    };
+  });
+}
+
+function parseDigestContent(data: Record<string, unknown>, actionWorkflow: ActionWorkflow) {
+  const digestOptions = asRecord(data.digestOptions);
+
+  return {
+    title: normalizeText(data.title) || "Meeting",
+    timeLabel: normalizeText(data.timeLabel) || "Date TBD",
+    objective:
+      normalizeText(data.objective) ||
+      "Capture outcomes, decisions, actions, and open questions from this meeting.",
+    notes: normalizeArray(data.notes, (entry, index) => {
+      const candidate = asRecord(entry);
+      if (!candidate) return null;
+      const heading = normalizeText(candidate.heading);
+      const content = normalizeText(candidate.content);
+      if (!heading && !content) return null;
+      return { heading: heading || `Notes ${index + 1}`, content };
+    }),
+    decisions: normalizeArray(data.decisions, (entry, index) => {
+      const candidate = asRecord(entry);
+      const title = normalizeText(candidate?.title);
+      if (!candidate || !title) return null;
+      return {
+        id: normalizeText(candidate.id) || `D-${index + 1}`,
+        title,
+        owner: normalizeText(candidate.owner) || "Unassigned",
+        status: normalizeText(candidate.status) || "proposed",
+        rationale: normalizeText(candidate.rationale),
+      };
+    }),
+    actions: normalizeArray(data.actions, (entry, index) => {
+      const candidate = asRecord(entry);
+      const title = normalizeText(candidate?.title);
+      if (!candidate || !title) return null;
+      const state = resolveActionState(actionWorkflow, candidate.status);
+      return {
+        id: normalizeText(candidate.id) || `A-${index + 1}`,
+        title,
+        owner: normalizeText(candidate.owner) || "Unassigned",
+        dueLabel: normalizeText(candidate.dueLabel) || "No due date",
+        status: state.label,
+        statusCategory: state.category,
+      };
+    }),
+    openQuestions: normalizeArray(data.openQuestions, (entry, index) => {
+      const candidate = asRecord(entry);
+      const question = normalizeText(candidate?.question);
+      if (!candidate || !question) return null;
+      return {
+        id: normalizeText(candidate.id) || `Q-${index + 1}`,
+        question,
+        owner: normalizeText(candidate.owner) || "Unassigned",
+        status: normalizeText(candidate.status) || "open",
+      };
+    }),
+    digestOptions: {
+      includeNotes: normalizeBoolean(digestOptions?.includeNotes, true),
+      includeOpenQuestions: normalizeBoolean(digestOptions?.includeOpenQuestions, true),
+      includeActionOwners: normalizeBoolean(digestOptions?.includeActionOwners, true),
+    },
+  };
+}
+
+function formatSentLabel(value: Date) {
+  return value.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+async function loadMemberDirectory(workspaceId: string) {
+  const memberSnapshots = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("members")
+    .get();
+  const byDisplayName = new Map<string, string>();
+  const uidsByEmail = new Map<string, string>();
+  const memberDataByUid = new Map<string, Record<string, unknown>>();
+
+  memberSnapshots.docs.forEach((memberSnapshot) => {
+    const email = normalizeEmail(memberSnapshot.get("email"));
+    if (!email) return;
+    if (!uidsByEmail.has(email)) {
+      uidsByEmail.set(email, memberSnapshot.id);
+      memberDataByUid.set(memberSnapshot.id, memberSnapshot.data() as Record<string, unknown>);
+    }
+
+    const displayName = normalizeText(memberSnapshot.get("displayName")).toLowerCase();
+    if (displayName && !byDisplayName.has(displayName)) {
+      byDisplayName.set(displayName, email);
+    }
+  });
+
+  return { emailsByDisplayName: byDisplayName, uidsByEmail, memberDataByUid };
+}
+
+// Meeting decisions are synced to the decisions collection under the same id;
+// ones not synced yet have no restriction to apply.
+async function loadDecisionAccess(workspaceId: string, decisionIds: string[]) {
+  if (decisionIds.length === 0) return new Map<string, Record<string, unknown>>();
+
+  const decisionsRef = adminDb.collection("workspaces").doc(workspaceId).collection("decisions");
+  const snapshots = await adminDb.getAll(
+    ...decisionIds.map((decisionId) => decisionsRef.doc(decisionId)),
+  );
+  return new Map(
+    snapshots
+      .filter((snapshot) => snapshot.exists)
+      .map((snapshot) => [snapshot.id, snapshot.data() as Record<string, unknown>]),
+  );
+}
+
+function resolveRecipientEmail(label: string, emailsByDisplayName: Map<string, string>) {
+  const normalized = label.toLowerCase();
+  if (isValidEmail(normalized)) {
+    return normalized;
+  }
+
+  return emailsByDisplayName.get(normalized) ?? "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveAuthorizedMeetingContext(
+  request: NextRequest,
+  workspaceSlug: string,
+  meetingId: string,
+) {
+  const uid = await authenticateUid(request);
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const memberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+
+  if (!memberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  return {
+    uid,
+    memberRole: parseWorkspaceMemberRole(memberSnapshot.get("role")),
+    memberDisplayName: normalizeText(memberSnapshot.get("displayName")),
+    workspace,
+    meetingRef: workspaceRef.collection("meetings").doc(meetingId),
+  };
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug, meetingId } = await context.params;
+    const resolvedContext = await resolveAuthorizedMeetingContext(
+      request,
+      workspaceSlug,
+      meetingId,
+    );
+
+    if ("error" in resolvedContext) {
+      return NextResponse.json({ error: resolvedContext.error }, { status: resolvedContext.status });
+    }
+
+    if (!canEditMeetings(resolvedContext.memberRole)) {
+      return NextResponse.json(
+        { error: "Viewers cannot send meeting digests." },
+        { status: 403 },
+      );
+    }
+
+    const meetingSnapshot = await resolvedContext.meetingRef.get();
+    if (!meetingSnapshot.exists) {
+      return NextResponse.json({ error: "Meeting not found." }, { status: 404 });
+    }
+
+    const data = meetingSnapshot.data() as Record<string, unknown>;
+    const recipients = parseDigestRecipients(data.digestRecipients).filter(
+      (recipient) => recipient.enabled,
+    );
+
+    if (recipients.length === 0) {
+      return NextResponse.json(
+        { error: "Select at least one digest recipient." },
+        { status: 400 },
+      );
+    }
+
+    const content = parseDigestContent(
+      data,
+      await loadWorkspaceActionWorkflow(resolvedContext.workspace.workspaceId),
+    );
+    const [memberDirectory, decisionAccessById] = await Promise.all([
+      loadMemberDirectory(resolvedContext.workspace.workspaceId),
+      loadDecisionAccess(
+        resolvedContext.workspace.workspaceId,
+        Array.from(new Set(content.decisions.map((decision) => decision.id))),
+      ),
+    ]);
+    const recipientEmails = recipients.map((recipient) =>
+      resolveRecipientEmail(recipient.label, memberDirectory.emailsByDisplayName),
+    );
+    // Members choose whether digests reach them; addresses outside the
+    // workspace have no preferences and are always sent.
+    const notificationRecipients = await loadNotificationRecipients(
+      resolvedContext.workspace.workspaceId,
+      recipientEmails
+        .map((email) => memberDirectory.uidsByEmail.get(email) ?? "")
+        .filter(Boolean),
+    );
+    const attemptedAt = new Date();
+    const sentByName = resolvedContext.memberDisplayName || "A workspace member";
+    const meetingUrl = `${request.nextUrl.origin}/${encodeURIComponent(
+      resolvedContext.workspace.workspaceSlug,
+    )}/meetings/${encodeURIComponent(meetingId)}`;
+    const deliveredEmails = new Set<string>();
+    const deliveries: DigestDelivery[] = [];
+
+    for (const [index, recipient] of recipients.entries()) {
+      const email = recipientEmails[index] ?? "";
+      const base = {
+        recipientId: recipient.id,
+        label: recipient.label,
+        email,
+      };
+
+      if (!email) {
+        deliveries.push({
+          ...base,
+          status: "skipped",
+          provider: "none",
+          messageId: "",
+          error: "No workspace member email matches this recipient.",
+        });
+        continue;
+      }
+
+      if (deliveredEmails.has(email)) {
+        deliveries.push({
+          ...base,
+          status: "skipped",
+          provider: "none",
+          messageId: "",
+          error: "Duplicate recipient email.",
+        });
+        continue;
+      }
+
+      deliveredEmails.add(email);
+      const memberUid = memberDirectory.uidsByEmail.get(email);
+      // Each recipient only gets the decisions they could open in the app.
+      const viewer = memberUid
+        ? buildDecisionAccessViewer(memberUid, memberDirectory.memberDataByUid.get(memberUid))
+        : null;
+      const emailInput = {
+        toEmail: email,
+        recipientName: isValidEmail(recipient.label.toLowerCase()) ? "" : recipient.label,
+        workspaceName: resolvedContext.workspace.workspaceName || "Workspace",
+        meetingId,
+        meetingTitle: content.title,
+        meetingTimeLabel: content.timeLabel,
+        meetingObjective: content.objective,
+        meetingUrl,
+        sentByName,
+        notes: content.notes,
+        decisions: content.decisions.filter((decision) =>
+          canEmailDecision(viewer, decisionAccessById.get(decision.id) ?? {}),
+        ),
+        actions: content.actions,
+        openQuestions: content.openQuestions,
+        digestOptions: content.digestOptions,
+      };
+      const notificationRecipient = memberUid ? notificationRecipients.get(memberUid) : undefined;
+      if (memberUid && notificationRecipient) {
+        const delivery = resolveNotificationDelivery(
+          notificationRecipient.preferences,
+          "meetingDigest",
+          attemptedAt,
+        );
+        if (delivery.emailReleaseAt) {
+          await holdEmailForQuietHours({
+            uid: memberUid,
+            workspaceId: resolvedContext.workspace.workspaceId,
+            eventType: "meetingDigest",
+            releaseAt: delivery.emailReleaseAt,
+            email: { kind: "meetingDigest", input: emailInput },
+          });
+          deliveries.push({
+            ...base,
+            status: "skipped",
+            provider: "none",
+            messageId: "",
+            error: "Recipient is in quiet hours; the digest is queued until they end.",
+          });
+          continue;
+        }
+        if (!delivery.email) {
+          deliveries.push({
+            ...base,
+            status: "skipped",
+            provider: "none",
+            messageId: "",
+            error: "Recipient turned off meeting digest emails.",
+          });
+          continue;
+        }
+      }
+
+      const result = await sendMeetingDigestEmail(emailInput);
+
+      deliveries.push({
+        ...base,
+        status: result.status,
+        provider: result.provider,
+        messageId: result.messageId,
+        error: result.error,
+      });
+    }
+
+    const now = Timestamp.now();
+    const sentCount = deliveries.filter((delivery) => delivery.status === "sent").length;
+    const failedCount = deliveries.filter((delivery) => delivery.status === "failed").length;
+    const skippedCount = deliveries.length - sentCount - failedCount;
+    const didSend = sentCount > 0;
+    const digest = didSend ? "sent" : normalizeText(data.digest) === "sent" ? "sent" : "pending";
+    const lastSentLabel = didSend
+      ? formatSentLabel(now.toDate())
+      : normalizeText(data.lastSentLabel) || "Not sent yet";
+
+    await resolvedContext.meetingRef.set(
+      {
+        digest,
+        lastSentLabel,
+        digestDeliveries: deliveries.map((delivery) => ({
+          ...delivery,
+          attemptedAt: now,
+        })),
+        digestLastAttemptAt: now,
+        digestLastAttemptBy: resolvedContext.uid,
+        ...(didSend
+          ? {
+              digestLastSentAt: now,
+              digestLastSentBy: resolvedContext.uid,
+            }
+          : {}),
+        updatedAt: now,
+        updatedBy: resolvedContext.uid,
+      },
+      { merge: true },
+    );
+    await syncSearchIndexEntry({ entity: "meeting", entityRef: resolvedContext.meetingRef });
+
+    if (didSend) {
+      await writeCanonicalHistoryEvent({
+        entityRef: resolvedContext.meetingRef,
+        entity: "meeting",
+        eventType: "digestSent",
+        source: "manual",
+        actorUid: resolvedContext.uid,
+        actorName: resolvedContext.memberDisplayName,
+        message: `Sent meeting digest to ${sentCount} recipient${sentCount === 1 ? "" : "s"}.`,
+        at: now,
+        metadata: {
+          sent: sentCount,
+          skipped: skippedCount,
+          failed: failedCount,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      digest,
+      lastSentLabel,
+      deliveries,
+      summary: {
+        sent: sentCount,
+        skipped: skippedCount,
+        failed: failedCount,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to send meeting digest.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.meetings.digest.send",
+    rateLimit: {
+      maxRequests: 10,
+      windowSeconds: 60,
+    },
+  },
+  postHandler,
+);
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { buildMeetingCalendarEvent } from "@/lib/calendar/calendar-feed";
+import { buildIcsCalendar, resolveCalendarTimezone } from "@/lib/calendar/ics";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    meetingId: string;
+  }>;
+};
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, meetingId } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+    const [memberSnapshot, meetingSnapshot, userSnapshot] = await Promise.all([
+      workspaceRef.collection("members").doc(uid).get(),
+      workspaceRef.collection("meetings").doc(meetingId).get(),
+      adminDb.collection("users").doc(uid).get(),
+    ]);
+
+    if (!memberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (!meetingSnapshot.exists) {
+      return NextResponse.json({ error: "Meeting not found." }, { status: 404 });
+    }
+
+    const timezone = resolveCalendarTimezone(userSnapshot.get("timezone"));
+    const event = buildMeetingCalendarEvent({
+      workspace,
+      meetingId,
+      data: meetingSnapshot.data() as Record<string, unknown>,
+      timezone,
+      origin: request.nextUrl.origin,
+    });
+
+    if (!event) {
+      return NextResponse.json(
+        { error: "Meeting does not have a scheduled date to export." },
+        { status: 409 },
+      );
+    }
+
+    const calendar = buildIcsCalendar({
+      name: `${workspace.workspaceName} • ${event.summary}`,
+      timezone,
+      events: [event],
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${meetingId}.ics"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to export meeting.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
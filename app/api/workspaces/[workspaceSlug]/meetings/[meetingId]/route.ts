@@ -10,9 +10,23 @@ import {
 } from "@/lib/auth/permissions";
 import {
   areStringArraysEqual,
+  buildHistoryFieldChanges,
+  describeHistoryFieldChanges,
   writeCanonicalHistoryEvent,
 } from "@/lib/workspace/activity-history";
+import { resolveActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
+import { emitAssignmentNotifications } from "@/lib/notifications/assignments";
 import { emitMentionNotifications } from "@/lib/notifications/mentions";
+import { createNextMeetingOccurrence } from "@/lib/workspace/meeting-series";
+import {
+  describeMeetingRestoreSections,
+  isMeetingRestoreSection,
+  parseMeetingRestoreSections,
+  type MeetingRestoreSection,
+} from "@/lib/workspace/meeting-revisions";
+import { loadWorkspaceTeam } from "@/lib/workspace/teams";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
 
 type RouteContext = {
@@ -27,7 +41,6 @@ type DigestState = "pending" | "sent";
 type AgendaState = "queued" | "inProgress" | "done";
 type QuestionStatus = "open" | "resolved";
 type DecisionStatus = "proposed" | "accepted";
-type ActionStatus = "open" | "blocked" | "done";
 type ActionPriority = "high" | "medium" | "low";
 
 type Attendee = {
@@ -72,7 +85,8 @@ type Action = {
   owner: string;
   dueLabel: string;
   priority: ActionPriority;
-  status: ActionStatus;
+  // Workflow state id; older records may hold a retired or original id.
+  status: string;
 };
 
 type DigestRecipient = {
@@ -111,6 +125,8 @@ type MeetingRecordPayload = {
 type UpdateMeetingBody = {
   meeting?: unknown;
   restoreFromRevisionId?: unknown;
+  restoreSections?: unknown;
+  teamId?: unknown;
 };
 type MeetingRevisionEventType = "created" | "updated" | "restored";
 type MeetingRevisionSource = "meetingUpdate" | "restore";
@@ -120,9 +136,23 @@ const DIGEST_STATES = new Set<DigestState>(["pending", "sent"]);
 const AGENDA_STATES = new Set<AgendaState>(["queued", "inProgress", "done"]);
 const QUESTION_STATES = new Set<QuestionStatus>(["open", "resolved"]);
 const DECISION_STATES = new Set<DecisionStatus>(["proposed", "accepted"]);
-const ACTION_STATES = new Set<ActionStatus>(["open", "blocked", "done"]);
 const ACTION_PRIORITIES = new Set<ActionPriority>(["high", "medium", "low"]);
 
+// Selective restore copies these fields from the revision snapshot; state, lock,
+// digest, and revision always stay as they are on the current record.
+const MEETING_RESTORE_SECTION_FIELDS: Record<
+  MeetingRestoreSection,
+  Array<keyof MeetingRecordPayload>
+> = {
+  details: ["title", "owner", "timeLabel", "duration", "location", "objective"],
+  attendees: ["attendees"],
+  agenda: ["agenda"],
+  notes: ["notes"],
+  openQuestions: ["openQuestions"],
+  decisions: ["decisions"],
+  actions: ["actions"],
+};
+
 function normalizeText(value: unknown) {
   return typeof value === "string" ? value.trim() : "";
 }
@@ -269,7 +299,7 @@ function parseActions(value: unknown): Action[] {
         owner: normalizeText(candidate.owner) || "Unassigned",
         dueLabel: normalizeText(candidate.dueLabel) || "No due date",
         priority: normalizeEnum(candidate.priority, ACTION_PRIORITIES, "medium"),
-        status: normalizeEnum(candidate.status, ACTION_STATES, "open"),
+        status: normalizeText(candidate.status) || "open",
       };
     })
     .filter((entry): entry is Action => entry !== null);
@@ -470,12 +500,29 @@ function listChangedMeetingFields(
   return changed;
 }
 
+function applyRestoreSections(
+  current: MeetingRecordPayload,
+  revision: MeetingRecordPayload,
+  sections: MeetingRestoreSection[],
+) {
+  const next: MeetingRecordPayload = { ...current };
+  sections.forEach((section) => {
+    MEETING_RESTORE_SECTION_FIELDS[section].forEach((field) => {
+      Object.assign(next, { [field]: revision[field] });
+    });
+  });
+  return next;
+}
+
 function summarizeChangedMeetingFields(
   changedFields: string[],
   eventType: MeetingRevisionEventType,
+  restoredSections: MeetingRestoreSection[] = [],
 ) {
   if (eventType === "restored") {
-    return "Restored meeting from a previous revision.";
+    return restoredSections.length > 0
+      ? `Restored ${describeMeetingRestoreSections(restoredSections)} from a previous revision.`
+      : "Restored meeting from a previous revision.";
   }
 
   if (changedFields.length === 0) {
@@ -502,6 +549,7 @@ async function writeMeetingRevisionSnapshot({
   eventType,
   changedFields,
   restoredFromRevisionId,
+  restoredSections = [],
 }: {
   meetingRef: DocumentReference;
   meeting: MeetingRecordPayload;
@@ -512,21 +560,122 @@ async function writeMeetingRevisionSnapshot({
   eventType: MeetingRevisionEventType;
   changedFields: string[];
   restoredFromRevisionId?: string;
+  restoredSections?: MeetingRestoreSection[];
 }) {
   await meetingRef.collection("revisions").add({
     source,
     eventType,
     changedFields,
-    summary: summarizeChangedMeetingFields(changedFields, eventType),
+    summary: summarizeChangedMeetingFields(changedFields, eventType, restoredSections),
     meetingRevision: meeting.revision,
     actorUid,
     actorName,
     capturedAt: now,
     restoredFromRevisionId: restoredFromRevisionId ?? "",
+    ...(restoredSections.length > 0 ? { restoredSections } : {}),
     meeting,
   });
 }
 
+const MEETING_STATE_LABELS: Record<MeetingState, string> = {
+  scheduled: "Scheduled",
+  inProgress: "In progress",
+  completed: "Completed",
+};
+
+// Fields with their own canonical event type are left out of the generic
+// "updated" entry.
+const TRANSITION_MEETING_FIELDS = new Set(["state", "lock", "digest"]);
+
+async function writeMeetingHistoryEvents({
+  meetingRef,
+  meetingId,
+  previous,
+  next,
+  eventType,
+  changedFields,
+  restoredFromRevisionId,
+  restoredSections = [],
+  actorUid,
+  actorName,
+  now,
+}: {
+  meetingRef: DocumentReference;
+  meetingId: string;
+  previous: MeetingRecordPayload | null;
+  next: MeetingRecordPayload;
+  eventType: MeetingRevisionEventType;
+  changedFields: string[];
+  restoredFromRevisionId?: string;
+  restoredSections?: MeetingRestoreSection[];
+  actorUid: string;
+  actorName: string;
+  now: Timestamp;
+}) {
+  const base = {
+    entityRef: meetingRef,
+    entity: "meeting" as const,
+    source: "manual" as const,
+    actorUid,
+    actorName,
+    at: now,
+  };
+
+  if (eventType === "created") {
+    await writeCanonicalHistoryEvent({
+      ...base,
+      eventType: "created",
+      message: `Created meeting ${meetingId}.`,
+    });
+    return;
+  }
+
+  if (eventType === "restored") {
+    await writeCanonicalHistoryEvent({
+      ...base,
+      eventType: "restored",
+      message:
+        restoredSections.length > 0
+          ? `Restored ${describeMeetingRestoreSections(restoredSections)} on meeting ${meetingId} from a previous revision.`
+          : `Restored meeting ${meetingId} from a previous revision.`,
+      metadata: {
+        restoredFromRevisionId: restoredFromRevisionId ?? "",
+        changedFields,
+        ...(restoredSections.length > 0 ? { restoredSections } : {}),
+      },
+    });
+  } else {
+    const contentFields = changedFields.filter((field) => !TRANSITION_MEETING_FIELDS.has(field));
+    if (contentFields.length > 0) {
+      await writeCanonicalHistoryEvent({
+        ...base,
+        eventType: "updated",
+        message: summarizeChangedMeetingFields(contentFields, "updated"),
+        metadata: { changedFields: contentFields },
+      });
+    }
+  }
+
+  if (!previous) return;
+
+  if (previous.state !== next.state) {
+    await writeCanonicalHistoryEvent({
+      ...base,
+      eventType: "stateChanged",
+      message: `Moved meeting from ${MEETING_STATE_LABELS[previous.state]} to ${MEETING_STATE_LABELS[next.state]}.`,
+      metadata: { fromState: previous.state, toState: next.state },
+    });
+  }
+
+  if (previous.locked !== next.locked) {
+    await writeCanonicalHistoryEvent({
+      ...base,
+      eventType: next.locked ? "locked" : "unlocked",
+      message: next.locked ? "Locked meeting record." : "Unlocked meeting record.",
+    });
+  }
+}
+
 function applyTimeFromLabel(base: Date, label: string) {
   const match = label.match(/(\d{1,2})(?::(\d{2}))?\s*(AM|PM)/i);
   if (!match) return base;
@@ -589,6 +738,7 @@ async function syncMeetingOutputsToCanonical({
   workspaceName,
   meetingId,
   meeting,
+  meetingTeamId,
   uid,
   actorName,
   now,
@@ -598,6 +748,7 @@ async function syncMeetingOutputsToCanonical({
   workspaceName: string;
   meetingId: string;
   meeting: MeetingRecordPayload;
+  meetingTeamId: string;
   uid: string;
   actorName: string;
   now: Timestamp;
@@ -606,6 +757,7 @@ async function syncMeetingOutputsToCanonical({
   const teamLabel = meeting.team || "Workspace";
   const meetingDecisionIds = new Set(meeting.decisions.map((decision) => decision.id));
   const meetingActionIds = new Set(meeting.actions.map((action) => action.id));
+  const actionWorkflow = await loadWorkspaceActionWorkflow(workspaceId);
 
   for (const decision of meeting.decisions) {
     const decisionRef = workspaceRef.collection("decisions").doc(decision.id);
@@ -620,13 +772,14 @@ async function syncMeetingOutputsToCanonical({
         : "workspace";
     const existingTeamLabel = normalizeText(existing.teamLabel);
     const decisionTeamLabel = existingTeamLabel || teamLabel;
+    const decisionTeamId = normalizeText(existing.teamId) || meetingTeamId;
     const existingAllowedTeamIds = normalizeStringArray(existing.allowedTeamIds);
     const allowedTeamIds =
       normalizedVisibility === "team"
         ? existingAllowedTeamIds.length > 0
           ? existingAllowedTeamIds
-          : decisionTeamLabel
-            ? [decisionTeamLabel]
+          : decisionTeamId
+            ? [decisionTeamId]
             : []
         : [];
     const nextTitle = decision.title || `Decision ${decision.id}`;
@@ -648,6 +801,7 @@ async function syncMeetingOutputsToCanonical({
       normalizeText(existing.ownerUid) !== nextOwnerUid ||
       normalizeEnum(existing.status, DECISION_STATES, "proposed") !== decision.status ||
       normalizeText(existing.visibility) !== normalizedVisibility ||
+      normalizeText(existing.teamId) !== decisionTeamId ||
       normalizeText(existing.teamLabel) !== decisionTeamLabel ||
       !areStringArraysEqual(existingAllowedTeamIds, allowedTeamIds) ||
       !areStringArraysEqual(normalizeStringArray(existing.tags), nextTags) ||
@@ -665,6 +819,7 @@ async function syncMeetingOutputsToCanonical({
           ownerUid: nextOwnerUid,
           status: decision.status,
           visibility: normalizedVisibility,
+          teamId: decisionTeamId,
           teamLabel: decisionTeamLabel,
           allowedTeamIds,
           tags: nextTags,
@@ -681,6 +836,7 @@ async function syncMeetingOutputsToCanonical({
         },
         { merge: true },
       );
+      await syncSearchIndexEntry({ entity: "decision", entityRef: decisionRef });
 
       if (!wasExisting) {
         await writeCanonicalHistoryEvent({
@@ -698,6 +854,45 @@ async function syncMeetingOutputsToCanonical({
         });
       } else {
         if (didContentChange) {
+          const changes = buildHistoryFieldChanges([
+            {
+              field: "title",
+              label: "Title",
+              before: normalizeText(existing.title),
+              after: nextTitle,
+            },
+            {
+              field: "statement",
+              label: "Statement",
+              before: normalizeText(existing.statement),
+              after: nextStatement,
+            },
+            {
+              field: "rationale",
+              label: "Rationale",
+              before: normalizeText(existing.rationale),
+              after: nextRationale,
+            },
+            {
+              field: "owner",
+              label: "Owner",
+              before: normalizeText(existing.owner),
+              after: nextOwner,
+            },
+            {
+              field: "status",
+              label: "Status",
+              before: normalizeEnum(existing.status, DECISION_STATES, "proposed"),
+              after: decision.status,
+            },
+            {
+              field: "teamId",
+              label: "Team",
+              before: existingTeamLabel || normalizeText(existing.teamId),
+              after: decisionTeamLabel || decisionTeamId,
+            },
+          ]);
+
           await writeCanonicalHistoryEvent({
             entityRef: decisionRef,
             entity: "decision",
@@ -705,10 +900,13 @@ async function syncMeetingOutputsToCanonical({
             source: "meetingSync",
             actorUid: uid,
             actorName,
-            message: `Synced decision ${decision.id} from meeting ${meetingId}.`,
+            message: `Synced decision ${decision.id} from meeting ${meetingId}${
+              changes.length > 0 ? `: ${describeHistoryFieldChanges(changes)}` : ""
+            }.`,
             at: now,
             metadata: {
               meetingId,
+              ...(changes.length > 0 ? { changes } : {}),
             },
           });
         }
@@ -749,6 +947,24 @@ async function syncMeetingOutputsToCanonical({
           actorName,
           now,
         });
+        await emitAssignmentNotifications({
+          workspaceId,
+          workspaceSlug,
+          workspaceName,
+          entityType: "decision",
+          entityId: decision.id,
+          entityTitle: nextTitle,
+          entityPath: `/${workspaceSlug}/decisions/${decision.id}`,
+          owner: nextOwner,
+          previousOwner: normalizeText(existing.owner),
+          status: decision.status,
+          previousStatus: wasExisting
+            ? normalizeEnum(existing.status, DECISION_STATES, "proposed")
+            : "",
+          actorUid: uid,
+          actorName,
+          now,
+        });
       }
     }
   }
@@ -763,23 +979,27 @@ async function syncMeetingOutputsToCanonical({
     const existingDueAt = parseTimestampValue(existing.dueAt);
     const dueAtDate = dueAtFromLabel ?? existingDueAt;
     const dueAtTimestamp = dueAtDate ? Timestamp.fromDate(dueAtDate) : null;
+    const status = resolveActionState(actionWorkflow, action.status);
+    const existingStatus = resolveActionState(actionWorkflow, existing.status);
     const dueSoon =
-      action.status === "open" &&
+      status.category === "open" &&
       (dueAtDate ? isDueSoonDate(dueAtDate) : isDueSoonLabel(action.dueLabel));
     const nextTitle = action.title || `Action ${action.id}`;
     const nextDescription = normalizeText(existing.description) || action.title;
     const nextOwner = action.owner || normalizeText(existing.owner) || "Unassigned";
     const nextOwnerUid = normalizeText(existing.ownerUid) || uid;
     const nextProject = normalizeText(existing.project) || teamLabel;
+    const nextTeamId = normalizeText(existing.teamId) || meetingTeamId;
     const nextDueLabel = action.dueLabel || "No due date";
     const nextMeetingId = normalizeText(existing.meetingId) || meetingId;
     const nextDecisionId = normalizeText(existing.decisionId);
     const nextBlockedReason =
-      action.status === "blocked"
+      status.category === "blocked"
         ? normalizeText(existing.blockedReason) || "Blocked in meeting record."
         : "";
     const nextNotes = normalizeText(existing.notes);
-    const nextCompletedAt = action.status === "done" ? existing.completedAt ?? now : null;
+    const nextCompletedAt =
+      status.category === "closed" ? existing.completedAt ?? now : null;
     const wasArchived = existing.archived === true;
     const nextDueAtEpoch = normalizeDateToEpoch(dueAtDate);
     const existingDueAtEpoch = normalizeDateToEpoch(existingDueAt);
@@ -790,9 +1010,10 @@ async function syncMeetingOutputsToCanonical({
       normalizeText(existing.description) !== nextDescription ||
       normalizeText(existing.owner) !== nextOwner ||
       normalizeText(existing.ownerUid) !== nextOwnerUid ||
-      normalizeEnum(existing.status, ACTION_STATES, "open") !== action.status ||
+      normalizeText(existing.status) !== status.id ||
       normalizeEnum(existing.priority, ACTION_PRIORITIES, "medium") !== action.priority ||
       normalizeText(existing.project) !== nextProject ||
+      normalizeText(existing.teamId) !== nextTeamId ||
       existingDueAtEpoch !== nextDueAtEpoch ||
       normalizeText(existing.dueLabel) !== nextDueLabel ||
       existingDueSoon !== dueSoon ||
@@ -808,9 +1029,10 @@ async function syncMeetingOutputsToCanonical({
           description: nextDescription,
           owner: nextOwner,
           ownerUid: nextOwnerUid,
-          status: action.status,
+          status: status.id,
           priority: action.priority,
           project: nextProject,
+          teamId: nextTeamId,
           dueAt: dueAtTimestamp,
           dueLabel: nextDueLabel,
           dueSoon,
@@ -829,6 +1051,7 @@ async function syncMeetingOutputsToCanonical({
         },
         { merge: true },
       );
+      await syncSearchIndexEntry({ entity: "action", entityRef: actionRef });
 
       if (!wasExisting) {
         await writeCanonicalHistoryEvent({
@@ -846,6 +1069,57 @@ async function syncMeetingOutputsToCanonical({
         });
       } else {
         if (didContentChange) {
+          const changes = buildHistoryFieldChanges([
+            {
+              field: "title",
+              label: "Title",
+              before: normalizeText(existing.title),
+              after: nextTitle,
+            },
+            {
+              field: "description",
+              label: "Description",
+              before: normalizeText(existing.description),
+              after: nextDescription,
+            },
+            {
+              field: "owner",
+              label: "Owner",
+              before: normalizeText(existing.owner),
+              after: nextOwner,
+            },
+            {
+              field: "status",
+              label: "Status",
+              before: existingStatus.label,
+              after: status.label,
+            },
+            {
+              field: "priority",
+              label: "Priority",
+              before: normalizeEnum(existing.priority, ACTION_PRIORITIES, "medium"),
+              after: action.priority,
+            },
+            {
+              field: "project",
+              label: "Project",
+              before: normalizeText(existing.project),
+              after: nextProject,
+            },
+            {
+              field: "dueAt",
+              label: "Due",
+              before: normalizeText(existing.dueLabel),
+              after: nextDueLabel,
+            },
+            {
+              field: "blockedReason",
+              label: "Blocked reason",
+              before: normalizeText(existing.blockedReason),
+              after: nextBlockedReason,
+            },
+          ]);
+
           await writeCanonicalHistoryEvent({
             entityRef: actionRef,
             entity: "action",
@@ -853,10 +1127,13 @@ async function syncMeetingOutputsToCanonical({
             source: "meetingSync",
             actorUid: uid,
             actorName,
-            message: `Synced action ${action.id} from meeting ${meetingId}.`,
+            message: `Synced action ${action.id} from meeting ${meetingId}${
+              changes.length > 0 ? `: ${describeHistoryFieldChanges(changes)}` : ""
+            }.`,
             at: now,
             metadata: {
               meetingId,
+              ...(changes.length > 0 ? { changes } : {}),
             },
           });
         }
@@ -900,6 +1177,24 @@ async function syncMeetingOutputsToCanonical({
           actorName,
           now,
         });
+        await emitAssignmentNotifications({
+          workspaceId,
+          workspaceSlug,
+          workspaceName,
+          entityType: "action",
+          entityId: action.id,
+          entityTitle: nextTitle,
+          entityPath: `/${workspaceSlug}/actions/${action.id}`,
+          owner: nextOwner,
+          previousOwner: normalizeText(existing.owner),
+          status: status.id,
+          statusLabel: status.label,
+          previousStatus: wasExisting ? existingStatus.id : "",
+          previousStatusLabel: existingStatus.label,
+          actorUid: uid,
+          actorName,
+          now,
+        });
       }
     }
   }
@@ -929,6 +1224,7 @@ async function syncMeetingOutputsToCanonical({
       },
       { merge: true },
     );
+    await syncSearchIndexEntry({ entity: "decision", entityRef: decisionSnapshot.ref });
 
     await writeCanonicalHistoryEvent({
       entityRef: decisionSnapshot.ref,
@@ -970,6 +1266,7 @@ async function syncMeetingOutputsToCanonical({
       },
       { merge: true },
     );
+    await syncSearchIndexEntry({ entity: "action", entityRef: actionSnapshot.ref });
 
     await writeCanonicalHistoryEvent({
       entityRef: actionSnapshot.ref,
@@ -1081,6 +1378,14 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
 
     const body = (await request.json()) as UpdateMeetingBody;
     const restoreFromRevisionId = normalizeText(body.restoreFromRevisionId);
+    if (
+      body.restoreSections !== undefined &&
+      (!Array.isArray(body.restoreSections) ||
+        !body.restoreSections.every((section) => isMeetingRestoreSection(section)))
+    ) {
+      return NextResponse.json({ error: "Unknown restore section." }, { status: 400 });
+    }
+    const restoreSections = parseMeetingRestoreSections(body.restoreSections);
     if (!canEditMeetings(resolvedContext.memberRole)) {
       return NextResponse.json(
         { error: "Viewers cannot edit meetings." },
@@ -1100,11 +1405,63 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
     const existingMeeting = existingSnapshot.exists
       ? normalizeMeetingPayload(meetingId, existingSnapshot.data())
       : null;
+
+    if (body.teamId !== undefined && body.meeting === undefined && !restoreFromRevisionId) {
+      if (!existingSnapshot.exists) {
+        return NextResponse.json({ error: "Meeting not found." }, { status: 404 });
+      }
+
+      const requestedTeamId = normalizeText(body.teamId);
+      const team = requestedTeamId
+        ? await loadWorkspaceTeam(resolvedContext.workspace.workspaceId, requestedTeamId)
+        : null;
+      if (requestedTeamId && !team) {
+        return NextResponse.json({ error: "Team not found." }, { status: 400 });
+      }
+
+      const teamLabel = team?.name ?? (resolvedContext.workspace.workspaceName || "Workspace");
+      const nextTeamId = team?.id ?? "";
+      if (nextTeamId === normalizeText(existingSnapshot.get("teamId"))) {
+        return NextResponse.json({ ok: true, meetingId, teamId: nextTeamId, team: teamLabel });
+      }
+
+      await resolvedContext.meetingRef.set(
+        {
+          teamId: nextTeamId,
+          team: teamLabel,
+          updatedAt: now,
+          updatedBy: resolvedContext.uid,
+        },
+        { merge: true },
+      );
+      await syncSearchIndexEntry({ entity: "meeting", entityRef: resolvedContext.meetingRef });
+
+      await writeCanonicalHistoryEvent({
+        entityRef: resolvedContext.meetingRef,
+        entity: "meeting",
+        eventType: "updated",
+        source: "manual",
+        actorUid: resolvedContext.uid,
+        actorName: resolvedContext.memberDisplayName,
+        message: team ? `Assigned meeting to team ${team.name}.` : "Removed meeting team.",
+        at: now,
+        metadata: { changedFields: ["team"], teamId: nextTeamId },
+      });
+
+      return NextResponse.json({ ok: true, meetingId, teamId: nextTeamId, team: teamLabel });
+    }
+
+    // The team label follows the assigned team so renames show up on the next save.
+    const meetingTeamId = normalizeText(existingSnapshot.get("teamId"));
+    const meetingTeam = meetingTeamId
+      ? await loadWorkspaceTeam(resolvedContext.workspace.workspaceId, meetingTeamId)
+      : null;
     let nextMeeting: MeetingRecordPayload | null = null;
     let changedFields: string[] = [];
     let revisionEventType: MeetingRevisionEventType = "updated";
     let revisionSource: MeetingRevisionSource = "meetingUpdate";
     let restoredFromRevisionIdForSnapshot = "";
+    let restoredSectionsForSnapshot: MeetingRestoreSection[] = [];
 
     if (restoreFromRevisionId) {
       const revisionSnapshot = await resolvedContext.meetingRef
@@ -1132,16 +1489,26 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         ? Math.max(existingMeeting.revision + 1, revisionMeeting.revision + 1, 1)
         : Math.max(revisionMeeting.revision + 1, 1);
 
+      const isSelectiveRestore = existingMeeting !== null && restoreSections.length > 0;
       nextMeeting = {
-        ...revisionMeeting,
+        ...(isSelectiveRestore
+          ? applyRestoreSections(existingMeeting, revisionMeeting, restoreSections)
+          : revisionMeeting),
         revision: nextRevision,
       };
       changedFields = existingMeeting
         ? listChangedMeetingFields(existingMeeting, nextMeeting)
         : ["restored snapshot"];
+      if (isSelectiveRestore && changedFields.length === 0) {
+        return NextResponse.json(
+          { error: "The selected sections already match the current meeting." },
+          { status: 400 },
+        );
+      }
       if (changedFields.length === 0) {
         changedFields = ["restored snapshot"];
       }
+      restoredSectionsForSnapshot = isSelectiveRestore ? restoreSections : [];
       revisionEventType = "restored";
       revisionSource = "restore";
       restoredFromRevisionIdForSnapshot = restoreFromRevisionId;
@@ -1187,6 +1554,10 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Failed to resolve meeting payload." }, { status: 500 });
     }
 
+    if (meetingTeam) {
+      nextMeeting = { ...nextMeeting, team: meetingTeam.name };
+    }
+
     const actorName = resolvedContext.memberDisplayName || nextMeeting.owner || "Workspace User";
 
     await resolvedContext.meetingRef.set(
@@ -1203,6 +1574,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       },
       { merge: true },
     );
+    await syncSearchIndexEntry({ entity: "meeting", entityRef: resolvedContext.meetingRef });
 
     await writeMeetingRevisionSnapshot({
       meetingRef: resolvedContext.meetingRef,
@@ -1214,6 +1586,21 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       eventType: revisionEventType,
       changedFields,
       restoredFromRevisionId: restoredFromRevisionIdForSnapshot || undefined,
+      restoredSections: restoredSectionsForSnapshot,
+    });
+
+    await writeMeetingHistoryEvents({
+      meetingRef: resolvedContext.meetingRef,
+      meetingId,
+      previous: existingMeeting,
+      next: nextMeeting,
+      eventType: revisionEventType,
+      changedFields,
+      restoredFromRevisionId: restoredFromRevisionIdForSnapshot || undefined,
+      restoredSections: restoredSectionsForSnapshot,
+      actorUid: resolvedContext.uid,
+      actorName,
+      now,
     });
 
     await syncMeetingOutputsToCanonical({
@@ -1222,11 +1609,36 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       workspaceName: resolvedContext.workspace.workspaceName,
       meetingId,
       meeting: nextMeeting,
+      meetingTeamId,
       uid: resolvedContext.uid,
       actorName,
       now,
     });
 
+    const seriesId = normalizeText(existingSnapshot.get("seriesId"));
+    const didFinalizeOccurrence =
+      revisionSource === "meetingUpdate" &&
+      existingMeeting !== null &&
+      ((!existingMeeting.locked && nextMeeting.locked) ||
+        (existingMeeting.state !== "completed" && nextMeeting.state === "completed"));
+    let nextOccurrenceMeetingId = "";
+
+    if (seriesId && didFinalizeOccurrence) {
+      try {
+        const nextOccurrence = await createNextMeetingOccurrence({
+          workspaceId: resolvedContext.workspace.workspaceId,
+          seriesId,
+          fromMeetingId: meetingId,
+          actorUid: resolvedContext.uid,
+          actorName,
+          now,
+        });
+        nextOccurrenceMeetingId = nextOccurrence.meetingId;
+      } catch {
+        // The finalized record is already saved; the next occurrence can be created manually.
+      }
+    }
+
     return NextResponse.json({
       ok: true,
       meeting: {
@@ -1234,6 +1646,8 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         ...nextMeeting,
       },
       restoredFromRevisionId: restoreFromRevisionId || "",
+      restoredSections: restoredSectionsForSnapshot,
+      nextOccurrenceMeetingId,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to update meeting.";
@@ -4,6 +4,10 @@ import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
 import { adminAuth, adminDb } from "@/lib/firebase/admin";
 import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
 import { parseMeetingDraftPayload } from "@/lib/workspace/meeting-draft";
+import { loadWorkspaceTeam } from "@/lib/workspace/teams";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
+import { describeMeetingRecurrence } from "@/lib/workspace/meeting-recurrence";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
 
 type RouteContext = {
@@ -52,6 +56,12 @@ function createMeetingId() {
   return `M-${timestamp}${random}`;
 }
 
+function createSeriesId() {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 900 + 100);
+  return `S-${timestamp}${random}`;
+}
+
 async function authenticateSession(request: NextRequest) {
   const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
   if (!sessionCookie) {
@@ -105,6 +115,13 @@ async function postHandler(request: NextRequest, context: RouteContext) {
           }))
         : [{ id: "ag-1", title: "Set context and goals", state: "inProgress" }];
 
+    const team = draft.teamId
+      ? await loadWorkspaceTeam(workspace.workspaceId, draft.teamId)
+      : null;
+    if (draft.teamId && !team) {
+      return NextResponse.json({ error: "Team not found." }, { status: 400 });
+    }
+
     const userSnapshot = await adminDb.collection("users").doc(uid).get();
     const actorName =
       normalizeText(decodedSession.name) ||
@@ -127,7 +144,7 @@ async function postHandler(request: NextRequest, context: RouteContext) {
 
     const meetingPayload = {
       title: draft.title || "New Meeting",
-      team: workspace.workspaceName || "Workspace",
+      team: team?.name ?? (workspace.workspaceName || "Workspace"),
       owner: actorName,
       timeLabel: formatTimeLabel(draft.date, draft.time),
       duration: "45 min",
@@ -176,13 +193,52 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       },
     };
 
+    let seriesRef = draft.recurrence
+      ? workspaceRef.collection("meetingSeries").doc(createSeriesId())
+      : null;
+    if (seriesRef && (await seriesRef.get()).exists) {
+      seriesRef = workspaceRef.collection("meetingSeries").doc();
+    }
+
+    if (seriesRef && draft.recurrence) {
+      await seriesRef.set({
+        title: meetingPayload.title,
+        recurrence: draft.recurrence,
+        recurrenceLabel: describeMeetingRecurrence(draft.recurrence, draft.date),
+        startDate: draft.date,
+        time: draft.time,
+        agenda: draft.agenda,
+        teamId: team?.id ?? "",
+        latestMeetingId: meetingRef.id,
+        latestScheduledDate: draft.date,
+        occurrenceCount: 1,
+        createdAt: now,
+        createdBy: uid,
+        updatedAt: now,
+        updatedBy: uid,
+      });
+    }
+
     await meetingRef.set({
       ...meetingPayload,
+      teamId: team?.id ?? "",
+      scheduledDate: draft.date,
+      scheduledTime: draft.time,
+      scheduledTimezone: normalizeText(userSnapshot.get("timezone")),
+      ...(seriesRef
+        ? {
+            seriesId: seriesRef.id,
+            seriesOccurrence: 1,
+            previousMeetingId: "",
+            nextMeetingId: "",
+          }
+        : {}),
       createdAt: now,
       createdBy: uid,
       updatedAt: now,
       updatedBy: uid,
     });
+    await syncSearchIndexEntry({ entity: "meeting", entityRef: meetingRef });
 
     await meetingRef.collection("revisions").add({
       source: "meetingUpdate",
@@ -197,10 +253,23 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       meeting: meetingPayload,
     });
 
+    await writeCanonicalHistoryEvent({
+      entityRef: meetingRef,
+      entity: "meeting",
+      eventType: "created",
+      source: "manual",
+      actorUid: uid,
+      actorName,
+      message: `Created meeting ${meetingRef.id}.`,
+      at: now,
+      metadata: seriesRef ? { seriesId: seriesRef.id } : undefined,
+    });
+
     return NextResponse.json({
       ok: true,
       workspaceSlug: workspace.workspaceSlug,
       meetingId: meetingRef.id,
+      seriesId: seriesRef?.id ?? "",
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to create meeting.";
@@ -10,6 +10,8 @@ import {
   type WorkspaceMemberRole,
 } from "@/lib/auth/permissions";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { parseOwnershipTransfer } from "@/lib/workspace/ownership-transfer";
 
 type RouteContext = {
   params: Promise<{
@@ -104,7 +106,12 @@ async function resolveMembershipContext(
     workspace,
     workspaceRef,
     actorRole,
+    actorDisplayName: normalizeText(actorMemberSnapshot.get("displayName")),
     targetRole,
+    targetLabel:
+      normalizeText(targetMemberSnapshot.get("displayName")) ||
+      normalizeEmail(targetMemberSnapshot.get("email")) ||
+      memberUid,
     targetMemberRef,
   };
 }
@@ -181,6 +188,18 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       { merge: true },
     );
 
+    await writeCanonicalHistoryEvent({
+      entityRef: membershipContext.targetMemberRef,
+      entity: "member",
+      eventType: "roleChanged",
+      source: "manual",
+      actorUid: uid,
+      actorName: membershipContext.actorDisplayName,
+      message: `Changed ${membershipContext.targetLabel} from ${membershipContext.targetRole} to ${nextRole}.`,
+      at: now,
+      metadata: { fromRole: membershipContext.targetRole, toRole: nextRole },
+    });
+
     const updatedSnapshot = await membershipContext.targetMemberRef.get();
     const updatedDisplayName = normalizeText(updatedSnapshot.get("displayName"));
     const updatedEmail = normalizeEmail(updatedSnapshot.get("email"));
@@ -240,7 +259,51 @@ async function deleteHandler(request: NextRequest, context: RouteContext) {
       }
     }
 
-    await membershipContext.targetMemberRef.delete();
+    const teamSnapshots = await membershipContext.workspaceRef
+      .collection("teams")
+      .where("memberUids", "array-contains", memberUid)
+      .get();
+    await adminDb.runTransaction(async (transaction) => {
+      const workspaceSnapshot = await transaction.get(membershipContext.workspaceRef);
+      const removedAt = Timestamp.now();
+      teamSnapshots.docs.forEach((teamSnapshot) => {
+        transaction.set(
+          teamSnapshot.ref,
+          {
+            leadUids: FieldValue.arrayRemove(memberUid),
+            memberUids: FieldValue.arrayRemove(memberUid),
+            updatedAt: removedAt,
+            updatedBy: uid,
+          },
+          { merge: true },
+        );
+      });
+      transaction.delete(membershipContext.targetMemberRef);
+
+      // A pending ownership transfer to or from the removed member can no
+      // longer be accepted, so it is cancelled with the removal.
+      const transfer = parseOwnershipTransfer(workspaceSnapshot.get("ownershipTransfer"));
+      if (transfer && (transfer.toUid === memberUid || transfer.fromUid === memberUid)) {
+        transaction.set(
+          membershipContext.workspaceRef,
+          { ownershipTransfer: FieldValue.delete(), updatedAt: removedAt },
+          { merge: true },
+        );
+      }
+    });
+
+    // History stays under the removed member's path so the workspace timeline
+    // keeps the removal.
+    await writeCanonicalHistoryEvent({
+      entityRef: membershipContext.targetMemberRef,
+      entity: "member",
+      eventType: "removed",
+      source: "manual",
+      actorUid: uid,
+      actorName: membershipContext.actorDisplayName,
+      message: `Removed ${membershipContext.targetLabel} from the workspace.`,
+      metadata: { role: membershipContext.targetRole },
+    });
 
     const userRef = adminDb.collection("users").doc(memberUid);
     const userSnapshot = await userRef.get();
@@ -9,6 +9,9 @@ import {
   type WorkspaceMemberRole,
 } from "@/lib/auth/permissions";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { parseMemberTeamIds } from "@/lib/workspace/decision-access";
+import { listWorkspaceTeams } from "@/lib/workspace/teams";
 import {
   MAX_WORKSPACE_MEMBERSHIPS,
   parseWorkspaceSlugs,
@@ -79,7 +82,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
     }
 
     const actorRole = normalizeRole(actorMemberSnapshot.get("role")) || "member";
-    const memberSnapshots = await workspaceRef.collection("members").get();
+    const [memberSnapshots, teams] = await Promise.all([
+      workspaceRef.collection("members").get(),
+      listWorkspaceTeams(workspace.workspaceId),
+    ]);
+    const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
 
     const members = memberSnapshots.docs
       .map((memberSnapshot) => {
@@ -95,6 +102,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
           email,
           role,
           status,
+          teams: parseMemberTeamIds(memberSnapshot.get("teamIds")).map((teamId) => ({
+            id: teamId,
+            name: teamNameById.get(teamId) ?? teamId,
+          })),
           joinedAt: parseDate(memberSnapshot.get("joinedAt")),
           updatedAt: parseDate(memberSnapshot.get("updatedAt")),
         };
@@ -174,11 +185,13 @@ async function postHandler(request: NextRequest, context: RouteContext) {
     const userRef = adminDb.collection("users").doc(targetUid);
 
     let created = false;
+    let previousRole = "";
 
     await adminDb.runTransaction(async (transaction) => {
       const memberSnapshot = await transaction.get(memberRef);
       const userSnapshot = await transaction.get(userRef);
       created = !memberSnapshot.exists;
+      previousRole = normalizeRole(memberSnapshot.get("role"));
       const userWorkspaceSlugs = parseWorkspaceSlugs(userSnapshot.get("workspaceSlugs"));
       const isNewMembership =
         !memberSnapshot.exists && !userWorkspaceSlugs.includes(workspace.workspaceSlug);
@@ -219,6 +232,34 @@ async function postHandler(request: NextRequest, context: RouteContext) {
       );
     });
 
+    const memberLabel = targetDisplayName || email;
+    const actorName = normalizeText(actorMemberSnapshot.get("displayName"));
+    if (created) {
+      await writeCanonicalHistoryEvent({
+        entityRef: memberRef,
+        entity: "member",
+        eventType: "created",
+        source: "manual",
+        actorUid: uid,
+        actorName,
+        message: `Added ${memberLabel} as ${role}.`,
+        at: now,
+        metadata: { role },
+      });
+    } else if (previousRole !== role) {
+      await writeCanonicalHistoryEvent({
+        entityRef: memberRef,
+        entity: "member",
+        eventType: "roleChanged",
+        source: "manual",
+        actorUid: uid,
+        actorName,
+        message: `Changed ${memberLabel} from ${previousRole || "member"} to ${role}.`,
+        at: now,
+        metadata: { fromRole: previousRole, toRole: role },
+      });
+    }
+
     return NextResponse.json({
       ok: true,
       created,
@@ -0,0 +1,411 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { sendNotificationEmail } from "@/lib/email/notification-email";
+import { loadNotificationRecipients } from "@/lib/notifications/delivery";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { parseOwnershipTransfer } from "@/lib/workspace/ownership-transfer";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type TransferAction = "accept" | "decline" | "cancel";
+
+type CreateTransferBody = {
+  toUid?: unknown;
+};
+
+type UpdateTransferBody = {
+  action?: TransferAction;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function resolveMemberLabel(snapshot: FirebaseFirestore.DocumentSnapshot) {
+  return (
+    normalizeText(snapshot.get("displayName")) ||
+    normalizeText(snapshot.get("email")).toLowerCase() ||
+    snapshot.id
+  );
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveTransferContext(request: NextRequest, workspaceSlug: string) {
+  const uid = await authenticateUid(request);
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const [workspaceSnapshot, memberSnapshot] = await Promise.all([
+    workspaceRef.get(),
+    workspaceRef.collection("members").doc(uid).get(),
+  ]);
+  if (!memberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  return {
+    uid,
+    workspace,
+    workspaceRef,
+    actorRole: parseWorkspaceMemberRole(memberSnapshot.get("role")),
+    actorDisplayName: resolveMemberLabel(memberSnapshot),
+    transfer: parseOwnershipTransfer(workspaceSnapshot.get("ownershipTransfer")),
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const transferContext = await resolveTransferContext(request, workspaceSlug);
+
+    if ("error" in transferContext) {
+      return NextResponse.json(
+        { error: transferContext.error },
+        { status: transferContext.status },
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      actorUid: transferContext.uid,
+      canTransfer: transferContext.actorRole === "owner",
+      transfer: transferContext.transfer,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load ownership transfer.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const transferContext = await resolveTransferContext(request, workspaceSlug);
+
+    if ("error" in transferContext) {
+      return NextResponse.json(
+        { error: transferContext.error },
+        { status: transferContext.status },
+      );
+    }
+
+    const body = (await request.json()) as CreateTransferBody;
+    const toUid = normalizeText(body.toUid);
+    if (!toUid) {
+      return NextResponse.json({ error: "Choose a member to transfer to." }, { status: 400 });
+    }
+    if (toUid === transferContext.uid) {
+      return NextResponse.json(
+        { error: "You cannot transfer ownership to yourself." },
+        { status: 400 },
+      );
+    }
+
+    const { workspaceRef } = transferContext;
+    const membersRef = workspaceRef.collection("members");
+    const now = Timestamp.now();
+    // The actor's role, the pending transfer and the recipient are checked in
+    // the same transaction that stores the transfer, so two owners cannot
+    // start competing transfers.
+    const transfer = await adminDb.runTransaction(async (transaction) => {
+      const [workspaceSnapshot, actorSnapshot, targetSnapshot] = await Promise.all([
+        transaction.get(workspaceRef),
+        transaction.get(membersRef.doc(transferContext.uid)),
+        transaction.get(membersRef.doc(toUid)),
+      ]);
+      if (!actorSnapshot.exists) {
+        throw new Error("ACCESS_DENIED");
+      }
+      if (parseWorkspaceMemberRole(actorSnapshot.get("role")) !== "owner") {
+        throw new Error("OWNERSHIP_TRANSFER_OWNER_ONLY");
+      }
+      if (parseOwnershipTransfer(workspaceSnapshot.get("ownershipTransfer"))) {
+        throw new Error("OWNERSHIP_TRANSFER_PENDING");
+      }
+      if (!targetSnapshot.exists) {
+        throw new Error("MEMBER_NOT_FOUND");
+      }
+      if (parseWorkspaceMemberRole(targetSnapshot.get("role")) === "owner") {
+        throw new Error("MEMBER_ALREADY_OWNER");
+      }
+
+      const nextTransfer = {
+        status: "pending",
+        fromUid: transferContext.uid,
+        fromName: resolveMemberLabel(actorSnapshot),
+        toUid,
+        toName: resolveMemberLabel(targetSnapshot),
+        requestedAt: now,
+      };
+      transaction.set(
+        workspaceRef,
+        { ownershipTransfer: nextTransfer, updatedAt: now },
+        { merge: true },
+      );
+      return nextTransfer;
+    });
+
+    const recipient = (
+      await loadNotificationRecipients(transferContext.workspace.workspaceId, [toUid])
+    ).get(toUid);
+    if (recipient?.email) {
+      await sendNotificationEmail({
+        toEmail: recipient.email,
+        recipientName: recipient.displayName,
+        workspaceName: transferContext.workspace.workspaceName,
+        subject: `${transfer.fromName} wants to make you owner of ${transferContext.workspace.workspaceName}`,
+        heading: "Ownership transfer",
+        summary: `${transfer.fromName} asked to transfer ownership of ${transferContext.workspace.workspaceName} to you. Accept or decline it from workspace settings.`,
+        actionLabel: "Review transfer",
+        actionPath: `/${transferContext.workspace.workspaceSlug}/settings#ownership`,
+      });
+    }
+
+    return NextResponse.json({ ok: true, transfer: parseOwnershipTransfer(transfer) });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to start ownership transfer.";
+
+    if (message === "ACCESS_DENIED") {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (message === "OWNERSHIP_TRANSFER_OWNER_ONLY") {
+      return NextResponse.json(
+        { error: "Only owners can transfer ownership." },
+        { status: 403 },
+      );
+    }
+
+    if (message === "OWNERSHIP_TRANSFER_PENDING") {
+      return NextResponse.json(
+        { error: "An ownership transfer is already pending. Cancel it first." },
+        { status: 409 },
+      );
+    }
+
+    if (message === "MEMBER_NOT_FOUND") {
+      return NextResponse.json({ error: "Member not found." }, { status: 404 });
+    }
+
+    if (message === "MEMBER_ALREADY_OWNER") {
+      return NextResponse.json({ error: "That member is already an owner." }, { status: 400 });
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const { workspaceSlug } = await context.params;
+    const transferContext = await resolveTransferContext(request, workspaceSlug);
+
+    if ("error" in transferContext) {
+      return NextResponse.json(
+        { error: transferContext.error },
+        { status: transferContext.status },
+      );
+    }
+
+    const body = (await request.json()) as UpdateTransferBody;
+    const action = normalizeText(body.action);
+    if (action !== "accept" && action !== "decline" && action !== "cancel") {
+      return NextResponse.json(
+        { error: "Action must be accept, decline, or cancel." },
+        { status: 400 },
+      );
+    }
+
+    const { uid, workspaceRef } = transferContext;
+    const membersRef = workspaceRef.collection("members");
+    const now = Timestamp.now();
+
+    // Every action re-reads the transfer and the actor's role in the
+    // transaction that resolves it, so a cancel cannot race an accept.
+    const resolved = await adminDb.runTransaction(async (transaction) => {
+      const [workspaceSnapshot, actorSnapshot] = await Promise.all([
+        transaction.get(workspaceRef),
+        transaction.get(membersRef.doc(uid)),
+      ]);
+      if (!actorSnapshot.exists) {
+        throw new Error("ACCESS_DENIED");
+      }
+
+      const transfer = parseOwnershipTransfer(workspaceSnapshot.get("ownershipTransfer"));
+      if (!transfer) {
+        throw new Error("OWNERSHIP_TRANSFER_MISSING");
+      }
+
+      if (action === "cancel") {
+        if (parseWorkspaceMemberRole(actorSnapshot.get("role")) !== "owner") {
+          throw new Error("OWNERSHIP_TRANSFER_CANCEL_FORBIDDEN");
+        }
+      } else if (uid !== transfer.toUid) {
+        throw new Error("OWNERSHIP_TRANSFER_RECIPIENT_ONLY");
+      }
+
+      if (action !== "accept") {
+        transaction.set(
+          workspaceRef,
+          { ownershipTransfer: FieldValue.delete(), updatedAt: now },
+          { merge: true },
+        );
+        return null;
+      }
+
+      const fromMemberRef = membersRef.doc(transfer.fromUid);
+      const toMemberRef = membersRef.doc(transfer.toUid);
+      const [fromSnapshot, toSnapshot] = await Promise.all([
+        transaction.get(fromMemberRef),
+        transaction.get(toMemberRef),
+      ]);
+      // The requester must still be an owner, otherwise the transfer would
+      // let them hand out a role they no longer hold.
+      if (
+        !fromSnapshot.exists ||
+        parseWorkspaceMemberRole(fromSnapshot.get("role")) !== "owner"
+      ) {
+        throw new Error("OWNERSHIP_TRANSFER_STALE");
+      }
+
+      if (!toSnapshot.exists) {
+        throw new Error("OWNERSHIP_TRANSFER_RECIPIENT_MISSING");
+      }
+
+      const previousRecipientRole = parseWorkspaceMemberRole(toSnapshot.get("role"));
+      transaction.set(
+        toMemberRef,
+        { role: "owner", status: "active", updatedAt: now },
+        { merge: true },
+      );
+      transaction.set(fromMemberRef, { role: "admin", updatedAt: now }, { merge: true });
+      transaction.set(
+        workspaceRef,
+        { ownershipTransfer: FieldValue.delete(), updatedAt: now },
+        { merge: true },
+      );
+
+      return { transfer, fromMemberRef, toMemberRef, previousRecipientRole };
+    });
+
+    if (!resolved) {
+      return NextResponse.json({ ok: true, transfer: null });
+    }
+
+    const { transfer } = resolved;
+    await Promise.all([
+      writeCanonicalHistoryEvent({
+        entityRef: resolved.toMemberRef,
+        entity: "member",
+        eventType: "roleChanged",
+        source: "manual",
+        actorUid: uid,
+        actorName: transferContext.actorDisplayName,
+        message: `Accepted ownership from ${transfer.fromName}.`,
+        at: now,
+        metadata: { fromRole: resolved.previousRecipientRole, toRole: "owner" },
+      }),
+      writeCanonicalHistoryEvent({
+        entityRef: resolved.fromMemberRef,
+        entity: "member",
+        eventType: "roleChanged",
+        source: "manual",
+        actorUid: uid,
+        actorName: transferContext.actorDisplayName,
+        message: `Changed ${transfer.fromName} from owner to admin after transferring ownership.`,
+        at: now,
+        metadata: { fromRole: "owner", toRole: "admin" },
+      }),
+    ]);
+
+    return NextResponse.json({ ok: true, transfer: null, role: "owner" });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to update ownership transfer.";
+
+    if (message === "ACCESS_DENIED") {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (message === "OWNERSHIP_TRANSFER_MISSING") {
+      return NextResponse.json(
+        { error: "There is no pending ownership transfer." },
+        { status: 404 },
+      );
+    }
+
+    if (message === "OWNERSHIP_TRANSFER_CANCEL_FORBIDDEN") {
+      return NextResponse.json(
+        { error: "Only owners can cancel an ownership transfer." },
+        { status: 403 },
+      );
+    }
+
+    if (message === "OWNERSHIP_TRANSFER_RECIPIENT_ONLY") {
+      return NextResponse.json(
+        { error: "Only the recipient can respond to this transfer." },
+        { status: 403 },
+      );
+    }
+
+    if (message === "OWNERSHIP_TRANSFER_STALE") {
+      return NextResponse.json(
+        { error: "The requesting owner is no longer an owner of this workspace." },
+        { status: 409 },
+      );
+    }
+
+    if (message === "OWNERSHIP_TRANSFER_RECIPIENT_MISSING") {
+      return NextResponse.json(
+        { error: "The recipient is no longer a member of this workspace." },
+        { status: 409 },
+      );
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.ownershipTransfer.create",
+    rateLimit: {
+      maxRequests: 10,
+      windowSeconds: 60,
+    },
+  },
+  postHandler,
+);
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.ownershipTransfer.update",
+  },
+  patchHandler,
+);
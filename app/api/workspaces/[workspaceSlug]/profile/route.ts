@@ -5,6 +5,18 @@ import { adminAuth, adminDb } from "@/lib/firebase/admin";
 import { parseWorkspaceMemberRole } from "@/lib/auth/permissions";
 import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
 import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  hasPreferenceChanges,
+  isValidTimeZone,
+  normalizeLegacyNotifications,
+  normalizeNotificationPreferences,
+  normalizeTimeOfDay,
+  parseMemberNotificationPreferences,
+  toLegacyNotifications,
+  type LegacyNotificationValues,
+  type NotificationPreferences,
+  type NotificationQuietHours,
+} from "@/lib/notifications/preferences";
 
 type RouteContext = {
   params: Promise<{
@@ -12,17 +24,14 @@ type RouteContext = {
   }>;
 };
 
-type NotificationValues = {
-  meetingDigests: boolean;
-  actionReminders: boolean;
-  weeklySummary: boolean;
-  productAnnouncements: boolean;
-};
-
 type PatchWorkspaceProfileBody = {
   displayName?: string;
   jobTitle?: string;
-  notifications?: Partial<NotificationValues>;
+  notifications?: Partial<LegacyNotificationValues>;
+  preferences?: {
+    channels?: Record<string, unknown>;
+    quietHours?: Partial<NotificationQuietHours>;
+  };
 };
 
 function normalizeText(value: unknown) {
@@ -37,29 +46,57 @@ function normalizeJobTitle(value: unknown) {
   return normalizeText(value).replace(/\s+/g, " ").slice(0, 120);
 }
 
-function normalizeNotifications(
-  value: Partial<NotificationValues> | undefined,
-  fallback?: Partial<NotificationValues>,
-): NotificationValues {
-  return {
-    meetingDigests:
-      value?.meetingDigests ?? fallback?.meetingDigests ?? true,
-    actionReminders:
-      value?.actionReminders ?? fallback?.actionReminders ?? true,
-    weeklySummary:
-      value?.weeklySummary ?? fallback?.weeklySummary ?? false,
-    productAnnouncements:
-      value?.productAnnouncements ?? fallback?.productAnnouncements ?? true,
-  };
+function readRecord(value: unknown) {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function validateQuietHours(value: Partial<NotificationQuietHours> | undefined) {
+  if (!value) return null;
+  const times = [value.start, value.end].filter((entry) => entry !== undefined);
+  if (times.some((entry) => normalizeTimeOfDay(entry, "") === "")) {
+    return "Quiet hours must use HH:MM times.";
+  }
+  if (value.timezone !== undefined && !isValidTimeZone(normalizeText(value.timezone))) {
+    return "Quiet hours timezone is not recognized.";
+  }
+  return null;
 }
 
-function hasNotificationChanges(a: NotificationValues, b: NotificationValues) {
-  return (
-    a.meetingDigests !== b.meetingDigests ||
-    a.actionReminders !== b.actionReminders ||
-    a.weeklySummary !== b.weeklySummary ||
-    a.productAnnouncements !== b.productAnnouncements
-  );
+// Channel settings merge over the stored ones so a client can send a single
+// event. The legacy toggles body is still accepted and reseeds the channels it
+// covers; mentions keep their current settings.
+function resolveNextPreferences(
+  body: PatchWorkspaceProfileBody,
+  current: NotificationPreferences,
+): NotificationPreferences {
+  if (body.preferences) {
+    return normalizeNotificationPreferences(
+      {
+        channels: { ...current.channels, ...readRecord(body.preferences.channels) },
+        quietHours: { ...current.quietHours, ...readRecord(body.preferences.quietHours) },
+      },
+      toLegacyNotifications(current),
+      current.quietHours.timezone,
+    );
+  }
+
+  if (body.notifications) {
+    return normalizeNotificationPreferences(
+      {
+        channels: {
+          mention: current.channels.mention,
+          inviteExpired: current.channels.inviteExpired,
+        },
+        quietHours: current.quietHours,
+      },
+      normalizeLegacyNotifications(body.notifications, toLegacyNotifications(current)),
+      current.quietHours.timezone,
+    );
+  }
+
+  return current;
 }
 
 async function authenticateUid(request: NextRequest) {
@@ -83,7 +120,10 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
 
     const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
     const memberRef = workspaceRef.collection("members").doc(uid);
-    const memberSnapshot = await memberRef.get();
+    const [memberSnapshot, userSnapshot] = await Promise.all([
+      memberRef.get(),
+      adminDb.collection("users").doc(uid).get(),
+    ]);
     if (!memberSnapshot.exists) {
       return NextResponse.json({ error: "Access denied." }, { status: 403 });
     }
@@ -98,22 +138,26 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
       );
     }
 
+    const quietHoursError = validateQuietHours(body.preferences?.quietHours);
+    if (quietHoursError) {
+      return NextResponse.json({ error: quietHoursError }, { status: 400 });
+    }
+
     const currentDisplayName = normalizeDisplayName(memberSnapshot.get("displayName"));
     const currentJobTitle = normalizeJobTitle(memberSnapshot.get("jobTitle"));
-    const currentNotifications = normalizeNotifications(
-      memberSnapshot.get("notifications") as Partial<NotificationValues> | undefined,
-    );
-    const nextNotifications = normalizeNotifications(
-      body.notifications,
-      currentNotifications,
+    const currentPreferences = parseMemberNotificationPreferences(
+      memberSnapshot.data(),
+      userSnapshot.data(),
     );
+    const nextPreferences = resolveNextPreferences(body, currentPreferences);
+    const nextNotifications = toLegacyNotifications(nextPreferences);
     const email = normalizeText(memberSnapshot.get("email"));
     const role = parseWorkspaceMemberRole(memberSnapshot.get("role"));
     const status = normalizeText(memberSnapshot.get("status")) || "active";
     const updated =
       currentDisplayName !== nextDisplayName ||
       currentJobTitle !== nextJobTitle ||
-      hasNotificationChanges(currentNotifications, nextNotifications);
+      hasPreferenceChanges(currentPreferences, nextPreferences);
 
     if (updated) {
       await memberRef.set(
@@ -121,6 +165,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
           displayName: nextDisplayName,
           jobTitle: nextJobTitle,
           notifications: nextNotifications,
+          notificationPreferences: nextPreferences,
           updatedAt: Timestamp.now(),
         },
         { merge: true },
@@ -134,6 +179,7 @@ async function patchHandler(request: NextRequest, context: RouteContext) {
         displayName: nextDisplayName,
         jobTitle: nextJobTitle,
         notifications: nextNotifications,
+        preferences: nextPreferences,
         email,
         role,
         status,
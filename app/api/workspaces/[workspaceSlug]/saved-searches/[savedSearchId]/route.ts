@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { isWorkspaceManagerRole, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  canViewSavedSearch,
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  parseSavedSearch,
+  savedSearchesCollection,
+} from "@/lib/workspace/saved-searches";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    savedSearchId: string;
+  }>;
+};
+
+type UpdateSavedSearchBody = {
+  name?: unknown;
+  shared?: unknown;
+  pinned?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveSavedSearchContext(
+  uid: string,
+  workspaceSlug: string,
+  savedSearchId: string,
+) {
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const savedSearchRef = savedSearchesCollection(workspace.workspaceId).doc(savedSearchId);
+  const [actorMemberSnapshot, savedSearchSnapshot] = await Promise.all([
+    adminDb
+      .collection("workspaces")
+      .doc(workspace.workspaceId)
+      .collection("members")
+      .doc(uid)
+      .get(),
+    savedSearchRef.get(),
+  ]);
+
+  if (!actorMemberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  const savedSearch = savedSearchSnapshot.exists
+    ? parseSavedSearch(
+        savedSearchSnapshot.id,
+        savedSearchSnapshot.data() as Record<string, unknown>,
+        uid,
+      )
+    : null;
+  // Unshared searches look missing to everyone but their owner.
+  if (!savedSearch || !canViewSavedSearch(savedSearch, uid)) {
+    return { error: "Saved search not found.", status: 404 as const };
+  }
+
+  return {
+    savedSearchRef,
+    savedSearch,
+    actorRole: parseWorkspaceMemberRole(actorMemberSnapshot.get("role")),
+  };
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, savedSearchId } = await context.params;
+    const savedSearchContext = await resolveSavedSearchContext(uid, workspaceSlug, savedSearchId);
+
+    if ("error" in savedSearchContext) {
+      return NextResponse.json(
+        { error: savedSearchContext.error },
+        { status: savedSearchContext.status },
+      );
+    }
+
+    const { savedSearch } = savedSearchContext;
+    const body = (await request.json()) as UpdateSavedSearchBody;
+    const isOwner = savedSearch.ownerUid === uid;
+
+    if ((body.name !== undefined || body.shared !== undefined) && !isOwner) {
+      return NextResponse.json(
+        { error: "Only the owner can rename or share this search." },
+        { status: 403 },
+      );
+    }
+
+    const nextName = body.name === undefined ? savedSearch.name : normalizeText(body.name);
+    if (!nextName) {
+      return NextResponse.json({ error: "Saved search name is required." }, { status: 400 });
+    }
+    if (nextName.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Saved search names must be ${MAX_SAVED_SEARCH_NAME_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+
+    const nextShared = body.shared === undefined ? savedSearch.shared : body.shared === true;
+    const nextPinned = body.pinned === undefined ? savedSearch.pinned : body.pinned === true;
+
+    const update: Record<string, unknown> = {
+      name: nextName,
+      shared: nextShared,
+      updatedAt: Timestamp.now(),
+    };
+    if (savedSearch.shared && !nextShared) {
+      // Unsharing removes the search from everyone else's nav.
+      update.pinnedUids = nextPinned ? [uid] : [];
+    } else if (nextPinned !== savedSearch.pinned) {
+      update.pinnedUids = nextPinned ? FieldValue.arrayUnion(uid) : FieldValue.arrayRemove(uid);
+    }
+    await savedSearchContext.savedSearchRef.set(update, { merge: true });
+
+    return NextResponse.json({
+      ok: true,
+      updated: true,
+      savedSearch: {
+        ...savedSearch,
+        name: nextName,
+        shared: nextShared,
+        pinned: nextPinned,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update saved search.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function deleteHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, savedSearchId } = await context.params;
+    const savedSearchContext = await resolveSavedSearchContext(uid, workspaceSlug, savedSearchId);
+
+    if ("error" in savedSearchContext) {
+      return NextResponse.json(
+        { error: savedSearchContext.error },
+        { status: savedSearchContext.status },
+      );
+    }
+
+    const { savedSearch } = savedSearchContext;
+    const canDelete =
+      savedSearch.ownerUid === uid ||
+      (savedSearch.shared && isWorkspaceManagerRole(savedSearchContext.actorRole));
+    if (!canDelete) {
+      return NextResponse.json(
+        { error: "Only the owner or a workspace admin can delete this search." },
+        { status: 403 },
+      );
+    }
+
+    await savedSearchContext.savedSearchRef.delete();
+
+    return NextResponse.json({ ok: true, removed: true, savedSearchId: savedSearch.id });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to delete saved search.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.savedSearches.update",
+  },
+  patchHandler,
+);
+
+export const DELETE = withWriteGuardrails(
+  {
+    routeId: "workspace.savedSearches.delete",
+  },
+  deleteHandler,
+);
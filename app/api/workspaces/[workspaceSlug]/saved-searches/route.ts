@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  countSavedSearchResults,
+  listPinnedSavedSearches,
+  listSavedSearches,
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  MAX_SAVED_SEARCH_QUERY_LENGTH,
+  MAX_SAVED_SEARCHES_PER_USER,
+  parseSavedSearch,
+  parseSavedSearchView,
+  savedSearchesCollection,
+} from "@/lib/workspace/saved-searches";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type CreateSavedSearchBody = {
+  name?: unknown;
+  query?: unknown;
+  kind?: unknown;
+  updated?: unknown;
+  sort?: unknown;
+  team?: unknown;
+  shared?: unknown;
+  pinned?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveSavedSearchesContext(uid: string, workspaceSlug: string) {
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const actorMemberSnapshot = await adminDb
+    .collection("workspaces")
+    .doc(workspace.workspaceId)
+    .collection("members")
+    .doc(uid)
+    .get();
+  if (!actorMemberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  return {
+    workspace,
+    actorName:
+      normalizeText(actorMemberSnapshot.get("displayName")) ||
+      normalizeText(actorMemberSnapshot.get("email")) ||
+      uid,
+  };
+}
+
+// `?pinned=1` returns only the viewer's pinned searches with result counts for
+// the nav badges, which poll this endpoint.
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const savedSearchesContext = await resolveSavedSearchesContext(uid, workspaceSlug);
+
+    if ("error" in savedSearchesContext) {
+      return NextResponse.json(
+        { error: savedSearchesContext.error },
+        { status: savedSearchesContext.status },
+      );
+    }
+
+    const { workspace } = savedSearchesContext;
+    if (request.nextUrl.searchParams.get("pinned") === "1") {
+      const savedSearches = await listPinnedSavedSearches(workspace.workspaceId, uid);
+      const { counts, cappedIds } = await countSavedSearchResults(
+        workspace.workspaceId,
+        uid,
+        savedSearches,
+      );
+      return NextResponse.json({ savedSearches, counts, cappedIds });
+    }
+
+    const savedSearches = await listSavedSearches(workspace.workspaceId, uid);
+    return NextResponse.json({ savedSearches });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load saved searches.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const savedSearchesContext = await resolveSavedSearchesContext(uid, workspaceSlug);
+
+    if ("error" in savedSearchesContext) {
+      return NextResponse.json(
+        { error: savedSearchesContext.error },
+        { status: savedSearchesContext.status },
+      );
+    }
+
+    const body = (await request.json()) as CreateSavedSearchBody;
+    const name = normalizeText(body.name);
+    if (!name) {
+      return NextResponse.json({ error: "Saved search name is required." }, { status: 400 });
+    }
+    if (name.length > MAX_SAVED_SEARCH_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Saved search names must be ${MAX_SAVED_SEARCH_NAME_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+    if (normalizeText(body.query).length > MAX_SAVED_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Saved queries must be ${MAX_SAVED_SEARCH_QUERY_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+
+    const collection = savedSearchesCollection(savedSearchesContext.workspace.workspaceId);
+    const ownedSnapshots = await collection
+      .where("ownerUid", "==", uid)
+      .limit(MAX_SAVED_SEARCHES_PER_USER)
+      .get();
+    if (ownedSnapshots.size >= MAX_SAVED_SEARCHES_PER_USER) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches per workspace.` },
+        { status: 400 },
+      );
+    }
+    if (
+      ownedSnapshots.docs.some(
+        (snapshot) => normalizeText(snapshot.get("name")).toLowerCase() === name.toLowerCase(),
+      )
+    ) {
+      return NextResponse.json(
+        { error: "You already have a saved search with that name." },
+        { status: 409 },
+      );
+    }
+
+    const view = parseSavedSearchView(body as Record<string, unknown>);
+    const savedSearchRef = collection.doc();
+    const now = Timestamp.now();
+    const data = {
+      savedSearchId: savedSearchRef.id,
+      name,
+      ...view,
+      ownerUid: uid,
+      ownerName: savedSearchesContext.actorName,
+      shared: body.shared === true,
+      pinnedUids: body.pinned === false ? [] : [uid],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await savedSearchRef.set(data);
+
+    return NextResponse.json({
+      ok: true,
+      created: true,
+      savedSearch: parseSavedSearch(savedSearchRef.id, data, uid),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to save search.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.savedSearches.create",
+  },
+  postHandler,
+);
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { isWorkspaceManagerRole, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { rebuildWorkspaceSearchIndex } from "@/lib/workspace/search-index";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+// Re-indexes every decision, action and meeting. Writes keep the index current,
+// so this is only needed to backfill records created before the index existed.
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+    }
+
+    const actorMemberSnapshot = await adminDb
+      .collection("workspaces")
+      .doc(workspace.workspaceId)
+      .collection("members")
+      .doc(uid)
+      .get();
+    if (!actorMemberSnapshot.exists) {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+
+    if (!isWorkspaceManagerRole(parseWorkspaceMemberRole(actorMemberSnapshot.get("role")))) {
+      return NextResponse.json(
+        { error: "Only owners and admins can rebuild the search index." },
+        { status: 403 },
+      );
+    }
+
+    const counts = await rebuildWorkspaceSearchIndex(workspace.workspaceId);
+
+    return NextResponse.json({ ok: true, rebuilt: true, counts });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to rebuild search index.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.searchIndex.rebuild",
+  },
+  postHandler,
+);
@@ -0,0 +1,347 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import type { DocumentData, DocumentReference, Transaction } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import {
+  canEditTeamMembership,
+  canManageWorkspaceTeams,
+  parseWorkspaceMemberRole,
+} from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import { reindexTeamSearchEntries } from "@/lib/workspace/search-index";
+import {
+  MAX_TEAM_NAME_LENGTH,
+  MAX_WORKSPACE_TEAMS,
+  parseTeamUids,
+  parseWorkspaceTeam,
+  queueMemberTeamSync,
+} from "@/lib/workspace/teams";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+    teamId: string;
+  }>;
+};
+
+type UpdateTeamBody = {
+  name?: unknown;
+  description?: unknown;
+  leadUids?: unknown;
+  memberUids?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function areStringArraysEqual(left: string[], right: string[]) {
+  if (left.length !== right.length) return false;
+  const rightSet = new Set(right);
+  return left.every((entry) => rightSet.has(entry));
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveTeamContext(uid: string, workspaceSlug: string, teamId: string) {
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const teamRef = workspaceRef.collection("teams").doc(teamId);
+  const [actorMemberSnapshot, teamSnapshot] = await Promise.all([
+    workspaceRef.collection("members").doc(uid).get(),
+    teamRef.get(),
+  ]);
+
+  if (!actorMemberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  if (!teamSnapshot.exists) {
+    return { error: "Team not found.", status: 404 as const };
+  }
+
+  return {
+    workspace,
+    workspaceRef,
+    teamRef,
+    team: parseWorkspaceTeam(teamSnapshot.id, teamSnapshot.data() as Record<string, unknown>),
+    actorRole: parseWorkspaceMemberRole(actorMemberSnapshot.get("role")),
+  };
+}
+
+// Removed members no longer have a member document to update, so only sync
+// uids that are still in the workspace.
+async function filterExistingMemberUids(
+  transaction: Transaction,
+  workspaceRef: DocumentReference<DocumentData>,
+  uids: string[],
+) {
+  if (uids.length === 0) return [];
+
+  const snapshots = await transaction.getAll(
+    ...uids.map((memberUid) => workspaceRef.collection("members").doc(memberUid)),
+  );
+  return uids.filter((_, index) => snapshots[index]?.exists);
+}
+
+async function patchHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, teamId } = await context.params;
+    const teamContext = await resolveTeamContext(uid, workspaceSlug, teamId);
+
+    if ("error" in teamContext) {
+      return NextResponse.json({ error: teamContext.error }, { status: teamContext.status });
+    }
+
+    if (!canEditTeamMembership(teamContext.actorRole, uid, teamContext.team)) {
+      throw new Error("TEAM_EDIT_FORBIDDEN");
+    }
+
+    const body = (await request.json()) as UpdateTeamBody;
+    const requestedName = body.name === undefined ? null : normalizeText(body.name);
+    if (requestedName !== null && !requestedName) {
+      return NextResponse.json({ error: "Team name is required." }, { status: 400 });
+    }
+    if (requestedName && requestedName.length > MAX_TEAM_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Team name must be ${MAX_TEAM_NAME_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+
+    const { workspaceRef, teamRef } = teamContext;
+    const now = Timestamp.now();
+    // The team, the actor's role and every affected member document are read
+    // in the transaction, so concurrent edits cannot leave `teamIds` out of
+    // sync with the team's member list.
+    const result = await adminDb.runTransaction(async (transaction) => {
+      const [actorSnapshot, teamSnapshot, teamsSnapshot] = await Promise.all([
+        transaction.get(workspaceRef.collection("members").doc(uid)),
+        transaction.get(teamRef),
+        requestedName === null
+          ? Promise.resolve(null)
+          : transaction.get(workspaceRef.collection("teams").limit(MAX_WORKSPACE_TEAMS)),
+      ]);
+      if (!actorSnapshot.exists) {
+        throw new Error("ACCESS_DENIED");
+      }
+      if (!teamSnapshot.exists) {
+        throw new Error("TEAM_NOT_FOUND");
+      }
+
+      const actorRole = parseWorkspaceMemberRole(actorSnapshot.get("role"));
+      const team = parseWorkspaceTeam(
+        teamSnapshot.id,
+        teamSnapshot.data() as Record<string, unknown>,
+      );
+      if (!canEditTeamMembership(actorRole, uid, team)) {
+        throw new Error("TEAM_EDIT_FORBIDDEN");
+      }
+
+      const nextName = requestedName ?? team.name;
+      const nextDescription =
+        body.description === undefined ? team.description : normalizeText(body.description);
+      const nextLeadUids =
+        body.leadUids === undefined ? team.leadUids : parseTeamUids(body.leadUids);
+      const requestedMemberUids =
+        body.memberUids === undefined ? team.memberUids : parseTeamUids(body.memberUids);
+      const nextMemberUids = Array.from(new Set([...nextLeadUids, ...requestedMemberUids]));
+
+      const nameChanged = nextName !== team.name;
+      const descriptionChanged = nextDescription !== team.description;
+      const leadsChanged = !areStringArraysEqual(nextLeadUids, team.leadUids);
+      const membersChanged = !areStringArraysEqual(nextMemberUids, team.memberUids);
+
+      if (!nameChanged && !descriptionChanged && !leadsChanged && !membersChanged) {
+        return null;
+      }
+
+      if (
+        (nameChanged || descriptionChanged || leadsChanged) &&
+        !canManageWorkspaceTeams(actorRole)
+      ) {
+        throw new Error("TEAM_LEADS_FORBIDDEN");
+      }
+
+      if (nameChanged) {
+        const nameTaken = (teamsSnapshot?.docs ?? []).some(
+          (candidate) =>
+            candidate.id !== team.id &&
+            normalizeText(candidate.get("name")).toLowerCase() === nextName.toLowerCase(),
+        );
+        if (nameTaken) {
+          throw new Error("TEAM_NAME_TAKEN");
+        }
+      }
+
+      const addedUids = nextMemberUids.filter((memberUid) => !team.memberUids.includes(memberUid));
+      const [existingAddedUids, currentMemberUids] = await Promise.all([
+        filterExistingMemberUids(transaction, workspaceRef, addedUids),
+        filterExistingMemberUids(transaction, workspaceRef, team.memberUids),
+      ]);
+      if (existingAddedUids.length !== addedUids.length) {
+        throw new Error("TEAM_MEMBER_NOT_FOUND");
+      }
+
+      // Drop uids whose member document is gone so the sync below only touches
+      // current members.
+      const staleUids = new Set(
+        team.memberUids.filter((memberUid) => !currentMemberUids.includes(memberUid)),
+      );
+      const storedLeadUids = nextLeadUids.filter((memberUid) => !staleUids.has(memberUid));
+      const storedMemberUids = nextMemberUids.filter((memberUid) => !staleUids.has(memberUid));
+
+      transaction.set(
+        teamRef,
+        {
+          name: nextName,
+          description: nextDescription,
+          leadUids: storedLeadUids,
+          memberUids: storedMemberUids,
+          updatedAt: now,
+          updatedBy: uid,
+        },
+        { merge: true },
+      );
+      if (membersChanged) {
+        queueMemberTeamSync(
+          transaction,
+          workspaceRef,
+          team.id,
+          currentMemberUids,
+          storedMemberUids,
+        );
+      }
+
+      return {
+        nameChanged,
+        team: {
+          id: team.id,
+          name: nextName,
+          description: nextDescription,
+          leadUids: storedLeadUids,
+          memberUids: storedMemberUids,
+        },
+      };
+    });
+
+    if (!result) {
+      return NextResponse.json({ ok: true, updated: false });
+    }
+    if (result.nameChanged) {
+      await reindexTeamSearchEntries(teamContext.workspace.workspaceId, result.team.id);
+    }
+
+    return NextResponse.json({ ok: true, updated: true, team: result.team });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to update team.";
+
+    if (message === "ACCESS_DENIED") {
+      return NextResponse.json({ error: "Access denied." }, { status: 403 });
+    }
+    if (message === "TEAM_NOT_FOUND") {
+      return NextResponse.json({ error: "Team not found." }, { status: 404 });
+    }
+    if (message === "TEAM_EDIT_FORBIDDEN") {
+      return NextResponse.json(
+        { error: "Only owners, admins, and team leads can update this team." },
+        { status: 403 },
+      );
+    }
+    if (message === "TEAM_LEADS_FORBIDDEN") {
+      return NextResponse.json(
+        { error: "Only owners and admins can rename teams or change leads." },
+        { status: 403 },
+      );
+    }
+    if (message === "TEAM_NAME_TAKEN") {
+      return NextResponse.json(
+        { error: "A team with that name already exists." },
+        { status: 409 },
+      );
+    }
+    if (message === "TEAM_MEMBER_NOT_FOUND") {
+      return NextResponse.json(
+        { error: "Teams can only include workspace members." },
+        { status: 400 },
+      );
+    }
+
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function deleteHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug, teamId } = await context.params;
+    const teamContext = await resolveTeamContext(uid, workspaceSlug, teamId);
+
+    if ("error" in teamContext) {
+      return NextResponse.json({ error: teamContext.error }, { status: teamContext.status });
+    }
+
+    if (!canManageWorkspaceTeams(teamContext.actorRole)) {
+      return NextResponse.json(
+        { error: "Only owners and admins can delete teams." },
+        { status: 403 },
+      );
+    }
+
+    // Records keep their teamId so history stays intact; lists show them as an
+    // unknown team until they are reassigned.
+    const { workspaceRef, teamRef } = teamContext;
+    await adminDb.runTransaction(async (transaction) => {
+      const teamSnapshot = await transaction.get(teamRef);
+      if (!teamSnapshot.exists) return;
+
+      const team = parseWorkspaceTeam(
+        teamSnapshot.id,
+        teamSnapshot.data() as Record<string, unknown>,
+      );
+      const currentMemberUids = await filterExistingMemberUids(
+        transaction,
+        workspaceRef,
+        team.memberUids,
+      );
+      transaction.delete(teamRef);
+      queueMemberTeamSync(transaction, workspaceRef, team.id, currentMemberUids, []);
+    });
+
+    return NextResponse.json({ ok: true, removed: true, teamId: teamContext.team.id });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to delete team.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const PATCH = withWriteGuardrails(
+  {
+    routeId: "workspace.teams.update",
+  },
+  patchHandler,
+);
+
+export const DELETE = withWriteGuardrails(
+  {
+    routeId: "workspace.teams.delete",
+  },
+  deleteHandler,
+);
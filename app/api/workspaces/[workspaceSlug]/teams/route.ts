@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { resolveWorkspaceBySlug } from "@/lib/auth/workspace-data";
+import { canManageWorkspaceTeams, parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { withWriteGuardrails } from "@/lib/api/write-guardrails";
+import {
+  createTeamId,
+  listWorkspaceTeams,
+  MAX_TEAM_NAME_LENGTH,
+  MAX_WORKSPACE_TEAMS,
+  parseTeamUids,
+  queueMemberTeamSync,
+} from "@/lib/workspace/teams";
+
+type RouteContext = {
+  params: Promise<{
+    workspaceSlug: string;
+  }>;
+};
+
+type CreateTeamBody = {
+  name?: unknown;
+  description?: unknown;
+  leadUids?: unknown;
+  memberUids?: unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function authenticateUid(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  const decodedSession = await adminAuth.verifySessionCookie(sessionCookie, true);
+  return decodedSession.uid;
+}
+
+async function resolveTeamsContext(uid: string, workspaceSlug: string) {
+  const workspace = await resolveWorkspaceBySlug(workspaceSlug);
+  if (!workspace) {
+    return { error: "Workspace not found.", status: 404 as const };
+  }
+
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const actorMemberSnapshot = await workspaceRef.collection("members").doc(uid).get();
+  if (!actorMemberSnapshot.exists) {
+    return { error: "Access denied.", status: 403 as const };
+  }
+
+  return {
+    workspace,
+    workspaceRef,
+    actorRole: parseWorkspaceMemberRole(actorMemberSnapshot.get("role")),
+  };
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const teamsContext = await resolveTeamsContext(uid, workspaceSlug);
+
+    if ("error" in teamsContext) {
+      return NextResponse.json({ error: teamsContext.error }, { status: teamsContext.status });
+    }
+
+    const teams = await listWorkspaceTeams(teamsContext.workspace.workspaceId);
+
+    return NextResponse.json({
+      workspaceId: teamsContext.workspace.workspaceId,
+      workspaceSlug: teamsContext.workspace.workspaceSlug,
+      actorUid: uid,
+      actorRole: teamsContext.actorRole,
+      canManageTeams: canManageWorkspaceTeams(teamsContext.actorRole),
+      teams,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load teams.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+async function postHandler(request: NextRequest, context: RouteContext) {
+  try {
+    const uid = await authenticateUid(request);
+    const { workspaceSlug } = await context.params;
+    const teamsContext = await resolveTeamsContext(uid, workspaceSlug);
+
+    if ("error" in teamsContext) {
+      return NextResponse.json({ error: teamsContext.error }, { status: teamsContext.status });
+    }
+
+    if (!canManageWorkspaceTeams(teamsContext.actorRole)) {
+      return NextResponse.json(
+        { error: "Only owners and admins can create teams." },
+        { status: 403 },
+      );
+    }
+
+    const body = (await request.json()) as CreateTeamBody;
+    const name = normalizeText(body.name);
+    if (!name) {
+      return NextResponse.json({ error: "Team name is required." }, { status: 400 });
+    }
+    if (name.length > MAX_TEAM_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Team name must be ${MAX_TEAM_NAME_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+
+    const existingTeams = await listWorkspaceTeams(teamsContext.workspace.workspaceId);
+    if (existingTeams.length >= MAX_WORKSPACE_TEAMS) {
+      return NextResponse.json(
+        { error: `Workspaces can have up to ${MAX_WORKSPACE_TEAMS} teams.` },
+        { status: 400 },
+      );
+    }
+    if (existingTeams.some((team) => team.name.toLowerCase() === name.toLowerCase())) {
+      return NextResponse.json({ error: "A team with that name already exists." }, { status: 409 });
+    }
+
+    const leadUids = parseTeamUids(body.leadUids);
+    const memberUids = Array.from(new Set([...leadUids, ...parseTeamUids(body.memberUids)]));
+    const memberSnapshots = await Promise.all(
+      memberUids.map((memberUid) =>
+        teamsContext.workspaceRef.collection("members").doc(memberUid).get(),
+      ),
+    );
+    if (memberSnapshots.some((snapshot) => !snapshot.exists)) {
+      return NextResponse.json(
+        { error: "Teams can only include workspace members." },
+        { status: 400 },
+      );
+    }
+
+    const teamsRef = teamsContext.workspaceRef.collection("teams");
+    let teamRef = teamsRef.doc(createTeamId());
+    if ((await teamRef.get()).exists) {
+      teamRef = teamsRef.doc();
+    }
+
+    const now = Timestamp.now();
+    const batch = adminDb.batch();
+    batch.set(teamRef, {
+      teamId: teamRef.id,
+      name,
+      description: normalizeText(body.description),
+      leadUids,
+      memberUids,
+      createdAt: now,
+      createdBy: uid,
+      updatedAt: now,
+      updatedBy: uid,
+    });
+    queueMemberTeamSync(batch, teamsContext.workspaceRef, teamRef.id, [], memberUids);
+    await batch.commit();
+
+    return NextResponse.json({
+      ok: true,
+      created: true,
+      team: {
+        id: teamRef.id,
+        name,
+        leadUids,
+        memberUids,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to create team.";
+    const status = message === "UNAUTHORIZED" ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const POST = withWriteGuardrails(
+  {
+    routeId: "workspace.teams.create",
+  },
+  postHandler,
+);
@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 
 type InviteStatus = "pending" | "accepted" | "rejected" | "revoked" | "expired";
 type InviteRole = "owner" | "admin" | "member" | "viewer";
+type JoinLinkStatus = "active" | "revoked" | "expired" | "exhausted";
 
 type InviteDetailsResponse = {
   error?: string;
@@ -25,6 +26,12 @@ type InviteDetailsResponse = {
     updatedAt: string;
     acceptedAt: string;
     rejectedAt: string;
+    joinLink?: {
+      status: JoinLinkStatus;
+      allowedDomains: string[];
+      maxUses: number;
+      useCount: number;
+    };
   };
   actor?: {
     uid: string;
@@ -75,8 +82,8 @@ function formatDateLabel(value: string) {
   });
 }
 
-function statusStyle(status: InviteStatus) {
-  if (status === "pending") return "border-cyan-200 bg-cyan-50 text-cyan-800";
+function statusStyle(status: InviteStatus | JoinLinkStatus) {
+  if (status === "pending" || status === "active") return "border-cyan-200 bg-cyan-50 text-cyan-800";
   if (status === "accepted") return "border-emerald-200 bg-emerald-50 text-emerald-800";
   if (status === "rejected") return "border-rose-200 bg-rose-50 text-rose-800";
   if (status === "revoked") return "border-slate-200 bg-slate-100 text-slate-700";
@@ -213,8 +220,11 @@ export function InviteAcceptCard({ token }: InviteAcceptCardProps) {
   const workspacePath = workspaceSlug ? `/${workspaceSlug}/my-work` : "";
   const switchAccountPath = `/login?redirect=${encodeURIComponent(`/invite/${token}`)}`;
   const inviteStatus = details?.invite?.status ?? "pending";
+  const joinLink = details?.invite?.joinLink;
+  const badgeStatus = joinLink?.status ?? inviteStatus;
   const canAccept = details?.canAccept === true;
-  const canReject = canAccept;
+  // A join link is shared with many people, so there is nothing to reject.
+  const canReject = canAccept && !joinLink;
   const secondaryMessage = useMemo(() => {
     if (!details?.reason) return "";
     return details.reason;
@@ -264,9 +274,9 @@ export function InviteAcceptCard({ token }: InviteAcceptCardProps) {
       <div className="flex flex-wrap items-center justify-between gap-2">
         <p className="text-xs font-semibold tracking-[0.2em] text-slate-500">WORKSPACE INVITE</p>
         <span
-          className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${statusStyle(inviteStatus)}`}
+          className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${statusStyle(badgeStatus)}`}
         >
-          {inviteStatus.toUpperCase()}
+          {badgeStatus.toUpperCase()}
         </span>
       </div>
 
@@ -278,10 +288,29 @@ export function InviteAcceptCard({ token }: InviteAcceptCardProps) {
       </p>
 
       <dl className="mt-5 space-y-2 rounded-sm border border-slate-200 bg-white px-3 py-3 text-sm">
-        <div className="flex items-center justify-between gap-3">
-          <dt className="text-slate-500">Invited email</dt>
-          <dd className="font-medium text-slate-800">{details.invite.email || "Not set"}</dd>
-        </div>
+        {joinLink ? (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <dt className="text-slate-500">Allowed domains</dt>
+              <dd className="font-medium text-slate-800">
+                {joinLink.allowedDomains.length > 0
+                  ? joinLink.allowedDomains.map((domain) => `@${domain}`).join(", ")
+                  : "Any email"}
+              </dd>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <dt className="text-slate-500">Uses</dt>
+              <dd className="font-medium text-slate-800">
+                {joinLink.useCount} of {joinLink.maxUses}
+              </dd>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <dt className="text-slate-500">Invited email</dt>
+            <dd className="font-medium text-slate-800">{details.invite.email || "Not set"}</dd>
+          </div>
+        )}
         <div className="flex items-center justify-between gap-3">
           <dt className="text-slate-500">Signed-in email</dt>
           <dd className="font-medium text-slate-800">{details.actor?.email || "Not set"}</dd>
@@ -300,13 +329,17 @@ export function InviteAcceptCard({ token }: InviteAcceptCardProps) {
 
       {inviteStatus === "expired" ? (
         <p className="mt-4 rounded-sm border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
-          This invite has expired. Ask a workspace admin to send a new invite link.
+          {joinLink
+            ? "This join link has expired. Ask a workspace admin for a new link."
+            : "This invite has expired. Ask a workspace admin to send a new invite link."}
         </p>
       ) : null}
 
       {inviteStatus === "revoked" ? (
         <p className="mt-4 rounded-sm border border-slate-200 bg-slate-100 px-3 py-2 text-sm text-slate-700">
-          This invite was revoked by a workspace admin.
+          {joinLink
+            ? "This join link was revoked by a workspace admin."
+            : "This invite was revoked by a workspace admin."}
         </p>
       ) : null}
 
@@ -336,7 +369,9 @@ export function InviteAcceptCard({ token }: InviteAcceptCardProps) {
 
       {!error && isEmailMismatch ? (
         <p className="mt-3 rounded-sm border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
-          Sign in with the invited email to accept this invite.
+          {joinLink
+            ? "Sign in with an email from an allowed domain to join."
+            : "Sign in with the invited email to accept this invite."}
         </p>
       ) : null}
 
@@ -348,7 +383,7 @@ export function InviteAcceptCard({ token }: InviteAcceptCardProps) {
             disabled={isAccepting}
             className="rounded-sm bg-[color:var(--accent)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
           >
-            {isAccepting ? "Accepting..." : "Accept Invite"}
+            {isAccepting ? "Accepting..." : joinLink ? "Join Workspace" : "Accept Invite"}
           </button>
         ) : null}
 
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { FormEvent, useEffect, useMemo, useState } from "react";
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { getFirebaseClientAuth } from "@/lib/firebase/client";
 import { updateProfile } from "firebase/auth";
@@ -22,6 +22,15 @@ type SubmitState = {
   submitting: boolean;
 };
 
+type SuggestedWorkspace = {
+  workspaceSlug: string;
+  workspaceName: string;
+  mode: "auto_join" | "request";
+  role: string;
+  alreadyMember: boolean;
+  requestStatus: string;
+};
+
 type SlugAvailabilityState = {
   status: "idle" | "checking" | "available" | "unavailable" | "error";
   message: string;
@@ -62,6 +71,29 @@ export function OnboardingForm({
   const [slugAvailability, setSlugAvailability] = useState<SlugAvailabilityState>(
     initialSlugAvailabilityState,
   );
+  const [suggestedDomain, setSuggestedDomain] = useState("");
+  const [suggestedWorkspaces, setSuggestedWorkspaces] = useState<SuggestedWorkspace[]>([]);
+  const [joiningSlug, setJoiningSlug] = useState("");
+  const [suggestionError, setSuggestionError] = useState<string | null>(null);
+
+  const loadSuggestedWorkspaces = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/onboarding/discovery");
+      const result = (await response.json().catch(() => null)) as
+        | { domain?: string; workspaces?: SuggestedWorkspace[] }
+        | null;
+      if (!response.ok) return;
+
+      setSuggestedDomain(result?.domain ?? "");
+      setSuggestedWorkspaces(result?.workspaces ?? []);
+    } catch {
+      // Suggestions are optional; the create form still works without them.
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSuggestedWorkspaces();
+  }, [loadSuggestedWorkspaces]);
 
   const submitLabel = useMemo(
     () => (state.submitting ? "Setting up..." : "Complete setup"),
@@ -128,6 +160,43 @@ export function OnboardingForm({
     };
   }, [workspaceSlug]);
 
+  async function handleJoinSuggestedWorkspace(workspace: SuggestedWorkspace) {
+    if (workspace.alreadyMember) {
+      router.replace(`/${workspace.workspaceSlug}/my-work`);
+      return;
+    }
+
+    setJoiningSlug(workspace.workspaceSlug);
+    setSuggestionError(null);
+
+    try {
+      const response = await fetch("/api/auth/onboarding/discovery", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceSlug: workspace.workspaceSlug }),
+      });
+      const result = (await response.json().catch(() => null)) as
+        | { error?: string; joined?: boolean; workspaceSlug?: string }
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to join workspace.");
+      }
+
+      if (result?.joined) {
+        router.replace(`/${result.workspaceSlug ?? workspace.workspaceSlug}/my-work`);
+        return;
+      }
+
+      await loadSuggestedWorkspaces();
+    } catch (joinError) {
+      const message = joinError instanceof Error ? joinError.message : "Failed to join workspace.";
+      setSuggestionError(message);
+    } finally {
+      setJoiningSlug("");
+    }
+  }
+
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
 
@@ -233,6 +302,57 @@ export function OnboardingForm({
         </p>
       </div>
 
+      {suggestedWorkspaces.length > 0 ? (
+        <div className="mb-6 rounded-sm border border-cyan-200 bg-cyan-50/60 p-4">
+          <p className="text-xs font-semibold uppercase tracking-[0.13em] text-cyan-800">
+            Workspaces for @{suggestedDomain}
+          </p>
+          <p className="mt-1 text-xs text-slate-600">
+            Your team may already be here. Join one, or create a new workspace below.
+          </p>
+          <ul className="mt-3 space-y-2">
+            {suggestedWorkspaces.map((workspace) => {
+              const isPending = workspace.requestStatus === "pending";
+              const isDeclined = workspace.requestStatus === "declined";
+              const actionLabel = workspace.alreadyMember
+                ? "Open"
+                : workspace.mode === "auto_join"
+                  ? `Join as ${workspace.role}`
+                  : isPending
+                    ? "Request pending"
+                    : isDeclined
+                      ? "Request declined"
+                      : "Request to join";
+
+              return (
+                <li
+                  key={workspace.workspaceSlug}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-sm border border-slate-200 bg-white px-3 py-2"
+                >
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">{workspace.workspaceName}</p>
+                    <p className="text-xs text-slate-500">/{workspace.workspaceSlug}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void handleJoinSuggestedWorkspace(workspace)}
+                    disabled={Boolean(joiningSlug) || isPending || isDeclined}
+                    className="rounded-sm border border-cyan-300 bg-white px-3 py-1.5 text-xs font-semibold text-cyan-800 transition hover:border-cyan-500 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {joiningSlug === workspace.workspaceSlug ? "Working..." : actionLabel}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {suggestionError ? (
+            <p className="mt-3 rounded-sm border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+              {suggestionError}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
       <form className="space-y-4" onSubmit={handleSubmit}>
         <label className="block space-y-1.5">
           <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
@@ -4,19 +4,26 @@ import Link from "next/link";
 import { FormEvent, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { emitEntityHistoryEvent } from "@/lib/workspace/history-client-events";
+import type { CustomFieldValues } from "@/lib/workspace/custom-fields";
+import { resolveActionState, type ActionWorkflow } from "@/lib/workspace/action-workflow";
+import {
+  CustomFieldInputs,
+  toCustomFieldPayload,
+} from "@/components/workspace/custom-field-inputs";
 import { MemberMentionPicker } from "@/components/workspace/member-mention-picker";
 import { MemberOwnerInput } from "@/components/workspace/member-owner-input";
+import { TeamSelect } from "@/components/workspace/team-select";
 
-type ActionStatus = "open" | "done" | "blocked";
 type ActionPriority = "high" | "medium" | "low";
 
 export type ActionEditorValues = {
   title: string;
   description: string;
   owner: string;
-  status: ActionStatus;
+  status: string;
   priority: ActionPriority;
   project: string;
+  teamId: string;
   dueDate: string;
   dueLabel: string;
   meetingId: string;
@@ -24,6 +31,7 @@ export type ActionEditorValues = {
   blockedReason: string;
   notes: string;
   mentionUids: string[];
+  customFields: CustomFieldValues;
 };
 
 type ActionEditorProps = {
@@ -31,6 +39,7 @@ type ActionEditorProps = {
   mode: "create" | "edit";
   actionId?: string;
   initialValues: ActionEditorValues;
+  actionWorkflow: ActionWorkflow;
   isArchived?: boolean;
   canArchiveRestore?: boolean;
   actorRoleLabel?: string;
@@ -62,6 +71,7 @@ function mapPayload(values: ActionEditorValues) {
     status: values.status,
     priority: values.priority,
     project: values.project.trim(),
+    teamId: values.teamId.trim(),
     dueAt,
     dueLabel,
     meetingId: values.meetingId.trim(),
@@ -69,6 +79,7 @@ function mapPayload(values: ActionEditorValues) {
     blockedReason: values.blockedReason.trim(),
     notes: values.notes.trim(),
     mentionUids: values.mentionUids,
+    customFields: toCustomFieldPayload(values.customFields),
   };
 }
 
@@ -77,6 +88,7 @@ export function ActionEditor({
   mode,
   actionId,
   initialValues,
+  actionWorkflow,
   isArchived = false,
   canArchiveRestore = true,
   actorRoleLabel = "Member",
@@ -96,6 +108,7 @@ export function ActionEditor({
   }, [isArchived]);
 
   const canSubmit = useMemo(() => values.title.trim().length > 0, [values.title]);
+  const statusCategory = resolveActionState(actionWorkflow, values.status).category;
 
   const isDirty = useMemo(() => {
     if (mode === "create") return true;
@@ -147,12 +160,12 @@ export function ActionEditor({
       return;
     }
 
-    if (values.status === "blocked" && !values.blockedReason.trim()) {
-      setError("Blocked reason is required when status is Blocked.");
+    if (statusCategory === "blocked" && !values.blockedReason.trim()) {
+      setError("Blocked reason is required for blocked statuses.");
       return;
     }
 
-    if (values.dueDate && values.status === "open") {
+    if (values.dueDate && statusCategory === "open") {
       const dueDate = new Date(`${values.dueDate}T00:00:00`);
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -344,7 +357,7 @@ export function ActionEditor({
         />
       </label>
 
-      <div className="grid gap-3 sm:grid-cols-2">
+      <div className="grid gap-3 sm:grid-cols-3">
         <MemberOwnerInput
           workspaceSlug={workspaceSlug}
           value={values.owner}
@@ -356,7 +369,7 @@ export function ActionEditor({
 
         <label className="block space-y-1.5">
           <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
-            Project / Team
+            Project
           </span>
           <input
             value={values.project}
@@ -365,6 +378,13 @@ export function ActionEditor({
             className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900"
           />
         </label>
+
+        <TeamSelect
+          workspaceSlug={workspaceSlug}
+          value={values.teamId}
+          onChange={(teamId) => setValues((prev) => ({ ...prev, teamId }))}
+          disabled={isSubmitting}
+        />
       </div>
 
       <div className="grid gap-3 sm:grid-cols-3">
@@ -377,14 +397,16 @@ export function ActionEditor({
             onChange={(event) =>
               setValues((prev) => ({
                 ...prev,
-                status: event.target.value as ActionStatus,
+                status: event.target.value,
               }))
             }
             className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900"
           >
-            <option value="open">Open</option>
-            <option value="blocked">Blocked</option>
-            <option value="done">Done</option>
+            {actionWorkflow.states.map((state) => (
+              <option key={state.id} value={state.id}>
+                {state.label}
+              </option>
+            ))}
           </select>
         </label>
 
@@ -433,6 +455,14 @@ export function ActionEditor({
         />
       </label>
 
+      <CustomFieldInputs
+        workspaceSlug={workspaceSlug}
+        entityType="action"
+        value={values.customFields}
+        onChange={(customFields) => setValues((prev) => ({ ...prev, customFields }))}
+        disabled={isSubmitting}
+      />
+
       <div className="grid gap-3 sm:grid-cols-2">
         <label className="block space-y-1.5">
           <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
@@ -459,7 +489,7 @@ export function ActionEditor({
         </label>
       </div>
 
-      {values.status === "blocked" ? (
+      {statusCategory === "blocked" ? (
         <label className="block space-y-1.5">
           <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
             Blocked Reason
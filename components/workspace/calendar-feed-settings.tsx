@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+
+type CalendarFeedSettingsProps = {
+  initialFeedUrl: string;
+  timezone: string;
+};
+
+type CalendarFeedResponse = {
+  error?: string;
+  feedUrl?: string;
+};
+
+export function CalendarFeedSettings({ initialFeedUrl, timezone }: CalendarFeedSettingsProps) {
+  const [feedUrl, setFeedUrl] = useState(initialFeedUrl);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function updateFeed(method: "POST" | "DELETE") {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch("/api/profile/calendar-feed", { method });
+      const result = (await response.json().catch(() => null)) as CalendarFeedResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to update calendar feed.");
+      }
+
+      setFeedUrl(result?.feedUrl ?? "");
+      if (method === "DELETE") {
+        setNotice("Calendar feed turned off. Existing subscriptions will stop updating.");
+      } else {
+        setNotice(
+          feedUrl
+            ? "Feed URL rotated. Update any calendars subscribed to the old link."
+            : "Calendar feed created.",
+        );
+      }
+    } catch (updateError) {
+      setError(
+        updateError instanceof Error ? updateError.message : "Failed to update calendar feed.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!feedUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setNotice("Feed URL copied.");
+    } catch {
+      setError("Copy failed. Select the URL and copy it manually.");
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Subscribe from Google Calendar, Outlook, or Apple Calendar to see meetings you attend and
+        due dates for actions you own across every workspace. Times use your profile timezone (
+        {timezone}).
+      </p>
+
+      {feedUrl ? (
+        <input
+          readOnly
+          value={feedUrl}
+          onFocus={(event) => event.currentTarget.select()}
+          className="w-full rounded-sm border border-slate-300 bg-slate-50 px-3 py-2.5 font-mono text-xs text-slate-900"
+        />
+      ) : (
+        <p className="rounded-sm border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+          No calendar feed yet.
+        </p>
+      )}
+
+      <p className="text-xs text-slate-500">
+        Anyone with this URL can read your calendar feed. Rotate it if it has been shared.
+      </p>
+
+      {error ? (
+        <p className="rounded-sm border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {error}
+        </p>
+      ) : null}
+      {notice ? (
+        <p className="rounded-sm border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          {notice}
+        </p>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => void updateFeed("POST")}
+          disabled={isSubmitting}
+          className="rounded-sm bg-[color:var(--accent)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {feedUrl ? "Rotate feed URL" : "Create feed URL"}
+        </button>
+        {feedUrl ? (
+          <>
+            <button
+              type="button"
+              onClick={() => void handleCopy()}
+              className="rounded-sm border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+            >
+              Copy URL
+            </button>
+            <button
+              type="button"
+              onClick={() => void updateFeed("DELETE")}
+              disabled={isSubmitting}
+              className="rounded-sm border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Turn off feed
+            </button>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
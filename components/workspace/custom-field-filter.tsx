@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import type {
+  CustomFieldDefinition,
+  CustomFieldFilter as ActiveCustomFieldFilter,
+  CustomFieldMemberOption,
+} from "@/lib/workspace/custom-fields";
+
+type CustomFieldFilterProps = {
+  fields: CustomFieldDefinition[];
+  members: CustomFieldMemberOption[];
+  activeFilter: ActiveCustomFieldFilter | null;
+};
+
+const controlClassName =
+  "rounded-sm border border-slate-300 bg-white px-2 py-1.5 text-xs text-slate-800";
+
+export function CustomFieldFilter({ fields, members, activeFilter }: CustomFieldFilterProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [fieldId, setFieldId] = useState(activeFilter?.fieldId ?? "");
+  const [value, setValue] = useState(activeFilter?.value ?? "");
+
+  if (fields.length === 0 && !activeFilter) return null;
+
+  const selectedField = fields.find((field) => field.id === fieldId) ?? null;
+
+  // Like the team filter, custom field filters run on the server, so apply
+  // them by navigating with the other params from the live URL.
+  function applyFilter(nextFieldId: string, nextValue: string) {
+    const params = new URLSearchParams(window.location.search);
+    if (nextFieldId) {
+      params.set("field", nextFieldId);
+      if (nextValue) params.set("value", nextValue);
+      else params.delete("value");
+    } else {
+      params.delete("field");
+      params.delete("value");
+    }
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  }
+
+  let valueControl = null;
+  if (selectedField?.type === "select" || selectedField?.type === "multiSelect") {
+    valueControl = (
+      <select value={value} onChange={(event) => setValue(event.target.value)} className={controlClassName}>
+        <option value="">Any value</option>
+        {selectedField.options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (selectedField?.type === "member") {
+    valueControl = (
+      <select value={value} onChange={(event) => setValue(event.target.value)} className={controlClassName}>
+        <option value="">Any member</option>
+        {members.map((member) => (
+          <option key={member.uid} value={member.uid}>
+            {member.name}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (selectedField) {
+    valueControl = (
+      <input
+        type={
+          selectedField.type === "number" ? "number" : selectedField.type === "date" ? "date" : "text"
+        }
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        placeholder="Any value"
+        className={controlClassName}
+      />
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold tracking-[0.08em] text-slate-500">FIELD</span>
+      <select
+        value={fieldId}
+        onChange={(event) => {
+          setFieldId(event.target.value);
+          setValue("");
+        }}
+        className={controlClassName}
+      >
+        <option value="">Choose a field</option>
+        {fields.map((field) => (
+          <option key={field.id} value={field.id}>
+            {field.label}
+          </option>
+        ))}
+        {activeFilter && !fields.some((field) => field.id === activeFilter.fieldId) ? (
+          <option value={activeFilter.fieldId}>Unknown field</option>
+        ) : null}
+      </select>
+      {valueControl}
+      <button
+        type="button"
+        onClick={() => applyFilter(fieldId, value.trim())}
+        disabled={!fieldId}
+        className="rounded-sm border border-slate-300 bg-slate-50 px-3 py-1.5 text-xs font-semibold tracking-[0.08em] text-slate-700 transition hover:border-slate-400 hover:bg-white hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Apply
+      </button>
+      {activeFilter ? (
+        <button
+          type="button"
+          onClick={() => {
+            setFieldId("");
+            setValue("");
+            applyFilter("", "");
+          }}
+          className="rounded-sm border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold tracking-[0.08em] text-amber-700"
+        >
+          Clear field filter
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type {
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldValue,
+  CustomFieldValues,
+} from "@/lib/workspace/custom-fields";
+
+type CustomFieldsResponse = {
+  error?: string;
+  fields?: CustomFieldDefinition[];
+};
+
+type MemberOption = {
+  uid: string;
+  displayName: string;
+  email: string;
+  status: string;
+};
+
+type MembersResponse = {
+  error?: string;
+  members?: MemberOption[];
+};
+
+type CustomFieldInputsProps = {
+  workspaceSlug: string;
+  entityType: CustomFieldEntityType;
+  value: CustomFieldValues;
+  onChange: (value: CustomFieldValues) => void;
+  disabled?: boolean;
+};
+
+const inputClassName =
+  "w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500";
+
+// Empty inputs are dropped so the server treats them as cleared.
+export function toCustomFieldPayload(values: CustomFieldValues): CustomFieldValues {
+  const payload: CustomFieldValues = {};
+  Object.entries(values).forEach(([fieldId, value]) => {
+    if (Array.isArray(value)) {
+      if (value.length > 0) payload[fieldId] = value;
+    } else if (typeof value === "number") {
+      payload[fieldId] = value;
+    } else if (value.trim()) {
+      payload[fieldId] = value.trim();
+    }
+  });
+  return payload;
+}
+
+function toggleOption(values: string[], option: string) {
+  return values.includes(option) ? values.filter((entry) => entry !== option) : [...values, option];
+}
+
+export function CustomFieldInputs({
+  workspaceSlug,
+  entityType,
+  value,
+  onChange,
+  disabled = false,
+}: CustomFieldInputsProps) {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadFields() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const basePath = `/api/workspaces/${encodeURIComponent(workspaceSlug)}`;
+        const response = await fetch(`${basePath}/custom-fields`);
+        const result = (await response.json().catch(() => null)) as CustomFieldsResponse | null;
+
+        if (!response.ok) {
+          throw new Error(result?.error ?? "Failed to load custom fields.");
+        }
+
+        const nextFields = (result?.fields ?? []).filter(
+          (field) => !field.archived && field.appliesTo.includes(entityType),
+        );
+        setFields(nextFields);
+
+        if (nextFields.some((field) => field.type === "member")) {
+          const membersResponse = await fetch(`${basePath}/members`);
+          const membersResult = (await membersResponse.json().catch(() => null)) as
+            | MembersResponse
+            | null;
+          if (!membersResponse.ok) {
+            throw new Error(membersResult?.error ?? "Failed to load workspace members.");
+          }
+          setMembers((membersResult?.members ?? []).filter((member) => member.status !== "removed"));
+        }
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : "Failed to load custom fields.");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    void loadFields();
+  }, [entityType, workspaceSlug]);
+
+  const memberOptions = useMemo(
+    () =>
+      members
+        .map((member) => ({ uid: member.uid, name: member.displayName || member.email || member.uid }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [members],
+  );
+
+  if (isLoading) {
+    return <p className="text-xs text-slate-500">Loading custom fields...</p>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-rose-700">{error}</p>;
+  }
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  function setFieldValue(fieldId: string, next: CustomFieldValue) {
+    onChange({ ...value, [fieldId]: next });
+  }
+
+  return (
+    <fieldset className="space-y-3 rounded-sm border border-slate-200 px-3 py-3">
+      <legend className="px-1 text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+        Custom fields
+      </legend>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {fields.map((field) => {
+          const current = value[field.id];
+          const textValue =
+            typeof current === "string" || typeof current === "number" ? String(current) : "";
+          const listValue = Array.isArray(current) ? current : [];
+          const label = `${field.label}${field.required ? " *" : ""}`;
+
+          if (field.type === "multiSelect") {
+            const options = Array.from(new Set([...field.options, ...listValue]));
+            return (
+              <div key={field.id} className="space-y-1.5">
+                <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+                  {label}
+                </span>
+                <div className="flex flex-wrap gap-x-4 gap-y-1.5 text-sm text-slate-700">
+                  {options.map((option) => (
+                    <label key={`${field.id}-${option}`} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={listValue.includes(option)}
+                        disabled={disabled}
+                        onChange={() => setFieldValue(field.id, toggleOption(listValue, option))}
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+                {field.description ? (
+                  <span className="text-xs text-slate-500">{field.description}</span>
+                ) : null}
+              </div>
+            );
+          }
+
+          let control;
+          if (field.type === "select" || field.type === "member") {
+            // Keep a stored value that is no longer offered selectable so saving
+            // does not silently clear it.
+            const options =
+              field.type === "select"
+                ? field.options.map((option) => ({ value: option, label: option }))
+                : memberOptions.map((member) => ({ value: member.uid, label: member.name }));
+            if (textValue && !options.some((option) => option.value === textValue)) {
+              options.push({ value: textValue, label: textValue });
+            }
+            control = (
+              <select
+                value={textValue}
+                onChange={(event) => setFieldValue(field.id, event.target.value)}
+                disabled={disabled}
+                className={inputClassName}
+              >
+                <option value="">Not set</option>
+                {options.map((option) => (
+                  <option key={`${field.id}-${option.value}`} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            );
+          } else {
+            control = (
+              <input
+                type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+                step={field.type === "number" ? "any" : undefined}
+                value={textValue}
+                onChange={(event) => setFieldValue(field.id, event.target.value)}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            );
+          }
+
+          return (
+            <label key={field.id} className="block space-y-1.5">
+              <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+                {label}
+              </span>
+              {control}
+              {field.description ? (
+                <span className="text-xs text-slate-500">{field.description}</span>
+              ) : null}
+            </label>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+}
@@ -4,8 +4,14 @@ import Link from "next/link";
 import { FormEvent, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { emitEntityHistoryEvent } from "@/lib/workspace/history-client-events";
+import type { CustomFieldValues } from "@/lib/workspace/custom-fields";
+import {
+  CustomFieldInputs,
+  toCustomFieldPayload,
+} from "@/components/workspace/custom-field-inputs";
 import { MemberMentionPicker } from "@/components/workspace/member-mention-picker";
 import { MemberOwnerInput } from "@/components/workspace/member-owner-input";
+import { TeamSelect } from "@/components/workspace/team-select";
 
 type DecisionStatus = "proposed" | "accepted" | "superseded" | "rejected";
 type DecisionVisibility = "workspace" | "team" | "private";
@@ -17,12 +23,13 @@ export type DecisionEditorValues = {
   owner: string;
   status: DecisionStatus;
   visibility: DecisionVisibility;
-  teamLabel: string;
+  teamId: string;
   tags: string[];
   meetingId: string;
   supersedesDecisionId: string;
   supersededByDecisionId: string;
   mentionUids: string[];
+  customFields: CustomFieldValues;
 };
 
 type DecisionEditorProps = {
@@ -64,12 +71,13 @@ function mapValuesToFormState(values: DecisionEditorValues): DecisionFormState {
     owner: values.owner,
     status: values.status,
     visibility: values.visibility,
-    teamLabel: values.teamLabel,
+    teamId: values.teamId,
     tagsInput: values.tags.join(", "),
     meetingId: values.meetingId,
     supersedesDecisionId: values.supersedesDecisionId,
     supersededByDecisionId: values.supersededByDecisionId,
     mentionUids: values.mentionUids,
+    customFields: values.customFields,
   };
 }
 
@@ -81,12 +89,13 @@ function mapFormStateToPayload(values: DecisionFormState): DecisionEditorValues
     owner: values.owner.trim(),
     status: values.status,
     visibility: values.visibility,
-    teamLabel: values.teamLabel.trim(),
+    teamId: values.teamId.trim(),
     tags: parseTags(values.tagsInput),
     meetingId: values.meetingId.trim(),
     supersedesDecisionId: values.supersedesDecisionId.trim(),
     supersededByDecisionId: values.supersededByDecisionId.trim(),
     mentionUids: values.mentionUids,
+    customFields: toCustomFieldPayload(values.customFields),
   };
 }
 
@@ -172,8 +181,8 @@ export function DecisionEditor({
     }
 
     const payload = mapFormStateToPayload(formState);
-    if (payload.visibility === "team" && !payload.teamLabel) {
-      setError("Team label is required when visibility is set to Team.");
+    if (payload.visibility === "team" && !payload.teamId) {
+      setError("Choose a team when visibility is set to Team.");
       return;
     }
 
@@ -442,19 +451,13 @@ export function DecisionEditor({
           </select>
         </label>
 
-        <label className="block space-y-1.5">
-          <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
-            Team Label (if team visibility)
-          </span>
-          <input
-            value={formState.teamLabel}
-            onChange={(event) =>
-              setFormState((prev) => ({ ...prev, teamLabel: event.target.value }))
-            }
-            placeholder="Product"
-            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900"
-          />
-        </label>
+        <TeamSelect
+          workspaceSlug={workspaceSlug}
+          value={formState.teamId}
+          onChange={(teamId) => setFormState((prev) => ({ ...prev, teamId }))}
+          disabled={isSubmitting}
+          label="Team (required for team visibility)"
+        />
       </div>
 
       <label className="block space-y-1.5">
@@ -471,6 +474,14 @@ export function DecisionEditor({
         />
       </label>
 
+      <CustomFieldInputs
+        workspaceSlug={workspaceSlug}
+        entityType="decision"
+        value={formState.customFields}
+        onChange={(customFields) => setFormState((prev) => ({ ...prev, customFields }))}
+        disabled={isSubmitting}
+      />
+
       <div className="grid gap-3 sm:grid-cols-3">
         <label className="block space-y-1.5">
           <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
@@ -0,0 +1,158 @@
+import Link from "next/link";
+import { WorkspacePanel } from "@/components/workspace/primitives";
+import {
+  type DecisionLineage,
+  type DecisionLineageIssueType,
+  type DecisionLineageStatus,
+} from "@/lib/workspace/decision-lineage";
+
+type DecisionLineageTimelineProps = {
+  workspaceSlug: string;
+  lineage: DecisionLineage;
+};
+
+function statusStyle(status: DecisionLineageStatus) {
+  if (status === "accepted") return "border-sky-300 bg-white text-sky-700";
+  if (status === "proposed") return "border-slate-300 bg-white text-slate-700";
+  if (status === "superseded") return "border-violet-300 bg-white text-violet-700";
+  return "border-rose-300 bg-white text-rose-700";
+}
+
+function statusLabel(status: DecisionLineageStatus) {
+  return status[0].toUpperCase() + status.slice(1);
+}
+
+function issueLabel(type: DecisionLineageIssueType) {
+  if (type === "cycle") return "Cycle";
+  if (type === "dangling") return "Missing Link";
+  return "Mismatched Link";
+}
+
+function formatDateLabel(value: string | null) {
+  if (!value) return "";
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function DecisionLineageTimeline({ workspaceSlug, lineage }: DecisionLineageTimelineProps) {
+  const hasLineage = lineage.chain.length > 1;
+
+  return (
+    <WorkspacePanel>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold tracking-tight text-slate-900">Decision Lineage</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            How this decision evolved through supersession, oldest first.
+          </p>
+        </div>
+        <span className="text-sm text-slate-600">
+          {lineage.chain.length} version{lineage.chain.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      {lineage.issues.length > 0 ? (
+        <ul className="mt-4 space-y-2">
+          {lineage.issues.map((issue) => (
+            <li
+              key={`${issue.type}-${issue.decisionId}-${issue.referenceId}`}
+              className="flex flex-wrap items-start gap-2 rounded-sm border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800"
+            >
+              <span className="rounded-sm border border-amber-300 bg-white px-2 py-0.5 text-[11px] font-semibold tracking-[0.08em] text-amber-700">
+                {issueLabel(issue.type)}
+              </span>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {!hasLineage ? (
+        <p className="mt-4 rounded-sm border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+          This decision does not supersede, and has not been superseded by, another decision.
+        </p>
+      ) : (
+        <ol className="mt-5 space-y-3 border-l-2 border-slate-200 pl-5">
+          {lineage.chain.map((node) => {
+            const isFocus = node.id === lineage.decisionId;
+            const isInForce = node.id === lineage.inForceDecisionId;
+            const createdLabel = formatDateLabel(node.createdAt);
+            const supersededLabel = formatDateLabel(node.supersededAt);
+
+            return (
+              <li key={node.id} className="relative">
+                <span
+                  className={`absolute -left-[27px] top-4 h-3 w-3 rounded-full border-2 ${
+                    isInForce
+                      ? "border-emerald-500 bg-emerald-400"
+                      : "border-slate-300 bg-white"
+                  }`}
+                />
+                <article
+                  className={`rounded-lg border px-4 py-3 ${
+                    isFocus ? "border-[color:var(--accent)] bg-white shadow-sm" : "border-slate-200 bg-white"
+                  }`}
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      {isFocus || node.restricted ? (
+                        <p className="text-sm font-semibold text-slate-900">{node.title}</p>
+                      ) : (
+                        <Link
+                          href={`/${workspaceSlug}/decisions/${node.id}`}
+                          className="text-sm font-semibold text-slate-900 hover:underline"
+                        >
+                          {node.title}
+                        </Link>
+                      )}
+                      <p className="mt-1 text-xs text-slate-600">
+                        {node.id}
+                        {node.owner ? ` • ${node.owner}` : ""}
+                        {createdLabel ? ` • Created ${createdLabel}` : ""}
+                        {supersededLabel ? ` • Superseded ${supersededLabel}` : ""}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold tracking-[0.08em]">
+                      {isInForce ? (
+                        <span className="rounded-sm border border-emerald-300 bg-emerald-50 px-2 py-1 text-emerald-700">
+                          In Force
+                        </span>
+                      ) : null}
+                      {isFocus ? (
+                        <span className="rounded-sm border border-slate-300 bg-slate-100 px-2 py-1 text-slate-700">
+                          Viewing
+                        </span>
+                      ) : null}
+                      {node.restricted ? (
+                        <span className="rounded-sm border border-slate-300 bg-slate-100 px-2 py-1 text-slate-700">
+                          Restricted
+                        </span>
+                      ) : null}
+                      {node.archived ? (
+                        <span className="rounded-sm border border-amber-300 bg-white px-2 py-1 text-amber-700">
+                          Archived
+                        </span>
+                      ) : null}
+                      <span className={`rounded-sm border px-2 py-1 ${statusStyle(node.status)}`}>
+                        {statusLabel(node.status)}
+                      </span>
+                    </div>
+                  </div>
+                </article>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasLineage && !lineage.inForceDecisionId ? (
+        <p className="mt-4 text-xs text-slate-500">
+          No accepted, unarchived version in this lineage is currently in force.
+        </p>
+      ) : null}
+    </WorkspacePanel>
+  );
+}
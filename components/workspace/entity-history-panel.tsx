@@ -6,7 +6,15 @@ import {
   ENTITY_HISTORY_EVENT_NAME,
   type ClientEntityHistoryEventDetail,
 } from "@/lib/workspace/history-client-events";
-import { type CanonicalEntityType, type CanonicalHistoryEventType, type CanonicalHistorySource } from "@/lib/workspace/history-types";
+import {
+  historyEventTypeLabel,
+  historyEventTypeStyle,
+  historySourceLabel,
+  type CanonicalEntityType,
+  type HistoryFieldChange,
+  type CanonicalHistoryEventType,
+  type CanonicalHistorySource,
+} from "@/lib/workspace/history-types";
 
 export type EntityHistoryItem = {
   id: string;
@@ -15,6 +23,7 @@ export type EntityHistoryItem = {
   eventType: CanonicalHistoryEventType;
   source: CanonicalHistorySource;
   atLabel: string;
+  changes?: HistoryFieldChange[];
 };
 
 type EntityHistoryPanelProps = {
@@ -25,24 +34,6 @@ type EntityHistoryPanelProps = {
   entries: EntityHistoryItem[];
 };
 
-function eventTypeLabel(eventType: CanonicalHistoryEventType) {
-  if (eventType === "created") return "Created";
-  if (eventType === "updated") return "Updated";
-  if (eventType === "archived") return "Archived";
-  return "Restored";
-}
-
-function eventTypeStyle(eventType: CanonicalHistoryEventType) {
-  if (eventType === "created") return "border-emerald-200 bg-emerald-50 text-emerald-700";
-  if (eventType === "updated") return "border-cyan-200 bg-cyan-50 text-cyan-700";
-  if (eventType === "archived") return "border-amber-200 bg-amber-50 text-amber-700";
-  return "border-violet-200 bg-violet-50 text-violet-700";
-}
-
-function sourceLabel(source: CanonicalHistorySource) {
-  return source === "meetingSync" ? "Meeting Sync" : "Manual";
-}
-
 export function EntityHistoryPanel({
   title,
   emptyLabel,
@@ -96,15 +87,37 @@ export function EntityHistoryPanel({
             >
               <div className="flex flex-wrap items-center gap-2">
                 <span
-                  className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${eventTypeStyle(entry.eventType)}`}
+                  className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${historyEventTypeStyle(entry.eventType)}`}
                 >
-                  {eventTypeLabel(entry.eventType)}
+                  {historyEventTypeLabel(entry.eventType)}
                 </span>
                 <span className="rounded-sm border border-slate-200 bg-slate-100 px-2 py-1 text-[11px] font-semibold tracking-[0.08em] text-slate-700">
-                  {sourceLabel(entry.source)}
+                  {historySourceLabel(entry.source)}
                 </span>
               </div>
               <p className="mt-2 text-sm text-slate-900">{entry.message}</p>
+              {entry.changes && entry.changes.length > 0 ? (
+                <dl className="mt-2 space-y-1.5 border-l-2 border-slate-200 pl-3 text-xs">
+                  {entry.changes.map((change) => (
+                    <div key={`${entry.id}-${change.field}`}>
+                      <dt className="font-semibold tracking-[0.08em] text-slate-600">
+                        {change.label}
+                      </dt>
+                      <dd className="mt-0.5 flex flex-wrap items-baseline gap-1.5 break-words">
+                        <span className="rounded-sm bg-rose-50 px-1 text-rose-700 line-through">
+                          {change.before || "(empty)"}
+                        </span>
+                        <span className="text-slate-400" aria-hidden>
+                          →
+                        </span>
+                        <span className="rounded-sm bg-emerald-50 px-1 text-emerald-700">
+                          {change.after || "(empty)"}
+                        </span>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              ) : null}
               <p className="mt-1 text-xs text-slate-600">
                 {entry.actorName} • {entry.atLabel}
               </p>
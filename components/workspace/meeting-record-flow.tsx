@@ -3,13 +3,18 @@
 import Link from "next/link";
 import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { SummaryTile, WorkspacePanel } from "@/components/workspace/primitives";
+import {
+  getDefaultActionState,
+  resolveActionState,
+  type ActionStatusCategory,
+  type ActionWorkflow,
+} from "@/lib/workspace/action-workflow";
 
 type MeetingState = "scheduled" | "inProgress" | "completed";
 type DigestState = "pending" | "sent";
 type AgendaState = "queued" | "inProgress" | "done";
 type QuestionStatus = "open" | "resolved";
 type DecisionStatus = "proposed" | "accepted";
-type ActionStatus = "open" | "blocked" | "done";
 type ActionPriority = "high" | "medium" | "low";
 
 type Attendee = {
@@ -54,7 +59,8 @@ type Action = {
   owner: string;
   dueLabel: string;
   priority: ActionPriority;
-  status: ActionStatus;
+  // A workflow state id; labels and categories come from the workspace workflow.
+  status: string;
 };
 
 type DigestRecipient = {
@@ -63,6 +69,16 @@ type DigestRecipient = {
   enabled: boolean;
 };
 
+type DigestDeliveryStatus = "sent" | "skipped" | "failed";
+
+type DigestDelivery = {
+  recipientId: string;
+  label: string;
+  email: string;
+  status: DigestDeliveryStatus;
+  error: string;
+};
+
 export type MeetingRecordSeed = {
   id: string;
   title: string;
@@ -84,6 +100,7 @@ export type MeetingRecordSeed = {
   decisions: Decision[];
   actions: Action[];
   digestRecipients: DigestRecipient[];
+  digestDeliveries?: DigestDelivery[];
   digestOptions?: {
     includeNotes?: boolean;
     includeOpenQuestions?: boolean;
@@ -94,6 +111,7 @@ export type MeetingRecordSeed = {
 type MeetingRecordFlowProps = {
   workspaceSlug: string;
   meeting: MeetingRecordSeed;
+  actionWorkflow: ActionWorkflow;
 };
 
 type PersistMeetingResponse = {
@@ -102,6 +120,19 @@ type PersistMeetingResponse = {
     revision?: number;
     lastSentLabel?: string;
   };
+  nextOccurrenceMeetingId?: string;
+};
+
+type SendDigestResponse = {
+  error?: string;
+  digest?: DigestState;
+  lastSentLabel?: string;
+  deliveries?: DigestDelivery[];
+  summary?: {
+    sent?: number;
+    skipped?: number;
+    failed?: number;
+  };
 };
 
 type PendingRemoval =
@@ -163,12 +194,18 @@ function nextAgendaState(state: AgendaState): AgendaState {
   return "queued";
 }
 
+function digestDeliveryStyle(status: DigestDeliveryStatus) {
+  if (status === "sent") return "border-emerald-200 bg-emerald-50 text-emerald-700";
+  if (status === "failed") return "border-rose-200 bg-rose-50 text-rose-700";
+  return "border-slate-200 bg-slate-100 text-slate-700";
+}
+
 function decisionStyle(state: DecisionStatus) {
   if (state === "accepted") return "border-cyan-200 bg-cyan-50 text-cyan-700";
   return "border-slate-200 bg-slate-100 text-slate-700";
 }
 
-function actionStatusStyle(state: ActionStatus) {
+function actionStatusStyle(state: ActionStatusCategory) {
   if (state === "open") return "border-cyan-200 bg-cyan-50 text-cyan-700";
   if (state === "blocked") return "border-rose-200 bg-rose-50 text-rose-700";
   return "border-emerald-200 bg-emerald-50 text-emerald-700";
@@ -200,11 +237,19 @@ function createInlineId(prefix: "D" | "A") {
   return `${prefix}-${timestamp}${random}`;
 }
 
-export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowProps) {
+export function MeetingRecordFlow({
+  workspaceSlug,
+  meeting,
+  actionWorkflow,
+}: MeetingRecordFlowProps) {
   const [locked, setLocked] = useState(meeting.locked);
   const [revision, setRevision] = useState(meeting.revision);
   const [digestState, setDigestState] = useState<DigestState>(meeting.digest);
   const [lastSentLabel, setLastSentLabel] = useState(meeting.lastSentLabel ?? "Not sent yet");
+  const [digestDeliveries, setDigestDeliveries] = useState<DigestDelivery[]>(
+    meeting.digestDeliveries ?? [],
+  );
+  const [isSendingDigest, setIsSendingDigest] = useState(false);
   const [activityNotice, setActivityNotice] = useState<string | null>(null);
   const [agenda, setAgenda] = useState<AgendaItem[]>(meeting.agenda);
   const [notes, setNotes] = useState<NoteSection[]>(meeting.notes);
@@ -250,8 +295,16 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
 
   const presentCount = attendees.filter((attendee) => attendee.present).length;
   const openQuestionCount = openQuestions.filter((question) => question.status === "open").length;
-  const openActionCount = actions.filter((action) => action.status !== "done").length;
+  const isActionClosed = useCallback(
+    (action: Action) => resolveActionState(actionWorkflow, action.status).category === "closed",
+    [actionWorkflow],
+  );
+  const openActionCount = actions.filter((action) => !isActionClosed(action)).length;
   const enabledRecipients = digestRecipients.filter((recipient) => recipient.enabled).length;
+  const deliveriesByRecipientId = useMemo(
+    () => new Map(digestDeliveries.map((delivery) => [delivery.recipientId, delivery])),
+    [digestDeliveries],
+  );
   const pendingRemovalCount = pendingRemovals.length;
   const saveStatusLabel = saveError
     ? `Sync failed: ${saveError}`
@@ -279,7 +332,7 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
     }));
 
     const previewActions = actions
-      .filter((action) => action.status !== "done")
+      .filter((action) => !isActionClosed(action))
       .slice(0, 4)
       .map((action) => ({
         id: action.id,
@@ -303,7 +356,15 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
       previewActions,
       previewQuestions,
     };
-  }, [actions, decisions, includeNotes, includeOpenQuestions, notes, openQuestions]);
+  }, [
+    actions,
+    decisions,
+    includeNotes,
+    includeOpenQuestions,
+    isActionClosed,
+    notes,
+    openQuestions,
+  ]);
 
   const persistedMeeting = useMemo(
     () => ({
@@ -358,6 +419,8 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
     ],
   );
 
+  // Resolves to whether the save succeeded, so callers can stop before work
+  // that depends on the saved record.
   const persistMeetingRecord = useCallback(async () => {
     const requestId = saveRequestRef.current + 1;
     saveRequestRef.current = requestId;
@@ -399,6 +462,13 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
           setLastSentLabel(sentLabelFromServer);
         }
 
+        const nextOccurrenceMeetingId = result?.nextOccurrenceMeetingId?.trim();
+        if (nextOccurrenceMeetingId) {
+          setActivityNotice(
+            `Created next occurrence ${nextOccurrenceMeetingId} with open items carried over.`,
+          );
+        }
+
         setLastSavedAt(
           new Date().toLocaleTimeString("en-US", {
             hour: "numeric",
@@ -406,12 +476,14 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
           }),
         );
       }
+      return true;
     } catch (error) {
       if (requestId === saveRequestRef.current) {
         setSaveError(
           error instanceof Error ? error.message : "Failed to save meeting record.",
         );
       }
+      return false;
     } finally {
       if (requestId === saveRequestRef.current) {
         setIsSaving(false);
@@ -461,16 +533,61 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
     );
   }
 
-  function handleSendDigestPreview() {
+  async function handleSendDigest() {
     if (enabledRecipients === 0) {
-      setActivityNotice("Select at least one recipient before marking digest as sent.");
+      setActivityNotice("Select at least one recipient before sending the digest.");
       return;
     }
 
-    setDigestState("sent");
-    setLastSentLabel("Moments ago");
-    setRevision((value) => value + 1);
-    setActivityNotice("Digest status updated to sent.");
+    if (pendingRemovals.length > 0) {
+      setActivityNotice("Wait for pending removals to sync before sending the digest.");
+      return;
+    }
+
+    setIsSendingDigest(true);
+
+    try {
+      // Flush local edits first so the server renders the digest from the latest record.
+      const saved = await persistMeetingRecord();
+      if (!saved) {
+        throw new Error("The meeting record could not be saved, so the digest was not sent.");
+      }
+
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/meetings/${encodeURIComponent(meeting.id)}/digest`,
+        { method: "POST" },
+      );
+      const result = (await response.json().catch(() => null)) as SendDigestResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to send meeting digest.");
+      }
+
+      if (result?.digest) {
+        setDigestState(result.digest);
+      }
+      if (result?.lastSentLabel) {
+        setLastSentLabel(result.lastSentLabel);
+      }
+      setDigestDeliveries(result?.deliveries ?? []);
+
+      const sent = result?.summary?.sent ?? 0;
+      const skipped = result?.summary?.skipped ?? 0;
+      const failed = result?.summary?.failed ?? 0;
+      setActivityNotice(
+        sent > 0
+          ? `Digest sent to ${sent} recipient${sent === 1 ? "" : "s"}${
+              skipped + failed > 0 ? ` (${skipped} skipped, ${failed} failed)` : ""
+            }.`
+          : `Digest was not delivered (${skipped} skipped, ${failed} failed).`,
+      );
+    } catch (error) {
+      setActivityNotice(
+        error instanceof Error ? error.message : "Failed to send meeting digest.",
+      );
+    } finally {
+      setIsSendingDigest(false);
+    }
   }
 
   function handleDecisionSubmit(event: FormEvent<HTMLFormElement>) {
@@ -607,7 +724,7 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
       owner: actionDraft.owner.trim() || meeting.owner,
       dueLabel: actionDraft.dueLabel.trim() || "No due date",
       priority: actionDraft.priority,
-      status: "open",
+      status: getDefaultActionState(actionWorkflow).id,
     };
 
     setActions((prev) => [newAction, ...prev]);
@@ -1012,39 +1129,42 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
             </div>
 
             <div className="space-y-2">
-              {actions.map((action) => (
-                <article key={action.id} className="rounded-sm border border-slate-200 bg-white px-3 py-3">
-                  <div className="flex flex-wrap items-start justify-between gap-3">
-                    <div>
-                      <p className="text-sm font-semibold text-slate-900">{action.title}</p>
-                      <p className="mt-1 text-xs text-slate-600">
-                        {action.id} • Owner {action.owner} • Due {action.dueLabel}
-                      </p>
-                    </div>
-                    <div className="flex flex-wrap items-center gap-2">
-                      <span className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${actionStatusStyle(action.status)}`}>
-                        {titleCase(action.status)}
-                      </span>
-                      <span className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${actionPriorityStyle(action.priority)}`}>
-                        {titleCase(action.priority)}
-                      </span>
-                      <Link
-                        href={`/${workspaceSlug}/actions/${action.id}`}
-                        className="rounded-sm border border-slate-300 bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
-                      >
-                        Open
-                      </Link>
-                      <button
-                        type="button"
-                        onClick={() => handleActionRemove(action.id)}
-                        className="rounded-sm border border-rose-300 bg-rose-50 px-2.5 py-1 text-[11px] font-semibold text-rose-700 transition hover:border-rose-400 hover:bg-rose-100"
-                      >
-                        Remove
-                      </button>
+              {actions.map((action) => {
+                const actionState = resolveActionState(actionWorkflow, action.status);
+                return (
+                  <article key={action.id} className="rounded-sm border border-slate-200 bg-white px-3 py-3">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-semibold text-slate-900">{action.title}</p>
+                        <p className="mt-1 text-xs text-slate-600">
+                          {action.id} • Owner {action.owner} • Due {action.dueLabel}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${actionStatusStyle(actionState.category)}`}>
+                          {actionState.label}
+                        </span>
+                        <span className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${actionPriorityStyle(action.priority)}`}>
+                          {titleCase(action.priority)}
+                        </span>
+                        <Link
+                          href={`/${workspaceSlug}/actions/${action.id}`}
+                          className="rounded-sm border border-slate-300 bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+                        >
+                          Open
+                        </Link>
+                        <button
+                          type="button"
+                          onClick={() => handleActionRemove(action.id)}
+                          className="rounded-sm border border-rose-300 bg-rose-50 px-2.5 py-1 text-[11px] font-semibold text-rose-700 transition hover:border-rose-400 hover:bg-rose-100"
+                        >
+                          Remove
+                        </button>
+                      </div>
                     </div>
-                  </div>
-                </article>
-              ))}
+                  </article>
+                );
+              })}
             </div>
 
             <form className="mt-4 grid gap-2 rounded-sm border border-slate-200 bg-slate-50 p-3" onSubmit={handleActionSubmit}>
@@ -1149,28 +1269,45 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
             </p>
 
             <div className="mt-4 space-y-2">
-              {digestRecipients.map((recipient) => (
-                <label
-                  key={recipient.id}
-                  className="flex items-center justify-between gap-3 rounded-sm border border-slate-200 bg-white px-3 py-2.5"
-                >
-                  <span className="text-sm text-slate-700">{recipient.label}</span>
-                  <input
-                    type="checkbox"
-                    checked={recipient.enabled}
-                    onChange={(event) =>
-                      setDigestRecipients((prev) =>
-                        prev.map((current) =>
-                          current.id === recipient.id
-                            ? { ...current, enabled: event.target.checked }
-                            : current,
-                        ),
-                      )
-                    }
-                    className="h-4 w-4 rounded-sm border-slate-300"
-                  />
-                </label>
-              ))}
+              {digestRecipients.map((recipient) => {
+                const delivery = deliveriesByRecipientId.get(recipient.id);
+
+                return (
+                  <label
+                    key={recipient.id}
+                    className="flex items-center justify-between gap-3 rounded-sm border border-slate-200 bg-white px-3 py-2.5"
+                  >
+                    <span className="flex min-w-0 flex-wrap items-center gap-2 text-sm text-slate-700">
+                      {recipient.label}
+                      {delivery ? (
+                        <span
+                          title={delivery.error || delivery.email || undefined}
+                          className={cx(
+                            "rounded-sm border px-2 py-0.5 text-[11px] font-semibold tracking-[0.08em]",
+                            digestDeliveryStyle(delivery.status),
+                          )}
+                        >
+                          {titleCase(delivery.status)}
+                        </span>
+                      ) : null}
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={recipient.enabled}
+                      onChange={(event) =>
+                        setDigestRecipients((prev) =>
+                          prev.map((current) =>
+                            current.id === recipient.id
+                              ? { ...current, enabled: event.target.checked }
+                              : current,
+                          ),
+                        )
+                      }
+                      className="h-4 w-4 rounded-sm border-slate-300"
+                    />
+                  </label>
+                );
+              })}
             </div>
 
             <div className="mt-4 space-y-2 rounded-sm border border-slate-200 bg-slate-50 p-3">
@@ -1260,10 +1397,11 @@ export function MeetingRecordFlow({ workspaceSlug, meeting }: MeetingRecordFlowP
             <div className="mt-4 flex flex-wrap items-center gap-2">
               <button
                 type="button"
-                onClick={handleSendDigestPreview}
-                className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)]"
+                onClick={() => void handleSendDigest()}
+                disabled={isSendingDigest}
+                className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
               >
-                Mark digest sent
+                {isSendingDigest ? "Sending digest..." : "Send digest"}
               </button>
               <span className="text-xs text-slate-600">
                 Recipients selected: {enabledRecipients}
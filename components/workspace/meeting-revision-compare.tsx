@@ -0,0 +1,285 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import {
+  MEETING_RESTORE_SECTION_LABELS,
+  MEETING_RESTORE_SECTIONS,
+  type MeetingRestoreSection,
+  type MeetingRevisionSections,
+} from "@/lib/workspace/meeting-revisions";
+
+type CompareRevision = {
+  id: string;
+  meetingRevision: number;
+  capturedAtLabel: string;
+  isCurrent: boolean;
+  sections: MeetingRevisionSections;
+};
+
+type MeetingRevisionCompareProps = {
+  workspaceSlug: string;
+  meetingId: string;
+  revisions: CompareRevision[];
+  canRestoreRevisions: boolean;
+};
+
+type RestoreResponse = {
+  error?: string;
+  meeting?: {
+    revision?: number;
+  };
+};
+
+function revisionOptionLabel(revision: CompareRevision) {
+  return `Revision ${revision.meetingRevision}${revision.isCurrent ? " (current)" : ""} • ${revision.capturedAtLabel}`;
+}
+
+function areLinesEqual(left: string[], right: string[]) {
+  return left.length === right.length && left.every((line, index) => line === right[index]);
+}
+
+function CompareColumn({
+  lines,
+  otherLines,
+  tone,
+}: {
+  lines: string[];
+  otherLines: string[];
+  tone: "removed" | "added";
+}) {
+  const otherSet = new Set(otherLines);
+
+  if (lines.length === 0) {
+    return <p className="text-xs italic text-slate-500">Empty</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {lines.map((line, index) => (
+        <li
+          key={`${index}-${line}`}
+          className={`break-words rounded-sm px-1.5 py-0.5 text-xs ${
+            otherSet.has(line)
+              ? "text-slate-700"
+              : tone === "removed"
+                ? "bg-rose-50 text-rose-700"
+                : "bg-emerald-50 text-emerald-700"
+          }`}
+        >
+          {line}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function MeetingRevisionCompare({
+  workspaceSlug,
+  meetingId,
+  revisions,
+  canRestoreRevisions,
+}: MeetingRevisionCompareProps) {
+  const router = useRouter();
+  const currentRevision = revisions.find((revision) => revision.isCurrent) ?? revisions[0];
+  const [baseId, setBaseId] = useState(
+    () => revisions.find((revision) => revision.id !== currentRevision?.id)?.id ?? "",
+  );
+  const [targetId, setTargetId] = useState(currentRevision?.id ?? "");
+  const [selectedSections, setSelectedSections] = useState<MeetingRestoreSection[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const base = revisions.find((revision) => revision.id === baseId) ?? null;
+  const target = revisions.find((revision) => revision.id === targetId) ?? null;
+
+  const changedSections = useMemo(() => {
+    if (!base || !target) return new Set<MeetingRestoreSection>();
+    return new Set(
+      MEETING_RESTORE_SECTIONS.filter(
+        (section) => !areLinesEqual(base.sections[section], target.sections[section]),
+      ),
+    );
+  }, [base, target]);
+
+  if (revisions.length < 2) return null;
+
+  function toggleSection(section: MeetingRestoreSection) {
+    setSelectedSections((current) =>
+      current.includes(section)
+        ? current.filter((entry) => entry !== section)
+        : [...current, section],
+    );
+  }
+
+  async function handleRestoreSections() {
+    if (!base || selectedSections.length === 0) return;
+
+    const labels = selectedSections.map((section) => MEETING_RESTORE_SECTION_LABELS[section]);
+    const confirmed = window.confirm(
+      `Restore ${labels.join(", ")} from revision ${base.meetingRevision}?\n\nOther sections keep their current content. This creates a new restore revision.`,
+    );
+    if (!confirmed) return;
+
+    setIsRestoring(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/meetings/${encodeURIComponent(meetingId)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            restoreFromRevisionId: base.id,
+            restoreSections: selectedSections,
+          }),
+        },
+      );
+
+      const result = (await response.json().catch(() => null)) as RestoreResponse | null;
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to restore sections.");
+      }
+
+      setNotice(`Restored ${labels.join(", ")} from revision ${base.meetingRevision}.`);
+      setSelectedSections([]);
+      router.refresh();
+    } catch (restoreError) {
+      setError(
+        restoreError instanceof Error ? restoreError.message : "Failed to restore sections.",
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  }
+
+  return (
+    <div className="mt-4 rounded-sm border border-slate-200 bg-slate-50 px-3 py-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-900">Compare revisions</h3>
+        <span className="text-xs text-slate-600">
+          {changedSections.size} section{changedSections.size === 1 ? "" : "s"} differ
+        </span>
+      </div>
+
+      <div className="mt-3 grid gap-3 sm:grid-cols-2">
+        <label className="block space-y-1.5">
+          <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+            Restore from
+          </span>
+          <select
+            value={baseId}
+            onChange={(event) => {
+              setBaseId(event.target.value);
+              setSelectedSections([]);
+            }}
+            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900"
+          >
+            {revisions.map((revision) => (
+              <option key={revision.id} value={revision.id}>
+                {revisionOptionLabel(revision)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block space-y-1.5">
+          <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+            Compare with
+          </span>
+          <select
+            value={targetId}
+            onChange={(event) => setTargetId(event.target.value)}
+            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900"
+          >
+            {revisions.map((revision) => (
+              <option key={revision.id} value={revision.id}>
+                {revisionOptionLabel(revision)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {notice ? (
+        <p className="mt-3 rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="mt-3 rounded-sm border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {error}
+        </p>
+      ) : null}
+
+      {base && target ? (
+        <div className="mt-3 space-y-2.5">
+          {MEETING_RESTORE_SECTIONS.map((section) => {
+            const isChanged = changedSections.has(section);
+
+            return (
+              <section
+                key={section}
+                className={`rounded-sm border bg-white px-3 py-2.5 ${
+                  isChanged ? "border-amber-300" : "border-slate-200"
+                }`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-xs font-semibold tracking-[0.1em] text-slate-700">
+                    {MEETING_RESTORE_SECTION_LABELS[section].toUpperCase()}
+                    {isChanged ? (
+                      <span className="ml-2 rounded-sm border border-amber-200 bg-amber-50 px-1.5 py-0.5 text-[10px] text-amber-700">
+                        Changed
+                      </span>
+                    ) : null}
+                  </p>
+                  {canRestoreRevisions && !base.isCurrent ? (
+                    <label className="flex items-center gap-1.5 text-xs text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={selectedSections.includes(section)}
+                        onChange={() => toggleSection(section)}
+                        disabled={isRestoring}
+                      />
+                      Restore
+                    </label>
+                  ) : null}
+                </div>
+                <div className="mt-2 grid gap-3 sm:grid-cols-2">
+                  <CompareColumn
+                    lines={base.sections[section]}
+                    otherLines={target.sections[section]}
+                    tone="removed"
+                  />
+                  <CompareColumn
+                    lines={target.sections[section]}
+                    otherLines={base.sections[section]}
+                    tone="added"
+                  />
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {canRestoreRevisions && base && !base.isCurrent ? (
+        <div className="mt-3 flex justify-end">
+          <button
+            type="button"
+            onClick={() => void handleRestoreSections()}
+            disabled={isRestoring || selectedSections.length === 0}
+            className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isRestoring
+              ? "Restoring..."
+              : `Restore selected from revision ${base.meetingRevision}`}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
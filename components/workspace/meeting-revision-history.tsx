@@ -2,7 +2,13 @@
 
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { MeetingRevisionCompare } from "@/components/workspace/meeting-revision-compare";
 import { WorkspacePanel } from "@/components/workspace/primitives";
+import {
+  describeMeetingRestoreSections,
+  type MeetingRestoreSection,
+  type MeetingRevisionSections,
+} from "@/lib/workspace/meeting-revisions";
 
 type MeetingRevisionEventType = "created" | "updated" | "restored";
 type MeetingRevisionSource = "meetingUpdate" | "restore";
@@ -17,6 +23,8 @@ export type MeetingRevisionHistoryEntry = {
   changedFields: string[];
   capturedAtLabel: string;
   restoredFromRevisionId: string;
+  restoredSections: MeetingRestoreSection[];
+  sections: MeetingRevisionSections;
   isCurrent: boolean;
 };
 
@@ -132,7 +140,7 @@ export function MeetingRevisionHistory({
       </div>
 
       <p className="mt-2 text-sm text-slate-600">
-        Review who changed the meeting and restore previous snapshots when needed.
+        Review who changed the meeting, compare snapshots, and restore a whole revision or only selected sections.
       </p>
 
       {notice ? (
@@ -153,6 +161,13 @@ export function MeetingRevisionHistory({
         </p>
       ) : null}
 
+      <MeetingRevisionCompare
+        workspaceSlug={workspaceSlug}
+        meetingId={meetingId}
+        revisions={entries}
+        canRestoreRevisions={canRestoreRevisions}
+      />
+
       {entries.length === 0 ? (
         <p className="mt-4 rounded-sm border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
           No revisions yet. Changes will appear here as the meeting is edited.
@@ -214,7 +229,9 @@ export function MeetingRevisionHistory({
 
               {entry.restoredFromRevisionId ? (
                 <p className="mt-2 text-xs text-slate-500">
-                  Restored from revision snapshot {entry.restoredFromRevisionId}.
+                  {entry.restoredSections.length > 0
+                    ? `Restored ${describeMeetingRestoreSections(entry.restoredSections)} from revision snapshot ${entry.restoredFromRevisionId}.`
+                    : `Restored from revision snapshot ${entry.restoredFromRevisionId}.`}
                 </p>
               ) : null}
             </article>
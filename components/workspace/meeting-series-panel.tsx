@@ -0,0 +1,130 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { WorkspacePanel } from "@/components/workspace/primitives";
+
+export type MeetingSeriesSummary = {
+  seriesId: string;
+  title: string;
+  recurrenceLabel: string;
+  occurrence: number;
+  occurrenceCount: number;
+  previousMeetingId: string;
+  nextMeetingId: string;
+  carryOver: {
+    fromMeetingId: string;
+    agendaItems: number;
+    openQuestions: number;
+    actions: number;
+  } | null;
+};
+
+type MeetingSeriesPanelProps = {
+  workspaceSlug: string;
+  series: MeetingSeriesSummary;
+  canCreateNext: boolean;
+};
+
+type CreateOccurrenceResponse = {
+  error?: string;
+  meetingId?: string;
+};
+
+export function MeetingSeriesPanel({
+  workspaceSlug,
+  series,
+  canCreateNext,
+}: MeetingSeriesPanelProps) {
+  const router = useRouter();
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleCreateNext() {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/meeting-series/${encodeURIComponent(series.seriesId)}/occurrences`,
+        { method: "POST" },
+      );
+      const result = (await response.json().catch(() => null)) as
+        | CreateOccurrenceResponse
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to create next occurrence.");
+      }
+
+      const meetingId = result?.meetingId?.trim();
+      if (!meetingId) {
+        throw new Error("Next occurrence was created, but no meeting ID was returned.");
+      }
+
+      router.push(`/${workspaceSlug}/meetings/${meetingId}`);
+    } catch (createError) {
+      setError(
+        createError instanceof Error ? createError.message : "Failed to create next occurrence.",
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  return (
+    <WorkspacePanel>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold tracking-[0.13em] text-slate-500">RECURRING SERIES</p>
+          <h2 className="mt-1 text-xl font-semibold tracking-tight text-slate-900">{series.title}</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            {series.recurrenceLabel} • Occurrence {series.occurrence} of {series.occurrenceCount}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {series.previousMeetingId ? (
+            <Link
+              href={`/${workspaceSlug}/meetings/${series.previousMeetingId}`}
+              className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+            >
+              Previous ({series.previousMeetingId})
+            </Link>
+          ) : null}
+          {series.nextMeetingId ? (
+            <Link
+              href={`/${workspaceSlug}/meetings/${series.nextMeetingId}`}
+              className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+            >
+              Next ({series.nextMeetingId})
+            </Link>
+          ) : canCreateNext ? (
+            <button
+              type="button"
+              onClick={() => void handleCreateNext()}
+              disabled={isCreating}
+              className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isCreating ? "Creating..." : "Start next occurrence"}
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {series.carryOver ? (
+        <p className="mt-3 rounded-sm border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+          Carried over from {series.carryOver.fromMeetingId}: {series.carryOver.agendaItems} agenda
+          item(s), {series.carryOver.openQuestions} open question(s), {series.carryOver.actions} open
+          action(s).
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="mt-3 rounded-sm border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {error}
+        </p>
+      ) : null}
+    </WorkspacePanel>
+  );
+}
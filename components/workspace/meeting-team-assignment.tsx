@@ -0,0 +1,72 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { TeamSelect } from "@/components/workspace/team-select";
+
+type MeetingTeamAssignmentProps = {
+  workspaceSlug: string;
+  meetingId: string;
+  teamId: string;
+};
+
+type AssignTeamResponse = {
+  error?: string;
+  teamId?: string;
+};
+
+export function MeetingTeamAssignment({
+  workspaceSlug,
+  meetingId,
+  teamId: initialTeamId,
+}: MeetingTeamAssignmentProps) {
+  const router = useRouter();
+  const [teamId, setTeamId] = useState(initialTeamId);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleChange(nextTeamId: string) {
+    const previousTeamId = teamId;
+    setTeamId(nextTeamId);
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/meetings/${encodeURIComponent(meetingId)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ teamId: nextTeamId }),
+        },
+      );
+      const result = (await response.json().catch(() => null)) as AssignTeamResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to update meeting team.");
+      }
+
+      router.refresh();
+    } catch (assignError) {
+      setTeamId(previousTeamId);
+      setError(
+        assignError instanceof Error ? assignError.message : "Failed to update meeting team.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="max-w-xs space-y-1">
+      <TeamSelect
+        workspaceSlug={workspaceSlug}
+        value={teamId}
+        onChange={(nextTeamId) => void handleChange(nextTeamId)}
+        disabled={isSaving}
+        emptyLabel="Whole workspace"
+      />
+      {error ? <p className="text-xs text-rose-700">{error}</p> : null}
+    </div>
+  );
+}
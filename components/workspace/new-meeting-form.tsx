@@ -2,10 +2,17 @@
 
 import { FormEvent, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import { TeamSelect } from "@/components/workspace/team-select";
 import {
   normalizeMeetingDraftPayload,
   type MeetingDraftPayload,
 } from "@/lib/workspace/meeting-draft";
+import {
+  describeMeetingRecurrence,
+  weekdayLabel,
+  type MeetingRecurrenceFrequency,
+  type MeetingRecurrenceRule,
+} from "@/lib/workspace/meeting-recurrence";
 
 type NewMeetingFormProps = {
   workspaceSlug: string;
@@ -17,6 +24,18 @@ type DraftRow = {
   value: string;
 };
 
+type RepeatOption = "none" | MeetingRecurrenceFrequency;
+
+const REPEAT_OPTIONS: Array<{ value: RepeatOption; label: string }> = [
+  { value: "none", label: "Does not repeat" },
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every two weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "custom", label: "Custom weekdays" },
+];
+
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
 type CreateMeetingResponse = {
   error?: string;
   meetingId?: string;
@@ -63,6 +82,7 @@ export function NewMeetingForm({
   const [date, setDate] = useState(initialDateISO);
   const [time, setTime] = useState("10:00");
   const [location, setLocation] = useState("Room Atlas + Zoom");
+  const [teamId, setTeamId] = useState("");
   const [attendees, setAttendees] = useState<DraftRow[]>([
     { id: "attendee-1", value: "You" },
     { id: "attendee-2", value: "Priya Shah" },
@@ -72,6 +92,8 @@ export function NewMeetingForm({
     { id: "agenda-2", value: "Capture decisions and tradeoffs" },
     { id: "agenda-3", value: "Assign owners and due dates" },
   ]);
+  const [repeat, setRepeat] = useState<RepeatOption>("none");
+  const [customWeekdays, setCustomWeekdays] = useState<number[]>([]);
   const [nextAttendeeId, setNextAttendeeId] = useState(3);
   const [nextAgendaId, setNextAgendaId] = useState(4);
   const [error, setError] = useState<string | null>(null);
@@ -109,6 +131,20 @@ export function NewMeetingForm({
     });
   }, [parsedScheduleDateTime]);
 
+  const recurrence = useMemo<MeetingRecurrenceRule | null>(() => {
+    if (repeat === "none") return null;
+    if (repeat === "custom") {
+      return customWeekdays.length > 0
+        ? { frequency: "custom", weekdays: [...customWeekdays].sort((a, b) => a - b) }
+        : null;
+    }
+    return { frequency: repeat, weekdays: [] };
+  }, [customWeekdays, repeat]);
+  const recurrenceError =
+    repeat === "custom" && customWeekdays.length === 0
+      ? "Pick at least one weekday for a custom series."
+      : null;
+
   const hasRequiredContent = useMemo(() => {
     return (
       title.trim().length > 0 &&
@@ -119,10 +155,16 @@ export function NewMeetingForm({
   }, [agendaCount, attendeeCount, objective, title]);
 
   const canSubmit = useMemo(
-    () => hasRequiredContent && dateTimeError === null,
-    [dateTimeError, hasRequiredContent],
+    () => hasRequiredContent && dateTimeError === null && recurrenceError === null,
+    [dateTimeError, hasRequiredContent, recurrenceError],
   );
 
+  function toggleCustomWeekday(weekday: number) {
+    setCustomWeekdays((prev) =>
+      prev.includes(weekday) ? prev.filter((value) => value !== weekday) : [...prev, weekday],
+    );
+  }
+
   function addAttendee() {
     setAttendees((prev) => [
       ...prev,
@@ -180,14 +222,21 @@ export function NewMeetingForm({
       return;
     }
 
+    if (recurrenceError) {
+      setError(recurrenceError);
+      return;
+    }
+
     const payload: MeetingDraftPayload = normalizeMeetingDraftPayload({
       title,
       objective,
       date,
       time,
       location,
+      teamId,
       attendees: attendees.map((attendee) => attendee.value),
       agenda: agenda.map((item) => item.value),
+      recurrence,
     });
 
     setIsSubmitting(true);
@@ -252,6 +301,14 @@ export function NewMeetingForm({
         />
       </label>
 
+      <TeamSelect
+        workspaceSlug={workspaceSlug}
+        value={teamId}
+        onChange={setTeamId}
+        disabled={isSubmitting}
+        emptyLabel="Whole workspace"
+      />
+
       <div className="grid gap-3 sm:grid-cols-[1fr_1fr_1fr]">
         <label className="block space-y-1.5">
           <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
@@ -300,6 +357,63 @@ export function NewMeetingForm({
         {dateTimeError ? dateTimeError : `Scheduled for ${schedulePreview}`}
       </p>
 
+      <div className="space-y-2">
+        <label className="block space-y-1.5">
+          <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+            Repeat
+          </span>
+          <select
+            value={repeat}
+            onChange={(event) => setRepeat(event.target.value as RepeatOption)}
+            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900"
+          >
+            {REPEAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {repeat === "custom" ? (
+          <div className="flex flex-wrap items-center gap-2">
+            {WEEKDAYS.map((weekday) => {
+              const selected = customWeekdays.includes(weekday);
+              return (
+                <button
+                  key={weekday}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => toggleCustomWeekday(weekday)}
+                  className={`rounded-sm border px-2.5 py-1 text-xs font-semibold transition ${
+                    selected
+                      ? "border-slate-500 bg-slate-900 text-white"
+                      : "border-slate-300 bg-white text-slate-700 hover:border-slate-500 hover:text-slate-900"
+                  }`}
+                >
+                  {weekdayLabel(weekday)}
+                </button>
+              );
+            })}
+          </div>
+        ) : null}
+
+        {repeat !== "none" ? (
+          <p
+            className={`rounded-sm border px-3 py-2 text-xs ${
+              recurrenceError
+                ? "border-rose-200 bg-rose-50 text-rose-700"
+                : "border-slate-200 bg-slate-50 text-slate-700"
+            }`}
+          >
+            {recurrenceError ??
+              (recurrence
+                ? `${describeMeetingRecurrence(recurrence, date)}. The next occurrence is created when this record is finalized, carrying over unfinished agenda items, open questions, and open actions.`
+                : "")}
+          </p>
+        ) : null}
+      </div>
+
       <div className="space-y-2">
         <div className="flex items-center justify-between gap-2">
           <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
@@ -1,7 +1,11 @@
 "use client";
 
 import Link from "next/link";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  broadcastNotificationsChanged,
+  subscribeNotificationsChanged,
+} from "@/lib/notifications/client-sync";
 
 type InviteNotification = {
   id: string;
@@ -17,6 +21,8 @@ type InviteNotification = {
   expiresAt: string;
   isRead: boolean;
   readAt: string;
+  snoozedUntil: string;
+  archivedAt: string;
 };
 
 type MentionNotification = {
@@ -35,16 +41,87 @@ type MentionNotification = {
   updatedAt: string;
   isRead: boolean;
   readAt: string;
+  snoozedUntil: string;
+  archivedAt: string;
 };
 
-type NotificationItem = InviteNotification | MentionNotification;
+type AssignmentNotification = {
+  id: string;
+  type: "assignment";
+  notificationId: string;
+  workspaceSlug: string;
+  workspaceName: string;
+  entityType: "decision" | "action";
+  entityId: string;
+  entityTitle: string;
+  entityPath: string;
+  change: "assigned" | "reassigned" | "statusChanged";
+  summary: string;
+  changedByName: string;
+  createdAt: string;
+  updatedAt: string;
+  isRead: boolean;
+  readAt: string;
+  snoozedUntil: string;
+  archivedAt: string;
+};
+
+type NotificationView = "inbox" | "snoozed" | "archived";
+
+type InviteNotificationGroup = {
+  key: string;
+  type: "workspace_invite";
+  view: NotificationView;
+  isRead: boolean;
+  updatedAt: string;
+  snoozedUntil: string;
+  invite: InviteNotification;
+};
+
+type EntityNotificationGroup = {
+  key: string;
+  type: "entity";
+  view: NotificationView;
+  isRead: boolean;
+  updatedAt: string;
+  snoozedUntil: string;
+  workspaceSlug: string;
+  workspaceName: string;
+  entityType: "decision" | "action";
+  entityId: string;
+  entityTitle: string;
+  entityPath: string;
+  eventCount: number;
+  items: Array<MentionNotification | AssignmentNotification>;
+};
+
+type NotificationGroup = InviteNotificationGroup | EntityNotificationGroup;
 
 type NotificationsResponse = {
   error?: string;
+  view?: NotificationView;
   unreadCount?: number;
-  notifications?: NotificationItem[];
+  groups?: NotificationGroup[];
+  nextCursor?: string;
+  nextWakeAt?: string;
 };
 
+type NotificationTarget = { notificationIds: string[] } | { tokens: string[] };
+
+type NotificationPatchPayload =
+  | (NotificationTarget & { action: "mark_read" | "archive" | "unarchive" | "unsnooze" })
+  | (NotificationTarget & { action: "snooze"; snoozedUntil: string })
+  | { action: "mark_all_read" };
+
+const NOTIFICATION_VIEWS: Array<{ value: NotificationView; label: string }> = [
+  { value: "inbox", label: "Inbox" },
+  { value: "snoozed", label: "Snoozed" },
+  { value: "archived", label: "Archived" },
+];
+
+// Snoozes can outlast browser timer limits, so distant wake-ups recheck hourly.
+const MAX_WAKE_DELAY_MS = 60 * 60 * 1000;
+
 function formatDateLabel(value: string) {
   if (!value) return "Not set";
   const parsed = new Date(value);
@@ -66,32 +143,84 @@ function getErrorMessage(error: unknown) {
   return "Failed to load notifications.";
 }
 
+function parseUnreadCount(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
 function unreadBadgeLabel(count: number) {
   if (count <= 0) return "";
   if (count > 9) return "9+";
   return String(count);
 }
 
+function buildSnoozeOptions(now: Date) {
+  const inOneHour = new Date(now.getTime() + 60 * 60 * 1000);
+  const tomorrowMorning = new Date(now);
+  tomorrowMorning.setDate(now.getDate() + 1);
+  tomorrowMorning.setHours(9, 0, 0, 0);
+  const nextWeek = new Date(now);
+  nextWeek.setDate(now.getDate() + (((8 - now.getDay()) % 7) || 7));
+  nextWeek.setHours(9, 0, 0, 0);
+
+  return [
+    { label: "1 hour", value: inOneHour },
+    { label: "Tomorrow 9:00", value: tomorrowMorning },
+    { label: "Next Monday 9:00", value: nextWeek },
+  ];
+}
+
+function buildGroupTarget(group: NotificationGroup): NotificationTarget {
+  if (group.type === "workspace_invite") {
+    return { tokens: [group.invite.token] };
+  }
+
+  return { notificationIds: group.items.map((item) => item.notificationId) };
+}
+
 export function NotificationCenter() {
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isMutating, setIsMutating] = useState(false);
-  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [view, setView] = useState<NotificationView>("inbox");
+  const [groups, setGroups] = useState<NotificationGroup[]>([]);
+  const [nextCursor, setNextCursor] = useState("");
+  const [nextWakeAt, setNextWakeAt] = useState("");
   const [unreadCount, setUnreadCount] = useState(0);
+  const [snoozeMenuKey, setSnoozeMenuKey] = useState("");
   const [error, setError] = useState<string | null>(null);
+  // Read by the stream listener, which is set up once.
+  const viewRef = useRef<NotificationView>("inbox");
 
   const hasUnread = unreadCount > 0;
   const unreadLabel = useMemo(() => unreadBadgeLabel(unreadCount), [unreadCount]);
 
+  const applyNotificationsResponse = useCallback(
+    (result: NotificationsResponse | null, append = false) => {
+      const nextGroups = result?.groups ?? [];
+      setGroups((current) => (append ? [...current, ...nextGroups] : nextGroups));
+      setNextCursor(result?.nextCursor ?? "");
+      setNextWakeAt(result?.nextWakeAt ?? "");
+      setUnreadCount(parseUnreadCount(result?.unreadCount));
+    },
+    [],
+  );
+
   const loadNotifications = useCallback(
-    async (background = false) => {
-      if (!background) {
+    async (targetView: NotificationView, background = false, cursor = "") => {
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else if (!background) {
         setIsLoading(true);
       }
       setError(null);
 
       try {
-        const response = await fetch("/api/notifications", { method: "GET" });
+        const params = new URLSearchParams({ view: targetView });
+        if (cursor) params.set("cursor", cursor);
+        const response = await fetch(`/api/notifications?${params.toString()}`, {
+          method: "GET",
+        });
         const result = (await response.json().catch(() => null)) as
           | NotificationsResponse
           | null;
@@ -100,42 +229,84 @@ export function NotificationCenter() {
           throw new Error(result?.error ?? "Failed to load notifications.");
         }
 
-        setNotifications(result?.notifications ?? []);
-        setUnreadCount(
-          typeof result?.unreadCount === "number" && Number.isFinite(result.unreadCount)
-            ? Math.max(0, Math.floor(result.unreadCount))
-            : 0,
-        );
+        // Ignore responses for a tab the user has already left.
+        if (viewRef.current === targetView) {
+          applyNotificationsResponse(result, Boolean(cursor));
+        }
       } catch (loadError) {
         setError(getErrorMessage(loadError));
       } finally {
-        if (!background) {
+        if (cursor) {
+          setIsLoadingMore(false);
+        } else if (!background) {
           setIsLoading(false);
         }
       }
     },
-    [],
+    [applyNotificationsResponse],
   );
 
   useEffect(() => {
-    void loadNotifications();
+    void loadNotifications(viewRef.current);
+
+    // The stream pushes the first inbox page on every change. Polling only
+    // runs while the stream is unavailable (unsupported, reconnecting, or
+    // paused).
+    let isStreamLive = false;
+    const source =
+      typeof EventSource === "undefined" ? null : new EventSource("/api/notifications/stream");
+    source?.addEventListener("notifications", (event) => {
+      isStreamLive = true;
+      const result = JSON.parse((event as MessageEvent<string>).data) as NotificationsResponse;
+      if (viewRef.current === "inbox") {
+        applyNotificationsResponse(result);
+      } else {
+        setUnreadCount(parseUnreadCount(result.unreadCount));
+        void loadNotifications(viewRef.current, true);
+      }
+      setError(null);
+    });
+    source?.addEventListener("notifications-error", () => {
+      isStreamLive = false;
+    });
+    source?.addEventListener("error", () => {
+      isStreamLive = false;
+    });
 
     const interval = window.setInterval(() => {
-      void loadNotifications(true);
+      if (isStreamLive) return;
+      void loadNotifications(viewRef.current, true);
     }, 45000);
+    const unsubscribe = subscribeNotificationsChanged(() => {
+      void loadNotifications(viewRef.current, true);
+    });
 
     return () => {
+      source?.close();
       window.clearInterval(interval);
+      unsubscribe();
     };
-  }, [loadNotifications]);
-
-  async function patchNotifications(
-    payload:
-      | { action: "mark_read"; token: string }
-      | { action: "mark_read"; notificationType: "mention"; notificationId: string }
-      | { action: "mark_all_read" },
-  ) {
+  }, [applyNotificationsResponse, loadNotifications]);
+
+  // Snoozed notifications return to the inbox on their own; nothing is
+  // written when they wake, so reload once the earliest snooze ends.
+  useEffect(() => {
+    if (!nextWakeAt) return;
+    const wakeAt = new Date(nextWakeAt).getTime();
+    if (Number.isNaN(wakeAt)) return;
+
+    const timer = window.setTimeout(
+      () => {
+        void loadNotifications(viewRef.current, true);
+      },
+      Math.min(Math.max(wakeAt - Date.now(), 0) + 1000, MAX_WAKE_DELAY_MS),
+    );
+    return () => window.clearTimeout(timer);
+  }, [loadNotifications, nextWakeAt]);
+
+  async function patchNotifications(payload: NotificationPatchPayload) {
     setIsMutating(true);
+    setSnoozeMenuKey("");
     setError(null);
 
     try {
@@ -153,7 +324,8 @@ export function NotificationCenter() {
         throw new Error(result?.error ?? "Failed to update notifications.");
       }
 
-      await loadNotifications(true);
+      await loadNotifications(viewRef.current, true);
+      broadcastNotificationsChanged();
     } catch (patchError) {
       setError(getErrorMessage(patchError));
     } finally {
@@ -164,71 +336,89 @@ export function NotificationCenter() {
   function handleTogglePanel() {
     const nextOpen = !isOpen;
     setIsOpen(nextOpen);
+    setSnoozeMenuKey("");
     if (nextOpen) {
-      void loadNotifications(true);
+      void loadNotifications(viewRef.current, true);
     }
   }
 
-  function getNotificationActionHref(notification: NotificationItem) {
-    if (notification.type === "mention") {
-      return notification.entityPath || "#";
+  function handleSelectView(nextView: NotificationView) {
+    if (nextView === view) return;
+    viewRef.current = nextView;
+    setView(nextView);
+    setGroups([]);
+    setNextCursor("");
+    setSnoozeMenuKey("");
+    void loadNotifications(nextView);
+  }
+
+  function getGroupActionHref(group: NotificationGroup) {
+    if (group.type === "entity") {
+      return group.entityPath || "#";
     }
 
-    return notification.inviteUrl;
+    return group.invite.inviteUrl;
   }
 
-  function getNotificationPrimaryLabel(notification: NotificationItem) {
-    if (notification.type === "mention") {
-      return notification.entityTitle || `${notification.entityType} update`;
+  function getGroupPrimaryLabel(group: NotificationGroup) {
+    if (group.type === "entity") {
+      return group.entityTitle || `${group.entityType} update`;
     }
 
-    return notification.workspaceName;
+    return group.invite.workspaceName;
   }
 
-  function getNotificationSummary(notification: NotificationItem) {
-    if (notification.type === "mention") {
-      const preview = notification.preview;
-      if (preview) {
-        return `${notification.mentionedByName} mentioned you in a ${notification.entityType}.`;
-      }
-      return `${notification.mentionedByName} mentioned you in ${notification.workspaceName}.`;
+  function getItemSummary(notification: MentionNotification | AssignmentNotification) {
+    if (notification.type === "assignment") {
+      return notification.summary;
     }
 
-    return `${notification.invitedByName} invited you as ${notification.role}.`;
+    if (notification.preview) {
+      return `${notification.mentionedByName} mentioned you in a ${notification.entityType}.`;
+    }
+    return `${notification.mentionedByName} mentioned you in ${notification.workspaceName}.`;
   }
 
-  function getNotificationMeta(notification: NotificationItem) {
-    if (notification.type === "mention") {
-      const updatedLabel = formatDateLabel(notification.updatedAt || notification.createdAt);
-      return `Updated ${updatedLabel}`;
+  function getGroupSummary(group: NotificationGroup) {
+    if (group.type === "entity") {
+      const latest = group.items[0];
+      return latest ? getItemSummary(latest) : `Updates on this ${group.entityType}.`;
     }
 
-    return `Received ${formatDateLabel(notification.createdAt)} • Expires ${formatDateLabel(
-      notification.expiresAt,
-    )}`;
+    return `${group.invite.invitedByName} invited you as ${group.invite.role}.`;
   }
 
-  function getNotificationActionLabel(notification: NotificationItem) {
-    if (notification.type === "mention") {
-      return `Open ${notification.entityType}`;
+  function getGroupPreview(group: NotificationGroup) {
+    if (group.type !== "entity") return "";
+    const latest = group.items[0];
+    return latest?.type === "mention" ? latest.preview : "";
+  }
+
+  function getGroupMeta(group: NotificationGroup) {
+    if (group.view === "snoozed") {
+      return `Snoozed until ${formatDateLabel(group.snoozedUntil)}`;
     }
 
-    return "Review invite";
+    if (group.type === "entity") {
+      return `${group.workspaceName} • Updated ${formatDateLabel(group.updatedAt)}`;
+    }
+
+    return `Received ${formatDateLabel(group.invite.createdAt)} • Expires ${formatDateLabel(
+      group.invite.expiresAt,
+    )}`;
   }
 
-  function buildMarkReadPayload(notification: NotificationItem) {
-    if (notification.type === "mention") {
-      return {
-        action: "mark_read" as const,
-        notificationType: "mention" as const,
-        notificationId: notification.notificationId,
-      };
+  function getGroupActionLabel(group: NotificationGroup) {
+    if (group.type === "entity") {
+      return `Open ${group.entityType}`;
     }
 
-    return {
-      action: "mark_read" as const,
-      token: notification.token,
-    };
+    return "Review invite";
+  }
+
+  function getGroupUpdateLabel(group: NotificationGroup) {
+    if (group.type !== "entity" || group.eventCount <= 1) return "";
+    return `${group.eventCount} updates`;
   }
 
   return (
@@ -255,7 +445,9 @@ export function NotificationCenter() {
               <p className="text-[11px] font-semibold uppercase tracking-[0.14em] text-slate-500">
                 Notifications
               </p>
-              <p className="mt-0.5 text-xs text-slate-600">Invites and mentions</p>
+              <p className="mt-0.5 text-xs text-slate-600">
+                Invites, mentions, and assignments, grouped by record
+              </p>
             </div>
             <button
               type="button"
@@ -267,6 +459,25 @@ export function NotificationCenter() {
             </button>
           </div>
 
+          <div className="mt-2.5 flex gap-1" role="tablist" aria-label="Notification views">
+            {NOTIFICATION_VIEWS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                role="tab"
+                aria-selected={view === option.value}
+                onClick={() => handleSelectView(option.value)}
+                className={`rounded-sm px-2.5 py-1 text-[11px] font-semibold transition ${
+                  view === option.value
+                    ? "bg-slate-900 text-white"
+                    : "border border-slate-300 bg-white text-slate-700 hover:border-slate-500 hover:text-slate-900"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
           {error ? (
             <p className="mt-3 rounded-sm border border-red-200 bg-red-50 px-2.5 py-2 text-xs text-red-700">
               {error}
@@ -277,68 +488,147 @@ export function NotificationCenter() {
             <p className="mt-3 rounded-sm border border-slate-200 bg-slate-50 px-2.5 py-2 text-xs text-slate-600">
               Loading notifications...
             </p>
-          ) : notifications.length === 0 ? (
+          ) : groups.length === 0 ? (
             <p className="mt-3 rounded-sm border border-slate-200 bg-slate-50 px-2.5 py-2 text-xs text-slate-600">
-              No notifications.
+              {view === "inbox"
+                ? "No notifications."
+                : view === "snoozed"
+                  ? "No snoozed notifications."
+                  : "No archived notifications."}
             </p>
           ) : (
-            <div className="mt-3 space-y-2">
-              {notifications.map((notification) => (
+            <div className="mt-3 max-h-[60vh] space-y-2 overflow-y-auto">
+              {groups.map((group) => (
                 <article
-                  key={notification.id}
+                  key={group.key}
                   className={`rounded-lg border px-3 py-2.5 ${
-                    notification.isRead
-                      ? "border-slate-200 bg-slate-50"
-                      : "border-cyan-200 bg-cyan-50"
+                    group.isRead ? "border-slate-200 bg-slate-50" : "border-cyan-200 bg-cyan-50"
                   }`}
                 >
                   <div className="flex flex-wrap items-center justify-between gap-2">
                     <p className="text-sm font-semibold text-slate-900">
-                      {getNotificationPrimaryLabel(notification)}
+                      {getGroupPrimaryLabel(group)}
                     </p>
-                    <span
-                      className={`rounded-sm border px-2 py-0.5 text-[10px] font-semibold tracking-[0.08em] ${
-                        notification.isRead
-                          ? "border-slate-300 bg-white text-slate-600"
-                          : "border-cyan-200 bg-white text-cyan-800"
-                      }`}
-                    >
-                      {notification.isRead ? "READ" : "NEW"}
-                    </span>
+                    <div className="flex items-center gap-1.5">
+                      {getGroupUpdateLabel(group) ? (
+                        <span className="rounded-sm border border-slate-300 bg-white px-2 py-0.5 text-[10px] font-semibold text-slate-600">
+                          {getGroupUpdateLabel(group)}
+                        </span>
+                      ) : null}
+                      <span
+                        className={`rounded-sm border px-2 py-0.5 text-[10px] font-semibold tracking-[0.08em] ${
+                          group.isRead
+                            ? "border-slate-300 bg-white text-slate-600"
+                            : "border-cyan-200 bg-white text-cyan-800"
+                        }`}
+                      >
+                        {group.isRead ? "READ" : "NEW"}
+                      </span>
+                    </div>
                   </div>
-                  <p className="mt-1 text-xs text-slate-700">
-                    {getNotificationSummary(notification)}
-                  </p>
-                  {notification.type === "mention" && notification.preview ? (
-                    <p className="mt-1 text-[11px] text-slate-500">{notification.preview}</p>
+                  <p className="mt-1 text-xs text-slate-700">{getGroupSummary(group)}</p>
+                  {getGroupPreview(group) ? (
+                    <p className="mt-1 text-[11px] text-slate-500">{getGroupPreview(group)}</p>
                   ) : null}
-                  <p className="mt-1 text-[11px] text-slate-500">
-                    {getNotificationMeta(notification)}
-                  </p>
+                  <p className="mt-1 text-[11px] text-slate-500">{getGroupMeta(group)}</p>
                   <div className="mt-2 flex flex-wrap items-center gap-2">
                     <Link
-                      href={getNotificationActionHref(notification)}
+                      href={getGroupActionHref(group)}
                       onClick={() => {
-                        if (!notification.isRead) {
-                          void patchNotifications(buildMarkReadPayload(notification));
+                        if (!group.isRead) {
+                          void patchNotifications({
+                            action: "mark_read",
+                            ...buildGroupTarget(group),
+                          });
                         }
                         setIsOpen(false);
                       }}
                       className="rounded-sm bg-[color:var(--accent)] px-2.5 py-1 text-[11px] font-semibold text-white transition hover:bg-[color:var(--accent-strong)]"
                     >
-                      {getNotificationActionLabel(notification)}
+                      {getGroupActionLabel(group)}
                     </Link>
                     <button
                       type="button"
-                      onClick={() => void patchNotifications(buildMarkReadPayload(notification))}
-                      disabled={notification.isRead || isMutating}
+                      onClick={() =>
+                        void patchNotifications({ action: "mark_read", ...buildGroupTarget(group) })
+                      }
+                      disabled={group.isRead || isMutating}
                       className="rounded-sm border border-slate-300 bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
                     >
                       Mark read
                     </button>
+                    {group.view === "snoozed" ? (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          void patchNotifications({ action: "unsnooze", ...buildGroupTarget(group) })
+                        }
+                        disabled={isMutating}
+                        className="rounded-sm border border-slate-300 bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Unsnooze
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setSnoozeMenuKey((current) => (current === group.key ? "" : group.key))
+                        }
+                        aria-expanded={snoozeMenuKey === group.key}
+                        disabled={isMutating}
+                        className="rounded-sm border border-slate-300 bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Snooze
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void patchNotifications({
+                          action: group.view === "archived" ? "unarchive" : "archive",
+                          ...buildGroupTarget(group),
+                        })
+                      }
+                      disabled={isMutating}
+                      className="rounded-sm border border-slate-300 bg-white px-2.5 py-1 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {group.view === "archived" ? "Move to inbox" : "Archive"}
+                    </button>
                   </div>
+                  {snoozeMenuKey === group.key ? (
+                    <div className="mt-2 flex flex-wrap items-center gap-1.5 border-t border-slate-200 pt-2">
+                      <span className="text-[11px] font-semibold text-slate-500">Snooze until</span>
+                      {buildSnoozeOptions(new Date()).map((option) => (
+                        <button
+                          key={option.label}
+                          type="button"
+                          onClick={() =>
+                            void patchNotifications({
+                              action: "snooze",
+                              snoozedUntil: option.value.toISOString(),
+                              ...buildGroupTarget(group),
+                            })
+                          }
+                          disabled={isMutating}
+                          className="rounded-sm border border-slate-300 bg-white px-2 py-0.5 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
                 </article>
               ))}
+              {nextCursor ? (
+                <button
+                  type="button"
+                  onClick={() => void loadNotifications(view, true, nextCursor)}
+                  disabled={isLoadingMore}
+                  className="w-full rounded-sm border border-slate-300 bg-white px-2.5 py-1.5 text-[11px] font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isLoadingMore ? "Loading..." : "Load more"}
+                </button>
+              ) : null}
             </div>
           )}
         </section>
@@ -0,0 +1,133 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { SavedSearch } from "@/lib/workspace/saved-searches";
+import { searchHref } from "@/lib/workspace/search-params";
+
+type PinnedSearchNavProps = {
+  pinnedSearches: SavedSearch[];
+  workspaceSlug: string;
+  mobile?: boolean;
+};
+
+type PinnedSearchesResponse = {
+  error?: string;
+  counts?: Record<string, number>;
+  cappedIds?: string[];
+};
+
+type PinnedSearchCounts = {
+  counts: Record<string, number>;
+  cappedIds: string[];
+};
+
+const COUNT_POLL_INTERVAL_MS = 45_000;
+
+// The layout renders this nav twice (sidebar and mobile bar), so both copies
+// share one request per poll.
+const sharedCountRequests = new Map<
+  string,
+  { startedAt: number; request: Promise<PinnedSearchCounts | null> }
+>();
+
+function loadPinnedSearchCounts(workspaceSlug: string) {
+  const shared = sharedCountRequests.get(workspaceSlug);
+  if (shared && Date.now() - shared.startedAt < COUNT_POLL_INTERVAL_MS / 2) {
+    return shared.request;
+  }
+
+  const request = (async () => {
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/saved-searches?pinned=1`,
+        { method: "GET" },
+      );
+      const result = (await response.json().catch(() => null)) as PinnedSearchesResponse | null;
+      if (!response.ok) return null;
+
+      return { counts: result?.counts ?? {}, cappedIds: result?.cappedIds ?? [] };
+    } catch {
+      return null;
+    }
+  })();
+  sharedCountRequests.set(workspaceSlug, { startedAt: Date.now(), request });
+  return request;
+}
+
+function countBadgeLabel(count: number, capped: boolean) {
+  if (count > 99) return "99+";
+  return capped ? `${count}+` : String(count);
+}
+
+export function PinnedSearchNav({
+  pinnedSearches,
+  workspaceSlug,
+  mobile = false,
+}: PinnedSearchNavProps) {
+  const [{ counts, cappedIds }, setCounts] = useState<PinnedSearchCounts>({
+    counts: {},
+    cappedIds: [],
+  });
+  const hasPinnedSearches = pinnedSearches.length > 0;
+
+  useEffect(() => {
+    if (!hasPinnedSearches) return;
+
+    async function loadCounts() {
+      const nextCounts = await loadPinnedSearchCounts(workspaceSlug);
+      // Badges keep their last value until the next poll succeeds.
+      if (nextCounts) setCounts(nextCounts);
+    }
+
+    void loadCounts();
+
+    // Hidden tabs skip polls and catch up when they are shown again.
+    const interval = window.setInterval(() => {
+      if (document.visibilityState === "visible") void loadCounts();
+    }, COUNT_POLL_INTERVAL_MS);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") void loadCounts();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [hasPinnedSearches, pinnedSearches, workspaceSlug]);
+
+  if (!hasPinnedSearches) return null;
+
+  return (
+    <>
+      {mobile ? null : (
+        <p className="px-3 pb-1 pt-3 text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+          Pinned searches
+        </p>
+      )}
+      {pinnedSearches.map((search) => {
+        const count = counts[search.id];
+
+        return (
+          <Link
+            key={search.id}
+            href={searchHref({ workspaceSlug, ...search })}
+            className={
+              mobile
+                ? "inline-flex items-center gap-2 rounded-md border border-dashed border-slate-400 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+                : "flex items-center justify-between gap-2 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 transition hover:bg-slate-100 hover:text-slate-900"
+            }
+          >
+            <span className="min-w-0 truncate">{search.name}</span>
+            {typeof count === "number" ? (
+              <span className="shrink-0 rounded-full bg-slate-200 px-2 py-0.5 text-[11px] font-semibold text-slate-700">
+                {countBadgeLabel(count, cappedIds.includes(search.id))}
+              </span>
+            ) : null}
+          </Link>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { SavedSearch } from "@/lib/workspace/saved-searches";
+import { searchHref, type SearchView } from "@/lib/workspace/search-params";
+
+type SavedSearchesPanelProps = {
+  workspaceSlug: string;
+  viewerUid: string;
+  canManageShared: boolean;
+  view: SearchView;
+  initialSavedSearches: SavedSearch[];
+};
+
+type SavedSearchResponse = {
+  error?: string;
+  savedSearch?: SavedSearch;
+};
+
+function sortSavedSearches(searches: SavedSearch[]) {
+  return [...searches].sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
+
+export function SavedSearchesPanel({
+  workspaceSlug,
+  viewerUid,
+  canManageShared,
+  view,
+  initialSavedSearches,
+}: SavedSearchesPanelProps) {
+  const router = useRouter();
+  const [savedSearches, setSavedSearches] = useState(initialSavedSearches);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [pinned, setPinned] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const endpoint = `/api/workspaces/${encodeURIComponent(workspaceSlug)}/saved-searches`;
+
+  async function handleSave() {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name, shared, pinned, ...view }),
+      });
+      const result = (await response.json().catch(() => null)) as SavedSearchResponse | null;
+
+      if (!response.ok || !result?.savedSearch) {
+        throw new Error(result?.error ?? "Failed to save search.");
+      }
+
+      const created = result.savedSearch;
+      setSavedSearches((current) => sortSavedSearches([...current, created]));
+      setName("");
+      setNotice(`Saved "${created.name}".`);
+      router.refresh();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save search.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleUpdate(search: SavedSearch, update: { shared?: boolean; pinned?: boolean }) {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`${endpoint}/${encodeURIComponent(search.id)}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(update),
+      });
+      const result = (await response.json().catch(() => null)) as SavedSearchResponse | null;
+
+      if (!response.ok || !result?.savedSearch) {
+        throw new Error(result?.error ?? "Failed to update saved search.");
+      }
+
+      const updated = result.savedSearch;
+      setSavedSearches((current) =>
+        current.map((entry) => (entry.id === updated.id ? updated : entry)),
+      );
+      router.refresh();
+    } catch (updateError) {
+      setError(
+        updateError instanceof Error ? updateError.message : "Failed to update saved search.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleDelete(search: SavedSearch) {
+    if (!window.confirm(`Delete saved search "${search.name}"?`)) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`${endpoint}/${encodeURIComponent(search.id)}`, {
+        method: "DELETE",
+      });
+      const result = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to delete saved search.");
+      }
+
+      setSavedSearches((current) => current.filter((entry) => entry.id !== search.id));
+      setNotice(`Deleted "${search.name}".`);
+      router.refresh();
+    } catch (deleteError) {
+      setError(
+        deleteError instanceof Error ? deleteError.message : "Failed to delete saved search.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">Saved Searches</h2>
+        <p className="mt-1 text-sm text-slate-700">
+          Save this view with its filters. Pinned searches appear in the workspace nav with a
+          result count that refreshes while the workspace is open.
+        </p>
+      </div>
+
+      <form
+        className="flex flex-wrap items-end gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void handleSave();
+        }}
+      >
+        <label className="min-w-[220px] flex-1">
+          <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-800">
+            Name
+          </span>
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={60}
+            placeholder="Blocked platform actions"
+            className="mt-1 w-full rounded-md border border-slate-400 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-slate-600"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-800">
+          <input
+            type="checkbox"
+            checked={pinned}
+            onChange={(event) => setPinned(event.target.checked)}
+          />
+          Pin to nav
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-800">
+          <input
+            type="checkbox"
+            checked={shared}
+            onChange={(event) => setShared(event.target.checked)}
+          />
+          Share with workspace
+        </label>
+        <button
+          type="submit"
+          disabled={isSubmitting || !name.trim()}
+          className="rounded-sm bg-[color:var(--accent)] px-3 py-2 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSubmitting ? "Saving..." : "Save search"}
+        </button>
+      </form>
+
+      {notice ? (
+        <p className="mt-3 rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="mt-3 rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+
+      {savedSearches.length > 0 ? (
+        <ul className="mt-4 space-y-2">
+          {savedSearches.map((search) => {
+            const isOwner = search.ownerUid === viewerUid;
+            const canDelete = isOwner || (search.shared && canManageShared);
+
+            return (
+              <li
+                key={search.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-slate-300 bg-white px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <Link
+                    href={searchHref({ workspaceSlug, ...search })}
+                    className="break-words text-sm font-semibold text-slate-900 hover:underline"
+                  >
+                    {search.name}
+                  </Link>
+                  <p className="mt-0.5 break-words text-xs text-slate-600">
+                    {search.query || "No query"}
+                    {isOwner ? "" : ` · shared by ${search.ownerName || "a teammate"}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {search.shared ? (
+                    <span className="rounded-sm border border-cyan-300 bg-cyan-50 px-2 py-1 text-[11px] font-semibold tracking-[0.08em] text-cyan-900">
+                      Shared
+                    </span>
+                  ) : null}
+                  <button
+                    type="button"
+                    disabled={isSubmitting}
+                    onClick={() => void handleUpdate(search, { pinned: !search.pinned })}
+                    className="rounded-sm border border-slate-400 bg-white px-2 py-1 text-xs font-semibold text-slate-800 transition hover:border-slate-600 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {search.pinned ? "Unpin" : "Pin"}
+                  </button>
+                  {isOwner ? (
+                    <button
+                      type="button"
+                      disabled={isSubmitting}
+                      onClick={() => void handleUpdate(search, { shared: !search.shared })}
+                      className="rounded-sm border border-slate-400 bg-white px-2 py-1 text-xs font-semibold text-slate-800 transition hover:border-slate-600 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {search.shared ? "Stop sharing" : "Share"}
+                    </button>
+                  ) : null}
+                  {canDelete ? (
+                    <button
+                      type="button"
+                      disabled={isSubmitting}
+                      onClick={() => void handleDelete(search)}
+                      className="rounded-sm border border-rose-300 bg-white px-2 py-1 text-xs font-semibold text-rose-700 transition hover:border-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Delete
+                    </button>
+                  ) : null}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-slate-600">No saved searches yet.</p>
+      )}
+    </>
+  );
+}
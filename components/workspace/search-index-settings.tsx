@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+
+type SearchIndexSettingsProps = {
+  workspaceSlug: string;
+  canRebuildIndex: boolean;
+  roleLabel: string;
+};
+
+type RebuildSearchIndexResponse = {
+  error?: string;
+  counts?: {
+    decision?: number;
+    action?: number;
+    meeting?: number;
+  };
+};
+
+export function SearchIndexSettings({
+  workspaceSlug,
+  canRebuildIndex,
+  roleLabel,
+}: SearchIndexSettingsProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function handleRebuild() {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/search-index`,
+        { method: "POST" },
+      );
+      const result = (await response.json().catch(() => null)) as
+        | RebuildSearchIndexResponse
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to rebuild search index.");
+      }
+
+      const counts = result?.counts ?? {};
+      setNotice(
+        `Indexed ${counts.decision ?? 0} decisions, ${counts.action ?? 0} actions, and ${
+          counts.meeting ?? 0
+        } meetings.`,
+      );
+    } catch (rebuildError) {
+      setError(
+        rebuildError instanceof Error ? rebuildError.message : "Failed to rebuild search index.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold tracking-tight text-slate-900">Search Index</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            Search reads from an index that updates on every decision, action, and meeting save.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void handleRebuild()}
+          disabled={isSubmitting || !canRebuildIndex}
+          className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSubmitting ? "Rebuilding..." : "Rebuild index"}
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {canRebuildIndex
+          ? "Rebuild once to include records created before the index existed."
+          : `Rebuilding the index requires owner/admin permission. Your role: ${roleLabel}.`}
+      </p>
+
+      {notice ? (
+        <p className="mt-3 rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="mt-3 rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+    </>
+  );
+}
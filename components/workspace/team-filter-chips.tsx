@@ -0,0 +1,64 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+
+type TeamOption = {
+  id: string;
+  name: string;
+};
+
+type TeamFilterChipsProps = {
+  teams: TeamOption[];
+  activeTeamId: string;
+};
+
+function teamChipClass(active: boolean) {
+  return active
+    ? "rounded-sm border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold tracking-[0.08em] text-amber-700 shadow-sm"
+    : "rounded-sm border border-slate-300 bg-slate-50 px-3 py-1.5 text-xs font-semibold tracking-[0.08em] text-slate-700 transition hover:border-slate-400 hover:bg-white hover:text-slate-900";
+}
+
+export function TeamFilterChips({ teams, activeTeamId }: TeamFilterChipsProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  if (teams.length === 0 && !activeTeamId) return null;
+
+  // The team filter is applied on the server, so navigate instead of updating
+  // local state. Other params (view, sort, q) are read from the live URL since
+  // list views sync them with replaceState.
+  function selectTeam(teamId: string) {
+    const params = new URLSearchParams(window.location.search);
+    if (teamId) {
+      params.set("team", teamId);
+    } else {
+      params.delete("team");
+    }
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  }
+
+  const options =
+    activeTeamId && !teams.some((team) => team.id === activeTeamId)
+      ? [...teams, { id: activeTeamId, name: "Unknown team" }]
+      : teams;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold tracking-[0.08em] text-slate-500">TEAM</span>
+      <button type="button" className={teamChipClass(!activeTeamId)} onClick={() => selectTeam("")}>
+        All teams
+      </button>
+      {options.map((team) => (
+        <button
+          key={team.id}
+          type="button"
+          className={teamChipClass(activeTeamId === team.id)}
+          onClick={() => selectTeam(team.id)}
+        >
+          {team.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+type TeamOption = {
+  id: string;
+  name: string;
+};
+
+type TeamsResponse = {
+  error?: string;
+  teams?: TeamOption[];
+};
+
+type TeamSelectProps = {
+  workspaceSlug: string;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  label?: string;
+  emptyLabel?: string;
+};
+
+function getErrorMessage(error: unknown) {
+  if (error instanceof Error) return error.message;
+  return "Failed to load workspace teams.";
+}
+
+export function TeamSelect({
+  workspaceSlug,
+  value,
+  onChange,
+  disabled = false,
+  label = "Team",
+  emptyLabel = "No team",
+}: TeamSelectProps) {
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadTeams() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceSlug)}/teams`);
+        const result = (await response.json().catch(() => null)) as TeamsResponse | null;
+
+        if (!response.ok) {
+          throw new Error(result?.error ?? "Failed to load workspace teams.");
+        }
+
+        setTeams(result?.teams ?? []);
+      } catch (loadError) {
+        setError(getErrorMessage(loadError));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    void loadTeams();
+  }, [workspaceSlug]);
+
+  // Keep a value that no longer matches a team selectable so saving does not
+  // silently clear it.
+  const options = useMemo(() => {
+    if (!value || isLoading || teams.some((team) => team.id === value)) return teams;
+    return [...teams, { id: value, name: `Unknown team (${value})` }];
+  }, [isLoading, teams, value]);
+
+  const helperLabel = useMemo(() => {
+    if (error) return error;
+    if (isLoading) return "Loading workspace teams...";
+    if (teams.length === 0) return "No teams yet. Owners and admins can create them in Settings.";
+    return "";
+  }, [error, isLoading, teams.length]);
+
+  return (
+    <label className="block space-y-1.5">
+      <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+        {label}
+      </span>
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        disabled={disabled || isLoading}
+        className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+      >
+        <option value="">{emptyLabel}</option>
+        {options.map((team) => (
+          <option key={team.id} value={team.id}>
+            {team.name}
+          </option>
+        ))}
+      </select>
+      {helperLabel ? (
+        <span className={`text-xs ${error ? "text-rose-700" : "text-slate-500"}`}>
+          {helperLabel}
+        </span>
+      ) : null}
+    </label>
+  );
+}
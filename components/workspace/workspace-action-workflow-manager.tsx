@@ -0,0 +1,300 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  canManageActionWorkflow,
+  parseWorkspaceMemberRole,
+  type WorkspaceMemberRole,
+} from "@/lib/auth/permissions";
+import {
+  ACTION_STATUS_CATEGORIES,
+  formatActionStatusCategory,
+  MAX_ACTION_WORKFLOW_STATES,
+  type ActionStatusCategory,
+  type ActionWorkflow,
+} from "@/lib/workspace/action-workflow";
+
+type ActionWorkflowResponse = {
+  error?: string;
+  actorRole?: WorkspaceMemberRole;
+  workflow?: ActionWorkflow;
+  migratedActions?: number;
+  migrationPending?: boolean;
+};
+
+type StateDraft = {
+  key: string;
+  id: string;
+  label: string;
+  category: ActionStatusCategory;
+};
+
+type WorkspaceActionWorkflowManagerProps = {
+  workspaceSlug: string;
+  actorRoleLabel: string;
+};
+
+const controlClassName =
+  "rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100";
+
+const smallButtonClassName =
+  "rounded-sm border border-slate-300 bg-white px-2.5 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60";
+
+function toStateDrafts(workflow: ActionWorkflow): StateDraft[] {
+  return workflow.states.map((state) => ({ key: state.id, ...state }));
+}
+
+function moveState(states: StateDraft[], index: number, offset: number) {
+  const target = index + offset;
+  if (target < 0 || target >= states.length) return states;
+  const next = [...states];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function WorkspaceActionWorkflowManager({
+  workspaceSlug,
+  actorRoleLabel,
+}: WorkspaceActionWorkflowManagerProps) {
+  const [workflow, setWorkflow] = useState<ActionWorkflow | null>(null);
+  const [states, setStates] = useState<StateDraft[]>([]);
+  const [actorRole, setActorRole] = useState<WorkspaceMemberRole>("member");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const canManage = canManageActionWorkflow(actorRole);
+  const endpoint = `/api/workspaces/${encodeURIComponent(workspaceSlug)}/action-workflow`;
+
+  const loadWorkflow = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(endpoint);
+      const result = (await response.json().catch(() => null)) as ActionWorkflowResponse | null;
+
+      if (!response.ok || !result?.workflow) {
+        throw new Error(result?.error ?? "Failed to load action workflow.");
+      }
+
+      setWorkflow(result.workflow);
+      setStates(toStateDrafts(result.workflow));
+      setActorRole(parseWorkspaceMemberRole(result.actorRole));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load action workflow.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    void loadWorkflow();
+  }, [loadWorkflow]);
+
+  function updateState(key: string, patch: Partial<StateDraft>) {
+    setStates((prev) => prev.map((state) => (state.key === key ? { ...state, ...patch } : state)));
+  }
+
+  function addState() {
+    setStates((prev) => [
+      ...prev,
+      { key: `new-${Date.now()}`, id: "", label: "", category: "open" },
+    ]);
+  }
+
+  async function handleSave() {
+    if (!canManage) return;
+
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          states: states.map(({ id, label, category }) => ({
+            id,
+            label: label.trim(),
+            category,
+          })),
+        }),
+      });
+      const result = (await response.json().catch(() => null)) as ActionWorkflowResponse | null;
+
+      if (!response.ok || !result?.workflow) {
+        throw new Error(result?.error ?? "Failed to save action workflow.");
+      }
+
+      setWorkflow(result.workflow);
+      setStates(toStateDrafts(result.workflow));
+      const migrated = result.migratedActions ?? 0;
+      const savedNotice =
+        migrated > 0
+          ? `Workflow saved. Moved ${migrated} action${migrated === 1 ? "" : "s"} out of removed statuses.`
+          : "Workflow saved.";
+      setNotice(
+        result.migrationPending
+          ? `${savedNotice} Remaining actions are updated in the background.`
+          : savedNotice,
+      );
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Failed to save action workflow.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const removedStates =
+    workflow?.states.filter((state) => !states.some((draft) => draft.id === state.id)) ?? [];
+  const disabled = !canManage || isSaving;
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">Action Workflow</h2>
+        <span className="text-sm text-slate-600">
+          {states.length} status{states.length === 1 ? "" : "es"}
+        </span>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Actions move through these statuses in order. The category decides how a status behaves:
+        open actions count toward My Work, due reminders, and digests; blocked actions ask for a
+        reason; closed actions are complete.
+      </p>
+
+      {notice ? (
+        <p className="mt-3 rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="mt-3 rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+
+      {isLoading ? (
+        <div className="mt-3 rounded-lg border border-slate-200 bg-white px-4 py-6 text-sm text-slate-600">
+          Loading action workflow...
+        </div>
+      ) : (
+        <div className="mt-3 space-y-2">
+          {states.map((state, index) => (
+            <div
+              key={state.key}
+              className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-white px-3 py-2"
+            >
+              <input
+                value={state.label}
+                onChange={(event) => updateState(state.key, { label: event.target.value })}
+                placeholder="Status name"
+                disabled={disabled}
+                className={`${controlClassName} min-w-[12rem] flex-1`}
+              />
+              <select
+                value={state.category}
+                onChange={(event) =>
+                  updateState(state.key, {
+                    category: event.target.value as ActionStatusCategory,
+                  })
+                }
+                disabled={disabled}
+                className={controlClassName}
+              >
+                {ACTION_STATUS_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {formatActionStatusCategory(category)}
+                  </option>
+                ))}
+              </select>
+              {state.id ? (
+                <span className="text-xs text-slate-500">status:{state.id}</span>
+              ) : (
+                <span className="text-xs text-slate-500">New</span>
+              )}
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => setStates((prev) => moveState(prev, index, -1))}
+                  disabled={disabled || index === 0}
+                  className={smallButtonClassName}
+                >
+                  Up
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setStates((prev) => moveState(prev, index, 1))}
+                  disabled={disabled || index === states.length - 1}
+                  className={smallButtonClassName}
+                >
+                  Down
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setStates((prev) => prev.filter((entry) => entry.key !== state.key))
+                  }
+                  disabled={disabled || states.length === 1}
+                  className="rounded-sm border border-rose-300 bg-white px-2.5 py-1.5 text-xs font-semibold text-rose-700 transition hover:border-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {removedStates.length > 0 ? (
+            <p className="rounded-sm border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+              Actions in {removedStates.map((state) => state.label).join(", ")} will move to the
+              first remaining status in the same category when you save.
+            </p>
+          ) : null}
+
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <button
+              type="button"
+              onClick={addState}
+              disabled={disabled || states.length >= MAX_ACTION_WORKFLOW_STATES}
+              className="rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Add status
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={disabled}
+              className="rounded-sm bg-[color:var(--accent)] px-3 py-2 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Save workflow
+            </button>
+            {workflow ? (
+              <button
+                type="button"
+                onClick={() => {
+                  setStates(toStateDrafts(workflow));
+                  setError(null);
+                }}
+                disabled={isSaving}
+                className="rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Reset
+              </button>
+            ) : null}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {canManage
+              ? "Renaming a status keeps its search key. Workflows need at least one open and one closed status."
+              : `Changing the workflow requires owner/admin permissions. Your role: ${actorRoleLabel}.`}
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
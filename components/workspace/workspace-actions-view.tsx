@@ -4,8 +4,15 @@ import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { ArchiveRestoreButton } from "@/components/workspace/archive-restore-button";
 import { SummaryTile, WorkspacePanel } from "@/components/workspace/primitives";
+import { CustomFieldFilter } from "@/components/workspace/custom-field-filter";
+import { TeamFilterChips } from "@/components/workspace/team-filter-chips";
+import type {
+  CustomFieldDefinition,
+  CustomFieldFilter as ActiveCustomFieldFilter,
+  CustomFieldMemberOption,
+} from "@/lib/workspace/custom-fields";
+import type { ActionStatusCategory } from "@/lib/workspace/action-workflow";
 
-type ActionStatus = "open" | "done" | "blocked";
 type ActionPriority = "high" | "medium" | "low";
 export type ActionView = "active" | "archived" | "all";
 
@@ -14,14 +21,18 @@ export type WorkspaceActionRecord = {
   title: string;
   owner: string;
   project: string;
+  teamName?: string;
   dueLabel: string;
   dueSoon: boolean;
-  status: ActionStatus;
+  status: string;
+  statusLabel: string;
+  statusCategory: ActionStatusCategory;
   priority: ActionPriority;
   updatedLabel: string;
   meetingId?: string;
   decisionId?: string;
   blockedReason?: string;
+  customFieldLabels: string[];
   sortTimestamp: number;
   archived: boolean;
 };
@@ -31,6 +42,11 @@ type WorkspaceActionsViewProps = {
   workspaceName: string;
   actions: WorkspaceActionRecord[];
   initialView: ActionView;
+  teams: Array<{ id: string; name: string }>;
+  activeTeamId: string;
+  customFields: CustomFieldDefinition[];
+  customFieldMembers: CustomFieldMemberOption[];
+  activeFieldFilter: ActiveCustomFieldFilter | null;
 };
 
 function viewChipClass(active: boolean) {
@@ -39,7 +55,7 @@ function viewChipClass(active: boolean) {
     : "rounded-sm border border-slate-300 bg-slate-50 px-3 py-1.5 text-xs font-semibold tracking-[0.08em] text-slate-700 transition hover:border-slate-400 hover:bg-white hover:text-slate-900";
 }
 
-function statusStyle(status: ActionStatus) {
+function statusStyle(status: ActionStatusCategory) {
   if (status === "open") return "border-sky-300 bg-white text-sky-700";
   if (status === "blocked") return "border-rose-300 bg-white text-rose-700";
   return "border-emerald-300 bg-white text-emerald-700";
@@ -51,7 +67,7 @@ function priorityStyle(priority: ActionPriority) {
   return "border-slate-300 bg-white text-slate-700";
 }
 
-function cardAccentStyle(status: ActionStatus) {
+function cardAccentStyle(status: ActionStatusCategory) {
   if (status === "open") return "border-l-sky-400";
   if (status === "blocked") return "border-l-rose-400";
   return "border-l-emerald-400";
@@ -82,18 +98,19 @@ function ActionCard({
 }) {
   return (
     <article
-      className={`rounded-lg border border-slate-300 border-l-4 bg-white px-4 py-4 shadow-sm transition hover:border-slate-400 ${cardAccentStyle(action.status)}`}
+      className={`rounded-lg border border-slate-300 border-l-4 bg-white px-4 py-4 shadow-sm transition hover:border-slate-400 ${cardAccentStyle(action.statusCategory)}`}
     >
       <div className="flex flex-wrap items-start justify-between gap-3">
         <div>
           <p className="text-sm font-semibold text-slate-950">{action.title}</p>
           <p className="mt-1 text-xs text-slate-700">
             {action.id} • Owner {action.owner} • {action.project}
+            {action.teamName ? ` • Team ${action.teamName}` : ""}
           </p>
         </div>
         <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold tracking-[0.08em]">
-          <span className={`rounded-sm border px-2 py-1 ${statusStyle(action.status)}`}>
-            {titleCase(action.status)}
+          <span className={`rounded-sm border px-2 py-1 ${statusStyle(action.statusCategory)}`}>
+            {action.statusLabel}
           </span>
           <span className={`rounded-sm border px-2 py-1 ${priorityStyle(action.priority)}`}>
             Priority {titleCase(action.priority)}
@@ -135,6 +152,14 @@ function ActionCard({
             Decision {action.decisionId}
           </Link>
         ) : null}
+        {action.customFieldLabels.map((label) => (
+          <span
+            key={`${action.id}-${label}`}
+            className="rounded-sm border border-indigo-200 bg-indigo-50 px-2 py-1 text-indigo-700"
+          >
+            {label}
+          </span>
+        ))}
       </div>
 
       {action.blockedReason ? (
@@ -163,6 +188,11 @@ export function WorkspaceActionsView({
   workspaceName,
   actions,
   initialView,
+  teams,
+  activeTeamId,
+  customFields,
+  customFieldMembers,
+  activeFieldFilter,
 }: WorkspaceActionsViewProps) {
   const [view, setView] = useState<ActionView>(initialView);
 
@@ -184,28 +214,28 @@ export function WorkspaceActionsView({
   );
 
   const openCount = useMemo(
-    () => activeActions.filter((item) => item.status === "open").length,
+    () => activeActions.filter((item) => item.statusCategory === "open").length,
     [activeActions],
   );
   const doneCount = useMemo(
-    () => activeActions.filter((item) => item.status === "done").length,
+    () => activeActions.filter((item) => item.statusCategory === "closed").length,
     [activeActions],
   );
   const blockedCount = useMemo(
-    () => activeActions.filter((item) => item.status === "blocked").length,
+    () => activeActions.filter((item) => item.statusCategory === "blocked").length,
     [activeActions],
   );
   const dueSoonCount = useMemo(
-    () => activeActions.filter((item) => item.status === "open" && item.dueSoon).length,
+    () => activeActions.filter((item) => item.statusCategory === "open" && item.dueSoon).length,
     [activeActions],
   );
 
   const active = useMemo(
-    () => activeActions.filter((item) => item.status !== "done"),
+    () => activeActions.filter((item) => item.statusCategory !== "closed"),
     [activeActions],
   );
   const completed = useMemo(
-    () => activeActions.filter((item) => item.status === "done"),
+    () => activeActions.filter((item) => item.statusCategory === "closed"),
     [activeActions],
   );
 
@@ -277,20 +307,28 @@ export function WorkspaceActionsView({
       </WorkspacePanel>
 
       <WorkspacePanel>
-        <div className="flex flex-wrap items-center gap-2">
-          <button type="button" className={viewChipClass(view === "active")} onClick={() => setView("active")}>
-            Active
-          </button>
-          <button
-            type="button"
-            className={viewChipClass(view === "archived")}
-            onClick={() => setView("archived")}
-          >
-            Archived
-          </button>
-          <button type="button" className={viewChipClass(view === "all")} onClick={() => setView("all")}>
-            All
-          </button>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <button type="button" className={viewChipClass(view === "active")} onClick={() => setView("active")}>
+              Active
+            </button>
+            <button
+              type="button"
+              className={viewChipClass(view === "archived")}
+              onClick={() => setView("archived")}
+            >
+              Archived
+            </button>
+            <button type="button" className={viewChipClass(view === "all")} onClick={() => setView("all")}>
+              All
+            </button>
+          </div>
+          <TeamFilterChips teams={teams} activeTeamId={activeTeamId} />
+          <CustomFieldFilter
+            fields={customFields}
+            members={customFieldMembers}
+            activeFilter={activeFieldFilter}
+          />
         </div>
       </WorkspacePanel>
 
@@ -0,0 +1,489 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  canManageCustomFields,
+  parseWorkspaceMemberRole,
+  type WorkspaceMemberRole,
+} from "@/lib/auth/permissions";
+import type {
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldType,
+} from "@/lib/workspace/custom-fields";
+
+type CustomFieldsResponse = {
+  error?: string;
+  actorRole?: WorkspaceMemberRole;
+  fields?: CustomFieldDefinition[];
+};
+
+type CustomFieldDraft = {
+  label: string;
+  description: string;
+  type: CustomFieldType;
+  optionsInput: string;
+  appliesTo: CustomFieldEntityType[];
+  required: boolean;
+};
+
+type WorkspaceCustomFieldsManagerProps = {
+  workspaceSlug: string;
+  actorRoleLabel: string;
+};
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  select: "Select",
+  multiSelect: "Multi-select",
+  date: "Date",
+  member: "Member",
+};
+
+const FIELD_TYPE_OPTIONS = Object.keys(FIELD_TYPE_LABELS) as CustomFieldType[];
+
+const ENTITY_LABELS: Record<CustomFieldEntityType, string> = {
+  decision: "Decisions",
+  action: "Actions",
+};
+
+const EMPTY_DRAFT: CustomFieldDraft = {
+  label: "",
+  description: "",
+  type: "text",
+  optionsInput: "",
+  appliesTo: ["decision", "action"],
+  required: false,
+};
+
+function toDraft(field: CustomFieldDefinition): CustomFieldDraft {
+  return {
+    label: field.label,
+    description: field.description,
+    type: field.type,
+    optionsInput: field.options.join(", "),
+    appliesTo: [...field.appliesTo],
+    required: field.required,
+  };
+}
+
+function hasOptions(type: CustomFieldType) {
+  return type === "select" || type === "multiSelect";
+}
+
+function parseOptionsInput(value: string) {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function toggleEntity(appliesTo: CustomFieldEntityType[], entity: CustomFieldEntityType) {
+  return appliesTo.includes(entity)
+    ? appliesTo.filter((entry) => entry !== entity)
+    : [...appliesTo, entity];
+}
+
+function describeField(field: CustomFieldDefinition) {
+  const parts = [
+    FIELD_TYPE_LABELS[field.type],
+    field.appliesTo.map((entity) => ENTITY_LABELS[entity]).join(" & "),
+  ];
+  if (field.required) parts.push("Required");
+  return parts.join(" • ");
+}
+
+type DraftFieldsProps = {
+  draft: CustomFieldDraft;
+  onChange: (draft: CustomFieldDraft) => void;
+  disabled: boolean;
+  allowTypeChange: boolean;
+};
+
+function DraftFields({ draft, onChange, disabled, allowTypeChange }: DraftFieldsProps) {
+  const inputClassName =
+    "w-full rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500";
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-2 sm:grid-cols-[1fr_1.4fr_auto]">
+        <input
+          value={draft.label}
+          onChange={(event) => onChange({ ...draft, label: event.target.value })}
+          placeholder="Cost impact"
+          disabled={disabled}
+          className={inputClassName}
+        />
+        <input
+          value={draft.description}
+          onChange={(event) => onChange({ ...draft, description: event.target.value })}
+          placeholder="Help text (optional)"
+          disabled={disabled}
+          className={inputClassName}
+        />
+        <select
+          value={draft.type}
+          onChange={(event) => onChange({ ...draft, type: event.target.value as CustomFieldType })}
+          disabled={disabled || !allowTypeChange}
+          className={inputClassName}
+        >
+          {FIELD_TYPE_OPTIONS.map((type) => (
+            <option key={type} value={type}>
+              {FIELD_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {hasOptions(draft.type) ? (
+        <input
+          value={draft.optionsInput}
+          onChange={(event) => onChange({ ...draft, optionsInput: event.target.value })}
+          placeholder="Options, comma separated (Low, Medium, High)"
+          disabled={disabled}
+          className={inputClassName}
+        />
+      ) : null}
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-700">
+        {(Object.keys(ENTITY_LABELS) as CustomFieldEntityType[]).map((entity) => (
+          <label key={entity} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.appliesTo.includes(entity)}
+              disabled={disabled}
+              onChange={() =>
+                onChange({ ...draft, appliesTo: toggleEntity(draft.appliesTo, entity) })
+              }
+            />
+            {ENTITY_LABELS[entity]}
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.required}
+            disabled={disabled}
+            onChange={() => onChange({ ...draft, required: !draft.required })}
+          />
+          Required
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export function WorkspaceCustomFieldsManager({
+  workspaceSlug,
+  actorRoleLabel,
+}: WorkspaceCustomFieldsManagerProps) {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [actorRole, setActorRole] = useState<WorkspaceMemberRole>("member");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [newField, setNewField] = useState<CustomFieldDraft>(EMPTY_DRAFT);
+  const [editingFieldId, setEditingFieldId] = useState("");
+  const [draft, setDraft] = useState<CustomFieldDraft | null>(null);
+
+  const canManageFields = canManageCustomFields(actorRole);
+  const basePath = `/api/workspaces/${encodeURIComponent(workspaceSlug)}/custom-fields`;
+
+  const loadFields = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceSlug)}/custom-fields`);
+      const result = (await response.json().catch(() => null)) as CustomFieldsResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to load custom fields.");
+      }
+
+      setFields(result?.fields ?? []);
+      setActorRole(parseWorkspaceMemberRole(result?.actorRole));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load custom fields.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceSlug]);
+
+  useEffect(() => {
+    void loadFields();
+  }, [loadFields]);
+
+  async function submitField(
+    url: string,
+    method: "POST" | "PATCH" | "DELETE",
+    body: Record<string, unknown> | null,
+    fallbackError: string,
+  ) {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        ...(body
+          ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+          : {}),
+      });
+      const result = (await response.json().catch(() => null)) as
+        | { error?: string; updated?: boolean }
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? fallbackError);
+      }
+
+      return result ?? {};
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : fallbackError);
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleCreate() {
+    if (!canManageFields) return;
+
+    if (!newField.label.trim()) {
+      setError("Field label is required.");
+      return;
+    }
+
+    const result = await submitField(
+      basePath,
+      "POST",
+      {
+        label: newField.label.trim(),
+        description: newField.description.trim(),
+        type: newField.type,
+        options: hasOptions(newField.type) ? parseOptionsInput(newField.optionsInput) : [],
+        appliesTo: newField.appliesTo,
+        required: newField.required,
+      },
+      "Failed to create custom field.",
+    );
+    if (!result) return;
+
+    setNewField(EMPTY_DRAFT);
+    setNotice("Custom field created.");
+    await loadFields();
+  }
+
+  async function handleSave(field: CustomFieldDefinition) {
+    if (!draft) return;
+
+    const result = await submitField(
+      `${basePath}/${encodeURIComponent(field.id)}`,
+      "PATCH",
+      {
+        label: draft.label.trim(),
+        description: draft.description.trim(),
+        ...(hasOptions(field.type) ? { options: parseOptionsInput(draft.optionsInput) } : {}),
+        appliesTo: draft.appliesTo,
+        required: draft.required,
+      },
+      "Failed to update custom field.",
+    );
+    if (!result) return;
+
+    setNotice(result.updated ? "Custom field updated." : "Custom field unchanged.");
+    setEditingFieldId("");
+    setDraft(null);
+    await loadFields();
+  }
+
+  async function handleArchive(field: CustomFieldDefinition) {
+    const result = await submitField(
+      `${basePath}/${encodeURIComponent(field.id)}`,
+      "PATCH",
+      { archived: !field.archived },
+      "Failed to update custom field.",
+    );
+    if (!result) return;
+
+    setNotice(field.archived ? `"${field.label}" restored.` : `"${field.label}" archived.`);
+    await loadFields();
+  }
+
+  async function handleDelete(field: CustomFieldDefinition) {
+    const result = await submitField(
+      `${basePath}/${encodeURIComponent(field.id)}`,
+      "DELETE",
+      null,
+      "Failed to delete custom field.",
+    );
+    if (!result) return;
+
+    setNotice(`Custom field "${field.label}" deleted.`);
+    await loadFields();
+  }
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">Custom Fields</h2>
+        <span className="text-sm text-slate-600">
+          {fields.length} field{fields.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+          Create field
+        </p>
+        <p className="mt-1 text-xs text-slate-500">
+          Custom fields appear on decision and action editors, can be filtered in lists, and are
+          searchable with <code>field:key=value</code>.
+        </p>
+        <div className="mt-3 space-y-2">
+          <DraftFields
+            draft={newField}
+            onChange={setNewField}
+            disabled={!canManageFields || isSubmitting}
+            allowTypeChange
+          />
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={!canManageFields || isSubmitting}
+            className="rounded-sm bg-[color:var(--accent)] px-3 py-2 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Create
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">
+          {canManageFields
+            ? "You can create, edit, archive, and delete custom fields. A field's type cannot change after it is created."
+            : `Managing custom fields requires owner/admin permissions. Your role: ${actorRoleLabel}.`}
+        </p>
+      </div>
+
+      {notice ? (
+        <p className="mt-3 rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="mt-3 rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+
+      {isLoading ? (
+        <div className="mt-3 rounded-lg border border-slate-200 bg-white px-4 py-6 text-sm text-slate-600">
+          Loading custom fields...
+        </div>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {fields.map((field) => {
+            const isEditing = editingFieldId === field.id && draft !== null;
+
+            return (
+              <article key={field.id} className="rounded-lg border border-slate-200 bg-white px-4 py-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">{field.label}</p>
+                    <p className="mt-1 text-xs text-slate-600">
+                      field:{field.key}
+                      {field.description ? ` • ${field.description}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold tracking-[0.08em]">
+                    <span className="rounded-sm border border-slate-300 bg-slate-50 px-2 py-1 text-slate-700">
+                      {describeField(field)}
+                    </span>
+                    {field.archived ? (
+                      <span className="rounded-sm border border-amber-200 bg-amber-50 px-2 py-1 text-amber-700">
+                        Archived
+                      </span>
+                    ) : null}
+                  </div>
+                </div>
+
+                {!isEditing ? (
+                  <>
+                    {field.options.length > 0 ? (
+                      <p className="mt-2 text-xs text-slate-600">{field.options.join(", ")}</p>
+                    ) : null}
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingFieldId(field.id);
+                          setDraft(toDraft(field));
+                        }}
+                        disabled={!canManageFields || isSubmitting}
+                        className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Edit field
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleArchive(field)}
+                        disabled={!canManageFields || isSubmitting}
+                        className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {field.archived ? "Restore" : "Archive"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleDelete(field)}
+                        disabled={!canManageFields || isSubmitting}
+                        className="rounded-sm border border-rose-300 bg-white px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:border-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="mt-3 space-y-3">
+                    <DraftFields
+                      draft={draft}
+                      onChange={setDraft}
+                      disabled={isSubmitting}
+                      allowTypeChange={false}
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => void handleSave(field)}
+                        disabled={isSubmitting}
+                        className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Save field
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingFieldId("");
+                          setDraft(null);
+                        }}
+                        disabled={isSubmitting}
+                        className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </article>
+            );
+          })}
+          {fields.length === 0 ? (
+            <p className="rounded-sm border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+              No custom fields yet.
+            </p>
+          ) : null}
+        </div>
+      )}
+    </>
+  );
+}
@@ -4,6 +4,13 @@ import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { ArchiveRestoreButton } from "@/components/workspace/archive-restore-button";
 import { SummaryTile, WorkspacePanel } from "@/components/workspace/primitives";
+import { CustomFieldFilter } from "@/components/workspace/custom-field-filter";
+import { TeamFilterChips } from "@/components/workspace/team-filter-chips";
+import type {
+  CustomFieldDefinition,
+  CustomFieldFilter as ActiveCustomFieldFilter,
+  CustomFieldMemberOption,
+} from "@/lib/workspace/custom-fields";
 
 type DecisionStatus = "proposed" | "accepted" | "superseded" | "rejected";
 type DecisionVisibility = "workspace" | "team" | "private";
@@ -18,6 +25,7 @@ export type WorkspaceDecisionRecord = {
   visibility: DecisionVisibility;
   teamLabel?: string;
   tags: string[];
+  customFieldLabels: string[];
   updatedLabel: string;
   meetingId?: string;
   supersedesDecisionId?: string;
@@ -31,6 +39,11 @@ type WorkspaceDecisionsViewProps = {
   workspaceName: string;
   decisions: WorkspaceDecisionRecord[];
   initialView: DecisionView;
+  teams: Array<{ id: string; name: string }>;
+  activeTeamId: string;
+  customFields: CustomFieldDefinition[];
+  customFieldMembers: CustomFieldMemberOption[];
+  activeFieldFilter: ActiveCustomFieldFilter | null;
 };
 
 function viewChipClass(active: boolean) {
@@ -86,6 +99,11 @@ export function WorkspaceDecisionsView({
   workspaceName,
   decisions,
   initialView,
+  teams,
+  activeTeamId,
+  customFields,
+  customFieldMembers,
+  activeFieldFilter,
 }: WorkspaceDecisionsViewProps) {
   const [view, setView] = useState<DecisionView>(initialView);
 
@@ -181,20 +199,28 @@ export function WorkspaceDecisionsView({
       </WorkspacePanel>
 
       <WorkspacePanel>
-        <div className="flex flex-wrap items-center gap-2">
-          <button type="button" className={viewChipClass(view === "active")} onClick={() => setView("active")}>
-            Active
-          </button>
-          <button
-            type="button"
-            className={viewChipClass(view === "archived")}
-            onClick={() => setView("archived")}
-          >
-            Archived
-          </button>
-          <button type="button" className={viewChipClass(view === "all")} onClick={() => setView("all")}>
-            All
-          </button>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <button type="button" className={viewChipClass(view === "active")} onClick={() => setView("active")}>
+              Active
+            </button>
+            <button
+              type="button"
+              className={viewChipClass(view === "archived")}
+              onClick={() => setView("archived")}
+            >
+              Archived
+            </button>
+            <button type="button" className={viewChipClass(view === "all")} onClick={() => setView("all")}>
+              All
+            </button>
+          </div>
+          <TeamFilterChips teams={teams} activeTeamId={activeTeamId} />
+          <CustomFieldFilter
+            fields={customFields}
+            members={customFieldMembers}
+            activeFilter={activeFieldFilter}
+          />
         </div>
       </WorkspacePanel>
 
@@ -277,6 +303,14 @@ export function WorkspaceDecisionsView({
                     #{tag}
                   </span>
                 ))}
+                {decision.customFieldLabels.map((label) => (
+                  <span
+                    key={`${decision.id}-${label}`}
+                    className="rounded-sm border border-indigo-200 bg-indigo-50 px-2 py-1 text-xs text-indigo-700"
+                  >
+                    {label}
+                  </span>
+                ))}
               </div>
 
               <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
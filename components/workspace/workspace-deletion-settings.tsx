@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { WorkspaceDeletion } from "@/lib/workspace/workspace-deletion";
+
+type DeletionResponse = {
+  error?: string;
+  deletion?: WorkspaceDeletion | null;
+  graceDays?: number;
+};
+
+type WorkspaceDeletionSettingsProps = {
+  workspaceSlug: string;
+  actorRoleLabel: string;
+  canDeleteWorkspace: boolean;
+};
+
+function formatDateLabel(value: string) {
+  if (!value) return "an unknown date";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return "an unknown date";
+  return parsed.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function WorkspaceDeletionSettings({
+  workspaceSlug,
+  actorRoleLabel,
+  canDeleteWorkspace,
+}: WorkspaceDeletionSettingsProps) {
+  const router = useRouter();
+  const [deletion, setDeletion] = useState<WorkspaceDeletion | null>(null);
+  const [graceDays, setGraceDays] = useState(0);
+  const [confirmSlug, setConfirmSlug] = useState("");
+  const [isLoading, setIsLoading] = useState(canDeleteWorkspace);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const deletionUrl = `/api/workspaces/${encodeURIComponent(workspaceSlug)}/deletion`;
+
+  const loadDeletion = useCallback(async () => {
+    if (!canDeleteWorkspace) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(deletionUrl);
+      const result = (await response.json().catch(() => null)) as DeletionResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to load workspace deletion.");
+      }
+
+      setDeletion(result?.deletion ?? null);
+      setGraceDays(result?.graceDays ?? 0);
+    } catch (loadError) {
+      const message =
+        loadError instanceof Error ? loadError.message : "Failed to load workspace deletion.";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canDeleteWorkspace, deletionUrl]);
+
+  useEffect(() => {
+    void loadDeletion();
+  }, [loadDeletion]);
+
+  async function handleDeletionAction(action: "schedule" | "restore") {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(deletionUrl, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "schedule" ? { action, confirmSlug } : { action }),
+      });
+      const result = (await response.json().catch(() => null)) as DeletionResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to update workspace deletion.");
+      }
+
+      setDeletion(result?.deletion ?? null);
+      setConfirmSlug("");
+      router.refresh();
+    } catch (submitError) {
+      const message =
+        submitError instanceof Error ? submitError.message : "Failed to update workspace deletion.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (!canDeleteWorkspace) {
+    return (
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">Delete workspace</h2>
+        <p className="mt-2 text-sm text-slate-600">
+          Deleting the workspace requires owner permission. Your role: {actorRoleLabel}.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border border-rose-200 bg-white p-4">
+        <p className="text-xs font-semibold uppercase tracking-[0.13em] text-rose-700">
+          Delete workspace
+        </p>
+
+        {isLoading ? (
+          <p className="mt-3 text-sm text-slate-600">Loading workspace deletion...</p>
+        ) : deletion ? (
+          <div className="mt-3 space-y-3">
+            <p className="text-sm text-slate-700">
+              {deletion.requestedByName} scheduled this workspace for deletion on{" "}
+              {formatDateLabel(deletion.requestedAt)}. Members have lost access, and everything
+              will be permanently deleted after {formatDateLabel(deletion.purgeAfter)}.
+            </p>
+            <button
+              type="button"
+              onClick={() => void handleDeletionAction("restore")}
+              disabled={isSubmitting}
+              className="rounded-sm bg-[color:var(--accent)] px-3 py-2 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Restore workspace
+            </button>
+          </div>
+        ) : (
+          <div className="mt-3 space-y-3">
+            <p className="text-sm text-slate-700">
+              Members lose access immediately. Owners can restore the workspace for {graceDays}{" "}
+              days; after that its members, invites, and records are permanently deleted.
+            </p>
+            <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+              <input
+                type="text"
+                value={confirmSlug}
+                onChange={(event) => setConfirmSlug(event.target.value)}
+                placeholder={`Type ${workspaceSlug} to confirm`}
+                disabled={isSubmitting}
+                aria-label="Confirm workspace slug"
+                className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+              />
+              <button
+                type="button"
+                onClick={() => void handleDeletionAction("schedule")}
+                disabled={isSubmitting || confirmSlug.trim() !== workspaceSlug}
+                className="rounded-sm border border-rose-300 bg-white px-3 py-2.5 text-sm font-semibold text-rose-700 transition hover:border-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Delete workspace
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error ? (
+        <p className="rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { WorkspaceMemberRole } from "@/lib/auth/permissions";
+import {
+  DEFAULT_WORKSPACE_DISCOVERY,
+  DISCOVERY_JOIN_ROLES,
+  type WorkspaceDiscovery,
+  type WorkspaceDiscoveryMode,
+} from "@/lib/workspace/domain-discovery";
+
+type DiscoveryResponse = {
+  error?: string;
+  discovery?: WorkspaceDiscovery;
+  actorDomain?: string;
+};
+
+type WorkspaceDomainDiscoverySettingsProps = {
+  workspaceSlug: string;
+  actorRoleLabel: string;
+  canManageDiscovery: boolean;
+};
+
+const MODE_OPTIONS: Array<{ value: WorkspaceDiscoveryMode; label: string }> = [
+  { value: "off", label: "Off" },
+  { value: "request", label: "Ask to join (managers approve)" },
+  { value: "auto_join", label: "Join automatically" },
+];
+
+function titleCase(value: string) {
+  if (!value) return "";
+  return value[0].toUpperCase() + value.slice(1);
+}
+
+export function WorkspaceDomainDiscoverySettings({
+  workspaceSlug,
+  actorRoleLabel,
+  canManageDiscovery,
+}: WorkspaceDomainDiscoverySettingsProps) {
+  const [discovery, setDiscovery] = useState<WorkspaceDiscovery>(DEFAULT_WORKSPACE_DISCOVERY);
+  const [actorDomain, setActorDomain] = useState("");
+  const [isLoading, setIsLoading] = useState(canManageDiscovery);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadDiscovery = useCallback(async () => {
+    if (!canManageDiscovery) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/discovery`,
+      );
+      const result = (await response.json().catch(() => null)) as DiscoveryResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to load domain discovery.");
+      }
+
+      const nextActorDomain = result?.actorDomain ?? "";
+      const nextDiscovery = result?.discovery ?? DEFAULT_WORKSPACE_DISCOVERY;
+      setActorDomain(nextActorDomain);
+      setDiscovery({ ...nextDiscovery, domain: nextDiscovery.domain || nextActorDomain });
+    } catch (loadError) {
+      const message =
+        loadError instanceof Error ? loadError.message : "Failed to load domain discovery.";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canManageDiscovery, workspaceSlug]);
+
+  useEffect(() => {
+    void loadDiscovery();
+  }, [loadDiscovery]);
+
+  async function handleSave() {
+    if (!canManageDiscovery) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/discovery`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(discovery),
+        },
+      );
+      const result = (await response.json().catch(() => null)) as DiscoveryResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to update domain discovery.");
+      }
+
+      const savedDiscovery = result?.discovery ?? discovery;
+      setDiscovery({ ...savedDiscovery, domain: savedDiscovery.domain || actorDomain });
+      setNotice(
+        savedDiscovery.mode === "off"
+          ? "Domain discovery turned off."
+          : `New @${savedDiscovery.domain} sign-ups will see this workspace.`,
+      );
+    } catch (saveError) {
+      const message =
+        saveError instanceof Error ? saveError.message : "Failed to update domain discovery.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  if (!canManageDiscovery) {
+    return (
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">Domain discovery</h2>
+        <p className="mt-2 text-sm text-slate-600">
+          Domain discovery requires owner/admin permission. Your role: {actorRoleLabel}.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+          Domain discovery
+        </p>
+        <p className="mt-1 text-xs text-slate-500">
+          Claim your company email domain so new teammates with a verified address find this
+          workspace during onboarding. You can only claim the domain of your own email.
+        </p>
+
+        {isLoading ? (
+          <p className="mt-3 text-sm text-slate-600">Loading domain discovery...</p>
+        ) : (
+          <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_auto_auto_auto]">
+            <input
+              type="text"
+              value={discovery.domain}
+              onChange={(event) =>
+                setDiscovery((current) => ({ ...current, domain: event.target.value }))
+              }
+              placeholder={actorDomain || "company.com"}
+              disabled={isSubmitting}
+              aria-label="Email domain"
+              className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+            />
+            <select
+              value={discovery.mode}
+              onChange={(event) =>
+                setDiscovery((current) => ({
+                  ...current,
+                  mode: event.target.value as WorkspaceDiscoveryMode,
+                }))
+              }
+              disabled={isSubmitting}
+              aria-label="Discovery mode"
+              className="rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+            >
+              {MODE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={discovery.autoJoinRole}
+              onChange={(event) =>
+                setDiscovery((current) => ({
+                  ...current,
+                  autoJoinRole: event.target.value as WorkspaceMemberRole,
+                }))
+              }
+              disabled={isSubmitting || discovery.mode !== "auto_join"}
+              aria-label="Join role"
+              className="rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+            >
+              {DISCOVERY_JOIN_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  Join as {titleCase(role)}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={isSubmitting}
+              className="rounded-sm bg-[color:var(--accent)] px-3 py-2.5 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+
+      {notice ? (
+        <p className="rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+    </>
+  );
+}
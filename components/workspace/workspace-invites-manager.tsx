@@ -1,11 +1,16 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { type ChangeEvent, useCallback, useEffect, useMemo, useState } from "react";
 import {
   parseWorkspaceMemberRole,
   type WorkspaceMemberRole,
   WORKSPACE_MEMBER_ROLES,
 } from "@/lib/auth/permissions";
+import {
+  type BulkInviteOutcome,
+  type BulkInviteRowResult,
+  MAX_BULK_INVITE_ROWS,
+} from "@/lib/workspace/bulk-invites";
 
 type InviteStatus = "pending" | "accepted" | "rejected" | "revoked" | "expired";
 type InviteEmailDeliveryStatus = "sent" | "skipped" | "failed";
@@ -38,6 +43,7 @@ type InviteRecord = {
   rejectedByEmail: string;
   revokedAt: string;
   revokedByUid: string;
+  expiryReminderSentAt: string;
   resendCount: number;
   emailDeliveryStatus: string;
   emailDeliveryProvider: string;
@@ -46,9 +52,17 @@ type InviteRecord = {
   lastEmailDeliveryAt: string;
 };
 
+type InviteExpiryCounts = {
+  expiringSoonCount: number;
+  remindedCount: number;
+  expiredCount: number;
+  reminderWindowHours: number;
+};
+
 type InvitesResponse = {
   error?: string;
   invites?: InviteRecord[];
+  expiryCounts?: InviteExpiryCounts;
   actorRole?: WorkspaceMemberRole;
   canManageInvites?: boolean;
 };
@@ -61,6 +75,14 @@ type WorkspaceInvitesManagerProps = {
 };
 
 type InviteFilter = "all" | InviteStatus;
+type InviteMode = "single" | "bulk";
+
+type BulkInviteSummary = {
+  total: number;
+  invited: number;
+  failed: number;
+  skipped: number;
+};
 
 const ROLE_OPTIONS: WorkspaceMemberRole[] = [...WORKSPACE_MEMBER_ROLES];
 const INVITE_FILTERS: Array<{ value: InviteFilter; label: string }> = [
@@ -109,6 +131,25 @@ function statusStyle(status: InviteStatus) {
   return "border-amber-200 bg-amber-50 text-amber-800";
 }
 
+function bulkOutcomeStyle(outcome: BulkInviteOutcome) {
+  if (outcome === "invited") return "text-emerald-700";
+  if (outcome === "failed" || outcome === "invalid_email" || outcome === "invalid_role") {
+    return "text-rose-700";
+  }
+  return "text-slate-600";
+}
+
+function bulkOutcomeLabel(outcome: BulkInviteOutcome) {
+  if (outcome === "invited") return "Invited";
+  if (outcome === "invalid_email") return "Invalid email";
+  if (outcome === "invalid_role") return "Invalid role";
+  if (outcome === "role_not_allowed") return "Role not allowed";
+  if (outcome === "duplicate") return "Duplicate";
+  if (outcome === "already_member") return "Already member";
+  if (outcome === "already_invited") return "Already invited";
+  return "Failed";
+}
+
 function inviteDeliveryLabel(invite: InviteRecord) {
   const status = invite.emailDeliveryStatus;
   if (status === "sent") return "Email sent";
@@ -150,11 +191,16 @@ export function WorkspaceInvitesManager({
   canManageInvites,
 }: WorkspaceInvitesManagerProps) {
   const [invites, setInvites] = useState<InviteRecord[]>([]);
+  const [expiryCounts, setExpiryCounts] = useState<InviteExpiryCounts | null>(null);
   const [isLoading, setIsLoading] = useState(canManageInvites);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [inviteEmail, setInviteEmail] = useState("");
   const [inviteRole, setInviteRole] = useState<WorkspaceMemberRole>("member");
+  const [inviteMode, setInviteMode] = useState<InviteMode>("single");
+  const [bulkInput, setBulkInput] = useState("");
+  const [bulkResults, setBulkResults] = useState<BulkInviteRowResult[]>([]);
+  const [bulkSummary, setBulkSummary] = useState<BulkInviteSummary | null>(null);
   const [statusFilter, setStatusFilter] = useState<InviteFilter>("all");
   const [emailFilter, setEmailFilter] = useState("");
   const [visibleCount, setVisibleCount] = useState(INVITE_PAGE_SIZE);
@@ -192,6 +238,7 @@ export function WorkspaceInvitesManager({
       }
 
       setInvites(result?.invites ?? []);
+      setExpiryCounts(result?.expiryCounts ?? null);
     } catch (loadError) {
       const message =
         loadError instanceof Error ? loadError.message : "Failed to load invites.";
@@ -212,13 +259,38 @@ export function WorkspaceInvitesManager({
   useEffect(() => {
     if (!canManageInvites) return;
 
+    // The stream signals invite changes as they happen; polling only runs
+    // while it is unavailable.
+    let isStreamLive = false;
+    const source =
+      typeof EventSource === "undefined"
+        ? null
+        : new EventSource(
+            `/api/workspaces/${encodeURIComponent(workspaceSlug)}/invites/stream`,
+          );
+    source?.addEventListener("open", () => {
+      isStreamLive = true;
+    });
+    source?.addEventListener("invites", () => {
+      void loadInvites({ silent: true });
+    });
+    source?.addEventListener("invites-error", () => {
+      isStreamLive = false;
+    });
+    source?.addEventListener("error", () => {
+      isStreamLive = false;
+    });
+
     const intervalId = window.setInterval(() => {
-      if (document.visibilityState !== "visible") return;
+      if (isStreamLive || document.visibilityState !== "visible") return;
       void loadInvites({ silent: true });
     }, INVITE_POLLING_INTERVAL_MS);
 
-    return () => window.clearInterval(intervalId);
-  }, [canManageInvites, loadInvites]);
+    return () => {
+      source?.close();
+      window.clearInterval(intervalId);
+    };
+  }, [canManageInvites, loadInvites, workspaceSlug]);
 
   useEffect(() => {
     setVisibleCount(INVITE_PAGE_SIZE);
@@ -328,6 +400,76 @@ export function WorkspaceInvitesManager({
     }
   }
 
+  async function handleBulkInvite() {
+    if (!canManageInvites) return;
+
+    if (!bulkInput.trim()) {
+      setError("Paste emails or choose a CSV file first.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/invites/bulk`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            input: bulkInput,
+            defaultRole: inviteRole,
+          }),
+        },
+      );
+
+      const result = (await response.json().catch(() => null)) as
+        | {
+            error?: string;
+            results?: BulkInviteRowResult[];
+            summary?: BulkInviteSummary;
+          }
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to create invites.");
+      }
+
+      setBulkResults(result?.results ?? []);
+      setBulkSummary(result?.summary ?? null);
+      if (result?.summary) {
+        setNotice(
+          `${result.summary.invited} invited, ${result.summary.skipped} skipped, ${result.summary.failed} failed.`,
+        );
+      }
+      if ((result?.summary?.invited ?? 0) > 0) {
+        setBulkInput("");
+      }
+      await loadInvites();
+    } catch (bulkError) {
+      const message =
+        bulkError instanceof Error ? bulkError.message : "Failed to create invites.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleBulkFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setBulkInput(await file.text());
+      setError(null);
+    } catch {
+      setError("Could not read the CSV file.");
+    }
+  }
+
   async function handlePatchInvite(inviteId: string, action: "revoke" | "resend") {
     if (!canManageInvites) return;
 
@@ -414,43 +556,143 @@ export function WorkspaceInvitesManager({
   return (
     <>
       <div className="rounded-lg border border-slate-200 bg-white p-4">
-        <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
-          Invite by email
-        </p>
-        <p className="mt-1 text-xs text-slate-500">
-          Generate a secure invite link. The invite can be accepted only by the invited email.
-        </p>
-
-        <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_auto_auto]">
-          <input
-            type="email"
-            value={inviteEmail}
-            onChange={(event) => setInviteEmail(event.target.value)}
-            placeholder="teammate@company.com"
-            disabled={isSubmitting}
-            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
-          />
-          <select
-            value={inviteRole}
-            onChange={(event) => setInviteRole(normalizeRole(event.target.value))}
-            disabled={isSubmitting}
-            className="rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
-          >
-            {roleOptions.map((role) => (
-              <option key={role} value={role}>
-                {titleCase(role)}
-              </option>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+            {inviteMode === "single" ? "Invite by email" : "Bulk invite"}
+          </p>
+          <div className="flex gap-1">
+            {(["single", "bulk"] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setInviteMode(mode)}
+                className={`rounded-sm border px-2.5 py-1 text-xs font-semibold tracking-[0.06em] ${
+                  inviteMode === mode
+                    ? "border-cyan-300 bg-cyan-50 text-cyan-800"
+                    : "border-slate-300 bg-white text-slate-700 hover:border-slate-500"
+                }`}
+              >
+                {mode === "single" ? "Single" : "Bulk"}
+              </button>
             ))}
-          </select>
-          <button
-            type="button"
-            onClick={() => void handleCreateInvite()}
-            disabled={isSubmitting}
-            className="rounded-sm bg-[color:var(--accent)] px-3 py-2.5 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
-          >
-            Create
-          </button>
+          </div>
         </div>
+        {inviteMode === "single" ? (
+          <>
+            <p className="mt-1 text-xs text-slate-500">
+              Generate a secure invite link. The invite can be accepted only by the invited email.
+            </p>
+
+            <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_auto_auto]">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(event) => setInviteEmail(event.target.value)}
+                placeholder="teammate@company.com"
+                disabled={isSubmitting}
+                className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+              />
+              <select
+                value={inviteRole}
+                onChange={(event) => setInviteRole(normalizeRole(event.target.value))}
+                disabled={isSubmitting}
+                className="rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+              >
+                {roleOptions.map((role) => (
+                  <option key={role} value={role}>
+                    {titleCase(role)}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => void handleCreateInvite()}
+                disabled={isSubmitting}
+                className="rounded-sm bg-[color:var(--accent)] px-3 py-2.5 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Create
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="mt-1 text-xs text-slate-500">
+              Paste up to {MAX_BULK_INVITE_ROWS} emails, or a CSV with <code>email,role</code> columns.
+              Rows without a role use the selected default.
+            </p>
+
+            <textarea
+              value={bulkInput}
+              onChange={(event) => setBulkInput(event.target.value)}
+              placeholder={"email,role\nana@company.com,member\nben@company.com,viewer"}
+              rows={6}
+              disabled={isSubmitting}
+              className="mt-3 w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 font-mono text-xs text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+            />
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <label className="cursor-pointer rounded-sm border border-slate-300 bg-white px-3 py-2 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900">
+                Choose CSV
+                <input
+                  type="file"
+                  accept=".csv,text/csv,text/plain"
+                  onChange={(event) => void handleBulkFile(event)}
+                  disabled={isSubmitting}
+                  className="sr-only"
+                />
+              </label>
+              <select
+                value={inviteRole}
+                onChange={(event) => setInviteRole(normalizeRole(event.target.value))}
+                disabled={isSubmitting}
+                aria-label="Default role"
+                className="rounded-sm border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+              >
+                {roleOptions.map((role) => (
+                  <option key={role} value={role}>
+                    Default: {titleCase(role)}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => void handleBulkInvite()}
+                disabled={isSubmitting}
+                className="rounded-sm bg-[color:var(--accent)] px-3 py-2 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isSubmitting ? "Sending..." : "Send invites"}
+              </button>
+            </div>
+
+            {bulkSummary && bulkResults.length > 0 ? (
+              <div className="mt-3 max-h-[320px] overflow-y-auto rounded-sm border border-slate-200">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-slate-50 text-slate-600">
+                    <tr>
+                      <th className="px-3 py-2 font-semibold">Row</th>
+                      <th className="px-3 py-2 font-semibold">Email</th>
+                      <th className="px-3 py-2 font-semibold">Role</th>
+                      <th className="px-3 py-2 font-semibold">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bulkResults.map((result) => (
+                      <tr key={`${result.line}-${result.email}`} className="border-t border-slate-200">
+                        <td className="px-3 py-2 text-slate-500">{result.line}</td>
+                        <td className="px-3 py-2 text-slate-900">{result.email || "(blank)"}</td>
+                        <td className="px-3 py-2 text-slate-700">{titleCase(result.role)}</td>
+                        <td className={`px-3 py-2 ${bulkOutcomeStyle(result.outcome)}`}>
+                          <span className="font-semibold">{bulkOutcomeLabel(result.outcome)}</span>
+                          {" • "}
+                          {result.message}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+          </>
+        )}
       </div>
 
       {notice ? (
@@ -476,6 +718,13 @@ export function WorkspaceInvitesManager({
               Showing {visibleInvites.length} of {filteredInvites.length} filtered invites ({invites.length} total)
               {isRefreshing ? " • refreshing..." : ""}
             </p>
+            {expiryCounts ? (
+              <p className="text-xs text-slate-600">
+                {expiryCounts.expiringSoonCount} expiring in the next{" "}
+                {expiryCounts.reminderWindowHours}h ({expiryCounts.remindedCount} reminded) •{" "}
+                {expiryCounts.expiredCount} expired unaccepted
+              </p>
+            ) : null}
             <button
               type="button"
               onClick={() => void loadInvites({ silent: true })}
@@ -538,6 +787,9 @@ export function WorkspaceInvitesManager({
                           <p className="text-sm font-semibold text-slate-900">{invite.email}</p>
                           <p className="mt-1 text-xs text-slate-600">
                             Role {titleCase(invite.role)} • Expires {formatDateLabel(invite.expiresAt)}
+                            {invite.status === "pending" && invite.expiryReminderSentAt
+                              ? ` • Reminder sent ${formatDateLabel(invite.expiryReminderSentAt)}`
+                              : ""}
                           </p>
                           <p className="mt-1 text-xs text-slate-500">
                             {invite.targetUserExists
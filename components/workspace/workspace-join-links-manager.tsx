@@ -0,0 +1,363 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { parseWorkspaceMemberRole, type WorkspaceMemberRole } from "@/lib/auth/permissions";
+import {
+  DEFAULT_JOIN_LINK_EXPIRY_DAYS,
+  DEFAULT_JOIN_LINK_MAX_USES,
+  JOIN_LINK_EXPIRY_DAYS_OPTIONS,
+  JOIN_LINK_ROLES,
+  MAX_JOIN_LINK_USES,
+  type JoinLinkStatus,
+} from "@/lib/workspace/join-links";
+
+type JoinLinkRecord = {
+  id: string;
+  role: WorkspaceMemberRole;
+  status: JoinLinkStatus;
+  allowedDomains: string[];
+  maxUses: number;
+  useCount: number;
+  joinUrl: string;
+  createdByUid: string;
+  createdByName: string;
+  expiresAt: string;
+  createdAt: string;
+  lastUsedAt: string;
+  revokedAt: string;
+};
+
+type JoinLinksResponse = {
+  error?: string;
+  joinLinks?: JoinLinkRecord[];
+};
+
+type WorkspaceJoinLinksManagerProps = {
+  workspaceSlug: string;
+  actorRoleLabel: string;
+  canManageJoinLinks: boolean;
+};
+
+function titleCase(value: string) {
+  if (!value) return "";
+  return value[0].toUpperCase() + value.slice(1);
+}
+
+function formatDateLabel(value: string) {
+  if (!value) return "Not set";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return "Not set";
+
+  return parsed.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function statusStyle(status: JoinLinkStatus) {
+  if (status === "active") return "border-cyan-200 bg-cyan-50 text-cyan-800";
+  if (status === "revoked") return "border-slate-200 bg-slate-100 text-slate-700";
+  return "border-amber-200 bg-amber-50 text-amber-800";
+}
+
+export function WorkspaceJoinLinksManager({
+  workspaceSlug,
+  actorRoleLabel,
+  canManageJoinLinks,
+}: WorkspaceJoinLinksManagerProps) {
+  const [joinLinks, setJoinLinks] = useState<JoinLinkRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(canManageJoinLinks);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [linkRole, setLinkRole] = useState<WorkspaceMemberRole>("member");
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_JOIN_LINK_EXPIRY_DAYS);
+  const [maxUses, setMaxUses] = useState(String(DEFAULT_JOIN_LINK_MAX_USES));
+  const [allowedDomains, setAllowedDomains] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadJoinLinks = useCallback(async () => {
+    if (!canManageJoinLinks) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/join-links`,
+      );
+      const result = (await response.json().catch(() => null)) as JoinLinksResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to load join links.");
+      }
+
+      setJoinLinks(result?.joinLinks ?? []);
+    } catch (loadError) {
+      const message =
+        loadError instanceof Error ? loadError.message : "Failed to load join links.";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canManageJoinLinks, workspaceSlug]);
+
+  useEffect(() => {
+    void loadJoinLinks();
+  }, [loadJoinLinks]);
+
+  async function handleCreateJoinLink() {
+    if (!canManageJoinLinks) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/join-links`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            role: linkRole,
+            expiresInDays,
+            maxUses: Number(maxUses),
+            allowedDomains,
+          }),
+        },
+      );
+      const result = (await response.json().catch(() => null)) as
+        | { error?: string; joinLink?: { joinUrl?: string } }
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to create join link.");
+      }
+
+      setAllowedDomains("");
+      setNotice(
+        result?.joinLink?.joinUrl
+          ? `Join link created: ${result.joinLink.joinUrl}`
+          : "Join link created.",
+      );
+      await loadJoinLinks();
+    } catch (createError) {
+      const message =
+        createError instanceof Error ? createError.message : "Failed to create join link.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleRevokeJoinLink(linkId: string) {
+    if (!canManageJoinLinks) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/join-links/${encodeURIComponent(linkId)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "revoke" }),
+        },
+      );
+      const result = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to revoke join link.");
+      }
+
+      setNotice("Join link revoked.");
+      await loadJoinLinks();
+    } catch (revokeError) {
+      const message =
+        revokeError instanceof Error ? revokeError.message : "Failed to revoke join link.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleCopyJoinLink(joinUrl: string) {
+    if (!joinUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(joinUrl);
+      setNotice("Join link copied.");
+      setError(null);
+    } catch {
+      setError("Could not copy link. Copy it manually from the field.");
+    }
+  }
+
+  if (!canManageJoinLinks) {
+    return (
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">Join links</h2>
+        <p className="mt-2 text-sm text-slate-600">
+          Join link management requires owner/admin permission. Your role: {actorRoleLabel}.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+          Create join link
+        </p>
+        <p className="mt-1 text-xs text-slate-500">
+          Anyone with the link can join until it expires or runs out of uses. Add domains to
+          limit it to company email addresses.
+        </p>
+
+        <div className="mt-3 grid gap-2 sm:grid-cols-[auto_auto_auto_1fr_auto]">
+          <select
+            value={linkRole}
+            onChange={(event) => setLinkRole(parseWorkspaceMemberRole(event.target.value))}
+            disabled={isSubmitting}
+            aria-label="Role"
+            className="rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+          >
+            {JOIN_LINK_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {titleCase(role)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={expiresInDays}
+            onChange={(event) => setExpiresInDays(Number(event.target.value))}
+            disabled={isSubmitting}
+            aria-label="Expires after"
+            className="rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+          >
+            {JOIN_LINK_EXPIRY_DAYS_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days === 1 ? "1 day" : `${days} days`}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            max={MAX_JOIN_LINK_USES}
+            value={maxUses}
+            onChange={(event) => setMaxUses(event.target.value)}
+            disabled={isSubmitting}
+            aria-label="Maximum uses"
+            className="w-24 rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+          />
+          <input
+            type="text"
+            value={allowedDomains}
+            onChange={(event) => setAllowedDomains(event.target.value)}
+            placeholder="company.com, partner.io (optional)"
+            disabled={isSubmitting}
+            aria-label="Allowed email domains"
+            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+          />
+          <button
+            type="button"
+            onClick={() => void handleCreateJoinLink()}
+            disabled={isSubmitting}
+            className="rounded-sm bg-[color:var(--accent)] px-3 py-2.5 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Create
+          </button>
+        </div>
+      </div>
+
+      {notice ? (
+        <p className="rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+
+      {isLoading ? (
+        <div className="rounded-lg border border-slate-200 bg-white px-4 py-6 text-sm text-slate-600">
+          Loading join links...
+        </div>
+      ) : joinLinks.length === 0 ? (
+        <div className="rounded-lg border border-slate-200 bg-white px-4 py-6 text-sm text-slate-600">
+          No join links yet.
+        </div>
+      ) : (
+        <div className="space-y-3 rounded-lg border border-slate-200 bg-white p-3">
+          {joinLinks.map((joinLink) => (
+            <article
+              key={joinLink.id}
+              className="rounded-lg border border-slate-200 bg-white px-4 py-3"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {titleCase(joinLink.role)} link
+                    {" • "}
+                    {joinLink.allowedDomains.length > 0
+                      ? joinLink.allowedDomains.map((domain) => `@${domain}`).join(", ")
+                      : "Any email"}
+                  </p>
+                  <p className="mt-1 text-xs text-slate-600">
+                    Used {joinLink.useCount} of {joinLink.maxUses} • Expires{" "}
+                    {formatDateLabel(joinLink.expiresAt)}
+                  </p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    Created by {joinLink.createdByName} on {formatDateLabel(joinLink.createdAt)}
+                    {joinLink.lastUsedAt ? ` • Last used ${formatDateLabel(joinLink.lastUsedAt)}` : ""}
+                  </p>
+                </div>
+                <span
+                  className={`rounded-sm border px-2 py-1 text-[11px] font-semibold tracking-[0.08em] ${statusStyle(joinLink.status)}`}
+                >
+                  {joinLink.status.toUpperCase()}
+                </span>
+              </div>
+
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <input
+                  readOnly
+                  value={joinLink.joinUrl}
+                  className="min-w-[220px] flex-1 rounded-sm border border-slate-300 bg-slate-50 px-3 py-1.5 text-xs text-slate-700"
+                />
+                <button
+                  type="button"
+                  onClick={() => void handleCopyJoinLink(joinLink.joinUrl)}
+                  className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900"
+                >
+                  Copy link
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void handleRevokeJoinLink(joinLink.id)}
+                  disabled={joinLink.status === "revoked" || isSubmitting}
+                  className="rounded-sm border border-rose-300 bg-white px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:border-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Revoke
+                </button>
+              </div>
+            </article>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
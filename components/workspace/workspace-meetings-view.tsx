@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { SummaryTile, WorkspacePanel } from "@/components/workspace/primitives";
+import { TeamFilterChips } from "@/components/workspace/team-filter-chips";
 
 type MeetingState = "scheduled" | "inProgress" | "completed";
 type DigestState = "sent" | "pending";
@@ -25,6 +26,19 @@ export type WorkspaceMeetingRecord = {
   owner: string;
   isMine: boolean;
   sortTimestamp: number;
+  series: {
+    id: string;
+    title: string;
+    recurrenceLabel: string;
+    occurrence: number;
+  } | null;
+};
+
+type MeetingSeriesGroup = {
+  id: string;
+  title: string;
+  recurrenceLabel: string;
+  occurrences: WorkspaceMeetingRecord[];
 };
 
 type WorkspaceMeetingsViewProps = {
@@ -33,6 +47,8 @@ type WorkspaceMeetingsViewProps = {
   meetings: WorkspaceMeetingRecord[];
   initialView: MeetingView;
   initialSort: MeetingSort;
+  teams: Array<{ id: string; name: string }>;
+  activeTeamId: string;
 };
 
 function meetingStateStyle(state: MeetingState) {
@@ -108,6 +124,7 @@ function MeetingCard({
           <p className="text-sm font-semibold text-slate-900">{meeting.title}</p>
           <p className="mt-1 text-xs text-slate-600">
             {meeting.id} • {meeting.team} • {meeting.timeLabel} • {meeting.duration}
+            {meeting.series ? ` • Occurrence ${meeting.series.occurrence}` : ""}
           </p>
         </div>
         <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold tracking-[0.08em]">
@@ -171,6 +188,8 @@ export function WorkspaceMeetingsView({
   meetings,
   initialView,
   initialSort,
+  teams,
+  activeTeamId,
 }: WorkspaceMeetingsViewProps) {
   const [view, setView] = useState<MeetingView>(initialView);
   const [sort, setSort] = useState<MeetingSort>(initialSort);
@@ -205,12 +224,37 @@ export function WorkspaceMeetingsView({
     [meetings, sort, view],
   );
 
+  const seriesGroups = useMemo(() => {
+    const groups = new Map<string, MeetingSeriesGroup>();
+    visibleMeetings.forEach((meeting) => {
+      if (!meeting.series) return;
+      const group = groups.get(meeting.series.id) ?? {
+        id: meeting.series.id,
+        title: meeting.series.title,
+        recurrenceLabel: meeting.series.recurrenceLabel,
+        occurrences: [],
+      };
+      group.occurrences.push(meeting);
+      groups.set(meeting.series.id, group);
+    });
+
+    // Groups keep the order of their most relevant occurrence under the active sort;
+    // occurrences inside a group always read newest first.
+    return Array.from(groups.values()).map((group) => ({
+      ...group,
+      occurrences: [...group.occurrences].sort(
+        (a, b) => (b.series?.occurrence ?? 0) - (a.series?.occurrence ?? 0),
+      ),
+    }));
+  }, [visibleMeetings]);
   const upcoming = useMemo(
-    () => visibleMeetings.filter((meeting) => meeting.state !== "completed"),
+    () =>
+      visibleMeetings.filter((meeting) => !meeting.series && meeting.state !== "completed"),
     [visibleMeetings],
   );
   const recent = useMemo(
-    () => visibleMeetings.filter((meeting) => meeting.state === "completed"),
+    () =>
+      visibleMeetings.filter((meeting) => !meeting.series && meeting.state === "completed"),
     [visibleMeetings],
   );
   const digestPending = useMemo(
@@ -304,6 +348,11 @@ export function WorkspaceMeetingsView({
             </button>
           </div>
         </div>
+        {teams.length > 0 || activeTeamId ? (
+          <div className="mt-3">
+            <TeamFilterChips teams={teams} activeTeamId={activeTeamId} />
+          </div>
+        ) : null}
       </WorkspacePanel>
 
       <WorkspacePanel>
@@ -334,6 +383,43 @@ export function WorkspaceMeetingsView({
           </div>
         ) : (
           <div className="space-y-6">
+            {seriesGroups.length > 0 ? (
+              <section>
+                <div className="mb-3 flex items-center justify-between">
+                  <h3 className="text-lg font-semibold tracking-tight text-slate-900">
+                    Recurring Series
+                  </h3>
+                  <span className="text-sm text-slate-600">{seriesGroups.length} series</span>
+                </div>
+                <div className="space-y-4">
+                  {seriesGroups.map((group) => (
+                    <div key={`series-${group.id}`} className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+                      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                        <div>
+                          <p className="text-sm font-semibold text-slate-900">{group.title}</p>
+                          <p className="mt-1 text-xs text-slate-600">
+                            {group.id} • {group.recurrenceLabel}
+                          </p>
+                        </div>
+                        <span className="text-xs font-semibold tracking-[0.08em] text-slate-600">
+                          {group.occurrences.length} occurrences
+                        </span>
+                      </div>
+                      <div className="space-y-3">
+                        {group.occurrences.map((meeting) => (
+                          <MeetingCard
+                            key={`series-${group.id}-${meeting.id}`}
+                            meeting={meeting}
+                            workspaceSlug={workspaceSlug}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ) : null}
+
             <section>
               <div className="mb-3 flex items-center justify-between">
                 <h3 className="text-lg font-semibold tracking-tight text-slate-900">
@@ -1,19 +1,21 @@
 "use client";
 
 import { FormEvent, useMemo, useState } from "react";
-
-type NotificationValues = {
-  meetingDigests: boolean;
-  actionReminders: boolean;
-  weeklySummary: boolean;
-  productAnnouncements: boolean;
-};
+import {
+  NOTIFICATION_EVENT_DEFINITIONS,
+  hasPreferenceChanges,
+  type LegacyNotificationValues,
+  type NotificationChannel,
+  type NotificationEventType,
+  type NotificationPreferences,
+  type NotificationQuietHours,
+} from "@/lib/notifications/preferences";
 
 type WorkspaceMemberProfileEditorProps = {
   workspaceSlug: string;
   initialDisplayName: string;
   initialJobTitle: string;
-  initialNotifications: NotificationValues;
+  initialPreferences: NotificationPreferences;
   email: string;
   roleLabel: string;
   statusLabel: string;
@@ -25,7 +27,8 @@ type WorkspaceProfileApiResponse = {
   profile?: {
     displayName: string;
     jobTitle: string;
-    notifications: NotificationValues;
+    notifications: LegacyNotificationValues;
+    preferences: NotificationPreferences;
     email: string;
     role: string;
     status: string;
@@ -40,20 +43,16 @@ function normalizeJobTitle(value: string) {
   return value.replace(/\s+/g, " ").trim().slice(0, 120);
 }
 
-function hasNotificationChanges(a: NotificationValues, b: NotificationValues) {
-  return (
-    a.meetingDigests !== b.meetingDigests ||
-    a.actionReminders !== b.actionReminders ||
-    a.weeklySummary !== b.weeklySummary ||
-    a.productAnnouncements !== b.productAnnouncements
-  );
-}
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: "In-app",
+  email: "Email",
+};
 
 export function WorkspaceMemberProfileEditor({
   workspaceSlug,
   initialDisplayName,
   initialJobTitle,
-  initialNotifications,
+  initialPreferences,
   email,
   roleLabel,
   statusLabel,
@@ -62,11 +61,11 @@ export function WorkspaceMemberProfileEditor({
   const normalizedInitialJobTitle = normalizeJobTitle(initialJobTitle);
   const [savedDisplayName, setSavedDisplayName] = useState(normalizedInitialDisplayName);
   const [savedJobTitle, setSavedJobTitle] = useState(normalizedInitialJobTitle);
-  const [savedNotifications, setSavedNotifications] =
-    useState<NotificationValues>(initialNotifications);
+  const [savedPreferences, setSavedPreferences] =
+    useState<NotificationPreferences>(initialPreferences);
   const [displayNameInput, setDisplayNameInput] = useState(normalizedInitialDisplayName);
   const [jobTitleInput, setJobTitleInput] = useState(normalizedInitialJobTitle);
-  const [notifications, setNotifications] = useState<NotificationValues>(initialNotifications);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(initialPreferences);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
@@ -79,7 +78,27 @@ export function WorkspaceMemberProfileEditor({
   const hasChanges =
     normalizedDisplayName !== savedDisplayName ||
     normalizedJobTitle !== savedJobTitle ||
-    hasNotificationChanges(notifications, savedNotifications);
+    hasPreferenceChanges(preferences, savedPreferences);
+
+  function toggleChannel(eventType: NotificationEventType, channel: NotificationChannel) {
+    setPreferences((prev) => ({
+      ...prev,
+      channels: {
+        ...prev.channels,
+        [eventType]: {
+          ...prev.channels[eventType],
+          [channel]: !prev.channels[eventType][channel],
+        },
+      },
+    }));
+  }
+
+  function updateQuietHours(patch: Partial<NotificationQuietHours>) {
+    setPreferences((prev) => ({
+      ...prev,
+      quietHours: { ...prev.quietHours, ...patch },
+    }));
+  }
 
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -96,7 +115,7 @@ export function WorkspaceMemberProfileEditor({
           body: JSON.stringify({
             displayName: normalizedDisplayName,
             jobTitle: normalizedJobTitle,
-            notifications,
+            preferences,
           }),
         },
       );
@@ -117,15 +136,15 @@ export function WorkspaceMemberProfileEditor({
         typeof result?.profile?.jobTitle === "string"
           ? result.profile.jobTitle
           : normalizedJobTitle;
-      const nextNotifications = result?.profile?.notifications ?? notifications;
+      const nextPreferences = result?.profile?.preferences ?? preferences;
       const wasUpdated = result?.updated === true;
 
       setSavedDisplayName(nextDisplayName);
       setSavedJobTitle(nextJobTitle);
-      setSavedNotifications(nextNotifications);
+      setSavedPreferences(nextPreferences);
       setDisplayNameInput(nextDisplayName);
       setJobTitleInput(nextJobTitle);
-      setNotifications(nextNotifications);
+      setPreferences(nextPreferences);
       setNotice(wasUpdated ? "Workspace profile updated." : "No profile changes.");
     } catch (submitError) {
       const message =
@@ -141,7 +160,7 @@ export function WorkspaceMemberProfileEditor({
   function handleReset() {
     setDisplayNameInput(savedDisplayName);
     setJobTitleInput(savedJobTitle);
-    setNotifications(savedNotifications);
+    setPreferences(savedPreferences);
     setError(null);
     setNotice(null);
   }
@@ -182,47 +201,88 @@ export function WorkspaceMemberProfileEditor({
         <h3 className="text-sm font-semibold uppercase tracking-[0.12em] text-slate-700">
           Workspace Notifications
         </h3>
+        <p className="mt-1 text-xs text-slate-500">
+          Choose how each kind of notification reaches you. Workspace invites are always
+          emailed.
+        </p>
+        <div className="mt-3 space-y-2">
+          {NOTIFICATION_EVENT_DEFINITIONS.map((definition) => (
+            <div
+              key={definition.type}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-sm border border-slate-200 bg-white px-3 py-2.5"
+            >
+              <div>
+                <p className="text-sm text-slate-700">{definition.label}</p>
+                <p className="text-xs text-slate-500">{definition.description}</p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {definition.channels.map((channel) => (
+                  <PreferenceToggle
+                    key={channel}
+                    label={CHANNEL_LABELS[channel]}
+                    enabled={preferences.channels[definition.type][channel]}
+                    onToggle={() => toggleChannel(definition.type, channel)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold uppercase tracking-[0.12em] text-slate-700">
+          Quiet Hours
+        </h3>
+        <p className="mt-1 text-xs text-slate-500">
+          Notification emails are held during quiet hours and sent when they end. In-app
+          notifications still arrive.
+        </p>
         <div className="mt-3 space-y-2">
           <PreferenceToggle
-            label="Meeting digest emails"
-            enabled={notifications.meetingDigests}
-            onToggle={() =>
-              setNotifications((prev) => ({
-                ...prev,
-                meetingDigests: !prev.meetingDigests,
-              }))
-            }
-          />
-          <PreferenceToggle
-            label="Action due reminders"
-            enabled={notifications.actionReminders}
-            onToggle={() =>
-              setNotifications((prev) => ({
-                ...prev,
-                actionReminders: !prev.actionReminders,
-              }))
-            }
-          />
-          <PreferenceToggle
-            label="Weekly workspace summary"
-            enabled={notifications.weeklySummary}
-            onToggle={() =>
-              setNotifications((prev) => ({
-                ...prev,
-                weeklySummary: !prev.weeklySummary,
-              }))
-            }
-          />
-          <PreferenceToggle
-            label="Product announcements"
-            enabled={notifications.productAnnouncements}
-            onToggle={() =>
-              setNotifications((prev) => ({
-                ...prev,
-                productAnnouncements: !prev.productAnnouncements,
-              }))
-            }
+            label="Pause notification emails during quiet hours"
+            enabled={preferences.quietHours.enabled}
+            onToggle={() => updateQuietHours({ enabled: !preferences.quietHours.enabled })}
+            fullWidth
           />
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="block space-y-1.5">
+              <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+                Start
+              </span>
+              <input
+                type="time"
+                value={preferences.quietHours.start}
+                onChange={(event) => updateQuietHours({ start: event.target.value })}
+                disabled={!preferences.quietHours.enabled}
+                className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:bg-slate-100 disabled:text-slate-500"
+              />
+            </label>
+            <label className="block space-y-1.5">
+              <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+                End
+              </span>
+              <input
+                type="time"
+                value={preferences.quietHours.end}
+                onChange={(event) => updateQuietHours({ end: event.target.value })}
+                disabled={!preferences.quietHours.enabled}
+                className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:bg-slate-100 disabled:text-slate-500"
+              />
+            </label>
+            <label className="block space-y-1.5">
+              <span className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+                Timezone
+              </span>
+              <input
+                value={preferences.quietHours.timezone}
+                onChange={(event) => updateQuietHours({ timezone: event.target.value })}
+                disabled={!preferences.quietHours.enabled}
+                placeholder="America/Los_Angeles"
+                className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:bg-slate-100 disabled:text-slate-500"
+              />
+            </label>
+          </div>
         </div>
       </div>
 
@@ -282,16 +342,21 @@ function PreferenceToggle({
   label,
   enabled,
   onToggle,
+  fullWidth = false,
 }: {
   label: string;
   enabled: boolean;
   onToggle: () => void;
+  fullWidth?: boolean;
 }) {
   return (
     <button
       type="button"
       onClick={onToggle}
-      className="flex w-full items-center justify-between gap-3 rounded-sm border border-slate-200 bg-white px-3 py-2.5 text-left"
+      aria-pressed={enabled}
+      className={`flex items-center justify-between gap-3 rounded-sm border border-slate-200 bg-white px-3 py-2.5 text-left ${
+        fullWidth ? "w-full" : ""
+      }`}
     >
       <span className="text-sm text-slate-700">{label}</span>
       <span
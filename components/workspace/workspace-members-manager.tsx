@@ -7,6 +7,7 @@ import {
   type WorkspaceMemberRole,
   WORKSPACE_MEMBER_ROLES,
 } from "@/lib/auth/permissions";
+import { DISCOVERY_JOIN_ROLES } from "@/lib/workspace/domain-discovery";
 
 type MemberRecord = {
   uid: string;
@@ -14,6 +15,7 @@ type MemberRecord = {
   email: string;
   role: WorkspaceMemberRole;
   status: string;
+  teams?: Array<{ id: string; name: string }>;
   joinedAt?: string | null;
 };
 
@@ -25,6 +27,13 @@ type MembersResponse = {
   members?: MemberRecord[];
 };
 
+type JoinRequestRecord = {
+  uid: string;
+  email: string;
+  displayName: string;
+  requestedAt: string;
+};
+
 type WorkspaceMembersManagerProps = {
   workspaceSlug: string;
   canManageMembers: boolean;
@@ -53,6 +62,12 @@ function roleStyle(role: WorkspaceMemberRole) {
   return "border-slate-200 bg-slate-100 text-slate-700";
 }
 
+function formatRequestedLabel(value: string) {
+  const parsed = new Date(value);
+  if (!value || Number.isNaN(parsed.getTime())) return "Requested recently";
+  return `Requested ${parsed.toLocaleDateString("en-US", { month: "short", day: "numeric" })}`;
+}
+
 function statusStyle(status: string) {
   if (status === "active") return "border-emerald-200 bg-emerald-50 text-emerald-700";
   return "border-amber-200 bg-amber-50 text-amber-700";
@@ -72,6 +87,8 @@ export function WorkspaceMembersManager({
   const [actorRole, setActorRole] = useState<WorkspaceMemberRole>("member");
   const [inviteEmail, setInviteEmail] = useState("");
   const [inviteRole, setInviteRole] = useState<WorkspaceMemberRole>("member");
+  const [joinRequests, setJoinRequests] = useState<JoinRequestRecord[]>([]);
+  const [requestRoles, setRequestRoles] = useState<Record<string, WorkspaceMemberRole>>({});
 
   const effectiveCanManage = canManageMembers && canManageWorkspaceMembers(actorRole);
   const canAssignOwner = actorRole === "owner";
@@ -108,10 +125,74 @@ export function WorkspaceMembersManager({
     }
   }, [workspaceSlug]);
 
+  const loadJoinRequests = useCallback(async () => {
+    if (!canManageMembers) return;
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/join-requests`,
+      );
+      const result = (await response.json().catch(() => null)) as
+        | { error?: string; joinRequests?: JoinRequestRecord[] }
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to load join requests.");
+      }
+
+      setJoinRequests(result?.joinRequests ?? []);
+    } catch (loadError) {
+      const message =
+        loadError instanceof Error ? loadError.message : "Failed to load join requests.";
+      setError(message);
+    }
+  }, [canManageMembers, workspaceSlug]);
+
   useEffect(() => {
     void loadMembers();
   }, [loadMembers]);
 
+  useEffect(() => {
+    void loadJoinRequests();
+  }, [loadJoinRequests]);
+
+  async function handleJoinRequest(requestUid: string, action: "approve" | "decline") {
+    if (!effectiveCanManage) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/join-requests/${encodeURIComponent(requestUid)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action,
+            role: requestRoles[requestUid] ?? "member",
+          }),
+        },
+      );
+
+      const result = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to update join request.");
+      }
+
+      setNotice(action === "approve" ? "Join request approved." : "Join request declined.");
+      await Promise.all([loadJoinRequests(), loadMembers()]);
+    } catch (submitError) {
+      const message =
+        submitError instanceof Error ? submitError.message : "Failed to update join request.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
   async function handleInvite() {
     if (!effectiveCanManage) return;
 
@@ -274,7 +355,7 @@ export function WorkspaceMembersManager({
         </div>
         <p className="mt-2 text-xs text-slate-500">
           {effectiveCanManage
-            ? "You can add members and manage roles."
+            ? "You can add members and manage roles. Team membership is managed under Teams."
             : `Member management requires owner/admin permissions. Your role: ${actorRoleLabel}.`}
         </p>
       </div>
@@ -291,6 +372,68 @@ export function WorkspaceMembersManager({
         </p>
       ) : null}
 
+      {effectiveCanManage && joinRequests.length > 0 ? (
+        <div className="rounded-lg border border-cyan-200 bg-white p-4">
+          <p className="text-xs font-semibold uppercase tracking-[0.13em] text-cyan-800">
+            Join requests ({joinRequests.length})
+          </p>
+          <p className="mt-1 text-xs text-slate-500">
+            People from your claimed email domain who asked to join this workspace.
+          </p>
+          <ul className="mt-3 space-y-2">
+            {joinRequests.map((joinRequest) => (
+              <li
+                key={joinRequest.uid}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-sm border border-slate-200 px-3 py-2"
+              >
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">{joinRequest.displayName}</p>
+                  <p className="mt-0.5 text-xs text-slate-600">
+                    {joinRequest.email} • {formatRequestedLabel(joinRequest.requestedAt)}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={requestRoles[joinRequest.uid] ?? "member"}
+                    onChange={(event) =>
+                      setRequestRoles((current) => ({
+                        ...current,
+                        [joinRequest.uid]: normalizeRole(event.target.value),
+                      }))
+                    }
+                    disabled={isSubmitting}
+                    aria-label={`Role for ${joinRequest.displayName}`}
+                    className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+                  >
+                    {DISCOVERY_JOIN_ROLES.map((role) => (
+                      <option key={`${joinRequest.uid}-${role}`} value={role}>
+                        {titleCase(role)}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => void handleJoinRequest(joinRequest.uid, "approve")}
+                    disabled={isSubmitting}
+                    className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleJoinRequest(joinRequest.uid, "decline")}
+                    disabled={isSubmitting}
+                    className="rounded-sm border border-rose-300 bg-white px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:border-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
       {isLoading ? (
         <div className="rounded-lg border border-slate-200 bg-white px-4 py-6 text-sm text-slate-600">
           Loading members...
@@ -303,6 +446,7 @@ export function WorkspaceMembersManager({
             const canEditOwnerMember = actorRole === "owner" || !isOwnerMember;
             const canEditRole = effectiveCanManage && !isSelf && canEditOwnerMember;
             const canRemoveMember = effectiveCanManage && !isSelf && canEditOwnerMember;
+            const memberTeams = member.teams ?? [];
             const memberRoleOptions = roleOptions.includes(member.role)
               ? roleOptions
               : ([member.role, ...roleOptions] as WorkspaceMemberRole[]);
@@ -325,6 +469,14 @@ export function WorkspaceMembersManager({
                     <span className={`rounded-sm border px-2 py-1 ${statusStyle(member.status)}`}>
                       {titleCase(member.status)}
                     </span>
+                    {memberTeams.map((team) => (
+                      <span
+                        key={`${member.uid}-team-${team.id}`}
+                        className="rounded-sm border border-amber-200 bg-amber-50 px-2 py-1 text-amber-700"
+                      >
+                        {team.name}
+                      </span>
+                    ))}
                   </div>
                 </div>
 
@@ -0,0 +1,270 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { WorkspaceMemberRole } from "@/lib/auth/permissions";
+import type { OwnershipTransfer } from "@/lib/workspace/ownership-transfer";
+
+type TransferAction = "accept" | "decline" | "cancel";
+
+type TransferResponse = {
+  error?: string;
+  actorUid?: string;
+  canTransfer?: boolean;
+  transfer?: OwnershipTransfer | null;
+};
+
+type MemberOption = {
+  uid: string;
+  displayName: string;
+  email: string;
+  role: WorkspaceMemberRole;
+};
+
+type MembersResponse = {
+  error?: string;
+  members?: MemberOption[];
+};
+
+type WorkspaceOwnershipTransferProps = {
+  workspaceSlug: string;
+  actorRoleLabel: string;
+};
+
+function formatDateLabel(value: string) {
+  if (!value) return "";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return "";
+  return parsed.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export function WorkspaceOwnershipTransfer({
+  workspaceSlug,
+  actorRoleLabel,
+}: WorkspaceOwnershipTransferProps) {
+  const router = useRouter();
+  const [actorUid, setActorUid] = useState("");
+  const [canTransfer, setCanTransfer] = useState(false);
+  const [transfer, setTransfer] = useState<OwnershipTransfer | null>(null);
+  const [candidates, setCandidates] = useState<MemberOption[]>([]);
+  const [selectedUid, setSelectedUid] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const transferUrl = `/api/workspaces/${encodeURIComponent(workspaceSlug)}/ownership-transfer`;
+
+  const loadTransfer = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(transferUrl);
+      const result = (await response.json().catch(() => null)) as TransferResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to load ownership transfer.");
+      }
+
+      setActorUid(result?.actorUid ?? "");
+      setCanTransfer(result?.canTransfer === true);
+      setTransfer(result?.transfer ?? null);
+
+      if (result?.canTransfer) {
+        const membersResponse = await fetch(
+          `/api/workspaces/${encodeURIComponent(workspaceSlug)}/members`,
+        );
+        const membersResult = (await membersResponse.json().catch(() => null)) as
+          | MembersResponse
+          | null;
+        if (!membersResponse.ok) {
+          throw new Error(membersResult?.error ?? "Failed to load members.");
+        }
+        setCandidates((membersResult?.members ?? []).filter((member) => member.role !== "owner"));
+      }
+    } catch (loadError) {
+      const message =
+        loadError instanceof Error ? loadError.message : "Failed to load ownership transfer.";
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [transferUrl, workspaceSlug]);
+
+  useEffect(() => {
+    void loadTransfer();
+  }, [loadTransfer]);
+
+  async function handleRequestTransfer() {
+    if (!selectedUid) {
+      setError("Choose a member to transfer ownership to.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(transferUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ toUid: selectedUid }),
+      });
+      const result = (await response.json().catch(() => null)) as TransferResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to start ownership transfer.");
+      }
+
+      setTransfer(result?.transfer ?? null);
+      setSelectedUid("");
+      setNotice(
+        `Transfer requested. ${result?.transfer?.toName ?? "The member"} must accept it before ownership changes.`,
+      );
+    } catch (submitError) {
+      const message =
+        submitError instanceof Error ? submitError.message : "Failed to start ownership transfer.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleTransferAction(action: TransferAction) {
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(transferUrl, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const result = (await response.json().catch(() => null)) as TransferResponse | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to update ownership transfer.");
+      }
+
+      setTransfer(null);
+      if (action === "accept") {
+        setNotice("You are now an owner of this workspace.");
+        router.refresh();
+      } else {
+        setNotice(action === "decline" ? "Transfer declined." : "Transfer cancelled.");
+      }
+    } catch (submitError) {
+      const message =
+        submitError instanceof Error ? submitError.message : "Failed to update ownership transfer.";
+      setError(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const isRecipient = transfer !== null && transfer.toUid === actorUid;
+
+  return (
+    <>
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+          Ownership transfer
+        </p>
+        <p className="mt-1 text-xs text-slate-500">
+          Owners can hand the workspace to another member. Ownership only changes once the
+          recipient accepts; the current owner then becomes an admin.
+        </p>
+
+        {isLoading ? (
+          <p className="mt-3 text-sm text-slate-600">Loading ownership transfer...</p>
+        ) : isRecipient && transfer ? (
+          <div className="mt-3 rounded-sm border border-cyan-200 bg-cyan-50 px-3 py-3">
+            <p className="text-sm text-cyan-900">
+              {transfer.fromName} wants to make you the owner of this workspace
+              {transfer.requestedAt ? ` (requested ${formatDateLabel(transfer.requestedAt)})` : ""}.
+            </p>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => void handleTransferAction("accept")}
+                disabled={isSubmitting}
+                className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Accept ownership
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleTransferAction("decline")}
+                disabled={isSubmitting}
+                className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        ) : !canTransfer ? (
+          <p className="mt-3 text-sm text-slate-600">
+            Ownership transfer requires owner permission. Your role: {actorRoleLabel}.
+          </p>
+        ) : transfer ? (
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-sm border border-amber-200 bg-amber-50 px-3 py-2">
+            <p className="text-sm text-amber-800">
+              Waiting for {transfer.toName} to accept ownership from {transfer.fromName}.
+            </p>
+            <button
+              type="button"
+              onClick={() => void handleTransferAction("cancel")}
+              disabled={isSubmitting}
+              className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Cancel transfer
+            </button>
+          </div>
+        ) : (
+          <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_auto]">
+            <select
+              value={selectedUid}
+              onChange={(event) => setSelectedUid(event.target.value)}
+              disabled={isSubmitting || candidates.length === 0}
+              aria-label="New owner"
+              className="rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+            >
+              <option value="">
+                {candidates.length === 0 ? "No other members to transfer to" : "Choose a member..."}
+              </option>
+              {candidates.map((member) => (
+                <option key={member.uid} value={member.uid}>
+                  {member.displayName}
+                  {member.email && member.email !== member.displayName ? ` (${member.email})` : ""}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void handleRequestTransfer()}
+              disabled={isSubmitting || !selectedUid}
+              className="rounded-sm bg-[color:var(--accent)] px-3 py-2.5 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Request transfer
+            </button>
+          </div>
+        )}
+      </div>
+
+      {notice ? (
+        <p className="rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+    </>
+  );
+}
@@ -6,6 +6,11 @@ import type {
   KeyboardEvent as ReactKeyboardEvent,
   MouseEvent as ReactMouseEvent,
 } from "react";
+import {
+  parseSearchQuery,
+  removeSearchQueryPart,
+  type SearchQueryPartKind,
+} from "@/lib/workspace/search-query";
 
 type MentionOption = {
   uid: string;
@@ -20,7 +25,9 @@ type WorkspaceSearchBoxProps = {
   kind: "all" | "decision" | "action" | "meeting";
   updated: "all" | "7d" | "30d";
   sort: "relevance" | "recent";
+  team: string;
   mentionOptions: MentionOption[];
+  statusIds: string[];
 };
 
 type MentionContext = {
@@ -82,6 +89,13 @@ function resolveMentionContext(value: string, cursor: number | null): MentionCon
   };
 }
 
+function queryPartChipClass(kind: SearchQueryPartKind) {
+  if (kind === "invalid") return "border-rose-300 bg-rose-50 text-rose-800";
+  if (kind === "exclude") return "border-amber-300 bg-amber-50 text-amber-900";
+  if (kind === "mention") return "border-cyan-300 bg-cyan-50 text-cyan-900";
+  return "border-slate-400 bg-slate-100 text-slate-900";
+}
+
 function mentionLabel(option: MentionOption) {
   const displayName = normalizeText(option.displayName);
   const email = normalizeText(option.email);
@@ -105,7 +119,9 @@ export function WorkspaceSearchBox({
   kind,
   updated,
   sort,
+  team,
   mentionOptions,
+  statusIds,
 }: WorkspaceSearchBoxProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
@@ -129,6 +145,14 @@ export function WorkspaceSearchBox({
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
+  const parsedQuery = useMemo(
+    () => parseSearchQuery(initialQuery, statusIds),
+    [initialQuery, statusIds],
+  );
+  const queryChips = parsedQuery.parts
+    .map((part, index) => ({ part, index }))
+    .filter(({ part }) => part.kind !== "term");
+
   const mentionIndex = useMemo(() => {
     return mentionOptions.map((option) => ({
       ...option,
@@ -264,6 +288,14 @@ export function WorkspaceSearchBox({
     formRef.current.requestSubmit();
   }
 
+  function handleRemovePart(index: number) {
+    if (!inputRef.current || !formRef.current) return;
+    const nextValue = removeSearchQueryPart(parsedQuery, index);
+    inputRef.current.value = nextValue;
+    setQueryValue(nextValue);
+    formRef.current.requestSubmit();
+  }
+
   return (
     <form
       ref={formRef}
@@ -274,6 +306,7 @@ export function WorkspaceSearchBox({
       {kind !== "all" ? <input type="hidden" name="kind" value={kind} /> : null}
       {updated !== "all" ? <input type="hidden" name="updated" value={updated} /> : null}
       {sort !== "relevance" ? <input type="hidden" name="sort" value={sort} /> : null}
+      {team ? <input type="hidden" name="team" value={team} /> : null}
       <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
         <div className="relative min-w-[220px] flex-1">
           <label className="flex items-center gap-2 rounded-lg px-2.5 py-2.5">
@@ -359,6 +392,38 @@ export function WorkspaceSearchBox({
           ) : null}
         </div>
       </div>
+
+      {queryChips.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-1.5 border-t border-slate-200 px-2.5 pb-1 pt-2">
+          {queryChips.map(({ part, index }) => (
+            <span
+              key={`query-part-${index}-${part.raw}`}
+              title={part.error || undefined}
+              className={`inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-[11px] font-semibold ${queryPartChipClass(part.kind)}`}
+            >
+              {part.label}
+              <button
+                type="button"
+                onClick={() => handleRemovePart(index)}
+                aria-label={`Remove ${part.label}`}
+                className="rounded px-0.5 text-current opacity-70 transition hover:opacity-100"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {parsedQuery.errors.length > 0 ? (
+        <ul className="mx-2.5 mb-1 mt-1.5 space-y-0.5 rounded-md border border-rose-200 bg-rose-50 px-2.5 py-1.5 text-[11px] text-rose-800">
+          {parsedQuery.errors.map((error, index) => (
+            <li key={`query-error-${index}-${error.raw}`}>
+              <span className="font-semibold">{error.raw}</span> was ignored: {error.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
     </form>
   );
 }
@@ -0,0 +1,465 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  canEditTeamMembership,
+  canManageWorkspaceTeams,
+  parseWorkspaceMemberRole,
+  type WorkspaceMemberRole,
+} from "@/lib/auth/permissions";
+
+type TeamRecord = {
+  id: string;
+  name: string;
+  description: string;
+  leadUids: string[];
+  memberUids: string[];
+};
+
+type MemberOption = {
+  uid: string;
+  displayName: string;
+  email: string;
+};
+
+type TeamsResponse = {
+  error?: string;
+  actorUid?: string;
+  actorRole?: WorkspaceMemberRole;
+  teams?: TeamRecord[];
+};
+
+type MembersResponse = {
+  error?: string;
+  members?: MemberOption[];
+};
+
+type TeamDraft = {
+  name: string;
+  description: string;
+  leadUids: string[];
+  memberUids: string[];
+};
+
+type WorkspaceTeamsManagerProps = {
+  workspaceSlug: string;
+  actorRoleLabel: string;
+};
+
+function toDraft(team: TeamRecord): TeamDraft {
+  return {
+    name: team.name,
+    description: team.description,
+    leadUids: [...team.leadUids],
+    memberUids: [...team.memberUids],
+  };
+}
+
+function toggleUid(uids: string[], uid: string) {
+  return uids.includes(uid) ? uids.filter((entry) => entry !== uid) : [...uids, uid];
+}
+
+export function WorkspaceTeamsManager({ workspaceSlug, actorRoleLabel }: WorkspaceTeamsManagerProps) {
+  const [teams, setTeams] = useState<TeamRecord[]>([]);
+  const [members, setMembers] = useState<MemberOption[]>([]);
+  const [actorUid, setActorUid] = useState("");
+  const [actorRole, setActorRole] = useState<WorkspaceMemberRole>("member");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [newTeamName, setNewTeamName] = useState("");
+  const [newTeamDescription, setNewTeamDescription] = useState("");
+  const [editingTeamId, setEditingTeamId] = useState("");
+  const [draft, setDraft] = useState<TeamDraft | null>(null);
+
+  const canManageTeams = canManageWorkspaceTeams(actorRole);
+  const memberByUid = useMemo(
+    () => new Map(members.map((member) => [member.uid, member])),
+    [members],
+  );
+
+  const loadTeams = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const basePath = `/api/workspaces/${encodeURIComponent(workspaceSlug)}`;
+      const [teamsResponse, membersResponse] = await Promise.all([
+        fetch(`${basePath}/teams`),
+        fetch(`${basePath}/members`),
+      ]);
+      const teamsResult = (await teamsResponse.json().catch(() => null)) as TeamsResponse | null;
+      const membersResult = (await membersResponse.json().catch(() => null)) as
+        | MembersResponse
+        | null;
+
+      if (!teamsResponse.ok) {
+        throw new Error(teamsResult?.error ?? "Failed to load teams.");
+      }
+      if (!membersResponse.ok) {
+        throw new Error(membersResult?.error ?? "Failed to load members.");
+      }
+
+      setTeams(teamsResult?.teams ?? []);
+      setMembers(membersResult?.members ?? []);
+      setActorUid(teamsResult?.actorUid ?? "");
+      setActorRole(parseWorkspaceMemberRole(teamsResult?.actorRole));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load teams.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceSlug]);
+
+  useEffect(() => {
+    void loadTeams();
+  }, [loadTeams]);
+
+  function memberLabel(uid: string) {
+    const member = memberByUid.get(uid);
+    return member?.displayName || member?.email || uid;
+  }
+
+  async function handleCreate() {
+    if (!canManageTeams) return;
+
+    const name = newTeamName.trim();
+    if (!name) {
+      setError("Team name is required.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceSlug)}/teams`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description: newTeamDescription.trim() }),
+      });
+      const result = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to create team.");
+      }
+
+      setNewTeamName("");
+      setNewTeamDescription("");
+      setNotice("Team created.");
+      await loadTeams();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to create team.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleSave(team: TeamRecord) {
+    if (!draft) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/teams/${encodeURIComponent(team.id)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            canManageTeams
+              ? {
+                  name: draft.name.trim(),
+                  description: draft.description.trim(),
+                  leadUids: draft.leadUids,
+                  memberUids: draft.memberUids,
+                }
+              : { memberUids: draft.memberUids },
+          ),
+        },
+      );
+      const result = (await response.json().catch(() => null)) as
+        | { error?: string; updated?: boolean }
+        | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to update team.");
+      }
+
+      setNotice(result?.updated ? "Team updated." : "Team unchanged.");
+      setEditingTeamId("");
+      setDraft(null);
+      await loadTeams();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to update team.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleDelete(team: TeamRecord) {
+    if (!canManageTeams) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${encodeURIComponent(workspaceSlug)}/teams/${encodeURIComponent(team.id)}`,
+        { method: "DELETE" },
+      );
+      const result = (await response.json().catch(() => null)) as { error?: string } | null;
+
+      if (!response.ok) {
+        throw new Error(result?.error ?? "Failed to delete team.");
+      }
+
+      setNotice(`Team "${team.name}" deleted.`);
+      await loadTeams();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to delete team.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold tracking-tight text-slate-900">Teams</h2>
+        <span className="text-sm text-slate-600">
+          {teams.length} team{teams.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-4">
+        <p className="text-xs font-semibold uppercase tracking-[0.13em] text-slate-600">
+          Create team
+        </p>
+        <p className="mt-1 text-xs text-slate-500">
+          Meetings, decisions, and actions can be assigned to a team and filtered by it.
+        </p>
+        <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_1.4fr_auto]">
+          <input
+            value={newTeamName}
+            onChange={(event) => setNewTeamName(event.target.value)}
+            placeholder="Platform"
+            disabled={!canManageTeams || isSubmitting}
+            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+          />
+          <input
+            value={newTeamDescription}
+            onChange={(event) => setNewTeamDescription(event.target.value)}
+            placeholder="What this team owns (optional)"
+            disabled={!canManageTeams || isSubmitting}
+            className="w-full rounded-sm border border-slate-300 bg-white px-3 py-2.5 text-sm text-slate-900 disabled:cursor-not-allowed disabled:bg-slate-100 disabled:text-slate-500"
+          />
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={!canManageTeams || isSubmitting}
+            className="rounded-sm bg-[color:var(--accent)] px-3 py-2.5 text-sm font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Create
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">
+          {canManageTeams
+            ? "You can create teams, set leads, and manage membership."
+            : `Creating teams requires owner/admin permissions. Team leads can manage their own team's members. Your role: ${actorRoleLabel}.`}
+        </p>
+      </div>
+
+      {notice ? (
+        <p className="mt-3 rounded-sm border border-teal-200 bg-teal-50 px-3 py-2 text-sm text-teal-700">
+          {notice}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="mt-3 rounded-sm border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+
+      {isLoading ? (
+        <div className="mt-3 rounded-lg border border-slate-200 bg-white px-4 py-6 text-sm text-slate-600">
+          Loading teams...
+        </div>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {teams.map((team) => {
+            const isEditing = editingTeamId === team.id && draft !== null;
+            const canEditMembers = canEditTeamMembership(actorRole, actorUid, team);
+
+            return (
+              <article key={team.id} className="rounded-lg border border-slate-200 bg-white px-4 py-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">{team.name}</p>
+                    <p className="mt-1 text-xs text-slate-600">
+                      {team.id}
+                      {team.description ? ` • ${team.description}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-[11px] font-semibold tracking-[0.08em]">
+                    {team.leadUids.map((uid) => (
+                      <span
+                        key={`${team.id}-lead-${uid}`}
+                        className="rounded-sm border border-violet-200 bg-violet-50 px-2 py-1 text-violet-700"
+                      >
+                        Lead {memberLabel(uid)}
+                      </span>
+                    ))}
+                    <span className="rounded-sm border border-slate-300 bg-slate-50 px-2 py-1 text-slate-700">
+                      {team.memberUids.length} member{team.memberUids.length === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                </div>
+
+                {!isEditing ? (
+                  <>
+                    <p className="mt-2 text-xs text-slate-600">
+                      {team.memberUids.length > 0
+                        ? team.memberUids.map(memberLabel).join(", ")
+                        : "No members yet."}
+                    </p>
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingTeamId(team.id);
+                          setDraft(toDraft(team));
+                        }}
+                        disabled={!canEditMembers || isSubmitting}
+                        className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Edit team
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void handleDelete(team)}
+                        disabled={!canManageTeams || isSubmitting}
+                        className="rounded-sm border border-rose-300 bg-white px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:border-rose-500 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="mt-3 space-y-3">
+                    {canManageTeams ? (
+                      <div className="grid gap-2 sm:grid-cols-[1fr_1.4fr]">
+                        <input
+                          value={draft.name}
+                          onChange={(event) =>
+                            setDraft((prev) => (prev ? { ...prev, name: event.target.value } : prev))
+                          }
+                          disabled={isSubmitting}
+                          className="w-full rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900"
+                        />
+                        <input
+                          value={draft.description}
+                          onChange={(event) =>
+                            setDraft((prev) =>
+                              prev ? { ...prev, description: event.target.value } : prev,
+                            )
+                          }
+                          placeholder="Description"
+                          disabled={isSubmitting}
+                          className="w-full rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900"
+                        />
+                      </div>
+                    ) : null}
+
+                    <ul className="grid gap-1.5 sm:grid-cols-2">
+                      {members.map((member) => {
+                        const isMember = draft.memberUids.includes(member.uid);
+                        const isLead = draft.leadUids.includes(member.uid);
+
+                        return (
+                          <li
+                            key={`${team.id}-member-${member.uid}`}
+                            className="flex items-center justify-between gap-2 rounded-sm border border-slate-200 px-3 py-1.5 text-xs text-slate-700"
+                          >
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={isMember}
+                                disabled={isSubmitting || isLead}
+                                onChange={() =>
+                                  setDraft((prev) =>
+                                    prev
+                                      ? { ...prev, memberUids: toggleUid(prev.memberUids, member.uid) }
+                                      : prev,
+                                  )
+                                }
+                              />
+                              {member.displayName || member.email}
+                            </label>
+                            {canManageTeams ? (
+                              <label className="flex items-center gap-1 text-[11px] font-semibold tracking-[0.08em] text-violet-700">
+                                <input
+                                  type="checkbox"
+                                  checked={isLead}
+                                  disabled={isSubmitting}
+                                  onChange={() =>
+                                    setDraft((prev) => {
+                                      if (!prev) return prev;
+                                      const leadUids = toggleUid(prev.leadUids, member.uid);
+                                      const memberUids = leadUids.includes(member.uid)
+                                        ? Array.from(new Set([...prev.memberUids, member.uid]))
+                                        : prev.memberUids;
+                                      return { ...prev, leadUids, memberUids };
+                                    })
+                                  }
+                                />
+                                Lead
+                              </label>
+                            ) : null}
+                          </li>
+                        );
+                      })}
+                    </ul>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => void handleSave(team)}
+                        disabled={isSubmitting}
+                        className="rounded-sm bg-[color:var(--accent)] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[color:var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Save team
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingTeamId("");
+                          setDraft(null);
+                        }}
+                        disabled={isSubmitting}
+                        className="rounded-sm border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-500 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </article>
+            );
+          })}
+          {teams.length === 0 ? (
+            <p className="rounded-sm border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+              No teams yet.
+            </p>
+          ) : null}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+import "server-only";
+
+import type { NextRequest } from "next/server";
+
+type SendEvent = (event: string, data: unknown) => void;
+
+// Returns an unsubscribe callback that runs when the client disconnects.
+type SubscribeEvents = (send: SendEvent) => () => void;
+
+// Resolves to false (or rejects) once the client may no longer receive events.
+type CheckStreamAccess = () => Promise<boolean>;
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const RECONNECT_DELAY_MS = 5_000;
+
+// Server-sent events keep one response open per tab. Heartbeats stop proxies
+// from closing idle connections, and `retry` tells EventSource how long to
+// wait before reconnecting. Access is checked again on every heartbeat; when
+// it is lost the stream closes, and the reconnect gets the route's 401 or 403.
+export function createEventStreamResponse(
+  request: NextRequest,
+  checkAccess: CheckStreamAccess,
+  subscribe: SubscribeEvents,
+) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      const unsubscribe = subscribe((event, data) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      });
+      let isCheckingAccess = false;
+      const heartbeat = setInterval(() => {
+        write(": heartbeat\n\n");
+        if (isCheckingAccess) return;
+
+        isCheckingAccess = true;
+        void checkAccess()
+          .catch(() => false)
+          .then((hasAccess) => {
+            isCheckingAccess = false;
+            if (!hasAccess) cleanup();
+          });
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener("abort", cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime.
+        }
+      };
+
+      request.signal.addEventListener("abort", cleanup);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import "server-only";
+
+import { timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// Scheduled jobs have no session, so the scheduler presents CRON_SECRET as a
+// bearer token. Jobs stay disabled until the secret is configured.
+export function authorizeJobRequest(request: NextRequest) {
+  const secret = normalizeText(process.env.CRON_SECRET);
+  if (!secret) {
+    throw new Error("JOBS_NOT_CONFIGURED");
+  }
+
+  const header = normalizeText(request.headers.get("authorization"));
+  const token = header.toLowerCase().startsWith("bearer ") ? header.slice(7).trim() : "";
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    throw new Error("UNAUTHORIZED");
+  }
+}
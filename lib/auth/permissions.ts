@@ -64,3 +64,84 @@ export function canEditActions(role: WorkspaceMemberRole) {
 export function canArchiveRestoreActions(role: WorkspaceMemberRole) {
   return isWorkspaceManagerRole(role);
 }
+
+export function canManageWorkspaceTeams(role: WorkspaceMemberRole) {
+  return isWorkspaceManagerRole(role);
+}
+
+export function canManageCustomFields(role: WorkspaceMemberRole) {
+  return isWorkspaceManagerRole(role);
+}
+
+export function canManageActionWorkflow(role: WorkspaceMemberRole) {
+  return isWorkspaceManagerRole(role);
+}
+
+// Team leads may change who is on their own team; renaming, leads, and deletion
+// stay with workspace managers.
+export function canEditTeamMembership(
+  role: WorkspaceMemberRole,
+  uid: string,
+  team: { leadUids: string[] },
+) {
+  if (canManageWorkspaceTeams(role)) return true;
+  return role !== "viewer" && team.leadUids.includes(uid);
+}
+
+export type DecisionVisibility = "workspace" | "team" | "private";
+
+export type DecisionAccessViewer = {
+  uid: string;
+  role: WorkspaceMemberRole;
+  teamIds: string[];
+};
+
+export type DecisionAccessRecord = {
+  visibility?: unknown;
+  allowedTeamIds?: unknown;
+  ownerUid?: unknown;
+  createdBy?: unknown;
+};
+
+export function parseDecisionVisibility(value: unknown): DecisionVisibility {
+  const normalized = normalizeText(value);
+  if (normalized === "team" || normalized === "private") {
+    return normalized;
+  }
+  return "workspace";
+}
+
+// Mirrors `canReadDecision` in firestore.rules: managers, the creator and the
+// recorded owner always see a decision; "team" additionally opens it to members
+// of any allowed team.
+export function canViewDecision(viewer: DecisionAccessViewer, decision: DecisionAccessRecord) {
+  const visibility = parseDecisionVisibility(decision.visibility);
+  if (visibility === "workspace") return true;
+  if (isWorkspaceManagerRole(viewer.role)) return true;
+
+  const uid = normalizeText(viewer.uid);
+  if (
+    uid &&
+    (normalizeText(decision.createdBy) === uid || normalizeText(decision.ownerUid) === uid)
+  ) {
+    return true;
+  }
+
+  if (visibility === "private") return false;
+
+  const allowedTeamIds = Array.isArray(decision.allowedTeamIds)
+    ? decision.allowedTeamIds.map(normalizeText).filter(Boolean)
+    : [];
+  const viewerTeamIds = new Set(viewer.teamIds.map(normalizeText).filter(Boolean));
+  return allowedTeamIds.some((teamId) => viewerTeamIds.has(teamId));
+}
+
+// Emails such as meeting digests can go to addresses outside the workspace
+// (no viewer), which only ever receive workspace-visible decisions.
+export function canEmailDecision(
+  viewer: DecisionAccessViewer | null,
+  decision: DecisionAccessRecord,
+) {
+  if (!viewer) return parseDecisionVisibility(decision.visibility) === "workspace";
+  return canViewDecision(viewer, decision);
+}
@@ -45,6 +45,7 @@ export type WorkspaceAccessContext = {
   workspaceId: string;
   workspaceSlug: string;
   workspaceName: string;
+  pendingDeletion: boolean;
   accessibleWorkspaces: ResolvedWorkspace[];
   membershipRole: WorkspaceMemberRole;
   membershipRoleLabel: string;
@@ -180,7 +181,9 @@ const loadWorkspaceAccess = cache(
         (workspaceCandidate) => workspaceCandidate.workspaceSlug !== resolvedWorkspaceSlug,
       ) ?? null;
 
-    const workspace = await resolveWorkspaceBySlug(resolvedWorkspaceSlug);
+    const workspace = await resolveWorkspaceBySlug(resolvedWorkspaceSlug, {
+      includePendingDeletion: true,
+    });
     if (!workspace) {
       redirect(
         buildUrl("/workspace-not-found", {
@@ -207,12 +210,31 @@ const loadWorkspaceAccess = cache(
     }
 
     const memberData = (memberSnapshot.data() as WorkspaceMemberDocument | undefined) ?? {};
+    const membershipRole = parseWorkspaceMemberRole(memberData.role);
+
+    // During the deletion grace period only owners can reach the workspace,
+    // and only its settings page, where the deletion can be restored.
+    if (workspace.pendingDeletion) {
+      if (membershipRole !== "owner") {
+        redirect(
+          buildUrl("/workspace-not-found", {
+            workspace: workspace.workspaceSlug,
+            fallback: fallbackWorkspace?.workspaceSlug ?? null,
+          }),
+        );
+      }
+
+      const settingsPath = `/${workspace.workspaceSlug}/settings`;
+      if (headerStore.get("x-pathname") && !requestedPath.startsWith(settingsPath)) {
+        redirect(settingsPath);
+      }
+    }
+
     const email =
       normalizeClaimValue(decodedSession.email) ||
       normalizeText(userData.email) ||
       normalizeText(memberData.email);
     const displayName = getDisplayName(decodedSession, userData, memberData, email);
-    const membershipRole = parseWorkspaceMemberRole(memberData.role);
     const roleLabel = formatRoleLabel(normalizeText(userData.role) || membershipRole);
     const jobTitle = normalizeText(userData.jobTitle) || roleLabel;
     const hasCurrentWorkspaceInList = accessibleWorkspaces.some(
@@ -228,6 +250,7 @@ const loadWorkspaceAccess = cache(
       workspaceId: workspace.workspaceId,
       workspaceSlug: workspace.workspaceSlug,
       workspaceName: workspace.workspaceName,
+      pendingDeletion: workspace.pendingDeletion,
       accessibleWorkspaces: mergedAccessibleWorkspaces,
       membershipRole,
       membershipRoleLabel: formatRoleLabel(membershipRole),
@@ -1,6 +1,7 @@
 import "server-only";
 
 import { adminDb } from "@/lib/firebase/admin";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
 
 type WorkspaceSlugMapping = {
   workspaceId?: string;
@@ -9,6 +10,7 @@ type WorkspaceSlugMapping = {
 type WorkspaceDocument = {
   slug?: string;
   name?: string;
+  deletion?: unknown;
 };
 
 export type AppUserDocument = {
@@ -36,6 +38,13 @@ export type ResolvedWorkspace = {
   workspaceId: string;
   workspaceSlug: string;
   workspaceName: string;
+  pendingDeletion: boolean;
+};
+
+// Workspaces scheduled for deletion resolve as missing unless the caller is
+// one of the few flows (settings, restore) that still needs to reach them.
+type ResolveWorkspaceOptions = {
+  includePendingDeletion?: boolean;
 };
 
 type UserWorkspaceMembership = {
@@ -122,7 +131,10 @@ async function listMembershipsForUser(uid: string): Promise<UserWorkspaceMembers
   return workspaceIds.map((workspaceId) => ({ workspaceId }));
 }
 
-async function resolveWorkspaceById(workspaceId: string): Promise<ResolvedWorkspace | null> {
+async function resolveWorkspaceById(
+  workspaceId: string,
+  options?: ResolveWorkspaceOptions,
+): Promise<ResolvedWorkspace | null> {
   const normalizedWorkspaceId = normalizeText(workspaceId);
   if (!normalizedWorkspaceId) return null;
 
@@ -137,6 +149,9 @@ async function resolveWorkspaceById(workspaceId: string): Promise<ResolvedWorksp
   const workspaceSlug = normalizeText(workspaceData?.slug);
   if (!workspaceSlug) return null;
 
+  const pendingDeletion = isWorkspacePendingDeletion(workspaceData?.deletion);
+  if (pendingDeletion && !options?.includePendingDeletion) return null;
+
   const workspaceName =
     normalizeText(workspaceData?.name) || formatWorkspaceName(workspaceSlug) || "Workspace";
 
@@ -144,11 +159,13 @@ async function resolveWorkspaceById(workspaceId: string): Promise<ResolvedWorksp
     workspaceId: workspaceSnapshot.id,
     workspaceSlug,
     workspaceName,
+    pendingDeletion,
   };
 }
 
 export async function resolveWorkspaceBySlug(
   workspaceSlug: string,
+  options?: ResolveWorkspaceOptions,
 ): Promise<ResolvedWorkspace | null> {
   const normalizedWorkspaceSlug = normalizeText(workspaceSlug);
   if (!normalizedWorkspaceSlug) return null;
@@ -162,7 +179,7 @@ export async function resolveWorkspaceBySlug(
     const mappingData = slugMappingSnapshot.data() as WorkspaceSlugMapping | undefined;
     const mappedWorkspaceId = normalizeText(mappingData?.workspaceId);
     if (mappedWorkspaceId) {
-      const resolvedFromMapping = await resolveWorkspaceById(mappedWorkspaceId);
+      const resolvedFromMapping = await resolveWorkspaceById(mappedWorkspaceId, options);
       if (resolvedFromMapping) {
         return resolvedFromMapping;
       }
@@ -179,6 +196,9 @@ export async function resolveWorkspaceBySlug(
   if (!workspaceSnapshot) return null;
 
   const workspaceData = workspaceSnapshot.data() as WorkspaceDocument | undefined;
+  const pendingDeletion = isWorkspacePendingDeletion(workspaceData?.deletion);
+  if (pendingDeletion && !options?.includePendingDeletion) return null;
+
   const resolvedSlug = normalizeText(workspaceData?.slug) || normalizedWorkspaceSlug;
   const workspaceName =
     normalizeText(workspaceData?.name) || formatWorkspaceName(resolvedSlug) || "Workspace";
@@ -187,6 +207,7 @@ export async function resolveWorkspaceBySlug(
     workspaceId: workspaceSnapshot.id,
     workspaceSlug: resolvedSlug,
     workspaceName,
+    pendingDeletion,
   };
 }
 
@@ -0,0 +1,348 @@
+import "server-only";
+
+import { randomBytes } from "crypto";
+import { Timestamp, type Query, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  listAccessibleWorkspacesForUser,
+  type AppUserDocument,
+  type ResolvedWorkspace,
+} from "@/lib/auth/workspace-data";
+import {
+  formatDateInTimezone,
+  parseMeetingTimeLabel,
+  resolveCalendarTimezone,
+  zonedDateTimeToUtc,
+  type IcsCalendar,
+  type IcsEvent,
+} from "@/lib/calendar/ics";
+import { resolveActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+
+type CalendarIdentity = {
+  uid: string;
+  labels: Set<string>;
+};
+
+const FEED_QUERY_LIMIT = 240;
+const MAX_FEED_PAGES = 8;
+// Feeds cover recent history plus the year ahead; calendar apps keep events
+// they already synced, so older records do not need to be re-sent.
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MEETING_MINUTES = 45;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+function parseDurationMinutes(value: unknown) {
+  const duration = normalizeText(value).toLowerCase();
+  const hours = duration.match(/(\d+(?:\.\d+)?)\s*h/);
+  const minutes = duration.match(/(\d+)\s*m/);
+  const total =
+    (hours ? Math.round(Number.parseFloat(hours[1] ?? "0") * 60) : 0) +
+    (minutes ? Number.parseInt(minutes[1] ?? "0", 10) : 0);
+
+  return total > 0 ? total : DEFAULT_MEETING_MINUTES;
+}
+
+function createCalendarFeedToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+function buildRecordUrl(origin: string, workspaceSlug: string, path: string) {
+  return `${origin}/${encodeURIComponent(workspaceSlug)}/${path}`;
+}
+
+function isAttendee(data: Record<string, unknown>, identity: CalendarIdentity) {
+  if (normalizeText(data.ownerUid) === identity.uid) return true;
+  if (identity.labels.has(normalizeText(data.owner).toLowerCase())) return true;
+
+  const attendees = Array.isArray(data.attendees) ? data.attendees : [];
+  return attendees.some((attendee) => {
+    if (!attendee || typeof attendee !== "object") return false;
+    const name = normalizeText((attendee as Record<string, unknown>).name).toLowerCase();
+    return name !== "" && identity.labels.has(name);
+  });
+}
+
+export function buildMeetingCalendarEvent(input: {
+  workspace: ResolvedWorkspace;
+  meetingId: string;
+  data: Record<string, unknown>;
+  timezone: string;
+  origin: string;
+}): IcsEvent | null {
+  const { workspace, meetingId, data } = input;
+  // Meetings created before the schedule was stored only have their label;
+  // `npm run migrate:meeting-schedule` copies it into the fields the feed queries.
+  const labelSchedule = normalizeText(data.scheduledDate)
+    ? null
+    : parseMeetingTimeLabel(normalizeText(data.timeLabel));
+  const scheduledDate = normalizeText(data.scheduledDate) || labelSchedule?.date || "";
+  if (!scheduledDate) return null;
+
+  // Wall-clock times are read in the zone the meeting was scheduled in, falling
+  // back to the subscriber's profile timezone for records created before that was stored.
+  const meetingTimezone = resolveCalendarTimezone(
+    normalizeText(data.scheduledTimezone) || input.timezone,
+  );
+  const scheduledTime = labelSchedule
+    ? labelSchedule.time
+    : normalizeText(data.scheduledTime);
+  const start = scheduledTime
+    ? zonedDateTimeToUtc(scheduledDate, scheduledTime, meetingTimezone)
+    : null;
+  const title = normalizeText(data.title) || `Meeting ${meetingId}`;
+  const objective = normalizeText(data.objective);
+  const location = normalizeText(data.location);
+  const url = buildRecordUrl(input.origin, workspace.workspaceSlug, `meetings/${meetingId}`);
+
+  return {
+    uid: `meeting-${meetingId}-${workspace.workspaceId}@synnapp`,
+    summary: title,
+    description: [`${workspace.workspaceName} • ${meetingId}`, objective, url]
+      .filter(Boolean)
+      .join("\n\n"),
+    location: location && location !== "TBD" ? location : undefined,
+    url,
+    start: start ?? scheduledDate,
+    end: start
+      ? new Date(start.getTime() + parseDurationMinutes(data.duration) * 60 * 1000)
+      : undefined,
+    updatedAt: parseDate(data.updatedAt),
+  };
+}
+
+function buildActionCalendarEvent(input: {
+  workspace: ResolvedWorkspace;
+  actionId: string;
+  data: Record<string, unknown>;
+  timezone: string;
+  origin: string;
+}): IcsEvent | null {
+  const { workspace, actionId, data } = input;
+  const dueAt = parseDate(data.dueAt);
+  if (!dueAt) return null;
+
+  const title = normalizeText(data.title) || `Action ${actionId}`;
+  const url = buildRecordUrl(input.origin, workspace.workspaceSlug, `actions/${actionId}`);
+
+  return {
+    uid: `action-${actionId}-${workspace.workspaceId}@synnapp`,
+    summary: `Due: ${title}`,
+    description: [
+      `${workspace.workspaceName} • ${actionId}`,
+      normalizeText(data.description),
+      url,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    url,
+    start: formatDateInTimezone(dueAt, input.timezone),
+    updatedAt: parseDate(data.updatedAt),
+  };
+}
+
+// Pages through a query ordered on the record's date so a busy workspace does
+// not crowd out the subscriber's events; only the far end of the window is
+// dropped if the page cap is reached.
+async function loadFeedWindow(query: Query) {
+  const snapshots: QueryDocumentSnapshot[] = [];
+  let page = await query.limit(FEED_QUERY_LIMIT).get();
+
+  for (let pageIndex = 1; ; pageIndex += 1) {
+    snapshots.push(...page.docs);
+    if (page.size < FEED_QUERY_LIMIT || pageIndex >= MAX_FEED_PAGES) break;
+    page = await query
+      .startAfter(page.docs[page.size - 1])
+      .limit(FEED_QUERY_LIMIT)
+      .get();
+  }
+
+  return snapshots;
+}
+
+async function loadWorkspaceEvents(
+  workspace: ResolvedWorkspace,
+  identity: CalendarIdentity,
+  timezone: string,
+  origin: string,
+) {
+  const workspaceRef = adminDb.collection("workspaces").doc(workspace.workspaceId);
+  const now = Date.now();
+  const windowStart = new Date(now - FEED_PAST_DAYS * DAY_MS);
+  const windowEnd = new Date(now + FEED_FUTURE_DAYS * DAY_MS);
+  const [memberSnapshot, meetingSnapshots, actionSnapshots, actionWorkflow] = await Promise.all([
+    workspaceRef.collection("members").doc(identity.uid).get(),
+    loadFeedWindow(
+      workspaceRef
+        .collection("meetings")
+        .where("scheduledDate", ">=", windowStart.toISOString().slice(0, 10))
+        .where("scheduledDate", "<=", windowEnd.toISOString().slice(0, 10))
+        .orderBy("scheduledDate"),
+    ),
+    loadFeedWindow(
+      workspaceRef
+        .collection("actions")
+        .where("dueAt", ">=", Timestamp.fromDate(windowStart))
+        .where("dueAt", "<=", Timestamp.fromDate(windowEnd))
+        .orderBy("dueAt"),
+    ),
+    loadWorkspaceActionWorkflow(workspace.workspaceId),
+  ]);
+
+  const workspaceIdentity: CalendarIdentity = {
+    uid: identity.uid,
+    labels: new Set(identity.labels),
+  };
+  [memberSnapshot.get("displayName"), memberSnapshot.get("email")]
+    .map((value) => normalizeText(value).toLowerCase())
+    .filter(Boolean)
+    .forEach((label) => workspaceIdentity.labels.add(label));
+
+  const events: IcsEvent[] = [];
+
+  meetingSnapshots.forEach((snapshot) => {
+    const data = snapshot.data() as Record<string, unknown>;
+    if (data.archived === true || !isAttendee(data, workspaceIdentity)) return;
+
+    const event = buildMeetingCalendarEvent({
+      workspace,
+      meetingId: snapshot.id,
+      data,
+      timezone,
+      origin,
+    });
+    if (event) events.push(event);
+  });
+
+  actionSnapshots.forEach((snapshot) => {
+    const data = snapshot.data() as Record<string, unknown>;
+    if (data.archived === true) return;
+    if (resolveActionState(actionWorkflow, data.status).category === "closed") return;
+    if (!workspaceIdentity.labels.has(normalizeText(data.owner).toLowerCase())) return;
+
+    const event = buildActionCalendarEvent({
+      workspace,
+      actionId: snapshot.id,
+      data,
+      timezone,
+      origin,
+    });
+    if (event) events.push(event);
+  });
+
+  return events;
+}
+
+export async function buildUserCalendarFeed(uid: string, origin: string): Promise<IcsCalendar> {
+  const userSnapshot = await adminDb.collection("users").doc(uid).get();
+  const userData = (userSnapshot.data() ?? {}) as AppUserDocument;
+  const timezone = resolveCalendarTimezone(userData.timezone);
+  const identity: CalendarIdentity = {
+    uid,
+    labels: new Set(
+      [userData.displayName, userData.email]
+        .map((value) => normalizeText(value).toLowerCase())
+        .filter(Boolean),
+    ),
+  };
+
+  const workspaces = await listAccessibleWorkspacesForUser(uid, userData);
+  const events: IcsEvent[] = [];
+  for (const workspace of workspaces) {
+    events.push(...(await loadWorkspaceEvents(workspace, identity, timezone, origin)));
+  }
+
+  return {
+    name: normalizeText(userData.displayName)
+      ? `Synnapp • ${normalizeText(userData.displayName)}`
+      : "Synnapp",
+    timezone,
+    events,
+  };
+}
+
+export async function resolveCalendarFeedUid(token: string) {
+  const normalizedToken = normalizeText(token);
+  if (!normalizedToken) return null;
+
+  const tokenSnapshot = await adminDb.collection("calendarFeedTokens").doc(normalizedToken).get();
+  if (!tokenSnapshot.exists || tokenSnapshot.get("revoked") === true) return null;
+
+  const uid = normalizeText(tokenSnapshot.get("uid"));
+  return uid || null;
+}
+
+export async function getCalendarFeedToken(uid: string) {
+  const userSnapshot = await adminDb.collection("users").doc(uid).get();
+  return normalizeText(userSnapshot.get("calendarFeedToken"));
+}
+
+// Issuing a token always replaces the previous one so a leaked URL can be cut off
+// by rotating; the old token document is kept but marked revoked.
+export async function rotateCalendarFeedToken(uid: string) {
+  const userRef = adminDb.collection("users").doc(uid);
+  const previousToken = await getCalendarFeedToken(uid);
+  const token = createCalendarFeedToken();
+  const now = Timestamp.now();
+  const batch = adminDb.batch();
+
+  batch.set(adminDb.collection("calendarFeedTokens").doc(token), {
+    uid,
+    revoked: false,
+    createdAt: now,
+  });
+  if (previousToken) {
+    batch.set(
+      adminDb.collection("calendarFeedTokens").doc(previousToken),
+      { revoked: true, revokedAt: now },
+      { merge: true },
+    );
+  }
+  batch.set(userRef, { calendarFeedToken: token, updatedAt: now }, { merge: true });
+  await batch.commit();
+
+  return token;
+}
+
+export async function revokeCalendarFeedToken(uid: string) {
+  const previousToken = await getCalendarFeedToken(uid);
+  if (!previousToken) return;
+
+  const now = Timestamp.now();
+  const batch = adminDb.batch();
+  batch.set(
+    adminDb.collection("calendarFeedTokens").doc(previousToken),
+    { revoked: true, revokedAt: now },
+    { merge: true },
+  );
+  batch.set(
+    adminDb.collection("users").doc(uid),
+    { calendarFeedToken: "", updatedAt: now },
+    { merge: true },
+  );
+  await batch.commit();
+}
@@ -0,0 +1,231 @@
+export const DEFAULT_CALENDAR_TIMEZONE = "America/Los_Angeles";
+
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  // Timed events carry UTC instants; all-day events carry `YYYY-MM-DD` dates.
+  start: Date | string;
+  end?: Date | string;
+  updatedAt?: Date | null;
+};
+
+export type IcsCalendar = {
+  name: string;
+  timezone: string;
+  events: IcsEvent[];
+  now?: Date;
+};
+
+// Continuation lines start with a space, so leave one octet of headroom.
+const MAX_LINE_OCTETS = 74;
+
+export function resolveCalendarTimezone(value: string | undefined | null) {
+  const candidate = value?.trim() ?? "";
+  if (!candidate) return DEFAULT_CALENDAR_TIMEZONE;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: candidate });
+    return candidate;
+  } catch {
+    return DEFAULT_CALENDAR_TIMEZONE;
+  }
+}
+
+function readZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: read("year"),
+    month: read("month"),
+    day: read("day"),
+    hour: read("hour"),
+    minute: read("minute"),
+    second: read("second"),
+  };
+}
+
+function timezoneOffsetMs(instant: Date, timeZone: string) {
+  const parts = readZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock `YYYY-MM-DD` + `HH:MM` in `timeZone` to a UTC instant.
+// The offset is re-checked once so times near a DST switch land on the right side.
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string) {
+  const dateMatch = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const timeMatch = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!dateMatch || !timeMatch) return null;
+
+  const naive = Date.UTC(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2]),
+  );
+  if (Number.isNaN(naive)) return null;
+
+  const firstOffset = timezoneOffsetMs(new Date(naive), timeZone);
+  let result = naive - firstOffset;
+  const secondOffset = timezoneOffsetMs(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    result = naive - secondOffset;
+  }
+
+  return new Date(result);
+}
+
+export function formatDateInTimezone(instant: Date, timeZone: string) {
+  const parts = readZonedParts(instant, timeZone);
+  return `${parts.year}-${String(parts.month).padStart(2, "0")}-${String(parts.day).padStart(2, "0")}`;
+}
+
+const MONTH_ABBREVIATIONS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Reads the "Oct 3, 2026" or "Oct 3, 2026, 2:30 PM" labels meetings were saved
+// with before they stored `scheduledDate`/`scheduledTime`. Anything else
+// ("Date TBD", "Today, 10:00 AM") has no calendar day and returns null.
+export function parseMeetingTimeLabel(label: string) {
+  const match = label
+    .trim()
+    .match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),\s*(\d{4})(?:,?\s+(\d{1,2}):(\d{2})\s*(am|pm))?$/i);
+  if (!match) return null;
+
+  const month = MONTH_ABBREVIATIONS.indexOf(match[1].toLowerCase()) + 1;
+  const day = Number.parseInt(match[2], 10);
+  const year = Number.parseInt(match[3], 10);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (month === 0 || parsed.getUTCDate() !== day) return null;
+
+  const date = parsed.toISOString().slice(0, 10);
+  if (!match[4]) return { date, time: "" };
+
+  const hours = Number.parseInt(match[4], 10);
+  const minutes = Number.parseInt(match[5], 10);
+  if (hours < 1 || hours > 12 || minutes > 59) return { date, time: "" };
+
+  const hours24 = (hours % 12) + (match[6].toLowerCase() === "pm" ? 12 : 0);
+  return { date, time: `${String(hours24).padStart(2, "0")}:${match[5]}` };
+}
+
+function addDays(date: string, days: number) {
+  const [year, month, day] = date.split("-").map((part) => Number.parseInt(part, 10));
+  const next = new Date(Date.UTC(year ?? 1970, (month ?? 1) - 1, (day ?? 1) + days));
+  return next.toISOString().slice(0, 10);
+}
+
+function formatUtcStamp(value: Date) {
+  return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "Z");
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 limits content lines to 75 octets, so fold on UTF-8 byte length
+// rather than characters to keep names with accents or bullets valid.
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const character of line) {
+    const octets = encoder.encode(character).length;
+    if (currentOctets + octets > MAX_LINE_OCTETS) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += character;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+function buildDateProperty(name: "DTSTART" | "DTEND", value: Date | string) {
+  if (typeof value === "string") {
+    return `${name};VALUE=DATE:${value.replace(/-/g, "")}`;
+  }
+  return `${name}:${formatUtcStamp(value)}`;
+}
+
+function buildEventLines(event: IcsEvent, stamp: string) {
+  const end =
+    event.end ?? (typeof event.start === "string" ? addDays(event.start, 1) : undefined);
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    buildDateProperty("DTSTART", event.start),
+  ];
+
+  if (end) lines.push(buildDateProperty("DTEND", end));
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtcStamp(event.updatedAt)}`);
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+export function buildIcsCalendar(calendar: IcsCalendar) {
+  const stamp = formatUtcStamp(calendar.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Synnapp//Workspace Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${calendar.timezone}`,
+    ...calendar.events.flatMap((event) => buildEventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,168 @@
+import { sendEmail, type EmailDeliveryResult } from "@/lib/email/email-provider";
+
+export type ActionDigestCadence = "daily" | "weekly";
+
+export type ActionDigestItem = {
+  id: string;
+  title: string;
+  dueLabel: string;
+  priority: string;
+  blocked: boolean;
+  path: string;
+};
+
+export type ActionDigestWorkspace = {
+  workspaceName: string;
+  workspaceSlug: string;
+  overdue: ActionDigestItem[];
+  dueSoon: ActionDigestItem[];
+};
+
+type SendActionDigestEmailInput = {
+  toEmail: string;
+  recipientName: string;
+  cadence: ActionDigestCadence;
+  workspaces: ActionDigestWorkspace[];
+};
+
+export type ActionDigestEmailDeliveryResult = EmailDeliveryResult;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Digests are built by a scheduled job, so links come from APP_BASE_URL.
+function resolveUrl(path: string) {
+  const baseUrl = normalizeText(process.env.APP_BASE_URL).replace(/\/+$/, "");
+  const normalizedPath = path.startsWith("/") ? path : `/${path}`;
+  return baseUrl ? `${baseUrl}${normalizedPath}` : "";
+}
+
+function formatItemLine(item: ActionDigestItem) {
+  const details = [
+    item.dueLabel && item.dueLabel !== "No due date" ? `due ${item.dueLabel}` : "",
+    item.priority === "high" ? "high priority" : "",
+    item.blocked ? "blocked" : "",
+  ].filter(Boolean);
+
+  return `${item.id}: ${item.title}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
+
+function renderHtmlItems(items: ActionDigestItem[]) {
+  return `<ul style="margin: 0 0 12px; padding-left: 18px;">${items
+    .map((item) => {
+      const url = resolveUrl(item.path);
+      const label = escapeHtml(formatItemLine(item));
+      return `<li style="margin: 0 0 4px;">${
+        url ? `<a href="${escapeHtml(url)}" style="color: #0f172a;">${label}</a>` : label
+      }</li>`;
+    })
+    .join("")}</ul>`;
+}
+
+function renderHtmlHeading(heading: string, color: string) {
+  return `<h4 style="margin: 0 0 6px; font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: ${color};">${escapeHtml(heading)}</h4>`;
+}
+
+function buildActionDigestContent(input: SendActionDigestEmailInput) {
+  const overdueCount = input.workspaces.reduce((sum, entry) => sum + entry.overdue.length, 0);
+  const dueSoonCount = input.workspaces.reduce((sum, entry) => sum + entry.dueSoon.length, 0);
+  const subject =
+    input.cadence === "weekly"
+      ? `Your week ahead: ${dueSoonCount} action(s) due, ${overdueCount} overdue`
+      : `Action reminder: ${dueSoonCount} due soon, ${overdueCount} overdue`;
+  const greeting = input.recipientName ? `Hi ${input.recipientName},` : "Hi,";
+  const summary =
+    input.cadence === "weekly"
+      ? "Here is your week ahead: actions you own that are overdue or coming due."
+      : "Here are the actions you own that are overdue or coming due.";
+
+  const textBlocks: string[] = [greeting, "", summary];
+  const htmlBlocks: string[] = [];
+
+  for (const entry of input.workspaces) {
+    const myWorkUrl = resolveUrl(`/${entry.workspaceSlug}/my-work`);
+    textBlocks.push("", entry.workspaceName);
+    if (entry.overdue.length > 0) {
+      textBlocks.push("Overdue", ...entry.overdue.map((item) => `- ${formatItemLine(item)}`));
+    }
+    if (entry.dueSoon.length > 0) {
+      textBlocks.push("Due soon", ...entry.dueSoon.map((item) => `- ${formatItemLine(item)}`));
+    }
+    if (myWorkUrl) {
+      textBlocks.push(`My work: ${myWorkUrl}`);
+    }
+
+    htmlBlocks.push(
+      [
+        `<h3 style="margin: 16px 0 8px; font-size: 15px;">${escapeHtml(entry.workspaceName)}</h3>`,
+        entry.overdue.length > 0
+          ? `${renderHtmlHeading("Overdue", "#be123c")}${renderHtmlItems(entry.overdue)}`
+          : "",
+        entry.dueSoon.length > 0
+          ? `${renderHtmlHeading("Due soon", "#b45309")}${renderHtmlItems(entry.dueSoon)}`
+          : "",
+        myWorkUrl
+          ? `<p style="margin: 0 0 12px;"><a href="${escapeHtml(myWorkUrl)}" style="color: #0f172a; font-weight: 600;">Open My Work</a></p>`
+          : "",
+      ].join(""),
+    );
+  }
+
+  textBlocks.push(
+    "",
+    "You are receiving this because of your notification preferences. Change them from each workspace profile.",
+  );
+
+  const html = `
+    <div style="font-family: Inter, Segoe UI, Arial, sans-serif; max-width: 560px; color: #0f172a;">
+      <p style="margin: 0 0 12px;">${escapeHtml(greeting)}</p>
+      <p style="margin: 0 0 8px;">${escapeHtml(summary)}</p>
+      ${htmlBlocks.join("")}
+      <p style="margin: 16px 0 0; color: #475569; font-size: 12px;">
+        You are receiving this because of your notification preferences. Change them from each
+        workspace profile.
+      </p>
+    </div>
+  `.trim();
+
+  return { subject, text: textBlocks.join("\n"), html };
+}
+
+function resolveEmailConfig() {
+  return {
+    fromEmail:
+      normalizeText(process.env.NOTIFICATIONS_EMAIL_FROM) ||
+      normalizeText(process.env.INVITES_EMAIL_FROM),
+    replyTo:
+      normalizeText(process.env.NOTIFICATIONS_EMAIL_REPLY_TO) ||
+      normalizeText(process.env.INVITES_EMAIL_REPLY_TO),
+  };
+}
+
+export async function sendActionDigestEmail(
+  input: SendActionDigestEmailInput,
+): Promise<ActionDigestEmailDeliveryResult> {
+  const config = resolveEmailConfig();
+  const { subject, text, html } = buildActionDigestContent(input);
+
+  return sendEmail({
+    toEmail: input.toEmail,
+    fromEmail: config.fromEmail,
+    replyTo: config.replyTo,
+    subject,
+    text,
+    html,
+    notConfiguredMessage: "Action digest email provider is not configured.",
+    failureLabel: "Action digest email send failed",
+  });
+}
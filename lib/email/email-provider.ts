@@ -0,0 +1,110 @@
+type EmailDeliveryStatus = "sent" | "skipped" | "failed";
+
+export type EmailDeliveryProvider = "resend" | "none";
+
+export type EmailDeliveryResult = {
+  status: EmailDeliveryStatus;
+  provider: EmailDeliveryProvider;
+  messageId: string;
+  error: string;
+};
+
+type SendEmailInput = {
+  toEmail: string;
+  fromEmail: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+  html: string;
+  notConfiguredMessage?: string;
+  failureLabel?: string;
+};
+
+const DEFAULT_RESEND_API_BASE_URL = "https://api.resend.com";
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function resolveProviderConfig() {
+  const baseUrl =
+    normalizeText(process.env.RESEND_API_BASE_URL) || DEFAULT_RESEND_API_BASE_URL;
+
+  return {
+    resendApiKey: normalizeText(process.env.RESEND_API_KEY),
+    resendApiBaseUrl: baseUrl.replace(/\/+$/, ""),
+  };
+}
+
+// Resend-compatible delivery. RESEND_API_BASE_URL can point at the local
+// stand-in (`npm run email:local`) so sends can be exercised offline.
+export async function sendEmail(input: SendEmailInput): Promise<EmailDeliveryResult> {
+  const config = resolveProviderConfig();
+  const fromEmail = normalizeText(input.fromEmail);
+  const failureLabel = input.failureLabel || "Email send failed";
+
+  if (!config.resendApiKey || !fromEmail) {
+    return {
+      status: "skipped",
+      provider: "none",
+      messageId: "",
+      error: input.notConfiguredMessage || "Email provider is not configured.",
+    };
+  }
+
+  const replyTo = normalizeText(input.replyTo);
+
+  try {
+    const response = await fetch(`${config.resendApiBaseUrl}/emails`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${config.resendApiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: fromEmail,
+        to: [input.toEmail],
+        subject: input.subject,
+        html: input.html,
+        text: input.text,
+        ...(replyTo ? { reply_to: replyTo } : {}),
+      }),
+    });
+
+    const payload = (await response.json().catch(() => null)) as
+      | {
+          id?: string;
+          message?: string;
+          error?: { message?: string };
+        }
+      | null;
+
+    if (!response.ok) {
+      const errorMessage =
+        normalizeText(payload?.error?.message) ||
+        normalizeText(payload?.message) ||
+        `${failureLabel} (${response.status}).`;
+      return {
+        status: "failed",
+        provider: "resend",
+        messageId: "",
+        error: errorMessage,
+      };
+    }
+
+    return {
+      status: "sent",
+      provider: "resend",
+      messageId: normalizeText(payload?.id),
+      error: "",
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : `${failureLabel}.`;
+    return {
+      status: "failed",
+      provider: "resend",
+      messageId: "",
+      error: message,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { type WorkspaceMemberRole } from "@/lib/auth/permissions";
+import { sendEmail, type EmailDeliveryResult } from "@/lib/email/email-provider";
 
-type InviteEmailAction = "created" | "resent";
+type InviteEmailAction = "created" | "resent" | "expiring";
 
 type SendInviteEmailInput = {
   toEmail: string;
@@ -14,14 +15,7 @@ type SendInviteEmailInput = {
   action: InviteEmailAction;
 };
 
-type InviteEmailDeliveryStatus = "sent" | "skipped" | "failed";
-
-export type InviteEmailDeliveryResult = {
-  status: InviteEmailDeliveryStatus;
-  provider: "resend" | "none";
-  messageId: string;
-  error: string;
-};
+export type InviteEmailDeliveryResult = EmailDeliveryResult;
 
 function normalizeText(value: unknown) {
   return typeof value === "string" ? value.trim() : "";
@@ -48,11 +42,17 @@ function formatRoleLabel(role: WorkspaceMemberRole) {
 }
 
 function buildEmailContent(input: SendInviteEmailInput) {
-  const subject =
-    input.action === "resent"
-      ? `Reminder: join ${input.workspaceName} on Synnapp`
-      : `You're invited to join ${input.workspaceName} on Synnapp`;
   const expiryLabel = formatDateTimeLabel(input.expiresAtIso);
+  const subject =
+    input.action === "expiring"
+      ? `Your invite to ${input.workspaceName} expires soon`
+      : input.action === "resent"
+        ? `Reminder: join ${input.workspaceName} on Synnapp`
+        : `You're invited to join ${input.workspaceName} on Synnapp`;
+  const expiryNote =
+    input.action === "expiring"
+      ? `This invite expires on ${expiryLabel}. Accept it before then to keep your spot.`
+      : "";
   const roleLabel = formatRoleLabel(input.role);
   const accountStep = input.targetUserExists
     ? "Sign in with your invited email, then accept the invite."
@@ -65,6 +65,7 @@ function buildEmailContent(input: SendInviteEmailInput) {
     `Invite link: ${input.inviteUrl}`,
     `Expires: ${expiryLabel}`,
     "",
+    ...(expiryNote ? [expiryNote, ""] : []),
     accountStep,
   ].join("\n");
 
@@ -76,6 +77,7 @@ function buildEmailContent(input: SendInviteEmailInput) {
       </p>
       <p style="margin: 0 0 6px;"><strong>Workspace:</strong> ${input.workspaceName} (${input.workspaceSlug})</p>
       <p style="margin: 0 0 16px;"><strong>Expires:</strong> ${expiryLabel}</p>
+      ${expiryNote ? `<p style="margin: 0 0 16px;">${expiryNote}</p>` : ""}
       <p style="margin: 0 0 16px;">${accountStep}</p>
       <p style="margin: 0 0 20px;">
         <a href="${input.inviteUrl}" style="display: inline-block; background: #0f172a; color: white; text-decoration: none; padding: 10px 16px; border-radius: 4px; font-weight: 600;">
@@ -94,7 +96,6 @@ function buildEmailContent(input: SendInviteEmailInput) {
 
 function resolveEmailConfig() {
   return {
-    resendApiKey: normalizeText(process.env.RESEND_API_KEY),
     fromEmail: normalizeText(process.env.INVITES_EMAIL_FROM),
     replyTo: normalizeText(process.env.INVITES_EMAIL_REPLY_TO),
   };
@@ -104,68 +105,16 @@ export async function sendWorkspaceInviteEmail(
   input: SendInviteEmailInput,
 ): Promise<InviteEmailDeliveryResult> {
   const config = resolveEmailConfig();
-  if (!config.resendApiKey || !config.fromEmail) {
-    return {
-      status: "skipped",
-      provider: "none",
-      messageId: "",
-      error: "Invite email provider is not configured.",
-    };
-  }
-
   const { subject, text, html } = buildEmailContent(input);
 
-  try {
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${config.resendApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: config.fromEmail,
-        to: [input.toEmail],
-        subject,
-        html,
-        text,
-        ...(config.replyTo ? { reply_to: config.replyTo } : {}),
-      }),
-    });
-
-    const payload = (await response.json().catch(() => null)) as
-      | {
-          id?: string;
-          message?: string;
-          error?: { message?: string };
-        }
-      | null;
-
-    if (!response.ok) {
-      const errorMessage =
-        normalizeText(payload?.error?.message) ||
-        normalizeText(payload?.message) ||
-        `Invite email send failed (${response.status}).`;
-      return {
-        status: "failed",
-        provider: "resend",
-        messageId: "",
-        error: errorMessage,
-      };
-    }
-
-    return {
-      status: "sent",
-      provider: "resend",
-      messageId: normalizeText(payload?.id),
-      error: "",
-    };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Invite email send failed.";
-    return {
-      status: "failed",
-      provider: "resend",
-      messageId: "",
-      error: message,
-    };
-  }
+  return sendEmail({
+    toEmail: input.toEmail,
+    fromEmail: config.fromEmail,
+    replyTo: config.replyTo,
+    subject,
+    text,
+    html,
+    notConfiguredMessage: "Invite email provider is not configured.",
+    failureLabel: "Invite email send failed",
+  });
 }
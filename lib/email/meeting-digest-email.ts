@@ -0,0 +1,235 @@
+import { sendEmail, type EmailDeliveryResult } from "@/lib/email/email-provider";
+
+type DigestNote = {
+  heading: string;
+  content: string;
+};
+
+type DigestDecision = {
+  id: string;
+  title: string;
+  owner: string;
+  status: string;
+  rationale: string;
+};
+
+type DigestAction = {
+  id: string;
+  title: string;
+  owner: string;
+  dueLabel: string;
+  // Workflow label for display; the category drives filtering.
+  status: string;
+  statusCategory: "open" | "blocked" | "closed";
+};
+
+type DigestQuestion = {
+  id: string;
+  question: string;
+  owner: string;
+  status: string;
+};
+
+type MeetingDigestContentInput = {
+  workspaceName: string;
+  meetingId: string;
+  meetingTitle: string;
+  meetingTimeLabel: string;
+  meetingObjective: string;
+  meetingUrl: string;
+  sentByName: string;
+  notes: DigestNote[];
+  decisions: DigestDecision[];
+  actions: DigestAction[];
+  openQuestions: DigestQuestion[];
+  digestOptions: {
+    includeNotes: boolean;
+    includeOpenQuestions: boolean;
+    includeActionOwners: boolean;
+  };
+};
+
+export type SendMeetingDigestEmailInput = MeetingDigestContentInput & {
+  toEmail: string;
+  recipientName: string;
+};
+
+export type MeetingDigestEmailDeliveryResult = EmailDeliveryResult;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function titleCase(value: string) {
+  return value[0]?.toUpperCase() + value.slice(1);
+}
+
+function resolveDigestSections(input: MeetingDigestContentInput) {
+  const notes = input.digestOptions.includeNotes
+    ? input.notes.filter((note) => normalizeText(note.content))
+    : [];
+  const openActions = input.actions.filter((action) => action.statusCategory !== "closed");
+  const openQuestions = input.digestOptions.includeOpenQuestions
+    ? input.openQuestions.filter((question) => question.status === "open")
+    : [];
+
+  return {
+    notes,
+    decisions: input.decisions,
+    actions: openActions,
+    openQuestions,
+  };
+}
+
+function formatActionLine(action: DigestAction, includeOwner: boolean) {
+  const details = [
+    includeOwner ? action.owner : "",
+    action.dueLabel && action.dueLabel !== "No due date" ? `due ${action.dueLabel}` : "",
+    action.statusCategory === "blocked" ? action.status.toLowerCase() : "",
+  ].filter(Boolean);
+
+  return `${action.id}: ${action.title}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
+
+function renderHtmlList(items: string[]) {
+  return `<ul style="margin: 0 0 16px; padding-left: 18px;">${items
+    .map((item) => `<li style="margin: 0 0 4px;">${escapeHtml(item)}</li>`)
+    .join("")}</ul>`;
+}
+
+function renderHtmlSection(heading: string, body: string) {
+  return `<h3 style="margin: 0 0 8px; font-size: 14px; text-transform: uppercase; letter-spacing: 0.08em; color: #475569;">${escapeHtml(heading)}</h3>${body}`;
+}
+
+function buildMeetingDigestContent(
+  input: MeetingDigestContentInput,
+  recipientName = "",
+) {
+  const sections = resolveDigestSections(input);
+  const includeOwners = input.digestOptions.includeActionOwners;
+  const subject = `Meeting digest: ${input.meetingTitle} (${input.workspaceName})`;
+  const greeting = recipientName ? `Hi ${recipientName},` : "Hi,";
+  const summary = `${input.meetingTitle} concluded with ${sections.decisions.length} decision(s) and ${sections.actions.length} open action(s).`;
+
+  const decisionLines = sections.decisions.map(
+    (decision) =>
+      `${decision.id}: ${decision.title} [${titleCase(decision.status)}] (${decision.owner})${
+        decision.rationale ? ` - ${decision.rationale}` : ""
+      }`,
+  );
+  const actionLines = sections.actions.map((action) => formatActionLine(action, includeOwners));
+  const noteLines = sections.notes.map((note) => `${note.heading}: ${note.content}`);
+  const questionLines = sections.openQuestions.map(
+    (question) => `${question.id}: ${question.question} (${question.owner})`,
+  );
+
+  const textBlocks: string[] = [
+    greeting,
+    "",
+    `${input.sentByName} shared the digest for ${input.meetingTitle} (${input.meetingId}) in ${input.workspaceName}.`,
+    `When: ${input.meetingTimeLabel}`,
+    `Objective: ${input.meetingObjective}`,
+    "",
+    summary,
+  ];
+
+  if (noteLines.length > 0) {
+    textBlocks.push("", "Notes", ...noteLines.map((line) => `- ${line}`));
+  }
+
+  textBlocks.push(
+    "",
+    "Decisions",
+    ...(decisionLines.length > 0
+      ? decisionLines.map((line) => `- ${line}`)
+      : ["- No decisions captured."]),
+    "",
+    "Action Items",
+    ...(actionLines.length > 0
+      ? actionLines.map((line) => `- ${line}`)
+      : ["- No open action items."]),
+  );
+
+  if (questionLines.length > 0) {
+    textBlocks.push("", "Open Questions", ...questionLines.map((line) => `- ${line}`));
+  }
+
+  textBlocks.push("", `Open meeting record: ${input.meetingUrl}`);
+
+  const htmlSections = [
+    noteLines.length > 0 ? renderHtmlSection("Notes", renderHtmlList(noteLines)) : "",
+    renderHtmlSection(
+      "Decisions",
+      renderHtmlList(decisionLines.length > 0 ? decisionLines : ["No decisions captured."]),
+    ),
+    renderHtmlSection(
+      "Action Items",
+      renderHtmlList(actionLines.length > 0 ? actionLines : ["No open action items."]),
+    ),
+    questionLines.length > 0
+      ? renderHtmlSection("Open Questions", renderHtmlList(questionLines))
+      : "",
+  ]
+    .filter(Boolean)
+    .join("");
+
+  const html = `
+    <div style="font-family: Inter, Segoe UI, Arial, sans-serif; max-width: 560px; color: #0f172a;">
+      <p style="margin: 0 0 12px;">${escapeHtml(greeting)}</p>
+      <h2 style="margin: 0 0 12px;">${escapeHtml(input.meetingTitle)} (${escapeHtml(input.meetingId)})</h2>
+      <p style="margin: 0 0 6px;"><strong>Workspace:</strong> ${escapeHtml(input.workspaceName)}</p>
+      <p style="margin: 0 0 6px;"><strong>When:</strong> ${escapeHtml(input.meetingTimeLabel)}</p>
+      <p style="margin: 0 0 16px;"><strong>Objective:</strong> ${escapeHtml(input.meetingObjective)}</p>
+      <p style="margin: 0 0 16px;">${escapeHtml(summary)}</p>
+      ${htmlSections}
+      <p style="margin: 0 0 20px;">
+        <a href="${escapeHtml(input.meetingUrl)}" style="display: inline-block; background: #0f172a; color: white; text-decoration: none; padding: 10px 16px; border-radius: 4px; font-weight: 600;">
+          Open Meeting Record
+        </a>
+      </p>
+      <p style="margin: 0; color: #475569; font-size: 12px;">
+        Sent by ${escapeHtml(input.sentByName)} from Synnapp.
+      </p>
+    </div>
+  `.trim();
+
+  return { subject, text: textBlocks.join("\n"), html };
+}
+
+function resolveEmailConfig() {
+  return {
+    fromEmail:
+      normalizeText(process.env.DIGESTS_EMAIL_FROM) ||
+      normalizeText(process.env.INVITES_EMAIL_FROM),
+    replyTo:
+      normalizeText(process.env.DIGESTS_EMAIL_REPLY_TO) ||
+      normalizeText(process.env.INVITES_EMAIL_REPLY_TO),
+  };
+}
+
+export async function sendMeetingDigestEmail(
+  input: SendMeetingDigestEmailInput,
+): Promise<MeetingDigestEmailDeliveryResult> {
+  const config = resolveEmailConfig();
+  const { subject, text, html } = buildMeetingDigestContent(input, input.recipientName);
+
+  return sendEmail({
+    toEmail: input.toEmail,
+    fromEmail: config.fromEmail,
+    replyTo: config.replyTo,
+    subject,
+    text,
+    html,
+    notConfiguredMessage: "Digest email provider is not configured.",
+    failureLabel: "Digest email send failed",
+  });
+}
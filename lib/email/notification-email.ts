@@ -0,0 +1,110 @@
+import { sendEmail, type EmailDeliveryResult } from "@/lib/email/email-provider";
+
+export type SendNotificationEmailInput = {
+  toEmail: string;
+  recipientName: string;
+  workspaceName: string;
+  subject: string;
+  heading: string;
+  summary: string;
+  preview?: string;
+  actionLabel: string;
+  actionPath: string;
+};
+
+export type NotificationEmailDeliveryResult = EmailDeliveryResult;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Notifications are emitted outside a request (meeting sync, scheduled jobs),
+// so links are built from APP_BASE_URL rather than the request origin.
+function resolveActionUrl(actionPath: string) {
+  const baseUrl = normalizeText(process.env.APP_BASE_URL).replace(/\/+$/, "");
+  const path = actionPath.startsWith("/") ? actionPath : `/${actionPath}`;
+  return baseUrl ? `${baseUrl}${path}` : "";
+}
+
+function buildEmailContent(input: SendNotificationEmailInput) {
+  const greeting = input.recipientName ? `Hi ${input.recipientName},` : "Hi,";
+  const actionUrl = resolveActionUrl(input.actionPath);
+  const preview = normalizeText(input.preview);
+
+  const text = [
+    greeting,
+    "",
+    input.summary,
+    ...(preview ? ["", `"${preview}"`] : []),
+    "",
+    actionUrl ? `${input.actionLabel}: ${actionUrl}` : `Open Synnapp to view: ${input.actionPath}`,
+    "",
+    `You are receiving this because of your notification preferences in ${input.workspaceName}.`,
+  ].join("\n");
+
+  const html = `
+    <div style="font-family: Inter, Segoe UI, Arial, sans-serif; max-width: 560px; color: #0f172a;">
+      <p style="margin: 0 0 12px;">${escapeHtml(greeting)}</p>
+      <h2 style="margin: 0 0 12px;">${escapeHtml(input.heading)}</h2>
+      <p style="margin: 0 0 16px;">${escapeHtml(input.summary)}</p>
+      ${
+        preview
+          ? `<p style="margin: 0 0 16px; border-left: 3px solid #cbd5e1; padding-left: 10px; color: #334155;">${escapeHtml(preview)}</p>`
+          : ""
+      }
+      ${
+        actionUrl
+          ? `<p style="margin: 0 0 20px;">
+        <a href="${escapeHtml(actionUrl)}" style="display: inline-block; background: #0f172a; color: white; text-decoration: none; padding: 10px 16px; border-radius: 4px; font-weight: 600;">
+          ${escapeHtml(input.actionLabel)}
+        </a>
+      </p>`
+          : `<p style="margin: 0 0 20px;">Open Synnapp to view: ${escapeHtml(input.actionPath)}</p>`
+      }
+      <p style="margin: 0; color: #475569; font-size: 12px;">
+        You are receiving this because of your notification preferences in ${escapeHtml(input.workspaceName)}.
+        Change them from your workspace profile.
+      </p>
+    </div>
+  `.trim();
+
+  return { subject: input.subject, text, html };
+}
+
+function resolveEmailConfig() {
+  return {
+    fromEmail:
+      normalizeText(process.env.NOTIFICATIONS_EMAIL_FROM) ||
+      normalizeText(process.env.INVITES_EMAIL_FROM),
+    replyTo:
+      normalizeText(process.env.NOTIFICATIONS_EMAIL_REPLY_TO) ||
+      normalizeText(process.env.INVITES_EMAIL_REPLY_TO),
+  };
+}
+
+export async function sendNotificationEmail(
+  input: SendNotificationEmailInput,
+): Promise<NotificationEmailDeliveryResult> {
+  const config = resolveEmailConfig();
+  const { subject, text, html } = buildEmailContent(input);
+
+  return sendEmail({
+    toEmail: input.toEmail,
+    fromEmail: config.fromEmail,
+    replyTo: config.replyTo,
+    subject,
+    text,
+    html,
+    notConfiguredMessage: "Notification email provider is not configured.",
+    failureLabel: "Notification email send failed",
+  });
+}
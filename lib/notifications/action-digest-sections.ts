@@ -0,0 +1,79 @@
+import type { ActionDigestItem, ActionDigestWorkspace } from "@/lib/email/action-digest-email";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OwnedAction = {
+  id: string;
+  title: string;
+  dueAt: Date | null;
+  dueLabel: string;
+  dueSoonFlag: boolean;
+  priority: string;
+  blocked: boolean;
+};
+
+type ActionDigestSectionInput = {
+  workspaceName: string;
+  workspaceSlug: string;
+  actions: OwnedAction[];
+  windowDays: number;
+  now: Date;
+  timezone: string;
+};
+
+function isDueSoonLabel(value: string) {
+  const normalized = value.toLowerCase();
+  return normalized.includes("today") || normalized.includes("tomorrow");
+}
+
+function formatDueLabel(value: Date, timezone: string) {
+  return value.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: timezone,
+  });
+}
+
+// Splits a member's actions in one workspace into overdue and due within the
+// window, earliest first. Actions without a due date only count as due soon
+// when flagged or labelled for today or tomorrow.
+export function buildActionDigestSection({
+  workspaceName,
+  workspaceSlug,
+  actions,
+  windowDays,
+  now,
+  timezone,
+}: ActionDigestSectionInput): ActionDigestWorkspace {
+  const nowEpoch = now.getTime();
+  const toItem = (action: OwnedAction): ActionDigestItem => ({
+    id: action.id,
+    title: action.title,
+    dueLabel: action.dueAt ? formatDueLabel(action.dueAt, timezone) : action.dueLabel,
+    priority: action.priority,
+    blocked: action.blocked,
+    path: `/${workspaceSlug}/actions/${action.id}`,
+  });
+  const byDueDate = (a: OwnedAction, b: OwnedAction) =>
+    (a.dueAt?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.dueAt?.getTime() ?? Number.MAX_SAFE_INTEGER);
+
+  const overdue = actions
+    .filter((action) => action.dueAt !== null && action.dueAt.getTime() < nowEpoch)
+    .sort(byDueDate);
+  const dueSoon = actions
+    .filter((action) => {
+      if (action.dueAt) {
+        const diff = action.dueAt.getTime() - nowEpoch;
+        return diff >= 0 && diff <= windowDays * DAY_MS;
+      }
+      return action.dueSoonFlag || isDueSoonLabel(action.dueLabel);
+    })
+    .sort(byDueDate);
+
+  return {
+    workspaceName,
+    workspaceSlug,
+    overdue: overdue.map(toItem),
+    dueSoon: dueSoon.map(toItem),
+  };
+}
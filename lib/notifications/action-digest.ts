@@ -0,0 +1,363 @@
+import "server-only";
+
+import {
+  FieldPath,
+  Timestamp,
+  type Query,
+  type QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import {
+  sendActionDigestEmail,
+  type ActionDigestCadence,
+  type ActionDigestWorkspace,
+} from "@/lib/email/action-digest-email";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  listActionStateIds,
+  parseActionWorkflow,
+  type ActionWorkflow,
+} from "@/lib/workspace/action-workflow";
+import {
+  buildActionDigestSection,
+  type OwnedAction,
+} from "@/lib/notifications/action-digest-sections";
+import { resolveOwnerMember } from "@/lib/notifications/assignment-changes";
+import { loadWorkspaceMemberIndex } from "@/lib/notifications/mentions";
+import {
+  DEFAULT_QUIET_HOURS,
+  isValidTimeZone,
+  isWithinQuietHours,
+  parseMemberNotificationPreferences,
+} from "@/lib/notifications/preferences";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
+
+// Digests go out on the first run at or after this local hour.
+const DIGEST_LOCAL_HOUR = 8;
+const WEEKLY_DIGEST_WEEKDAY = "Mon";
+const DAILY_WINDOW_DAYS = 2;
+const WEEKLY_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WORKSPACE_PAGE_SIZE = 100;
+const ACTION_PAGE_SIZE = 200;
+const ACTION_FIELDS = [
+  "status",
+  "archived",
+  "owner",
+  "title",
+  "dueAt",
+  "dueLabel",
+  "dueSoon",
+  "priority",
+];
+
+type CadenceDigest = {
+  cadence: ActionDigestCadence;
+  windowDays: number;
+  stateKey: "lastDailyKey" | "lastWeeklyKey";
+  sections: ActionDigestWorkspace[];
+  memberRefs: FirebaseFirestore.DocumentReference[];
+};
+
+type DigestCandidate = {
+  workspaceSlug: string;
+  workspaceName: string;
+  memberRef: FirebaseFirestore.DocumentReference;
+  memberData: Record<string, unknown>;
+  actions: OwnedAction[];
+};
+
+export type ActionDigestJobSummary = {
+  workspacesScanned: number;
+  usersConsidered: number;
+  emailsSent: number;
+  emailsFailed: number;
+  emailsSkipped: number;
+  heldForQuietHours: number;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readRecord(value: unknown) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {} as Record<string, unknown>;
+  }
+  return value as Record<string, unknown>;
+}
+
+function parseDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function resolveLocalCalendar(at: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(at);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    dateKey: `${read("year")}-${read("month")}-${read("day")}`,
+    hour: Number.parseInt(read("hour"), 10) || 0,
+    weekday: read("weekday"),
+  };
+}
+
+async function loadAllPages(query: Query, pageSize: number) {
+  const snapshots: QueryDocumentSnapshot[] = [];
+  let page = await query.limit(pageSize).get();
+
+  while (true) {
+    snapshots.push(...page.docs);
+    if (page.size < pageSize) break;
+    page = await query
+      .startAfter(page.docs[page.size - 1])
+      .limit(pageSize)
+      .get();
+  }
+
+  return snapshots;
+}
+
+// Reads the open and blocked actions a digest can list: those due before the
+// end of the widest (weekly) window, in due order, plus undated ones, which
+// only appear when flagged or labelled as due soon.
+async function collectOwnedActions(workspaceId: string, workflow: ActionWorkflow, now: Date) {
+  const blockedIds = listActionStateIds(workflow, "blocked");
+  const statusIds = [...listActionStateIds(workflow, "open"), ...blockedIds];
+  const actionsByUid = new Map<string, OwnedAction[]>();
+  if (statusIds.length === 0) return actionsByUid;
+
+  const actionsQuery = adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("actions")
+    .where("status", "in", statusIds)
+    .select(...ACTION_FIELDS);
+  const windowEnd = Timestamp.fromMillis(now.getTime() + WEEKLY_WINDOW_DAYS * DAY_MS);
+  const [memberIndex, datedSnapshots, undatedSnapshots] = await Promise.all([
+    loadWorkspaceMemberIndex(workspaceId),
+    loadAllPages(actionsQuery.where("dueAt", "<=", windowEnd).orderBy("dueAt"), ACTION_PAGE_SIZE),
+    loadAllPages(
+      actionsQuery.where("dueAt", "==", null).orderBy(FieldPath.documentId()),
+      ACTION_PAGE_SIZE,
+    ),
+  ]);
+
+  for (const snapshot of [...datedSnapshots, ...undatedSnapshots]) {
+    const data = snapshot.data() as Record<string, unknown>;
+    if (data.archived === true) continue;
+
+    const owner = resolveOwnerMember(normalizeText(data.owner), memberIndex);
+    if (!owner) continue;
+
+    const actions = actionsByUid.get(owner.uid) ?? [];
+    actions.push({
+      id: snapshot.id,
+      title: normalizeText(data.title) || `Action ${snapshot.id}`,
+      dueAt: parseDate(data.dueAt),
+      dueLabel: normalizeText(data.dueLabel),
+      dueSoonFlag: data.dueSoon === true,
+      priority: normalizeText(data.priority) || "medium",
+      blocked: blockedIds.includes(normalizeText(data.status)),
+    });
+    actionsByUid.set(owner.uid, actions);
+  }
+
+  return actionsByUid;
+}
+
+async function loadDigestCandidates(now: Date) {
+  const workspaceSnapshots = await loadAllPages(
+    adminDb
+      .collection("workspaces")
+      .select("slug", "name", "deletion", "actionWorkflow")
+      .orderBy(FieldPath.documentId()),
+    WORKSPACE_PAGE_SIZE,
+  );
+  const candidatesByUid = new Map<string, DigestCandidate[]>();
+
+  for (const workspaceSnapshot of workspaceSnapshots) {
+    const workspaceSlug = normalizeText(workspaceSnapshot.get("slug"));
+    if (!workspaceSlug || isWorkspacePendingDeletion(workspaceSnapshot.get("deletion"))) continue;
+
+    const actionsByUid = await collectOwnedActions(
+      workspaceSnapshot.id,
+      parseActionWorkflow(workspaceSnapshot.get("actionWorkflow")),
+      now,
+    );
+    if (actionsByUid.size === 0) continue;
+
+    const membersRef = workspaceSnapshot.ref.collection("members");
+    const memberSnapshots = await adminDb.getAll(
+      ...Array.from(actionsByUid.keys()).map((uid) => membersRef.doc(uid)),
+    );
+    const workspaceName = normalizeText(workspaceSnapshot.get("name")) || workspaceSlug;
+
+    for (const memberSnapshot of memberSnapshots) {
+      if (!memberSnapshot.exists) continue;
+      const memberData = memberSnapshot.data() as Record<string, unknown>;
+      if (normalizeText(memberData.status).toLowerCase() === "removed") continue;
+
+      const candidates = candidatesByUid.get(memberSnapshot.id) ?? [];
+      candidates.push({
+        workspaceSlug,
+        workspaceName,
+        memberRef: memberSnapshot.ref,
+        memberData,
+        actions: actionsByUid.get(memberSnapshot.id) ?? [],
+      });
+      candidatesByUid.set(memberSnapshot.id, candidates);
+    }
+  }
+
+  return { workspacesScanned: workspaceSnapshots.length, candidatesByUid };
+}
+
+// Builds one email per user and cadence covering every workspace they own
+// open or blocked actions in. Daily digests follow the action reminder email preference
+// and weekly digests (Mondays) the weekly summary preference, per workspace,
+// so a workspace only appears in the emails its member asked for. The job is
+// meant to run hourly: each member's last digest date is recorded per
+// cadence, so a run only sends once the user's local morning has arrived, and
+// workspaces held by quiet hours are picked up by a later run that day.
+export async function runActionDigestJob(now = new Date()): Promise<ActionDigestJobSummary> {
+  const { workspacesScanned, candidatesByUid } = await loadDigestCandidates(now);
+  const summary: ActionDigestJobSummary = {
+    workspacesScanned,
+    usersConsidered: candidatesByUid.size,
+    emailsSent: 0,
+    emailsFailed: 0,
+    emailsSkipped: 0,
+    heldForQuietHours: 0,
+  };
+  if (candidatesByUid.size === 0) return summary;
+
+  const uids = Array.from(candidatesByUid.keys());
+  const userSnapshots = await adminDb.getAll(
+    ...uids.map((uid) => adminDb.collection("users").doc(uid)),
+  );
+  const userDataByUid = new Map(
+    userSnapshots.map((snapshot) => [
+      snapshot.id,
+      (snapshot.data() as Record<string, unknown> | undefined) ?? {},
+    ]),
+  );
+
+  for (const [uid, candidates] of candidatesByUid) {
+    const userData = userDataByUid.get(uid) ?? {};
+    const userTimezone = normalizeText(userData.timezone);
+    const timezone = isValidTimeZone(userTimezone) ? userTimezone : DEFAULT_QUIET_HOURS.timezone;
+    const local = resolveLocalCalendar(now, timezone);
+    if (local.hour < DIGEST_LOCAL_HOUR) continue;
+
+    const digests: CadenceDigest[] = [
+      {
+        cadence: "daily",
+        windowDays: DAILY_WINDOW_DAYS,
+        stateKey: "lastDailyKey",
+        sections: [],
+        memberRefs: [],
+      },
+      {
+        cadence: "weekly",
+        windowDays: WEEKLY_WINDOW_DAYS,
+        stateKey: "lastWeeklyKey",
+        sections: [],
+        memberRefs: [],
+      },
+    ];
+    const [daily, weekly] = digests;
+
+    for (const candidate of candidates) {
+      const preferences = parseMemberNotificationPreferences(candidate.memberData, userData);
+      const state = readRecord(candidate.memberData.actionDigest);
+      const wantsDaily =
+        preferences.channels.actionReminder.email &&
+        normalizeText(state.lastDailyKey) !== local.dateKey;
+      const wantsWeekly =
+        local.weekday === WEEKLY_DIGEST_WEEKDAY &&
+        preferences.channels.weeklySummary.email &&
+        normalizeText(state.lastWeeklyKey) !== local.dateKey;
+      if (!wantsDaily && !wantsWeekly) continue;
+
+      if (isWithinQuietHours(preferences.quietHours, now)) {
+        summary.heldForQuietHours += 1;
+        continue;
+      }
+
+      const wanted = [wantsDaily ? daily : null, wantsWeekly ? weekly : null];
+      for (const digest of wanted) {
+        if (!digest) continue;
+        const section = buildActionDigestSection({
+          workspaceName: candidate.workspaceName,
+          workspaceSlug: candidate.workspaceSlug,
+          actions: candidate.actions,
+          windowDays: digest.windowDays,
+          now,
+          timezone,
+        });
+        if (section.overdue.length > 0 || section.dueSoon.length > 0) {
+          digest.sections.push(section);
+        }
+        digest.memberRefs.push(candidate.memberRef);
+      }
+    }
+
+    const email =
+      normalizeText(candidates[0]?.memberData.email).toLowerCase() ||
+      normalizeText(userData.email).toLowerCase();
+
+    for (const digest of digests) {
+      if (digest.memberRefs.length === 0) continue;
+
+      if (digest.sections.length > 0) {
+        if (!email) {
+          summary.emailsSkipped += 1;
+          continue;
+        }
+
+        const result = await sendActionDigestEmail({
+          toEmail: email,
+          recipientName: normalizeText(userData.displayName),
+          cadence: digest.cadence,
+          workspaces: digest.sections,
+        });
+        if (result.status !== "sent") {
+          // Unsent digests are retried on the next run.
+          if (result.status === "failed") summary.emailsFailed += 1;
+          else summary.emailsSkipped += 1;
+          continue;
+        }
+        summary.emailsSent += 1;
+      }
+
+      const sentAt = Timestamp.fromDate(now);
+      const batch = adminDb.batch();
+      digest.memberRefs.forEach((memberRef) => {
+        batch.set(
+          memberRef,
+          { actionDigest: { [digest.stateKey]: local.dateKey, lastRunAt: sentAt } },
+          { merge: true },
+        );
+      });
+      await batch.commit();
+    }
+  }
+
+  return summary;
+}
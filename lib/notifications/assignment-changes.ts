@@ -0,0 +1,107 @@
+import type { WorkspaceMemberIdentity, WorkspaceMemberIndex } from "@/lib/notifications/mentions";
+
+export type AssignmentEntityType = "decision" | "action";
+
+export type AssignmentChange = "assigned" | "reassigned" | "statusChanged";
+
+export type AssignmentChangeInput = {
+  entityType: AssignmentEntityType;
+  owner: string;
+  previousOwner: string;
+  status: string;
+  previousStatus: string;
+  // Display names for workflow statuses; ids are title-cased when omitted.
+  statusLabel?: string;
+  previousStatusLabel?: string;
+  actorUid: string;
+};
+
+export type AssignmentTarget = {
+  uid: string;
+  change: AssignmentChange;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function formatStatusLabel(status: string) {
+  const normalized = normalizeText(status).toLowerCase();
+  if (!normalized) return "";
+  return normalized[0]?.toUpperCase() + normalized.slice(1);
+}
+
+function isUnassignedOwner(owner: string) {
+  const normalized = owner.toLowerCase();
+  return !normalized || normalized === "unassigned";
+}
+
+// Owners are stored as free text, so they are matched to members the same
+// way digest recipients are: by email first, then by unambiguous display name.
+export function resolveOwnerMember(owner: string, memberIndex: WorkspaceMemberIndex) {
+  const normalized = normalizeText(owner).toLowerCase();
+  if (isUnassignedOwner(normalized)) return null;
+
+  return memberIndex.byEmail.get(normalized) ?? memberIndex.byDisplayName.get(normalized) ?? null;
+}
+
+// The actor never hears about their own change.
+export function resolveAssignmentTargets(
+  input: AssignmentChangeInput,
+  nextOwner: WorkspaceMemberIdentity | null,
+  previousOwner: WorkspaceMemberIdentity | null,
+) {
+  const targets: AssignmentTarget[] = [];
+  const ownerChanged = nextOwner?.uid !== previousOwner?.uid;
+  const statusChanged =
+    normalizeText(input.previousStatus) !== "" &&
+    normalizeText(input.previousStatus) !== normalizeText(input.status);
+
+  if (ownerChanged) {
+    if (nextOwner) {
+      targets.push({ uid: nextOwner.uid, change: "assigned" });
+    }
+    if (previousOwner) {
+      targets.push({ uid: previousOwner.uid, change: "reassigned" });
+    }
+  } else if (statusChanged && nextOwner) {
+    targets.push({ uid: nextOwner.uid, change: "statusChanged" });
+  }
+
+  return targets.filter((target) => target.uid !== input.actorUid);
+}
+
+export function describeAssignment(
+  input: AssignmentChangeInput,
+  change: AssignmentChange,
+  actorName: string,
+) {
+  const owner = normalizeText(input.owner) || "Unassigned";
+  const previousOwner = normalizeText(input.previousOwner);
+
+  if (change === "assigned") {
+    const article = input.entityType === "action" ? "an" : "a";
+    return isUnassignedOwner(previousOwner)
+      ? `${actorName} assigned you ${article} ${input.entityType}.`
+      : `${actorName} reassigned ${article} ${input.entityType} to you from ${previousOwner}.`;
+  }
+
+  if (change === "reassigned") {
+    return `${actorName} reassigned your ${input.entityType} to ${owner}.`;
+  }
+
+  return `${actorName} moved your ${input.entityType} from ${
+    input.previousStatusLabel || formatStatusLabel(input.previousStatus)
+  } to ${input.statusLabel || formatStatusLabel(input.status)}.`;
+}
+
+export function buildAssignmentEmailSubject(
+  input: AssignmentChangeInput,
+  change: AssignmentChange,
+  entityTitle: string,
+  actorName: string,
+) {
+  if (change === "assigned") return `${actorName} assigned you ${entityTitle}`;
+  if (change === "reassigned") return `${entityTitle} was reassigned`;
+  return `${entityTitle} is now ${input.statusLabel || formatStatusLabel(input.status)}`;
+}
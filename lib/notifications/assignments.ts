@@ -0,0 +1,181 @@
+import { FieldValue, type Timestamp } from "firebase-admin/firestore";
+import { sendNotificationEmail } from "@/lib/email/notification-email";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  buildAssignmentEmailSubject,
+  describeAssignment,
+  resolveAssignmentTargets,
+  resolveOwnerMember,
+  type AssignmentChangeInput,
+  type AssignmentEntityType,
+} from "@/lib/notifications/assignment-changes";
+import { loadNotificationRecipients } from "@/lib/notifications/delivery";
+import { holdEmailForQuietHours } from "@/lib/notifications/held-emails";
+import { loadWorkspaceMemberIndex } from "@/lib/notifications/mentions";
+import { resolveNotificationDelivery } from "@/lib/notifications/preferences";
+
+type EmitAssignmentNotificationsInput = AssignmentChangeInput & {
+  workspaceId: string;
+  workspaceSlug: string;
+  workspaceName: string;
+  entityId: string;
+  entityTitle: string;
+  entityPath: string;
+  actorName: string;
+  now: Timestamp;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizePath(path: string) {
+  if (!path) return "";
+  if (path.startsWith("/")) return path;
+  return `/${path}`;
+}
+
+function buildNotificationId(
+  workspaceId: string,
+  entityType: AssignmentEntityType,
+  entityId: string,
+) {
+  const raw = `assignment_${workspaceId}_${entityType}_${entityId}`;
+  return raw.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+// Notifies the new owner when an action or decision is assigned to them, the
+// previous owner when it moves to someone else, and the owner when someone
+// else changes its status. Each recipient keeps one row per record, updated
+// with the latest change.
+export async function emitAssignmentNotifications(input: EmitAssignmentNotificationsInput) {
+  const memberIndex = await loadWorkspaceMemberIndex(input.workspaceId);
+  const nextOwner = resolveOwnerMember(input.owner, memberIndex);
+  const previousOwner = resolveOwnerMember(input.previousOwner, memberIndex);
+  const targets = resolveAssignmentTargets(input, nextOwner, previousOwner);
+  if (targets.length === 0) {
+    return { deliveredCount: 0, emailedCount: 0 };
+  }
+
+  const recipients = await loadNotificationRecipients(
+    input.workspaceId,
+    targets.map((target) => target.uid),
+  );
+  const notificationId = buildNotificationId(
+    input.workspaceId,
+    input.entityType,
+    input.entityId,
+  );
+  const entityPath = normalizePath(input.entityPath);
+  const entityTitle = normalizeText(input.entityTitle) || `${input.entityType} ${input.entityId}`;
+  const actorName = normalizeText(input.actorName) || "Workspace User";
+  const emailTargets: Array<{
+    uid: string;
+    email: string;
+    displayName: string;
+    subject: string;
+    summary: string;
+    releaseAt: Date | null;
+  }> = [];
+
+  let deliveredCount = 0;
+  const batch = adminDb.batch();
+
+  for (const target of targets) {
+    const recipient = recipients.get(target.uid);
+    if (!recipient) continue;
+
+    const summary = describeAssignment(input, target.change, actorName);
+    const delivery = resolveNotificationDelivery(
+      recipient.preferences,
+      "assignment",
+      input.now.toDate(),
+    );
+    if ((delivery.email || delivery.emailReleaseAt) && recipient.email) {
+      emailTargets.push({
+        uid: target.uid,
+        email: recipient.email,
+        displayName: recipient.displayName,
+        subject: buildAssignmentEmailSubject(input, target.change, entityTitle, actorName),
+        summary,
+        releaseAt: delivery.emailReleaseAt,
+      });
+    }
+    if (!delivery.inApp) continue;
+
+    const notificationRef = adminDb
+      .collection("users")
+      .doc(target.uid)
+      .collection("notifications")
+      .doc(notificationId);
+
+    batch.set(
+      notificationRef,
+      {
+        id: notificationId,
+        type: "assignment",
+        change: target.change,
+        status: "unread",
+        readAt: null,
+        // New activity counts toward the row's group and brings it back
+        // from the archive or a snooze.
+        eventCount: FieldValue.increment(1),
+        archivedAt: null,
+        snoozedUntil: null,
+        workspaceId: input.workspaceId,
+        workspaceSlug: input.workspaceSlug,
+        workspaceName: input.workspaceName,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        entityTitle,
+        entityPath,
+        summary,
+        ownerName: normalizeText(input.owner),
+        previousOwnerName: normalizeText(input.previousOwner),
+        entityStatus: normalizeText(input.status),
+        previousEntityStatus: normalizeText(input.previousStatus),
+        changedByUid: input.actorUid,
+        changedByName: actorName,
+        recipientUid: target.uid,
+        recipientEmail: recipient.email,
+        createdAt: input.now,
+        updatedAt: input.now,
+      },
+      { merge: true },
+    );
+    deliveredCount += 1;
+  }
+
+  if (deliveredCount > 0) {
+    await batch.commit();
+  }
+
+  let emailedCount = 0;
+  for (const target of emailTargets) {
+    const emailInput = {
+      toEmail: target.email,
+      recipientName: target.displayName,
+      workspaceName: input.workspaceName,
+      subject: target.subject,
+      heading: entityTitle,
+      summary: target.summary,
+      actionLabel: `Open ${input.entityType}`,
+      actionPath: entityPath,
+    };
+    if (target.releaseAt) {
+      await holdEmailForQuietHours({
+        uid: target.uid,
+        workspaceId: input.workspaceId,
+        eventType: "assignment",
+        releaseAt: target.releaseAt,
+        email: { kind: "notification", input: emailInput },
+      });
+      continue;
+    }
+
+    const result = await sendNotificationEmail(emailInput);
+    if (result.status === "sent") emailedCount += 1;
+  }
+
+  return { deliveredCount, emailedCount };
+}
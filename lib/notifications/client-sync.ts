@@ -0,0 +1,29 @@
+// Tabs share unread state through a BroadcastChannel: a tab that marks
+// notifications read tells the others to reload, even while their push stream
+// is down and they are polling.
+export const NOTIFICATIONS_CHANNEL_NAME = "synnapp:notifications";
+
+function openChannel() {
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") {
+    return null;
+  }
+  return new BroadcastChannel(NOTIFICATIONS_CHANNEL_NAME);
+}
+
+export function broadcastNotificationsChanged() {
+  const channel = openChannel();
+  if (!channel) return;
+
+  channel.postMessage({ type: "changed" });
+  channel.close();
+}
+
+export function subscribeNotificationsChanged(listener: () => void) {
+  const channel = openChannel();
+  if (!channel) return () => {};
+
+  channel.onmessage = () => listener();
+  return () => {
+    channel.close();
+  };
+}
@@ -0,0 +1,52 @@
+import "server-only";
+
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  parseMemberNotificationPreferences,
+  type NotificationPreferences,
+} from "@/lib/notifications/preferences";
+
+export type NotificationRecipient = {
+  uid: string;
+  email: string;
+  displayName: string;
+  preferences: NotificationPreferences;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// Removed members and uids without a member document are left out, so callers
+// never notify someone who has left the workspace.
+export async function loadNotificationRecipients(workspaceId: string, uids: string[]) {
+  const uniqueUids = Array.from(new Set(uids.map((uid) => normalizeText(uid)).filter(Boolean)));
+  const recipients = new Map<string, NotificationRecipient>();
+  if (uniqueUids.length === 0) return recipients;
+
+  const membersRef = adminDb.collection("workspaces").doc(workspaceId).collection("members");
+  const [memberSnapshots, userSnapshots] = await Promise.all([
+    adminDb.getAll(...uniqueUids.map((uid) => membersRef.doc(uid))),
+    adminDb.getAll(...uniqueUids.map((uid) => adminDb.collection("users").doc(uid))),
+  ]);
+
+  memberSnapshots.forEach((memberSnapshot, index) => {
+    if (!memberSnapshot.exists) return;
+
+    const memberData = memberSnapshot.data() as Record<string, unknown>;
+    if (normalizeText(memberData.status).toLowerCase() === "removed") return;
+
+    const userData = userSnapshots[index]?.data() as Record<string, unknown> | undefined;
+    const uid = memberSnapshot.id;
+    const email = normalizeText(memberData.email).toLowerCase();
+
+    recipients.set(uid, {
+      uid,
+      email,
+      displayName: normalizeText(memberData.displayName) || email || "Workspace Member",
+      preferences: parseMemberNotificationPreferences(memberData, userData),
+    });
+  });
+
+  return recipients;
+}
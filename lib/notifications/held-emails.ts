@@ -0,0 +1,159 @@
+import "server-only";
+
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  sendMeetingDigestEmail,
+  type SendMeetingDigestEmailInput,
+} from "@/lib/email/meeting-digest-email";
+import {
+  sendNotificationEmail,
+  type SendNotificationEmailInput,
+} from "@/lib/email/notification-email";
+import { adminDb } from "@/lib/firebase/admin";
+import { loadNotificationRecipients } from "@/lib/notifications/delivery";
+import {
+  isWithinQuietHours,
+  resolveQuietHoursEnd,
+  type NotificationEventType,
+} from "@/lib/notifications/preferences";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
+
+const HELD_EMAILS_COLLECTION = "heldNotificationEmails";
+const MAX_RELEASED_PER_RUN = 200;
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_DELAY_MINUTES = 15;
+
+export type HeldEmail =
+  | { kind: "notification"; input: SendNotificationEmailInput }
+  | { kind: "meetingDigest"; input: SendMeetingDigestEmailInput };
+
+export type HeldEmailJobSummary = {
+  released: number;
+  sent: number;
+  failed: number;
+  dropped: number;
+  rescheduled: number;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseHeldEmail(data: Record<string, unknown>): HeldEmail | null {
+  const input = data.input;
+  if (!input || typeof input !== "object") return null;
+  if (data.kind === "notification") {
+    return { kind: "notification", input: input as SendNotificationEmailInput };
+  }
+  if (data.kind === "meetingDigest") {
+    return { kind: "meetingDigest", input: input as SendMeetingDigestEmailInput };
+  }
+  return null;
+}
+
+function sendHeldEmail(email: HeldEmail) {
+  return email.kind === "notification"
+    ? sendNotificationEmail(email.input)
+    : sendMeetingDigestEmail(email.input);
+}
+
+// Queues an email that arrived during the recipient's quiet hours. The email
+// input is stored as plain data (optional fields that are unset are dropped)
+// so the job can render it unchanged.
+export async function holdEmailForQuietHours(input: {
+  uid: string;
+  workspaceId: string;
+  eventType: NotificationEventType;
+  releaseAt: Date;
+  email: HeldEmail;
+}) {
+  await adminDb.collection(HELD_EMAILS_COLLECTION).add({
+    uid: input.uid,
+    workspaceId: input.workspaceId,
+    eventType: input.eventType,
+    kind: input.email.kind,
+    input: JSON.parse(JSON.stringify(input.email.input)) as Record<string, unknown>,
+    releaseAt: Timestamp.fromDate(input.releaseAt),
+    attempts: 0,
+    createdAt: Timestamp.now(),
+  });
+}
+
+// Sends held emails whose quiet hours have ended. Preferences are checked
+// again at release: emails the member has since turned off are dropped, and
+// quiet hours that were moved push the email to their new end. Emails from
+// workspaces scheduled for deletion are dropped, since members are locked out.
+export async function runHeldEmailJob(now = new Date()): Promise<HeldEmailJobSummary> {
+  const snapshots = await adminDb
+    .collection(HELD_EMAILS_COLLECTION)
+    .where("releaseAt", "<=", Timestamp.fromDate(now))
+    .orderBy("releaseAt")
+    .limit(MAX_RELEASED_PER_RUN)
+    .get();
+  const summary: HeldEmailJobSummary = {
+    released: snapshots.size,
+    sent: 0,
+    failed: 0,
+    dropped: 0,
+    rescheduled: 0,
+  };
+  const pendingDeletionByWorkspaceId = new Map<string, boolean>();
+
+  async function isPendingDeletion(workspaceId: string) {
+    const cached = pendingDeletionByWorkspaceId.get(workspaceId);
+    if (cached !== undefined) return cached;
+
+    const workspaceSnapshot = await adminDb.collection("workspaces").doc(workspaceId).get();
+    const pending =
+      !workspaceSnapshot.exists || isWorkspacePendingDeletion(workspaceSnapshot.get("deletion"));
+    pendingDeletionByWorkspaceId.set(workspaceId, pending);
+    return pending;
+  }
+
+  for (const snapshot of snapshots.docs) {
+    const data = snapshot.data() as Record<string, unknown>;
+    const uid = normalizeText(data.uid);
+    const workspaceId = normalizeText(data.workspaceId);
+    const eventType = normalizeText(data.eventType) as NotificationEventType;
+    const email = parseHeldEmail(data);
+    const recipient = uid && workspaceId && !(await isPendingDeletion(workspaceId))
+      ? (await loadNotificationRecipients(workspaceId, [uid])).get(uid)
+      : undefined;
+
+    if (!email || !recipient || !recipient.preferences.channels[eventType]?.email) {
+      summary.dropped += 1;
+      await snapshot.ref.delete();
+      continue;
+    }
+
+    if (isWithinQuietHours(recipient.preferences.quietHours, now)) {
+      summary.rescheduled += 1;
+      await snapshot.ref.update({
+        releaseAt: Timestamp.fromDate(resolveQuietHoursEnd(recipient.preferences.quietHours, now)),
+      });
+      continue;
+    }
+
+    const result = await sendHeldEmail(email);
+    if (result.status !== "failed") {
+      if (result.status === "sent") summary.sent += 1;
+      else summary.dropped += 1;
+      await snapshot.ref.delete();
+      continue;
+    }
+
+    summary.failed += 1;
+    const attempts = (typeof data.attempts === "number" ? data.attempts : 0) + 1;
+    if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      await snapshot.ref.delete();
+      continue;
+    }
+    await snapshot.ref.update({
+      attempts,
+      lastError: result.error,
+      releaseAt: Timestamp.fromMillis(now.getTime() + RETRY_DELAY_MINUTES * 60 * 1000),
+    });
+  }
+
+  return summary;
+}
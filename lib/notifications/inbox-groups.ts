@@ -0,0 +1,219 @@
+export type InviteStatus = "pending" | "accepted" | "revoked" | "expired";
+export type NotificationEntityType = "decision" | "action";
+export type AssignmentChange = "assigned" | "reassigned" | "statusChanged";
+
+export type NotificationView = "inbox" | "snoozed" | "archived";
+
+type NotificationTriageState = {
+  isRead: boolean;
+  readAt: string;
+  snoozedUntil: string;
+  archivedAt: string;
+};
+
+export type InviteNotification = NotificationTriageState & {
+  id: string;
+  type: "workspace_invite";
+  token: string;
+  inviteUrl: string;
+  workspaceSlug: string;
+  workspaceName: string;
+  role: string;
+  invitedByName: string;
+  status: InviteStatus;
+  createdAt: string;
+  expiresAt: string;
+};
+
+type StoredNotificationBase = NotificationTriageState & {
+  id: string;
+  notificationId: string;
+  workspaceId: string;
+  workspaceSlug: string;
+  workspaceName: string;
+  entityType: NotificationEntityType;
+  entityId: string;
+  entityTitle: string;
+  entityPath: string;
+  eventCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type MentionNotification = StoredNotificationBase & {
+  type: "mention";
+  mentionedByName: string;
+  preview: string;
+};
+
+export type AssignmentNotification = StoredNotificationBase & {
+  type: "assignment";
+  change: AssignmentChange;
+  summary: string;
+  changedByName: string;
+};
+
+export type NotificationItem = InviteNotification | MentionNotification | AssignmentNotification;
+
+type NotificationGroupBase = {
+  key: string;
+  view: NotificationView;
+  isRead: boolean;
+  updatedAt: string;
+  snoozedUntil: string;
+};
+
+export type InviteNotificationGroup = NotificationGroupBase & {
+  type: "workspace_invite";
+  invite: InviteNotification;
+};
+
+// Mention and assignment rows about the same record collapse into one group.
+export type EntityNotificationGroup = NotificationGroupBase & {
+  type: "entity";
+  workspaceSlug: string;
+  workspaceName: string;
+  entityType: NotificationEntityType;
+  entityId: string;
+  entityTitle: string;
+  entityPath: string;
+  eventCount: number;
+  items: Array<MentionNotification | AssignmentNotification>;
+};
+
+export type NotificationGroup = InviteNotificationGroup | EntityNotificationGroup;
+
+export type StoredNotification = MentionNotification | AssignmentNotification;
+
+export type ScanPosition = {
+  seconds: number;
+  nanoseconds: number;
+  id: string;
+};
+
+export function toPositionEpoch(position: ScanPosition) {
+  return position.seconds * 1000 + position.nanoseconds / 1_000_000;
+}
+
+// Negative when `a` comes first in the view's query order.
+export function compareScanPositions(a: ScanPosition, b: ScanPosition, view: NotificationView) {
+  const idOrder = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  const ascending = a.seconds - b.seconds || a.nanoseconds - b.nanoseconds || idOrder;
+  return view === "snoozed" ? ascending : -ascending;
+}
+
+export function buildEntityGroupKey(item: StoredNotification) {
+  const workspaceKey = item.workspaceId || item.workspaceSlug;
+  return `entity:${workspaceKey}:${item.entityType}:${item.entityId}`;
+}
+
+export function toEpoch(value: string) {
+  const parsed = new Date(value).getTime();
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+export function resolveItemView(
+  item: NotificationTriageState,
+  nowEpoch: number,
+): NotificationView {
+  if (item.archivedAt) return "archived";
+  if (item.snoozedUntil && toEpoch(item.snoozedUntil) > nowEpoch) return "snoozed";
+  return "inbox";
+}
+
+export function buildInviteGroup(
+  invite: InviteNotification,
+  nowEpoch: number,
+): InviteNotificationGroup {
+  return {
+    key: `invite:${invite.token}`,
+    type: "workspace_invite",
+    view: resolveItemView(invite, nowEpoch),
+    isRead: invite.isRead,
+    updatedAt: invite.createdAt,
+    snoozedUntil: invite.snoozedUntil,
+    invite,
+  };
+}
+
+export function buildEntityGroups(items: StoredNotification[], nowEpoch: number) {
+  const itemsByKey = new Map<string, StoredNotification[]>();
+  for (const item of items) {
+    const key = buildEntityGroupKey(item);
+    const grouped = itemsByKey.get(key) ?? [];
+    grouped.push(item);
+    itemsByKey.set(key, grouped);
+  }
+
+  const groups: EntityNotificationGroup[] = [];
+  for (const [key, groupedItems] of itemsByKey) {
+    groupedItems.sort((a, b) => toEpoch(b.updatedAt) - toEpoch(a.updatedAt));
+    const latest = groupedItems[0];
+    if (!latest) continue;
+
+    // Any row still in the inbox keeps the whole group there, so new activity
+    // on an archived record brings it back.
+    const views = groupedItems.map((item) => resolveItemView(item, nowEpoch));
+    const view: NotificationView = views.includes("inbox")
+      ? "inbox"
+      : views.includes("snoozed")
+        ? "snoozed"
+        : "archived";
+    const snoozedUntil = groupedItems
+      .map((item) => item.snoozedUntil)
+      .filter(Boolean)
+      .sort()
+      .at(-1) ?? "";
+
+    groups.push({
+      key,
+      type: "entity",
+      view,
+      isRead: groupedItems.every((item) => item.isRead),
+      updatedAt: latest.updatedAt,
+      snoozedUntil,
+      workspaceSlug: latest.workspaceSlug,
+      workspaceName: latest.workspaceName,
+      entityType: latest.entityType,
+      entityId: latest.entityId,
+      entityTitle: latest.entityTitle,
+      entityPath: latest.entityPath,
+      eventCount: groupedItems.reduce(
+        (count, item) => count + (item.isRead ? 0 : item.eventCount),
+        0,
+      ),
+      items: groupedItems,
+    });
+  }
+
+  return groups;
+}
+
+export function encodeCursor(view: NotificationView, position: ScanPosition) {
+  return Buffer.from(
+    JSON.stringify({ v: view, s: position.seconds, n: position.nanoseconds, id: position.id }),
+  ).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, view: NotificationView): ScanPosition | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as {
+      v?: unknown;
+      s?: unknown;
+      n?: unknown;
+      id?: unknown;
+    };
+    if (
+      parsed.v !== view ||
+      typeof parsed.s !== "number" ||
+      typeof parsed.n !== "number" ||
+      typeof parsed.id !== "string"
+    ) {
+      return null;
+    }
+    return { seconds: parsed.s, nanoseconds: parsed.n, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,527 @@
+import "server-only";
+
+import { FieldPath, Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  buildEntityGroupKey,
+  buildEntityGroups,
+  buildInviteGroup,
+  compareScanPositions,
+  decodeCursor,
+  encodeCursor,
+  resolveItemView,
+  toEpoch,
+  toPositionEpoch,
+  type AssignmentChange,
+  type EntityNotificationGroup,
+  type InviteNotification,
+  type InviteNotificationGroup,
+  type InviteStatus,
+  type NotificationEntityType,
+  type NotificationGroup,
+  type NotificationView,
+  type ScanPosition,
+  type StoredNotification,
+} from "@/lib/notifications/inbox-groups";
+
+export type NotificationInbox = {
+  view: NotificationView;
+  unreadCount: number;
+  groups: NotificationGroup[];
+  nextCursor: string;
+  nextWakeAt: string;
+};
+
+type LoadNotificationInboxOptions = {
+  view?: NotificationView;
+  cursor?: string;
+  limit?: number;
+};
+
+export const DEFAULT_NOTIFICATION_PAGE_SIZE = 20;
+export const MAX_NOTIFICATION_PAGE_SIZE = 50;
+
+// Each view reads its rows a page at a time. A request stops after a few pages
+// so a long run of rows that belong to other views cannot stall it; the cursor
+// then resumes where the scan stopped.
+const NOTIFICATION_SCAN_PAGE_SIZE = 100;
+const MAX_NOTIFICATION_SCAN_PAGES = 5;
+// The unread badge counts groups across the newest unread rows.
+const UNREAD_COUNT_WINDOW = 200;
+
+const VIEW_ORDER_FIELDS: Record<NotificationView, "updatedAt" | "snoozedUntil" | "archivedAt"> = {
+  inbox: "updatedAt",
+  snoozed: "snoozedUntil",
+  archived: "archivedAt",
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizePath(value: unknown) {
+  const normalized = normalizeText(value);
+  if (!normalized) return "";
+  return normalized.startsWith("/") ? normalized : `/${normalized}`;
+}
+
+function parseDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+function formatInviteStatus(rawStatus: string, expiresAt: Date | null): InviteStatus {
+  if (rawStatus === "accepted" || rawStatus === "revoked" || rawStatus === "expired") {
+    return rawStatus;
+  }
+
+  if (expiresAt && expiresAt.getTime() < Date.now()) {
+    return "expired";
+  }
+
+  return "pending";
+}
+
+function formatRoleLabel(role: string) {
+  const normalizedRole = normalizeText(role).toLowerCase();
+  if (!normalizedRole) return "Member";
+  return normalizedRole[0]?.toUpperCase() + normalizedRole.slice(1);
+}
+
+function parseNotificationEntityType(value: unknown): NotificationEntityType {
+  const normalized = normalizeText(value).toLowerCase();
+  if (normalized === "action") return "action";
+  return "decision";
+}
+
+function parseAssignmentChange(value: unknown): AssignmentChange {
+  const normalized = normalizeText(value);
+  if (normalized === "reassigned" || normalized === "statusChanged") return normalized;
+  return "assigned";
+}
+
+export function parseNotificationView(value: unknown): NotificationView {
+  const normalized = normalizeText(value).toLowerCase();
+  if (normalized === "snoozed" || normalized === "archived") return normalized;
+  return "inbox";
+}
+
+function readTokenMap(value: unknown) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {} as Record<string, unknown>;
+  }
+
+  return { ...(value as Record<string, unknown>) };
+}
+
+export type InviteTriageMaps = {
+  readInviteTokens: Record<string, unknown>;
+  snoozedInviteTokens: Record<string, unknown>;
+  archivedInviteTokens: Record<string, unknown>;
+};
+
+export function readInviteTriageMaps(
+  userSnapshot: FirebaseFirestore.DocumentSnapshot,
+): InviteTriageMaps {
+  return {
+    readInviteTokens: readTokenMap(userSnapshot.get("notificationState.readInviteTokens")),
+    snoozedInviteTokens: readTokenMap(userSnapshot.get("notificationState.snoozedInviteTokens")),
+    archivedInviteTokens: readTokenMap(
+      userSnapshot.get("notificationState.archivedInviteTokens"),
+    ),
+  };
+}
+
+export async function listPendingInviteNotificationsByEmail(
+  actorEmail: string,
+  triage: InviteTriageMaps,
+): Promise<InviteNotification[]> {
+  if (!actorEmail) {
+    return [];
+  }
+
+  const tokenSnapshots = await adminDb
+    .collection("workspaceInviteTokens")
+    .where("email", "==", actorEmail)
+    .limit(100)
+    .get();
+
+  const notifications: InviteNotification[] = [];
+
+  for (const snapshot of tokenSnapshots.docs) {
+    const data = snapshot.data() as Record<string, unknown>;
+    const token = normalizeText(data.token || snapshot.id);
+    if (!token) continue;
+
+    const expiresAt = parseDate(data.expiresAt);
+    const rawStatus = normalizeText(data.status).toLowerCase();
+    const status = formatInviteStatus(rawStatus, expiresAt);
+    if (status !== "pending") {
+      continue;
+    }
+
+    const createdAt = parseDate(data.createdAt);
+    const readAt = parseDate(triage.readInviteTokens[token]);
+    const snoozedUntil = parseDate(triage.snoozedInviteTokens[token]);
+    const archivedAt = parseDate(triage.archivedInviteTokens[token]);
+
+    notifications.push({
+      id: token,
+      type: "workspace_invite",
+      token,
+      inviteUrl: `/invite/${encodeURIComponent(token)}`,
+      workspaceSlug: normalizeText(data.workspaceSlug),
+      workspaceName: normalizeText(data.workspaceName) || "Workspace",
+      role: formatRoleLabel(normalizeText(data.role)),
+      invitedByName: normalizeText(data.invitedByName) || "Workspace Admin",
+      status,
+      createdAt: createdAt?.toISOString() ?? "",
+      expiresAt: expiresAt?.toISOString() ?? "",
+      isRead: readAt !== null,
+      readAt: readAt?.toISOString() ?? "",
+      snoozedUntil: snoozedUntil?.toISOString() ?? "",
+      archivedAt: archivedAt?.toISOString() ?? "",
+    });
+  }
+
+  return notifications;
+}
+
+// Mention and assignment rows share users/{uid}/notifications; invites are
+// read from their tokens instead.
+function mapStoredNotificationSnapshot(
+  snapshot: FirebaseFirestore.DocumentSnapshot,
+): StoredNotification | null {
+  const data = (snapshot.data() ?? {}) as Record<string, unknown>;
+  const type = normalizeText(data.type).toLowerCase();
+  if (type !== "mention" && type !== "assignment") {
+    return null;
+  }
+
+  const readAt = parseDate(data.readAt);
+  const isRead = readAt !== null || normalizeText(data.status).toLowerCase() === "read";
+  const workspaceSlug = normalizeText(data.workspaceSlug);
+  const entityType = parseNotificationEntityType(data.entityType);
+  const entityId = normalizeText(data.entityId);
+  const fallbackPath =
+    workspaceSlug && entityId
+      ? `/${workspaceSlug}/${entityType === "decision" ? "decisions" : "actions"}/${entityId}`
+      : "";
+  const createdAt = parseDate(data.createdAt);
+  const updatedAt = parseDate(data.updatedAt);
+  const eventCount =
+    typeof data.eventCount === "number" && data.eventCount > 0 ? Math.floor(data.eventCount) : 1;
+  const base = {
+    notificationId: snapshot.id,
+    workspaceId: normalizeText(data.workspaceId),
+    workspaceSlug,
+    workspaceName: normalizeText(data.workspaceName) || "Workspace",
+    entityType,
+    entityId,
+    entityTitle: normalizeText(data.entityTitle) || `${entityType} ${entityId}`,
+    entityPath: normalizePath(data.entityPath) || fallbackPath,
+    eventCount: isRead ? 1 : eventCount,
+    createdAt: createdAt?.toISOString() ?? "",
+    updatedAt: updatedAt?.toISOString() ?? createdAt?.toISOString() ?? "",
+    isRead,
+    readAt: readAt?.toISOString() ?? "",
+    snoozedUntil: parseDate(data.snoozedUntil)?.toISOString() ?? "",
+    archivedAt: parseDate(data.archivedAt)?.toISOString() ?? "",
+  };
+
+  if (type === "assignment") {
+    const changedByName = normalizeText(data.changedByName) || "Workspace User";
+    return {
+      ...base,
+      id: snapshot.id,
+      type: "assignment",
+      change: parseAssignmentChange(data.change),
+      summary:
+        normalizeText(data.summary) || `${changedByName} updated a ${entityType} you own.`,
+      changedByName,
+    };
+  }
+
+  return {
+    ...base,
+    id: snapshot.id,
+    type: "mention",
+    mentionedByName: normalizeText(data.mentionedByName) || "Workspace User",
+    preview: normalizeText(data.preview),
+  };
+}
+
+function notificationsCollection(uid: string) {
+  return adminDb.collection("users").doc(uid).collection("notifications");
+}
+
+// The inbox walks rows by latest activity, the snoozed view by wake time, and
+// the archive by when rows were archived. Archiving clears a snooze and
+// snoozing clears the archive, so the last two queries never overlap.
+function buildViewQuery(uid: string, view: NotificationView, now: Timestamp) {
+  const collection = notificationsCollection(uid);
+  if (view === "archived") {
+    return collection
+      .where("archivedAt", ">", Timestamp.fromMillis(0))
+      .orderBy("archivedAt", "desc")
+      .orderBy(FieldPath.documentId(), "desc");
+  }
+  if (view === "snoozed") {
+    return collection
+      .where("snoozedUntil", ">", now)
+      .orderBy("snoozedUntil")
+      .orderBy(FieldPath.documentId());
+  }
+  return collection.orderBy("updatedAt", "desc").orderBy(FieldPath.documentId(), "desc");
+}
+
+function readScanPosition(
+  snapshot: FirebaseFirestore.DocumentSnapshot,
+  view: NotificationView,
+): ScanPosition | null {
+  const value = snapshot.get(VIEW_ORDER_FIELDS[view]);
+  if (!(value instanceof Timestamp)) return null;
+  return { seconds: value.seconds, nanoseconds: value.nanoseconds, id: snapshot.id };
+}
+
+// Mention and assignment rows use one id per recipient and record (see
+// mentions.ts and assignments.ts), so a group's other row is read by id.
+function buildGroupNotificationIds(item: StoredNotification) {
+  if (!item.workspaceId) return [item.notificationId];
+  return (["mention", "assignment"] as const).map((type) =>
+    `${type}_${item.workspaceId}_${item.entityType}_${item.entityId}`.replace(
+      /[^a-zA-Z0-9_-]/g,
+      "_",
+    ),
+  );
+}
+
+async function loadGroupSnapshots(
+  uid: string,
+  snapshots: FirebaseFirestore.QueryDocumentSnapshot[],
+  items: StoredNotification[],
+) {
+  const snapshotsById = new Map<string, FirebaseFirestore.DocumentSnapshot>(
+    snapshots.map((snapshot) => [snapshot.id, snapshot]),
+  );
+  const missingIds = Array.from(new Set(items.flatMap(buildGroupNotificationIds))).filter(
+    (id) => !snapshotsById.has(id),
+  );
+  if (missingIds.length > 0) {
+    const collection = notificationsCollection(uid);
+    const fetched = await adminDb.getAll(...missingIds.map((id) => collection.doc(id)));
+    fetched.forEach((snapshot) => snapshotsById.set(snapshot.id, snapshot));
+  }
+
+  return (item: StoredNotification) => {
+    const groupSnapshots = buildGroupNotificationIds(item)
+      .map((id) => snapshotsById.get(id))
+      .filter((snapshot): snapshot is FirebaseFirestore.DocumentSnapshot =>
+        Boolean(snapshot?.exists),
+      );
+    return groupSnapshots.some((snapshot) => snapshot.id === item.notificationId)
+      ? groupSnapshots
+      : [...groupSnapshots, snapshotsById.get(item.notificationId)!];
+  };
+}
+
+// Reads the view's rows from the cursor until `limit` groups are found. A
+// group is listed once, at the first of its rows that the view's query
+// reaches, and only when the group as a whole belongs to the view.
+async function loadEntityGroupPage(
+  uid: string,
+  view: NotificationView,
+  cursor: ScanPosition | null,
+  limit: number,
+  nowEpoch: number,
+) {
+  const query = buildViewQuery(uid, view, Timestamp.fromMillis(nowEpoch));
+  const groups: Array<{ group: EntityNotificationGroup; position: ScanPosition }> = [];
+  let position = cursor;
+  let exhausted = false;
+
+  for (let page = 0; page < MAX_NOTIFICATION_SCAN_PAGES && groups.length < limit; page += 1) {
+    const pageSnapshot = await (position
+      ? query.startAfter(new Timestamp(position.seconds, position.nanoseconds), position.id)
+      : query
+    )
+      .limit(NOTIFICATION_SCAN_PAGE_SIZE)
+      .get();
+
+    const rows = pageSnapshot.docs.map((snapshot) => ({
+      snapshot,
+      item: mapStoredNotificationSnapshot(snapshot),
+      position: readScanPosition(snapshot, view),
+    }));
+    const candidates = rows
+      .map((row) => row.item)
+      .filter(
+        (item): item is StoredNotification =>
+          item !== null && resolveItemView(item, nowEpoch) === view,
+      );
+    const resolveGroupSnapshots = await loadGroupSnapshots(uid, pageSnapshot.docs, candidates);
+
+    let scanned = 0;
+    for (const row of rows) {
+      scanned += 1;
+      if (!row.position) continue;
+      position = row.position;
+      if (!row.item || resolveItemView(row.item, nowEpoch) !== view) continue;
+
+      const groupSnapshots = resolveGroupSnapshots(row.item);
+      const groupItems = groupSnapshots
+        .map(mapStoredNotificationSnapshot)
+        .filter((item): item is StoredNotification => item !== null);
+      const group = buildEntityGroups(groupItems, nowEpoch)[0];
+      if (!group || group.view !== view) continue;
+
+      const anchor = groupSnapshots
+        .filter((snapshot) => {
+          const item = mapStoredNotificationSnapshot(snapshot);
+          return item !== null && resolveItemView(item, nowEpoch) === view;
+        })
+        .map((snapshot) => readScanPosition(snapshot, view))
+        .filter((entry): entry is ScanPosition => entry !== null)
+        .sort((a, b) => compareScanPositions(a, b, view))[0];
+      if (anchor && anchor.id !== row.position.id) continue;
+
+      groups.push({ group, position: row.position });
+      if (groups.length >= limit) break;
+    }
+
+    if (pageSnapshot.size < NOTIFICATION_SCAN_PAGE_SIZE && scanned === rows.length) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  return { groups, position, exhausted };
+}
+
+function resolveInviteSortEpoch(invite: InviteNotification, view: NotificationView) {
+  if (view === "snoozed") return toEpoch(invite.snoozedUntil);
+  if (view === "archived") return toEpoch(invite.archivedAt);
+  return toEpoch(invite.createdAt);
+}
+
+// Counts inbox groups with unread activity, so the badge matches the inbox.
+async function countUnreadGroups(
+  uid: string,
+  inviteGroups: InviteNotificationGroup[],
+  nowEpoch: number,
+) {
+  const unreadSnapshot = await notificationsCollection(uid)
+    .where("status", "==", "unread")
+    .limit(UNREAD_COUNT_WINDOW)
+    .get();
+  const unreadKeys = new Set<string>();
+  for (const snapshot of unreadSnapshot.docs) {
+    const item = mapStoredNotificationSnapshot(snapshot);
+    if (item && !item.isRead && resolveItemView(item, nowEpoch) === "inbox") {
+      unreadKeys.add(buildEntityGroupKey(item));
+    }
+  }
+
+  return (
+    unreadKeys.size +
+    inviteGroups.filter((group) => group.view === "inbox" && !group.isRead).length
+  );
+}
+
+async function loadNextWakeAt(
+  uid: string,
+  inviteGroups: InviteNotificationGroup[],
+  nowEpoch: number,
+) {
+  const snoozedSnapshot = await buildViewQuery(uid, "snoozed", Timestamp.fromMillis(nowEpoch))
+    .limit(1)
+    .get();
+  const storedWake = parseDate(snoozedSnapshot.docs[0]?.get("snoozedUntil"))?.toISOString();
+  return (
+    [
+      storedWake ?? "",
+      ...inviteGroups
+        .filter((group) => group.view === "snoozed")
+        .map((group) => group.snoozedUntil),
+    ]
+      .filter(Boolean)
+      .sort()[0] ?? ""
+  );
+}
+
+// Shared by the GET route and the notification stream so both report the same
+// groups and unread count. The unread count always covers the inbox view.
+// Pending invites are few and read in full; they are merged into the page of
+// stored rows by the same order the view's query uses.
+export async function loadNotificationInbox(
+  uid: string,
+  actorEmail: string,
+  options: LoadNotificationInboxOptions = {},
+): Promise<NotificationInbox> {
+  const view = options.view ?? "inbox";
+  const limit = Math.min(
+    Math.max(options.limit ?? DEFAULT_NOTIFICATION_PAGE_SIZE, 1),
+    MAX_NOTIFICATION_PAGE_SIZE,
+  );
+  const cursor = decodeCursor(options.cursor ?? "", view);
+  const nowEpoch = Date.now();
+  const userSnapshot = await adminDb.collection("users").doc(uid).get();
+  const inviteNotifications = await listPendingInviteNotificationsByEmail(
+    actorEmail,
+    readInviteTriageMaps(userSnapshot),
+  );
+  const inviteGroups = inviteNotifications.map((invite) => buildInviteGroup(invite, nowEpoch));
+
+  const [page, unreadCount, nextWakeAt] = await Promise.all([
+    loadEntityGroupPage(uid, view, cursor, limit, nowEpoch),
+    countUnreadGroups(uid, inviteGroups, nowEpoch),
+    loadNextWakeAt(uid, inviteGroups, nowEpoch),
+  ]);
+
+  // Invites between the cursor and the last row this page read belong here;
+  // once the rows run out, every remaining invite does.
+  const descending = view !== "snoozed";
+  const isBefore = (a: number, b: number) => (descending ? a > b : a < b);
+  const startEpoch = cursor ? toPositionEpoch(cursor) : null;
+  const endEpoch = page.position && !page.exhausted ? toPositionEpoch(page.position) : null;
+  const pageInvites = inviteGroups
+    .filter((group) => group.view === view)
+    .map((group) => ({ group, epoch: resolveInviteSortEpoch(group.invite, view) }))
+    .filter(
+      (entry) =>
+        (startEpoch === null || isBefore(startEpoch, entry.epoch)) &&
+        (endEpoch === null || !isBefore(endEpoch, entry.epoch)),
+    );
+
+  const groups: NotificationGroup[] = [
+    ...page.groups.map((entry) => ({
+      group: entry.group as NotificationGroup,
+      epoch: toPositionEpoch(entry.position),
+    })),
+    ...pageInvites,
+  ]
+    .sort((a, b) => (descending ? b.epoch - a.epoch : a.epoch - b.epoch))
+    .map((entry) => entry.group);
+
+  return {
+    view,
+    unreadCount,
+    groups,
+    nextCursor: !page.exhausted && page.position ? encodeCursor(view, page.position) : "",
+    nextWakeAt,
+  };
+}
@@ -1,5 +1,9 @@
-import { type Timestamp } from "firebase-admin/firestore";
+import { FieldValue, type Timestamp } from "firebase-admin/firestore";
+import { sendNotificationEmail } from "@/lib/email/notification-email";
 import { adminDb } from "@/lib/firebase/admin";
+import { loadNotificationRecipients } from "@/lib/notifications/delivery";
+import { holdEmailForQuietHours } from "@/lib/notifications/held-emails";
+import { resolveNotificationDelivery } from "@/lib/notifications/preferences";
 
 type MentionEntityType = "decision" | "action";
 
@@ -20,15 +24,16 @@ type EmitMentionNotificationsInput = {
   now: Timestamp;
 };
 
-type WorkspaceMemberIdentity = {
+export type WorkspaceMemberIdentity = {
   uid: string;
   email: string;
   displayName: string;
 };
 
-type WorkspaceMemberIndex = {
+export type WorkspaceMemberIndex = {
   byEmail: Map<string, WorkspaceMemberIdentity>;
   byUid: Map<string, WorkspaceMemberIdentity>;
+  byDisplayName: Map<string, WorkspaceMemberIdentity | null>;
 };
 
 const MENTION_EMAIL_REGEX =
@@ -68,7 +73,11 @@ function buildPreview(text: string) {
   return `${compact.slice(0, 177)}...`;
 }
 
-async function loadWorkspaceMemberIndex(workspaceId: string): Promise<WorkspaceMemberIndex> {
+// Display names are not unique; a name shared by several members maps to null
+// so callers never guess between them.
+export async function loadWorkspaceMemberIndex(
+  workspaceId: string,
+): Promise<WorkspaceMemberIndex> {
   const membersSnapshot = await adminDb
     .collection("workspaces")
     .doc(workspaceId)
@@ -76,6 +85,7 @@ async function loadWorkspaceMemberIndex(workspaceId: string): Promise<WorkspaceM
     .get();
   const byEmail = new Map<string, WorkspaceMemberIdentity>();
   const byUid = new Map<string, WorkspaceMemberIdentity>();
+  const byDisplayName = new Map<string, WorkspaceMemberIdentity | null>();
 
   for (const memberSnapshot of membersSnapshot.docs) {
     const memberData = memberSnapshot.data() as Record<string, unknown>;
@@ -89,9 +99,14 @@ async function loadWorkspaceMemberIndex(workspaceId: string): Promise<WorkspaceM
     if (email) {
       byEmail.set(email, identity);
     }
+
+    const nameKey = normalizeText(memberData.displayName).toLowerCase();
+    if (nameKey) {
+      byDisplayName.set(nameKey, byDisplayName.has(nameKey) ? null : identity);
+    }
   }
 
-  return { byEmail, byUid };
+  return { byEmail, byUid, byDisplayName };
 }
 
 export function normalizeMentionUids(value: unknown) {
@@ -182,7 +197,7 @@ export async function emitMentionNotifications(
           memberIndex,
         );
   if (nextMentionUids.length === 0) {
-    return { deliveredCount: 0, mentionedUids: [] as string[] };
+    return { deliveredCount: 0, emailedCount: 0, mentionedUids: [] as string[] };
   }
 
   const previousMentionUids =
@@ -198,7 +213,7 @@ export async function emitMentionNotifications(
   const newlyMentionedUids = nextMentionUids.filter((uid) => !previousMentionSet.has(uid));
 
   if (newlyMentionedUids.length === 0) {
-    return { deliveredCount: 0, mentionedUids: nextMentionUids };
+    return { deliveredCount: 0, emailedCount: 0, mentionedUids: nextMentionUids };
   }
 
   const notificationId = buildNotificationId(
@@ -211,6 +226,19 @@ export async function emitMentionNotifications(
     normalizeText(input.mentionText) || normalizeText(input.entityTitle),
   );
 
+  const recipients = await loadNotificationRecipients(
+    input.workspaceId,
+    newlyMentionedUids.filter((uid) => uid !== input.actorUid),
+  );
+  const entityTitle = normalizeText(input.entityTitle) || `${input.entityType} ${input.entityId}`;
+  const actorName = normalizeText(input.actorName) || "Workspace User";
+  const emailTargets: Array<{
+    uid: string;
+    email: string;
+    displayName: string;
+    releaseAt: Date | null;
+  }> = [];
+
   let deliveredCount = 0;
   let batch = adminDb.batch();
   let batchWrites = 0;
@@ -220,6 +248,24 @@ export async function emitMentionNotifications(
     if (!target) continue;
     if (target.uid === input.actorUid) continue;
 
+    const recipient = recipients.get(target.uid);
+    if (!recipient) continue;
+
+    const delivery = resolveNotificationDelivery(
+      recipient.preferences,
+      "mention",
+      input.now.toDate(),
+    );
+    if ((delivery.email || delivery.emailReleaseAt) && recipient.email) {
+      emailTargets.push({
+        uid: target.uid,
+        email: recipient.email,
+        displayName: recipient.displayName,
+        releaseAt: delivery.emailReleaseAt,
+      });
+    }
+    if (!delivery.inApp) continue;
+
     const notificationRef = adminDb
       .collection("users")
       .doc(target.uid)
@@ -233,16 +279,19 @@ export async function emitMentionNotifications(
         type: "mention",
         status: "unread",
         readAt: null,
+        eventCount: FieldValue.increment(1),
+        archivedAt: null,
+        snoozedUntil: null,
         workspaceId: input.workspaceId,
         workspaceSlug: input.workspaceSlug,
         workspaceName: input.workspaceName,
         entityType: input.entityType,
         entityId: input.entityId,
-        entityTitle: normalizeText(input.entityTitle) || `${input.entityType} ${input.entityId}`,
+        entityTitle,
         entityPath,
         preview,
         mentionedByUid: input.actorUid,
-        mentionedByName: normalizeText(input.actorName) || "Workspace User",
+        mentionedByName: actorName,
         recipientUid: target.uid,
         recipientEmail: target.email,
         createdAt: input.now,
@@ -265,8 +314,39 @@ export async function emitMentionNotifications(
     await batch.commit();
   }
 
+  // Email failures are reported by the provider result and never fail the
+  // record write that triggered the mention.
+  let emailedCount = 0;
+  for (const target of emailTargets) {
+    const emailInput = {
+      toEmail: target.email,
+      recipientName: target.displayName,
+      workspaceName: input.workspaceName,
+      subject: `${actorName} mentioned you in ${entityTitle}`,
+      heading: entityTitle,
+      summary: `${actorName} mentioned you in a ${input.entityType} in ${input.workspaceName}.`,
+      preview,
+      actionLabel: `Open ${input.entityType}`,
+      actionPath: entityPath,
+    };
+    if (target.releaseAt) {
+      await holdEmailForQuietHours({
+        uid: target.uid,
+        workspaceId: input.workspaceId,
+        eventType: "mention",
+        releaseAt: target.releaseAt,
+        email: { kind: "notification", input: emailInput },
+      });
+      continue;
+    }
+
+    const result = await sendNotificationEmail(emailInput);
+    if (result.status === "sent") emailedCount += 1;
+  }
+
   return {
     deliveredCount,
+    emailedCount,
     mentionedUids: nextMentionUids,
   };
 }
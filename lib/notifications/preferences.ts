@@ -0,0 +1,297 @@
+export type NotificationEventType =
+  | "mention"
+  | "assignment"
+  | "actionReminder"
+  | "meetingDigest"
+  | "inviteExpired"
+  | "weeklySummary"
+  | "productAnnouncements";
+
+export type NotificationChannel = "inApp" | "email";
+
+export type NotificationChannelSettings = Record<NotificationChannel, boolean>;
+
+export type NotificationQuietHours = {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+};
+
+export type NotificationPreferences = {
+  channels: Record<NotificationEventType, NotificationChannelSettings>;
+  quietHours: NotificationQuietHours;
+};
+
+export type NotificationDelivery = {
+  inApp: boolean;
+  email: boolean;
+  emailHeldForQuietHours: boolean;
+  // When held, the email is queued and sent once quiet hours end.
+  emailReleaseAt: Date | null;
+};
+
+// The original per-workspace toggles. They are still written alongside the
+// preferences so older readers see the same choices.
+export type LegacyNotificationValues = {
+  meetingDigests: boolean;
+  actionReminders: boolean;
+  weeklySummary: boolean;
+  productAnnouncements: boolean;
+};
+
+export type NotificationEventDefinition = {
+  type: NotificationEventType;
+  label: string;
+  description: string;
+  channels: NotificationChannel[];
+};
+
+export const NOTIFICATION_EVENT_DEFINITIONS: NotificationEventDefinition[] = [
+  {
+    type: "mention",
+    label: "Mentions",
+    description: "Someone mentions you in a decision, action, or meeting.",
+    channels: ["inApp", "email"],
+  },
+  {
+    type: "assignment",
+    label: "Assignments",
+    description: "An action or decision is assigned to you, reassigned, or changes status.",
+    channels: ["inApp", "email"],
+  },
+  {
+    type: "actionReminder",
+    label: "Action reminders",
+    description: "Actions you own are coming due.",
+    channels: ["inApp", "email"],
+  },
+  {
+    type: "meetingDigest",
+    label: "Meeting digests",
+    description: "A teammate sends you a meeting digest.",
+    channels: ["email"],
+  },
+  {
+    type: "inviteExpired",
+    label: "Expired invites",
+    description: "An invite you sent expires before it is accepted.",
+    channels: ["email"],
+  },
+  {
+    type: "weeklySummary",
+    label: "Weekly workspace summary",
+    description: "A weekly recap of workspace activity.",
+    channels: ["email"],
+  },
+  {
+    type: "productAnnouncements",
+    label: "Product announcements",
+    description: "News about Synnapp features.",
+    channels: ["email"],
+  },
+];
+
+export const DEFAULT_QUIET_HOURS: NotificationQuietHours = {
+  enabled: false,
+  start: "22:00",
+  end: "07:00",
+  timezone: "UTC",
+};
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readRecord(value: unknown) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {} as Record<string, unknown>;
+  }
+  return value as Record<string, unknown>;
+}
+
+function readBoolean(value: unknown, fallback: boolean) {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+export function isValidTimeZone(value: string) {
+  if (!value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function normalizeTimeOfDay(value: unknown, fallback: string) {
+  const normalized = normalizeText(value);
+  return TIME_OF_DAY_PATTERN.test(normalized) ? normalized : fallback;
+}
+
+export function normalizeLegacyNotifications(
+  value: unknown,
+  fallback?: Partial<LegacyNotificationValues>,
+): LegacyNotificationValues {
+  const record = readRecord(value);
+  return {
+    meetingDigests: readBoolean(record.meetingDigests, fallback?.meetingDigests ?? true),
+    actionReminders: readBoolean(record.actionReminders, fallback?.actionReminders ?? true),
+    weeklySummary: readBoolean(record.weeklySummary, fallback?.weeklySummary ?? false),
+    productAnnouncements: readBoolean(
+      record.productAnnouncements,
+      fallback?.productAnnouncements ?? true,
+    ),
+  };
+}
+
+function defaultChannels(
+  legacy: LegacyNotificationValues,
+): NotificationPreferences["channels"] {
+  return {
+    mention: { inApp: true, email: false },
+    assignment: { inApp: true, email: false },
+    actionReminder: { inApp: legacy.actionReminders, email: legacy.actionReminders },
+    meetingDigest: { inApp: false, email: legacy.meetingDigests },
+    inviteExpired: { inApp: false, email: true },
+    weeklySummary: { inApp: false, email: legacy.weeklySummary },
+    productAnnouncements: { inApp: false, email: legacy.productAnnouncements },
+  };
+}
+
+// Members saved before preferences existed only have the legacy toggles, so
+// those seed the defaults. Channels an event does not support stay off.
+export function normalizeNotificationPreferences(
+  value: unknown,
+  legacy: LegacyNotificationValues,
+  fallbackTimezone = DEFAULT_QUIET_HOURS.timezone,
+): NotificationPreferences {
+  const record = readRecord(value);
+  const storedChannels = readRecord(record.channels);
+  const defaults = defaultChannels(legacy);
+
+  const channels = Object.fromEntries(
+    NOTIFICATION_EVENT_DEFINITIONS.map((definition) => {
+      const stored = readRecord(storedChannels[definition.type]);
+      const fallback = defaults[definition.type];
+      return [
+        definition.type,
+        {
+          inApp:
+            definition.channels.includes("inApp") && readBoolean(stored.inApp, fallback.inApp),
+          email:
+            definition.channels.includes("email") && readBoolean(stored.email, fallback.email),
+        },
+      ];
+    }),
+  ) as NotificationPreferences["channels"];
+
+  const storedQuietHours = readRecord(record.quietHours);
+  const timezone = normalizeText(storedQuietHours.timezone);
+  const normalizedFallbackTimezone = isValidTimeZone(fallbackTimezone)
+    ? fallbackTimezone
+    : DEFAULT_QUIET_HOURS.timezone;
+
+  return {
+    channels,
+    quietHours: {
+      enabled: storedQuietHours.enabled === true,
+      start: normalizeTimeOfDay(storedQuietHours.start, DEFAULT_QUIET_HOURS.start),
+      end: normalizeTimeOfDay(storedQuietHours.end, DEFAULT_QUIET_HOURS.end),
+      timezone: isValidTimeZone(timezone) ? timezone : normalizedFallbackTimezone,
+    },
+  };
+}
+
+export function toLegacyNotifications(
+  preferences: NotificationPreferences,
+): LegacyNotificationValues {
+  const { channels } = preferences;
+  return {
+    meetingDigests: channels.meetingDigest.email,
+    actionReminders: channels.actionReminder.inApp || channels.actionReminder.email,
+    weeklySummary: channels.weeklySummary.email,
+    productAnnouncements: channels.productAnnouncements.email,
+  };
+}
+
+function minutesOfDay(value: string) {
+  const [hours, minutes] = value.split(":").map((part) => Number.parseInt(part, 10));
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+function localMinutesOfDay(at: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timezone) ? timezone : DEFAULT_QUIET_HOURS.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const hour = Number.parseInt(parts.find((part) => part.type === "hour")?.value ?? "0", 10);
+  const minute = Number.parseInt(parts.find((part) => part.type === "minute")?.value ?? "0", 10);
+  return hour * 60 + minute;
+}
+
+// Quiet hours may wrap past midnight (22:00-07:00). Equal start and end means
+// the window is empty.
+export function isWithinQuietHours(quietHours: NotificationQuietHours, at: Date) {
+  if (!quietHours.enabled) return false;
+
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  if (start === end) return false;
+
+  const now = localMinutesOfDay(at, quietHours.timezone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// The next moment the local clock reaches the end of quiet hours, rounded to
+// the minute.
+export function resolveQuietHoursEnd(quietHours: NotificationQuietHours, at: Date) {
+  const now = localMinutesOfDay(at, quietHours.timezone);
+  const minutesUntilEnd = (minutesOfDay(quietHours.end) - now + 24 * 60) % (24 * 60);
+  const release = new Date(at.getTime() + minutesUntilEnd * 60 * 1000);
+  release.setUTCSeconds(0, 0);
+  return release;
+}
+
+export function hasPreferenceChanges(a: NotificationPreferences, b: NotificationPreferences) {
+  return JSON.stringify(a) !== JSON.stringify(b);
+}
+
+// In-app rows are always written when enabled; quiet hours only hold email,
+// which callers queue until `emailReleaseAt`.
+export function resolveNotificationDelivery(
+  preferences: NotificationPreferences,
+  eventType: NotificationEventType,
+  at: Date,
+): NotificationDelivery {
+  const channels = preferences.channels[eventType];
+  const inQuietHours = channels.email && isWithinQuietHours(preferences.quietHours, at);
+
+  return {
+    inApp: channels.inApp,
+    email: channels.email && !inQuietHours,
+    emailHeldForQuietHours: inQuietHours,
+    emailReleaseAt: inQuietHours ? resolveQuietHoursEnd(preferences.quietHours, at) : null,
+  };
+}
+
+// Member documents hold this workspace's choices; the user document supplies
+// account-level toggles and the timezone for members who never saved any.
+export function parseMemberNotificationPreferences(
+  memberData: Record<string, unknown> | undefined,
+  userData?: Record<string, unknown>,
+) {
+  const legacy = normalizeLegacyNotifications(
+    memberData?.notifications,
+    normalizeLegacyNotifications(userData?.notifications),
+  );
+  return normalizeNotificationPreferences(
+    memberData?.notificationPreferences,
+    legacy,
+    normalizeText(userData?.timezone),
+  );
+}
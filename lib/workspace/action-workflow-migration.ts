@@ -0,0 +1,308 @@
+import "server-only";
+
+import {
+  FieldPath,
+  FieldValue,
+  Timestamp,
+  type DocumentReference,
+  type Query,
+} from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  buildHistoryFieldChanges,
+  describeHistoryFieldChanges,
+  writeCanonicalHistoryEvent,
+} from "@/lib/workspace/activity-history";
+import {
+  parseActionWorkflow,
+  resolveActionState,
+  type ActionWorkflow,
+  type ActionWorkflowState,
+} from "@/lib/workspace/action-workflow";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
+
+// Actions handled per chunk. The settings request runs one chunk and the
+// migration job picks up whatever is left.
+export const ACTION_WORKFLOW_MIGRATION_CHUNK_SIZE = 100;
+
+const MAX_CHUNKS_PER_WORKSPACE_RUN = 20;
+const MIGRATION_FIELD = "actionWorkflow.pendingMigration";
+
+type RetiredStateLabel = {
+  id: string;
+  label: string;
+};
+
+// Work left over from workflow changes: actions still on removed ids, and
+// states whose label or category changed so their actions need re-indexing.
+export type ActionWorkflowMigration = {
+  retiredStates: RetiredStateLabel[];
+  reindexStateIds: string[];
+  reindexCursor: string;
+  requestedByUid: string;
+  requestedByName: string;
+  requestedAt: Timestamp;
+};
+
+export type ActionWorkflowMigrationProgress = {
+  migrated: number;
+  reindexed: number;
+  done: boolean;
+};
+
+export type ActionWorkflowMigrationJobSummary = {
+  workspacesScanned: number;
+  workspacesCompleted: number;
+  actionsMigrated: number;
+  actionsReindexed: number;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseStringArray(value: unknown) {
+  return Array.isArray(value) ? value.map(normalizeText).filter(Boolean) : [];
+}
+
+export function parseActionWorkflowMigration(value: unknown): ActionWorkflowMigration | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const candidate = value as Record<string, unknown>;
+  if (candidate.status !== "pending" || !(candidate.requestedAt instanceof Timestamp)) {
+    return null;
+  }
+
+  const retiredStates = Array.isArray(candidate.retiredStates)
+    ? candidate.retiredStates
+        .map((entry) => {
+          const record =
+            entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+          const id = normalizeText(record.id);
+          return id ? { id, label: normalizeText(record.label) || id } : null;
+        })
+        .filter((entry): entry is RetiredStateLabel => entry !== null)
+    : [];
+
+  return {
+    retiredStates,
+    reindexStateIds: parseStringArray(candidate.reindexStateIds),
+    reindexCursor: normalizeText(candidate.reindexCursor),
+    requestedByUid: normalizeText(candidate.requestedByUid),
+    requestedByName: normalizeText(candidate.requestedByName),
+    requestedAt: candidate.requestedAt,
+  };
+}
+
+// Folds a workflow change into any migration still pending from an earlier
+// one. Ids that were re-added as states drop out, and the re-index pass
+// restarts because the set of states it covers may have changed.
+export function buildActionWorkflowMigration(input: {
+  pending: ActionWorkflowMigration | null;
+  previous: ActionWorkflow;
+  workflow: ActionWorkflow;
+  replacements: Map<string, ActionWorkflowState>;
+  actorUid: string;
+  actorName: string;
+  now: Timestamp;
+}) {
+  const stateIds = new Set(input.workflow.states.map((state) => state.id));
+  const retiredStates = new Map<string, string>();
+  input.pending?.retiredStates.forEach((state) => retiredStates.set(state.id, state.label));
+  input.replacements.forEach((_, fromId) => {
+    const removed = input.previous.states.find((state) => state.id === fromId);
+    retiredStates.set(fromId, removed?.label ?? fromId);
+  });
+
+  // Index entries carry each action's status label and category, so states
+  // that were renamed or recategorized are re-indexed too.
+  const changedStateIds = input.workflow.states
+    .filter((state) => {
+      const before = input.previous.states.find((entry) => entry.id === state.id);
+      return before && (before.label !== state.label || before.category !== state.category);
+    })
+    .map((state) => state.id);
+  const reindexStateIds = Array.from(
+    new Set([...(input.pending?.reindexStateIds ?? []), ...changedStateIds]),
+  ).filter((id) => stateIds.has(id));
+
+  const retired = Array.from(retiredStates, ([id, label]) => ({ id, label })).filter(
+    (state) => !stateIds.has(state.id),
+  );
+  if (retired.length === 0 && reindexStateIds.length === 0) return null;
+
+  return {
+    status: "pending",
+    retiredStates: retired,
+    reindexStateIds,
+    reindexCursor: "",
+    requestedByUid: input.actorUid,
+    requestedByName: input.actorName,
+    requestedAt: input.now,
+  };
+}
+
+async function migrateRetiredActions(
+  workspaceRef: DocumentReference,
+  workflow: ActionWorkflow,
+  migration: ActionWorkflowMigration,
+  retired: RetiredStateLabel,
+  limit: number,
+) {
+  const page = await workspaceRef
+    .collection("actions")
+    .where("status", "==", retired.id)
+    .limit(limit)
+    .get();
+  if (page.empty) return { migrated: 0, exhausted: true };
+
+  const target = resolveActionState(workflow, retired.id);
+  const now = Timestamp.now();
+  const moves = page.docs.map((snapshot) => {
+    const blockedReason = normalizeText(snapshot.get("blockedReason"));
+    return {
+      ref: snapshot.ref,
+      blockedReason,
+      nextBlockedReason: target.category === "blocked" ? blockedReason : "",
+    };
+  });
+
+  const batch = adminDb.batch();
+  moves.forEach((move) => {
+    batch.update(move.ref, {
+      status: target.id,
+      ...(move.nextBlockedReason !== move.blockedReason ? { blockedReason: "" } : {}),
+    });
+  });
+  await batch.commit();
+
+  for (const move of moves) {
+    const changes = buildHistoryFieldChanges([
+      { field: "status", label: "Status", before: retired.label, after: target.label },
+      {
+        field: "blockedReason",
+        label: "Blocked reason",
+        before: move.blockedReason,
+        after: move.nextBlockedReason,
+      },
+    ]);
+    await writeCanonicalHistoryEvent({
+      entityRef: move.ref,
+      entity: "action",
+      eventType: "updated",
+      source: "manual",
+      actorUid: migration.requestedByUid,
+      actorName: migration.requestedByName,
+      message: `Updated action ${move.ref.id} after the ${retired.label} status was removed: ${describeHistoryFieldChanges(changes)}.`,
+      at: now,
+      metadata: { changes },
+    });
+    await syncSearchIndexEntry({ entity: "action", entityRef: move.ref });
+  }
+
+  return { migrated: moves.length, exhausted: page.size < limit };
+}
+
+async function saveMigrationProgress(
+  workspaceRef: DocumentReference,
+  migration: ActionWorkflowMigration,
+  update: { done: true } | { done: false; reindexCursor: string },
+) {
+  await adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(workspaceRef);
+    const current = parseActionWorkflowMigration(snapshot.get(MIGRATION_FIELD));
+    // A newer workflow change replaced this migration; leave it to that one.
+    if (!current || !current.requestedAt.isEqual(migration.requestedAt)) return;
+
+    transaction.update(
+      workspaceRef,
+      update.done
+        ? { [MIGRATION_FIELD]: FieldValue.delete() }
+        : { [`${MIGRATION_FIELD}.reindexCursor`]: update.reindexCursor },
+    );
+  });
+}
+
+// Moves up to `limit` actions off removed statuses (writing a history event
+// for each), then spends what is left of the chunk re-indexing actions on
+// changed states. The migration is cleared once both passes are complete.
+export async function runActionWorkflowMigrationChunk(
+  workspaceRef: DocumentReference,
+  limit = ACTION_WORKFLOW_MIGRATION_CHUNK_SIZE,
+): Promise<ActionWorkflowMigrationProgress> {
+  const workspaceSnapshot = await workspaceRef.get();
+  const migration = parseActionWorkflowMigration(workspaceSnapshot.get(MIGRATION_FIELD));
+  if (!migration) return { migrated: 0, reindexed: 0, done: true };
+
+  const workflow = parseActionWorkflow(workspaceSnapshot.get("actionWorkflow"));
+  const progress: ActionWorkflowMigrationProgress = { migrated: 0, reindexed: 0, done: false };
+  let budget = limit;
+
+  for (const retired of migration.retiredStates) {
+    if (budget <= 0) return progress;
+    const result = await migrateRetiredActions(workspaceRef, workflow, migration, retired, budget);
+    progress.migrated += result.migrated;
+    budget -= result.migrated;
+    if (!result.exhausted) return progress;
+  }
+
+  let reindexCursor = migration.reindexCursor;
+  if (migration.reindexStateIds.length > 0) {
+    if (budget <= 0) return progress;
+
+    let query: Query = workspaceRef
+      .collection("actions")
+      .where("status", "in", migration.reindexStateIds)
+      .orderBy(FieldPath.documentId())
+      .limit(budget);
+    if (reindexCursor) query = query.startAfter(reindexCursor);
+
+    const page = await query.select().get();
+    for (const snapshot of page.docs) {
+      await syncSearchIndexEntry({ entity: "action", entityRef: snapshot.ref });
+    }
+    progress.reindexed = page.size;
+    reindexCursor = page.docs[page.size - 1]?.id ?? reindexCursor;
+
+    if (page.size === budget) {
+      await saveMigrationProgress(workspaceRef, migration, { done: false, reindexCursor });
+      return progress;
+    }
+  }
+
+  await saveMigrationProgress(workspaceRef, migration, { done: true });
+  return { ...progress, done: true };
+}
+
+// Finishes migrations that did not complete within the settings request.
+// Each run caps the chunks per workspace so one large workspace cannot hold
+// up the rest; the next run continues where it stopped.
+export async function runActionWorkflowMigrationJob(): Promise<ActionWorkflowMigrationJobSummary> {
+  const workspaceSnapshots = await adminDb
+    .collection("workspaces")
+    .where(`${MIGRATION_FIELD}.status`, "==", "pending")
+    .get();
+  const summary: ActionWorkflowMigrationJobSummary = {
+    workspacesScanned: workspaceSnapshots.size,
+    workspacesCompleted: 0,
+    actionsMigrated: 0,
+    actionsReindexed: 0,
+  };
+
+  for (const workspaceSnapshot of workspaceSnapshots.docs) {
+    if (isWorkspacePendingDeletion(workspaceSnapshot.get("deletion"))) continue;
+
+    for (let chunk = 0; chunk < MAX_CHUNKS_PER_WORKSPACE_RUN; chunk += 1) {
+      const progress = await runActionWorkflowMigrationChunk(workspaceSnapshot.ref);
+      summary.actionsMigrated += progress.migrated;
+      summary.actionsReindexed += progress.reindexed;
+      if (progress.done) {
+        summary.workspacesCompleted += 1;
+        break;
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,9 @@
+import "server-only";
+
+import { adminDb } from "@/lib/firebase/admin";
+import { parseActionWorkflow } from "@/lib/workspace/action-workflow";
+
+export async function loadWorkspaceActionWorkflow(workspaceId: string) {
+  const workspaceSnapshot = await adminDb.collection("workspaces").doc(workspaceId).get();
+  return parseActionWorkflow(workspaceSnapshot.get("actionWorkflow"));
+}
@@ -0,0 +1,194 @@
+export type ActionStatusCategory = "open" | "blocked" | "closed";
+
+export type ActionWorkflowState = {
+  id: string;
+  label: string;
+  category: ActionStatusCategory;
+};
+
+export type ActionWorkflow = {
+  states: ActionWorkflowState[];
+  // Removed state id -> the state its records moved to, so copies of the old
+  // id (meeting records, revisions) still resolve after the change.
+  retiredStates: Record<string, string>;
+};
+
+export const MAX_ACTION_WORKFLOW_STATES = 12;
+export const MAX_ACTION_STATE_LABEL_LENGTH = 40;
+
+export const ACTION_STATUS_CATEGORIES: ActionStatusCategory[] = ["open", "blocked", "closed"];
+
+// The original fixed statuses. Workspaces that never saved a workflow use
+// these, so actions written before workflows existed keep their meaning.
+export const DEFAULT_ACTION_WORKFLOW: ActionWorkflow = {
+  states: [
+    { id: "open", label: "Open", category: "open" },
+    { id: "blocked", label: "Blocked", category: "blocked" },
+    { id: "done", label: "Done", category: "closed" },
+  ],
+  retiredStates: {},
+};
+
+const LEGACY_STATUS_CATEGORIES: Record<string, ActionStatusCategory> = {
+  open: "open",
+  blocked: "blocked",
+  done: "closed",
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function parseActionStatusCategory(value: unknown): ActionStatusCategory | null {
+  const category = normalizeText(value);
+  return category === "open" || category === "blocked" || category === "closed"
+    ? category
+    : null;
+}
+
+export function formatActionStatusCategory(category: ActionStatusCategory) {
+  if (category === "blocked") return "Blocked";
+  if (category === "closed") return "Closed";
+  return "Open";
+}
+
+// Ids are derived from the label when a state is added and kept through
+// renames, because records and search filters (status:in-review) store them.
+export function toActionStateId(label: string) {
+  return normalizeText(label)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 32);
+}
+
+export type ActionWorkflowStatesResult = { states: ActionWorkflowState[] } | { error: string };
+
+export function validateActionWorkflowStates(value: unknown): ActionWorkflowStatesResult {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: "Add at least one status." };
+  }
+
+  if (value.length > MAX_ACTION_WORKFLOW_STATES) {
+    return { error: `Workflows can have up to ${MAX_ACTION_WORKFLOW_STATES} statuses.` };
+  }
+
+  const states: ActionWorkflowState[] = [];
+  const seenIds = new Set<string>();
+
+  for (const entry of value) {
+    const candidate =
+      entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    const label = normalizeText(candidate.label);
+    if (!label) {
+      return { error: "Every status needs a name." };
+    }
+    if (label.length > MAX_ACTION_STATE_LABEL_LENGTH) {
+      return {
+        error: `Status names must be ${MAX_ACTION_STATE_LABEL_LENGTH} characters or fewer.`,
+      };
+    }
+
+    const category = parseActionStatusCategory(candidate.category);
+    if (!category) {
+      return { error: `Choose open, blocked, or closed for ${label}.` };
+    }
+
+    const id = toActionStateId(normalizeText(candidate.id) || label);
+    if (!id) {
+      return { error: `"${label}" needs letters or numbers in its name.` };
+    }
+    if (seenIds.has(id)) {
+      return { error: `Two statuses share the name "${label}".` };
+    }
+
+    seenIds.add(id);
+    states.push({ id, label, category });
+  }
+
+  if (!states.some((state) => state.category === "open")) {
+    return { error: "Workflows need at least one open status." };
+  }
+  if (!states.some((state) => state.category === "closed")) {
+    return { error: "Workflows need at least one closed status." };
+  }
+
+  return { states };
+}
+
+function parseRetiredStates(value: unknown, states: ActionWorkflowState[]) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+
+  const stateIds = new Set(states.map((state) => state.id));
+  const retired: Record<string, string> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([fromId, toId]) => {
+    const target = normalizeText(toId);
+    if (!stateIds.has(fromId) && stateIds.has(target)) retired[fromId] = target;
+  });
+  return retired;
+}
+
+export function parseActionWorkflow(value: unknown): ActionWorkflow {
+  if (!value || typeof value !== "object") return DEFAULT_ACTION_WORKFLOW;
+
+  const candidate = value as Record<string, unknown>;
+  const result = validateActionWorkflowStates(candidate.states);
+  if ("error" in result) return DEFAULT_ACTION_WORKFLOW;
+
+  return {
+    states: result.states,
+    retiredStates: parseRetiredStates(candidate.retiredStates, result.states),
+  };
+}
+
+export function getDefaultActionState(workflow: ActionWorkflow) {
+  return workflow.states.find((state) => state.category === "open") ?? workflow.states[0];
+}
+
+// Unknown ids resolve through the retired map first, then by the category of
+// the original open/blocked/done statuses, then to the first open state.
+export function resolveActionState(workflow: ActionWorkflow, status: unknown) {
+  const id = normalizeText(status);
+  const match = (stateId: string) => workflow.states.find((state) => state.id === stateId);
+
+  const exact = match(id) ?? match(workflow.retiredStates[id] ?? "");
+  if (exact) return exact;
+
+  const legacyCategory = LEGACY_STATUS_CATEGORIES[id];
+  const byCategory = legacyCategory
+    ? workflow.states.find((state) => state.category === legacyCategory)
+    : undefined;
+  return byCategory ?? getDefaultActionState(workflow);
+}
+
+// A removed state hands its records to the first remaining state in the same
+// category, or to the default open state when none is left. Older retired ids
+// that pointed at a removed state are repointed so lookups stay one hop.
+export function buildNextActionWorkflow(previous: ActionWorkflow, states: ActionWorkflowState[]) {
+  const stateIds = new Set(states.map((state) => state.id));
+  const defaultState = getDefaultActionState({ states, retiredStates: {} });
+  const replacements = new Map<string, ActionWorkflowState>();
+
+  previous.states.forEach((state) => {
+    if (stateIds.has(state.id)) return;
+    replacements.set(
+      state.id,
+      states.find((next) => next.category === state.category) ?? defaultState,
+    );
+  });
+
+  const retiredStates: Record<string, string> = {};
+  Object.entries(previous.retiredStates).forEach(([fromId, toId]) => {
+    if (stateIds.has(fromId)) return;
+    retiredStates[fromId] = replacements.get(toId)?.id ?? toId;
+  });
+  replacements.forEach((state, fromId) => {
+    retiredStates[fromId] = state.id;
+  });
+
+  return { workflow: { states, retiredStates } satisfies ActionWorkflow, replacements };
+}
+
+export function listActionStateIds(workflow: ActionWorkflow, category: ActionStatusCategory) {
+  return workflow.states.filter((state) => state.category === category).map((state) => state.id);
+}
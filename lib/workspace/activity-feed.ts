@@ -0,0 +1,253 @@
+import "server-only";
+
+import type { DocumentSnapshot, QueryDocumentSnapshot } from "firebase-admin/firestore";
+import {
+  canViewDecision,
+  isWorkspaceManagerRole,
+  type DecisionAccessViewer,
+} from "@/lib/auth/permissions";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  isCanonicalEntityType,
+  isCanonicalHistoryEventType,
+  isCanonicalHistorySource,
+  parseCanonicalHistoryEventType,
+  parseCanonicalHistorySource,
+  type CanonicalEntityType,
+  type CanonicalHistoryEventType,
+  type CanonicalHistorySource,
+} from "@/lib/workspace/history-types";
+
+export const ACTIVITY_FEED_PAGE_SIZE = 25;
+
+const SCAN_BATCH_SIZE = 100;
+const MAX_SCAN_BATCHES = 5;
+
+export type ActivityFeedFilters = {
+  actorUid: string;
+  entity: CanonicalEntityType | "";
+  eventType: CanonicalHistoryEventType | "";
+  source: CanonicalHistorySource | "";
+};
+
+export type ActivityFeedEntry = {
+  id: string;
+  entity: CanonicalEntityType;
+  entityId: string;
+  eventType: CanonicalHistoryEventType;
+  source: CanonicalHistorySource;
+  actorUid: string;
+  actorName: string;
+  message: string;
+  atEpoch: number;
+  href: string;
+};
+
+export type ActivityFeedPage = {
+  entries: ActivityFeedEntry[];
+  nextCursor: string;
+};
+
+type LoadWorkspaceActivityPageInput = {
+  workspaceId: string;
+  workspaceSlug: string;
+  viewer: DecisionAccessViewer;
+  filters: ActivityFeedFilters;
+  cursor: string;
+  pageSize?: number;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function firstParam(value: string | string[] | undefined) {
+  return normalizeText(Array.isArray(value) ? value[0] : value);
+}
+
+function parseEpoch(value: unknown) {
+  if (value && typeof value === "object" && "toMillis" in value) {
+    try {
+      return (value as { toMillis: () => number }).toMillis();
+    } catch {
+      return 0;
+    }
+  }
+  return 0;
+}
+
+export function parseActivityFeedFilters(searchParams: {
+  actor?: string | string[];
+  entity?: string | string[];
+  event?: string | string[];
+  source?: string | string[];
+}): ActivityFeedFilters {
+  const entity = firstParam(searchParams.entity);
+  const eventType = firstParam(searchParams.event);
+  const source = firstParam(searchParams.source);
+
+  return {
+    actorUid: firstParam(searchParams.actor),
+    entity: isCanonicalEntityType(entity) ? entity : "",
+    eventType: isCanonicalHistoryEventType(eventType) ? eventType : "",
+    source: isCanonicalHistorySource(source) ? source : "",
+  };
+}
+
+export function parseActivityFeedCursor(value: string | string[] | undefined) {
+  return firstParam(value);
+}
+
+export function activityEntityHref(
+  workspaceSlug: string,
+  entity: CanonicalEntityType,
+  entityId: string,
+) {
+  if (entity === "decision") return `/${workspaceSlug}/decisions/${entityId}`;
+  if (entity === "action") return `/${workspaceSlug}/actions/${entityId}`;
+  if (entity === "meeting") return `/${workspaceSlug}/meetings/${entityId}`;
+  if (entity === "member") return `/${workspaceSlug}/settings#members`;
+  return `/${workspaceSlug}/settings#invites`;
+}
+
+function toActivityFeedEntry(
+  snapshot: QueryDocumentSnapshot,
+  workspaceSlug: string,
+): ActivityFeedEntry | null {
+  const data = snapshot.data() as Record<string, unknown>;
+  const entity = normalizeText(data.entity);
+  if (!isCanonicalEntityType(entity)) return null;
+
+  const entityId = normalizeText(data.entityId) || snapshot.ref.parent.parent?.id || "";
+  if (!entityId) return null;
+
+  return {
+    id: snapshot.id,
+    entity,
+    entityId,
+    eventType: parseCanonicalHistoryEventType(data.eventType),
+    source: parseCanonicalHistorySource(data.source),
+    actorUid: normalizeText(data.actorUid),
+    actorName: normalizeText(data.actorName) || "Workspace User",
+    message: normalizeText(data.message),
+    atEpoch: parseEpoch(data.at),
+    href: activityEntityHref(workspaceSlug, entity, entityId),
+  };
+}
+
+// Each filter is an equality on the event, so Firestore merges the
+// (field, at) indexes with the (workspaceId, at) one for any combination.
+function buildFilteredHistoryQuery(workspaceId: string, filters: ActivityFeedFilters) {
+  let query = adminDb.collectionGroup("history").where("workspaceId", "==", workspaceId);
+  if (filters.actorUid) query = query.where("actorUid", "==", filters.actorUid);
+  if (filters.entity) query = query.where("entity", "==", filters.entity);
+  if (filters.eventType) query = query.where("eventType", "==", filters.eventType);
+  if (filters.source) query = query.where("source", "==", filters.source);
+  return query.orderBy("at", "desc");
+}
+
+// History for hidden decisions must stay hidden, and invite history is
+// manager-only (same as the invites themselves).
+async function filterVisibleEntries(
+  workspaceId: string,
+  viewer: DecisionAccessViewer,
+  entries: ActivityFeedEntry[],
+) {
+  const isManager = isWorkspaceManagerRole(viewer.role);
+  const decisionIds = isManager
+    ? []
+    : Array.from(
+        new Set(
+          entries.filter((entry) => entry.entity === "decision").map((entry) => entry.entityId),
+        ),
+      );
+
+  const visibleDecisionIds = new Set<string>();
+  if (decisionIds.length > 0) {
+    const decisionsRef = adminDb.collection("workspaces").doc(workspaceId).collection("decisions");
+    const decisionSnapshots = await adminDb.getAll(
+      ...decisionIds.map((decisionId) => decisionsRef.doc(decisionId)),
+    );
+    decisionSnapshots.forEach((snapshot) => {
+      if (!snapshot.exists) return;
+      if (canViewDecision(viewer, snapshot.data() as Record<string, unknown>)) {
+        visibleDecisionIds.add(snapshot.id);
+      }
+    });
+  }
+
+  return entries.filter((entry) => {
+    if (isManager) return true;
+    if (entry.entity === "invite") return false;
+    if (entry.entity === "decision") return visibleDecisionIds.has(entry.entityId);
+    return true;
+  });
+}
+
+async function loadCursorSnapshot(workspaceId: string, cursor: string) {
+  if (!cursor) return null;
+
+  const segments = cursor.split("/");
+  const isHistoryPath =
+    segments.length >= 6 &&
+    segments.length % 2 === 0 &&
+    segments[0] === "workspaces" &&
+    segments[1] === workspaceId &&
+    segments[segments.length - 2] === "history";
+  if (!isHistoryPath) return null;
+
+  const snapshot = await adminDb.doc(cursor).get();
+  return snapshot.exists ? snapshot : null;
+}
+
+export async function loadWorkspaceActivityPage({
+  workspaceId,
+  workspaceSlug,
+  viewer,
+  filters,
+  cursor,
+  pageSize = ACTIVITY_FEED_PAGE_SIZE,
+}: LoadWorkspaceActivityPageInput): Promise<ActivityFeedPage> {
+  const baseQuery = buildFilteredHistoryQuery(workspaceId, filters);
+  const entries: ActivityFeedEntry[] = [];
+
+  let lastSnapshot: DocumentSnapshot | null = await loadCursorSnapshot(workspaceId, cursor);
+
+  // Filters run in Firestore; only decision visibility and invite access are
+  // checked after the read. Scan a bounded number of batches per page and hand
+  // back a cursor so "Older" continues where this page stopped.
+  for (let batchIndex = 0; batchIndex < MAX_SCAN_BATCHES; batchIndex += 1) {
+    let query = baseQuery;
+    if (lastSnapshot) query = query.startAfter(lastSnapshot);
+    const batch = await query.limit(SCAN_BATCH_SIZE).get();
+    if (batch.empty) return { entries, nextCursor: "" };
+
+    const candidates = batch.docs
+      .map((snapshot) => ({ snapshot, entry: toActivityFeedEntry(snapshot, workspaceSlug) }))
+      .filter(
+        (candidate): candidate is { snapshot: QueryDocumentSnapshot; entry: ActivityFeedEntry } =>
+          candidate.entry !== null,
+      );
+    const visible = new Set(
+      await filterVisibleEntries(
+        workspaceId,
+        viewer,
+        candidates.map((candidate) => candidate.entry),
+      ),
+    );
+
+    for (const { snapshot, entry } of candidates) {
+      if (!visible.has(entry)) continue;
+
+      entries.push(entry);
+      if (entries.length === pageSize) {
+        return { entries, nextCursor: snapshot.ref.path };
+      }
+    }
+
+    lastSnapshot = batch.docs[batch.docs.length - 1];
+    if (batch.size < SCAN_BATCH_SIZE) return { entries, nextCursor: "" };
+  }
+
+  return { entries, nextCursor: lastSnapshot?.ref.path ?? "" };
+}
@@ -3,14 +3,25 @@ import type {
   CanonicalEntityType,
   CanonicalHistoryEventType,
   CanonicalHistorySource,
+  HistoryFieldChange,
 } from "@/lib/workspace/history-types";
 
 export type {
   CanonicalEntityType,
   CanonicalHistoryEventType,
   CanonicalHistorySource,
+  HistoryFieldChange,
 } from "@/lib/workspace/history-types";
 
+const MAX_HISTORY_FIELD_VALUE_LENGTH = 500;
+
+type HistoryFieldChangeInput = {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+};
+
 type WriteCanonicalHistoryEventInput = {
   entityRef: DocumentReference;
   entity: CanonicalEntityType;
@@ -35,6 +46,14 @@ function sanitizeMetadata(value: Record<string, unknown> | undefined) {
   return Object.fromEntries(entries);
 }
 
+// Entity refs live at workspaces/{workspaceId}/{collection}/{entityId}; the
+// workspace id is denormalized onto each event so the activity feed can run a
+// collection-group query over `history` without scanning other workspaces.
+function resolveWorkspaceId(entityRef: DocumentReference) {
+  const segments = entityRef.path.split("/");
+  return segments[0] === "workspaces" ? normalizeText(segments[1]) : "";
+}
+
 export async function writeCanonicalHistoryEvent({
   entityRef,
   entity,
@@ -49,8 +68,12 @@ export async function writeCanonicalHistoryEvent({
   const cleanedMessage = normalizeText(message);
   const cleanedMetadata = sanitizeMetadata(metadata);
 
+  const workspaceId = resolveWorkspaceId(entityRef);
+
   await entityRef.collection("history").add({
+    ...(workspaceId ? { workspaceId } : {}),
     entity,
+    entityId: entityRef.id,
     eventType,
     source,
     actorUid: normalizeText(actorUid),
@@ -68,3 +91,32 @@ export function areStringArraysEqual(left: string[], right: string[]) {
   }
   return true;
 }
+
+function formatHistoryFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) {
+    return value.map(formatHistoryFieldValue).filter(Boolean).join(", ");
+  }
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+
+  const text = String(value).trim();
+  return text.length > MAX_HISTORY_FIELD_VALUE_LENGTH
+    ? `${text.slice(0, MAX_HISTORY_FIELD_VALUE_LENGTH - 1)}…`
+    : text;
+}
+
+export function buildHistoryFieldChanges(fields: HistoryFieldChangeInput[]): HistoryFieldChange[] {
+  return fields
+    .map(({ field, label, before, after }) => ({
+      field,
+      label,
+      before: formatHistoryFieldValue(before),
+      after: formatHistoryFieldValue(after),
+    }))
+    .filter((change) => change.before !== change.after);
+}
+
+export function describeHistoryFieldChanges(changes: HistoryFieldChange[]) {
+  return changes.map((change) => change.label.toLowerCase()).join(", ");
+}
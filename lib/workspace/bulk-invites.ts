@@ -0,0 +1,88 @@
+import { isWorkspaceMemberRole, type WorkspaceMemberRole } from "@/lib/auth/permissions";
+
+export const MAX_BULK_INVITE_ROWS = 100;
+
+export type BulkInviteOutcome =
+  | "invited"
+  | "invalid_email"
+  | "invalid_role"
+  | "role_not_allowed"
+  | "duplicate"
+  | "already_member"
+  | "already_invited"
+  | "failed";
+
+export type BulkInviteRow = {
+  line: number;
+  email: string;
+  role: WorkspaceMemberRole | null;
+  rawRole: string;
+};
+
+export type BulkInviteRowResult = {
+  line: number;
+  email: string;
+  role: string;
+  outcome: BulkInviteOutcome;
+  message: string;
+  inviteId?: string;
+  inviteUrl?: string;
+  emailDeliveryStatus?: "sent" | "skipped" | "failed";
+  emailDeliveryError?: string;
+};
+
+export function isValidInviteEmail(value: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+function splitCells(line: string) {
+  const cells = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, "").trim());
+  return cells.length === 1 ? cells[0].split(/\s+/).filter(Boolean) : cells;
+}
+
+// Reads either pasted emails (any mix of commas, semicolons, tabs, spaces and
+// newlines) or CSV with `email,role` columns. A header row that names an
+// `email` column switches to CSV mode and may put the columns in any order.
+export function parseBulkInviteInput(
+  input: string,
+  defaultRole: WorkspaceMemberRole,
+): BulkInviteRow[] {
+  const lines = input.split(/\r?\n/);
+  const rows: BulkInviteRow[] = [];
+
+  const headerCells = splitCells(lines[0] ?? "").map((cell) => cell.toLowerCase());
+  const emailColumn = headerCells.indexOf("email");
+  const roleColumn = headerCells.indexOf("role");
+  const hasHeader = emailColumn !== -1;
+
+  lines.forEach((line, index) => {
+    if (hasHeader && index === 0) return;
+    const cells = splitCells(line);
+    if (!cells.some(Boolean)) return;
+
+    const pushRow = (emailCell: string, roleCell: string) => {
+      const rawRole = roleCell.trim().toLowerCase();
+      rows.push({
+        line: index + 1,
+        email: emailCell.trim().toLowerCase(),
+        role: !rawRole ? defaultRole : isWorkspaceMemberRole(rawRole) ? rawRole : null,
+        rawRole,
+      });
+    };
+
+    if (hasHeader) {
+      pushRow(cells[emailColumn] ?? "", roleColumn === -1 ? "" : (cells[roleColumn] ?? ""));
+      return;
+    }
+
+    // Without a header, a second cell is a role unless it also looks like an email.
+    if (cells.length === 2 && !cells[1].includes("@")) {
+      pushRow(cells[0], cells[1]);
+      return;
+    }
+
+    cells.filter(Boolean).forEach((cell) => pushRow(cell, ""));
+  });
+
+  return rows;
+}
@@ -0,0 +1,148 @@
+import "server-only";
+
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  MAX_WORKSPACE_CUSTOM_FIELDS,
+  parseCustomFieldDefinition,
+  selectEntityCustomFields,
+  validateCustomFieldValues,
+  type CustomFieldDefinition,
+  type CustomFieldEntityType,
+  type CustomFieldMemberOption,
+  type CustomFieldValues,
+} from "@/lib/workspace/custom-fields";
+
+type ResolveCustomFieldValuesInput = {
+  workspaceId: string;
+  fields: CustomFieldDefinition[];
+  entityType: CustomFieldEntityType;
+  input: unknown;
+  existing: CustomFieldValues;
+};
+
+export type ResolveCustomFieldValuesResult =
+  | { values: CustomFieldValues; memberNames: Map<string, string> }
+  | { error: string };
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export async function listWorkspaceCustomFields(workspaceId: string) {
+  const fieldSnapshots = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("customFields")
+    .limit(MAX_WORKSPACE_CUSTOM_FIELDS)
+    .get();
+
+  return fieldSnapshots.docs
+    .map((snapshot) =>
+      parseCustomFieldDefinition(snapshot.id, snapshot.data() as Record<string, unknown>),
+    )
+    .filter((field): field is CustomFieldDefinition => field !== null)
+    .sort((a, b) => a.position - b.position || a.label.localeCompare(b.label));
+}
+
+// Validates submitted values, then checks that member fields point at members
+// of the workspace and resolves their names for history entries.
+export async function resolveCustomFieldValues({
+  workspaceId,
+  fields,
+  entityType,
+  input,
+  existing,
+}: ResolveCustomFieldValuesInput): Promise<ResolveCustomFieldValuesResult> {
+  const validated = validateCustomFieldValues({ fields, entityType, input, existing });
+  if ("error" in validated) return validated;
+
+  const { values } = validated;
+  const activeFieldIds = new Set(
+    selectEntityCustomFields(fields, entityType).map((field) => field.id),
+  );
+  const memberFields = fields.filter((field) => field.type === "member");
+  const nextMemberUids = new Set(
+    memberFields
+      .filter((field) => activeFieldIds.has(field.id) && typeof values[field.id] === "string")
+      .map((field) => values[field.id] as string),
+  );
+  const previousMemberUids = new Set(
+    memberFields
+      .filter((field) => typeof existing[field.id] === "string")
+      .map((field) => existing[field.id] as string),
+  );
+  const memberNames = new Map<string, string>();
+  const lookupUids = Array.from(new Set([...nextMemberUids, ...previousMemberUids]));
+  if (lookupUids.length > 0) {
+    const membersRef = adminDb.collection("workspaces").doc(workspaceId).collection("members");
+    const memberSnapshots = await adminDb.getAll(...lookupUids.map((uid) => membersRef.doc(uid)));
+    for (const snapshot of memberSnapshots) {
+      const isRemoved = normalizeText(snapshot.get("status")).toLowerCase() === "removed";
+      // A member who left keeps the value on records that already had it.
+      if (
+        (!snapshot.exists || isRemoved) &&
+        nextMemberUids.has(snapshot.id) &&
+        !previousMemberUids.has(snapshot.id)
+      ) {
+        return { error: "Member fields must reference members of this workspace." };
+      }
+      memberNames.set(
+        snapshot.id,
+        normalizeText(snapshot.get("displayName")) ||
+          normalizeText(snapshot.get("email")) ||
+          snapshot.id,
+      );
+    }
+  }
+
+  return { values, memberNames };
+}
+
+// Records are written with merge, so cleared fields need an explicit delete.
+export function buildCustomFieldsWrite(existing: CustomFieldValues, next: CustomFieldValues) {
+  const write: Record<string, unknown> = { ...next };
+  Object.keys(existing).forEach((fieldId) => {
+    if (!(fieldId in next)) write[fieldId] = FieldValue.delete();
+  });
+  return write;
+}
+
+async function loadCustomFieldMemberOptions(workspaceId: string) {
+  const memberSnapshots = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("members")
+    .limit(300)
+    .get();
+
+  return memberSnapshots.docs
+    .filter((snapshot) => normalizeText(snapshot.get("status")).toLowerCase() !== "removed")
+    .map((snapshot) => ({
+      uid: snapshot.id,
+      name:
+        normalizeText(snapshot.get("displayName")) ||
+        normalizeText(snapshot.get("email")) ||
+        snapshot.id,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Everything a list page needs to filter records by custom field and label
+// their values: the entity's active fields, plus members when a member field
+// exists.
+export async function loadCustomFieldListContext(
+  workspaceId: string,
+  entityType: CustomFieldEntityType,
+) {
+  const fields = selectEntityCustomFields(await listWorkspaceCustomFields(workspaceId), entityType);
+  const members: CustomFieldMemberOption[] = fields.some((field) => field.type === "member")
+    ? await loadCustomFieldMemberOptions(workspaceId)
+    : [];
+
+  return {
+    fields,
+    members,
+    memberNames: new Map(members.map((member) => [member.uid, member.name])),
+  };
+}
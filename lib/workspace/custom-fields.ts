@@ -0,0 +1,345 @@
+export const MAX_WORKSPACE_CUSTOM_FIELDS = 40;
+export const MAX_CUSTOM_FIELD_LABEL_LENGTH = 60;
+export const MAX_CUSTOM_FIELD_OPTIONS = 50;
+export const MAX_CUSTOM_FIELD_OPTION_LENGTH = 60;
+export const MAX_CUSTOM_FIELD_TEXT_LENGTH = 500;
+
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "number",
+  "select",
+  "multiSelect",
+  "date",
+  "member",
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+export type CustomFieldEntityType = "decision" | "action";
+export type CustomFieldValue = string | number | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export type CustomFieldDefinition = {
+  id: string;
+  key: string;
+  label: string;
+  description: string;
+  type: CustomFieldType;
+  options: string[];
+  appliesTo: CustomFieldEntityType[];
+  required: boolean;
+  archived: boolean;
+  position: number;
+};
+
+export type CustomFieldFilter = {
+  fieldId: string;
+  value: string;
+};
+
+export type CustomFieldMemberOption = {
+  uid: string;
+  name: string;
+};
+
+const CUSTOM_FIELD_TYPE_SET = new Set<string>(CUSTOM_FIELD_TYPES);
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function isIsoDay(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+export function parseCustomFieldType(value: unknown): CustomFieldType | null {
+  const normalized = normalizeText(value);
+  return CUSTOM_FIELD_TYPE_SET.has(normalized) ? (normalized as CustomFieldType) : null;
+}
+
+export function parseCustomFieldAppliesTo(value: unknown): CustomFieldEntityType[] {
+  if (!Array.isArray(value)) return [];
+  const appliesTo = new Set<CustomFieldEntityType>();
+  value.forEach((entry) => {
+    const normalized = normalizeText(entry);
+    if (normalized === "decision" || normalized === "action") appliesTo.add(normalized);
+  });
+  return Array.from(appliesTo);
+}
+
+export function normalizeCustomFieldOptions(value: unknown) {
+  if (!Array.isArray(value)) return [];
+
+  const seen = new Set<string>();
+  const options: string[] = [];
+  value.forEach((entry) => {
+    const option = normalizeText(entry).slice(0, MAX_CUSTOM_FIELD_OPTION_LENGTH);
+    if (!option || seen.has(option.toLowerCase())) return;
+    seen.add(option.toLowerCase());
+    options.push(option);
+  });
+
+  return options.slice(0, MAX_CUSTOM_FIELD_OPTIONS);
+}
+
+// Keys name a field in search queries (field:cost-impact>1000), so they are
+// derived from the label once and never change.
+export function toCustomFieldKey(label: string) {
+  return normalizeText(label)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+}
+
+export function createCustomFieldId() {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 900 + 100);
+  return `F-${timestamp}${random}`;
+}
+
+export function parseCustomFieldDefinition(
+  id: string,
+  data: Record<string, unknown>,
+): CustomFieldDefinition | null {
+  const type = parseCustomFieldType(data.type);
+  if (!type) return null;
+
+  const label = normalizeText(data.label) || id;
+  const appliesTo = parseCustomFieldAppliesTo(data.appliesTo);
+
+  return {
+    id,
+    key: normalizeText(data.key) || toCustomFieldKey(label) || id.toLowerCase(),
+    label,
+    description: normalizeText(data.description),
+    type,
+    options: type === "select" || type === "multiSelect" ? normalizeCustomFieldOptions(data.options) : [],
+    appliesTo: appliesTo.length > 0 ? appliesTo : ["decision", "action"],
+    required: data.required === true,
+    archived: data.archived === true,
+    position: typeof data.position === "number" ? data.position : 0,
+  };
+}
+
+// Archived fields keep their stored values but are no longer offered in
+// editors or validated on save.
+export function selectEntityCustomFields(
+  fields: CustomFieldDefinition[],
+  entityType: CustomFieldEntityType,
+) {
+  return fields.filter((field) => !field.archived && field.appliesTo.includes(entityType));
+}
+
+export function parseCustomFieldValues(value: unknown): CustomFieldValues {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+
+  const values: CustomFieldValues = {};
+  Object.entries(value as Record<string, unknown>).forEach(([fieldId, entry]) => {
+    if (typeof entry === "number" && Number.isFinite(entry)) {
+      values[fieldId] = entry;
+    } else if (typeof entry === "string" && entry.trim()) {
+      values[fieldId] = entry.trim();
+    } else if (Array.isArray(entry)) {
+      const list = entry.map((item) => normalizeText(item)).filter(Boolean);
+      if (list.length > 0) values[fieldId] = list;
+    }
+  });
+
+  return values;
+}
+
+function customFieldValueToList(value: CustomFieldValue | undefined) {
+  if (value === undefined) return [] as string[];
+  return Array.isArray(value) ? value : [String(value)];
+}
+
+export function areCustomFieldValuesEqual(left: CustomFieldValues, right: CustomFieldValues) {
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return Array.from(keys).every((key) => {
+    const leftList = customFieldValueToList(left[key]);
+    const rightList = customFieldValueToList(right[key]);
+    return (
+      leftList.length === rightList.length &&
+      leftList.every((entry, index) => entry === rightList[index])
+    );
+  });
+}
+
+type ValidateCustomFieldValueResult = { value: CustomFieldValue | null } | { error: string };
+
+function validateCustomFieldValue(
+  field: CustomFieldDefinition,
+  raw: unknown,
+  previous: CustomFieldValue | undefined,
+): ValidateCustomFieldValueResult {
+  const previousList = customFieldValueToList(previous);
+
+  if (field.type === "number") {
+    if (raw === null || raw === undefined || raw === "") return { value: null };
+    const parsed = typeof raw === "number" ? raw : Number(normalizeText(raw));
+    if (!Number.isFinite(parsed)) return { error: `${field.label} must be a number.` };
+    return { value: parsed };
+  }
+
+  if (field.type === "multiSelect") {
+    const selected = normalizeCustomFieldOptions(Array.isArray(raw) ? raw : []);
+    // Options removed after a value was saved stay valid on that record.
+    const invalid = selected.find(
+      (option) => !field.options.includes(option) && !previousList.includes(option),
+    );
+    if (invalid) return { error: `"${invalid}" is not an option for ${field.label}.` };
+    return { value: selected.length > 0 ? selected : null };
+  }
+
+  const text = normalizeText(raw);
+  if (!text) return { value: null };
+
+  if (field.type === "text") {
+    if (text.length > MAX_CUSTOM_FIELD_TEXT_LENGTH) {
+      return {
+        error: `${field.label} must be ${MAX_CUSTOM_FIELD_TEXT_LENGTH} characters or fewer.`,
+      };
+    }
+    return { value: text };
+  }
+
+  if (field.type === "select") {
+    if (!field.options.includes(text) && !previousList.includes(text)) {
+      return { error: `"${text}" is not an option for ${field.label}.` };
+    }
+    return { value: text };
+  }
+
+  if (field.type === "date") {
+    if (!isIsoDay(text)) return { error: `${field.label} must be a date (YYYY-MM-DD).` };
+    return { value: text };
+  }
+
+  return { value: text };
+}
+
+type ValidateCustomFieldValuesInput = {
+  fields: CustomFieldDefinition[];
+  entityType: CustomFieldEntityType;
+  input: unknown;
+  existing: CustomFieldValues;
+};
+
+// Validates submitted values against the workspace's active fields for the
+// entity. Values for archived or deleted fields are carried over untouched so
+// history is not lost when a field is retired.
+export function validateCustomFieldValues({
+  fields,
+  entityType,
+  input,
+  existing,
+}: ValidateCustomFieldValuesInput): { values: CustomFieldValues } | { error: string } {
+  const activeFields = selectEntityCustomFields(fields, entityType);
+  const activeFieldIds = new Set(activeFields.map((field) => field.id));
+  const submitted =
+    input && typeof input === "object" && !Array.isArray(input)
+      ? (input as Record<string, unknown>)
+      : {};
+  const values: CustomFieldValues = {};
+
+  Object.entries(existing).forEach(([fieldId, value]) => {
+    if (!activeFieldIds.has(fieldId)) values[fieldId] = value;
+  });
+
+  for (const field of activeFields) {
+    const result = validateCustomFieldValue(field, submitted[field.id], existing[field.id]);
+    if ("error" in result) return { error: result.error };
+    if (result.value === null) {
+      if (field.required) return { error: `${field.label} is required.` };
+      continue;
+    }
+    values[field.id] = result.value;
+  }
+
+  return { values };
+}
+
+export function formatCustomFieldValue(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  memberNames: Map<string, string>,
+) {
+  if (value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (field.type === "member") return memberNames.get(String(value)) ?? String(value);
+  if (field.type === "number" && typeof value === "number") {
+    return value.toLocaleString("en-US");
+  }
+  return String(value);
+}
+
+export function buildCustomFieldHistoryChanges(
+  fields: CustomFieldDefinition[],
+  before: CustomFieldValues,
+  after: CustomFieldValues,
+  memberNames: Map<string, string>,
+) {
+  return fields.map((field) => ({
+    field: `customFields.${field.id}`,
+    label: field.label,
+    before: formatCustomFieldValue(field, before[field.id], memberNames),
+    after: formatCustomFieldValue(field, after[field.id], memberNames),
+  }));
+}
+
+// Short "Label: value" chips for list views, in field order.
+export function buildCustomFieldLabels(
+  fields: CustomFieldDefinition[],
+  values: CustomFieldValues,
+  memberNames: Map<string, string>,
+) {
+  return fields
+    .filter((field) => !field.archived && values[field.id] !== undefined)
+    .map((field) => `${field.label}: ${formatCustomFieldValue(field, values[field.id], memberNames)}`);
+}
+
+export function parseCustomFieldFilter(
+  field: string | string[] | undefined,
+  value: string | string[] | undefined,
+): CustomFieldFilter | null {
+  const fieldId = normalizeText(Array.isArray(field) ? field[0] : field);
+  const filterValue = normalizeText(Array.isArray(value) ? value[0] : value);
+  if (!fieldId) return null;
+  return { fieldId, value: filterValue };
+}
+
+// An empty filter value matches any record where the field is set. Filters on
+// a field that is no longer offered match nothing.
+export function matchesCustomFieldFilter(
+  fields: CustomFieldDefinition[],
+  filter: CustomFieldFilter | null,
+  values: CustomFieldValues,
+) {
+  if (!filter) return true;
+
+  const field = fields.find((candidate) => candidate.id === filter.fieldId);
+  const stored = field ? values[field.id] : undefined;
+  if (!field || stored === undefined) return false;
+  if (!filter.value) return true;
+
+  const expected = filter.value.toLowerCase();
+  if (field.type === "number") return Number(filter.value) === stored;
+  if (field.type === "text") return String(stored).toLowerCase().includes(expected);
+  return customFieldValueToList(stored).some((entry) => entry.toLowerCase() === expected);
+}
+
+// Values are indexed lowercased under the field key; member fields store the
+// member's uid.
+export function buildCustomFieldSearchValues(
+  fields: CustomFieldDefinition[],
+  values: CustomFieldValues,
+) {
+  const indexed: Record<string, string[]> = {};
+  fields.forEach((field) => {
+    const list = customFieldValueToList(values[field.id]).map((entry) => entry.toLowerCase());
+    if (list.length > 0) indexed[field.key] = list;
+  });
+  return indexed;
+}
@@ -0,0 +1,57 @@
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  canViewDecision,
+  parseWorkspaceMemberRole,
+  type DecisionAccessViewer,
+} from "@/lib/auth/permissions";
+
+const MAX_MEMBER_TEAMS = 20;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function parseMemberTeamIds(value: unknown) {
+  if (!Array.isArray(value)) return [];
+
+  const unique = new Set<string>();
+  value.forEach((entry) => {
+    const teamId = normalizeText(entry);
+    if (teamId) unique.add(teamId);
+  });
+
+  return Array.from(unique).slice(0, MAX_MEMBER_TEAMS);
+}
+
+export function buildDecisionAccessViewer(
+  uid: string,
+  memberData: Record<string, unknown> | undefined,
+): DecisionAccessViewer {
+  return {
+    uid,
+    role: parseWorkspaceMemberRole(memberData?.role),
+    teamIds: parseMemberTeamIds(memberData?.teamIds),
+  };
+}
+
+export async function loadDecisionAccessViewer(workspaceId: string, uid: string) {
+  const memberSnapshot = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("members")
+    .doc(uid)
+    .get();
+
+  return buildDecisionAccessViewer(
+    uid,
+    memberSnapshot.data() as Record<string, unknown> | undefined,
+  );
+}
+
+export function filterVisibleDecisionSnapshots<
+  T extends { data: () => FirebaseFirestore.DocumentData },
+>(viewer: DecisionAccessViewer, snapshots: T[]) {
+  return snapshots.filter((snapshot) =>
+    canViewDecision(viewer, snapshot.data() as Record<string, unknown>),
+  );
+}
@@ -0,0 +1,24 @@
+import "server-only";
+
+import type { DecisionAccessViewer } from "@/lib/auth/permissions";
+import { adminDb } from "@/lib/firebase/admin";
+import { buildDecisionLineage, type DecisionLineage } from "@/lib/workspace/decision-lineage";
+
+export async function loadDecisionLineage(
+  workspaceId: string,
+  decisionId: string,
+  viewer: DecisionAccessViewer,
+): Promise<DecisionLineage | null> {
+  const decisionsRef = adminDb.collection("workspaces").doc(workspaceId).collection("decisions");
+
+  return buildDecisionLineage(decisionId, viewer, {
+    async loadDecision(id) {
+      const snapshot = await decisionsRef.doc(id).get();
+      return snapshot.exists ? (snapshot.data() as Record<string, unknown>) : null;
+    },
+    async findSuccessorId(id) {
+      const successors = await decisionsRef.where("supersedesDecisionId", "==", id).limit(1).get();
+      return successors.docs[0]?.id ?? "";
+    },
+  });
+}
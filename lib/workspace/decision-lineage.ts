@@ -0,0 +1,258 @@
+import { canViewDecision, type DecisionAccessViewer } from "@/lib/auth/permissions";
+
+export type DecisionLineageStatus = "proposed" | "accepted" | "superseded" | "rejected";
+
+export type DecisionLineageNode = {
+  id: string;
+  title: string;
+  owner: string;
+  status: DecisionLineageStatus;
+  archived: boolean;
+  // Set when the viewer cannot see this version; identifying fields are blanked.
+  restricted: boolean;
+  createdAt: string | null;
+  supersededAt: string | null;
+  updatedAt: string | null;
+};
+
+export type DecisionLineageIssueType = "cycle" | "dangling" | "mismatch";
+
+export type DecisionLineageIssue = {
+  type: DecisionLineageIssueType;
+  decisionId: string;
+  referenceId: string;
+  message: string;
+};
+
+export type DecisionLineage = {
+  decisionId: string;
+  // Oldest first: every node supersedes the one before it.
+  chain: DecisionLineageNode[];
+  ancestorIds: string[];
+  descendantIds: string[];
+  inForceDecisionId: string;
+  issues: DecisionLineageIssue[];
+};
+
+// Reads decisions for the walk, so the store can back it with Firestore.
+export type DecisionLineageSource = {
+  loadDecision: (id: string) => Promise<Record<string, unknown> | null>;
+  // Ids of decisions whose `supersedesDecisionId` points at `id`.
+  findSuccessorId: (id: string) => Promise<string>;
+};
+
+type LoadedDecision = DecisionLineageNode & {
+  supersedesDecisionId: string;
+  supersededByDecisionId: string;
+};
+
+const RESTRICTED_TITLE = "Restricted decision";
+
+const MAX_LINEAGE_DEPTH = 50;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseIsoDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate().toISOString();
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed.toISOString();
+    }
+  }
+
+  return null;
+}
+
+function parseStatus(value: unknown): DecisionLineageStatus {
+  const status = normalizeText(value);
+  if (
+    status === "proposed" ||
+    status === "accepted" ||
+    status === "superseded" ||
+    status === "rejected"
+  ) {
+    return status;
+  }
+  return "proposed";
+}
+
+function toNode(decision: LoadedDecision): DecisionLineageNode {
+  if (decision.restricted) {
+    return {
+      id: decision.id,
+      title: RESTRICTED_TITLE,
+      owner: "",
+      status: decision.status,
+      archived: decision.archived,
+      restricted: true,
+      createdAt: null,
+      supersededAt: null,
+      updatedAt: null,
+    };
+  }
+
+  return {
+    id: decision.id,
+    title: decision.title,
+    owner: decision.owner,
+    status: decision.status,
+    archived: decision.archived,
+    restricted: false,
+    createdAt: decision.createdAt,
+    supersededAt: decision.supersededAt,
+    updatedAt: decision.updatedAt,
+  };
+}
+
+// The chain is walked through restricted versions so ancestry stays intact, but
+// those nodes are redacted for viewers who cannot see them. Returns null when the
+// focus decision is missing or hidden from the viewer.
+export async function buildDecisionLineage(
+  decisionId: string,
+  viewer: DecisionAccessViewer,
+  source: DecisionLineageSource,
+): Promise<DecisionLineage | null> {
+  const cache = new Map<string, LoadedDecision | null>();
+
+  async function loadDecision(id: string) {
+    if (cache.has(id)) return cache.get(id) ?? null;
+
+    const data = await source.loadDecision(id);
+    if (!data) {
+      cache.set(id, null);
+      return null;
+    }
+
+    const decision: LoadedDecision = {
+      id,
+      title: normalizeText(data.title) || `Decision ${id}`,
+      owner: normalizeText(data.owner) || normalizeText(data.ownerUid) || "Unassigned",
+      status: parseStatus(data.status),
+      archived: data.archived === true,
+      restricted: !canViewDecision(viewer, data),
+      createdAt: parseIsoDate(data.createdAt),
+      supersededAt: parseIsoDate(data.supersededAt),
+      updatedAt: parseIsoDate(data.updatedAt),
+      supersedesDecisionId: normalizeText(data.supersedesDecisionId),
+      supersededByDecisionId: normalizeText(data.supersededByDecisionId),
+    };
+    cache.set(id, decision);
+    return decision;
+  }
+
+  // Older records were sometimes linked from one side only, so fall back to the
+  // reverse reference when the forward field is empty.
+  async function findSuccessorId(decision: LoadedDecision) {
+    return decision.supersededByDecisionId || source.findSuccessorId(decision.id);
+  }
+
+  const focus = await loadDecision(decisionId);
+  if (!focus || focus.restricted) return null;
+
+  const issues: DecisionLineageIssue[] = [];
+  const visited = new Set<string>([focus.id]);
+  const ancestors: LoadedDecision[] = [];
+  const descendants: LoadedDecision[] = [];
+
+  let current = focus;
+  while (current.supersedesDecisionId && ancestors.length < MAX_LINEAGE_DEPTH) {
+    const referenceId = current.supersedesDecisionId;
+    if (visited.has(referenceId)) {
+      issues.push({
+        type: "cycle",
+        decisionId: current.id,
+        referenceId,
+        message: `${current.id} supersedes ${referenceId}, which is already later in this lineage.`,
+      });
+      break;
+    }
+
+    const previous = await loadDecision(referenceId);
+    if (!previous) {
+      issues.push({
+        type: "dangling",
+        decisionId: current.id,
+        referenceId,
+        message: `${current.id} supersedes ${referenceId}, but that decision no longer exists.`,
+      });
+      break;
+    }
+
+    if (previous.supersededByDecisionId && previous.supersededByDecisionId !== current.id) {
+      issues.push({
+        type: "mismatch",
+        decisionId: previous.id,
+        referenceId: current.id,
+        message: `${current.id} supersedes ${previous.id}, but ${previous.id} points to ${previous.supersededByDecisionId} as its successor.`,
+      });
+    }
+
+    visited.add(previous.id);
+    ancestors.unshift(previous);
+    current = previous;
+  }
+
+  current = focus;
+  while (descendants.length < MAX_LINEAGE_DEPTH) {
+    const referenceId = await findSuccessorId(current);
+    if (!referenceId) break;
+
+    if (visited.has(referenceId)) {
+      issues.push({
+        type: "cycle",
+        decisionId: current.id,
+        referenceId,
+        message: `${current.id} is superseded by ${referenceId}, which is already earlier in this lineage.`,
+      });
+      break;
+    }
+
+    const next = await loadDecision(referenceId);
+    if (!next) {
+      issues.push({
+        type: "dangling",
+        decisionId: current.id,
+        referenceId,
+        message: `${current.id} is superseded by ${referenceId}, but that decision no longer exists.`,
+      });
+      break;
+    }
+
+    if (next.supersedesDecisionId && next.supersedesDecisionId !== current.id) {
+      issues.push({
+        type: "mismatch",
+        decisionId: next.id,
+        referenceId: current.id,
+        message: `${current.id} is superseded by ${next.id}, but ${next.id} records ${next.supersedesDecisionId} as its predecessor.`,
+      });
+    }
+
+    visited.add(next.id);
+    descendants.push(next);
+    current = next;
+  }
+
+  const chain = [...ancestors, focus, ...descendants];
+  const inForce = [...chain]
+    .reverse()
+    .find((decision) => decision.status === "accepted" && !decision.archived);
+
+  return {
+    decisionId: focus.id,
+    chain: chain.map(toNode),
+    ancestorIds: ancestors.map((decision) => decision.id),
+    descendantIds: descendants.map((decision) => decision.id),
+    inForceDecisionId: inForce?.id ?? "",
+    issues,
+  };
+}
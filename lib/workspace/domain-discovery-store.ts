@@ -0,0 +1,111 @@
+import "server-only";
+
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { DocumentReference, Transaction } from "firebase-admin/firestore";
+import type { WorkspaceMemberRole } from "@/lib/auth/permissions";
+import { adminDb } from "@/lib/firebase/admin";
+import { parseWorkspaceDiscovery, type WorkspaceDiscovery } from "@/lib/workspace/domain-discovery";
+import { MAX_WORKSPACE_MEMBERSHIPS, parseWorkspaceSlugs } from "@/lib/workspace/limits";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
+
+export type DiscoverableWorkspace = {
+  workspaceId: string;
+  workspaceSlug: string;
+  workspaceName: string;
+  discovery: WorkspaceDiscovery;
+};
+
+type AddDiscoveredMemberInput = {
+  workspaceRef: DocumentReference;
+  workspaceSlug: string;
+  uid: string;
+  email: string;
+  displayName: string;
+  role: WorkspaceMemberRole;
+  now: Timestamp;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function domainClaimRef(domain: string) {
+  return adminDb.collection("workspaceDomains").doc(domain);
+}
+
+// A domain leads to the one workspace holding its claim, and only while that
+// workspace still has discovery turned on for it.
+export async function findDiscoverableWorkspaces(domain: string) {
+  if (!domain) return [];
+
+  const claimSnapshot = await domainClaimRef(domain).get();
+  const workspaceId = normalizeText(claimSnapshot.get("workspaceId"));
+  if (!workspaceId) return [];
+
+  const snapshot = await adminDb.collection("workspaces").doc(workspaceId).get();
+  if (!snapshot.exists || isWorkspacePendingDeletion(snapshot.get("deletion"))) return [];
+
+  const workspace: DiscoverableWorkspace = {
+    workspaceId: snapshot.id,
+    workspaceSlug: normalizeText(snapshot.get("slug")),
+    workspaceName: normalizeText(snapshot.get("name")) || normalizeText(snapshot.get("slug")),
+    discovery: parseWorkspaceDiscovery(snapshot.get("discovery")),
+  };
+  const discoverable =
+    Boolean(workspace.workspaceSlug) &&
+    workspace.discovery.mode !== "off" &&
+    workspace.discovery.domain === domain;
+  return discoverable ? [workspace] : [];
+}
+
+// Shared by domain auto-join and join request approval. Reads happen before any
+// write, so callers must finish their own reads before calling this.
+export async function addDiscoveredMemberInTransaction(
+  transaction: Transaction,
+  input: AddDiscoveredMemberInput,
+) {
+  const memberRef = input.workspaceRef.collection("members").doc(input.uid);
+  const userRef = adminDb.collection("users").doc(input.uid);
+  const [memberSnapshot, userSnapshot] = await Promise.all([
+    transaction.get(memberRef),
+    transaction.get(userRef),
+  ]);
+
+  if (memberSnapshot.exists) {
+    return { memberRef, alreadyMember: true };
+  }
+
+  const userWorkspaceSlugs = parseWorkspaceSlugs(userSnapshot.get("workspaceSlugs"));
+  if (
+    !userWorkspaceSlugs.includes(input.workspaceSlug) &&
+    userWorkspaceSlugs.length >= MAX_WORKSPACE_MEMBERSHIPS
+  ) {
+    throw new Error("WORKSPACE_MEMBERSHIP_LIMIT_REACHED");
+  }
+
+  transaction.set(memberRef, {
+    uid: input.uid,
+    role: input.role,
+    status: "active",
+    displayName: input.displayName,
+    email: input.email,
+    joinedAt: input.now,
+    updatedAt: input.now,
+  });
+
+  const userPayload: Record<string, unknown> = {
+    uid: input.uid,
+    email: input.email,
+    displayName: input.displayName,
+    workspaceSlugs: FieldValue.arrayUnion(input.workspaceSlug),
+    onboardingCompleted: true,
+    updatedAt: input.now,
+    createdAt: userSnapshot.get("createdAt") ?? input.now,
+  };
+  if (!normalizeText(userSnapshot.get("defaultWorkspaceId"))) {
+    userPayload.defaultWorkspaceId = input.workspaceRef.id;
+  }
+  transaction.set(userRef, userPayload, { merge: true });
+
+  return { memberRef, alreadyMember: false };
+}
@@ -0,0 +1,97 @@
+import type { WorkspaceMemberRole } from "@/lib/auth/permissions";
+import { getEmailDomain } from "@/lib/workspace/join-links";
+
+export type WorkspaceDiscoveryMode = "off" | "auto_join" | "request";
+
+export type WorkspaceDiscovery = {
+  domain: string;
+  mode: WorkspaceDiscoveryMode;
+  autoJoinRole: WorkspaceMemberRole;
+};
+
+export type JoinRequestStatus = "pending" | "approved" | "declined";
+
+export const DISCOVERY_MODES: WorkspaceDiscoveryMode[] = ["off", "auto_join", "request"];
+// Domain matches are broad, so discovery never hands out management roles.
+export const DISCOVERY_JOIN_ROLES: WorkspaceMemberRole[] = ["member", "viewer"];
+
+export const DEFAULT_WORKSPACE_DISCOVERY: WorkspaceDiscovery = {
+  domain: "",
+  mode: "off",
+  autoJoinRole: "member",
+};
+
+// Shared mailbox providers cannot identify a company, so they cannot be claimed.
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  "aol.com",
+  "gmail.com",
+  "gmx.com",
+  "googlemail.com",
+  "hotmail.com",
+  "icloud.com",
+  "live.com",
+  "mail.com",
+  "me.com",
+  "msn.com",
+  "outlook.com",
+  "proton.me",
+  "protonmail.com",
+  "yahoo.com",
+  "yandex.com",
+  "zoho.com",
+]);
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function normalizeDiscoveryDomain(value: unknown) {
+  return normalizeText(value).toLowerCase().replace(/^@+/, "");
+}
+
+export function isDiscoveryMode(value: unknown): value is WorkspaceDiscoveryMode {
+  return DISCOVERY_MODES.includes(normalizeText(value) as WorkspaceDiscoveryMode);
+}
+
+export function isDiscoveryJoinRole(value: unknown): value is WorkspaceMemberRole {
+  return DISCOVERY_JOIN_ROLES.includes(normalizeText(value) as WorkspaceMemberRole);
+}
+
+export function parseWorkspaceDiscovery(value: unknown): WorkspaceDiscovery {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return DEFAULT_WORKSPACE_DISCOVERY;
+  }
+
+  const record = value as Record<string, unknown>;
+  const domain = normalizeDiscoveryDomain(record.domain);
+  return {
+    domain,
+    mode: domain && isDiscoveryMode(record.mode) ? record.mode : "off",
+    autoJoinRole: isDiscoveryJoinRole(record.autoJoinRole) ? record.autoJoinRole : "member",
+  };
+}
+
+// A manager can only claim the domain of their own email address, which keeps
+// one company from pulling in another company's sign-ups.
+export function validateDiscoveryDomain(domain: string, actorEmail: string) {
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+    return "Enter a valid email domain, such as acme.com.";
+  }
+  if (PUBLIC_EMAIL_DOMAINS.has(domain)) {
+    return `${domain} is a public email provider and cannot be claimed.`;
+  }
+  if (getEmailDomain(actorEmail) !== domain) {
+    return `You can only claim ${getEmailDomain(actorEmail) || "your own email domain"}.`;
+  }
+  return null;
+}
+
+// Each claimed domain has one server-owned `workspaceDomains/{domain}` document,
+// so a second workspace cannot claim a domain until the first one releases it.
+export function isDomainClaimAvailable(
+  claim: Record<string, unknown> | undefined,
+  workspaceId: string,
+) {
+  const claimedBy = normalizeText(claim?.workspaceId);
+  return !claimedBy || claimedBy === workspaceId;
+}
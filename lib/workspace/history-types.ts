@@ -1,9 +1,159 @@
-export type CanonicalEntityType = "decision" | "action";
+export type CanonicalEntityType = "decision" | "action" | "meeting" | "member" | "invite";
 
 export type CanonicalHistoryEventType =
   | "created"
   | "updated"
   | "archived"
-  | "restored";
+  | "restored"
+  | "stateChanged"
+  | "locked"
+  | "unlocked"
+  | "digestSent"
+  | "roleChanged"
+  | "removed"
+  | "resent"
+  | "revoked"
+  | "accepted"
+  | "rejected"
+  | "expired";
 
-export type CanonicalHistorySource = "manual" | "meetingSync";
+// `system` marks events written by scheduled jobs rather than a person.
+export type CanonicalHistorySource = "manual" | "meetingSync" | "system";
+
+export const CANONICAL_HISTORY_SOURCE_OPTIONS: CanonicalHistorySource[] = [
+  "manual",
+  "meetingSync",
+  "system",
+];
+
+export const CANONICAL_HISTORY_EVENT_TYPE_OPTIONS: CanonicalHistoryEventType[] = [
+  "created",
+  "updated",
+  "archived",
+  "restored",
+  "stateChanged",
+  "locked",
+  "unlocked",
+  "digestSent",
+  "roleChanged",
+  "removed",
+  "resent",
+  "revoked",
+  "accepted",
+  "rejected",
+  "expired",
+];
+
+const CANONICAL_HISTORY_EVENT_TYPES = new Set(CANONICAL_HISTORY_EVENT_TYPE_OPTIONS);
+
+export const CANONICAL_ENTITY_TYPE_OPTIONS: CanonicalEntityType[] = [
+  "decision",
+  "action",
+  "meeting",
+  "member",
+  "invite",
+];
+
+const CANONICAL_ENTITY_TYPES = new Set(CANONICAL_ENTITY_TYPE_OPTIONS);
+
+export function isCanonicalEntityType(value: unknown): value is CanonicalEntityType {
+  return typeof value === "string" && CANONICAL_ENTITY_TYPES.has(value as CanonicalEntityType);
+}
+
+export function isCanonicalHistoryEventType(value: unknown): value is CanonicalHistoryEventType {
+  return (
+    typeof value === "string" &&
+    CANONICAL_HISTORY_EVENT_TYPES.has(value as CanonicalHistoryEventType)
+  );
+}
+
+export function isCanonicalHistorySource(value: unknown): value is CanonicalHistorySource {
+  return value === "manual" || value === "meetingSync" || value === "system";
+}
+
+export function parseCanonicalHistoryEventType(value: unknown): CanonicalHistoryEventType {
+  const normalized = typeof value === "string" ? value.trim() : "";
+  return isCanonicalHistoryEventType(normalized) ? normalized : "updated";
+}
+
+export function parseCanonicalHistorySource(value: unknown): CanonicalHistorySource {
+  const normalized = typeof value === "string" ? value.trim() : "";
+  return isCanonicalHistorySource(normalized) ? normalized : "manual";
+}
+
+export type HistoryFieldChange = {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+};
+
+// Update events store per-field before/after values under `metadata.changes`.
+export function parseHistoryFieldChanges(metadata: unknown): HistoryFieldChange[] {
+  if (!metadata || typeof metadata !== "object") return [];
+  const changes = (metadata as Record<string, unknown>).changes;
+  if (!Array.isArray(changes)) return [];
+
+  return changes
+    .map((change) => {
+      if (!change || typeof change !== "object") return null;
+      const record = change as Record<string, unknown>;
+      const field = typeof record.field === "string" ? record.field.trim() : "";
+      if (!field) return null;
+
+      return {
+        field,
+        label: typeof record.label === "string" && record.label.trim() ? record.label.trim() : field,
+        before: typeof record.before === "string" ? record.before : "",
+        after: typeof record.after === "string" ? record.after : "",
+      };
+    })
+    .filter((change): change is HistoryFieldChange => change !== null);
+}
+
+const CANONICAL_HISTORY_EVENT_TYPE_LABELS: Record<CanonicalHistoryEventType, string> = {
+  created: "Created",
+  updated: "Updated",
+  archived: "Archived",
+  restored: "Restored",
+  stateChanged: "State Changed",
+  locked: "Locked",
+  unlocked: "Unlocked",
+  digestSent: "Digest Sent",
+  roleChanged: "Role Changed",
+  removed: "Removed",
+  resent: "Resent",
+  revoked: "Revoked",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  expired: "Expired",
+};
+
+export function historyEventTypeLabel(eventType: CanonicalHistoryEventType) {
+  return CANONICAL_HISTORY_EVENT_TYPE_LABELS[eventType];
+}
+
+export function historyEventTypeStyle(eventType: CanonicalHistoryEventType) {
+  if (eventType === "created" || eventType === "accepted") {
+    return "border-emerald-200 bg-emerald-50 text-emerald-700";
+  }
+  if (eventType === "updated" || eventType === "roleChanged" || eventType === "resent") {
+    return "border-cyan-200 bg-cyan-50 text-cyan-700";
+  }
+  if (eventType === "stateChanged" || eventType === "digestSent") {
+    return "border-sky-200 bg-sky-50 text-sky-700";
+  }
+  if (eventType === "archived" || eventType === "locked" || eventType === "expired") {
+    return "border-amber-200 bg-amber-50 text-amber-700";
+  }
+  if (eventType === "removed" || eventType === "revoked" || eventType === "rejected") {
+    return "border-rose-200 bg-rose-50 text-rose-700";
+  }
+  return "border-violet-200 bg-violet-50 text-violet-700";
+}
+
+export function historySourceLabel(source: CanonicalHistorySource) {
+  if (source === "meetingSync") return "Meeting Sync";
+  if (source === "system") return "System";
+  return "Manual";
+}
@@ -0,0 +1,61 @@
+// Invitees get one reminder once their invite is inside this window.
+export const INVITE_REMINDER_WINDOW_HOURS = 48;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type InviteExpiryStage = "active" | "expiringSoon" | "expired";
+
+export type InviteExpiryCounts = {
+  expiringSoonCount: number;
+  remindedCount: number;
+  expiredCount: number;
+  reminderWindowHours: number;
+};
+
+type PendingInviteExpiry = {
+  expiresAt: Date | null;
+  reminderSentAt: Date | null;
+};
+
+// Invites without an expiry never expire and are never reminded.
+export function resolveInviteExpiryStage(expiresAt: Date | null, now: Date): InviteExpiryStage {
+  if (!expiresAt) return "active";
+  const expiresAtEpoch = expiresAt.getTime();
+  const nowEpoch = now.getTime();
+  if (expiresAtEpoch < nowEpoch) return "expired";
+  if (expiresAtEpoch <= nowEpoch + INVITE_REMINDER_WINDOW_HOURS * HOUR_MS) return "expiringSoon";
+  return "active";
+}
+
+export function isInviteReminderDue(invite: PendingInviteExpiry, now: Date) {
+  return (
+    !invite.reminderSentAt && resolveInviteExpiryStage(invite.expiresAt, now) === "expiringSoon"
+  );
+}
+
+// Pending invites past their expiry are counted as expired even before the
+// sweep has marked them.
+export function countInviteExpiry(
+  pendingInvites: PendingInviteExpiry[],
+  markedExpiredCount: number,
+  now: Date,
+): InviteExpiryCounts {
+  const counts: InviteExpiryCounts = {
+    expiringSoonCount: 0,
+    remindedCount: 0,
+    expiredCount: markedExpiredCount,
+    reminderWindowHours: INVITE_REMINDER_WINDOW_HOURS,
+  };
+
+  for (const invite of pendingInvites) {
+    const stage = resolveInviteExpiryStage(invite.expiresAt, now);
+    if (stage === "expired") {
+      counts.expiredCount += 1;
+    } else if (stage === "expiringSoon") {
+      counts.expiringSoonCount += 1;
+      if (invite.reminderSentAt) counts.remindedCount += 1;
+    }
+  }
+
+  return counts;
+}
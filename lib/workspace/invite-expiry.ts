@@ -0,0 +1,240 @@
+import "server-only";
+
+import { Timestamp } from "firebase-admin/firestore";
+import type { DocumentReference } from "firebase-admin/firestore";
+import { parseWorkspaceMemberRole } from "@/lib/auth/permissions";
+import { sendWorkspaceInviteEmail } from "@/lib/email/invite-email";
+import { sendNotificationEmail } from "@/lib/email/notification-email";
+import { adminDb } from "@/lib/firebase/admin";
+import { loadNotificationRecipients } from "@/lib/notifications/delivery";
+import { holdEmailForQuietHours } from "@/lib/notifications/held-emails";
+import { resolveNotificationDelivery } from "@/lib/notifications/preferences";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import {
+  countInviteExpiry,
+  isInviteReminderDue,
+  resolveInviteExpiryStage,
+  type InviteExpiryCounts,
+} from "@/lib/workspace/invite-expiry-window";
+import { isWorkspacePendingDeletion } from "@/lib/workspace/workspace-deletion";
+
+const MAX_PENDING_INVITES_PER_WORKSPACE = 500;
+
+export type InviteExpiryJobSummary = {
+  workspacesScanned: number;
+  invitesExpired: number;
+  remindersSent: number;
+  remindersFailed: number;
+  remindersSkipped: number;
+  managersNotified: number;
+};
+
+type PendingInvite = {
+  ref: DocumentReference;
+  inviteId: string;
+  token: string;
+  email: string;
+  data: Record<string, unknown>;
+  expiresAt: Date | null;
+  reminderSentAt: Date | null;
+};
+
+type WorkspaceSummary = {
+  workspaceId: string;
+  workspaceSlug: string;
+  workspaceName: string;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Reminder links are built outside a request, so they need APP_BASE_URL.
+function resolveInviteUrl(token: string) {
+  const baseUrl = normalizeText(process.env.APP_BASE_URL).replace(/\/+$/, "");
+  return baseUrl && token ? `${baseUrl}/invite/${encodeURIComponent(token)}` : "";
+}
+
+async function loadPendingInvites(workspaceRef: DocumentReference) {
+  const snapshots = await workspaceRef
+    .collection("invites")
+    .where("status", "==", "pending")
+    .limit(MAX_PENDING_INVITES_PER_WORKSPACE)
+    .get();
+
+  return snapshots.docs.map(
+    (snapshot): PendingInvite => ({
+      ref: snapshot.ref,
+      inviteId: snapshot.id,
+      token: normalizeText(snapshot.get("token")),
+      email: normalizeText(snapshot.get("email")).toLowerCase(),
+      data: snapshot.data() as Record<string, unknown>,
+      expiresAt: parseDate(snapshot.get("expiresAt")),
+      reminderSentAt: parseDate(snapshot.get("expiryReminderSentAt")),
+    }),
+  );
+}
+
+// Counts shown on the invites manager.
+export async function loadInviteExpiryCounts(
+  workspaceRef: DocumentReference,
+  now = new Date(),
+): Promise<InviteExpiryCounts> {
+  const [pendingInvites, expiredSnapshot] = await Promise.all([
+    loadPendingInvites(workspaceRef),
+    workspaceRef.collection("invites").where("status", "==", "expired").count().get(),
+  ]);
+  return countInviteExpiry(pendingInvites, expiredSnapshot.data().count, now);
+}
+
+async function expireInvite(
+  workspace: WorkspaceSummary,
+  invite: PendingInvite,
+  now: Timestamp,
+  summary: InviteExpiryJobSummary,
+) {
+  const expiredFields = { status: "expired", expiredAt: now, updatedAt: now };
+  const batch = adminDb.batch();
+  batch.set(invite.ref, expiredFields, { merge: true });
+  if (invite.token) {
+    batch.set(adminDb.collection("workspaceInviteTokens").doc(invite.token), expiredFields, {
+      merge: true,
+    });
+  }
+  await batch.commit();
+  summary.invitesExpired += 1;
+
+  await writeCanonicalHistoryEvent({
+    entityRef: invite.ref,
+    entity: "invite",
+    eventType: "expired",
+    source: "system",
+    actorUid: "",
+    actorName: "Synnapp",
+    message: `Invite for ${invite.email} expired without a response.`,
+    at: now,
+    metadata: { email: invite.email, role: parseWorkspaceMemberRole(invite.data.role) },
+  });
+
+  const invitedByUid = normalizeText(invite.data.invitedByUid);
+  const recipient = (await loadNotificationRecipients(workspace.workspaceId, [invitedByUid])).get(
+    invitedByUid,
+  );
+  if (!recipient?.email) return;
+
+  const delivery = resolveNotificationDelivery(
+    recipient.preferences,
+    "inviteExpired",
+    now.toDate(),
+  );
+  if (!delivery.email && !delivery.emailReleaseAt) return;
+
+  const emailInput = {
+    toEmail: recipient.email,
+    recipientName: recipient.displayName,
+    workspaceName: workspace.workspaceName,
+    subject: `Invite for ${invite.email} expired`,
+    heading: "Invite expired",
+    summary: `Your invite for ${invite.email} to ${workspace.workspaceName} expired before it was accepted. You can resend it from the invites list.`,
+    actionLabel: "Open invites",
+    actionPath: `/${workspace.workspaceSlug}/settings#invites`,
+  };
+  if (delivery.emailReleaseAt) {
+    await holdEmailForQuietHours({
+      uid: invitedByUid,
+      workspaceId: workspace.workspaceId,
+      eventType: "inviteExpired",
+      releaseAt: delivery.emailReleaseAt,
+      email: { kind: "notification", input: emailInput },
+    });
+    return;
+  }
+
+  const result = await sendNotificationEmail(emailInput);
+  if (result.status === "sent") {
+    summary.managersNotified += 1;
+    await invite.ref.set({ expiredNotifiedAt: Timestamp.now() }, { merge: true });
+  }
+}
+
+async function remindInvitee(
+  workspace: WorkspaceSummary,
+  invite: PendingInvite,
+  summary: InviteExpiryJobSummary,
+) {
+  const inviteUrl = resolveInviteUrl(invite.token);
+  if (!invite.email || !inviteUrl || !invite.expiresAt) {
+    summary.remindersSkipped += 1;
+    return;
+  }
+
+  const result = await sendWorkspaceInviteEmail({
+    toEmail: invite.email,
+    workspaceName: workspace.workspaceName,
+    workspaceSlug: workspace.workspaceSlug,
+    inviteUrl,
+    invitedByName: normalizeText(invite.data.invitedByName) || "Workspace Admin",
+    role: parseWorkspaceMemberRole(invite.data.role),
+    expiresAtIso: invite.expiresAt.toISOString(),
+    targetUserExists: invite.data.targetUserExists !== false,
+    action: "expiring",
+  });
+  if (result.status !== "sent") {
+    // Unsent reminders are retried on the next run.
+    if (result.status === "failed") summary.remindersFailed += 1;
+    else summary.remindersSkipped += 1;
+    return;
+  }
+
+  summary.remindersSent += 1;
+  await invite.ref.set({ expiryReminderSentAt: Timestamp.now() }, { merge: true });
+}
+
+// Marks pending invites past their expiry (and their tokens) as expired and
+// tells the inviting manager, then sends a single reminder to invitees whose
+// invite expires within the reminder window. Resending an invite clears the
+// reminder, so the new link gets its own.
+export async function runInviteExpiryJob(now = new Date()): Promise<InviteExpiryJobSummary> {
+  const workspaceSnapshots = await adminDb.collection("workspaces").get();
+  const summary: InviteExpiryJobSummary = {
+    workspacesScanned: workspaceSnapshots.size,
+    invitesExpired: 0,
+    remindersSent: 0,
+    remindersFailed: 0,
+    remindersSkipped: 0,
+    managersNotified: 0,
+  };
+  const expiredAt = Timestamp.fromDate(now);
+
+  for (const workspaceSnapshot of workspaceSnapshots.docs) {
+    const workspaceSlug = normalizeText(workspaceSnapshot.get("slug"));
+    if (!workspaceSlug || isWorkspacePendingDeletion(workspaceSnapshot.get("deletion"))) continue;
+
+    const workspace: WorkspaceSummary = {
+      workspaceId: workspaceSnapshot.id,
+      workspaceSlug,
+      workspaceName: normalizeText(workspaceSnapshot.get("name")) || workspaceSlug,
+    };
+
+    for (const invite of await loadPendingInvites(workspaceSnapshot.ref)) {
+      if (resolveInviteExpiryStage(invite.expiresAt, now) === "expired") {
+        await expireInvite(workspace, invite, expiredAt, summary);
+      } else if (isInviteReminderDue(invite, now)) {
+        await remindInvitee(workspace, invite, summary);
+      }
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,226 @@
+import "server-only";
+
+import { randomBytes } from "crypto";
+import { Timestamp } from "firebase-admin/firestore";
+import type { DocumentReference } from "firebase-admin/firestore";
+import type { WorkspaceMemberRole } from "@/lib/auth/permissions";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { sendWorkspaceInviteEmail } from "@/lib/email/invite-email";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+
+export const INVITE_TTL_DAYS = 14;
+
+type CreateWorkspaceInviteInput = {
+  workspace: {
+    workspaceId: string;
+    workspaceSlug: string;
+    workspaceName: string;
+  };
+  workspaceRef: DocumentReference;
+  actorUid: string;
+  actorDisplayName: string;
+  email: string;
+  role: WorkspaceMemberRole;
+  origin: string;
+};
+
+function isAuthUserNotFoundError(error: unknown) {
+  const code =
+    error && typeof error === "object" && "code" in error ? (error as { code?: unknown }).code : undefined;
+  if (code === "auth/user-not-found") {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : "";
+  return message.includes("user-not-found");
+}
+
+export async function resolveTargetUserExists(email: string) {
+  if (!email) return false;
+
+  try {
+    await adminAuth.getUserByEmail(email);
+    return true;
+  } catch (error) {
+    if (isAuthUserNotFoundError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function createInviteId() {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 900 + 100);
+  return `I-${timestamp}${random}`;
+}
+
+function createInviteToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+// Writes the invite and its token, records history, sends the email, and
+// stores the delivery outcome. Throws INVITE_ID_COLLISION on an ID clash.
+export async function createWorkspaceInvite(input: CreateWorkspaceInviteInput) {
+  const { workspace, email, role } = input;
+  const targetUserExists = await resolveTargetUserExists(email);
+
+  const inviteId = createInviteId();
+  const token = createInviteToken();
+  const now = Timestamp.now();
+  const expiresAt = Timestamp.fromMillis(
+    now.toMillis() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const inviteRef = input.workspaceRef.collection("invites").doc(inviteId);
+  const tokenRef = adminDb.collection("workspaceInviteTokens").doc(token);
+
+  await adminDb.runTransaction(async (transaction) => {
+    const existingInvite = await transaction.get(inviteRef);
+    if (existingInvite.exists) {
+      throw new Error("INVITE_ID_COLLISION");
+    }
+
+    transaction.set(inviteRef, {
+      inviteId,
+      token,
+      email,
+      role,
+      status: "pending",
+      targetUserExists,
+      invitedByUid: input.actorUid,
+      invitedByName: input.actorDisplayName,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt,
+      acceptedAt: null,
+      acceptedByUid: "",
+      acceptedByEmail: "",
+      rejectedAt: null,
+      rejectedByUid: "",
+      rejectedByEmail: "",
+      revokedAt: null,
+      revokedByUid: "",
+      resendCount: 0,
+      emailDeliveryStatus: "queued",
+      emailDeliveryProvider: "",
+      emailDeliveryMessageId: "",
+      emailDeliveryError: "",
+      lastEmailDeliveryAt: null,
+    });
+
+    transaction.set(tokenRef, {
+      token,
+      workspaceId: workspace.workspaceId,
+      workspaceSlug: workspace.workspaceSlug,
+      workspaceName: workspace.workspaceName,
+      inviteId,
+      email,
+      role,
+      status: "pending",
+      targetUserExists,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt,
+      invitedByUid: input.actorUid,
+      invitedByName: input.actorDisplayName,
+      acceptedAt: null,
+      acceptedByUid: "",
+      acceptedByEmail: "",
+      rejectedAt: null,
+      rejectedByUid: "",
+      rejectedByEmail: "",
+      revokedAt: null,
+      revokedByUid: "",
+      emailDeliveryStatus: "queued",
+      emailDeliveryProvider: "",
+      emailDeliveryMessageId: "",
+      emailDeliveryError: "",
+      lastEmailDeliveryAt: null,
+    });
+  });
+
+  await writeCanonicalHistoryEvent({
+    entityRef: inviteRef,
+    entity: "invite",
+    eventType: "created",
+    source: "manual",
+    actorUid: input.actorUid,
+    actorName: input.actorDisplayName,
+    message: `Invited ${email} as ${role}.`,
+    at: now,
+    metadata: { email, role },
+  });
+
+  const inviteUrl = `${input.origin}/invite/${encodeURIComponent(token)}`;
+  const emailDelivery = await sendWorkspaceInviteEmail({
+    toEmail: email,
+    workspaceName: workspace.workspaceName,
+    workspaceSlug: workspace.workspaceSlug,
+    inviteUrl,
+    invitedByName: input.actorDisplayName,
+    role,
+    expiresAtIso: expiresAt.toDate().toISOString(),
+    targetUserExists,
+    action: "created",
+  });
+  const deliveryAt = Timestamp.now();
+  const deliveryFields = {
+    emailDeliveryStatus: emailDelivery.status,
+    emailDeliveryProvider: emailDelivery.provider,
+    emailDeliveryMessageId: emailDelivery.messageId,
+    emailDeliveryError: emailDelivery.error,
+    lastEmailDeliveryAt: deliveryAt,
+    updatedAt: deliveryAt,
+  };
+
+  await Promise.all([
+    inviteRef.set(deliveryFields, { merge: true }),
+    tokenRef.set(deliveryFields, { merge: true }),
+  ]);
+
+  return {
+    inviteId,
+    inviteUrl,
+    expiresAt,
+    targetUserExists,
+    emailDelivery,
+  };
+}
+
+function chunkEmails(emails: string[]) {
+  const chunks: string[][] = [];
+  for (let index = 0; index < emails.length; index += 30) {
+    chunks.push(emails.slice(index, index + 30));
+  }
+  return chunks;
+}
+
+// Finds which of the given emails already belong to a member or hold a live
+// pending invite, so bulk invites can skip them instead of sending duplicates.
+export async function loadInviteTargetConflicts(workspaceRef: DocumentReference, emails: string[]) {
+  const memberEmails = new Set<string>();
+  const pendingInviteEmails = new Set<string>();
+  const now = Date.now();
+
+  await Promise.all(
+    chunkEmails(Array.from(new Set(emails))).map(async (chunk) => {
+      const [memberSnapshots, inviteSnapshots] = await Promise.all([
+        workspaceRef.collection("members").where("email", "in", chunk).get(),
+        workspaceRef.collection("invites").where("email", "in", chunk).get(),
+      ]);
+
+      memberSnapshots.docs.forEach((snapshot) => {
+        memberEmails.add(String(snapshot.get("email")).toLowerCase());
+      });
+      inviteSnapshots.docs.forEach((snapshot) => {
+        const expiresAt = snapshot.get("expiresAt") as Timestamp | null | undefined;
+        const isLive = !expiresAt || expiresAt.toMillis() >= now;
+        if (snapshot.get("status") === "pending" && isLive) {
+          pendingInviteEmails.add(String(snapshot.get("email")).toLowerCase());
+        }
+      });
+    }),
+  );
+
+  return { memberEmails, pendingInviteEmails };
+}
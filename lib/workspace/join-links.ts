@@ -0,0 +1,68 @@
+import type { WorkspaceMemberRole } from "@/lib/auth/permissions";
+
+export type JoinLinkStatus = "active" | "revoked" | "expired" | "exhausted";
+
+// Links are shared widely, so they never grant ownership.
+export const JOIN_LINK_ROLES: WorkspaceMemberRole[] = ["admin", "member", "viewer"];
+export const JOIN_LINK_EXPIRY_DAYS_OPTIONS = [1, 7, 14, 30];
+export const DEFAULT_JOIN_LINK_EXPIRY_DAYS = 7;
+export const DEFAULT_JOIN_LINK_MAX_USES = 25;
+export const MAX_JOIN_LINK_USES = 500;
+export const MAX_JOIN_LINK_DOMAINS = 10;
+export const MAX_ACTIVE_JOIN_LINKS = 20;
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function isJoinLinkRole(value: unknown): value is WorkspaceMemberRole {
+  return JOIN_LINK_ROLES.includes(normalizeText(value) as WorkspaceMemberRole);
+}
+
+function normalizeJoinLinkDomain(value: string) {
+  return value.trim().toLowerCase().replace(/^@+/, "");
+}
+
+// Accepts a list or a comma/space separated string ("@acme.com, acme.io").
+export function parseJoinLinkDomains(
+  value: unknown,
+): { domains: string[] } | { error: string } {
+  const entries = Array.isArray(value)
+    ? value.map((entry) => normalizeText(entry))
+    : normalizeText(value).split(/[\s,;]+/);
+  const domains = Array.from(
+    new Set(entries.map(normalizeJoinLinkDomain).filter(Boolean)),
+  );
+
+  const invalid = domains.find((domain) => !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain));
+  if (invalid) {
+    return { error: `"${invalid}" is not a valid email domain.` };
+  }
+  if (domains.length > MAX_JOIN_LINK_DOMAINS) {
+    return { error: `Join links can allow up to ${MAX_JOIN_LINK_DOMAINS} domains.` };
+  }
+
+  return { domains };
+}
+
+export function getEmailDomain(email: string) {
+  const atIndex = email.lastIndexOf("@");
+  return atIndex === -1 ? "" : email.slice(atIndex + 1).trim().toLowerCase();
+}
+
+export function isEmailAllowedByJoinLink(email: string, allowedDomains: string[]) {
+  if (allowedDomains.length === 0) return true;
+  return allowedDomains.includes(getEmailDomain(email));
+}
+
+export function resolveJoinLinkStatus(input: {
+  status: string;
+  expiresAt: Date | null;
+  useCount: number;
+  maxUses: number;
+}): JoinLinkStatus {
+  if (input.status === "revoked") return "revoked";
+  if (input.expiresAt && input.expiresAt.getTime() < Date.now()) return "expired";
+  if (input.maxUses > 0 && input.useCount >= input.maxUses) return "exhausted";
+  return "active";
+}
@@ -1,11 +1,18 @@
+import {
+  parseMeetingRecurrenceRule,
+  type MeetingRecurrenceRule,
+} from "@/lib/workspace/meeting-recurrence";
+
 export type MeetingDraftPayload = {
   title: string;
   objective: string;
   date: string;
   time: string;
   location: string;
+  teamId: string;
   attendees: string[];
   agenda: string[];
+  recurrence: MeetingRecurrenceRule | null;
 };
 
 function isStringArray(value: unknown): value is string[] {
@@ -29,8 +36,10 @@ export function normalizeMeetingDraftPayload(
     date: sanitizeText(payload.date),
     time: sanitizeText(payload.time),
     location: sanitizeText(payload.location),
+    teamId: sanitizeText(payload.teamId),
     attendees: sanitizeList(payload.attendees),
     agenda: sanitizeList(payload.agenda),
+    recurrence: payload.recurrence ? parseMeetingRecurrenceRule(payload.recurrence) : null,
   };
 }
 
@@ -57,7 +66,9 @@ export function parseMeetingDraftPayload(input: unknown): MeetingDraftPayload |
     date: raw.date,
     time: raw.time,
     location: raw.location,
+    teamId: typeof raw.teamId === "string" ? raw.teamId : "",
     attendees: raw.attendees,
     agenda: raw.agenda,
+    recurrence: parseMeetingRecurrenceRule(raw.recurrence),
   });
 }
@@ -0,0 +1,121 @@
+export type MeetingRecurrenceFrequency = "weekly" | "biweekly" | "monthly" | "custom";
+
+export type MeetingRecurrenceRule = {
+  frequency: MeetingRecurrenceFrequency;
+  weekdays: number[];
+};
+
+const FREQUENCIES = new Set<MeetingRecurrenceFrequency>([
+  "weekly",
+  "biweekly",
+  "monthly",
+  "custom",
+]);
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDateOnly(value: string) {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const parsed = new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+  );
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function formatDateOnly(value: Date) {
+  return value.toISOString().slice(0, 10);
+}
+
+function normalizeWeekdays(value: unknown) {
+  if (!Array.isArray(value)) return [];
+
+  const unique = new Set<number>();
+  value.forEach((entry) => {
+    if (typeof entry === "number" && Number.isInteger(entry) && entry >= 0 && entry <= 6) {
+      unique.add(entry);
+    }
+  });
+
+  return Array.from(unique).sort((left, right) => left - right);
+}
+
+export function weekdayLabel(weekday: number) {
+  return WEEKDAY_LABELS[weekday] ?? "";
+}
+
+export function parseMeetingRecurrenceRule(value: unknown): MeetingRecurrenceRule | null {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Record<string, unknown>;
+  const frequency =
+    typeof candidate.frequency === "string" ? candidate.frequency.trim() : "";
+
+  if (!FREQUENCIES.has(frequency as MeetingRecurrenceFrequency)) {
+    return null;
+  }
+
+  const weekdays = normalizeWeekdays(candidate.weekdays);
+  if (frequency === "custom" && weekdays.length === 0) {
+    return null;
+  }
+
+  return {
+    frequency: frequency as MeetingRecurrenceFrequency,
+    weekdays: frequency === "custom" ? weekdays : [],
+  };
+}
+
+export function describeMeetingRecurrence(rule: MeetingRecurrenceRule, anchorDate = "") {
+  const anchor = parseDateOnly(anchorDate);
+  const anchorWeekday = anchor ? weekdayLabel(anchor.getUTCDay()) : "";
+
+  if (rule.frequency === "custom") {
+    return `Every ${rule.weekdays.map(weekdayLabel).join(", ")}`;
+  }
+  if (rule.frequency === "monthly") {
+    return anchor ? `Monthly on day ${anchor.getUTCDate()}` : "Monthly";
+  }
+  if (rule.frequency === "biweekly") {
+    return anchorWeekday ? `Every other ${anchorWeekday}` : "Every two weeks";
+  }
+  return anchorWeekday ? `Weekly on ${anchorWeekday}` : "Weekly";
+}
+
+// Dates are plain `YYYY-MM-DD` strings so occurrences stay on the same calendar
+// day regardless of server timezone. Monthly series keep the anchor day and clamp
+// to the last day of shorter months.
+export function computeNextOccurrenceDate(
+  rule: MeetingRecurrenceRule,
+  currentDate: string,
+  anchorDate = currentDate,
+) {
+  const current = parseDateOnly(currentDate);
+  if (!current) return "";
+
+  if (rule.frequency === "weekly" || rule.frequency === "biweekly") {
+    const stepDays = rule.frequency === "weekly" ? 7 : 14;
+    return formatDateOnly(new Date(current.getTime() + stepDays * DAY_MS));
+  }
+
+  if (rule.frequency === "monthly") {
+    const anchor = parseDateOnly(anchorDate) ?? current;
+    const year = current.getUTCFullYear();
+    const month = current.getUTCMonth() + 1;
+    const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const day = Math.min(anchor.getUTCDate(), lastDayOfMonth);
+    return formatDateOnly(new Date(Date.UTC(year, month, day)));
+  }
+
+  if (rule.weekdays.length === 0) return "";
+
+  for (let offset = 1; offset <= 7; offset += 1) {
+    const candidate = new Date(current.getTime() + offset * DAY_MS);
+    if (rule.weekdays.includes(candidate.getUTCDay())) {
+      return formatDateOnly(candidate);
+    }
+  }
+
+  return "";
+}
@@ -0,0 +1,114 @@
+export type MeetingRestoreSection =
+  | "details"
+  | "attendees"
+  | "agenda"
+  | "notes"
+  | "openQuestions"
+  | "decisions"
+  | "actions";
+
+export type MeetingRevisionSections = Record<MeetingRestoreSection, string[]>;
+
+export const MEETING_RESTORE_SECTIONS: MeetingRestoreSection[] = [
+  "details",
+  "attendees",
+  "agenda",
+  "notes",
+  "openQuestions",
+  "decisions",
+  "actions",
+];
+
+export const MEETING_RESTORE_SECTION_LABELS: Record<MeetingRestoreSection, string> = {
+  details: "Details",
+  attendees: "Attendees",
+  agenda: "Agenda",
+  notes: "Notes",
+  openQuestions: "Open Questions",
+  decisions: "Decisions",
+  actions: "Actions",
+};
+
+const MEETING_RESTORE_SECTION_SET = new Set(MEETING_RESTORE_SECTIONS);
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function listRecords(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object",
+  );
+}
+
+function joinParts(parts: string[]) {
+  return parts.filter(Boolean).join(" • ");
+}
+
+export function isMeetingRestoreSection(value: unknown): value is MeetingRestoreSection {
+  return typeof value === "string" && MEETING_RESTORE_SECTION_SET.has(value as MeetingRestoreSection);
+}
+
+export function parseMeetingRestoreSections(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return MEETING_RESTORE_SECTIONS.filter((section) => value.includes(section));
+}
+
+export function describeMeetingRestoreSections(sections: MeetingRestoreSection[]) {
+  return sections.map((section) => MEETING_RESTORE_SECTION_LABELS[section].toLowerCase()).join(", ");
+}
+
+// Flattens a stored meeting snapshot into one line per item so two revisions
+// can be compared section by section without shipping the raw payload.
+export function summarizeMeetingRevisionSections(value: unknown): MeetingRevisionSections {
+  const meeting =
+    value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+  return {
+    details: [
+      `Title: ${normalizeText(meeting.title)}`,
+      `Owner: ${normalizeText(meeting.owner)}`,
+      `Time: ${normalizeText(meeting.timeLabel)}`,
+      `Duration: ${normalizeText(meeting.duration)}`,
+      `Location: ${normalizeText(meeting.location)}`,
+      `Objective: ${normalizeText(meeting.objective)}`,
+    ],
+    attendees: listRecords(meeting.attendees).map((attendee) =>
+      joinParts([
+        normalizeText(attendee.name),
+        normalizeText(attendee.role),
+        attendee.required === true ? "required" : "optional",
+        attendee.present === true ? "present" : "",
+      ]),
+    ),
+    agenda: listRecords(meeting.agenda).map((item) =>
+      joinParts([normalizeText(item.title), normalizeText(item.state)]),
+    ),
+    notes: listRecords(meeting.notes).map((note) =>
+      joinParts([normalizeText(note.heading), normalizeText(note.content)]),
+    ),
+    openQuestions: listRecords(meeting.openQuestions).map((question) =>
+      joinParts([
+        normalizeText(question.question),
+        normalizeText(question.owner),
+        normalizeText(question.status),
+      ]),
+    ),
+    decisions: listRecords(meeting.decisions).map((decision) =>
+      joinParts([
+        normalizeText(decision.title),
+        normalizeText(decision.owner),
+        normalizeText(decision.status),
+      ]),
+    ),
+    actions: listRecords(meeting.actions).map((action) =>
+      joinParts([
+        normalizeText(action.title),
+        normalizeText(action.owner),
+        normalizeText(action.dueLabel),
+        normalizeText(action.status),
+      ]),
+    ),
+  };
+}
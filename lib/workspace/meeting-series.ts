@@ -0,0 +1,442 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import { writeCanonicalHistoryEvent } from "@/lib/workspace/activity-history";
+import { listActionStateIds, resolveActionState } from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import { syncSearchIndexEntry } from "@/lib/workspace/search-index";
+import {
+  computeNextOccurrenceDate,
+  parseMeetingRecurrenceRule,
+} from "@/lib/workspace/meeting-recurrence";
+
+type CarriedAgendaItem = {
+  id: string;
+  title: string;
+  state: "queued" | "inProgress" | "done";
+};
+
+type CarriedQuestion = {
+  id: string;
+  question: string;
+  owner: string;
+  dueLabel: string;
+  status: "open" | "resolved";
+};
+
+type CarriedAction = {
+  id: string;
+  title: string;
+  owner: string;
+  dueLabel: string;
+  priority: "high" | "medium" | "low";
+  status: string;
+};
+
+export type MeetingCarryOverSummary = {
+  fromMeetingId: string;
+  agendaItems: number;
+  openQuestions: number;
+  actions: number;
+};
+
+export type NextMeetingOccurrenceResult = {
+  created: boolean;
+  meetingId: string;
+  scheduledDate: string;
+  carryOver: MeetingCarryOverSummary | null;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizeBoolean(value: unknown, fallback = false) {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+function normalizeArray<T>(
+  value: unknown,
+  parser: (entry: Record<string, unknown>, index: number) => T | null,
+) {
+  if (!Array.isArray(value)) return [] as T[];
+  return value
+    .map((entry, index) =>
+      entry && typeof entry === "object" ? parser(entry as Record<string, unknown>, index) : null,
+    )
+    .filter((entry): entry is T => entry !== null);
+}
+
+
+function normalizeActionPriority(value: unknown): CarriedAction["priority"] {
+  const priority = normalizeText(value);
+  return priority === "high" || priority === "low" ? priority : "medium";
+}
+
+function formatTimeLabel(date: string, time: string) {
+  const parsedDate = date ? new Date(`${date}T00:00:00`) : null;
+  const dateLabel =
+    parsedDate && !Number.isNaN(parsedDate.getTime())
+      ? parsedDate.toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        })
+      : date || "Date TBD";
+
+  if (!time) return dateLabel;
+
+  const [hoursRaw, minutesRaw] = time.split(":");
+  const hours = Number.parseInt(hoursRaw ?? "", 10);
+  const minutes = Number.parseInt(minutesRaw ?? "", 10);
+
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) return dateLabel;
+
+  const period = hours >= 12 ? "PM" : "AM";
+  const normalizedHours = hours % 12 === 0 ? 12 : hours % 12;
+  const normalizedMinutes = String(minutes).padStart(2, "0");
+
+  return `${dateLabel}, ${normalizedHours}:${normalizedMinutes} ${period}`;
+}
+
+function createMeetingId() {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 900 + 100);
+  return `M-${timestamp}${random}`;
+}
+
+function buildCarriedAgenda(previous: Record<string, unknown>, templateAgenda: string[]) {
+  const unfinished = normalizeArray(previous.agenda, (entry) => {
+    const title = normalizeText(entry.title);
+    if (!title || normalizeText(entry.state) === "done") return null;
+    return title;
+  });
+  const carriedTitles = new Set(unfinished.map((title) => title.toLowerCase()));
+  const recurringTitles = templateAgenda.filter(
+    (title) => !carriedTitles.has(title.toLowerCase()),
+  );
+  const agenda: CarriedAgendaItem[] = [...unfinished, ...recurringTitles].map(
+    (title, index) => ({
+      id: `ag-${index + 1}`,
+      title,
+      state: "queued",
+    }),
+  );
+
+  return { agenda, carriedCount: unfinished.length };
+}
+
+function buildCarriedQuestions(previous: Record<string, unknown>) {
+  return normalizeArray<CarriedQuestion>(previous.openQuestions, (entry, index) => {
+    const question = normalizeText(entry.question);
+    if (!question || normalizeText(entry.status) === "resolved") return null;
+    return {
+      id: normalizeText(entry.id) || `Q-${index + 1}`,
+      question,
+      owner: normalizeText(entry.owner) || "Unassigned",
+      dueLabel: normalizeText(entry.dueLabel) || "No due date",
+      status: "open",
+    };
+  });
+}
+
+// Open actions come from the previous record and from canonical actions linked to
+// it. The canonical document wins so completions made outside the meeting stick.
+async function buildCarriedActions(
+  workspaceId: string,
+  previousMeetingId: string,
+  previous: Record<string, unknown>,
+) {
+  const actionsRef = adminDb.collection("workspaces").doc(workspaceId).collection("actions");
+  const candidates = new Map<string, CarriedAction>();
+  const workflow = await loadWorkspaceActionWorkflow(workspaceId);
+  const closedStateIds = new Set(listActionStateIds(workflow, "closed"));
+  const archivedIds = new Set<string>();
+
+  const previousActions = normalizeArray<CarriedAction>(previous.actions, (entry) => {
+    const id = normalizeText(entry.id);
+    const title = normalizeText(entry.title);
+    if (!id || !title) return null;
+    return {
+      id,
+      title,
+      owner: normalizeText(entry.owner) || "Unassigned",
+      dueLabel: normalizeText(entry.dueLabel) || "No due date",
+      priority: normalizeActionPriority(entry.priority),
+      status: resolveActionState(workflow, entry.status).id,
+    };
+  });
+  previousActions.forEach((action) => candidates.set(action.id, action));
+
+  const linkedSnapshots = await actionsRef.where("meetingId", "==", previousMeetingId).get();
+  const canonicalById = new Map(
+    linkedSnapshots.docs.map((snapshot) => [
+      snapshot.id,
+      snapshot.data() as Record<string, unknown>,
+    ]),
+  );
+
+  for (const id of candidates.keys()) {
+    if (canonicalById.has(id)) continue;
+    const snapshot = await actionsRef.doc(id).get();
+    if (snapshot.exists) {
+      canonicalById.set(id, snapshot.data() as Record<string, unknown>);
+    }
+  }
+
+  canonicalById.forEach((data, id) => {
+    const existing = candidates.get(id);
+    candidates.set(id, {
+      id,
+      title: normalizeText(data.title) || existing?.title || `Action ${id}`,
+      owner: normalizeText(data.owner) || existing?.owner || "Unassigned",
+      dueLabel: normalizeText(data.dueLabel) || existing?.dueLabel || "No due date",
+      priority: normalizeActionPriority(data.priority ?? existing?.priority),
+      status: resolveActionState(workflow, data.status).id,
+    });
+    if (data.archived === true) archivedIds.add(id);
+  });
+
+  return Array.from(candidates.values()).filter(
+    (action) => !archivedIds.has(action.id) && !closedStateIds.has(action.status),
+  );
+}
+
+export async function createNextMeetingOccurrence({
+  workspaceId,
+  seriesId,
+  fromMeetingId,
+  actorUid,
+  actorName,
+  now = Timestamp.now(),
+}: {
+  workspaceId: string;
+  seriesId: string;
+  fromMeetingId: string;
+  actorUid: string;
+  actorName: string;
+  now?: Timestamp;
+}): Promise<NextMeetingOccurrenceResult> {
+  const workspaceRef = adminDb.collection("workspaces").doc(workspaceId);
+  const seriesRef = workspaceRef.collection("meetingSeries").doc(seriesId);
+  const seriesSnapshot = await seriesRef.get();
+
+  if (!seriesSnapshot.exists) {
+    throw new Error("MEETING_SERIES_NOT_FOUND");
+  }
+
+  const series = seriesSnapshot.data() as Record<string, unknown>;
+  const latestMeetingId = normalizeText(series.latestMeetingId);
+  if (latestMeetingId && latestMeetingId !== fromMeetingId) {
+    return {
+      created: false,
+      meetingId: latestMeetingId,
+      scheduledDate: normalizeText(series.latestScheduledDate),
+      carryOver: null,
+    };
+  }
+
+  const rule = parseMeetingRecurrenceRule(series.recurrence);
+  if (!rule) {
+    throw new Error("MEETING_SERIES_INVALID");
+  }
+
+  const previousRef = workspaceRef.collection("meetings").doc(fromMeetingId);
+  const previousSnapshot = await previousRef.get();
+  if (!previousSnapshot.exists) {
+    throw new Error("MEETING_NOT_FOUND");
+  }
+
+  const previous = previousSnapshot.data() as Record<string, unknown>;
+  const startDate = normalizeText(series.startDate);
+  const previousDate = normalizeText(previous.scheduledDate) || startDate;
+  const scheduledDate = computeNextOccurrenceDate(rule, previousDate, startDate);
+  const scheduledTime = normalizeText(series.time);
+  if (!scheduledDate) {
+    throw new Error("MEETING_SERIES_INVALID");
+  }
+
+  const templateAgenda = Array.isArray(series.agenda)
+    ? series.agenda.map((entry) => normalizeText(entry)).filter(Boolean)
+    : [];
+  const { agenda, carriedCount: carriedAgendaCount } = buildCarriedAgenda(
+    previous,
+    templateAgenda,
+  );
+  if (agenda[0]) {
+    agenda[0] = { ...agenda[0], state: "inProgress" };
+  }
+  const openQuestions = buildCarriedQuestions(previous);
+  const actions = await buildCarriedActions(workspaceId, fromMeetingId, previous);
+  const attendees = normalizeArray(previous.attendees, (entry, index) => {
+    const name = normalizeText(entry.name);
+    if (!name) return null;
+    return {
+      id: normalizeText(entry.id) || `u-${index + 1}`,
+      name,
+      role: normalizeText(entry.role) || "Participant",
+      required: normalizeBoolean(entry.required, true),
+      present: true,
+    };
+  });
+  const digestRecipients = normalizeArray(previous.digestRecipients, (entry, index) => {
+    const label = normalizeText(entry.label);
+    if (!label) return null;
+    return {
+      id: normalizeText(entry.id) || `r-${index + 1}`,
+      label,
+      enabled: normalizeBoolean(entry.enabled, index < 2),
+    };
+  });
+  const digestOptions =
+    previous.digestOptions && typeof previous.digestOptions === "object"
+      ? (previous.digestOptions as Record<string, unknown>)
+      : {};
+  const occurrence =
+    typeof previous.seriesOccurrence === "number" && Number.isFinite(previous.seriesOccurrence)
+      ? Math.floor(previous.seriesOccurrence) + 1
+      : 2;
+  const carryOver: MeetingCarryOverSummary = {
+    fromMeetingId,
+    agendaItems: carriedAgendaCount,
+    openQuestions: openQuestions.length,
+    actions: actions.length,
+  };
+  const title = normalizeText(series.title) || normalizeText(previous.title) || "Recurring Meeting";
+  const objective =
+    normalizeText(previous.objective) ||
+    "Capture outcomes, decisions, actions, and open questions from this meeting.";
+
+  const meetingPayload = {
+    title,
+    team: normalizeText(previous.team) || "Workspace",
+    owner: normalizeText(previous.owner) || actorName,
+    timeLabel: formatTimeLabel(scheduledDate, scheduledTime),
+    duration: normalizeText(previous.duration) || "45 min",
+    location: normalizeText(previous.location) || "TBD",
+    objective,
+    state: "scheduled",
+    digest: "pending",
+    locked: false,
+    revision: 1,
+    lastSentLabel: "Not sent yet",
+    attendees,
+    agenda,
+    notes: [
+      {
+        id: "n-1",
+        heading: "Key Discussion",
+        content: objective,
+      },
+      {
+        id: "n-2",
+        heading: "Risks and Constraints",
+        content: "Capture blockers, dependencies, and assumptions to revisit.",
+      },
+      {
+        id: "n-3",
+        heading: "Follow-up Context",
+        content: `Carried over from ${fromMeetingId}: ${carryOver.agendaItems} agenda item(s), ${carryOver.openQuestions} open question(s), ${carryOver.actions} open action(s).`,
+      },
+    ],
+    openQuestions,
+    decisions: [],
+    actions,
+    digestRecipients,
+    digestOptions: {
+      includeNotes: normalizeBoolean(digestOptions.includeNotes, true),
+      includeOpenQuestions: normalizeBoolean(digestOptions.includeOpenQuestions, true),
+      includeActionOwners: normalizeBoolean(digestOptions.includeActionOwners, true),
+    },
+  };
+
+  let meetingRef = workspaceRef.collection("meetings").doc(createMeetingId());
+  let attempts = 0;
+  while (attempts < 4) {
+    const existingSnapshot = await meetingRef.get();
+    if (!existingSnapshot.exists) break;
+    meetingRef = workspaceRef.collection("meetings").doc(createMeetingId());
+    attempts += 1;
+  }
+  if ((await meetingRef.get()).exists) {
+    meetingRef = workspaceRef.collection("meetings").doc();
+  }
+
+  const result = await adminDb.runTransaction(async (transaction) => {
+    const currentSeriesSnapshot = await transaction.get(seriesRef);
+    const currentLatestMeetingId = normalizeText(currentSeriesSnapshot.get("latestMeetingId"));
+
+    if (currentLatestMeetingId && currentLatestMeetingId !== fromMeetingId) {
+      return {
+        created: false,
+        meetingId: currentLatestMeetingId,
+        scheduledDate: normalizeText(currentSeriesSnapshot.get("latestScheduledDate")),
+        carryOver: null,
+      };
+    }
+
+    transaction.create(meetingRef, {
+      ...meetingPayload,
+      teamId: normalizeText(previous.teamId) || normalizeText(series.teamId),
+      seriesId,
+      seriesOccurrence: occurrence,
+      scheduledDate,
+      scheduledTime,
+      scheduledTimezone: normalizeText(previous.scheduledTimezone),
+      previousMeetingId: fromMeetingId,
+      nextMeetingId: "",
+      carryOver,
+      createdAt: now,
+      createdBy: actorUid,
+      updatedAt: now,
+      updatedBy: actorUid,
+    });
+    transaction.set(previousRef, { nextMeetingId: meetingRef.id }, { merge: true });
+    transaction.set(
+      seriesRef,
+      {
+        latestMeetingId: meetingRef.id,
+        latestScheduledDate: scheduledDate,
+        occurrenceCount: occurrence,
+        updatedAt: now,
+        updatedBy: actorUid,
+      },
+      { merge: true },
+    );
+
+    return {
+      created: true,
+      meetingId: meetingRef.id,
+      scheduledDate,
+      carryOver,
+    };
+  });
+
+  if (result.created) {
+    await syncSearchIndexEntry({ entity: "meeting", entityRef: meetingRef });
+    await meetingRef.collection("revisions").add({
+      source: "meetingUpdate",
+      eventType: "created",
+      changedFields: ["initial capture"],
+      summary: `Created occurrence ${occurrence} of ${title}.`,
+      meetingRevision: 1,
+      actorUid,
+      actorName,
+      capturedAt: now,
+      restoredFromRevisionId: "",
+      meeting: meetingPayload,
+    });
+    await writeCanonicalHistoryEvent({
+      entityRef: meetingRef,
+      entity: "meeting",
+      eventType: "created",
+      source: "meetingSync",
+      actorUid,
+      actorName,
+      message: `Created occurrence ${occurrence} of ${title}.`,
+      at: now,
+      metadata: { seriesId, previousMeetingId: fromMeetingId },
+    });
+  }
+
+  return result;
+}
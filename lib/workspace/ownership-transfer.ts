@@ -0,0 +1,41 @@
+export type OwnershipTransfer = {
+  fromUid: string;
+  fromName: string;
+  toUid: string;
+  toName: string;
+  requestedAt: string;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseIsoDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate().toISOString();
+    } catch {
+      return "";
+    }
+  }
+  return typeof value === "string" ? value : "";
+}
+
+// Only one transfer can be pending per workspace; it is stored on the
+// workspace document as `ownershipTransfer` and removed once resolved.
+export function parseOwnershipTransfer(value: unknown): OwnershipTransfer | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const record = value as Record<string, unknown>;
+  const fromUid = normalizeText(record.fromUid);
+  const toUid = normalizeText(record.toUid);
+  if (normalizeText(record.status) !== "pending" || !fromUid || !toUid) return null;
+
+  return {
+    fromUid,
+    fromName: normalizeText(record.fromName) || "Workspace Owner",
+    toUid,
+    toName: normalizeText(record.toName) || "Workspace Member",
+    requestedAt: parseIsoDate(record.requestedAt),
+  };
+}
@@ -0,0 +1,179 @@
+import "server-only";
+
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  parseSearchScope,
+  parseSearchSortMode,
+  parseUpdatedWindow,
+  type SearchView,
+} from "@/lib/workspace/search-params";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import { getSearchIndexRevision } from "@/lib/workspace/search-index";
+import { parseSearchQuery } from "@/lib/workspace/search-query";
+import { countWorkspaceSearch, loadSearchMembers } from "@/lib/workspace/search-results";
+
+export const MAX_SAVED_SEARCHES_PER_USER = 25;
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 60;
+export const MAX_SAVED_SEARCH_QUERY_LENGTH = 300;
+
+// Pinned badges poll from every open tab, so counts are briefly reused rather
+// than re-running up to 25 searches per tab. Index writes in this process drop
+// the cached counts straight away.
+const SAVED_SEARCH_COUNT_TTL_MS = 15_000;
+const savedSearchCountCache = new Map<
+  string,
+  { expiresAt: number; indexRevision: number; counts: SavedSearchCounts }
+>();
+
+export type SavedSearchCounts = {
+  counts: Record<string, number>;
+  // Searches whose count stopped at the scan budget and is a lower bound.
+  cappedIds: string[];
+};
+
+export type SavedSearch = SearchView & {
+  id: string;
+  name: string;
+  ownerUid: string;
+  ownerName: string;
+  shared: boolean;
+  pinned: boolean;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parsePinnedUids(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return value.map((entry) => normalizeText(entry)).filter(Boolean);
+}
+
+export function parseSavedSearchView(data: Record<string, unknown>): SearchView {
+  return {
+    query: normalizeText(data.query).slice(0, MAX_SAVED_SEARCH_QUERY_LENGTH),
+    kind: parseSearchScope(data.kind),
+    updated: parseUpdatedWindow(data.updated),
+    sort: parseSearchSortMode(data.sort),
+    team: normalizeText(data.team),
+  };
+}
+
+// `pinned` is per viewer: each user pins searches for their own nav, including
+// searches someone else shared.
+export function parseSavedSearch(
+  id: string,
+  data: Record<string, unknown>,
+  viewerUid: string,
+): SavedSearch {
+  return {
+    id,
+    name: normalizeText(data.name) || "Saved search",
+    ownerUid: normalizeText(data.ownerUid),
+    ownerName: normalizeText(data.ownerName),
+    shared: data.shared === true,
+    pinned: parsePinnedUids(data.pinnedUids).includes(viewerUid),
+    ...parseSavedSearchView(data),
+  };
+}
+
+export function canViewSavedSearch(search: Pick<SavedSearch, "ownerUid" | "shared">, uid: string) {
+  return search.shared || search.ownerUid === uid;
+}
+
+export function savedSearchesCollection(workspaceId: string) {
+  return adminDb.collection("workspaces").doc(workspaceId).collection("savedSearches");
+}
+
+export async function listSavedSearches(workspaceId: string, uid: string) {
+  const collection = savedSearchesCollection(workspaceId);
+  const [ownedSnapshots, sharedSnapshots] = await Promise.all([
+    collection.where("ownerUid", "==", uid).limit(MAX_SAVED_SEARCHES_PER_USER).get(),
+    collection.where("shared", "==", true).limit(200).get(),
+  ]);
+
+  const searchesById = new Map<string, SavedSearch>();
+  [...ownedSnapshots.docs, ...sharedSnapshots.docs].forEach((snapshot) => {
+    searchesById.set(
+      snapshot.id,
+      parseSavedSearch(snapshot.id, snapshot.data() as Record<string, unknown>, uid),
+    );
+  });
+
+  return Array.from(searchesById.values()).sort(
+    (a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id),
+  );
+}
+
+export async function listPinnedSavedSearches(workspaceId: string, uid: string) {
+  const snapshots = await savedSearchesCollection(workspaceId)
+    .where("pinnedUids", "array-contains", uid)
+    .limit(MAX_SAVED_SEARCHES_PER_USER)
+    .get();
+
+  return snapshots.docs
+    .map((snapshot) =>
+      parseSavedSearch(snapshot.id, snapshot.data() as Record<string, unknown>, uid),
+    )
+    .filter((search) => canViewSavedSearch(search, uid))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
+
+// Counts use the same count as the search page, so a badge matches the total
+// the page shows for that view.
+export async function countSavedSearchResults(
+  workspaceId: string,
+  uid: string,
+  searches: SavedSearch[],
+): Promise<SavedSearchCounts> {
+  if (searches.length === 0) return { counts: {}, cappedIds: [] };
+
+  const now = Date.now();
+  const cacheKey = JSON.stringify([
+    workspaceId,
+    uid,
+    searches.map((search) => [search.id, search.kind, search.query, search.updated, search.team]),
+  ]);
+  const indexRevision = getSearchIndexRevision(workspaceId);
+  const cached = savedSearchCountCache.get(cacheKey);
+  if (cached && cached.expiresAt > now && cached.indexRevision === indexRevision) {
+    return cached.counts;
+  }
+
+  const [members, actionWorkflow] = await Promise.all([
+    loadSearchMembers(workspaceId, uid),
+    loadWorkspaceActionWorkflow(workspaceId),
+  ]);
+  const statusIds = actionWorkflow.states.map((state) => state.id);
+  const counted = await Promise.all(
+    searches.map(async (search) => {
+      const { counts, capped } = await countWorkspaceSearch({
+        workspaceId,
+        members,
+        parsedQuery: parseSearchQuery(search.query, statusIds),
+        updated: search.updated,
+        team: search.team,
+        kinds: search.kind === "all" ? ["decision", "action", "meeting"] : [search.kind],
+      });
+      return {
+        id: search.id,
+        count: counts.decision + counts.action + counts.meeting,
+        capped,
+      };
+    }),
+  );
+
+  const result: SavedSearchCounts = {
+    counts: Object.fromEntries(counted.map((entry) => [entry.id, entry.count])),
+    cappedIds: counted.filter((entry) => entry.capped).map((entry) => entry.id),
+  };
+  savedSearchCountCache.forEach((entry, key) => {
+    if (entry.expiresAt <= now) savedSearchCountCache.delete(key);
+  });
+  savedSearchCountCache.set(cacheKey, {
+    expiresAt: now + SAVED_SEARCH_COUNT_TTL_MS,
+    indexRevision,
+    counts: result,
+  });
+  return result;
+}
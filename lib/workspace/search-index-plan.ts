@@ -0,0 +1,174 @@
+import {
+  extractSearchWords,
+  normalizeSearchTerm,
+  type ParsedSearchQuery,
+  type SearchQueryFilter,
+} from "@/lib/workspace/search-query";
+
+// Shorter terms would match most of the index, so they are left out of both
+// the stored prefixes and queries.
+export const MIN_SEARCH_TERM_LENGTH = 2;
+
+// Keeps a long meeting well under Firestore's per-document index entry limit.
+const MAX_INDEXED_TERMS = 600;
+// Firestore's cap on array-contains-any values.
+const MAX_OWNER_QUERY_KEYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTION_STATUS_CATEGORY_VALUES = new Set(["open", "blocked", "closed"]);
+
+export type SearchIndexOrder = "updatedAt" | "dueAt";
+
+// How a parsed query maps onto Firestore: equality filters, at most one array
+// filter (a term or the owner), and the order to page in. Anything Firestore
+// cannot apply is left to `matchesSearchQueryFilters` after the read, and
+// `hasResidualChecks` says whether there is any.
+export type SearchIndexQueryPlan = {
+  kind: string;
+  teamId: string;
+  archived: boolean;
+  status: { field: "statusKey" | "statusCategory"; value: string } | null;
+  priority: string;
+  primaryTerm: string;
+  otherTerms: string[];
+  ownerKeys: string[];
+  dueStartEpoch: number | null;
+  dueEndEpoch: number | null;
+  updatedAfterEpoch: number | null;
+  orderBy: SearchIndexOrder;
+  hasResidualChecks: boolean;
+  needsTokens: boolean;
+  needsText: boolean;
+};
+
+type PlanSearchIndexQueryInput = {
+  kind: string;
+  teamId: string;
+  updatedAfterEpoch: number | null;
+  memberUidsByHandle: Map<string, Set<string>>;
+};
+
+// Every prefix of at least MIN_SEARCH_TERM_LENGTH is stored so a query term
+// only has to start a word, which keeps "pric" matching "pricing".
+export function buildSearchIndexTokens(parts: string[]) {
+  const terms = Array.from(new Set(parts.flatMap((part) => extractSearchWords(part)))).slice(
+    0,
+    MAX_INDEXED_TERMS,
+  );
+  const tokens = new Set<string>();
+
+  terms.forEach((term) => {
+    tokens.add(term);
+    for (let length = MIN_SEARCH_TERM_LENGTH; length < term.length; length += 1) {
+      tokens.add(term.slice(0, length));
+    }
+  });
+
+  return Array.from(tokens);
+}
+
+// owner:@handle filters match the owner's uid or a whole word of the stored
+// owner name, so both are stored for array-contains-any.
+export function buildSearchIndexOwnerKeys(ownerUid: string, ownerText: string) {
+  return Array.from(new Set([ownerUid, ...extractSearchWords(ownerText)].filter(Boolean)));
+}
+
+export function listSearchQueryTerms(parsed: ParsedSearchQuery) {
+  return Array.from(
+    new Set(
+      [...parsed.terms, ...parsed.phrases.flatMap((phrase) => phrase.split(" "))]
+        .map((term) => normalizeSearchTerm(term))
+        .filter((term) => term.length >= MIN_SEARCH_TERM_LENGTH),
+    ),
+  );
+}
+
+// due: days are UTC, matching how `matchesSearchQueryFilters` compares them.
+function resolveDueRange(filter: SearchQueryFilter) {
+  const dayStart = Date.parse(`${filter.value}T00:00:00.000Z`);
+  const nextDay = dayStart + DAY_MS;
+  if (filter.operator === "<") return { start: null, end: dayStart };
+  if (filter.operator === "<=") return { start: null, end: nextDay };
+  if (filter.operator === ">") return { start: nextDay, end: null };
+  if (filter.operator === ">=") return { start: dayStart, end: null };
+  return { start: dayStart, end: nextDay };
+}
+
+export function planSearchIndexQuery(
+  parsed: ParsedSearchQuery,
+  { kind, teamId, updatedAfterEpoch, memberUidsByHandle }: PlanSearchIndexQueryInput,
+): SearchIndexQueryPlan {
+  // The longest term is the most selective, so it is the one Firestore matches.
+  const [primaryTerm = "", ...otherTerms] = listSearchQueryTerms(parsed).sort(
+    (a, b) => b.length - a.length,
+  );
+  const plan: SearchIndexQueryPlan = {
+    kind,
+    teamId,
+    archived: parsed.filters.some((filter) => filter.field === "is"),
+    status: null,
+    priority: "",
+    primaryTerm,
+    otherTerms,
+    ownerKeys: [],
+    dueStartEpoch: null,
+    dueEndEpoch: null,
+    updatedAfterEpoch,
+    orderBy: "updatedAt",
+    hasResidualChecks:
+      otherTerms.length > 0 ||
+      parsed.phrases.length > 0 ||
+      parsed.excludedTerms.length > 0 ||
+      parsed.mentions.length > 0,
+    needsTokens: otherTerms.length > 0,
+    needsText: parsed.phrases.length > 0 || parsed.excludedTerms.length > 0,
+  };
+  let hasDueRange = false;
+
+  for (const filter of parsed.filters) {
+    if (filter.field === "is") continue;
+
+    // status:open matches a status id or a category. Categories are only ever
+    // open, blocked, or closed, so those values filter on the category.
+    if (filter.field === "status" && !plan.status) {
+      plan.status = ACTION_STATUS_CATEGORY_VALUES.has(filter.value)
+        ? { field: "statusCategory", value: filter.value }
+        : { field: "statusKey", value: filter.value };
+      continue;
+    }
+    if (filter.field === "priority" && !plan.priority) {
+      plan.priority = filter.value;
+      continue;
+    }
+    if (filter.field === "owner" && !primaryTerm && plan.ownerKeys.length === 0) {
+      const keys = [...(memberUidsByHandle.get(filter.value) ?? []), filter.value];
+      if (keys.length <= MAX_OWNER_QUERY_KEYS) {
+        plan.ownerKeys = keys;
+        continue;
+      }
+    }
+    if (filter.field === "due") {
+      const range = resolveDueRange(filter);
+      if (range.start !== null) {
+        plan.dueStartEpoch = Math.max(plan.dueStartEpoch ?? range.start, range.start);
+      }
+      if (range.end !== null) {
+        plan.dueEndEpoch = Math.min(plan.dueEndEpoch ?? range.end, range.end);
+      }
+      hasDueRange = true;
+      continue;
+    }
+    plan.hasResidualChecks = true;
+  }
+
+  // Firestore orders by the field it ranges over, so due: searches are listed
+  // by due date and the updated window is checked after the read.
+  if (hasDueRange) {
+    plan.orderBy = "dueAt";
+    if (updatedAfterEpoch !== null) {
+      plan.updatedAfterEpoch = null;
+      plan.hasResidualChecks = true;
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,917 @@
+import "server-only";
+
+import { FieldPath, Timestamp } from "firebase-admin/firestore";
+import type {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  Query,
+  QuerySnapshot,
+} from "firebase-admin/firestore";
+import { parseDecisionVisibility } from "@/lib/auth/permissions";
+import { adminDb } from "@/lib/firebase/admin";
+import {
+  DEFAULT_ACTION_WORKFLOW,
+  resolveActionState,
+  type ActionWorkflow,
+} from "@/lib/workspace/action-workflow";
+import { loadWorkspaceActionWorkflow } from "@/lib/workspace/action-workflow-store";
+import {
+  buildCustomFieldSearchValues,
+  formatCustomFieldValue,
+  parseCustomFieldValues,
+  type CustomFieldDefinition,
+} from "@/lib/workspace/custom-fields";
+import { listWorkspaceCustomFields } from "@/lib/workspace/custom-fields-store";
+import {
+  buildSearchIndexOwnerKeys,
+  buildSearchIndexTokens,
+  type SearchIndexQueryPlan,
+} from "@/lib/workspace/search-index-plan";
+import { normalizeSearchStatus } from "@/lib/workspace/search-query";
+import { listWorkspaceTeams, loadWorkspaceTeam, resolveRecordTeamId } from "@/lib/workspace/teams";
+
+export type SearchIndexKind = "decision" | "action" | "meeting";
+
+export type SearchIndexAccess = {
+  visibility: string;
+  allowedTeamIds: string[];
+  ownerUid: string;
+  createdBy: string;
+};
+
+export type SearchIndexEntry = {
+  kind: SearchIndexKind;
+  entityId: string;
+  title: string;
+  snippet: string;
+  ownerLabel: string;
+  statusLabel: string;
+  tags: string[];
+  status: string;
+  statusCategory: string;
+  ownerUid: string;
+  ownerText: string;
+  priority: string;
+  dueAtEpoch: number;
+  meetingId: string;
+  teamId: string;
+  archived: boolean;
+  updatedAtEpoch: number;
+  peopleUids: string[];
+  peopleText: string;
+  access: SearchIndexAccess | null;
+  customFields: Record<string, string[]>;
+  searchText: string;
+  tokens: string[];
+};
+
+export type SearchIndexPage = {
+  entries: SearchIndexEntry[];
+  nextCursor: string;
+};
+
+export type SearchIndexCounts = {
+  counts: Record<SearchIndexKind, number>;
+  // Set when counting stopped at the scan budget, so counts are lower bounds.
+  capped: boolean;
+};
+
+type LoadSearchIndexPageInput = {
+  cursor: string;
+  pageSize: number;
+  // Checks Firestore could not apply: the plan's residual checks and decision
+  // visibility. Pages are filled with accepted entries only.
+  accept: (entry: SearchIndexEntry) => boolean;
+};
+
+type CountSearchIndexEntriesInput = {
+  kinds: SearchIndexKind[];
+  accept: (entry: SearchIndexEntry) => boolean;
+  // Managers see every decision; other viewers only need restricted ones read.
+  seesAllDecisions: boolean;
+};
+
+type ScanPosition = {
+  sortEpoch: number | null;
+  id: string;
+};
+
+type SearchIndexSource = {
+  kind: SearchIndexKind;
+  entityId: string;
+  data: Record<string, unknown>;
+  teamName: string;
+  customFields: CustomFieldDefinition[];
+  actionWorkflow: ActionWorkflow;
+};
+
+const SEARCH_INDEX_COLLECTION = "searchIndex";
+const MAX_SEARCH_TEXT_LENGTH = 20000;
+const REINDEX_BATCH_SIZE = 200;
+// A page reads at most this many batches looking for accepted entries and
+// hands back a cursor where it stopped, so filters that only apply after the
+// read cannot stall it.
+const SCAN_BATCH_SIZE = 100;
+const MAX_SCAN_BATCHES = 5;
+// Counts that need entries read stop after this many batches and report
+// themselves as capped.
+const MAX_COUNT_SCAN_BATCHES = 10;
+
+const KIND_COLLECTIONS: Record<SearchIndexKind, string> = {
+  decision: "decisions",
+  action: "actions",
+  meeting: "meetings",
+};
+
+// Listing reads skip the (potentially large) token array and full text.
+const LISTING_FIELDS = [
+  "kind",
+  "entityId",
+  "title",
+  "snippet",
+  "ownerLabel",
+  "statusLabel",
+  "tags",
+  "status",
+  "statusCategory",
+  "ownerUid",
+  "ownerText",
+  "priority",
+  "dueAt",
+  "meetingId",
+  "teamId",
+  "archived",
+  "updatedAt",
+  "peopleUids",
+  "peopleText",
+  "access",
+  "customFields",
+];
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseStringArray(value: unknown) {
+  if (!Array.isArray(value)) return [] as string[];
+  return value.map((entry) => normalizeText(entry)).filter(Boolean);
+}
+
+function parseObjectTextArray(value: unknown, key: string) {
+  if (!Array.isArray(value)) return [] as string[];
+  return value
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return "";
+      return normalizeText((entry as Record<string, unknown>)[key]);
+    })
+    .filter(Boolean);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+function titleCase(value: string) {
+  if (!value) return "";
+  return value[0].toUpperCase() + value.slice(1);
+}
+
+function clipSnippet(value: string, max = 180) {
+  const normalized = normalizeText(value);
+  if (normalized.length <= max) return normalized;
+  return `${normalized.slice(0, max - 3)}...`;
+}
+
+function parseMeetingState(value: unknown) {
+  const state = normalizeText(value);
+  if (state === "inProgress" || state === "completed") return state;
+  return "scheduled";
+}
+
+function meetingStateLabel(state: string) {
+  if (state === "inProgress") return "In Progress";
+  return titleCase(state);
+}
+
+function buildPeopleText(parts: Array<string | undefined>) {
+  return parts
+    .map((part) => normalizeText(part))
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+// Kept alongside the tokens so quoted phrases and multi-word exclusions can be
+// checked against the original word order.
+function buildSearchText(parts: string[]) {
+  return parts
+    .map((part) => normalizeText(part))
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_SEARCH_TEXT_LENGTH);
+}
+
+// Member values are uids, which field:key=@handle filters resolve instead, so
+// only the other types feed free-text search.
+function buildCustomFieldText(fields: CustomFieldDefinition[], data: Record<string, unknown>) {
+  const values = parseCustomFieldValues(data.customFields);
+  return fields
+    .filter((field) => field.type !== "member")
+    .map((field) => formatCustomFieldValue(field, values[field.id], new Map()))
+    .join(" ");
+}
+
+function buildDecisionEntry({ entityId, data, teamName, customFields }: SearchIndexSource) {
+  const title = normalizeText(data.title) || `Decision ${entityId}`;
+  const statement = normalizeText(data.statement);
+  const rationale = normalizeText(data.rationale);
+  const owner = normalizeText(data.owner) || normalizeText(data.ownerUid) || "Unassigned";
+  const ownerUid = normalizeText(data.ownerUid);
+  const mentionUids = parseStringArray(data.mentionUids);
+  const status = normalizeText(data.status) || "proposed";
+  const tags = parseStringArray(data.tags);
+
+  return {
+    title,
+    snippet: clipSnippet(statement || rationale || "No decision summary yet."),
+    ownerLabel: `Owner ${owner}`,
+    statusLabel: titleCase(status),
+    tags,
+    status,
+    statusCategory: "",
+    ownerUid,
+    ownerText: buildPeopleText([owner, ownerUid]),
+    priority: "",
+    dueAt: null,
+    meetingId: normalizeText(data.meetingId),
+    peopleUids: [ownerUid, ...mentionUids].filter(Boolean),
+    peopleText: buildPeopleText([owner, ownerUid, mentionUids.join(" ")]),
+    access: {
+      visibility: parseDecisionVisibility(data.visibility),
+      allowedTeamIds: parseStringArray(data.allowedTeamIds),
+      ownerUid,
+      createdBy: normalizeText(data.createdBy),
+    },
+    customFields: buildCustomFieldSearchValues(
+      customFields,
+      parseCustomFieldValues(data.customFields),
+    ),
+    textParts: [
+      entityId,
+      title,
+      statement,
+      rationale,
+      owner,
+      status,
+      tags.join(" "),
+      teamName,
+      normalizeText(data.meetingId),
+      buildCustomFieldText(customFields, data),
+    ],
+  };
+}
+
+function buildActionEntry({
+  entityId,
+  data,
+  teamName,
+  customFields,
+  actionWorkflow,
+}: SearchIndexSource) {
+  const title =
+    normalizeText(data.title) || normalizeText(data.description) || `Action ${entityId}`;
+  const description =
+    normalizeText(data.description) ||
+    normalizeText(data.notes) ||
+    normalizeText(data.blockedReason);
+  const owner = normalizeText(data.owner) || normalizeText(data.ownerUid) || "Unassigned";
+  const ownerUid = normalizeText(data.ownerUid);
+  const mentionUids = parseStringArray(data.mentionUids);
+  const status = resolveActionState(actionWorkflow, data.status);
+  const project =
+    normalizeText(data.project) || normalizeText(data.teamLabel) || normalizeText(data.team);
+  const dueLabel = normalizeText(data.dueLabel);
+  const priority = normalizeText(data.priority);
+
+  return {
+    title,
+    snippet: clipSnippet(description || `Owner ${owner}${dueLabel ? ` • Due ${dueLabel}` : ""}`),
+    ownerLabel: `Owner ${owner}`,
+    statusLabel: status.label,
+    tags: [project, teamName, priority ? `priority:${priority}` : ""].filter(Boolean),
+    status: status.id,
+    statusCategory: status.category,
+    ownerUid,
+    ownerText: buildPeopleText([owner, ownerUid]),
+    priority,
+    dueAt: parseDate(data.dueAt),
+    meetingId: normalizeText(data.meetingId),
+    peopleUids: [ownerUid, ...mentionUids].filter(Boolean),
+    peopleText: buildPeopleText([owner, ownerUid, mentionUids.join(" ")]),
+    access: null,
+    customFields: buildCustomFieldSearchValues(
+      customFields,
+      parseCustomFieldValues(data.customFields),
+    ),
+    textParts: [
+      entityId,
+      title,
+      description,
+      normalizeText(data.notes),
+      normalizeText(data.blockedReason),
+      owner,
+      status.label,
+      project,
+      teamName,
+      dueLabel,
+      priority,
+      normalizeText(data.meetingId),
+      normalizeText(data.decisionId),
+      buildCustomFieldText(customFields, data),
+    ],
+  };
+}
+
+function buildMeetingEntry({ entityId, data, teamName }: SearchIndexSource) {
+  const title = normalizeText(data.title) || `Meeting ${entityId}`;
+  const objective = normalizeText(data.objective);
+  const owner = normalizeText(data.owner) || "Workspace User";
+  const team = teamName || normalizeText(data.team) || "Workspace";
+  const location = normalizeText(data.location);
+  const state = parseMeetingState(data.state);
+  const digest = normalizeText(data.digest) === "sent" ? "sent" : "pending";
+  const ownerUid = normalizeText(data.ownerUid) || normalizeText(data.createdBy);
+  const attendeeNames = parseObjectTextArray(data.attendees, "name");
+  const attendeeEmails = parseObjectTextArray(data.attendees, "email");
+  const attendeeUids = parseObjectTextArray(data.attendees, "uid");
+
+  return {
+    title,
+    snippet: clipSnippet(objective || `Team ${team}${location ? ` • ${location}` : ""}`),
+    ownerLabel: `Owner ${owner}`,
+    statusLabel: `${meetingStateLabel(state)} • ${digest === "sent" ? "Digest Sent" : "Digest Pending"}`,
+    tags: [team, state === "inProgress" ? "in-progress" : state, `digest-${digest}`],
+    status: state,
+    statusCategory: "",
+    ownerUid,
+    ownerText: buildPeopleText([owner, ownerUid]),
+    priority: "",
+    dueAt: null,
+    meetingId: entityId,
+    peopleUids: [ownerUid, ...attendeeUids].filter(Boolean),
+    peopleText: buildPeopleText([
+      owner,
+      ownerUid,
+      attendeeNames.join(" "),
+      attendeeEmails.join(" "),
+      attendeeUids.join(" "),
+    ]),
+    access: null,
+    customFields: {},
+    textParts: [
+      entityId,
+      title,
+      objective,
+      owner,
+      team,
+      location,
+      normalizeText(data.timeLabel),
+      state,
+      digest,
+      attendeeNames.join(" "),
+      parseObjectTextArray(data.agenda, "title").join(" "),
+      parseObjectTextArray(data.notes, "heading").join(" "),
+      parseObjectTextArray(data.notes, "content").join(" "),
+      parseObjectTextArray(data.openQuestions, "question").join(" "),
+      parseObjectTextArray(data.decisions, "title").join(" "),
+      parseObjectTextArray(data.actions, "title").join(" "),
+    ],
+  };
+}
+
+function buildSearchIndexDocument(source: SearchIndexSource, now: Timestamp) {
+  const built =
+    source.kind === "decision"
+      ? buildDecisionEntry(source)
+      : source.kind === "action"
+        ? buildActionEntry(source)
+        : buildMeetingEntry(source);
+  const updatedAt =
+    parseDate(source.data.updatedAt) ??
+    parseDate(source.data.completedAt) ??
+    parseDate(source.data.createdAt);
+  const { textParts, dueAt, ...fields } = built;
+
+  return {
+    ...fields,
+    // Queried directly by status:, owner:, and decision visibility counts.
+    statusKey: normalizeSearchStatus(fields.status),
+    ownerKeys: buildSearchIndexOwnerKeys(fields.ownerUid, fields.ownerText),
+    visibility: fields.access?.visibility ?? "workspace",
+    dueAt: dueAt ? Timestamp.fromDate(dueAt) : null,
+    kind: source.kind,
+    entityId: source.entityId,
+    teamId: resolveRecordTeamId(source.data),
+    archived: source.data.archived === true,
+    updatedAt: updatedAt ? Timestamp.fromDate(updatedAt) : null,
+    searchText: buildSearchText(textParts),
+    tokens: buildSearchIndexTokens(textParts),
+    indexedAt: now,
+  };
+}
+
+// Bumped after every index write so caches in this server process can tell
+// their results are stale; other processes fall back to their cache TTL.
+const searchIndexRevisionByWorkspace = new Map<string, number>();
+
+function markSearchIndexChanged(workspaceId: string) {
+  searchIndexRevisionByWorkspace.set(workspaceId, getSearchIndexRevision(workspaceId) + 1);
+}
+
+export function getSearchIndexRevision(workspaceId: string) {
+  return searchIndexRevisionByWorkspace.get(workspaceId) ?? 0;
+}
+
+function searchIndexCollection(workspaceId: string) {
+  return adminDb.collection("workspaces").doc(workspaceId).collection(SEARCH_INDEX_COLLECTION);
+}
+
+function searchIndexRef(workspaceId: string, kind: SearchIndexKind, entityId: string) {
+  return searchIndexCollection(workspaceId).doc(`${kind}_${entityId}`);
+}
+
+type SyncSearchIndexEntryInput = {
+  entity: SearchIndexKind;
+  entityRef: DocumentReference;
+};
+
+// Re-reads the record so every write path indexes the stored state rather than
+// its own view of the payload.
+export async function syncSearchIndexEntry({ entity, entityRef }: SyncSearchIndexEntryInput) {
+  const workspaceId = entityRef.parent.parent?.id ?? "";
+  if (!workspaceId) return;
+
+  const kind = entity;
+  const entityId = entityRef.id;
+  const recordSnapshot = await entityRef.get();
+  const indexRef = searchIndexRef(workspaceId, kind, entityId);
+
+  if (!recordSnapshot.exists) {
+    await indexRef.delete();
+    markSearchIndexChanged(workspaceId);
+    return;
+  }
+
+  const data = recordSnapshot.data() as Record<string, unknown>;
+  const teamId = resolveRecordTeamId(data);
+  const [team, customFields, actionWorkflow] = await Promise.all([
+    teamId ? loadWorkspaceTeam(workspaceId, teamId) : null,
+    kind === "meeting" ? [] : listIndexedCustomFields(workspaceId),
+    kind === "action" ? loadWorkspaceActionWorkflow(workspaceId) : DEFAULT_ACTION_WORKFLOW,
+  ]);
+
+  await indexRef.set(
+    buildSearchIndexDocument(
+      { kind, entityId, data, teamName: team?.name ?? "", customFields, actionWorkflow },
+      Timestamp.now(),
+    ),
+  );
+  markSearchIndexChanged(workspaceId);
+}
+
+async function writeSearchIndexEntries(
+  workspaceId: string,
+  sources: Array<{ kind: SearchIndexKind; snapshot: DocumentSnapshot }>,
+  teamNameById: Map<string, string>,
+  customFields: CustomFieldDefinition[],
+  actionWorkflow: ActionWorkflow,
+) {
+  const now = Timestamp.now();
+  const batch = adminDb.batch();
+
+  sources.forEach(({ kind, snapshot }) => {
+    const indexRef = searchIndexRef(workspaceId, kind, snapshot.id);
+    if (!snapshot.exists) {
+      batch.delete(indexRef);
+      return;
+    }
+
+    const data = snapshot.data() as Record<string, unknown>;
+    batch.set(
+      indexRef,
+      buildSearchIndexDocument(
+        {
+          kind,
+          entityId: snapshot.id,
+          data,
+          teamName: teamNameById.get(resolveRecordTeamId(data)) ?? "",
+          customFields,
+          actionWorkflow,
+        },
+        now,
+      ),
+    );
+  });
+
+  await batch.commit();
+  markSearchIndexChanged(workspaceId);
+}
+
+// Archived fields are hidden from lists and filters, so their values are left
+// out of the index until the field is restored.
+async function listIndexedCustomFields(workspaceId: string) {
+  const fields = await listWorkspaceCustomFields(workspaceId);
+  return fields.filter((field) => !field.archived);
+}
+
+export async function rebuildWorkspaceSearchIndex(workspaceId: string) {
+  const workspaceRef = adminDb.collection("workspaces").doc(workspaceId);
+  const [teams, customFields, actionWorkflow] = await Promise.all([
+    listWorkspaceTeams(workspaceId),
+    listIndexedCustomFields(workspaceId),
+    loadWorkspaceActionWorkflow(workspaceId),
+  ]);
+  const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
+  const counts: Record<SearchIndexKind, number> = { decision: 0, action: 0, meeting: 0 };
+
+  for (const kind of Object.keys(KIND_COLLECTIONS) as SearchIndexKind[]) {
+    const collectionRef = workspaceRef.collection(KIND_COLLECTIONS[kind]);
+    let lastId = "";
+
+    while (true) {
+      let query: Query<DocumentData> = collectionRef
+        .orderBy(FieldPath.documentId())
+        .limit(REINDEX_BATCH_SIZE);
+      if (lastId) query = query.startAfter(lastId);
+      const page = await query.get();
+      if (page.empty) break;
+
+      await writeSearchIndexEntries(
+        workspaceId,
+        page.docs.map((snapshot) => ({ kind, snapshot })),
+        teamNameById,
+        customFields,
+        actionWorkflow,
+      );
+
+      counts[kind] += page.size;
+      lastId = page.docs[page.docs.length - 1].id;
+      if (page.size < REINDEX_BATCH_SIZE) break;
+    }
+  }
+
+  return counts;
+}
+
+// Team names are indexed with each record, so a rename re-indexes every record
+// assigned to that team.
+export async function reindexTeamSearchEntries(workspaceId: string, teamId: string) {
+  const workspaceRef = adminDb.collection("workspaces").doc(workspaceId);
+  const [teams, customFields, actionWorkflow] = await Promise.all([
+    listWorkspaceTeams(workspaceId),
+    listIndexedCustomFields(workspaceId),
+    loadWorkspaceActionWorkflow(workspaceId),
+  ]);
+  const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
+  const entrySnapshots = await workspaceRef
+    .collection(SEARCH_INDEX_COLLECTION)
+    .where("teamId", "==", teamId)
+    .select("kind", "entityId")
+    .get();
+  const records = entrySnapshots.docs
+    .map((snapshot) => {
+      const data = snapshot.data() as Record<string, unknown>;
+      const kind = parseSearchIndexKind(data.kind);
+      const entityId = normalizeText(data.entityId);
+      return kind && entityId ? { kind, entityId } : null;
+    })
+    .filter((record): record is { kind: SearchIndexKind; entityId: string } => record !== null);
+
+  for (let start = 0; start < records.length; start += REINDEX_BATCH_SIZE) {
+    const chunk = records.slice(start, start + REINDEX_BATCH_SIZE);
+    const snapshots = await adminDb.getAll(
+      ...chunk.map((record) =>
+        workspaceRef.collection(KIND_COLLECTIONS[record.kind]).doc(record.entityId),
+      ),
+    );
+    await writeSearchIndexEntries(
+      workspaceId,
+      snapshots.map((snapshot, index) => ({ kind: chunk[index].kind, snapshot })),
+      teamNameById,
+      customFields,
+      actionWorkflow,
+    );
+  }
+
+  return records.length;
+}
+
+// Archiving, restoring, or deleting a field changes which values are indexed,
+// and a later field may reuse a deleted field's key, so every decision and
+// action holding a value for the field is re-indexed.
+export async function reindexCustomFieldSearchEntries(workspaceId: string, fieldId: string) {
+  const workspaceRef = adminDb.collection("workspaces").doc(workspaceId);
+  const [teams, customFields, actionWorkflow] = await Promise.all([
+    listWorkspaceTeams(workspaceId),
+    listIndexedCustomFields(workspaceId),
+    loadWorkspaceActionWorkflow(workspaceId),
+  ]);
+  const teamNameById = new Map(teams.map((team) => [team.id, team.name]));
+  let reindexed = 0;
+
+  for (const kind of ["decision", "action"] as const) {
+    const query = workspaceRef
+      .collection(KIND_COLLECTIONS[kind])
+      .orderBy(new FieldPath("customFields", fieldId))
+      .limit(REINDEX_BATCH_SIZE);
+    let lastSnapshot: DocumentSnapshot | null = null;
+
+    while (true) {
+      const page: QuerySnapshot = await (lastSnapshot
+        ? query.startAfter(lastSnapshot)
+        : query
+      ).get();
+      if (page.empty) break;
+
+      await writeSearchIndexEntries(
+        workspaceId,
+        page.docs.map((snapshot) => ({ kind, snapshot })),
+        teamNameById,
+        customFields,
+        actionWorkflow,
+      );
+
+      reindexed += page.size;
+      lastSnapshot = page.docs[page.docs.length - 1];
+      if (page.size < REINDEX_BATCH_SIZE) break;
+    }
+  }
+
+  return reindexed;
+}
+
+function parseSearchIndexKind(value: unknown): SearchIndexKind | null {
+  return value === "decision" || value === "action" || value === "meeting" ? value : null;
+}
+
+function parseCustomFieldSearchValues(value: unknown) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, entries]) => [
+      key,
+      parseStringArray(entries),
+    ]),
+  );
+}
+
+function toSearchIndexEntry(data: Record<string, unknown>): SearchIndexEntry | null {
+  const kind = parseSearchIndexKind(data.kind);
+  const entityId = normalizeText(data.entityId);
+  if (!kind || !entityId) return null;
+
+  const access =
+    data.access && typeof data.access === "object"
+      ? (data.access as Record<string, unknown>)
+      : null;
+
+  return {
+    kind,
+    entityId,
+    title: normalizeText(data.title) || entityId,
+    snippet: normalizeText(data.snippet),
+    ownerLabel: normalizeText(data.ownerLabel),
+    statusLabel: normalizeText(data.statusLabel),
+    tags: parseStringArray(data.tags),
+    status: normalizeText(data.status),
+    statusCategory: normalizeText(data.statusCategory),
+    ownerUid: normalizeText(data.ownerUid),
+    ownerText: normalizeText(data.ownerText),
+    priority: normalizeText(data.priority),
+    dueAtEpoch: parseDate(data.dueAt)?.getTime() ?? 0,
+    meetingId: normalizeText(data.meetingId),
+    teamId: normalizeText(data.teamId),
+    archived: data.archived === true,
+    updatedAtEpoch: parseDate(data.updatedAt)?.getTime() ?? 0,
+    peopleUids: parseStringArray(data.peopleUids),
+    peopleText: normalizeText(data.peopleText),
+    access: access
+      ? {
+          visibility: normalizeText(access.visibility),
+          allowedTeamIds: parseStringArray(access.allowedTeamIds),
+          ownerUid: normalizeText(access.ownerUid),
+          createdBy: normalizeText(access.createdBy),
+        }
+      : null,
+    customFields: parseCustomFieldSearchValues(data.customFields),
+    searchText: normalizeText(data.searchText),
+    tokens: parseStringArray(data.tokens),
+  };
+}
+
+// Filters are equalities apart from the range on the order field, so Firestore
+// merges the (field, order) indexes for any combination. At most one array
+// filter is used: the longest term, or the owner when there is no term.
+function buildPlanQuery(workspaceId: string, plan: SearchIndexQueryPlan, kind: string) {
+  let query: Query = searchIndexCollection(workspaceId).where("archived", "==", plan.archived);
+  if (kind) query = query.where("kind", "==", kind);
+  if (plan.teamId) query = query.where("teamId", "==", plan.teamId);
+  if (plan.status) query = query.where(plan.status.field, "==", plan.status.value);
+  if (plan.priority) query = query.where("priority", "==", plan.priority);
+  if (plan.primaryTerm) {
+    query = query.where("tokens", "array-contains", plan.primaryTerm);
+  } else if (plan.ownerKeys.length > 0) {
+    query = query.where("ownerKeys", "array-contains-any", plan.ownerKeys);
+  }
+
+  if (plan.orderBy === "dueAt") {
+    if (plan.dueStartEpoch !== null) {
+      query = query.where("dueAt", ">=", Timestamp.fromMillis(plan.dueStartEpoch));
+    }
+    if (plan.dueEndEpoch !== null) {
+      query = query.where("dueAt", "<", Timestamp.fromMillis(plan.dueEndEpoch));
+    }
+  } else if (plan.updatedAfterEpoch !== null) {
+    query = query.where("updatedAt", ">=", Timestamp.fromMillis(plan.updatedAfterEpoch));
+  }
+
+  return query;
+}
+
+function orderPlanQuery(query: Query, plan: SearchIndexQueryPlan) {
+  const direction = plan.orderBy === "dueAt" ? "asc" : "desc";
+  return query
+    .orderBy(plan.orderBy, direction)
+    .orderBy(FieldPath.documentId(), direction)
+    .select(
+      ...LISTING_FIELDS,
+      ...(plan.needsTokens ? ["tokens"] : []),
+      ...(plan.needsText ? ["searchText"] : []),
+    );
+}
+
+function readScanPosition(snapshot: DocumentSnapshot, plan: SearchIndexQueryPlan): ScanPosition {
+  return { sortEpoch: parseDate(snapshot.get(plan.orderBy))?.getTime() ?? null, id: snapshot.id };
+}
+
+function startAfterPosition(query: Query, position: ScanPosition) {
+  return query.startAfter(
+    position.sortEpoch === null ? null : Timestamp.fromMillis(position.sortEpoch),
+    position.id,
+  );
+}
+
+function encodeCursor(position: ScanPosition, plan: SearchIndexQueryPlan) {
+  return Buffer.from(
+    JSON.stringify({ v: 1, o: plan.orderBy, s: position.sortEpoch, id: position.id }),
+  ).toString("base64url");
+}
+
+function decodeCursor(cursor: string, plan: SearchIndexQueryPlan): ScanPosition | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as {
+      v?: unknown;
+      o?: unknown;
+      s?: unknown;
+      id?: unknown;
+    };
+    const id = normalizeText(parsed.id);
+    if (parsed.v !== 1 || parsed.o !== plan.orderBy || !id) return null;
+    return { sortEpoch: typeof parsed.s === "number" ? parsed.s : null, id };
+  } catch {
+    return null;
+  }
+}
+
+// Lists the plan's entries from the cursor (newest first, or by due date for
+// due: searches) until `pageSize` are accepted.
+export async function loadSearchIndexPage(
+  workspaceId: string,
+  plan: SearchIndexQueryPlan,
+  { cursor, pageSize, accept }: LoadSearchIndexPageInput,
+): Promise<SearchIndexPage> {
+  const baseQuery = orderPlanQuery(buildPlanQuery(workspaceId, plan, plan.kind), plan);
+  const entries: SearchIndexEntry[] = [];
+  let position = decodeCursor(cursor, plan);
+
+  for (let batchIndex = 0; batchIndex < MAX_SCAN_BATCHES; batchIndex += 1) {
+    const batch = await (position ? startAfterPosition(baseQuery, position) : baseQuery)
+      .limit(SCAN_BATCH_SIZE)
+      .get();
+    if (batch.empty) return { entries, nextCursor: "" };
+
+    for (const snapshot of batch.docs) {
+      const entry = toSearchIndexEntry(snapshot.data() as Record<string, unknown>);
+      if (!entry || !accept(entry)) continue;
+
+      entries.push(entry);
+      if (entries.length === pageSize) {
+        return { entries, nextCursor: encodeCursor(readScanPosition(snapshot, plan), plan) };
+      }
+    }
+
+    position = readScanPosition(batch.docs[batch.docs.length - 1], plan);
+    if (batch.size < SCAN_BATCH_SIZE) return { entries, nextCursor: "" };
+  }
+
+  return { entries, nextCursor: position ? encodeCursor(position, plan) : "" };
+}
+
+// Reads entries to count the accepted ones, sharing one batch budget across
+// calls. Returns false once the budget runs out before the query does.
+async function countByScan(
+  query: Query,
+  plan: SearchIndexQueryPlan,
+  accept: (entry: SearchIndexEntry) => boolean,
+  counts: Record<SearchIndexKind, number>,
+  budget: { batches: number },
+) {
+  const orderedQuery = orderPlanQuery(query, plan);
+  let position: ScanPosition | null = null;
+
+  while (budget.batches > 0) {
+    budget.batches -= 1;
+    const batch: QuerySnapshot = await (position
+      ? startAfterPosition(orderedQuery, position)
+      : orderedQuery
+    )
+      .limit(SCAN_BATCH_SIZE)
+      .get();
+
+    batch.docs.forEach((snapshot) => {
+      const entry = toSearchIndexEntry(snapshot.data() as Record<string, unknown>);
+      if (entry && accept(entry)) counts[entry.kind] += 1;
+    });
+    if (batch.size < SCAN_BATCH_SIZE) return true;
+    position = readScanPosition(batch.docs[batch.docs.length - 1], plan);
+  }
+
+  return false;
+}
+
+// When Firestore applies every filter, counts are aggregation queries, and
+// only decisions with team or private visibility are read to check the
+// viewer's access. Otherwise matching entries are read up to the scan budget.
+export async function countSearchIndexEntries(
+  workspaceId: string,
+  plan: SearchIndexQueryPlan,
+  { kinds, accept, seesAllDecisions }: CountSearchIndexEntriesInput,
+): Promise<SearchIndexCounts> {
+  const counts: Record<SearchIndexKind, number> = { decision: 0, action: 0, meeting: 0 };
+  const budget = { batches: MAX_COUNT_SCAN_BATCHES };
+
+  if (plan.hasResidualChecks) {
+    const kindSet = new Set<SearchIndexKind>(kinds);
+    const exhausted = await countByScan(
+      buildPlanQuery(workspaceId, plan, kinds.length === 1 ? kinds[0] : ""),
+      plan,
+      (entry) => kindSet.has(entry.kind) && accept(entry),
+      counts,
+      budget,
+    );
+    return { counts, capped: !exhausted };
+  }
+
+  let capped = false;
+  for (const kind of kinds) {
+    const query = buildPlanQuery(workspaceId, plan, kind);
+    if (kind !== "decision" || seesAllDecisions) {
+      counts[kind] = (await query.count().get()).data().count;
+      continue;
+    }
+
+    counts.decision = (
+      await query.where("visibility", "==", "workspace").count().get()
+    ).data().count;
+    for (const visibility of ["team", "private"]) {
+      const exhausted = await countByScan(
+        query.where("visibility", "==", visibility),
+        plan,
+        accept,
+        counts,
+        budget,
+      );
+      if (!exhausted) capped = true;
+    }
+  }
+
+  return { counts, capped };
+}
@@ -0,0 +1,65 @@
+export type SearchKind = "decision" | "action" | "meeting";
+export type SearchScope = "all" | SearchKind;
+export type UpdatedWindow = "all" | "7d" | "30d";
+export type SearchSortMode = "relevance" | "recent";
+
+export type SearchView = {
+  query: string;
+  kind: SearchScope;
+  updated: UpdatedWindow;
+  sort: SearchSortMode;
+  team: string;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function firstValue(value: unknown) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function parseSearchScope(value: unknown): SearchScope {
+  const normalized = normalizeText(firstValue(value)).toLowerCase();
+  if (normalized === "decision" || normalized === "action" || normalized === "meeting") {
+    return normalized;
+  }
+  return "all";
+}
+
+export function parseUpdatedWindow(value: unknown): UpdatedWindow {
+  const normalized = normalizeText(firstValue(value)).toLowerCase();
+  if (normalized === "7d" || normalized === "30d") return normalized;
+  return "all";
+}
+
+export function parseSearchSortMode(value: unknown): SearchSortMode {
+  const normalized = normalizeText(firstValue(value)).toLowerCase();
+  if (normalized === "recent") return "recent";
+  return "relevance";
+}
+
+export function searchHref({
+  workspaceSlug,
+  query,
+  kind,
+  updated,
+  sort,
+  team,
+  after = "",
+}: SearchView & {
+  workspaceSlug: string;
+  after?: string;
+}) {
+  const params = new URLSearchParams();
+  if (query) params.set("q", query);
+  if (kind !== "all") params.set("kind", kind);
+  if (updated !== "all") params.set("updated", updated);
+  if (sort !== "relevance") params.set("sort", sort);
+  if (team) params.set("team", team);
+  if (after) params.set("after", after);
+  const serialized = params.toString();
+  return serialized
+    ? `/${workspaceSlug}/search?${serialized}`
+    : `/${workspaceSlug}/search`;
+}
@@ -0,0 +1,492 @@
+export type SearchFilterField =
+  | "status"
+  | "owner"
+  | "priority"
+  | "tag"
+  | "due"
+  | "is"
+  | "meeting"
+  | "field";
+
+export type SearchDueOperator = "<" | "<=" | ">" | ">=" | "=";
+
+export type SearchQueryFilter = {
+  field: SearchFilterField;
+  value: string;
+  operator: SearchDueOperator;
+  raw: string;
+  // Custom field key for field: filters.
+  key?: string;
+};
+
+export type SearchQueryPartKind = "term" | "phrase" | "exclude" | "mention" | "filter" | "invalid";
+
+export type SearchQueryPart = {
+  kind: SearchQueryPartKind;
+  raw: string;
+  label: string;
+  error: string;
+};
+
+export type ParsedSearchQuery = {
+  parts: SearchQueryPart[];
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  mentions: string[];
+  filters: SearchQueryFilter[];
+  errors: Array<{ raw: string; message: string }>;
+};
+
+export type SearchQueryRecord = {
+  status: string;
+  // Action workflow category (open, blocked, closed); empty for other kinds.
+  statusCategory: string;
+  ownerUid: string;
+  ownerText: string;
+  priority: string;
+  tags: string[];
+  dueAtEpoch: number;
+  archived: boolean;
+  meetingId: string;
+  customFields: Record<string, string[]>;
+  peopleUids: string[];
+  peopleText: string;
+  searchText: string;
+  tokens: string[];
+};
+
+export type SearchMemberHandleSource = {
+  uid: string;
+  displayName: string;
+  email: string;
+  mentionToken: string;
+};
+
+export const SEARCH_FILTER_FIELDS: SearchFilterField[] = [
+  "status",
+  "owner",
+  "priority",
+  "tag",
+  "due",
+  "is",
+  "meeting",
+  "field",
+];
+
+const MAX_SEARCH_TERM_LENGTH = 16;
+
+const SEARCH_FILTER_FIELD_SET = new Set<string>(SEARCH_FILTER_FIELDS);
+
+const SEARCH_STATUS_VALUES = new Set([
+  "proposed",
+  "accepted",
+  "superseded",
+  "rejected",
+  "open",
+  "blocked",
+  "closed",
+  "done",
+  "scheduled",
+  "inprogress",
+  "completed",
+]);
+
+const SEARCH_PRIORITY_VALUES = new Set(["high", "medium", "low"]);
+
+const SEARCH_IS_VALUES = new Set(["archived"]);
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+// Search terms are lowercased words with surrounding punctuation removed, so
+// "D-12," and "d-12" match the same index entries.
+export function normalizeSearchTerm(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, "")
+    .slice(0, MAX_SEARCH_TERM_LENGTH);
+}
+
+export function normalizeSearchMention(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/^@+/, "")
+    .replace(/[^a-z0-9._-]+/g, "")
+    .trim();
+}
+
+// The whole words in a piece of text, as stored in the search index: each
+// normalized word, the parts of words joined by punctuation ("d-12" also gives
+// "d" and "12"), and the local part of email addresses.
+export function extractSearchWords(text: string) {
+  const words = new Set<string>();
+
+  normalizeText(text)
+    .split(/\s+/)
+    .forEach((rawWord) => {
+      const word = normalizeSearchTerm(rawWord);
+      if (!word) return;
+      words.add(word);
+
+      const [localPart] = word.split("@");
+      if (word.includes("@") && localPart) words.add(localPart);
+      word.split(/[^a-z0-9]+/).forEach((part) => {
+        if (part) words.add(part);
+      });
+    });
+
+  return Array.from(words);
+}
+
+// Handles a member answers to in owner:@handle and @handle searches. Names
+// match on whole words, so @sam finds "Sam Lee" but not "Rosamund".
+export function buildMemberHandleKeys(member: SearchMemberHandleSource) {
+  const nameWords = member.displayName
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const emailLocalPart = member.email.split("@")[0] ?? "";
+
+  return new Set(
+    [
+      member.mentionToken,
+      normalizeSearchMention(member.uid),
+      normalizeSearchMention(member.email),
+      normalizeSearchMention(emailLocalPart),
+      nameWords.join("-"),
+      nameWords.join(""),
+      ...nameWords,
+    ].filter(Boolean),
+  );
+}
+
+function normalizePhrase(value: string) {
+  return value.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Splits on whitespace but keeps quoted text together, including a quoted
+// filter value such as tag:"launch plan". An unclosed quote runs to the end.
+function splitQueryTokens(query: string) {
+  const tokens: string[] = [];
+  let current = "";
+  let inQuote = false;
+
+  for (const character of query) {
+    if (character === '"') {
+      inQuote = !inQuote;
+      current += character;
+      continue;
+    }
+
+    if (!inQuote && /\s/.test(character)) {
+      if (current) tokens.push(current);
+      current = "";
+      continue;
+    }
+
+    current += character;
+  }
+
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function unquote(value: string) {
+  return value.replace(/^"/, "").replace(/"$/, "");
+}
+
+function parseIsoDay(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) {
+    return null;
+  }
+  return parsed;
+}
+
+export function normalizeSearchStatus(value: string) {
+  return value.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+function parseFilter(
+  field: SearchFilterField,
+  rawValue: string,
+  raw: string,
+  statusValues: Set<string>,
+) {
+  const value = unquote(rawValue).trim();
+  if (!value) {
+    return { error: `Add a value after ${field}:.` };
+  }
+
+  if (field === "status") {
+    const status = normalizeSearchStatus(value);
+    if (!SEARCH_STATUS_VALUES.has(status) && !statusValues.has(status)) {
+      return { error: `Unknown status "${value}".` };
+    }
+    return { filter: { field, value: status, operator: "=" as const, raw } };
+  }
+
+  if (field === "priority") {
+    const priority = value.toLowerCase();
+    if (!SEARCH_PRIORITY_VALUES.has(priority)) {
+      return { error: `Priority must be high, medium, or low.` };
+    }
+    return { filter: { field, value: priority, operator: "=" as const, raw } };
+  }
+
+  if (field === "is") {
+    const state = value.toLowerCase();
+    if (!SEARCH_IS_VALUES.has(state)) {
+      return { error: `Unknown is: value "${value}". Use is:archived.` };
+    }
+    return { filter: { field, value: state, operator: "=" as const, raw } };
+  }
+
+  if (field === "due") {
+    const match = value.match(/^(<=|>=|<|>|=)?(.*)$/);
+    const operator = (match?.[1] ?? "=") as SearchDueOperator;
+    const day = normalizeText(match?.[2]);
+    if (!parseIsoDay(day)) {
+      return { error: `Due dates use YYYY-MM-DD, for example due:<2026-11-01.` };
+    }
+    return { filter: { field, value: day, operator, raw } };
+  }
+
+  // field:key alone matches any value; field:key=value, field:key=@handle and
+  // numeric or date comparisons such as field:cost-impact>1000 narrow it.
+  if (field === "field") {
+    const match = value.match(/^([a-z0-9-]+)(?:(<=|>=|<|>|=)(.*))?$/i);
+    if (!match) {
+      return { error: `Custom field filters look like field:customer=acme.` };
+    }
+    const key = match[1].toLowerCase();
+    const operator = (match[2] ?? "=") as SearchDueOperator;
+    const fieldValue = unquote(normalizeText(match[3])).trim();
+    if (match[2] && !fieldValue) {
+      return { error: `Add a value after field:${key}${operator}.` };
+    }
+    if (operator !== "=" && !parseIsoDay(fieldValue) && !Number.isFinite(Number(fieldValue))) {
+      return { error: `Compare custom fields with a number or a YYYY-MM-DD date.` };
+    }
+    if (fieldValue.startsWith("@")) {
+      const mention = normalizeSearchMention(fieldValue);
+      if (!mention) {
+        return { error: `Add a person after field:${key}=@.` };
+      }
+      return { filter: { field, key, value: `@${mention}`, operator, raw } };
+    }
+    return { filter: { field, key, value: fieldValue.toLowerCase(), operator, raw } };
+  }
+
+  if (field === "owner") {
+    const owner = normalizeSearchMention(value);
+    if (!owner) {
+      return { error: `Add a person after owner:.` };
+    }
+    return { filter: { field, value: owner, operator: "=" as const, raw } };
+  }
+
+  return { filter: { field, value: value.toLowerCase(), operator: "=" as const, raw } };
+}
+
+function filterLabel(filter: SearchQueryFilter) {
+  if (filter.field === "due") {
+    const operator = filter.operator === "=" ? "" : ` ${filter.operator}`;
+    return `Due${operator} ${filter.value}`;
+  }
+  if (filter.field === "is") return "Archived";
+  if (filter.field === "owner") return `Owner @${filter.value}`;
+  if (filter.field === "field") {
+    if (!filter.value) return `Has ${filter.key}`;
+    return `${filter.key} ${filter.operator} ${filter.value}`;
+  }
+  return `${filter.field[0].toUpperCase()}${filter.field.slice(1)}: ${filter.value}`;
+}
+
+// `statusIds` are the workspace's action workflow state ids, accepted by
+// status: alongside the built-in values.
+export function parseSearchQuery(query: string, statusIds: string[] = []): ParsedSearchQuery {
+  const statusValues = new Set(statusIds.map(normalizeSearchStatus));
+  const parsed: ParsedSearchQuery = {
+    parts: [],
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    mentions: [],
+    filters: [],
+    errors: [],
+  };
+
+  splitQueryTokens(normalizeText(query)).forEach((raw) => {
+    if (raw.startsWith('"')) {
+      const phrase = normalizePhrase(unquote(raw));
+      if (!phrase) return;
+      parsed.phrases.push(phrase);
+      parsed.parts.push({ kind: "phrase", raw, label: `"${phrase}"`, error: "" });
+      return;
+    }
+
+    if (raw.startsWith("-") && raw.length > 1) {
+      const value = raw.slice(1);
+      const excluded = value.startsWith('"')
+        ? normalizePhrase(unquote(value))
+        : normalizeSearchTerm(value);
+      if (!excluded) return;
+      parsed.excludedTerms.push(excluded);
+      parsed.parts.push({ kind: "exclude", raw, label: `Not ${excluded}`, error: "" });
+      return;
+    }
+
+    if (raw.startsWith("@")) {
+      const mention = normalizeSearchMention(raw);
+      if (!mention) return;
+      parsed.mentions.push(mention);
+      parsed.parts.push({ kind: "mention", raw, label: `@${mention}`, error: "" });
+      return;
+    }
+
+    // URLs and times ("https://…", "10:30") stay plain terms.
+    const fieldMatch = raw.match(/^([a-z]+):(?!\/\/)(.*)$/i);
+    if (fieldMatch) {
+      const field = fieldMatch[1].toLowerCase();
+      if (!SEARCH_FILTER_FIELD_SET.has(field)) {
+        const message = `Unknown filter "${field}:". Use ${SEARCH_FILTER_FIELDS.map((entry) => `${entry}:`).join(", ")}.`;
+        parsed.errors.push({ raw, message });
+        parsed.parts.push({ kind: "invalid", raw, label: raw, error: message });
+        return;
+      }
+
+      const result = parseFilter(field as SearchFilterField, fieldMatch[2], raw, statusValues);
+      if ("error" in result && result.error) {
+        parsed.errors.push({ raw, message: result.error });
+        parsed.parts.push({ kind: "invalid", raw, label: raw, error: result.error });
+        return;
+      }
+      if ("filter" in result && result.filter) {
+        parsed.filters.push(result.filter);
+        parsed.parts.push({
+          kind: "filter",
+          raw,
+          label: filterLabel(result.filter),
+          error: "",
+        });
+      }
+      return;
+    }
+
+    parsed.terms.push(raw.toLowerCase());
+    parsed.parts.push({ kind: "term", raw, label: raw, error: "" });
+  });
+
+  return parsed;
+}
+
+export function removeSearchQueryPart(parsed: ParsedSearchQuery, index: number) {
+  return parsed.parts
+    .filter((_, partIndex) => partIndex !== index)
+    .map((part) => part.raw)
+    .join(" ");
+}
+
+function compareDueDay(dueAtEpoch: number, filter: SearchQueryFilter) {
+  if (!dueAtEpoch) return false;
+  const dueDay = new Date(dueAtEpoch).toISOString().slice(0, 10);
+  if (filter.operator === "<") return dueDay < filter.value;
+  if (filter.operator === "<=") return dueDay <= filter.value;
+  if (filter.operator === ">") return dueDay > filter.value;
+  if (filter.operator === ">=") return dueDay >= filter.value;
+  return dueDay === filter.value;
+}
+
+function compareCustomFieldValue(values: string[], filter: SearchQueryFilter) {
+  if (!filter.value) return values.length > 0;
+  if (filter.operator === "=") return values.includes(filter.value);
+
+  const isDay = parseIsoDay(filter.value) !== null;
+  return values.some((value) => {
+    if (isDay && !parseIsoDay(value)) return false;
+    const left = isDay ? value : Number(value);
+    const right = isDay ? filter.value : Number(filter.value);
+    if (!isDay && !Number.isFinite(left as number)) return false;
+    if (filter.operator === "<") return left < right;
+    if (filter.operator === "<=") return left <= right;
+    if (filter.operator === ">") return left > right;
+    return left >= right;
+  });
+}
+
+function matchesPerson(
+  uids: string[],
+  text: string,
+  handle: string,
+  memberUidsByHandle: Map<string, Set<string>>,
+) {
+  const memberUids = memberUidsByHandle.get(handle);
+  if (memberUids && uids.some((uid) => memberUids.has(uid))) return true;
+  return extractSearchWords(text).includes(handle);
+}
+
+// `memberUidsByHandle` maps each @handle in the query (mentions, owner:@handle
+// and field:key=@handle) to the uids of members it resolves to, so people
+// match by account as well as by a whole word of their stored name.
+export function matchesSearchQueryFilters(
+  record: SearchQueryRecord,
+  parsed: ParsedSearchQuery,
+  memberUidsByHandle: Map<string, Set<string>>,
+) {
+  const includesArchived = parsed.filters.some(
+    (filter) => filter.field === "is" && filter.value === "archived",
+  );
+  if (record.archived !== includesArchived) return false;
+
+  const filtersMatch = parsed.filters.every((filter) => {
+    if (filter.field === "status") {
+      return (
+        normalizeSearchStatus(record.status) === filter.value ||
+        record.statusCategory === filter.value
+      );
+    }
+    if (filter.field === "priority") return record.priority === filter.value;
+    if (filter.field === "tag") {
+      return record.tags.some((tag) => tag.toLowerCase() === filter.value);
+    }
+    if (filter.field === "meeting") return record.meetingId.toLowerCase() === filter.value;
+    if (filter.field === "due") return compareDueDay(record.dueAtEpoch, filter);
+    if (filter.field === "owner") {
+      return matchesPerson(
+        [record.ownerUid].filter(Boolean),
+        record.ownerText,
+        filter.value,
+        memberUidsByHandle,
+      );
+    }
+    if (filter.field === "field") {
+      const values = record.customFields[filter.key ?? ""] ?? [];
+      if (filter.value.startsWith("@")) {
+        // Indexed values are lowercased, member uids included.
+        const memberUids = Array.from(memberUidsByHandle.get(filter.value.slice(1)) ?? []);
+        return memberUids.some((uid) => values.includes(uid.toLowerCase()));
+      }
+      return compareCustomFieldValue(values, filter);
+    }
+    return true;
+  });
+  if (!filtersMatch) return false;
+
+  const mentionsMatch = parsed.mentions.every((handle) =>
+    matchesPerson(record.peopleUids, record.peopleText, handle, memberUidsByHandle),
+  );
+  if (!mentionsMatch) return false;
+
+  if (!parsed.phrases.every((phrase) => record.searchText.includes(phrase))) return false;
+
+  // Index tokens include every word prefix, so exclusions are checked against
+  // whole words instead: -a drops records with the word "a", not every "a…".
+  const words = new Set(extractSearchWords(record.searchText));
+  return parsed.excludedTerms.every((term) =>
+    term.includes(" ") ? !record.searchText.includes(term) : !words.has(term),
+  );
+}
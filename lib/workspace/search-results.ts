@@ -0,0 +1,308 @@
+import "server-only";
+
+import {
+  canViewDecision,
+  isWorkspaceManagerRole,
+  type DecisionAccessViewer,
+} from "@/lib/auth/permissions";
+import { adminDb } from "@/lib/firebase/admin";
+import { buildDecisionAccessViewer } from "@/lib/workspace/decision-access";
+import type { SearchKind, SearchScope, UpdatedWindow } from "@/lib/workspace/search-params";
+import {
+  countSearchIndexEntries,
+  loadSearchIndexPage,
+  type SearchIndexCounts,
+  type SearchIndexEntry,
+} from "@/lib/workspace/search-index";
+import { planSearchIndexQuery } from "@/lib/workspace/search-index-plan";
+import {
+  buildMemberHandleKeys,
+  matchesSearchQueryFilters,
+  normalizeSearchMention,
+  type ParsedSearchQuery,
+} from "@/lib/workspace/search-query";
+
+export type SearchResult = {
+  id: string;
+  kind: SearchKind;
+  teamId: string;
+  title: string;
+  snippet: string;
+  updatedLabel: string;
+  updatedAtEpoch: number;
+  ownerLabel: string;
+  href: string;
+  tags: string[];
+  statusLabel: string;
+  searchText: string;
+};
+
+export type MemberSearchOption = {
+  uid: string;
+  displayName: string;
+  email: string;
+  mentionToken: string;
+  searchText: string;
+};
+
+export type SearchMembers = {
+  options: MemberSearchOption[];
+  viewer: DecisionAccessViewer;
+  readEpoch: number;
+};
+
+export type WorkspaceSearchPage = {
+  results: SearchResult[];
+  nextCursor: string;
+};
+
+type WorkspaceSearchInput = {
+  workspaceId: string;
+  members: SearchMembers;
+  parsedQuery: ParsedSearchQuery;
+  updated: UpdatedWindow;
+  team: string;
+};
+
+type RunWorkspaceSearchInput = WorkspaceSearchInput & {
+  workspaceSlug: string;
+  scope: SearchScope;
+  cursor: string;
+  pageSize: number;
+};
+
+type CountWorkspaceSearchInput = WorkspaceSearchInput & {
+  kinds: SearchKind[];
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate();
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof value === "string" || typeof value === "number") {
+    const parsed = new Date(value);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+function isPresent<T>(value: T | null): value is T {
+  return value !== null;
+}
+
+function normalizeTokenSource(value: string) {
+  return normalizeText(value).toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function toMentionToken(displayName: string, email: string, uid: string) {
+  const display = normalizeTokenSource(displayName).replace(/\s+/g, "-");
+  if (display) return display.slice(0, 32);
+
+  const emailHandle = normalizeText(email).split("@")[0] ?? "";
+  const emailToken = normalizeSearchMention(emailHandle);
+  if (emailToken) return emailToken.slice(0, 32);
+
+  return normalizeSearchMention(uid).slice(0, 32) || "user";
+}
+
+function buildSearchText(parts: Array<string | undefined>) {
+  return parts
+    .map((part) => normalizeText(part))
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+function buildUserSearchText(parts: Array<string | undefined>) {
+  const expanded = parts.flatMap((part) => {
+    const normalized = normalizeText(part);
+    if (!normalized) return [] as string[];
+
+    const canonical = normalizeTokenSource(normalized);
+    const dashed = canonical.replace(/\s+/g, "-");
+    const compact = canonical.replace(/\s+/g, "");
+    const mentionToken = normalizeSearchMention(normalized);
+
+    return [normalized, canonical, dashed, compact, mentionToken].filter(Boolean);
+  });
+
+  return buildSearchText(expanded);
+}
+
+// Maps each @handle in the query to the members it names exactly or by a
+// whole word of their name.
+function resolveMemberHandles(options: MemberSearchOption[], parsedQuery: ParsedSearchQuery) {
+  const handles = new Set([
+    ...parsedQuery.mentions,
+    ...parsedQuery.filters
+      .filter(
+        (filter) =>
+          filter.field === "owner" || (filter.field === "field" && filter.value.startsWith("@")),
+      )
+      .map((filter) => (filter.field === "owner" ? filter.value : filter.value.slice(1))),
+  ]);
+  const keysByUid = new Map(options.map((member) => [member.uid, buildMemberHandleKeys(member)]));
+
+  return new Map(
+    Array.from(handles, (handle) => [
+      handle,
+      new Set(
+        options
+          .filter((member) => keysByUid.get(member.uid)?.has(handle))
+          .map((member) => member.uid),
+      ),
+    ]),
+  );
+}
+
+function formatUpdatedLabel(date: Date | null) {
+  if (!date) return "Updated recently";
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export async function loadSearchMembers(workspaceId: string, uid: string): Promise<SearchMembers> {
+  const membersRef = adminDb.collection("workspaces").doc(workspaceId).collection("members");
+  const memberSnapshots = await membersRef
+    .limit(300)
+    .get()
+    .catch(() => membersRef.get());
+
+  const options = memberSnapshots.docs
+    .map((snapshot) => {
+      const data = snapshot.data() as Record<string, unknown>;
+      const status = normalizeText(data.status).toLowerCase();
+      if (status === "removed") return null;
+
+      const memberUid = normalizeText(data.uid) || snapshot.id;
+      const displayName = normalizeText(data.displayName);
+      const email = normalizeText(data.email);
+
+      if (!memberUid || (!displayName && !email)) return null;
+
+      const mentionToken = toMentionToken(displayName, email, memberUid);
+
+      return {
+        uid: memberUid,
+        displayName,
+        email,
+        mentionToken,
+        searchText: buildUserSearchText([memberUid, displayName, email, mentionToken]),
+      } satisfies MemberSearchOption;
+    })
+    .filter(isPresent)
+    .sort((a, b) => {
+      const left = normalizeText(a.displayName || a.email || a.uid).toLowerCase();
+      const right = normalizeText(b.displayName || b.email || b.uid).toLowerCase();
+      return left.localeCompare(right);
+    });
+
+  return {
+    options,
+    viewer: buildDecisionAccessViewer(
+      uid,
+      memberSnapshots.docs.find((snapshot) => snapshot.id === uid)?.data(),
+    ),
+    readEpoch: parseDate(memberSnapshots.readTime)?.getTime() ?? 0,
+  };
+}
+
+// Firestore applies the filters the plan pushes down; the rest of the query,
+// the updated window (for due: searches) and decision visibility are checked
+// on each entry read, before pages are cut or counts taken.
+function prepareWorkspaceSearch(
+  { members, parsedQuery, updated, team }: WorkspaceSearchInput,
+  kind: string,
+) {
+  const updatedCutoff =
+    updated === "7d"
+      ? members.readEpoch - 7 * 24 * 60 * 60 * 1000
+      : updated === "30d"
+        ? members.readEpoch - 30 * 24 * 60 * 60 * 1000
+        : null;
+  const memberUidsByHandle = resolveMemberHandles(members.options, parsedQuery);
+  const plan = planSearchIndexQuery(parsedQuery, {
+    kind,
+    teamId: team,
+    updatedAfterEpoch: updatedCutoff,
+    memberUidsByHandle,
+  });
+
+  const accept = (entry: SearchIndexEntry) => {
+    if (entry.kind === "decision" && !canViewDecision(members.viewer, entry.access ?? {})) {
+      return false;
+    }
+    if (updatedCutoff !== null && entry.updatedAtEpoch < updatedCutoff) return false;
+    if (!plan.otherTerms.every((term) => entry.tokens.includes(term))) return false;
+    return matchesSearchQueryFilters(entry, parsedQuery, memberUidsByHandle);
+  };
+
+  return { plan, accept };
+}
+
+// Returns one page of records the viewer can see that match the query, team,
+// updated window and scope, newest first (or by due date for due: searches).
+export async function runWorkspaceSearch({
+  workspaceSlug,
+  scope,
+  cursor,
+  pageSize,
+  ...input
+}: RunWorkspaceSearchInput): Promise<WorkspaceSearchPage> {
+  const { plan, accept } = prepareWorkspaceSearch(input, scope === "all" ? "" : scope);
+  const { entries, nextCursor } = await loadSearchIndexPage(input.workspaceId, plan, {
+    cursor,
+    pageSize,
+    accept,
+  });
+
+  return {
+    results: entries.map((entry) => ({
+      id: entry.entityId,
+      kind: entry.kind,
+      teamId: entry.teamId,
+      title: entry.title,
+      snippet: entry.snippet,
+      updatedLabel: formatUpdatedLabel(
+        entry.updatedAtEpoch ? new Date(entry.updatedAtEpoch) : null,
+      ),
+      updatedAtEpoch: entry.updatedAtEpoch,
+      ownerLabel: entry.ownerLabel,
+      href: `/${workspaceSlug}/${entry.kind}s/${entry.entityId}`,
+      tags: entry.tags.slice(0, 4),
+      statusLabel: entry.statusLabel,
+      searchText: buildSearchText([entry.title, entry.snippet, entry.tags.join(" ")]),
+    })),
+    nextCursor,
+  };
+}
+
+// Per-kind totals for the same query, counted without listing the records.
+export async function countWorkspaceSearch({
+  kinds,
+  ...input
+}: CountWorkspaceSearchInput): Promise<SearchIndexCounts> {
+  const { plan, accept } = prepareWorkspaceSearch(input, "");
+  return countSearchIndexEntries(input.workspaceId, plan, {
+    kinds,
+    accept,
+    seesAllDecisions: isWorkspaceManagerRole(input.members.viewer.role),
+  });
+}
@@ -0,0 +1,131 @@
+import "server-only";
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { DocumentData, DocumentReference, UpdateData } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+
+export const MAX_WORKSPACE_TEAMS = 60;
+export const MAX_TEAM_NAME_LENGTH = 60;
+
+export type WorkspaceTeam = {
+  id: string;
+  name: string;
+  description: string;
+  leadUids: string[];
+  memberUids: string[];
+};
+
+export type WorkspaceTeamOption = {
+  id: string;
+  name: string;
+};
+
+// Write batches and transactions both queue member updates.
+type MemberUpdateWriter = {
+  update(documentRef: DocumentReference<DocumentData>, data: UpdateData<DocumentData>): unknown;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function parseTeamUids(value: unknown) {
+  if (!Array.isArray(value)) return [];
+
+  const unique = new Set<string>();
+  value.forEach((entry) => {
+    const uid = normalizeText(entry);
+    if (uid) unique.add(uid);
+  });
+
+  return Array.from(unique);
+}
+
+export function parseWorkspaceTeam(id: string, data: Record<string, unknown>): WorkspaceTeam {
+  const leadUids = parseTeamUids(data.leadUids);
+  const memberUids = parseTeamUids(data.memberUids);
+
+  return {
+    id,
+    name: normalizeText(data.name) || id,
+    description: normalizeText(data.description),
+    leadUids,
+    // Leads always count as members so team-visible records reach them.
+    memberUids: Array.from(new Set([...leadUids, ...memberUids])),
+  };
+}
+
+export function createTeamId() {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 900 + 100);
+  return `T-${timestamp}${random}`;
+}
+
+export function parseTeamFilter(value: string | string[] | undefined) {
+  const candidate = Array.isArray(value) ? value[0] : value;
+  return normalizeText(candidate);
+}
+
+export function resolveRecordTeamId(data: Record<string, unknown>) {
+  return normalizeText(data.teamId);
+}
+
+export async function listWorkspaceTeams(workspaceId: string) {
+  const teamSnapshots = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("teams")
+    .limit(MAX_WORKSPACE_TEAMS)
+    .get();
+
+  return teamSnapshots.docs
+    .map((snapshot) => parseWorkspaceTeam(snapshot.id, snapshot.data() as Record<string, unknown>))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
+
+export async function loadWorkspaceTeam(workspaceId: string, teamId: string) {
+  const normalizedTeamId = normalizeText(teamId);
+  if (!normalizedTeamId) return null;
+
+  const snapshot = await adminDb
+    .collection("workspaces")
+    .doc(workspaceId)
+    .collection("teams")
+    .doc(normalizedTeamId)
+    .get();
+  if (!snapshot.exists) return null;
+
+  return parseWorkspaceTeam(snapshot.id, snapshot.data() as Record<string, unknown>);
+}
+
+export function toTeamOptions(teams: WorkspaceTeam[]): WorkspaceTeamOption[] {
+  return teams.map((team) => ({ id: team.id, name: team.name }));
+}
+
+// Member documents carry a denormalized `teamIds` list so Firestore rules and
+// decision visibility checks can read team membership without a query. Callers
+// pass only uids that still have a member document; updates fail otherwise.
+export function queueMemberTeamSync(
+  writer: MemberUpdateWriter,
+  workspaceRef: DocumentReference<DocumentData>,
+  teamId: string,
+  previousMemberUids: string[],
+  nextMemberUids: string[],
+) {
+  const previous = new Set(previousMemberUids);
+  const next = new Set(nextMemberUids);
+
+  next.forEach((uid) => {
+    if (previous.has(uid)) return;
+    writer.update(workspaceRef.collection("members").doc(uid), {
+      teamIds: FieldValue.arrayUnion(teamId),
+    });
+  });
+
+  previous.forEach((uid) => {
+    if (next.has(uid)) return;
+    writer.update(workspaceRef.collection("members").doc(uid), {
+      teamIds: FieldValue.arrayRemove(teamId),
+    });
+  });
+}
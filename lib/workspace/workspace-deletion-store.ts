@@ -0,0 +1,117 @@
+import "server-only";
+
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { DocumentReference } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import { isWorkspacePurgeDue, parseWorkspaceDeletion } from "@/lib/workspace/workspace-deletion";
+
+// Firestore batches accept up to 500 writes.
+const BATCH_SIZE = 400;
+
+export type WorkspaceDeletionJobSummary = {
+  workspacesScheduled: number;
+  workspacesPurged: number;
+  membersDetached: number;
+  tokensDeleted: number;
+  slugsReleased: number;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+async function commitInBatches<T>(
+  items: T[],
+  write: (batch: FirebaseFirestore.WriteBatch, item: T) => void,
+) {
+  for (let index = 0; index < items.length; index += BATCH_SIZE) {
+    const batch = adminDb.batch();
+    items.slice(index, index + BATCH_SIZE).forEach((item) => write(batch, item));
+    await batch.commit();
+  }
+}
+
+// Detaches every member's user profile from the workspace, deletes its invite
+// and join link tokens, slug mappings (including slugs it used to have) and
+// domain claims, then deletes the workspace document with all of its subcollections.
+async function purgeWorkspace(workspaceRef: DocumentReference) {
+  const [workspaceSnapshot, memberSnapshots, slugSnapshots, tokenSnapshots, domainSnapshots] =
+    await Promise.all([
+      workspaceRef.get(),
+      workspaceRef.collection("members").get(),
+      adminDb.collection("workspaceSlugs").where("workspaceId", "==", workspaceRef.id).get(),
+      adminDb.collection("workspaceInviteTokens").where("workspaceId", "==", workspaceRef.id).get(),
+      adminDb.collection("workspaceDomains").where("workspaceId", "==", workspaceRef.id).get(),
+    ]);
+  const slugs = Array.from(
+    new Set(
+      [normalizeText(workspaceSnapshot.get("slug")), ...slugSnapshots.docs.map((doc) => doc.id)].filter(
+        Boolean,
+      ),
+    ),
+  );
+  const memberUids = memberSnapshots.docs.map(
+    (snapshot) => normalizeText(snapshot.get("uid")) || snapshot.id,
+  );
+  const userSnapshots =
+    memberUids.length > 0
+      ? await adminDb.getAll(...memberUids.map((uid) => adminDb.collection("users").doc(uid)))
+      : [];
+  const now = Timestamp.now();
+
+  await commitInBatches(
+    userSnapshots.filter((snapshot) => snapshot.exists),
+    (batch, userSnapshot) => {
+      const userUpdate: Record<string, unknown> = {
+        workspaceSlugs: FieldValue.arrayRemove(...slugs),
+        updatedAt: now,
+      };
+      // Workspace access falls back to the user's remaining memberships.
+      if (normalizeText(userSnapshot.get("defaultWorkspaceId")) === workspaceRef.id) {
+        userUpdate.defaultWorkspaceId = FieldValue.delete();
+      }
+      batch.set(userSnapshot.ref, userUpdate, { merge: true });
+    },
+  );
+  await commitInBatches(tokenSnapshots.docs, (batch, snapshot) => batch.delete(snapshot.ref));
+  await commitInBatches(slugSnapshots.docs, (batch, snapshot) => batch.delete(snapshot.ref));
+  await commitInBatches(domainSnapshots.docs, (batch, snapshot) => batch.delete(snapshot.ref));
+  await adminDb.recursiveDelete(workspaceRef);
+
+  return {
+    membersDetached: userSnapshots.length,
+    tokensDeleted: tokenSnapshots.size,
+    slugsReleased: slugSnapshots.size,
+  };
+}
+
+// Purges workspaces whose deletion grace period has ended. Restored
+// workspaces no longer carry a scheduled deletion and are left alone.
+export async function runWorkspaceDeletionJob(
+  now = new Date(),
+): Promise<WorkspaceDeletionJobSummary> {
+  const scheduledSnapshots = await adminDb
+    .collection("workspaces")
+    .where("deletion.status", "==", "scheduled")
+    .get();
+  const summary: WorkspaceDeletionJobSummary = {
+    workspacesScheduled: scheduledSnapshots.size,
+    workspacesPurged: 0,
+    membersDetached: 0,
+    tokensDeleted: 0,
+    slugsReleased: 0,
+  };
+
+  for (const workspaceSnapshot of scheduledSnapshots.docs) {
+    const deletion = parseWorkspaceDeletion(workspaceSnapshot.get("deletion"));
+    if (!isWorkspacePurgeDue(deletion, now)) continue;
+
+    const purged = await purgeWorkspace(workspaceSnapshot.ref);
+    summary.workspacesPurged += 1;
+    summary.membersDetached += purged.membersDetached;
+    summary.tokensDeleted += purged.tokensDeleted;
+    summary.slugsReleased += purged.slugsReleased;
+  }
+
+  return summary;
+}
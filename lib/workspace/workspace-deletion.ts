@@ -0,0 +1,65 @@
+export const WORKSPACE_DELETION_GRACE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WorkspaceDeletion = {
+  requestedAt: string;
+  requestedByUid: string;
+  requestedByName: string;
+  purgeAfter: string;
+};
+
+function normalizeText(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readRecord(value: unknown) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {} as Record<string, unknown>;
+  }
+  return value as Record<string, unknown>;
+}
+
+function parseIsoDate(value: unknown) {
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return (value as { toDate: () => Date }).toDate().toISOString();
+    } catch {
+      return "";
+    }
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime()) ? "" : parsed.toISOString();
+  }
+  return "";
+}
+
+// A scheduled deletion lives on the workspace document as `deletion` until it
+// is restored (the field is removed) or purged with the workspace.
+export function isWorkspacePendingDeletion(value: unknown) {
+  return normalizeText(readRecord(value).status) === "scheduled";
+}
+
+export function parseWorkspaceDeletion(value: unknown): WorkspaceDeletion | null {
+  if (!isWorkspacePendingDeletion(value)) return null;
+
+  const record = readRecord(value);
+  return {
+    requestedAt: parseIsoDate(record.requestedAt),
+    requestedByUid: normalizeText(record.requestedByUid),
+    requestedByName: normalizeText(record.requestedByName) || "Workspace Owner",
+    purgeAfter: parseIsoDate(record.purgeAfter),
+  };
+}
+
+export function resolveWorkspacePurgeAfter(requestedAt: Date) {
+  return new Date(requestedAt.getTime() + WORKSPACE_DELETION_GRACE_DAYS * DAY_MS);
+}
+
+// Purging waits for the whole grace window; a deletion without a readable
+// purge date is never purged automatically.
+export function isWorkspacePurgeDue(deletion: WorkspaceDeletion | null, now: Date) {
+  if (!deletion?.purgeAfter) return false;
+  return new Date(deletion.purgeAfter).getTime() <= now.getTime();
+}
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { join, resolve } from "node:path";
+
+// Resend-compatible stand-in for offline email testing. Point the app at it with
+// RESEND_API_BASE_URL=http://127.0.0.1:3025 and any non-empty RESEND_API_KEY.
+
+function normalizeText(value) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parsePort(value) {
+  const parsed = Number.parseInt(normalizeText(value), 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 3025;
+}
+
+function sendJson(response, statusCode, payload) {
+  response.writeHead(statusCode, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(payload));
+}
+
+async function readJsonBody(request) {
+  const chunks = [];
+  for await (const chunk of request) {
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function normalizeRecipients(value) {
+  const entries = Array.isArray(value) ? value : [value];
+  return entries.map((entry) => normalizeText(entry)).filter(Boolean);
+}
+
+async function listOutbox(outboxDir) {
+  const fileNames = (await readdir(outboxDir))
+    .filter((fileName) => fileName.endsWith(".json"))
+    .sort()
+    .reverse()
+    .slice(0, 50);
+
+  return Promise.all(
+    fileNames.map(async (fileName) =>
+      JSON.parse(await readFile(join(outboxDir, fileName), "utf8")),
+    ),
+  );
+}
+
+async function main() {
+  const port = parsePort(process.env.LOCAL_EMAIL_PORT);
+  const outboxDir = resolve(
+    process.cwd(),
+    normalizeText(process.env.LOCAL_EMAIL_OUTBOX_DIR) || ".email-outbox",
+  );
+  await mkdir(outboxDir, { recursive: true });
+  let sequence = 0;
+
+  const server = createServer(async (request, response) => {
+    try {
+      if (request.url === "/emails" && request.method === "GET") {
+        sendJson(response, 200, { data: await listOutbox(outboxDir) });
+        return;
+      }
+
+      if (request.url !== "/emails" || request.method !== "POST") {
+        sendJson(response, 404, { message: "Not found." });
+        return;
+      }
+
+      if (!normalizeText(request.headers.authorization).startsWith("Bearer ")) {
+        sendJson(response, 401, { message: "Missing API key." });
+        return;
+      }
+
+      const body = await readJsonBody(request);
+      const to = normalizeRecipients(body?.to);
+      const from = normalizeText(body?.from);
+      const subject = normalizeText(body?.subject);
+
+      if (!from || to.length === 0 || !subject) {
+        sendJson(response, 422, { message: "from, to, and subject are required." });
+        return;
+      }
+
+      sequence += 1;
+      const id = `local_${Date.now()}_${sequence}`;
+      const message = {
+        id,
+        receivedAt: new Date().toISOString(),
+        from,
+        to,
+        replyTo: normalizeText(body?.reply_to),
+        subject,
+        text: typeof body?.text === "string" ? body.text : "",
+        html: typeof body?.html === "string" ? body.html : "",
+      };
+
+      await writeFile(join(outboxDir, `${id}.json`), JSON.stringify(message, null, 2));
+      console.log(`[${message.receivedAt}] ${id} -> ${to.join(", ")}: ${subject}`);
+      sendJson(response, 200, { id });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Local email server error.";
+      sendJson(response, 500, { message });
+    }
+  });
+
+  server.listen(port, "127.0.0.1", () => {
+    console.log(`Local email server listening on http://127.0.0.1:${port}`);
+    console.log(`Writing messages to ${outboxDir}`);
+  });
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error("Local email server failed.");
+  console.error(message);
+  process.exit(1);
+});
@@ -0,0 +1,242 @@
+#!/usr/bin/env node
+
+import nextEnv from "@next/env";
+import { cert, getApps, initializeApp } from "firebase-admin/app";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+
+const { loadEnvConfig } = nextEnv;
+
+function normalizeText(value) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function getAdminConfig() {
+  const projectId =
+    process.env.FIREBASE_PROJECT_ID ??
+    process.env.GCLOUD_PROJECT ??
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ??
+    "";
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL ?? null;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n") ?? null;
+  const storageBucket = process.env.FIREBASE_STORAGE_BUCKET;
+  const emulatorMode =
+    Boolean(process.env.FIRESTORE_EMULATOR_HOST) ||
+    Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST);
+
+  const missing = [];
+  if (!projectId) missing.push("FIREBASE_PROJECT_ID");
+  if (!emulatorMode && !clientEmail) missing.push("FIREBASE_CLIENT_EMAIL");
+  if (!emulatorMode && !privateKey) missing.push("FIREBASE_PRIVATE_KEY");
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing Firebase Admin env vars: ${missing.join(", ")}. Add them to webapp/.env.local.`,
+    );
+  }
+
+  return {
+    projectId,
+    clientEmail,
+    privateKey,
+    storageBucket,
+    emulatorMode,
+  };
+}
+
+function getAdminDb() {
+  if (getApps().length === 0) {
+    const config = getAdminConfig();
+
+    if (config.emulatorMode) {
+      initializeApp({
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    } else {
+      initializeApp({
+        credential: cert({
+          projectId: config.projectId,
+          clientEmail: config.clientEmail,
+          privateKey: config.privateKey,
+        }),
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    }
+  }
+
+  return getFirestore();
+}
+
+const BATCH_LIMIT = 400;
+
+function normalizeTeamKey(value) {
+  return normalizeText(value).toLowerCase();
+}
+
+function normalizeStringArray(value) {
+  return Array.isArray(value) ? value.map(normalizeText).filter(Boolean) : [];
+}
+
+function createTeamId() {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 900 + 100);
+  return `T-${timestamp}${random}`;
+}
+
+function shouldUseDryRun(argv) {
+  return argv.includes("--dry-run");
+}
+
+function logSummary(summary) {
+  console.log("");
+  console.log("Migration summary:");
+  console.log(`- Workspaces scanned: ${summary.workspacesScanned}`);
+  console.log(`- Decisions scanned: ${summary.decisionsScanned}`);
+  console.log(`- Decisions mapped to existing teams: ${summary.decisionsMapped}`);
+  console.log(`- Decisions mapped to created teams: ${summary.decisionsMappedToCreatedTeams}`);
+  console.log(`- Teams created from labels: ${summary.teamsCreated}`);
+  console.log(`- Search index entries updated: ${summary.searchEntriesUpdated}`);
+  console.log(`- Batch commits: ${summary.batchCommits}`);
+  console.log(`- Mode: ${summary.dryRun ? "dry-run" : "execute"}`);
+}
+
+// Decisions saved before teams existed keep the team's name in `teamLabel`
+// and in `allowedTeamIds`. Visibility checks now compare team ids, so map each
+// label to the workspace team with the same name. Team-visible decisions whose
+// label matches no team get a new team with that name (and no members yet), so
+// managers can assign people instead of the decision staying hidden.
+async function migrateWorkspace(db, workspaceSnapshot, summary, writer, now) {
+  const workspaceRef = workspaceSnapshot.ref;
+  const [teamSnapshots, decisionSnapshots] = await Promise.all([
+    workspaceRef.collection("teams").get(),
+    workspaceRef.collection("decisions").get(),
+  ]);
+
+  const teamsByName = new Map();
+  teamSnapshots.docs.forEach((snapshot) => {
+    const name = normalizeText(snapshot.get("name"));
+    if (name && !teamsByName.has(normalizeTeamKey(name))) {
+      teamsByName.set(normalizeTeamKey(name), { id: snapshot.id, name, created: false });
+    }
+  });
+
+  summary.decisionsScanned += decisionSnapshots.size;
+  const indexPatches = [];
+
+  for (const decisionSnapshot of decisionSnapshots.docs) {
+    const data = decisionSnapshot.data() ?? {};
+    if (normalizeText(data.teamId)) continue;
+
+    const visibility = normalizeText(data.visibility) || "workspace";
+    const label = normalizeText(data.teamLabel) || normalizeStringArray(data.allowedTeamIds)[0] || "";
+    if (!label || visibility !== "team") continue;
+
+    let team = teamsByName.get(normalizeTeamKey(label));
+    if (!team) {
+      team = { id: createTeamId(), name: label, created: true };
+      teamsByName.set(normalizeTeamKey(label), team);
+      summary.teamsCreated += 1;
+      await writer.set(workspaceRef.collection("teams").doc(team.id), {
+        teamId: team.id,
+        name: label,
+        description: "",
+        leadUids: [],
+        memberUids: [],
+        createdAt: now,
+        createdBy: "",
+        updatedAt: now,
+        updatedBy: "",
+      });
+    }
+
+    if (team.created) summary.decisionsMappedToCreatedTeams += 1;
+    else summary.decisionsMapped += 1;
+
+    await writer.set(
+      decisionSnapshot.ref,
+      { teamId: team.id, teamLabel: team.name, allowedTeamIds: [team.id] },
+      { merge: true },
+    );
+    indexPatches.push({
+      ref: workspaceRef.collection("searchIndex").doc(`decision_${decisionSnapshot.id}`),
+      teamId: team.id,
+    });
+  }
+
+  for (let index = 0; index < indexPatches.length; index += BATCH_LIMIT) {
+    const chunk = indexPatches.slice(index, index + BATCH_LIMIT);
+    const indexSnapshots = await db.getAll(...chunk.map((patch) => patch.ref));
+    for (const [position, indexSnapshot] of indexSnapshots.entries()) {
+      if (!indexSnapshot.exists) continue;
+      summary.searchEntriesUpdated += 1;
+      await writer.set(
+        indexSnapshot.ref,
+        { teamId: chunk[position].teamId, access: { allowedTeamIds: [chunk[position].teamId] } },
+        { merge: true },
+      );
+    }
+  }
+}
+
+async function main() {
+  const appRoot = process.cwd();
+  loadEnvConfig(appRoot);
+
+  const dryRun = shouldUseDryRun(process.argv.slice(2));
+  const db = getAdminDb();
+  const workspaceSnapshots = await db.collection("workspaces").get();
+  const now = Timestamp.now();
+  const summary = {
+    dryRun,
+    workspacesScanned: workspaceSnapshots.size,
+    decisionsScanned: 0,
+    decisionsMapped: 0,
+    decisionsMappedToCreatedTeams: 0,
+    teamsCreated: 0,
+    searchEntriesUpdated: 0,
+    batchCommits: 0,
+  };
+
+  let batch = db.batch();
+  let pendingWrites = 0;
+
+  async function flushBatch() {
+    if (pendingWrites === 0 || dryRun) {
+      pendingWrites = 0;
+      batch = db.batch();
+      return;
+    }
+
+    await batch.commit();
+    summary.batchCommits += 1;
+    pendingWrites = 0;
+    batch = db.batch();
+  }
+
+  const writer = {
+    async set(ref, data, options) {
+      if (dryRun) return;
+      if (options) batch.set(ref, data, options);
+      else batch.set(ref, data);
+      pendingWrites += 1;
+      if (pendingWrites >= BATCH_LIMIT) {
+        await flushBatch();
+      }
+    },
+  };
+
+  for (const workspaceSnapshot of workspaceSnapshots.docs) {
+    await migrateWorkspace(db, workspaceSnapshot, summary, writer, now);
+  }
+
+  await flushBatch();
+  logSummary(summary);
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error("Migration failed.");
+  console.error(message);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+
+import nextEnv from "@next/env";
+import { cert, getApps, initializeApp } from "firebase-admin/app";
+import { FieldPath, getFirestore, Timestamp } from "firebase-admin/firestore";
+
+const { loadEnvConfig } = nextEnv;
+
+function normalizeText(value) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function getAdminConfig() {
+  const projectId =
+    process.env.FIREBASE_PROJECT_ID ??
+    process.env.GCLOUD_PROJECT ??
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ??
+    "";
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL ?? null;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n") ?? null;
+  const storageBucket = process.env.FIREBASE_STORAGE_BUCKET;
+  const emulatorMode =
+    Boolean(process.env.FIRESTORE_EMULATOR_HOST) ||
+    Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST);
+
+  const missing = [];
+  if (!projectId) missing.push("FIREBASE_PROJECT_ID");
+  if (!emulatorMode && !clientEmail) missing.push("FIREBASE_CLIENT_EMAIL");
+  if (!emulatorMode && !privateKey) missing.push("FIREBASE_PRIVATE_KEY");
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing Firebase Admin env vars: ${missing.join(", ")}. Add them to webapp/.env.local.`,
+    );
+  }
+
+  return {
+    projectId,
+    clientEmail,
+    privateKey,
+    storageBucket,
+    emulatorMode,
+  };
+}
+
+function getAdminDb() {
+  if (getApps().length === 0) {
+    const config = getAdminConfig();
+
+    if (config.emulatorMode) {
+      initializeApp({
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    } else {
+      initializeApp({
+        credential: cert({
+          projectId: config.projectId,
+          clientEmail: config.clientEmail,
+          privateKey: config.privateKey,
+        }),
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    }
+  }
+
+  return getFirestore();
+}
+
+const PAGE_SIZE = 400;
+
+function shouldUseDryRun(argv) {
+  return argv.includes("--dry-run");
+}
+
+function logSummary(summary) {
+  console.log("");
+  console.log("Migration summary:");
+  console.log(`- Workspaces scanned: ${summary.workspacesScanned}`);
+  console.log(`- Claimed domains found: ${summary.domainsFound}`);
+  console.log(`- Domain claims created: ${summary.claimsCreated}`);
+  console.log(`- Workspaces with discovery turned off: ${summary.discoveryDisabled}`);
+  console.log(`- Mode: ${summary.dryRun ? "dry-run" : "execute"}`);
+}
+
+function toMillis(value) {
+  return value && typeof value.toMillis === "function" ? value.toMillis() : Number.MAX_SAFE_INTEGER;
+}
+
+// Same shape as `parseWorkspaceDiscovery` in lib/workspace/domain-discovery.ts:
+// a workspace claims its domain only while discovery is on.
+function readClaimedDomain(discovery) {
+  if (!discovery || typeof discovery !== "object") return "";
+  const domain = normalizeText(discovery.domain).toLowerCase().replace(/^@+/, "");
+  const mode = normalizeText(discovery.mode);
+  return domain && (mode === "auto_join" || mode === "request") ? domain : "";
+}
+
+// Domain claims used to be a field on the workspace only, so several
+// workspaces could claim the same domain. Each domain now gets one
+// `workspaceDomains/{domain}` document. An existing claim document wins;
+// otherwise the earliest-created workspace keeps the domain, and the others
+// have discovery turned off so their owners can pick another domain.
+async function main() {
+  const appRoot = process.cwd();
+  loadEnvConfig(appRoot);
+
+  const dryRun = shouldUseDryRun(process.argv.slice(2));
+  const db = getAdminDb();
+  const summary = {
+    dryRun,
+    workspacesScanned: 0,
+    domainsFound: 0,
+    claimsCreated: 0,
+    discoveryDisabled: 0,
+  };
+
+  const workspacesByDomain = new Map();
+  let lastSnapshot = null;
+
+  while (true) {
+    let query = db
+      .collection("workspaces")
+      .select("discovery", "createdAt", "createdBy")
+      .orderBy(FieldPath.documentId())
+      .limit(PAGE_SIZE);
+    if (lastSnapshot) query = query.startAfter(lastSnapshot);
+    const page = await query.get();
+    if (page.empty) break;
+
+    page.docs.forEach((snapshot) => {
+      summary.workspacesScanned += 1;
+      const domain = readClaimedDomain(snapshot.get("discovery"));
+      if (!domain) return;
+
+      const claimants = workspacesByDomain.get(domain) ?? [];
+      claimants.push(snapshot);
+      workspacesByDomain.set(domain, claimants);
+    });
+
+    lastSnapshot = page.docs[page.docs.length - 1];
+    if (page.size < PAGE_SIZE) break;
+  }
+
+  summary.domainsFound = workspacesByDomain.size;
+  const now = Timestamp.now();
+
+  for (const [domain, claimants] of workspacesByDomain) {
+    const claimRef = db.collection("workspaceDomains").doc(domain);
+    const claimSnapshot = await claimRef.get();
+    claimants.sort(
+      (a, b) =>
+        toMillis(a.get("createdAt")) - toMillis(b.get("createdAt")) || a.id.localeCompare(b.id),
+    );
+
+    const claimedWorkspaceId =
+      normalizeText(claimSnapshot.get("workspaceId")) || claimants[0].id;
+    const batch = db.batch();
+    let pendingWrites = 0;
+
+    if (!claimSnapshot.exists) {
+      const owner = claimants.find((snapshot) => snapshot.id === claimedWorkspaceId);
+      batch.set(claimRef, {
+        domain,
+        workspaceId: claimedWorkspaceId,
+        claimedBy: normalizeText(owner?.get("createdBy")),
+        claimedAt: now,
+        updatedAt: now,
+      });
+      summary.claimsCreated += 1;
+      pendingWrites += 1;
+    }
+
+    claimants
+      .filter((snapshot) => snapshot.id !== claimedWorkspaceId)
+      .forEach((snapshot) => {
+        console.log(`- ${domain}: turning off discovery for workspace ${snapshot.id}`);
+        batch.update(snapshot.ref, { "discovery.mode": "off", updatedAt: now });
+        summary.discoveryDisabled += 1;
+        pendingWrites += 1;
+      });
+
+    if (pendingWrites > 0 && !dryRun) {
+      await batch.commit();
+    }
+  }
+
+  logSummary(summary);
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error("Migration failed.");
+  console.error(message);
+  process.exit(1);
+});
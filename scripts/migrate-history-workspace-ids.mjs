@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+import nextEnv from "@next/env";
+import { cert, getApps, initializeApp } from "firebase-admin/app";
+import { FieldPath, getFirestore } from "firebase-admin/firestore";
+
+const { loadEnvConfig } = nextEnv;
+
+function normalizeText(value) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function getAdminConfig() {
+  const projectId =
+    process.env.FIREBASE_PROJECT_ID ??
+    process.env.GCLOUD_PROJECT ??
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ??
+    "";
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL ?? null;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n") ?? null;
+  const storageBucket = process.env.FIREBASE_STORAGE_BUCKET;
+  const emulatorMode =
+    Boolean(process.env.FIRESTORE_EMULATOR_HOST) ||
+    Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST);
+
+  const missing = [];
+  if (!projectId) missing.push("FIREBASE_PROJECT_ID");
+  if (!emulatorMode && !clientEmail) missing.push("FIREBASE_CLIENT_EMAIL");
+  if (!emulatorMode && !privateKey) missing.push("FIREBASE_PRIVATE_KEY");
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing Firebase Admin env vars: ${missing.join(", ")}. Add them to webapp/.env.local.`,
+    );
+  }
+
+  return {
+    projectId,
+    clientEmail,
+    privateKey,
+    storageBucket,
+    emulatorMode,
+  };
+}
+
+function getAdminDb() {
+  if (getApps().length === 0) {
+    const config = getAdminConfig();
+
+    if (config.emulatorMode) {
+      initializeApp({
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    } else {
+      initializeApp({
+        credential: cert({
+          projectId: config.projectId,
+          clientEmail: config.clientEmail,
+          privateKey: config.privateKey,
+        }),
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    }
+  }
+
+  return getFirestore();
+}
+
+const BATCH_LIMIT = 400;
+
+function shouldUseDryRun(argv) {
+  return argv.includes("--dry-run");
+}
+
+function logSummary(summary) {
+  console.log("");
+  console.log("Migration summary:");
+  console.log(`- History events scanned: ${summary.eventsScanned}`);
+  console.log(`- History events updated: ${summary.eventsUpdated}`);
+  console.log(`- Batch commits: ${summary.batchCommits}`);
+  console.log(`- Mode: ${summary.dryRun ? "dry-run" : "execute"}`);
+}
+
+// History events written before the workspace id was stored on them are
+// missed by the activity feed's collection-group query. The id is read from
+// each event's path: workspaces/{workspaceId}/{collection}/{entityId}/history.
+function resolveWorkspaceId(path) {
+  const segments = path.split("/");
+  return segments[0] === "workspaces" ? normalizeText(segments[1]) : "";
+}
+
+async function main() {
+  const appRoot = process.cwd();
+  loadEnvConfig(appRoot);
+
+  const dryRun = shouldUseDryRun(process.argv.slice(2));
+  const db = getAdminDb();
+  const summary = {
+    dryRun,
+    eventsScanned: 0,
+    eventsUpdated: 0,
+    batchCommits: 0,
+  };
+
+  let lastSnapshot = null;
+
+  while (true) {
+    let query = db.collectionGroup("history").orderBy(FieldPath.documentId()).limit(BATCH_LIMIT);
+    if (lastSnapshot) query = query.startAfter(lastSnapshot);
+    const page = await query.get();
+    if (page.empty) break;
+
+    summary.eventsScanned += page.size;
+    const batch = db.batch();
+    let pendingWrites = 0;
+
+    page.docs.forEach((snapshot) => {
+      const workspaceId = resolveWorkspaceId(snapshot.ref.path);
+      if (!workspaceId || normalizeText(snapshot.get("workspaceId")) === workspaceId) return;
+
+      batch.update(snapshot.ref, { workspaceId });
+      pendingWrites += 1;
+    });
+
+    summary.eventsUpdated += pendingWrites;
+    if (pendingWrites > 0 && !dryRun) {
+      await batch.commit();
+      summary.batchCommits += 1;
+    }
+
+    lastSnapshot = page.docs[page.docs.length - 1];
+    if (page.size < BATCH_LIMIT) break;
+  }
+
+  logSummary(summary);
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error("Migration failed.");
+  console.error(message);
+  process.exit(1);
+});
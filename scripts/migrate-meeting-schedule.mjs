@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+
+import nextEnv from "@next/env";
+import { cert, getApps, initializeApp } from "firebase-admin/app";
+import { FieldPath, getFirestore } from "firebase-admin/firestore";
+
+const { loadEnvConfig } = nextEnv;
+
+function normalizeText(value) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function getAdminConfig() {
+  const projectId =
+    process.env.FIREBASE_PROJECT_ID ??
+    process.env.GCLOUD_PROJECT ??
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ??
+    "";
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL ?? null;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n") ?? null;
+  const storageBucket = process.env.FIREBASE_STORAGE_BUCKET;
+  const emulatorMode =
+    Boolean(process.env.FIRESTORE_EMULATOR_HOST) ||
+    Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST);
+
+  const missing = [];
+  if (!projectId) missing.push("FIREBASE_PROJECT_ID");
+  if (!emulatorMode && !clientEmail) missing.push("FIREBASE_CLIENT_EMAIL");
+  if (!emulatorMode && !privateKey) missing.push("FIREBASE_PRIVATE_KEY");
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing Firebase Admin env vars: ${missing.join(", ")}. Add them to webapp/.env.local.`,
+    );
+  }
+
+  return {
+    projectId,
+    clientEmail,
+    privateKey,
+    storageBucket,
+    emulatorMode,
+  };
+}
+
+function getAdminDb() {
+  if (getApps().length === 0) {
+    const config = getAdminConfig();
+
+    if (config.emulatorMode) {
+      initializeApp({
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    } else {
+      initializeApp({
+        credential: cert({
+          projectId: config.projectId,
+          clientEmail: config.clientEmail,
+          privateKey: config.privateKey,
+        }),
+        projectId: config.projectId,
+        storageBucket: config.storageBucket,
+      });
+    }
+  }
+
+  return getFirestore();
+}
+
+const BATCH_LIMIT = 400;
+const MONTH_ABBREVIATIONS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+function shouldUseDryRun(argv) {
+  return argv.includes("--dry-run");
+}
+
+function logSummary(summary) {
+  console.log("");
+  console.log("Migration summary:");
+  console.log(`- Meetings scanned: ${summary.meetingsScanned}`);
+  console.log(`- Meetings updated: ${summary.meetingsUpdated}`);
+  console.log(`- Meetings without a dated label: ${summary.meetingsSkipped}`);
+  console.log(`- Batch commits: ${summary.batchCommits}`);
+  console.log(`- Mode: ${summary.dryRun ? "dry-run" : "execute"}`);
+}
+
+// Same format as `parseMeetingTimeLabel` in lib/calendar/ics.ts: "Oct 3, 2026"
+// with an optional ", 2:30 PM".
+function parseMeetingTimeLabel(label) {
+  const match = normalizeText(label).match(
+    /^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),\s*(\d{4})(?:,?\s+(\d{1,2}):(\d{2})\s*(am|pm))?$/i,
+  );
+  if (!match) return null;
+
+  const month = MONTH_ABBREVIATIONS.indexOf(match[1].toLowerCase()) + 1;
+  const day = Number.parseInt(match[2], 10);
+  const year = Number.parseInt(match[3], 10);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (month === 0 || parsed.getUTCDate() !== day) return null;
+
+  const date = parsed.toISOString().slice(0, 10);
+  if (!match[4]) return { date, time: "" };
+
+  const hours = Number.parseInt(match[4], 10);
+  const minutes = Number.parseInt(match[5], 10);
+  if (hours < 1 || hours > 12 || minutes > 59) return { date, time: "" };
+
+  const hours24 = (hours % 12) + (match[6].toLowerCase() === "pm" ? 12 : 0);
+  return { date, time: `${String(hours24).padStart(2, "0")}:${match[5]}` };
+}
+
+function isWorkspaceMeetingPath(path) {
+  const segments = path.split("/");
+  return segments.length === 4 && segments[0] === "workspaces" && segments[2] === "meetings";
+}
+
+// Meetings created before `scheduledDate`/`scheduledTime` were stored only have
+// their display label, so calendar feeds (which query `scheduledDate`) skip
+// them. The schedule is read back from the label; the timezone is left empty so
+// feeds fall back to each subscriber's profile timezone.
+async function main() {
+  const appRoot = process.cwd();
+  loadEnvConfig(appRoot);
+
+  const dryRun = shouldUseDryRun(process.argv.slice(2));
+  const db = getAdminDb();
+  const summary = {
+    dryRun,
+    meetingsScanned: 0,
+    meetingsUpdated: 0,
+    meetingsSkipped: 0,
+    batchCommits: 0,
+  };
+
+  let lastSnapshot = null;
+
+  while (true) {
+    let query = db.collectionGroup("meetings").orderBy(FieldPath.documentId()).limit(BATCH_LIMIT);
+    if (lastSnapshot) query = query.startAfter(lastSnapshot);
+    const page = await query.get();
+    if (page.empty) break;
+
+    const batch = db.batch();
+    let pendingWrites = 0;
+
+    page.docs.forEach((snapshot) => {
+      if (!isWorkspaceMeetingPath(snapshot.ref.path)) return;
+      summary.meetingsScanned += 1;
+      if (normalizeText(snapshot.get("scheduledDate"))) return;
+
+      const schedule = parseMeetingTimeLabel(snapshot.get("timeLabel"));
+      if (!schedule) {
+        summary.meetingsSkipped += 1;
+        return;
+      }
+
+      batch.update(snapshot.ref, {
+        scheduledDate: schedule.date,
+        scheduledTime: schedule.time,
+      });
+      pendingWrites += 1;
+    });
+
+    summary.meetingsUpdated += pendingWrites;
+    if (pendingWrites > 0 && !dryRun) {
+      await batch.commit();
+      summary.batchCommits += 1;
+    }
+
+    lastSnapshot = page.docs[page.docs.length - 1];
+    if (page.size < BATCH_LIMIT) break;
+  }
+
+  logSummary(summary);
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error("Migration failed.");
+  console.error(message);
+  process.exit(1);
+});
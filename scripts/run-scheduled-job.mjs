@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+
+import nextEnv from "@next/env";
+
+const { loadEnvConfig } = nextEnv;
+
+const JOB_PATHS = {
+  "action-digests": "/api/jobs/action-digests",
+  "action-workflow-migrations": "/api/jobs/action-workflow-migrations",
+  "held-emails": "/api/jobs/held-emails",
+  "invite-expiry": "/api/jobs/invite-expiry",
+  "workspace-deletions": "/api/jobs/workspace-deletions",
+};
+
+function normalizeText(value) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function resolveJobPath(argv) {
+  const jobName = normalizeText(argv[0]);
+  const path = JOB_PATHS[jobName];
+  if (!path) {
+    throw new Error(
+      `Unknown job "${jobName}". Expected one of: ${Object.keys(JOB_PATHS).join(", ")}.`,
+    );
+  }
+  return { jobName, path };
+}
+
+async function main() {
+  loadEnvConfig(process.cwd());
+
+  const { jobName, path } = resolveJobPath(process.argv.slice(2));
+  const baseUrl = normalizeText(process.env.APP_BASE_URL).replace(/\/+$/, "");
+  const secret = normalizeText(process.env.CRON_SECRET);
+  if (!baseUrl || !secret) {
+    throw new Error("APP_BASE_URL and CRON_SECRET are required to run scheduled jobs.");
+  }
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(result?.error ?? `Job ${jobName} failed with status ${response.status}.`);
+  }
+
+  console.log(`Job ${jobName} finished:`);
+  console.log(JSON.stringify(result?.summary ?? {}, null, 2));
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.stack ?? error.message : String(error);
+  console.error("Scheduled job failed.");
+  console.error(message);
+  process.exit(1);
+});
@@ -6,10 +6,17 @@ import {
   canEditActions,
   canEditDecisions,
   canEditMeetings,
+  canEditTeamMembership,
+  canEmailDecision,
+  canManageActionWorkflow,
+  canManageCustomFields,
   isWorkspaceMemberRole,
   canManageWorkspaceMembers,
+  canManageWorkspaceTeams,
   canRestoreMeetingRevisions,
   canUpdateWorkspaceSlug,
+  canViewDecision,
+  parseDecisionVisibility,
   parseWorkspaceMemberRole,
   WORKSPACE_MEMBER_ROLES,
   type WorkspaceMemberRole,
@@ -48,6 +55,8 @@ test("manager-only capabilities are restricted to owner/admin", () => {
     assert.equal(canRestoreMeetingRevisions(role), expected);
     assert.equal(canArchiveRestoreDecisions(role), expected);
     assert.equal(canArchiveRestoreActions(role), expected);
+    assert.equal(canManageCustomFields(role), expected);
+    assert.equal(canManageActionWorkflow(role), expected);
   }
 });
 
@@ -59,3 +68,83 @@ test("edit capabilities allow owner/admin/member and block viewer", () => {
     assert.equal(canEditActions(role), expected);
   }
 });
+
+test("workspace decisions are visible to every member role", () => {
+  for (const role of WORKSPACE_MEMBER_ROLES) {
+    assert.equal(canViewDecision({ uid: "u-1", role, teamIds: [] }, {}), true);
+    assert.equal(
+      canViewDecision({ uid: "u-1", role, teamIds: [] }, { visibility: "workspace" }),
+      true,
+    );
+  }
+});
+
+test("team decisions are limited to allowed teams, creators, owners and managers", () => {
+  const decision = {
+    visibility: "team",
+    allowedTeamIds: ["Platform"],
+    ownerUid: "owner-uid",
+    createdBy: "creator-uid",
+  };
+
+  assert.equal(
+    canViewDecision({ uid: "u-1", role: "member", teamIds: ["Platform"] }, decision),
+    true,
+  );
+  assert.equal(
+    canViewDecision({ uid: "u-1", role: "viewer", teamIds: ["Design"] }, decision),
+    false,
+  );
+  assert.equal(canViewDecision({ uid: "u-1", role: "admin", teamIds: [] }, decision), true);
+  assert.equal(
+    canViewDecision({ uid: "creator-uid", role: "member", teamIds: [] }, decision),
+    true,
+  );
+  assert.equal(canViewDecision({ uid: "owner-uid", role: "viewer", teamIds: [] }, decision), true);
+});
+
+test("private decisions ignore team membership", () => {
+  const decision = {
+    visibility: "private",
+    allowedTeamIds: ["Platform"],
+    ownerUid: "owner-uid",
+    createdBy: "owner-uid",
+  };
+
+  assert.equal(
+    canViewDecision({ uid: "u-1", role: "member", teamIds: ["Platform"] }, decision),
+    false,
+  );
+  assert.equal(canViewDecision({ uid: "owner-uid", role: "member", teamIds: [] }, decision), true);
+  assert.equal(canViewDecision({ uid: "u-1", role: "owner", teamIds: [] }, decision), true);
+  assert.equal(parseDecisionVisibility("unknown"), "workspace");
+});
+
+test("emailed decisions follow the recipient's access and stay workspace-only outside it", () => {
+  const teamDecision = { visibility: "team", allowedTeamIds: ["Platform"], ownerUid: "owner-uid" };
+
+  assert.equal(canEmailDecision(null, { visibility: "workspace" }), true);
+  assert.equal(canEmailDecision(null, {}), true);
+  assert.equal(canEmailDecision(null, teamDecision), false);
+  assert.equal(canEmailDecision(null, { visibility: "private", ownerUid: "" }), false);
+  assert.equal(
+    canEmailDecision({ uid: "u-1", role: "member", teamIds: ["Platform"] }, teamDecision),
+    true,
+  );
+  assert.equal(
+    canEmailDecision({ uid: "u-2", role: "member", teamIds: ["Design"] }, teamDecision),
+    false,
+  );
+});
+
+test("team management is limited to managers, with leads editing their own team", () => {
+  const team = { leadUids: ["lead-1"] };
+
+  for (const role of WORKSPACE_MEMBER_ROLES) {
+    assert.equal(canManageWorkspaceTeams(role), MANAGER_ROLES.has(role));
+    assert.equal(canEditTeamMembership(role, "someone", team), MANAGER_ROLES.has(role));
+  }
+
+  assert.equal(canEditTeamMembership("member", "lead-1", team), true);
+  assert.equal(canEditTeamMembership("viewer", "lead-1", team), false);
+});
@@ -0,0 +1,105 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildIcsCalendar,
+  DEFAULT_CALENDAR_TIMEZONE,
+  formatDateInTimezone,
+  parseMeetingTimeLabel,
+  resolveCalendarTimezone,
+  zonedDateTimeToUtc,
+} from "../../lib/calendar/ics.ts";
+
+test("resolveCalendarTimezone falls back for missing or unknown zones", () => {
+  assert.equal(resolveCalendarTimezone(" Europe/Berlin "), "Europe/Berlin");
+  assert.equal(resolveCalendarTimezone(""), DEFAULT_CALENDAR_TIMEZONE);
+  assert.equal(resolveCalendarTimezone(null), DEFAULT_CALENDAR_TIMEZONE);
+  assert.equal(resolveCalendarTimezone("Mars/Olympus"), DEFAULT_CALENDAR_TIMEZONE);
+});
+
+test("zonedDateTimeToUtc converts wall-clock times across DST changes", () => {
+  assert.equal(
+    zonedDateTimeToUtc("2026-07-01", "09:30", "America/Los_Angeles")?.toISOString(),
+    "2026-07-01T16:30:00.000Z",
+  );
+  assert.equal(
+    zonedDateTimeToUtc("2026-12-01", "09:30", "America/Los_Angeles")?.toISOString(),
+    "2026-12-01T17:30:00.000Z",
+  );
+  assert.equal(
+    zonedDateTimeToUtc("2026-03-08", "03:00", "America/Los_Angeles")?.toISOString(),
+    "2026-03-08T10:00:00.000Z",
+  );
+  assert.equal(zonedDateTimeToUtc("2026-07-01", "9am", "UTC"), null);
+});
+
+test("formatDateInTimezone reads the local calendar day", () => {
+  const instant = new Date("2026-10-20T03:00:00.000Z");
+
+  assert.equal(formatDateInTimezone(instant, "UTC"), "2026-10-20");
+  assert.equal(formatDateInTimezone(instant, "America/Los_Angeles"), "2026-10-19");
+});
+
+test("parseMeetingTimeLabel reads dated meeting labels", () => {
+  assert.deepEqual(parseMeetingTimeLabel("Oct 3, 2026, 2:30 PM"), {
+    date: "2026-10-03",
+    time: "14:30",
+  });
+  assert.deepEqual(parseMeetingTimeLabel("Dec 31, 2026, 12:05 AM"), {
+    date: "2026-12-31",
+    time: "00:05",
+  });
+  assert.deepEqual(parseMeetingTimeLabel("Feb 1, 2027"), { date: "2027-02-01", time: "" });
+  assert.equal(parseMeetingTimeLabel("Feb 30, 2027"), null);
+  assert.equal(parseMeetingTimeLabel("Date TBD"), null);
+  assert.equal(parseMeetingTimeLabel("Today, 10:00 AM"), null);
+});
+
+test("buildIcsCalendar writes timed and all-day events", () => {
+  const output = buildIcsCalendar({
+    name: "Acme, Inc.",
+    timezone: "UTC",
+    now: new Date("2026-10-19T12:00:00.000Z"),
+    events: [
+      {
+        uid: "meeting-1@synnapp",
+        summary: "Weekly sync; planning",
+        description: "Agenda:\nRoadmap",
+        start: new Date("2026-10-20T16:30:00.000Z"),
+        end: new Date("2026-10-20T17:00:00.000Z"),
+        updatedAt: new Date("2026-10-18T08:15:00.000Z"),
+      },
+      { uid: "action-1@synnapp", summary: "Ship launch plan", start: "2026-10-31" },
+    ],
+  });
+  const lines = output.split("\r\n");
+
+  assert.ok(output.endsWith("END:VCALENDAR\r\n"));
+  assert.ok(lines.includes("X-WR-CALNAME:Acme\\, Inc."));
+  assert.ok(lines.includes("DTSTAMP:20261019T120000Z"));
+  assert.ok(lines.includes("DTSTART:20261020T163000Z"));
+  assert.ok(lines.includes("DTEND:20261020T170000Z"));
+  assert.ok(lines.includes("SUMMARY:Weekly sync\\; planning"));
+  assert.ok(lines.includes("DESCRIPTION:Agenda:\\nRoadmap"));
+  assert.ok(lines.includes("LAST-MODIFIED:20261018T081500Z"));
+  assert.ok(lines.includes("DTSTART;VALUE=DATE:20261031"));
+  assert.ok(lines.includes("DTEND;VALUE=DATE:20261101"));
+});
+
+test("buildIcsCalendar folds long lines on UTF-8 octets", () => {
+  const output = buildIcsCalendar({
+    name: "Calendar",
+    timezone: "UTC",
+    now: new Date("2026-10-19T12:00:00.000Z"),
+    events: [{ uid: "event-1", summary: "Décision ".repeat(20).trim(), start: "2026-10-31" }],
+  });
+  const encoder = new TextEncoder();
+  const lines = output.split("\r\n");
+  const summaryIndex = lines.findIndex((line) => line.startsWith("SUMMARY:"));
+
+  assert.ok(lines[summaryIndex + 1]?.startsWith(" "));
+  assert.ok(lines.every((line) => encoder.encode(line).length <= 75));
+  assert.equal(
+    output.replace(/\r\n /g, "").split("\r\n")[summaryIndex],
+    `SUMMARY:${"Décision ".repeat(20).trim()}`,
+  );
+});
@@ -8,7 +8,7 @@ import {
   assertSucceeds,
   initializeTestEnvironment,
 } from "@firebase/rules-unit-testing";
-import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
+import { deleteDoc, doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const rules = readFileSync(resolve(__dirname, "../../firestore.rules"), "utf8");
@@ -52,7 +52,8 @@ async function seedBaseData() {
     const members = [
       { uid: "owner-1", role: "owner" },
       { uid: "admin-1", role: "admin" },
-      { uid: "member-1", role: "member" },
+      { uid: "member-1", role: "member", teamIds: ["Platform"] },
+      { uid: "member-2", role: "member", teamIds: ["Design"] },
       { uid: "viewer-1", role: "viewer" },
     ];
 
@@ -66,6 +67,23 @@ async function seedBaseData() {
       });
     }
 
+    await setDoc(doc(db, "workspaces", workspaceId, "teams", "Platform"), {
+      teamId: "Platform",
+      name: "Platform",
+      leadUids: ["member-1"],
+      memberUids: ["member-1"],
+      createdAt: 1,
+      updatedAt: 1,
+    });
+
+    await setDoc(doc(db, "workspaces", workspaceId, "customFields", "F-1"), {
+      key: "customer",
+      label: "Customer",
+      type: "text",
+      createdAt: 1,
+      updatedAt: 1,
+    });
+
     await setDoc(doc(db, "workspaces", workspaceId, "decisions", "D-1"), {
       title: "Initial decision",
       statement: "Initial statement",
@@ -79,6 +97,36 @@ async function seedBaseData() {
       createdBy: "member-1",
     });
 
+    await setDoc(doc(db, "workspaces", workspaceId, "decisions", "D-team"), {
+      title: "Platform-only decision",
+      statement: "Team statement",
+      ownerUid: "admin-1",
+      visibility: "team",
+      allowedTeamIds: ["Platform"],
+      archived: false,
+      updatedAt: 1,
+      createdAt: 1,
+      createdBy: "admin-1",
+    });
+
+    await setDoc(doc(db, "workspaces", workspaceId, "decisions", "D-private"), {
+      title: "Private decision",
+      statement: "Private statement",
+      ownerUid: "member-1",
+      visibility: "private",
+      allowedTeamIds: [],
+      archived: false,
+      updatedAt: 1,
+      createdAt: 1,
+      createdBy: "member-1",
+    });
+
+    await setDoc(doc(db, "workspaces", workspaceId, "decisions", "D-team", "history", "H-1"), {
+      type: "created",
+      actorUid: "admin-1",
+      createdAt: 1,
+    });
+
     await setDoc(doc(db, "workspaces", workspaceId, "actions", "A-1"), {
       title: "Initial action",
       description: "Initial action",
@@ -107,6 +155,31 @@ async function seedBaseData() {
       resendCount: 0,
     });
 
+    await setDoc(doc(db, "workspaces", workspaceId, "joinLinks", "L-1"), {
+      joinLinkId: "L-1",
+      token: "join-token-1",
+      role: "member",
+      status: "active",
+      allowedDomains: ["example.com"],
+      maxUses: 10,
+      useCount: 0,
+      createdByUid: "admin-1",
+      createdAt: 1,
+      updatedAt: 1,
+      expiresAt: 9999999999999,
+    });
+
+    await setDoc(doc(db, "workspaces", workspaceId, "joinRequests", "outsider-1"), {
+      uid: "outsider-1",
+      email: "outsider@example.com",
+      displayName: "Outsider",
+      status: "pending",
+      requestedAt: 1,
+      updatedAt: 1,
+      resolvedAt: null,
+      resolvedByUid: "",
+    });
+
     await setDoc(doc(db, "users", "owner-1"), {
       uid: "owner-1",
       displayName: "Owner One",
@@ -130,6 +203,54 @@ test("non-members cannot read workspace docs", async () => {
   await assertFails(getDoc(workspaceRef));
 });
 
+test("workspace deletion and ownership transfer are server-written", async () => {
+  const ownerDb = authedDb("owner-1");
+  const workspaceRef = doc(ownerDb, "workspaces", workspaceId);
+
+  await assertSucceeds(updateDoc(workspaceRef, { name: "Renamed Workspace" }));
+  await assertFails(updateDoc(workspaceRef, { deletion: { status: "scheduled" } }));
+  await assertFails(
+    updateDoc(workspaceRef, { ownershipTransfer: { status: "pending", toUid: "member-1" } }),
+  );
+  await assertFails(deleteDoc(workspaceRef));
+});
+
+test("workspaces scheduled for deletion are locked for members", async () => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await updateDoc(doc(context.firestore(), "workspaces", workspaceId), {
+      deletion: { status: "scheduled" },
+    });
+  });
+
+  const ownerDb = authedDb("owner-1");
+  const memberDb = authedDb("member-1");
+
+  await assertFails(getDoc(doc(ownerDb, "workspaces", workspaceId)));
+  await assertFails(updateDoc(doc(ownerDb, "workspaces", workspaceId), { name: "Renamed" }));
+  await assertFails(getDoc(doc(memberDb, "workspaces", workspaceId, "members", "member-1")));
+  await assertFails(getDoc(doc(memberDb, "workspaces", workspaceId, "decisions", "D-1")));
+});
+
+test("workspace domain discovery is server-written", async () => {
+  const adminDb = authedDb("admin-1");
+  const workspaceRef = doc(adminDb, "workspaces", workspaceId);
+
+  await assertFails(
+    updateDoc(workspaceRef, { discovery: { domain: "othercorp.com", mode: "auto_join" } }),
+  );
+});
+
+test("workspace action workflow is server-written", async () => {
+  const adminDb = authedDb("admin-1");
+  const workspaceRef = doc(adminDb, "workspaces", workspaceId);
+
+  await assertFails(
+    updateDoc(workspaceRef, {
+      actionWorkflow: { states: [{ id: "todo", label: "To do", category: "open" }] },
+    }),
+  );
+});
+
 test("users can read and update only their own user doc", async () => {
   const memberDb = authedDb("member-1");
   const ownUserRef = doc(memberDb, "users", "member-1");
@@ -226,6 +347,143 @@ test("admin can archive a decision", async () => {
   assert.equal(updated.data()?.archived, true);
 });
 
+test("decision access fields change only by managers or the decision owner", async () => {
+  const decisionPath = ["workspaces", workspaceId, "decisions", "D-1"];
+  const editedBy = (uid) => ({ updatedAt: 2, updatedBy: uid });
+
+  await assertFails(
+    updateDoc(doc(authedDb("member-2"), ...decisionPath), {
+      visibility: "private",
+      ...editedBy("member-2"),
+    }),
+  );
+  await assertFails(
+    updateDoc(doc(authedDb("member-2"), ...decisionPath), {
+      allowedTeamIds: ["Platform"],
+      ...editedBy("member-2"),
+    }),
+  );
+  await assertFails(
+    updateDoc(doc(authedDb("member-2"), ...decisionPath), {
+      ownerUid: "member-2",
+      ...editedBy("member-2"),
+    }),
+  );
+  await assertFails(
+    updateDoc(doc(authedDb("member-2"), ...decisionPath), {
+      createdBy: "member-2",
+      ...editedBy("member-2"),
+    }),
+  );
+  await assertSucceeds(
+    updateDoc(doc(authedDb("member-2"), ...decisionPath), {
+      statement: "Edited by another member",
+      ...editedBy("member-2"),
+    }),
+  );
+  await assertSucceeds(
+    updateDoc(doc(authedDb("member-1"), ...decisionPath), {
+      visibility: "team",
+      allowedTeamIds: ["Platform"],
+      ...editedBy("member-1"),
+    }),
+  );
+  await assertSucceeds(
+    updateDoc(doc(authedDb("admin-1"), ...decisionPath), {
+      visibility: "workspace",
+      allowedTeamIds: [],
+      ownerUid: "member-2",
+      ...editedBy("admin-1"),
+    }),
+  );
+});
+
+test("team decisions are readable only by members of an allowed team", async () => {
+  const teamDecisionPath = ["workspaces", workspaceId, "decisions", "D-team"];
+
+  await assertSucceeds(getDoc(doc(authedDb("member-1"), ...teamDecisionPath)));
+  await assertSucceeds(getDoc(doc(authedDb("owner-1"), ...teamDecisionPath)));
+  await assertFails(getDoc(doc(authedDb("member-2"), ...teamDecisionPath)));
+  await assertFails(getDoc(doc(authedDb("viewer-1"), ...teamDecisionPath)));
+  await assertFails(getDoc(doc(authedDb("member-2"), ...teamDecisionPath, "history", "H-1")));
+  await assertSucceeds(getDoc(doc(authedDb("member-1"), ...teamDecisionPath, "history", "H-1")));
+});
+
+test("private decisions are readable by their creator and managers only", async () => {
+  const privateDecisionPath = ["workspaces", workspaceId, "decisions", "D-private"];
+
+  await assertSucceeds(getDoc(doc(authedDb("member-1"), ...privateDecisionPath)));
+  await assertSucceeds(getDoc(doc(authedDb("admin-1"), ...privateDecisionPath)));
+  await assertFails(getDoc(doc(authedDb("member-2"), ...privateDecisionPath)));
+  await assertFails(getDoc(doc(authedDb("viewer-1"), ...privateDecisionPath)));
+  await assertFails(
+    updateDoc(doc(authedDb("member-2"), ...privateDecisionPath), {
+      title: "Edited without access",
+      updatedAt: 2,
+      updatedBy: "member-2",
+    }),
+  );
+});
+
+test("members can read teams but team writes are server-only", async () => {
+  const teamPath = ["workspaces", workspaceId, "teams", "Platform"];
+
+  await assertSucceeds(getDoc(doc(authedDb("viewer-1"), ...teamPath)));
+  await assertFails(getDoc(doc(authedDb("outsider-1"), ...teamPath)));
+  await assertFails(
+    updateDoc(doc(authedDb("member-1"), ...teamPath), {
+      memberUids: ["member-1", "member-2"],
+      updatedAt: 2,
+    }),
+  );
+  await assertFails(
+    setDoc(doc(authedDb("owner-1"), "workspaces", workspaceId, "teams", "Design"), {
+      teamId: "Design",
+      name: "Design",
+      leadUids: [],
+      memberUids: [],
+    }),
+  );
+});
+
+test("member teamIds are server-only even for managers", async () => {
+  const memberPath = ["workspaces", workspaceId, "members", "member-2"];
+
+  await assertFails(
+    updateDoc(doc(authedDb("owner-1"), ...memberPath), {
+      teamIds: ["Design", "Platform"],
+      updatedAt: 2,
+    }),
+  );
+  await assertSucceeds(
+    updateDoc(doc(authedDb("owner-1"), ...memberPath), {
+      role: "viewer",
+      updatedAt: 2,
+    }),
+  );
+  await assertFails(
+    setDoc(doc(authedDb("admin-1"), "workspaces", workspaceId, "members", "member-3"), {
+      uid: "member-3",
+      role: "member",
+      teamIds: ["Platform"],
+    }),
+  );
+});
+
+test("custom field definitions are readable by members and server-written", async () => {
+  const fieldPath = ["workspaces", workspaceId, "customFields", "F-1"];
+
+  await assertSucceeds(getDoc(doc(authedDb("viewer-1"), ...fieldPath)));
+  await assertFails(getDoc(doc(authedDb("outsider-1"), ...fieldPath)));
+  await assertFails(
+    setDoc(doc(authedDb("owner-1"), ...fieldPath), {
+      key: "cost-impact",
+      label: "Cost impact",
+      type: "number",
+    }),
+  );
+});
+
 test("viewer cannot edit actions", async () => {
   const viewerDb = authedDb("viewer-1");
   const actionRef = doc(viewerDb, "workspaces", workspaceId, "actions", "A-1");
@@ -295,6 +553,69 @@ test("member cannot read or create workspace invites", async () => {
   );
 });
 
+test("invite history is manager-readable and server-written", async () => {
+  const historyPath = ["workspaces", workspaceId, "invites", "I-1", "history", "E-1"];
+
+  await assertFails(getDoc(doc(authedDb("member-1"), ...historyPath)));
+  await assertSucceeds(getDoc(doc(authedDb("admin-1"), ...historyPath)));
+  await assertFails(
+    setDoc(doc(authedDb("admin-1"), ...historyPath), {
+      eventType: "revoked",
+      source: "manual",
+      actorUid: "admin-1",
+      at: 2,
+    }),
+  );
+});
+
+test("search index entries are server-only", async () => {
+  const entryPath = ["workspaces", workspaceId, "searchIndex", "decision_D-1"];
+
+  await assertFails(getDoc(doc(authedDb("member-1"), ...entryPath)));
+  await assertFails(getDoc(doc(authedDb("admin-1"), ...entryPath)));
+  await assertFails(
+    setDoc(doc(authedDb("admin-1"), ...entryPath), {
+      kind: "decision",
+      entityId: "D-1",
+      tokens: ["pricing"],
+    }),
+  );
+});
+
+test("saved searches are readable by their owner or when shared", async () => {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, "workspaces", workspaceId, "savedSearches", "S-private"), {
+      name: "My blocked actions",
+      query: "status:blocked",
+      ownerUid: "member-1",
+      shared: false,
+      pinnedUids: ["member-1"],
+    });
+    await setDoc(doc(db, "workspaces", workspaceId, "savedSearches", "S-shared"), {
+      name: "Launch decisions",
+      query: "tag:launch",
+      ownerUid: "member-1",
+      shared: true,
+      pinnedUids: [],
+    });
+  });
+
+  const privatePath = ["workspaces", workspaceId, "savedSearches", "S-private"];
+  const sharedPath = ["workspaces", workspaceId, "savedSearches", "S-shared"];
+
+  await assertSucceeds(getDoc(doc(authedDb("member-1"), ...privatePath)));
+  await assertFails(getDoc(doc(authedDb("member-2"), ...privatePath)));
+  await assertFails(getDoc(doc(authedDb("admin-1"), ...privatePath)));
+  await assertSucceeds(getDoc(doc(authedDb("viewer-1"), ...sharedPath)));
+  await assertFails(getDoc(doc(authedDb("outsider-1"), ...sharedPath)));
+  await assertFails(
+    updateDoc(doc(authedDb("member-1"), ...sharedPath), {
+      pinnedUids: ["member-1"],
+    }),
+  );
+});
+
 test("admin can read and create workspace invites", async () => {
   const adminDb = authedDb("admin-1");
   const existingInviteRef = doc(adminDb, "workspaces", workspaceId, "invites", "I-1");
@@ -318,6 +639,32 @@ test("admin can read and create workspace invites", async () => {
   );
 });
 
+test("join links are manager-readable and server-written", async () => {
+  const linkPath = ["workspaces", workspaceId, "joinLinks", "L-1"];
+
+  await assertFails(getDoc(doc(authedDb("member-1"), ...linkPath)));
+  await assertSucceeds(getDoc(doc(authedDb("admin-1"), ...linkPath)));
+  await assertFails(
+    updateDoc(doc(authedDb("admin-1"), ...linkPath), {
+      useCount: 0,
+      maxUses: 500,
+    }),
+  );
+});
+
+test("join requests are readable by managers and the requester only", async () => {
+  const requestPath = ["workspaces", workspaceId, "joinRequests", "outsider-1"];
+
+  await assertFails(getDoc(doc(authedDb("member-1"), ...requestPath)));
+  await assertSucceeds(getDoc(doc(authedDb("admin-1"), ...requestPath)));
+  await assertSucceeds(getDoc(doc(authedDb("outsider-1"), ...requestPath)));
+  await assertFails(
+    updateDoc(doc(authedDb("outsider-1"), ...requestPath), {
+      status: "approved",
+    }),
+  );
+});
+
 test("clients cannot read workspace invite token documents", async () => {
   const memberDb = authedDb("member-1");
   const tokenRef = doc(memberDb, "workspaceInviteTokens", "token-1");
@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildActionDigestSection,
+  type OwnedAction,
+} from "../../lib/notifications/action-digest-sections.ts";
+
+const NOW = new Date("2026-10-19T15:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function buildAction(id: string, overrides: Partial<OwnedAction> = {}): OwnedAction {
+  return {
+    id,
+    title: `Action ${id}`,
+    dueAt: null,
+    dueLabel: "",
+    dueSoonFlag: false,
+    priority: "medium",
+    blocked: false,
+    ...overrides,
+  };
+}
+
+function buildSection(actions: OwnedAction[], windowDays: number) {
+  return buildActionDigestSection({
+    workspaceName: "Acme",
+    workspaceSlug: "acme",
+    actions,
+    windowDays,
+    now: NOW,
+    timezone: "UTC",
+  });
+}
+
+test("buildActionDigestSection splits overdue and due-soon actions by due date", () => {
+  const section = buildSection(
+    [
+      buildAction("A-3", { dueAt: new Date(NOW.getTime() + DAY_MS) }),
+      buildAction("A-1", { dueAt: new Date(NOW.getTime() - 3 * DAY_MS) }),
+      buildAction("A-2", { dueAt: new Date(NOW.getTime() - DAY_MS), blocked: true }),
+      buildAction("A-4", { dueAt: new Date(NOW.getTime() + 5 * DAY_MS) }),
+    ],
+    2,
+  );
+
+  assert.deepEqual(
+    section.overdue.map((item) => item.id),
+    ["A-1", "A-2"],
+  );
+  assert.deepEqual(
+    section.dueSoon.map((item) => item.id),
+    ["A-3"],
+  );
+  assert.equal(section.overdue[1].blocked, true);
+  assert.equal(section.overdue[0].dueLabel, "Oct 16");
+  assert.equal(section.dueSoon[0].path, "/acme/actions/A-3");
+});
+
+test("buildActionDigestSection widens due soon to the weekly window", () => {
+  const section = buildSection(
+    [buildAction("A-4", { dueAt: new Date(NOW.getTime() + 5 * DAY_MS) })],
+    7,
+  );
+
+  assert.deepEqual(
+    section.dueSoon.map((item) => item.id),
+    ["A-4"],
+  );
+});
+
+test("buildActionDigestSection lists undated actions only when flagged or labelled", () => {
+  const section = buildSection(
+    [
+      buildAction("A-5", { dueSoonFlag: true }),
+      buildAction("A-6", { dueLabel: "Tomorrow" }),
+      buildAction("A-7", { dueLabel: "No due date" }),
+    ],
+    2,
+  );
+
+  assert.deepEqual(section.overdue, []);
+  assert.deepEqual(
+    section.dueSoon.map((item) => item.id),
+    ["A-5", "A-6"],
+  );
+  assert.equal(section.dueSoon[1].dueLabel, "Tomorrow");
+});
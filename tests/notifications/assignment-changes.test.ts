@@ -0,0 +1,79 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  describeAssignment,
+  resolveAssignmentTargets,
+  resolveOwnerMember,
+  type AssignmentChangeInput,
+} from "../../lib/notifications/assignment-changes.ts";
+
+const sam = { uid: "uid-sam", email: "sam@acme.com", displayName: "Sam Rivera" };
+const lee = { uid: "uid-lee", email: "lee@acme.com", displayName: "Lee Chen" };
+const memberIndex = {
+  byEmail: new Map([
+    [sam.email, sam],
+    [lee.email, lee],
+  ]),
+  byUid: new Map([
+    [sam.uid, sam],
+    [lee.uid, lee],
+  ]),
+  // Display names shared by two members are ambiguous and stored as null.
+  byDisplayName: new Map([
+    ["sam rivera", sam],
+    ["alex", null],
+  ]),
+};
+
+function change(overrides: Partial<AssignmentChangeInput>): AssignmentChangeInput {
+  return {
+    entityType: "action",
+    owner: "",
+    previousOwner: "",
+    status: "todo",
+    previousStatus: "todo",
+    actorUid: "uid-actor",
+    ...overrides,
+  };
+}
+
+test("resolveOwnerMember matches emails, then unambiguous display names", () => {
+  assert.equal(resolveOwnerMember("LEE@acme.com", memberIndex), lee);
+  assert.equal(resolveOwnerMember("Sam Rivera", memberIndex), sam);
+  assert.equal(resolveOwnerMember("Alex", memberIndex), null);
+  assert.equal(resolveOwnerMember("Unassigned", memberIndex), null);
+});
+
+test("reassignment notifies the new and the previous owner", () => {
+  const input = change({ owner: "lee@acme.com", previousOwner: "Sam Rivera" });
+
+  assert.deepEqual(resolveAssignmentTargets(input, lee, sam), [
+    { uid: "uid-lee", change: "assigned" },
+    { uid: "uid-sam", change: "reassigned" },
+  ]);
+  assert.equal(
+    describeAssignment(input, "assigned", "Jo"),
+    "Jo reassigned an action to you from Sam Rivera.",
+  );
+  assert.equal(
+    describeAssignment(input, "reassigned", "Jo"),
+    "Jo reassigned your action to lee@acme.com.",
+  );
+});
+
+test("status changes notify the owner unless they made the change", () => {
+  const input = change({ owner: "Sam Rivera", status: "done", statusLabel: "Shipped" });
+
+  assert.deepEqual(resolveAssignmentTargets(input, sam, sam), [
+    { uid: "uid-sam", change: "statusChanged" },
+  ]);
+  assert.equal(
+    describeAssignment(input, "statusChanged", "Jo"),
+    "Jo moved your action from Todo to Shipped.",
+  );
+  assert.deepEqual(resolveAssignmentTargets({ ...input, actorUid: "uid-sam" }, sam, sam), []);
+});
+
+test("an unchanged owner and status notifies no one", () => {
+  assert.deepEqual(resolveAssignmentTargets(change({ owner: "Sam Rivera" }), sam, sam), []);
+});
@@ -0,0 +1,39 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  broadcastNotificationsChanged,
+  subscribeNotificationsChanged,
+} from "../../lib/notifications/client-sync.ts";
+
+function waitForMessages() {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+test("client sync is a no-op outside the browser", () => {
+  const unsubscribe = subscribeNotificationsChanged(() => {
+    assert.fail("no listener should be registered on the server");
+  });
+  broadcastNotificationsChanged();
+  unsubscribe();
+});
+
+test("a change in one tab reloads subscribed tabs until they unsubscribe", async (t) => {
+  Object.assign(globalThis, { window: globalThis });
+  t.after(() => {
+    Reflect.deleteProperty(globalThis, "window");
+  });
+
+  let reloads = 0;
+  const unsubscribe = subscribeNotificationsChanged(() => {
+    reloads += 1;
+  });
+
+  broadcastNotificationsChanged();
+  await waitForMessages();
+  assert.equal(reloads, 1);
+
+  unsubscribe();
+  broadcastNotificationsChanged();
+  await waitForMessages();
+  assert.equal(reloads, 1);
+});
@@ -0,0 +1,169 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildEntityGroups,
+  compareScanPositions,
+  decodeCursor,
+  encodeCursor,
+  resolveItemView,
+  type MentionNotification,
+  type AssignmentNotification,
+} from "../../lib/notifications/inbox-groups.ts";
+
+const now = Date.parse("2026-03-10T12:00:00.000Z");
+
+const triage = { isRead: false, readAt: "", snoozedUntil: "", archivedAt: "" };
+
+const record = {
+  workspaceId: "ws-1",
+  workspaceSlug: "acme",
+  workspaceName: "Acme",
+  entityType: "decision" as const,
+  entityId: "dec-1",
+  entityTitle: "Adopt Postgres",
+  entityPath: "/acme/decisions/dec-1",
+  eventCount: 1,
+  createdAt: "2026-03-09T09:00:00.000Z",
+};
+
+function mention(overrides: Partial<MentionNotification> = {}): MentionNotification {
+  return {
+    ...triage,
+    ...record,
+    id: "mention_ws-1_decision_dec-1",
+    notificationId: "mention_ws-1_decision_dec-1",
+    type: "mention",
+    mentionedByName: "Sam Rivera",
+    preview: "Can you review this?",
+    updatedAt: "2026-03-09T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function assignment(overrides: Partial<AssignmentNotification> = {}): AssignmentNotification {
+  return {
+    ...triage,
+    ...record,
+    id: "assignment_ws-1_decision_dec-1",
+    notificationId: "assignment_ws-1_decision_dec-1",
+    type: "assignment",
+    change: "assigned",
+    summary: "Sam Rivera assigned you this decision.",
+    changedByName: "Sam Rivera",
+    updatedAt: "2026-03-09T11:00:00.000Z",
+    ...overrides,
+  };
+}
+
+test("resolveItemView puts archived rows first and lets past snoozes return to the inbox", () => {
+  assert.equal(resolveItemView({ ...triage }, now), "inbox");
+  assert.equal(
+    resolveItemView({ ...triage, snoozedUntil: "2026-03-11T08:00:00.000Z" }, now),
+    "snoozed",
+  );
+  assert.equal(
+    resolveItemView({ ...triage, snoozedUntil: "2026-03-10T08:00:00.000Z" }, now),
+    "inbox",
+  );
+  assert.equal(
+    resolveItemView(
+      {
+        ...triage,
+        snoozedUntil: "2026-03-11T08:00:00.000Z",
+        archivedAt: "2026-03-09T08:00:00.000Z",
+      },
+      now,
+    ),
+    "archived",
+  );
+});
+
+test("buildEntityGroups collapses rows about one record into a single group", () => {
+  const groups = buildEntityGroups(
+    [mention(), assignment({ isRead: true, eventCount: 3 })],
+    now,
+  );
+
+  assert.equal(groups.length, 1);
+  const [group] = groups;
+  assert.equal(group.key, "entity:ws-1:decision:dec-1");
+  assert.equal(group.view, "inbox");
+  assert.equal(group.isRead, false);
+  assert.equal(group.updatedAt, "2026-03-09T11:00:00.000Z");
+  assert.deepEqual(
+    group.items.map((item) => item.type),
+    ["assignment", "mention"],
+  );
+  // Read rows no longer count towards the badge.
+  assert.equal(group.eventCount, 1);
+});
+
+test("buildEntityGroups keeps separate records apart", () => {
+  const groups = buildEntityGroups(
+    [mention(), mention({ entityId: "dec-2", notificationId: "mention_ws-1_decision_dec-2" })],
+    now,
+  );
+
+  assert.deepEqual(
+    groups.map((group) => group.key),
+    ["entity:ws-1:decision:dec-1", "entity:ws-1:decision:dec-2"],
+  );
+});
+
+test("new activity on an archived record brings its group back to the inbox", () => {
+  const [group] = buildEntityGroups(
+    [mention({ archivedAt: "2026-03-09T12:00:00.000Z" }), assignment()],
+    now,
+  );
+
+  assert.equal(group.view, "inbox");
+});
+
+test("a group is snoozed until its latest snooze when no row is in the inbox", () => {
+  const [group] = buildEntityGroups(
+    [
+      mention({ snoozedUntil: "2026-03-11T08:00:00.000Z" }),
+      assignment({ snoozedUntil: "2026-03-12T08:00:00.000Z" }),
+    ],
+    now,
+  );
+
+  assert.equal(group.view, "snoozed");
+  assert.equal(group.snoozedUntil, "2026-03-12T08:00:00.000Z");
+});
+
+test("a group is archived only when every row is archived", () => {
+  const [group] = buildEntityGroups(
+    [
+      mention({ archivedAt: "2026-03-09T12:00:00.000Z" }),
+      assignment({ archivedAt: "2026-03-09T13:00:00.000Z", isRead: true }),
+    ],
+    now,
+  );
+
+  assert.equal(group.view, "archived");
+});
+
+test("cursors round-trip for their own view only", () => {
+  const position = { seconds: 1_773_000_000, nanoseconds: 500, id: "mention_ws-1" };
+  const cursor = encodeCursor("archived", position);
+
+  assert.deepEqual(decodeCursor(cursor, "archived"), position);
+  assert.equal(decodeCursor(cursor, "inbox"), null);
+  assert.equal(decodeCursor("", "archived"), null);
+  assert.equal(decodeCursor("not-a-cursor", "archived"), null);
+});
+
+test("compareScanPositions follows each view's query order", () => {
+  const earlier = { seconds: 100, nanoseconds: 0, id: "b" };
+  const later = { seconds: 200, nanoseconds: 0, id: "a" };
+
+  // The inbox and archive read newest first; snoozed rows read soonest first.
+  assert.ok(compareScanPositions(later, earlier, "inbox") < 0);
+  assert.ok(compareScanPositions(later, earlier, "archived") < 0);
+  assert.ok(compareScanPositions(earlier, later, "snoozed") < 0);
+
+  const tieA = { seconds: 100, nanoseconds: 0, id: "a" };
+  assert.ok(compareScanPositions(earlier, tieA, "inbox") < 0);
+  assert.ok(compareScanPositions(tieA, earlier, "snoozed") < 0);
+});
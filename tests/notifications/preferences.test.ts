@@ -0,0 +1,84 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  isWithinQuietHours,
+  normalizeLegacyNotifications,
+  normalizeNotificationPreferences,
+  resolveNotificationDelivery,
+  resolveQuietHoursEnd,
+} from "../../lib/notifications/preferences.ts";
+
+const legacy = normalizeLegacyNotifications(undefined);
+
+function preferencesWithQuietHours(start: string, end: string, timezone = "America/New_York") {
+  return normalizeNotificationPreferences(
+    {
+      channels: { mention: { inApp: true, email: true } },
+      quietHours: { enabled: true, start, end, timezone },
+    },
+    legacy,
+  );
+}
+
+test("normalizeNotificationPreferences seeds legacy toggles and drops unsupported channels", () => {
+  const preferences = normalizeNotificationPreferences(
+    { channels: { meetingDigest: { inApp: true, email: true } } },
+    normalizeLegacyNotifications({ actionReminders: false }),
+    "Not/AZone",
+  );
+
+  assert.deepEqual(preferences.channels.meetingDigest, { inApp: false, email: true });
+  assert.deepEqual(preferences.channels.actionReminder, { inApp: false, email: false });
+  assert.deepEqual(preferences.channels.mention, { inApp: true, email: false });
+  assert.equal(preferences.quietHours.enabled, false);
+  assert.equal(preferences.quietHours.timezone, "UTC");
+});
+
+test("quiet hours wrap past midnight in the member's timezone", () => {
+  const { quietHours } = preferencesWithQuietHours("22:00", "07:00");
+
+  // 23:30 and 06:59 in New York (EDT, UTC-4) are quiet; 07:00 is not.
+  assert.equal(isWithinQuietHours(quietHours, new Date("2026-10-20T03:30:00Z")), true);
+  assert.equal(isWithinQuietHours(quietHours, new Date("2026-10-20T10:59:00Z")), true);
+  assert.equal(isWithinQuietHours(quietHours, new Date("2026-10-20T11:00:00Z")), false);
+  assert.equal(isWithinQuietHours(quietHours, new Date("2026-10-20T01:59:00Z")), false);
+});
+
+test("equal start and end times never hold email", () => {
+  const { quietHours } = preferencesWithQuietHours("09:00", "09:00");
+
+  assert.equal(isWithinQuietHours(quietHours, new Date("2026-10-20T13:00:00Z")), false);
+});
+
+test("resolveQuietHoursEnd releases at the next local end time, rounded to the minute", () => {
+  const { quietHours } = preferencesWithQuietHours("22:00", "07:00");
+
+  assert.equal(
+    resolveQuietHoursEnd(quietHours, new Date("2026-10-20T03:30:45Z")).toISOString(),
+    "2026-10-20T11:00:00.000Z",
+  );
+});
+
+test("resolveNotificationDelivery holds email during quiet hours but keeps in-app", () => {
+  const preferences = preferencesWithQuietHours("22:00", "07:00");
+
+  assert.deepEqual(
+    resolveNotificationDelivery(preferences, "mention", new Date("2026-10-20T03:30:00Z")),
+    {
+      inApp: true,
+      email: false,
+      emailHeldForQuietHours: true,
+      emailReleaseAt: new Date("2026-10-20T11:00:00Z"),
+    },
+  );
+  assert.deepEqual(
+    resolveNotificationDelivery(preferences, "mention", new Date("2026-10-20T15:00:00Z")),
+    { inApp: true, email: true, emailHeldForQuietHours: false, emailReleaseAt: null },
+  );
+  // Nothing is held for events whose email is turned off.
+  assert.equal(
+    resolveNotificationDelivery(preferences, "assignment", new Date("2026-10-20T03:30:00Z"))
+      .emailHeldForQuietHours,
+    false,
+  );
+});
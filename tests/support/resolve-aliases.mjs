@@ -0,0 +1,14 @@
+import { registerHooks } from "node:module";
+
+const ROOT_URL = new URL("../../", import.meta.url);
+
+// Unit tests run the TypeScript sources directly, so resolve the `@/` path
+// alias from tsconfig to the matching `.ts` file.
+registerHooks({
+  resolve(specifier, context, nextResolve) {
+    if (specifier.startsWith("@/")) {
+      return nextResolve(new URL(`${specifier.slice(2)}.ts`, ROOT_URL).href, context);
+    }
+    return nextResolve(specifier, context);
+  },
+});
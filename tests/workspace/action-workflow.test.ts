@@ -0,0 +1,95 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildNextActionWorkflow,
+  DEFAULT_ACTION_WORKFLOW,
+  parseActionWorkflow,
+  resolveActionState,
+  validateActionWorkflowStates,
+  type ActionWorkflow,
+} from "../../lib/workspace/action-workflow.ts";
+
+const REVIEW_WORKFLOW: ActionWorkflow = {
+  states: [
+    { id: "todo", label: "To do", category: "open" },
+    { id: "in-review", label: "In review", category: "open" },
+    { id: "waiting", label: "Waiting", category: "blocked" },
+    { id: "shipped", label: "Shipped", category: "closed" },
+  ],
+  retiredStates: { doing: "in-review" },
+};
+
+test("validateActionWorkflowStates derives ids and requires open and closed states", () => {
+  const result = validateActionWorkflowStates([
+    { label: " In Review ", category: "open" },
+    { id: "done", label: "Finished", category: "closed" },
+  ]);
+
+  assert.deepEqual(result, {
+    states: [
+      { id: "in-review", label: "In Review", category: "open" },
+      { id: "done", label: "Finished", category: "closed" },
+    ],
+  });
+  assert.ok("error" in validateActionWorkflowStates([{ label: "Open", category: "open" }]));
+  assert.ok(
+    "error" in
+      validateActionWorkflowStates([
+        { label: "Open", category: "open" },
+        { label: "open", category: "closed" },
+      ]),
+  );
+});
+
+test("parseActionWorkflow falls back to the default workflow and drops bad retired ids", () => {
+  assert.equal(parseActionWorkflow(undefined), DEFAULT_ACTION_WORKFLOW);
+  assert.equal(parseActionWorkflow({ states: [] }), DEFAULT_ACTION_WORKFLOW);
+  assert.deepEqual(
+    parseActionWorkflow({
+      states: REVIEW_WORKFLOW.states,
+      retiredStates: { doing: "in-review", todo: "shipped", old: "missing" },
+    }).retiredStates,
+    { doing: "in-review" },
+  );
+});
+
+test("resolveActionState matches ids, retired ids and legacy statuses", () => {
+  assert.equal(resolveActionState(REVIEW_WORKFLOW, "waiting").id, "waiting");
+  assert.equal(resolveActionState(REVIEW_WORKFLOW, " in-review ").id, "in-review");
+  assert.equal(resolveActionState(REVIEW_WORKFLOW, "doing").id, "in-review");
+  assert.equal(resolveActionState(REVIEW_WORKFLOW, "done").id, "shipped");
+  assert.equal(resolveActionState(REVIEW_WORKFLOW, "blocked").id, "waiting");
+  assert.equal(resolveActionState(REVIEW_WORKFLOW, "unknown").id, "todo");
+  assert.equal(resolveActionState(REVIEW_WORKFLOW, undefined).id, "todo");
+});
+
+test("buildNextActionWorkflow hands removed states to the same category", () => {
+  const { workflow, replacements } = buildNextActionWorkflow(REVIEW_WORKFLOW, [
+    { id: "todo", label: "To do", category: "open" },
+    { id: "shipped", label: "Shipped", category: "closed" },
+  ]);
+
+  assert.deepEqual(
+    Array.from(replacements, ([fromId, state]) => [fromId, state.id]),
+    [
+      ["in-review", "todo"],
+      ["waiting", "todo"],
+    ],
+  );
+  // Older retired ids are repointed so lookups stay one hop.
+  assert.deepEqual(workflow.retiredStates, {
+    doing: "todo",
+    "in-review": "todo",
+    waiting: "todo",
+  });
+});
+
+test("buildNextActionWorkflow drops retired ids that are added back", () => {
+  const { workflow, replacements } = buildNextActionWorkflow(REVIEW_WORKFLOW, [
+    ...REVIEW_WORKFLOW.states,
+    { id: "doing", label: "Doing", category: "open" },
+  ]);
+
+  assert.equal(replacements.size, 0);
+  assert.deepEqual(workflow.retiredStates, {});
+});
@@ -0,0 +1,44 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseBulkInviteInput } from "../../lib/workspace/bulk-invites.ts";
+
+test("parseBulkInviteInput reads pasted emails in any separator mix", () => {
+  const rows = parseBulkInviteInput(
+    "Sam@Acme.com, lee@acme.com;ana@acme.com\n\nkai@acme.com",
+    "member",
+  );
+
+  assert.deepEqual(
+    rows.map(({ line, email, role }) => ({ line, email, role })),
+    [
+      { line: 1, email: "sam@acme.com", role: "member" },
+      { line: 1, email: "lee@acme.com", role: "member" },
+      { line: 1, email: "ana@acme.com", role: "member" },
+      { line: 3, email: "kai@acme.com", role: "member" },
+    ],
+  );
+});
+
+test("parseBulkInviteInput reads a role column without a header", () => {
+  const rows = parseBulkInviteInput("sam@acme.com,Admin\nlee@acme.com,boss", "viewer");
+
+  assert.deepEqual(
+    rows.map(({ email, role, rawRole }) => ({ email, role, rawRole })),
+    [
+      { email: "sam@acme.com", role: "admin", rawRole: "admin" },
+      { email: "lee@acme.com", role: null, rawRole: "boss" },
+    ],
+  );
+});
+
+test("parseBulkInviteInput reads CSV with a header in any column order", () => {
+  const rows = parseBulkInviteInput('role,email\nviewer,"sam@acme.com"\n,lee@acme.com', "member");
+
+  assert.deepEqual(
+    rows.map(({ line, email, role }) => ({ line, email, role })),
+    [
+      { line: 2, email: "sam@acme.com", role: "viewer" },
+      { line: 3, email: "lee@acme.com", role: "member" },
+    ],
+  );
+});
@@ -0,0 +1,129 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_CUSTOM_FIELD_TEXT_LENGTH,
+  validateCustomFieldValues,
+  type CustomFieldDefinition,
+} from "../../lib/workspace/custom-fields.ts";
+
+function field(overrides: Partial<CustomFieldDefinition>): CustomFieldDefinition {
+  return {
+    id: "F-1",
+    key: "field",
+    label: "Field",
+    description: "",
+    type: "text",
+    options: [],
+    appliesTo: ["decision", "action"],
+    required: false,
+    archived: false,
+    position: 0,
+    ...overrides,
+  };
+}
+
+const priority = field({
+  id: "F-priority",
+  label: "Priority",
+  type: "select",
+  options: ["Low", "High"],
+});
+const tags = field({
+  id: "F-tags",
+  label: "Tags",
+  type: "multiSelect",
+  options: ["api", "ui"],
+});
+const estimate = field({ id: "F-estimate", label: "Estimate", type: "number" });
+const dueOn = field({ id: "F-due", label: "Due on", type: "date" });
+const notes = field({ id: "F-notes", label: "Notes" });
+
+function validate(
+  fields: CustomFieldDefinition[],
+  input: Record<string, unknown>,
+  existing: Record<string, string | number | string[]> = {},
+) {
+  return validateCustomFieldValues({ fields, entityType: "decision", input, existing });
+}
+
+test("valid values are normalized and empty ones are dropped", () => {
+  assert.deepEqual(
+    validate([priority, tags, estimate, dueOn, notes], {
+      "F-priority": " High ",
+      "F-tags": ["ui", "api", "ui"],
+      "F-estimate": "3.5",
+      "F-due": "2026-04-01",
+      "F-notes": "   ",
+    }),
+    {
+      values: {
+        "F-priority": "High",
+        "F-tags": ["ui", "api"],
+        "F-estimate": 3.5,
+        "F-due": "2026-04-01",
+      },
+    },
+  );
+});
+
+test("values outside a field's type or options are rejected", () => {
+  assert.deepEqual(validate([priority], { "F-priority": "Urgent" }), {
+    error: '"Urgent" is not an option for Priority.',
+  });
+  assert.deepEqual(validate([tags], { "F-tags": ["api", "infra"] }), {
+    error: '"infra" is not an option for Tags.',
+  });
+  assert.deepEqual(validate([estimate], { "F-estimate": "soon" }), {
+    error: "Estimate must be a number.",
+  });
+  assert.deepEqual(validate([dueOn], { "F-due": "2026-02-30" }), {
+    error: "Due on must be a date (YYYY-MM-DD).",
+  });
+  assert.deepEqual(validate([notes], { "F-notes": "x".repeat(MAX_CUSTOM_FIELD_TEXT_LENGTH + 1) }), {
+    error: `Notes must be ${MAX_CUSTOM_FIELD_TEXT_LENGTH} characters or fewer.`,
+  });
+});
+
+test("required fields must have a value", () => {
+  const required = { ...priority, required: true };
+
+  assert.deepEqual(validate([required], {}), { error: "Priority is required." });
+  assert.deepEqual(validate([required], { "F-priority": "Low" }), {
+    values: { "F-priority": "Low" },
+  });
+});
+
+test("options removed after a value was saved stay valid on that record", () => {
+  const trimmed = { ...priority, options: ["Low"] };
+  const trimmedTags = { ...tags, options: ["ui"] };
+  const existing = { "F-priority": "High", "F-tags": ["api"] };
+
+  assert.deepEqual(
+    validate([trimmed, trimmedTags], { "F-priority": "High", "F-tags": ["api", "ui"] }, existing),
+    { values: { "F-priority": "High", "F-tags": ["api", "ui"] } },
+  );
+  assert.deepEqual(validate([trimmed], { "F-priority": "High" }), {
+    error: '"High" is not an option for Priority.',
+  });
+});
+
+test("values for archived or other-entity fields are carried over untouched", () => {
+  const archived = { ...notes, archived: true };
+  const actionOnly = { ...estimate, appliesTo: ["action" as const] };
+
+  assert.deepEqual(
+    validate(
+      [archived, actionOnly, priority],
+      { "F-notes": "changed", "F-estimate": 9, "F-priority": "Low" },
+      { "F-notes": "kept", "F-estimate": 2, "F-deleted": "left over" },
+    ),
+    {
+      values: {
+        "F-notes": "kept",
+        "F-estimate": 2,
+        "F-deleted": "left over",
+        "F-priority": "Low",
+      },
+    },
+  );
+});
@@ -0,0 +1,90 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildDecisionLineage } from "../../lib/workspace/decision-lineage.ts";
+
+const viewer = { uid: "member-1", role: "member" as const, teamIds: [] };
+
+function sourceFrom(decisions: Record<string, Record<string, unknown>>) {
+  return {
+    async loadDecision(id: string) {
+      return decisions[id] ?? null;
+    },
+    async findSuccessorId(id: string) {
+      return (
+        Object.entries(decisions).find(([, data]) => data.supersedesDecisionId === id)?.[0] ?? ""
+      );
+    },
+  };
+}
+
+test("buildDecisionLineage orders the chain oldest first and finds the one in force", async () => {
+  const lineage = await buildDecisionLineage(
+    "D-2",
+    viewer,
+    sourceFrom({
+      "D-1": { title: "v1", status: "superseded", supersededByDecisionId: "D-2" },
+      "D-2": { title: "v2", status: "superseded", supersedesDecisionId: "D-1" },
+      // Linked from one side only: D-2 has no supersededByDecisionId.
+      "D-3": { title: "v3", status: "accepted", supersedesDecisionId: "D-2" },
+    }),
+  );
+
+  assert.deepEqual(lineage?.chain.map((node) => node.id), ["D-1", "D-2", "D-3"]);
+  assert.deepEqual(lineage?.ancestorIds, ["D-1"]);
+  assert.deepEqual(lineage?.descendantIds, ["D-3"]);
+  assert.equal(lineage?.inForceDecisionId, "D-3");
+  assert.deepEqual(lineage?.issues, []);
+});
+
+test("buildDecisionLineage stops at cycles and reports them", async () => {
+  const lineage = await buildDecisionLineage(
+    "D-1",
+    viewer,
+    sourceFrom({
+      "D-1": { title: "v1", supersedesDecisionId: "D-2", supersededByDecisionId: "D-2" },
+      "D-2": { title: "v2", supersedesDecisionId: "D-1", supersededByDecisionId: "D-1" },
+    }),
+  );
+
+  assert.deepEqual(lineage?.chain.map((node) => node.id), ["D-2", "D-1"]);
+  assert.deepEqual(
+    lineage?.issues.map((issue) => [issue.type, issue.decisionId, issue.referenceId]),
+    [
+      ["cycle", "D-2", "D-1"],
+      ["cycle", "D-1", "D-2"],
+    ],
+  );
+});
+
+test("buildDecisionLineage reports dangling and one-sided references", async () => {
+  const lineage = await buildDecisionLineage(
+    "D-2",
+    viewer,
+    sourceFrom({
+      "D-1": { title: "v1", supersededByDecisionId: "D-9" },
+      "D-2": { title: "v2", supersedesDecisionId: "D-1", supersededByDecisionId: "D-3" },
+    }),
+  );
+
+  assert.deepEqual(
+    lineage?.issues.map((issue) => [issue.type, issue.decisionId, issue.referenceId]),
+    [
+      ["mismatch", "D-1", "D-2"],
+      ["dangling", "D-2", "D-3"],
+    ],
+  );
+});
+
+test("buildDecisionLineage redacts restricted versions and hides a restricted focus", async () => {
+  const decisions = {
+    "D-1": { title: "Secret v1", visibility: "private", ownerUid: "owner-1" },
+    "D-2": { title: "v2", supersedesDecisionId: "D-1" },
+  };
+
+  const lineage = await buildDecisionLineage("D-2", viewer, sourceFrom(decisions));
+  assert.equal(lineage?.chain[0]?.restricted, true);
+  assert.equal(lineage?.chain[0]?.title, "Restricted decision");
+
+  assert.equal(await buildDecisionLineage("D-1", viewer, sourceFrom(decisions)), null);
+  assert.equal(await buildDecisionLineage("D-404", viewer, sourceFrom(decisions)), null);
+});
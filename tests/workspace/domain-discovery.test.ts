@@ -0,0 +1,41 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  isDomainClaimAvailable,
+  normalizeDiscoveryDomain,
+  parseWorkspaceDiscovery,
+  validateDiscoveryDomain,
+} from "../../lib/workspace/domain-discovery.ts";
+
+test("validateDiscoveryDomain only accepts the actor's own company domain", () => {
+  assert.equal(validateDiscoveryDomain("acme.com", "sam@acme.com"), null);
+  assert.match(validateDiscoveryDomain("acme", "sam@acme.com") ?? "", /valid email domain/);
+  assert.match(
+    validateDiscoveryDomain("gmail.com", "sam@gmail.com") ?? "",
+    /public email provider/,
+  );
+  assert.match(validateDiscoveryDomain("globex.com", "sam@acme.com") ?? "", /only claim acme\.com/);
+});
+
+test("normalizeDiscoveryDomain lowercases and drops a leading @", () => {
+  assert.equal(normalizeDiscoveryDomain("  @Acme.COM "), "acme.com");
+});
+
+test("parseWorkspaceDiscovery turns discovery off without a domain", () => {
+  assert.deepEqual(parseWorkspaceDiscovery({ mode: "auto_join", autoJoinRole: "admin" }), {
+    domain: "",
+    mode: "off",
+    autoJoinRole: "member",
+  });
+  assert.deepEqual(parseWorkspaceDiscovery({ domain: "acme.com", mode: "request" }), {
+    domain: "acme.com",
+    mode: "request",
+    autoJoinRole: "member",
+  });
+});
+
+test("isDomainClaimAvailable rejects a domain claimed by another workspace", () => {
+  assert.equal(isDomainClaimAvailable(undefined, "ws-1"), true);
+  assert.equal(isDomainClaimAvailable({ workspaceId: "ws-1" }, "ws-1"), true);
+  assert.equal(isDomainClaimAvailable({ workspaceId: "ws-2" }, "ws-1"), false);
+});
@@ -0,0 +1,73 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  countInviteExpiry,
+  INVITE_REMINDER_WINDOW_HOURS,
+  isInviteReminderDue,
+  resolveInviteExpiryStage,
+} from "../../lib/workspace/invite-expiry-window.ts";
+
+const now = new Date("2026-05-01T12:00:00.000Z");
+
+function hoursFromNow(hours: number) {
+  return new Date(now.getTime() + hours * 60 * 60 * 1000);
+}
+
+test("resolveInviteExpiryStage places invites relative to the reminder window", () => {
+  assert.equal(resolveInviteExpiryStage(hoursFromNow(-1), now), "expired");
+  assert.equal(resolveInviteExpiryStage(now, now), "expiringSoon");
+  assert.equal(resolveInviteExpiryStage(hoursFromNow(1), now), "expiringSoon");
+  assert.equal(
+    resolveInviteExpiryStage(hoursFromNow(INVITE_REMINDER_WINDOW_HOURS), now),
+    "expiringSoon",
+  );
+  assert.equal(
+    resolveInviteExpiryStage(hoursFromNow(INVITE_REMINDER_WINDOW_HOURS + 1), now),
+    "active",
+  );
+});
+
+test("invites without an expiry never expire", () => {
+  assert.equal(resolveInviteExpiryStage(null, now), "active");
+  assert.equal(isInviteReminderDue({ expiresAt: null, reminderSentAt: null }, now), false);
+});
+
+test("an invite is reminded once inside the window", () => {
+  assert.equal(
+    isInviteReminderDue({ expiresAt: hoursFromNow(12), reminderSentAt: null }, now),
+    true,
+  );
+  assert.equal(
+    isInviteReminderDue({ expiresAt: hoursFromNow(12), reminderSentAt: hoursFromNow(-2) }, now),
+    false,
+  );
+  assert.equal(
+    isInviteReminderDue({ expiresAt: hoursFromNow(72), reminderSentAt: null }, now),
+    false,
+  );
+  assert.equal(
+    isInviteReminderDue({ expiresAt: hoursFromNow(-1), reminderSentAt: null }, now),
+    false,
+  );
+});
+
+test("countInviteExpiry counts unswept expired invites alongside marked ones", () => {
+  const counts = countInviteExpiry(
+    [
+      { expiresAt: hoursFromNow(-3), reminderSentAt: hoursFromNow(-30) },
+      { expiresAt: hoursFromNow(6), reminderSentAt: hoursFromNow(-1) },
+      { expiresAt: hoursFromNow(20), reminderSentAt: null },
+      { expiresAt: hoursFromNow(200), reminderSentAt: null },
+      { expiresAt: null, reminderSentAt: null },
+    ],
+    4,
+    now,
+  );
+
+  assert.deepEqual(counts, {
+    expiringSoonCount: 2,
+    remindedCount: 1,
+    expiredCount: 5,
+    reminderWindowHours: INVITE_REMINDER_WINDOW_HOURS,
+  });
+});
@@ -0,0 +1,43 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  isEmailAllowedByJoinLink,
+  resolveJoinLinkStatus,
+} from "../../lib/workspace/join-links.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test("resolveJoinLinkStatus reports revoked, expired and exhausted links", () => {
+  const future = new Date(Date.now() + DAY_MS);
+  const past = new Date(Date.now() - DAY_MS);
+
+  assert.equal(
+    resolveJoinLinkStatus({ status: "active", expiresAt: future, useCount: 3, maxUses: 25 }),
+    "active",
+  );
+  assert.equal(
+    resolveJoinLinkStatus({ status: "revoked", expiresAt: past, useCount: 25, maxUses: 25 }),
+    "revoked",
+  );
+  assert.equal(
+    resolveJoinLinkStatus({ status: "active", expiresAt: past, useCount: 25, maxUses: 25 }),
+    "expired",
+  );
+  assert.equal(
+    resolveJoinLinkStatus({ status: "active", expiresAt: future, useCount: 25, maxUses: 25 }),
+    "exhausted",
+  );
+});
+
+test("resolveJoinLinkStatus treats missing expiry and zero max uses as unlimited", () => {
+  assert.equal(
+    resolveJoinLinkStatus({ status: "active", expiresAt: null, useCount: 900, maxUses: 0 }),
+    "active",
+  );
+});
+
+test("isEmailAllowedByJoinLink matches the email domain", () => {
+  assert.equal(isEmailAllowedByJoinLink("sam@Acme.com", ["acme.com"]), true);
+  assert.equal(isEmailAllowedByJoinLink("sam@other.com", ["acme.com"]), false);
+  assert.equal(isEmailAllowedByJoinLink("sam@other.com", []), true);
+});
@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeNextOccurrenceDate,
+  describeMeetingRecurrence,
+  parseMeetingRecurrenceRule,
+} from "../../lib/workspace/meeting-recurrence.ts";
+
+test("parseMeetingRecurrenceRule normalizes stored rules", () => {
+  assert.deepEqual(parseMeetingRecurrenceRule({ frequency: " weekly ", weekdays: [1, 3] }), {
+    frequency: "weekly",
+    weekdays: [],
+  });
+  assert.deepEqual(parseMeetingRecurrenceRule({ frequency: "custom", weekdays: [5, 1, 1, 9] }), {
+    frequency: "custom",
+    weekdays: [1, 5],
+  });
+});
+
+test("parseMeetingRecurrenceRule rejects unknown or empty rules", () => {
+  assert.equal(parseMeetingRecurrenceRule(null), null);
+  assert.equal(parseMeetingRecurrenceRule({ frequency: "daily" }), null);
+  assert.equal(parseMeetingRecurrenceRule({ frequency: "custom", weekdays: [] }), null);
+});
+
+test("describeMeetingRecurrence uses the anchor date when there is one", () => {
+  assert.equal(
+    describeMeetingRecurrence({ frequency: "weekly", weekdays: [] }, "2026-10-19"),
+    "Weekly on Mon",
+  );
+  assert.equal(
+    describeMeetingRecurrence({ frequency: "biweekly", weekdays: [] }, "2026-10-21"),
+    "Every other Wed",
+  );
+  assert.equal(
+    describeMeetingRecurrence({ frequency: "monthly", weekdays: [] }, "2026-10-31"),
+    "Monthly on day 31",
+  );
+  assert.equal(
+    describeMeetingRecurrence({ frequency: "custom", weekdays: [1, 4] }),
+    "Every Mon, Thu",
+  );
+  assert.equal(
+    describeMeetingRecurrence({ frequency: "biweekly", weekdays: [] }),
+    "Every two weeks",
+  );
+});
+
+test("computeNextOccurrenceDate steps weekly and biweekly series", () => {
+  assert.equal(
+    computeNextOccurrenceDate({ frequency: "weekly", weekdays: [] }, "2026-12-28"),
+    "2027-01-04",
+  );
+  assert.equal(
+    computeNextOccurrenceDate({ frequency: "biweekly", weekdays: [] }, "2026-10-19"),
+    "2026-11-02",
+  );
+  assert.equal(computeNextOccurrenceDate({ frequency: "weekly", weekdays: [] }, "soon"), "");
+});
+
+test("computeNextOccurrenceDate keeps the anchor day for monthly series", () => {
+  const monthly = { frequency: "monthly" as const, weekdays: [] };
+
+  assert.equal(computeNextOccurrenceDate(monthly, "2026-01-31"), "2026-02-28");
+  assert.equal(computeNextOccurrenceDate(monthly, "2026-02-28", "2026-01-31"), "2026-03-31");
+  assert.equal(computeNextOccurrenceDate(monthly, "2027-12-15"), "2028-01-15");
+});
+
+test("computeNextOccurrenceDate finds the next listed weekday for custom series", () => {
+  const custom = { frequency: "custom" as const, weekdays: [1, 4] };
+
+  assert.equal(computeNextOccurrenceDate(custom, "2026-10-19"), "2026-10-22");
+  assert.equal(computeNextOccurrenceDate(custom, "2026-10-22"), "2026-10-26");
+  assert.equal(computeNextOccurrenceDate({ frequency: "custom", weekdays: [] }, "2026-10-19"), "");
+});
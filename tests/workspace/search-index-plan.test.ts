@@ -0,0 +1,107 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildSearchIndexOwnerKeys,
+  buildSearchIndexTokens,
+  listSearchQueryTerms,
+  planSearchIndexQuery,
+} from "../../lib/workspace/search-index-plan.ts";
+import { parseSearchQuery } from "../../lib/workspace/search-query.ts";
+
+const STATUS_IDS = ["todo", "in-review", "blocked", "done"];
+
+function plan(query: string, memberUidsByHandle = new Map<string, Set<string>>()) {
+  return planSearchIndexQuery(parseSearchQuery(query, STATUS_IDS), {
+    kind: "",
+    teamId: "",
+    updatedAfterEpoch: null,
+    memberUidsByHandle,
+  });
+}
+
+test("buildSearchIndexTokens stores words and prefixes of two or more characters", () => {
+  const tokens = buildSearchIndexTokens(["Pricing v2"]);
+
+  assert.ok(tokens.includes("pricing"));
+  assert.ok(tokens.includes("pr"));
+  assert.ok(tokens.includes("pric"));
+  assert.ok(tokens.includes("v2"));
+  assert.ok(!tokens.includes("p"));
+  assert.ok(!tokens.includes("v"));
+});
+
+test("buildSearchIndexOwnerKeys stores the owner uid and whole name words", () => {
+  assert.deepEqual(buildSearchIndexOwnerKeys("uid-1", "Sam Rivera uid-1"), [
+    "uid-1",
+    "sam",
+    "rivera",
+    "uid",
+    "1",
+  ]);
+  assert.deepEqual(buildSearchIndexOwnerKeys("", ""), []);
+});
+
+test("listSearchQueryTerms drops terms shorter than two characters", () => {
+  assert.deepEqual(listSearchQueryTerms(parseSearchQuery('a pricing "q3 launch"', [])), [
+    "pricing",
+    "q3",
+    "launch",
+  ]);
+});
+
+test("planSearchIndexQuery matches the longest term in Firestore", () => {
+  const result = plan("q3 pricing launch");
+
+  assert.equal(result.primaryTerm, "pricing");
+  assert.deepEqual(result.otherTerms, ["launch", "q3"]);
+  assert.equal(result.needsTokens, true);
+  assert.equal(result.hasResidualChecks, true);
+});
+
+test("planSearchIndexQuery pushes status, priority, archived and owner filters down", () => {
+  const result = plan(
+    "status:blocked priority:high is:archived owner:@sam",
+    new Map([["sam", new Set(["uid-sam"])]]),
+  );
+
+  assert.deepEqual(result.status, { field: "statusCategory", value: "blocked" });
+  assert.equal(result.priority, "high");
+  assert.equal(result.archived, true);
+  assert.deepEqual(result.ownerKeys, ["uid-sam", "sam"]);
+  assert.equal(result.primaryTerm, "");
+  assert.equal(result.hasResidualChecks, false);
+});
+
+test("planSearchIndexQuery filters workflow status ids on the status key", () => {
+  assert.deepEqual(plan("status:in-review").status, { field: "statusKey", value: "inreview" });
+});
+
+test("planSearchIndexQuery leaves owner filters to the read when a term is matched", () => {
+  const result = plan("pricing owner:@sam", new Map([["sam", new Set(["uid-sam"])]]));
+
+  assert.deepEqual(result.ownerKeys, []);
+  assert.equal(result.hasResidualChecks, true);
+});
+
+test("planSearchIndexQuery orders due searches by due date over a UTC day range", () => {
+  const result = planSearchIndexQuery(parseSearchQuery("due:>=2026-11-01 due:<2026-11-15", []), {
+    kind: "action",
+    teamId: "",
+    updatedAfterEpoch: Date.parse("2026-10-01T00:00:00.000Z"),
+    memberUidsByHandle: new Map(),
+  });
+
+  assert.equal(result.orderBy, "dueAt");
+  assert.equal(result.dueStartEpoch, Date.parse("2026-11-01T00:00:00.000Z"));
+  assert.equal(result.dueEndEpoch, Date.parse("2026-11-15T00:00:00.000Z"));
+  assert.equal(result.updatedAfterEpoch, null);
+  assert.equal(result.hasResidualChecks, true);
+});
+
+test("planSearchIndexQuery keeps filter-only searches without residual checks", () => {
+  const result = plan("priority:low");
+
+  assert.equal(result.orderBy, "updatedAt");
+  assert.equal(result.hasResidualChecks, false);
+  assert.equal(result.needsText, false);
+});
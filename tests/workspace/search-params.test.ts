@@ -0,0 +1,44 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseSearchScope,
+  parseSearchSortMode,
+  parseUpdatedWindow,
+  searchHref,
+} from "../../lib/workspace/search-params.ts";
+
+test("saved view params fall back to their defaults", () => {
+  assert.equal(parseSearchScope(["Action", "meeting"]), "action");
+  assert.equal(parseSearchScope("people"), "all");
+  assert.equal(parseUpdatedWindow(" 30D "), "30d");
+  assert.equal(parseUpdatedWindow("90d"), "all");
+  assert.equal(parseSearchSortMode("recent"), "recent");
+  assert.equal(parseSearchSortMode(undefined), "relevance");
+});
+
+test("searchHref keeps only non-default params so pinned links stay short", () => {
+  assert.equal(
+    searchHref({
+      workspaceSlug: "acme",
+      query: "",
+      kind: "all",
+      updated: "all",
+      sort: "relevance",
+      team: "",
+    }),
+    "/acme/search",
+  );
+  assert.equal(
+    searchHref({
+      workspaceSlug: "acme",
+      query: "owner:@sam status:blocked",
+      kind: "action",
+      updated: "7d",
+      sort: "recent",
+      team: "T-1",
+      after: "cursor",
+    }),
+    "/acme/search?q=owner%3A%40sam+status%3Ablocked" +
+      "&kind=action&updated=7d&sort=recent&team=T-1&after=cursor",
+  );
+});
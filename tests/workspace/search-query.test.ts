@@ -0,0 +1,263 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildMemberHandleKeys,
+  extractSearchWords,
+  matchesSearchQueryFilters,
+  normalizeSearchTerm,
+  parseSearchQuery,
+  removeSearchQueryPart,
+  type SearchQueryRecord,
+} from "../../lib/workspace/search-query.ts";
+
+function buildRecord(overrides: Partial<SearchQueryRecord> = {}): SearchQueryRecord {
+  return {
+    status: "open",
+    statusCategory: "open",
+    ownerUid: "",
+    ownerText: "",
+    priority: "medium",
+    tags: [],
+    dueAtEpoch: 0,
+    archived: false,
+    meetingId: "",
+    customFields: {},
+    peopleUids: [],
+    peopleText: "",
+    searchText: "",
+    tokens: [],
+    ...overrides,
+  };
+}
+
+test("normalizeSearchTerm lowercases and trims punctuation", () => {
+  assert.equal(normalizeSearchTerm("D-12,"), "d-12");
+  assert.equal(normalizeSearchTerm("(Launch)"), "launch");
+  assert.equal(normalizeSearchTerm("abcdefghijklmnopqrstuvwxyz"), "abcdefghijklmnop");
+});
+
+test("extractSearchWords keeps whole words, their parts and email local parts", () => {
+  assert.deepEqual(extractSearchWords("Ship D-12, then ping maya.r@acme.com"), [
+    "ship",
+    "d-12",
+    "d",
+    "12",
+    "then",
+    "ping",
+    "maya.r@acme.com",
+    "maya.r",
+    "maya",
+    "r",
+    "acme",
+    "com",
+  ]);
+});
+
+test("buildMemberHandleKeys matches handles and whole name words only", () => {
+  const keys = buildMemberHandleKeys({
+    uid: "uid-sam",
+    displayName: "Sam Lee",
+    email: "Sam.Lee@acme.com",
+    mentionToken: "sam-lee",
+  });
+
+  assert.equal(keys.has("sam"), true);
+  assert.equal(keys.has("lee"), true);
+  assert.equal(keys.has("sam-lee"), true);
+  assert.equal(keys.has("samlee"), true);
+  assert.equal(keys.has("sam.lee"), true);
+  assert.equal(keys.has("uid-sam"), true);
+  assert.equal(
+    buildMemberHandleKeys({
+      uid: "uid-ros",
+      displayName: "Rosamund Pike",
+      email: "ro@acme.com",
+      mentionToken: "rosamund-pike",
+    }).has("sam"),
+    false,
+  );
+});
+
+test("parseSearchQuery splits terms, phrases, exclusions and mentions", () => {
+  const parsed = parseSearchQuery('Budget "launch  plan" -draft -"old notes" @Maya.R');
+
+  assert.deepEqual(parsed.terms, ["budget"]);
+  assert.deepEqual(parsed.phrases, ["launch plan"]);
+  assert.deepEqual(parsed.excludedTerms, ["draft", "old notes"]);
+  assert.deepEqual(parsed.mentions, ["maya.r"]);
+  assert.deepEqual(
+    parsed.parts.map((part) => part.kind),
+    ["term", "phrase", "exclude", "exclude", "mention"],
+  );
+  assert.equal(parsed.errors.length, 0);
+});
+
+test("parseSearchQuery reads filters and keeps URLs and times as terms", () => {
+  const parsed = parseSearchQuery(
+    'status:In-Progress priority:HIGH tag:"launch plan" due:<=2026-11-01 is:archived ' +
+      "owner:@sam https://example.com 10:30",
+  );
+
+  assert.deepEqual(
+    parsed.filters.map(({ field, value, operator }) => ({ field, value, operator })),
+    [
+      { field: "status", value: "inprogress", operator: "=" },
+      { field: "priority", value: "high", operator: "=" },
+      { field: "tag", value: "launch plan", operator: "=" },
+      { field: "due", value: "2026-11-01", operator: "<=" },
+      { field: "is", value: "archived", operator: "=" },
+      { field: "owner", value: "sam", operator: "=" },
+    ],
+  );
+  assert.deepEqual(parsed.terms, ["https://example.com", "10:30"]);
+  assert.deepEqual(
+    parsed.parts.filter((part) => part.kind === "filter").map((part) => part.label),
+    [
+      "Status: inprogress",
+      "Priority: high",
+      "Tag: launch plan",
+      "Due <= 2026-11-01",
+      "Archived",
+      "Owner @sam",
+    ],
+  );
+});
+
+test("parseSearchQuery accepts workflow status ids passed by the workspace", () => {
+  assert.equal(parseSearchQuery("status:in-review").errors.length, 1);
+
+  const parsed = parseSearchQuery("status:in-review", ["in-review"]);
+  assert.equal(parsed.errors.length, 0);
+  assert.equal(parsed.filters[0]?.value, "inreview");
+});
+
+test("parseSearchQuery parses custom field filters", () => {
+  const parsed = parseSearchQuery("field:customer=Acme field:cost-impact>1000 field:reviewer=@Lee");
+
+  assert.deepEqual(
+    parsed.filters.map(({ key, value, operator }) => ({ key, value, operator })),
+    [
+      { key: "customer", value: "acme", operator: "=" },
+      { key: "cost-impact", value: "1000", operator: ">" },
+      { key: "reviewer", value: "@lee", operator: "=" },
+    ],
+  );
+  assert.equal(parseSearchQuery("field:launch").filters[0]?.value, "");
+});
+
+test("parseSearchQuery reports invalid filters as errors", () => {
+  const parsed = parseSearchQuery(
+    "color:red priority:urgent due:tomorrow status: field:cost>abc owner:@ is:open",
+  );
+
+  assert.equal(parsed.filters.length, 0);
+  assert.deepEqual(
+    parsed.errors.map((error) => error.raw),
+    [
+      "color:red",
+      "priority:urgent",
+      "due:tomorrow",
+      "status:",
+      "field:cost>abc",
+      "owner:@",
+      "is:open",
+    ],
+  );
+  assert.ok(parsed.parts.every((part) => part.kind === "invalid" && part.error));
+});
+
+test("removeSearchQueryPart rebuilds the query without the removed part", () => {
+  const parsed = parseSearchQuery('budget "launch plan" priority:high');
+
+  assert.equal(removeSearchQueryPart(parsed, 1), "budget priority:high");
+  assert.equal(removeSearchQueryPart(parsed, 2), 'budget "launch plan"');
+});
+
+test("matchesSearchQueryFilters checks status, tags, due dates and archived records", () => {
+  const record = buildRecord({
+    status: "in-review",
+    tags: ["Launch"],
+    dueAtEpoch: Date.UTC(2026, 9, 20),
+  });
+
+  const matches = (query: string, target = record) =>
+    matchesSearchQueryFilters(target, parseSearchQuery(query, ["in-review"]), new Map());
+
+  assert.equal(matches("status:in-review tag:launch due:<2026-11-01"), true);
+  assert.equal(matches("status:open"), true);
+  assert.equal(matches("status:closed"), false);
+  assert.equal(matches("due:>2026-10-20"), false);
+  assert.equal(matches("due:2026-10-20"), true);
+  assert.equal(matches("is:archived"), false);
+  assert.equal(matches("is:archived", { ...record, archived: true }), true);
+  assert.equal(matches("", { ...record, archived: true }), false);
+});
+
+test("matchesSearchQueryFilters matches mentions by account or whole name words", () => {
+  const memberUidsByHandle = new Map([["sam", new Set(["uid-sam"])]]);
+  const matches = (record: SearchQueryRecord) =>
+    matchesSearchQueryFilters(record, parseSearchQuery("@sam"), memberUidsByHandle);
+
+  assert.equal(matches(buildRecord({ peopleUids: ["uid-ana", "uid-sam"] })), true);
+  assert.equal(matches(buildRecord({ peopleText: "sam external" })), true);
+  assert.equal(matches(buildRecord({ peopleText: "rosamund" })), false);
+});
+
+test("matchesSearchQueryFilters resolves owners by uid or stored name", () => {
+  const ownerUidsByMention = new Map([["sam", new Set(["uid-sam"])]]);
+  const parsed = parseSearchQuery("owner:@sam");
+
+  assert.equal(
+    matchesSearchQueryFilters(buildRecord({ ownerUid: "uid-sam" }), parsed, ownerUidsByMention),
+    true,
+  );
+  assert.equal(
+    matchesSearchQueryFilters(buildRecord({ ownerText: "sam lee" }), parsed, ownerUidsByMention),
+    true,
+  );
+  assert.equal(
+    matchesSearchQueryFilters(buildRecord({ ownerUid: "uid-ana" }), parsed, ownerUidsByMention),
+    false,
+  );
+  assert.equal(
+    matchesSearchQueryFilters(buildRecord({ ownerText: "rosamund" }), parsed, ownerUidsByMention),
+    false,
+  );
+});
+
+test("matchesSearchQueryFilters compares custom field values", () => {
+  const record = buildRecord({
+    customFields: {
+      "cost-impact": ["1500"],
+      "go-live": ["2026-12-01"],
+      reviewer: ["uid-lee"],
+    },
+  });
+  const ownerUidsByMention = new Map([["lee", new Set(["UID-LEE"])]]);
+  const matches = (query: string) =>
+    matchesSearchQueryFilters(record, parseSearchQuery(query), ownerUidsByMention);
+
+  assert.equal(matches("field:cost-impact>1000"), true);
+  assert.equal(matches("field:cost-impact<=1000"), false);
+  assert.equal(matches("field:go-live<2027-01-01"), true);
+  assert.equal(matches("field:reviewer=@lee"), true);
+  assert.equal(matches("field:customer"), false);
+});
+
+test("matchesSearchQueryFilters applies phrases and exclusions", () => {
+  const record = buildRecord({
+    searchText: "ship the launch plan before review",
+    tokens: ["ship", "the", "launch", "plan", "before", "review"],
+  });
+  const matches = (query: string) =>
+    matchesSearchQueryFilters(record, parseSearchQuery(query), new Map());
+
+  assert.equal(matches('"launch plan"'), true);
+  assert.equal(matches('"plan launch"'), false);
+  assert.equal(matches("-draft"), true);
+  assert.equal(matches("-review"), false);
+  assert.equal(matches('-"before review"'), false);
+  // Exclusions compare whole words, not the prefixes the index also stores.
+  assert.equal(matches("-rev"), true);
+  assert.equal(matches("-a"), true);
+});
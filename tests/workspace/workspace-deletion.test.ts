@@ -0,0 +1,38 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  isWorkspacePendingDeletion,
+  isWorkspacePurgeDue,
+  parseWorkspaceDeletion,
+  resolveWorkspacePurgeAfter,
+} from "../../lib/workspace/workspace-deletion.ts";
+
+const requestedAt = new Date("2026-10-01T12:00:00.000Z");
+
+test("resolveWorkspacePurgeAfter ends the grace window 30 days after the request", () => {
+  assert.equal(
+    resolveWorkspacePurgeAfter(requestedAt).toISOString(),
+    "2026-10-31T12:00:00.000Z",
+  );
+});
+
+test("isWorkspacePurgeDue waits for the whole grace window", () => {
+  const deletion = parseWorkspaceDeletion({
+    status: "scheduled",
+    requestedAt: requestedAt.toISOString(),
+    purgeAfter: resolveWorkspacePurgeAfter(requestedAt).toISOString(),
+  });
+
+  assert.equal(isWorkspacePurgeDue(deletion, new Date("2026-10-31T11:59:59.000Z")), false);
+  assert.equal(isWorkspacePurgeDue(deletion, new Date("2026-10-31T12:00:00.000Z")), true);
+  assert.equal(isWorkspacePurgeDue(deletion, new Date("2026-11-15T00:00:00.000Z")), true);
+});
+
+test("restored or undated deletions are never purged", () => {
+  const now = new Date("2027-01-01T00:00:00.000Z");
+
+  assert.equal(isWorkspacePendingDeletion({ status: "restored" }), false);
+  assert.equal(parseWorkspaceDeletion({ status: "restored", purgeAfter: "2026-10-01" }), null);
+  assert.equal(isWorkspacePurgeDue(parseWorkspaceDeletion({ status: "restored" }), now), false);
+  assert.equal(isWorkspacePurgeDue(parseWorkspaceDeletion({ status: "scheduled" }), now), false);
+});